@@ -22,6 +22,7 @@ import AdminCategories from "@/pages/admin-categories";
 import AdminBranches from "@/pages/admin-branches";
 import AdminExpenses from "@/pages/admin-expenses";
 import AdminSettings from "@/pages/admin-settings";
+import AdminOutbox from "@/pages/admin-outbox";
 import AdminDemand from "@/pages/admin-demand";
 import PosMain from "@/pages/pos-main";
 import PosTables from "@/pages/pos-tables";
@@ -40,9 +41,15 @@ import CustomerAccount from "@/pages/customer-account";
 import CustomerAddresses from "@/pages/customer-addresses";
 import CustomerFavorites from "@/pages/customer-favorites";
 import CustomerLoyalty from "@/pages/customer-loyalty";
+import CustomerWallet from "@/pages/customer-wallet";
 import CustomerOrders from "@/pages/customer-orders";
 import CustomerCheckout from "@/pages/customer-checkout";
 import AdminInventory from "@/pages/admin-inventory";
+import AdminIngredients from "@/pages/admin-ingredients";
+import AdminPurchaseOrders from "@/pages/admin-purchase-orders";
+import AdminStockTransfers from "@/pages/admin-stock-transfers";
+import AdminStockTakes from "@/pages/admin-stock-takes";
+import AdminLoyalty from "@/pages/admin-loyalty";
 import AdminSuppliers from "@/pages/admin-suppliers";
 import AdminRefunds from "@/pages/admin-refunds";
 import AdminWastage from "@/pages/admin-wastage";
@@ -89,6 +96,11 @@ function Router() {
           <KitchenDisplay />
         </ProtectedRoute>
       </Route>
+      <Route path="/admin/kitchen/station/:stationId">
+        <ProtectedRoute requireRole={["admin", "staff"]}>
+          <KitchenDisplay />
+        </ProtectedRoute>
+      </Route>
       <Route path="/admin/pos-sessions">
         <ProtectedRoute requireRole={["admin", "staff"]}>
           <PosSessions />
@@ -189,6 +201,16 @@ function Router() {
           <AdminSettings />
         </ProtectedRoute>
       </Route>
+      <Route path="/admin/outbox">
+        <ProtectedRoute requireRole={["admin"]}>
+          <AdminOutbox />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/loyalty">
+        <ProtectedRoute requireRole={["admin", "staff"]}>
+          <AdminLoyalty />
+        </ProtectedRoute>
+      </Route>
       <Route path="/admin/customers">
         <ProtectedRoute requireRole={["admin", "staff"]}>
           <AdminCustomers />
@@ -209,6 +231,26 @@ function Router() {
           <AdminInventory />
         </ProtectedRoute>
       </Route>
+      <Route path="/admin/ingredients">
+        <ProtectedRoute requireRole={["admin", "staff"]}>
+          <AdminIngredients />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/purchase-orders">
+        <ProtectedRoute requireRole={["admin", "staff"]}>
+          <AdminPurchaseOrders />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/stock-transfers">
+        <ProtectedRoute requireRole={["admin", "staff"]}>
+          <AdminStockTransfers />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/stock-takes">
+        <ProtectedRoute requireRole={["admin", "staff"]}>
+          <AdminStockTakes />
+        </ProtectedRoute>
+      </Route>
       <Route path="/admin/suppliers">
         <ProtectedRoute requireRole={["admin", "staff"]}>
           <AdminSuppliers />
@@ -289,6 +331,11 @@ function Router() {
           <CustomerLoyalty />
         </ProtectedRoute>
       </Route>
+      <Route path="/account/wallet">
+        <ProtectedRoute requireRole={["customer"]}>
+          <CustomerWallet />
+        </ProtectedRoute>
+      </Route>
       <Route path="/account/orders">
         <ProtectedRoute requireRole={["customer"]}>
           <CustomerOrders />
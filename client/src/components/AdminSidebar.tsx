@@ -1,4 +1,4 @@
-import { LayoutDashboard, ShoppingBag, UtensilsCrossed, Users, Settings, LogOut, Volume2, VolumeX, FolderOpen, Receipt, TrendingUp, Building2, CreditCard, Table2, ChefHat, Calculator, BarChart3, Bike, Truck, MapPin, Tag, DollarSign, Layers, Package, Store, Trash2, RefreshCcw, Calendar, Clock, FileText, MessageSquare, Mail, Target, Smartphone, PieChart, Heart, UserCircle, ClipboardList } from "lucide-react";
+import { LayoutDashboard, ShoppingBag, UtensilsCrossed, Users, Settings, LogOut, Volume2, VolumeX, FolderOpen, Receipt, TrendingUp, Building2, CreditCard, Table2, ChefHat, Calculator, BarChart3, Bike, Truck, MapPin, Tag, DollarSign, Layers, Package, Store, Trash2, RefreshCcw, Calendar, Clock, FileText, MessageSquare, Mail, Target, Smartphone, PieChart, Heart, UserCircle, ClipboardList, RotateCcw, Wheat, ArrowLeftRight, ClipboardCheck, Crown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Link, useLocation } from "wouter";
@@ -53,7 +53,11 @@ export default function AdminSidebar({ soundEnabled = true, onToggleSound, onLog
     { icon: Receipt, label: "Expenses", path: "/admin/expenses", permissions: ["expenses.view"] },
     // Inventory & Suppliers
     { icon: Package, label: "Inventory", path: "/admin/inventory", permissions: ["inventory.view"] },
+    { icon: Wheat, label: "Ingredients", path: "/admin/ingredients", permissions: ["inventory.view"] },
     { icon: Store, label: "Suppliers", path: "/admin/suppliers", permissions: ["suppliers.view"] },
+    { icon: ClipboardList, label: "Purchase Orders", path: "/admin/purchase-orders", permissions: ["suppliers.view", "inventory.view"] },
+    { icon: ArrowLeftRight, label: "Stock Transfers", path: "/admin/stock-transfers", permissions: ["inventory.view", "inventory.transfer_stock"] },
+    { icon: ClipboardCheck, label: "Stock Takes", path: "/admin/stock-takes", permissions: ["inventory.view"] },
     { icon: Trash2, label: "Wastage", path: "/admin/wastage", permissions: ["inventory.manage_wastage"] },
     // Refunds
     { icon: RefreshCcw, label: "Refunds", path: "/admin/refunds", permissions: ["refunds.view"] },
@@ -67,6 +71,7 @@ export default function AdminSidebar({ soundEnabled = true, onToggleSound, onLog
     { icon: Tag, label: "Promo Codes", path: "/admin/promo-codes", permissions: ["marketing.view_promos"] },
     // Loyalty & Customers
     { icon: Heart, label: "Saved Customers", path: "/admin/customers", permissions: ["loyalty.view_customers"] },
+    { icon: Crown, label: "Loyalty Program", path: "/admin/loyalty", permissions: ["loyalty.manage_tiers", "loyalty.manage_rewards", "loyalty.view_customers", "loyalty.manage_gift_cards"] },
     // Delivery Zones
     { icon: DollarSign, label: "Delivery Charges", path: "/admin/delivery-charges", permissions: ["delivery_zones.view"] },
     // Users & Shifts
@@ -80,6 +85,7 @@ export default function AdminSidebar({ soundEnabled = true, onToggleSound, onLog
     { icon: Target, label: "Customer Segments", path: "/admin/customer-segments", permissions: ["segments.view"] },
     // System Settings
     { icon: Settings, label: "Settings", path: "/admin/settings", permissions: ["settings.view"] },
+    { icon: RotateCcw, label: "Side Effects", path: "/admin/outbox", permissions: [], roles: ["admin"] },
   ];
 
   const canAccessItem = (item: MenuItem): boolean => {
@@ -17,6 +17,7 @@ interface DiscountDialogProps {
   orderNumber: string;
   subtotal: number;
   branchId: string;
+  promotionDiscount?: number; // Already taken off by the order's promotions - the manual discount is added to it
   onDiscountApplied?: () => void;
 }
 
@@ -27,6 +28,7 @@ export function DiscountDialog({
   orderNumber,
   subtotal,
   branchId,
+  promotionDiscount = 0,
   onDiscountApplied,
 }: DiscountDialogProps) {
   const { toast } = useToast();
@@ -36,27 +38,33 @@ export function DiscountDialog({
 
   const calculateDiscount = () => {
     const value = parseFloat(discountValue) || 0;
+    const remaining = Math.max(0, subtotal - promotionDiscount);
     if (discountType === "percentage") {
-      return Math.min((subtotal * value) / 100, subtotal);
+      return Math.min((subtotal * value) / 100, remaining);
     }
-    return Math.min(value, subtotal);
+    return Math.min(value, remaining);
   };
 
   const calculatedDiscount = calculateDiscount();
-  const newTotal = Math.max(0, subtotal - calculatedDiscount);
+  const newTotal = Math.max(0, subtotal - promotionDiscount - calculatedDiscount);
 
   const applyDiscountMutation = useMutation({
     mutationFn: async () => {
       const response = await fetch(`/api/orders/${orderId}/discount`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
+        credentials: "include",
         body: JSON.stringify({
           discount: calculatedDiscount,
           discountReason: discountReason || `${discountType === "percentage" ? discountValue + "%" : "PKR " + discountValue} discount`,
         }),
       });
 
-      if (!response.ok) throw new Error("Failed to apply discount");
+      // Stacking rules and the discount cap are explained in the error
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || "Failed to apply discount");
+      }
       return response.json();
     },
     onSuccess: () => {
@@ -123,6 +131,12 @@ export function DiscountDialog({
               <span className="text-sm text-muted-foreground">Subtotal</span>
               <span className="text-sm font-semibold">PKR {subtotal.toFixed(2)}</span>
             </div>
+            {promotionDiscount > 0 && (
+              <div className="flex justify-between mt-2">
+                <span className="text-sm text-muted-foreground">Promotions</span>
+                <span className="text-sm font-semibold" data-testid="text-promotion-discount">- PKR {promotionDiscount.toFixed(2)}</span>
+              </div>
+            )}
           </div>
 
           {/* Discount Type */}
@@ -203,6 +217,12 @@ export function DiscountDialog({
                 <span>Subtotal</span>
                 <span>PKR {subtotal.toFixed(2)}</span>
               </div>
+              {promotionDiscount > 0 && (
+                <div className="flex justify-between text-sm text-destructive">
+                  <span>Promotions</span>
+                  <span>- PKR {promotionDiscount.toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-sm text-destructive">
                 <span>Discount</span>
                 <span data-testid="text-discount-amount">- PKR {calculatedDiscount.toFixed(2)}</span>
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import type { GiftCard } from "@shared/schema";
+
+interface GiftCardSaleDialogProps {
+  open: boolean;
+  onClose: () => void;
+  branchId: string;
+}
+
+// Sell a gift card at the counter - it is paid for there and then and active straight away
+export function GiftCardSaleDialog({ open, onClose, branchId }: GiftCardSaleDialogProps) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<"cash" | "card" | "jazzcash">("cash");
+  const [paymentReference, setPaymentReference] = useState("");
+  const [recipientName, setRecipientName] = useState("");
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const [message, setMessage] = useState("");
+  const [soldCard, setSoldCard] = useState<GiftCard | null>(null);
+
+  const reset = () => {
+    setAmount("");
+    setPaymentMethod("cash");
+    setPaymentReference("");
+    setRecipientName("");
+    setRecipientEmail("");
+    setMessage("");
+    setSoldCard(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const sellMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/pos/gift-cards", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          amount: parseFloat(amount),
+          paymentMethod,
+          paymentReference: paymentReference || undefined,
+          recipientName: recipientName || undefined,
+          recipientEmail: recipientEmail || undefined,
+          message: message || undefined,
+          branchId,
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || "Failed to sell gift card");
+      }
+      return response.json() as Promise<GiftCard>;
+    },
+    onSuccess: (card) => {
+      setSoldCard(card);
+      toast({
+        title: "Gift card sold",
+        description: `${card.code} is active with PKR ${parseFloat(card.balance).toFixed(2)}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Gift card not sold",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyCode = () => {
+    if (!soldCard) return;
+    navigator.clipboard.writeText(soldCard.code);
+    toast({ title: "Copied", description: "Gift card code copied to clipboard" });
+  };
+
+  const amountValue = parseFloat(amount);
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md" data-testid="dialog-gift-card-sale">
+        <DialogHeader>
+          <DialogTitle>Sell Gift Card</DialogTitle>
+          <DialogDescription>Take payment for the card's value - the card can be used straight away.</DialogDescription>
+        </DialogHeader>
+
+        {soldCard ? (
+          <div className="space-y-4 text-center py-4">
+            <p className="text-sm text-muted-foreground">Gift card code</p>
+            <div className="flex items-center justify-center gap-2">
+              <p className="text-2xl font-mono font-bold" data-testid="text-gift-card-code">{soldCard.code}</p>
+              <Button size="icon" variant="ghost" onClick={copyCode} data-testid="button-copy-gift-card-code">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-lg font-semibold" data-testid="text-gift-card-value">
+              PKR {parseFloat(soldCard.balance).toFixed(2)}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="gift-card-sale-amount">Value (PKR)</Label>
+              <Input
+                id="gift-card-sale-amount"
+                type="number"
+                min="1"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-gift-card-sale-amount"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Paid By</Label>
+              <Select value={paymentMethod} onValueChange={(value: "cash" | "card" | "jazzcash") => setPaymentMethod(value)}>
+                <SelectTrigger data-testid="select-gift-card-payment-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="card">Card</SelectItem>
+                  <SelectItem value="jazzcash">JazzCash</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {paymentMethod !== "cash" && (
+              <div className="space-y-2">
+                <Label htmlFor="gift-card-payment-reference">Payment Reference</Label>
+                <Input
+                  id="gift-card-payment-reference"
+                  value={paymentReference}
+                  onChange={(e) => setPaymentReference(e.target.value)}
+                  data-testid="input-gift-card-payment-reference"
+                />
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="gift-card-recipient-name">Recipient</Label>
+                <Input
+                  id="gift-card-recipient-name"
+                  value={recipientName}
+                  onChange={(e) => setRecipientName(e.target.value)}
+                  data-testid="input-gift-card-recipient-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="gift-card-recipient-email">Recipient Email</Label>
+                <Input
+                  id="gift-card-recipient-email"
+                  type="email"
+                  value={recipientEmail}
+                  onChange={(e) => setRecipientEmail(e.target.value)}
+                  data-testid="input-gift-card-recipient-email"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gift-card-message">Message</Label>
+              <Textarea
+                id="gift-card-message"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                data-testid="textarea-gift-card-message"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {soldCard ? (
+            <>
+              <Button variant="outline" onClick={reset} data-testid="button-sell-another-gift-card">
+                Sell Another
+              </Button>
+              <Button onClick={handleClose} data-testid="button-done-gift-card">Done</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleClose}>Cancel</Button>
+              <Button
+                onClick={() => sellMutation.mutate()}
+                disabled={!(amountValue > 0) || sellMutation.isPending}
+                data-testid="button-sell-gift-card"
+              >
+                {sellMutation.isPending ? "Selling..." : "Take Payment"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,7 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Upload, Layers } from "lucide-react";
-import type { Category } from "@shared/schema";
+import type { Category, KitchenStation } from "@shared/schema";
 
 const menuItemSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -21,6 +21,8 @@ const menuItemSchema = z.object({
   isAvailable: z.boolean().default(true),
   imageUrl: z.string().optional(),
   variantGroupIds: z.array(z.string()).default([]),
+  kitchenStationId: z.string().nullable().optional(),
+  prepTimeMinutes: z.number().int().min(1).nullable().optional(),
 });
 
 type MenuItemFormData = z.infer<typeof menuItemSchema>;
@@ -46,6 +48,10 @@ export default function MenuItemForm({ initialData, categories, onSubmit, onCanc
     queryKey: ["/api/variant-groups"],
   });
 
+  const { data: kitchenStations = [] } = useQuery<KitchenStation[]>({
+    queryKey: ["/api/kitchen-stations"],
+  });
+
   const { data: existingVariants = [] } = useQuery<Array<{ variantGroupId: string }>>({
     queryKey: ["/api/menu-items", initialData?.id, "variants"],
     queryFn: async () => {
@@ -70,6 +76,8 @@ export default function MenuItemForm({ initialData, categories, onSubmit, onCanc
       isAvailable: initialData?.isAvailable ?? true,
       imageUrl: initialData?.imageUrl || "",
       variantGroupIds: initialData?.variantGroupIds || [],
+      kitchenStationId: initialData?.kitchenStationId || null,
+      prepTimeMinutes: initialData?.prepTimeMinutes ?? null,
     },
   });
 
@@ -187,6 +195,64 @@ export default function MenuItemForm({ initialData, categories, onSubmit, onCanc
           />
         </div>
 
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="kitchenStationId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Kitchen Station</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === "category" ? null : value)}
+                  value={field.value || "category"}
+                >
+                  <FormControl>
+                    <SelectTrigger data-testid="select-kitchen-station">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="category">Use category station</SelectItem>
+                    {kitchenStations.map((station) => (
+                      <SelectItem key={station.id} value={station.id}>
+                        {station.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription className="text-xs">
+                  Kitchen tickets for this item are sent to this station
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="prepTimeMinutes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Prep Time Target (min)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                    placeholder="Default"
+                    data-testid="input-prep-time"
+                  />
+                </FormControl>
+                <FormDescription className="text-xs">
+                  Leave blank to use the kitchen default
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
         <FormField
           control={form.control}
           name="variantGroupIds"
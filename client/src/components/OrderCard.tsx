@@ -6,6 +6,22 @@ import { Separator } from "@/components/ui/separator";
 
 export type OrderStatus = "pending" | "preparing" | "ready" | "delivered" | "cancelled";
 
+// Collapse the full order lifecycle (shared/orderLifecycle.ts) onto the card's columns
+export function toOrderCardStatus(status: string): OrderStatus {
+  switch (status) {
+    case "confirmed":
+      return "pending";
+    case "out_for_delivery":
+      return "ready";
+    case "completed":
+      return "delivered";
+    case "rejected":
+      return "cancelled";
+    default:
+      return status as OrderStatus;
+  }
+}
+
 export interface Order {
   id: string;
   orderNumber: string;
@@ -6,10 +6,11 @@ import { Input } from "@/components/ui/input";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Banknote, CreditCard, Smartphone, Plus, X } from "lucide-react";
-import { useMutation } from "@tanstack/react-query";
+import { Banknote, CreditCard, Smartphone, Plus, X, Gift, Wallet } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { roundMoney } from "@shared/pricing";
 
 interface PaymentMethod {
   id: string;
@@ -17,6 +18,25 @@ interface PaymentMethod {
   amount: number;
 }
 
+// Loyalty points and store credit the order's customer can pay with (GET /api/orders/:id/points-tender)
+interface OrderPointsTender {
+  customer: { id: string; fullName: string } | null;
+  paid: number; // Already paid with points, store credit or gift cards
+  amountDue: number;
+  enabled?: boolean;
+  availablePoints?: number;
+  redemptionRate?: number; // Points worth Rs. 1
+  maxPoints?: number;
+  storeCredit?: { balance: number; maxAmount: number };
+}
+
+// Result of a gift card balance check (GET /api/gift-cards/:code/balance)
+interface GiftCardBalance {
+  code: string;
+  status: string;
+  balance: number;
+}
+
 interface PaymentDialogProps {
   open: boolean;
   onClose: () => void;
@@ -43,14 +63,69 @@ export function PaymentDialog({
   const [splitPayments, setSplitPayments] = useState<PaymentMethod[]>([
     { id: "1", type: "cash", amount: 0 },
   ]);
+  const [pointsToUse, setPointsToUse] = useState("");
+  const [storeCreditToUse, setStoreCreditToUse] = useState("");
+  const [giftCardCode, setGiftCardCode] = useState("");
+  const [giftCard, setGiftCard] = useState<GiftCardBalance | null>(null);
+  const [giftCardToUse, setGiftCardToUse] = useState("");
+  const [checkingGiftCard, setCheckingGiftCard] = useState(false);
 
   // Ensure totalAmount is valid, default to 0 if NaN or invalid
   const validTotalAmount = isNaN(totalAmount) || totalAmount === null || totalAmount === undefined ? 0 : totalAmount;
 
+  const { data: pointsTender } = useQuery<OrderPointsTender>({
+    queryKey: [`/api/orders/${orderId}/points-tender`],
+    enabled: open && !!orderId,
+  });
+
+  // Points come off first, then store credit, then the gift card; cash, card or a split covers whatever is left
+  const canUsePoints = !!pointsTender?.customer && !!pointsTender.enabled && (pointsTender.maxPoints || 0) > 0;
+  const redeemPoints = canUsePoints ? Math.min(Math.max(0, parseInt(pointsToUse) || 0), pointsTender!.maxPoints!) : 0;
+  const amountDue = pointsTender ? pointsTender.amountDue : validTotalAmount;
+  const pointsAmount = redeemPoints > 0 ? roundMoney(Math.min(redeemPoints / pointsTender!.redemptionRate!, amountDue)) : 0;
+  const dueAfterPoints = roundMoney(Math.max(0, amountDue - pointsAmount));
+  const canUseStoreCredit = !!pointsTender?.customer && (pointsTender.storeCredit?.balance || 0) > 0;
+  const storeCreditAmount = canUseStoreCredit
+    ? roundMoney(Math.min(Math.max(0, parseFloat(storeCreditToUse) || 0), pointsTender!.storeCredit!.balance, dueAfterPoints))
+    : 0;
+  const dueAfterStoreCredit = roundMoney(dueAfterPoints - storeCreditAmount);
+  const giftCardAmount = giftCard
+    ? roundMoney(Math.min(Math.max(0, parseFloat(giftCardToUse) || 0), giftCard.balance, dueAfterStoreCredit))
+    : 0;
+  const amountToCollect = roundMoney(dueAfterStoreCredit - giftCardAmount);
+  const tenderMethods = [
+    redeemPoints > 0 && "loyalty_points",
+    storeCreditAmount > 0 && "store_credit",
+    giftCardAmount > 0 && "gift_card",
+  ].filter(Boolean) as string[];
+  const paidWithTenders = tenderMethods.length > 0 && amountToCollect < 0.01;
+
+  const checkGiftCard = async () => {
+    if (!giftCardCode.trim()) return;
+    setCheckingGiftCard(true);
+    try {
+      const response = await fetch(`/api/gift-cards/${encodeURIComponent(giftCardCode.trim())}/balance`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result?.error || "Gift card not found");
+      }
+      if (result.status !== "active" || result.balance <= 0) {
+        throw new Error(result.status === "voided" ? "Gift card has been voided" : "Gift card has no balance left");
+      }
+      setGiftCard(result);
+      setGiftCardToUse(String(Math.min(result.balance, dueAfterStoreCredit)));
+    } catch (error: any) {
+      setGiftCard(null);
+      toast({ title: "Gift card", description: error.message, variant: "destructive" });
+    } finally {
+      setCheckingGiftCard(false);
+    }
+  };
+
   const calculateChange = () => {
     if (paymentMode === "single" && singleMethod === "cash") {
       const received = parseFloat(cashReceived) || 0;
-      return Math.max(0, received - validTotalAmount);
+      return Math.max(0, received - amountToCollect);
     }
     return 0;
   };
@@ -59,7 +134,7 @@ export function PaymentDialog({
     if (paymentMode === "single") {
       // For non-cash methods, the payment amount is automatically the order total
       if (singleMethod !== "cash") {
-        return validTotalAmount;
+        return amountToCollect;
       }
       return parseFloat(cashReceived) || 0;
     }
@@ -67,6 +142,9 @@ export function PaymentDialog({
   };
 
   const isPaymentValid = () => {
+    if (paidWithTenders) {
+      return true;
+    }
     const totalPaid = calculateTotalPaid();
     if (paymentMode === "single") {
       // For non-cash, payment is always valid as it matches total automatically
@@ -74,9 +152,9 @@ export function PaymentDialog({
         return true;
       }
       // For cash, must receive at least the total amount
-      return totalPaid >= validTotalAmount;
+      return totalPaid >= amountToCollect;
     }
-    return Math.abs(totalPaid - validTotalAmount) < 0.01; // Account for floating point precision
+    return Math.abs(totalPaid - amountToCollect) < 0.01; // Account for floating point precision
   };
 
   const processPaymentMutation = useMutation({
@@ -84,7 +162,9 @@ export function PaymentDialog({
       let paymentMethodStr = "";
       let paymentDetails: any = {};
 
-      if (paymentMode === "single") {
+      if (paidWithTenders) {
+        paymentMethodStr = tenderMethods.length === 1 ? tenderMethods[0] : "split";
+      } else if (paymentMode === "single") {
         paymentMethodStr = singleMethod;
         if (singleMethod === "cash") {
           paymentDetails = {
@@ -101,6 +181,15 @@ export function PaymentDialog({
           })),
         };
       }
+      if (redeemPoints > 0) {
+        paymentDetails = { ...paymentDetails, loyaltyPoints: redeemPoints, pointsAmount };
+      }
+      if (storeCreditAmount > 0) {
+        paymentDetails = { ...paymentDetails, storeCredit: storeCreditAmount };
+      }
+      if (giftCardAmount > 0) {
+        paymentDetails = { ...paymentDetails, giftCard: giftCard!.code, giftCardAmount };
+      }
 
       const response = await fetch(`/api/orders/${orderId}/payment`, {
         method: "POST",
@@ -109,10 +198,17 @@ export function PaymentDialog({
           paymentMethod: paymentMethodStr,
           paymentStatus: "paid",
           paymentDetails: paymentDetails ? JSON.stringify(paymentDetails) : undefined,
+          loyaltyPoints: redeemPoints > 0 ? redeemPoints : undefined,
+          storeCredit: storeCreditAmount > 0 ? storeCreditAmount : undefined,
+          giftCardCode: giftCardAmount > 0 ? giftCard!.code : undefined,
+          giftCardAmount: giftCardAmount > 0 ? giftCardAmount : undefined,
         }),
       });
 
-      if (!response.ok) throw new Error("Failed to process payment");
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || "Failed to process payment");
+      }
       return response.json();
     },
     onSuccess: () => {
@@ -122,6 +218,12 @@ export function PaymentDialog({
       });
       queryClient.invalidateQueries({ queryKey: ["/api/orders", branchId] });
       queryClient.invalidateQueries({ queryKey: ["/api/pos/sessions/active", branchId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}/points-tender`] });
+      setPointsToUse("");
+      setStoreCreditToUse("");
+      setGiftCardCode("");
+      setGiftCard(null);
+      setGiftCardToUse("");
       onPaymentComplete?.();
       onClose();
     },
@@ -180,7 +282,7 @@ export function PaymentDialog({
     }
   };
 
-  const remainingAmount = validTotalAmount - calculateTotalPaid();
+  const remainingAmount = roundMoney(amountToCollect - calculateTotalPaid());
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
@@ -211,229 +313,380 @@ export function PaymentDialog({
             </CardContent>
           </Card>
 
-          {/* Payment Mode Selection */}
-          <div className="space-y-3">
-            <Label>Payment Mode</Label>
-            <RadioGroup
-              value={paymentMode}
-              onValueChange={(value: "single" | "split") => setPaymentMode(value)}
-              className="flex gap-4"
-            >
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="single" id="single" data-testid="radio-payment-single" />
-                <Label htmlFor="single" className="cursor-pointer">Single Payment</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="split" id="split" data-testid="radio-payment-split" />
-                <Label htmlFor="split" className="cursor-pointer">Split Payment</Label>
-              </div>
-            </RadioGroup>
-          </div>
-
-          {/* Single Payment */}
-          {paymentMode === "single" && (
-            <div className="space-y-4">
-              <div className="space-y-3">
-                <Label>Payment Method</Label>
-                <RadioGroup
-                  value={singleMethod}
-                  onValueChange={(value: "cash" | "card" | "jazzcash") => {
-                    setSingleMethod(value);
-                    // Reset cash received when switching methods
-                    setCashReceived("");
-                  }}
-                  className="grid grid-cols-3 gap-3"
-                >
-                  <div>
-                    <RadioGroupItem value="cash" id="cash" className="sr-only" />
-                    <Label
-                      htmlFor="cash"
-                      className={`flex items-center justify-center gap-2 p-4 border rounded-md cursor-pointer hover-elevate ${
-                        singleMethod === "cash" ? "border-primary bg-primary/5" : ""
-                      }`}
-                      data-testid="label-method-cash"
-                    >
-                      <Banknote className="w-5 h-5" />
-                      Cash
-                    </Label>
+          {/* Loyalty Points */}
+          {canUsePoints && (
+            <Card data-testid="card-loyalty-points">
+              <CardContent className="pt-6 space-y-3">
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center gap-2">
+                    <Gift className="w-5 h-5 text-primary" />
+                    <div>
+                      <p className="font-medium" data-testid="text-points-customer">{pointsTender!.customer!.fullName}</p>
+                      <p className="text-xs text-muted-foreground" data-testid="text-points-available">
+                        {pointsTender!.availablePoints} points · {pointsTender!.redemptionRate} points = PKR 1
+                      </p>
+                    </div>
                   </div>
-                  <div>
-                    <RadioGroupItem value="card" id="card" className="sr-only" />
-                    <Label
-                      htmlFor="card"
-                      className={`flex items-center justify-center gap-2 p-4 border rounded-md cursor-pointer hover-elevate ${
-                        singleMethod === "card" ? "border-primary bg-primary/5" : ""
-                      }`}
-                      data-testid="label-method-card"
-                    >
-                      <CreditCard className="w-5 h-5" />
-                      Card
-                    </Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPointsToUse(String(pointsTender!.maxPoints))}
+                    data-testid="button-use-max-points"
+                  >
+                    Use {pointsTender!.maxPoints}
+                  </Button>
+                </div>
+                <div className="flex gap-3 items-end">
+                  <div className="flex-1 space-y-2">
+                    <Label htmlFor="points-to-use">Points to Redeem</Label>
+                    <Input
+                      id="points-to-use"
+                      type="number"
+                      min="0"
+                      max={pointsTender!.maxPoints}
+                      placeholder="0"
+                      value={pointsToUse}
+                      onChange={(e) => setPointsToUse(e.target.value)}
+                      data-testid="input-points-to-use"
+                    />
                   </div>
-                  <div>
-                    <RadioGroupItem value="jazzcash" id="jazzcash" className="sr-only" />
-                    <Label
-                      htmlFor="jazzcash"
-                      className={`flex items-center justify-center gap-2 p-4 border rounded-md cursor-pointer hover-elevate ${
-                        singleMethod === "jazzcash" ? "border-primary bg-primary/5" : ""
-                      }`}
-                      data-testid="label-method-jazzcash"
-                    >
-                      <Smartphone className="w-5 h-5" />
-                      JazzCash
-                    </Label>
+                  <div className="text-right pb-2">
+                    <p className="text-xs text-muted-foreground">Points pay</p>
+                    <p className="font-semibold text-green-600" data-testid="text-points-amount">PKR {pointsAmount.toFixed(2)}</p>
                   </div>
-                </RadioGroup>
-              </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
 
-              {singleMethod === "cash" && (
+          {/* Store Credit */}
+          {canUseStoreCredit && (
+            <Card data-testid="card-store-credit">
+              <CardContent className="pt-6 space-y-3">
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center gap-2">
+                    <Wallet className="w-5 h-5 text-primary" />
+                    <div>
+                      <p className="font-medium">Store Credit</p>
+                      <p className="text-xs text-muted-foreground" data-testid="text-store-credit-balance">
+                        PKR {pointsTender!.storeCredit!.balance.toFixed(2)} available
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setStoreCreditToUse(String(Math.min(pointsTender!.storeCredit!.balance, dueAfterPoints)))}
+                    data-testid="button-use-max-store-credit"
+                  >
+                    Use max
+                  </Button>
+                </div>
                 <div className="space-y-2">
-                  <Label htmlFor="cash-received">Cash Received</Label>
+                  <Label htmlFor="store-credit-to-use">Store Credit to Use (PKR)</Label>
                   <Input
-                    id="cash-received"
+                    id="store-credit-to-use"
                     type="number"
+                    min="0"
                     step="0.01"
                     placeholder="0.00"
-                    value={cashReceived}
-                    onChange={(e) => setCashReceived(e.target.value)}
-                    data-testid="input-cash-received"
+                    value={storeCreditToUse}
+                    onChange={(e) => setStoreCreditToUse(e.target.value)}
+                    data-testid="input-store-credit-to-use"
                   />
-                  {cashReceived && (
-                    <div className="flex justify-between p-3 bg-muted rounded-md">
-                      <span className="text-sm font-medium">Change</span>
-                      <span className="text-sm font-bold" data-testid="text-change">
-                        PKR {calculateChange().toFixed(2)}
-                      </span>
-                    </div>
-                  )}
                 </div>
-              )}
-              
-              {singleMethod !== "cash" && (
-                <div className="p-4 bg-muted rounded-md">
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium">Payment Amount</span>
-                    <span className="text-lg font-bold">PKR {validTotalAmount.toFixed(2)}</span>
-                  </div>
-                  <p className="text-xs text-muted-foreground mt-2">
-                    {singleMethod === "card" ? "Process card payment for full amount" : "Process JazzCash payment for full amount"}
-                  </p>
-                </div>
-              )}
-            </div>
+              </CardContent>
+            </Card>
           )}
 
-          {/* Split Payment */}
-          {paymentMode === "split" && (
-            <div className="space-y-4">
-              <div className="flex justify-between items-center">
-                <Label>Payment Methods</Label>
+          {/* Gift Card */}
+          <Card data-testid="card-gift-card">
+            <CardContent className="pt-6 space-y-3">
+              <div className="flex gap-3 items-end">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="gift-card-code">Gift Card</Label>
+                  <Input
+                    id="gift-card-code"
+                    placeholder="GC-XXXX-XXXX-XXXX-XXXX"
+                    value={giftCardCode}
+                    onChange={(e) => {
+                      setGiftCardCode(e.target.value.toUpperCase());
+                      setGiftCard(null);
+                    }}
+                    data-testid="input-gift-card-code"
+                  />
+                </div>
                 <Button
                   type="button"
                   variant="outline"
-                  size="sm"
-                  onClick={addSplitPayment}
-                  data-testid="button-add-split"
+                  onClick={checkGiftCard}
+                  disabled={!giftCardCode.trim() || checkingGiftCard}
+                  data-testid="button-check-gift-card"
                 >
-                  <Plus className="w-4 h-4 mr-1" />
-                  Add Method
+                  {checkingGiftCard ? "Checking..." : "Check"}
                 </Button>
               </div>
+              {giftCard && (
+                <div className="flex gap-3 items-end">
+                  <div className="flex-1 space-y-2">
+                    <Label htmlFor="gift-card-amount">Amount from Card (PKR)</Label>
+                    <Input
+                      id="gift-card-amount"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={giftCardToUse}
+                      onChange={(e) => setGiftCardToUse(e.target.value)}
+                      data-testid="input-gift-card-amount"
+                    />
+                  </div>
+                  <div className="text-right pb-2">
+                    <p className="text-xs text-muted-foreground">Card balance</p>
+                    <p className="font-semibold" data-testid="text-gift-card-balance">PKR {giftCard.balance.toFixed(2)}</p>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
 
+          {(tenderMethods.length > 0 || (pointsTender?.paid || 0) > 0) && (
+            <div className="flex justify-between p-3 bg-muted rounded-md" data-testid="row-amount-to-collect">
+              <span className="text-sm font-medium">
+                {paidWithTenders ? "Paid in full" : "Left to collect"}
+              </span>
+              <span className="text-sm font-bold" data-testid="text-amount-to-collect">PKR {amountToCollect.toFixed(2)}</span>
+            </div>
+          )}
+
+          {!paidWithTenders && (
+            <>
+              {/* Payment Mode Selection */}
               <div className="space-y-3">
-                {splitPayments.map((payment, index) => (
-                  <Card key={payment.id}>
-                    <CardContent className="pt-4">
-                      <div className="flex gap-3">
-                        <div className="flex-1">
-                          <Label className="text-xs mb-2 block">Method</Label>
-                          <RadioGroup
-                            value={payment.type}
-                            onValueChange={(value) => updateSplitPayment(payment.id, "type", value)}
-                            className="flex gap-2"
-                          >
+                <Label>Payment Mode</Label>
+                <RadioGroup
+                  value={paymentMode}
+                  onValueChange={(value: "single" | "split") => setPaymentMode(value)}
+                  className="flex gap-4"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="single" id="single" data-testid="radio-payment-single" />
+                    <Label htmlFor="single" className="cursor-pointer">Single Payment</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="split" id="split" data-testid="radio-payment-split" />
+                    <Label htmlFor="split" className="cursor-pointer">Split Payment</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+
+              {/* Single Payment */}
+              {paymentMode === "single" && (
+                <div className="space-y-4">
+                  <div className="space-y-3">
+                    <Label>Payment Method</Label>
+                    <RadioGroup
+                      value={singleMethod}
+                      onValueChange={(value: "cash" | "card" | "jazzcash") => {
+                        setSingleMethod(value);
+                        // Reset cash received when switching methods
+                        setCashReceived("");
+                      }}
+                      className="grid grid-cols-3 gap-3"
+                    >
+                      <div>
+                        <RadioGroupItem value="cash" id="cash" className="sr-only" />
+                        <Label
+                          htmlFor="cash"
+                          className={`flex items-center justify-center gap-2 p-4 border rounded-md cursor-pointer hover-elevate ${
+                            singleMethod === "cash" ? "border-primary bg-primary/5" : ""
+                          }`}
+                          data-testid="label-method-cash"
+                        >
+                          <Banknote className="w-5 h-5" />
+                          Cash
+                        </Label>
+                      </div>
+                      <div>
+                        <RadioGroupItem value="card" id="card" className="sr-only" />
+                        <Label
+                          htmlFor="card"
+                          className={`flex items-center justify-center gap-2 p-4 border rounded-md cursor-pointer hover-elevate ${
+                            singleMethod === "card" ? "border-primary bg-primary/5" : ""
+                          }`}
+                          data-testid="label-method-card"
+                        >
+                          <CreditCard className="w-5 h-5" />
+                          Card
+                        </Label>
+                      </div>
+                      <div>
+                        <RadioGroupItem value="jazzcash" id="jazzcash" className="sr-only" />
+                        <Label
+                          htmlFor="jazzcash"
+                          className={`flex items-center justify-center gap-2 p-4 border rounded-md cursor-pointer hover-elevate ${
+                            singleMethod === "jazzcash" ? "border-primary bg-primary/5" : ""
+                          }`}
+                          data-testid="label-method-jazzcash"
+                        >
+                          <Smartphone className="w-5 h-5" />
+                          JazzCash
+                        </Label>
+                      </div>
+                    </RadioGroup>
+                  </div>
+
+                  {singleMethod === "cash" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="cash-received">Cash Received</Label>
+                      <Input
+                        id="cash-received"
+                        type="number"
+                        step="0.01"
+                        placeholder="0.00"
+                        value={cashReceived}
+                        onChange={(e) => setCashReceived(e.target.value)}
+                        data-testid="input-cash-received"
+                      />
+                      {cashReceived && (
+                        <div className="flex justify-between p-3 bg-muted rounded-md">
+                          <span className="text-sm font-medium">Change</span>
+                          <span className="text-sm font-bold" data-testid="text-change">
+                            PKR {calculateChange().toFixed(2)}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+              
+                  {singleMethod !== "cash" && (
+                    <div className="p-4 bg-muted rounded-md">
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium">Payment Amount</span>
+                        <span className="text-lg font-bold">PKR {amountToCollect.toFixed(2)}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-2">
+                        {singleMethod === "card" ? "Process card payment for full amount" : "Process JazzCash payment for full amount"}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Split Payment */}
+              {paymentMode === "split" && (
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <Label>Payment Methods</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={addSplitPayment}
+                      data-testid="button-add-split"
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add Method
+                    </Button>
+                  </div>
+
+                  <div className="space-y-3">
+                    {splitPayments.map((payment, index) => (
+                      <Card key={payment.id}>
+                        <CardContent className="pt-4">
+                          <div className="flex gap-3">
                             <div className="flex-1">
-                              <RadioGroupItem value="cash" id={`split-cash-${payment.id}`} className="sr-only" />
-                              <Label
-                                htmlFor={`split-cash-${payment.id}`}
-                                className={`flex items-center justify-center gap-1 p-2 border rounded text-xs cursor-pointer hover-elevate ${
-                                  payment.type === "cash" ? "border-primary bg-primary/5" : ""
-                                }`}
-                                data-testid={`label-split-cash-${index}`}
+                              <Label className="text-xs mb-2 block">Method</Label>
+                              <RadioGroup
+                                value={payment.type}
+                                onValueChange={(value) => updateSplitPayment(payment.id, "type", value)}
+                                className="flex gap-2"
                               >
-                                {getMethodIcon("cash")}
-                                Cash
-                              </Label>
+                                <div className="flex-1">
+                                  <RadioGroupItem value="cash" id={`split-cash-${payment.id}`} className="sr-only" />
+                                  <Label
+                                    htmlFor={`split-cash-${payment.id}`}
+                                    className={`flex items-center justify-center gap-1 p-2 border rounded text-xs cursor-pointer hover-elevate ${
+                                      payment.type === "cash" ? "border-primary bg-primary/5" : ""
+                                    }`}
+                                    data-testid={`label-split-cash-${index}`}
+                                  >
+                                    {getMethodIcon("cash")}
+                                    Cash
+                                  </Label>
+                                </div>
+                                <div className="flex-1">
+                                  <RadioGroupItem value="card" id={`split-card-${payment.id}`} className="sr-only" />
+                                  <Label
+                                    htmlFor={`split-card-${payment.id}`}
+                                    className={`flex items-center justify-center gap-1 p-2 border rounded text-xs cursor-pointer hover-elevate ${
+                                      payment.type === "card" ? "border-primary bg-primary/5" : ""
+                                    }`}
+                                    data-testid={`label-split-card-${index}`}
+                                  >
+                                    {getMethodIcon("card")}
+                                    Card
+                                  </Label>
+                                </div>
+                                <div className="flex-1">
+                                  <RadioGroupItem value="jazzcash" id={`split-jazzcash-${payment.id}`} className="sr-only" />
+                                  <Label
+                                    htmlFor={`split-jazzcash-${payment.id}`}
+                                    className={`flex items-center justify-center gap-1 p-2 border rounded text-xs cursor-pointer hover-elevate ${
+                                      payment.type === "jazzcash" ? "border-primary bg-primary/5" : ""
+                                    }`}
+                                    data-testid={`label-split-jazzcash-${index}`}
+                                  >
+                                    {getMethodIcon("jazzcash")}
+                                    Jazz
+                                  </Label>
+                                </div>
+                              </RadioGroup>
                             </div>
-                            <div className="flex-1">
-                              <RadioGroupItem value="card" id={`split-card-${payment.id}`} className="sr-only" />
-                              <Label
-                                htmlFor={`split-card-${payment.id}`}
-                                className={`flex items-center justify-center gap-1 p-2 border rounded text-xs cursor-pointer hover-elevate ${
-                                  payment.type === "card" ? "border-primary bg-primary/5" : ""
-                                }`}
-                                data-testid={`label-split-card-${index}`}
-                              >
-                                {getMethodIcon("card")}
-                                Card
-                              </Label>
+                            <div className="w-32">
+                              <Label className="text-xs mb-2 block">Amount</Label>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                placeholder="0.00"
+                                value={payment.amount || ""}
+                                onChange={(e) => updateSplitPayment(payment.id, "amount", parseFloat(e.target.value) || 0)}
+                                data-testid={`input-split-amount-${index}`}
+                              />
                             </div>
-                            <div className="flex-1">
-                              <RadioGroupItem value="jazzcash" id={`split-jazzcash-${payment.id}`} className="sr-only" />
-                              <Label
-                                htmlFor={`split-jazzcash-${payment.id}`}
-                                className={`flex items-center justify-center gap-1 p-2 border rounded text-xs cursor-pointer hover-elevate ${
-                                  payment.type === "jazzcash" ? "border-primary bg-primary/5" : ""
-                                }`}
-                                data-testid={`label-split-jazzcash-${index}`}
+                            {splitPayments.length > 1 && (
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                className="mt-6"
+                                onClick={() => removeSplitPayment(payment.id)}
+                                data-testid={`button-remove-split-${index}`}
                               >
-                                {getMethodIcon("jazzcash")}
-                                Jazz
-                              </Label>
-                            </div>
-                          </RadioGroup>
-                        </div>
-                        <div className="w-32">
-                          <Label className="text-xs mb-2 block">Amount</Label>
-                          <Input
-                            type="number"
-                            step="0.01"
-                            placeholder="0.00"
-                            value={payment.amount || ""}
-                            onChange={(e) => updateSplitPayment(payment.id, "amount", parseFloat(e.target.value) || 0)}
-                            data-testid={`input-split-amount-${index}`}
-                          />
-                        </div>
-                        {splitPayments.length > 1 && (
-                          <Button
-                            type="button"
-                            variant="ghost"
-                            size="icon"
-                            className="mt-6"
-                            onClick={() => removeSplitPayment(payment.id)}
-                            data-testid={`button-remove-split-${index}`}
-                          >
-                            <X className="w-4 h-4" />
-                          </Button>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
+                                <X className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
 
-              <div className="flex justify-between items-center p-3 bg-muted rounded-md">
-                <div>
-                  <span className="text-sm font-medium">Total Paid</span>
-                  <Badge variant={remainingAmount === 0 ? "default" : "destructive"} className="ml-2">
-                    {remainingAmount === 0 ? "Complete" : `Short by PKR ${Math.abs(remainingAmount).toFixed(2)}`}
-                  </Badge>
+                  <div className="flex justify-between items-center p-3 bg-muted rounded-md">
+                    <div>
+                      <span className="text-sm font-medium">Total Paid</span>
+                      <Badge variant={remainingAmount === 0 ? "default" : "destructive"} className="ml-2">
+                        {remainingAmount === 0 ? "Complete" : `Short by PKR ${Math.abs(remainingAmount).toFixed(2)}`}
+                      </Badge>
+                    </div>
+                    <span className="text-lg font-bold" data-testid="text-split-total">
+                      PKR {calculateTotalPaid().toFixed(2)}
+                    </span>
+                  </div>
                 </div>
-                <span className="text-lg font-bold" data-testid="text-split-total">
-                  PKR {calculateTotalPaid().toFixed(2)}
-                </span>
-              </div>
-            </div>
+              )}
+            </>
           )}
 
           {/* Actions */}
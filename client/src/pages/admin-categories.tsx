@@ -12,14 +12,17 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Pencil, Trash2, Search } from "lucide-react";
-import type { Category } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Pencil, Trash2, Search, ChefHat } from "lucide-react";
+import type { Category, KitchenStation } from "@shared/schema";
 
 const categorySchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
   description: z.string().optional(),
   imageUrl: z.string().url().optional().or(z.literal("")),
   isActive: z.boolean().default(true),
+  kitchenStationId: z.string().nullable().optional(),
 });
 
 type CategoryForm = z.infer<typeof categorySchema>;
@@ -29,12 +32,17 @@ export default function AdminCategories() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [newStationName, setNewStationName] = useState("");
   const { toast } = useToast();
 
   const { data: categories = [], isLoading } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
   });
 
+  const { data: kitchenStations = [] } = useQuery<KitchenStation[]>({
+    queryKey: ["/api/kitchen-stations"],
+  });
+
   const form = useForm<CategoryForm>({
     resolver: zodResolver(categorySchema),
     defaultValues: {
@@ -42,6 +50,7 @@ export default function AdminCategories() {
       description: "",
       imageUrl: "",
       isActive: true,
+      kitchenStationId: null,
     },
   });
 
@@ -91,6 +100,49 @@ export default function AdminCategories() {
     },
   });
 
+  const createStationMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("/api/kitchen-stations", "POST", { name, displayOrder: kitchenStations.length });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-stations"] });
+      setNewStationName("");
+      toast({ title: "Kitchen station created" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateStationMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<KitchenStation> }) => {
+      const res = await apiRequest(`/api/kitchen-stations/${id}`, "PUT", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-stations"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteStationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest(`/api/kitchen-stations/${id}`, "DELETE");
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-stations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      toast({ title: "Kitchen station deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const onSubmit = (data: CategoryForm) => {
     if (editingCategory) {
       updateMutation.mutate({ id: editingCategory.id, data });
@@ -106,6 +158,7 @@ export default function AdminCategories() {
       description: category.description || "",
       imageUrl: category.imageUrl || "",
       isActive: category.isActive,
+      kitchenStationId: category.kitchenStationId,
     });
   };
 
@@ -189,6 +242,34 @@ export default function AdminCategories() {
                         </FormItem>
                       )}
                     />
+                    <FormField
+                      control={form.control}
+                      name="kitchenStationId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Kitchen Station</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                            value={field.value || "none"}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-category-station">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">No station</SelectItem>
+                              {kitchenStations.map((station) => (
+                                <SelectItem key={station.id} value={station.id}>
+                                  {station.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <DialogFooter>
                       <Button type="submit" disabled={createMutation.isPending} data-testid="button-save-category">
                         {createMutation.isPending ? "Saving..." : "Save Category"}
@@ -200,6 +281,58 @@ export default function AdminCategories() {
             </Dialog>
           </div>
 
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ChefHat className="h-5 w-5" />
+                Kitchen Stations
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Kitchen tickets are split per station. Menu items use their category's station unless they set their own.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {kitchenStations.map((station) => (
+                <div key={station.id} className="flex items-center justify-between gap-4" data-testid={`row-station-${station.id}`}>
+                  <span className="font-medium">{station.name}</span>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={station.isActive}
+                      onCheckedChange={(checked) => updateStationMutation.mutate({ id: station.id, data: { isActive: checked } })}
+                      data-testid={`switch-station-active-${station.id}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteStationMutation.mutate(station.id)}
+                      data-testid={`button-delete-station-${station.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (newStationName.trim()) createStationMutation.mutate(newStationName.trim());
+                }}
+              >
+                <Input
+                  placeholder="New station, e.g. Grill"
+                  value={newStationName}
+                  onChange={(e) => setNewStationName(e.target.value)}
+                  data-testid="input-station-name"
+                />
+                <Button type="submit" disabled={createStationMutation.isPending} data-testid="button-add-station">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
           <div className="mb-6">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -275,6 +408,34 @@ export default function AdminCategories() {
                                     </FormItem>
                                   )}
                                 />
+                                <FormField
+                                  control={form.control}
+                                  name="kitchenStationId"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Kitchen Station</FormLabel>
+                                      <Select
+                                        onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                                        value={field.value || "none"}
+                                      >
+                                        <FormControl>
+                                          <SelectTrigger data-testid="select-edit-station">
+                                            <SelectValue />
+                                          </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                          <SelectItem value="none">No station</SelectItem>
+                                          {kitchenStations.map((station) => (
+                                            <SelectItem key={station.id} value={station.id}>
+                                              {station.name}
+                                            </SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
                                 <DialogFooter>
                                   <Button type="submit" disabled={updateMutation.isPending} data-testid="button-update-category">
                                     {updateMutation.isPending ? "Updating..." : "Update Category"}
@@ -299,10 +460,16 @@ export default function AdminCategories() {
                     <p className="text-sm text-muted-foreground">
                       {category.description || "No description"}
                     </p>
-                    <div className="mt-2">
+                    <div className="mt-2 flex flex-wrap gap-2">
                       <span className={`text-xs px-2 py-1 rounded ${category.isActive ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" : "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200"}`}>
                         {category.isActive ? "Active" : "Inactive"}
                       </span>
+                      {category.kitchenStationId && (
+                        <span className="text-xs px-2 py-1 rounded bg-muted flex items-center gap-1">
+                          <ChefHat className="h-3 w-3" />
+                          {kitchenStations.find((station) => station.id === category.kitchenStationId)?.name}
+                        </span>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
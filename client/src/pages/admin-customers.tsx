@@ -14,6 +14,7 @@ import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { format } from "date-fns";
@@ -50,12 +51,8 @@ interface CustomerStats {
   totalRevenue: number;
   averageOrderValue: number;
   totalLoyaltyPoints: number;
-  tierDistribution: {
-    bronze: number;
-    silver: number;
-    gold: number;
-    platinum: number;
-  };
+  tierDistribution: Record<string, number>; // Customers per tier code
+  tiers: Array<{ code: string; name: string }>;
 }
 
 interface CustomerDetails {
@@ -88,6 +85,27 @@ interface CustomerDetails {
     lifetimeRedeemed: number;
     tier: string;
   };
+  tierProgress: {
+    metric: "lifetime_points" | "rolling_spend" | "order_count";
+    value: number;
+    tier: { code: string; name: string };
+    nextTier: { code: string; name: string; threshold: number } | null;
+    remaining: number;
+    progress: number;
+  };
+  stampCards: Array<{
+    id: string;
+    name: string;
+    stampsRequired: number;
+    rewardMenuItemName: string | null;
+    stamps: number;
+    cardsCompleted: number;
+  }>;
+  storeCredit: {
+    balance: number;
+    lifetimeCredited: number;
+    transactions: Array<{ id: string; amount: string; description: string; createdAt: string }>;
+  };
   loyaltyTransactions: Array<{
     id: string;
     transactionType: string;
@@ -131,6 +149,12 @@ function formatCurrency(amount: number): string {
   return `Rs. ${amount.toLocaleString("en-PK", { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
 }
 
+function formatTierValue(metric: CustomerDetails["tierProgress"]["metric"], value: number): string {
+  if (metric === "rolling_spend") return formatCurrency(value);
+  if (metric === "order_count") return `${value} orders`;
+  return `${value} points`;
+}
+
 export default function AdminCustomers() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
@@ -140,6 +164,7 @@ export default function AdminCustomers() {
   const [selectedCustomer, setSelectedCustomer] = useState<string | null>(null);
   const [adjustPointsOpen, setAdjustPointsOpen] = useState(false);
   const [pointsAdjustment, setPointsAdjustment] = useState({ points: 0, reason: "" });
+  const [creditAdjustment, setCreditAdjustment] = useState({ amount: "", reason: "" });
   const { toast } = useToast();
 
   const { data: customers = [], isLoading: customersLoading } = useQuery<CustomerWithData[]>({
@@ -160,6 +185,8 @@ export default function AdminCustomers() {
     queryKey: ["/api/admin/customers/stats/overview"],
   });
 
+  const tierName = (code: string) => stats?.tiers.find(tier => tier.code === code)?.name || code;
+
   const { data: customerDetails, isLoading: detailsLoading } = useQuery<CustomerDetails>({
     queryKey: ["/api/admin/customers", selectedCustomer],
     queryFn: async () => {
@@ -187,6 +214,21 @@ export default function AdminCustomers() {
     },
   });
 
+  const adjustStoreCreditMutation = useMutation({
+    mutationFn: async ({ customerId, amount, reason }: { customerId: string; amount: number; reason: string }) => {
+      const res = await apiRequest(`/api/admin/customers/${customerId}/store-credit/adjust`, "POST", { amount, reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/customers", selectedCustomer] });
+      toast({ title: "Store credit adjusted", description: "Customer store credit has been updated" });
+      setCreditAdjustment({ amount: "", reason: "" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const toggleSort = (field: string) => {
     if (sortBy === field) {
       setSortOrder(sortOrder === "asc" ? "desc" : "asc");
@@ -231,7 +273,7 @@ export default function AdminCustomers() {
           <div className="max-w-7xl mx-auto space-y-6">
             {/* Stats Overview */}
             {stats && (
-              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
                 <Card>
                   <CardContent className="p-4">
                     <div className="flex items-center gap-2">
@@ -276,39 +318,22 @@ export default function AdminCustomers() {
                     </p>
                   </CardContent>
                 </Card>
-                <Card className="bg-orange-50 dark:bg-orange-950">
-                  <CardContent className="p-4">
-                    <div className="flex items-center gap-2">
-                      <Award className="h-4 w-4 text-orange-600" />
-                      <span className="text-sm text-orange-700 dark:text-orange-300">Bronze</span>
-                    </div>
-                    <p className="text-2xl font-bold mt-1 text-orange-800 dark:text-orange-200">
-                      {stats.tierDistribution.bronze}
-                    </p>
-                  </CardContent>
-                </Card>
-                <Card className="bg-gray-50 dark:bg-gray-800">
-                  <CardContent className="p-4">
-                    <div className="flex items-center gap-2">
-                      <Star className="h-4 w-4 text-gray-600" />
-                      <span className="text-sm text-gray-700 dark:text-gray-300">Silver</span>
-                    </div>
-                    <p className="text-2xl font-bold mt-1">
-                      {stats.tierDistribution.silver}
-                    </p>
-                  </CardContent>
-                </Card>
-                <Card className="bg-yellow-50 dark:bg-yellow-950">
-                  <CardContent className="p-4">
-                    <div className="flex items-center gap-2">
-                      <Crown className="h-4 w-4 text-yellow-600" />
-                      <span className="text-sm text-yellow-700 dark:text-yellow-300">Gold+</span>
-                    </div>
-                    <p className="text-2xl font-bold mt-1 text-yellow-800 dark:text-yellow-200">
-                      {stats.tierDistribution.gold + stats.tierDistribution.platinum}
-                    </p>
-                  </CardContent>
-                </Card>
+                {stats.tiers.map((tier) => {
+                  const TierIcon = TIER_ICONS[tier.code] || Award;
+                  return (
+                    <Card key={tier.code}>
+                      <CardContent className="p-4">
+                        <div className="flex items-center gap-2">
+                          <TierIcon className="h-4 w-4 text-muted-foreground" />
+                          <span className="text-sm text-muted-foreground">{tier.name}</span>
+                        </div>
+                        <p className="text-2xl font-bold mt-1" data-testid={`text-tier-count-${tier.code}`}>
+                          {stats.tierDistribution[tier.code] || 0}
+                        </p>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
               </div>
             )}
 
@@ -332,10 +357,9 @@ export default function AdminCustomers() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Tiers</SelectItem>
-                      <SelectItem value="bronze">Bronze</SelectItem>
-                      <SelectItem value="silver">Silver</SelectItem>
-                      <SelectItem value="gold">Gold</SelectItem>
-                      <SelectItem value="platinum">Platinum</SelectItem>
+                      {stats?.tiers.map((tier) => (
+                        <SelectItem key={tier.code} value={tier.code}>{tier.name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <div className="flex gap-2">
@@ -413,7 +437,7 @@ export default function AdminCustomers() {
                               <span className="font-medium truncate">{customer.fullName}</span>
                               <Badge className={TIER_COLORS[customer.loyaltyTier]} variant="secondary">
                                 <TierIcon className="h-3 w-3 mr-1" />
-                                {customer.loyaltyTier}
+                                {tierName(customer.loyaltyTier)}
                               </Badge>
                             </div>
                             <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1 flex-wrap">
@@ -478,7 +502,7 @@ export default function AdminCustomers() {
                     <DialogTitle className="text-xl flex items-center gap-2">
                       {customerDetails.fullName}
                       <Badge className={TIER_COLORS[customerDetails.loyalty.tier]} variant="secondary">
-                        {customerDetails.loyalty.tier}
+                        {customerDetails.tierProgress.tier.name}
                       </Badge>
                     </DialogTitle>
                     <DialogDescription className="flex items-center gap-4 mt-1">
@@ -655,6 +679,35 @@ export default function AdminCustomers() {
                       </Card>
                     </div>
 
+                    <div className="space-y-2" data-testid="customer-tier-progress">
+                      <div className="flex justify-between text-sm">
+                        <span>{customerDetails.tierProgress.tier.name} · {formatTierValue(customerDetails.tierProgress.metric, customerDetails.tierProgress.value)}</span>
+                        <span className="text-muted-foreground">
+                          {customerDetails.tierProgress.nextTier
+                            ? `${formatTierValue(customerDetails.tierProgress.metric, customerDetails.tierProgress.remaining)} to ${customerDetails.tierProgress.nextTier.name}`
+                            : "Highest tier"}
+                        </span>
+                      </div>
+                      <Progress value={customerDetails.tierProgress.progress} />
+                    </div>
+
+                    {customerDetails.stampCards.length > 0 && (
+                      <div className="space-y-3" data-testid="customer-stamp-cards">
+                        <h4 className="font-medium">Stamp Cards</h4>
+                        {customerDetails.stampCards.map(card => (
+                          <div key={card.id} className="space-y-1" data-testid={`customer-stamp-card-${card.id}`}>
+                            <div className="flex justify-between text-sm">
+                              <span>{card.name} · {card.stamps} of {card.stampsRequired} stamps</span>
+                              <span className="text-muted-foreground">
+                                {card.cardsCompleted} completed{card.rewardMenuItemName ? ` · free ${card.rewardMenuItemName}` : ""}
+                              </span>
+                            </div>
+                            <Progress value={Math.round((card.stamps / card.stampsRequired) * 100)} />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     <Button onClick={() => setAdjustPointsOpen(true)} className="w-full" data-testid="button-adjust-points">
                       <Plus className="h-4 w-4 mr-2" />
                       Adjust Points
@@ -662,6 +715,63 @@ export default function AdminCustomers() {
 
                     <Separator />
 
+                    <div className="space-y-3" data-testid="customer-store-credit">
+                      <div className="flex justify-between items-center">
+                        <h4 className="font-medium">Store Credit</h4>
+                        <span className="text-lg font-bold" data-testid="text-customer-store-credit">
+                          Rs. {customerDetails.storeCredit.balance.toFixed(2)}
+                        </span>
+                      </div>
+                      <div className="flex gap-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          placeholder="+/- amount"
+                          value={creditAdjustment.amount}
+                          onChange={(e) => setCreditAdjustment(prev => ({ ...prev, amount: e.target.value }))}
+                          className="w-32"
+                          data-testid="input-store-credit-adjustment"
+                        />
+                        <Input
+                          placeholder="Reason"
+                          value={creditAdjustment.reason}
+                          onChange={(e) => setCreditAdjustment(prev => ({ ...prev, reason: e.target.value }))}
+                          data-testid="input-store-credit-reason"
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            if (selectedCustomer) {
+                              adjustStoreCreditMutation.mutate({
+                                customerId: selectedCustomer,
+                                amount: parseFloat(creditAdjustment.amount),
+                                reason: creditAdjustment.reason,
+                              });
+                            }
+                          }}
+                          disabled={!parseFloat(creditAdjustment.amount) || !creditAdjustment.reason.trim() || adjustStoreCreditMutation.isPending}
+                          data-testid="button-adjust-store-credit"
+                        >
+                          Adjust
+                        </Button>
+                      </div>
+                      {customerDetails.storeCredit.transactions.slice(0, 5).map((tx) => (
+                        <div key={tx.id} className="flex items-center justify-between p-3 rounded-lg border">
+                          <div>
+                            <p className="text-sm">{tx.description}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {format(new Date(tx.createdAt), "PPP")}
+                            </p>
+                          </div>
+                          <span className={`font-semibold ${parseFloat(tx.amount) > 0 ? "text-green-600" : "text-red-600"}`}>
+                            {parseFloat(tx.amount) > 0 ? "+" : ""}{parseFloat(tx.amount).toFixed(2)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+
+                    <Separator />
+
                     <div>
                       <h4 className="font-medium mb-3">Recent Transactions</h4>
                       {customerDetails.loyaltyTransactions.length === 0 ? (
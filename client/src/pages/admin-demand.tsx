@@ -9,20 +9,44 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AlertCircle, Package, TrendingDown, Search } from "lucide-react";
-import type { MenuItem } from "@shared/schema";
+import type { Branch, BranchStock, MenuItem } from "@shared/schema";
 
 export default function AdminDemand() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [selectedBranchId, setSelectedBranchId] = useState("");
   const { toast } = useToast();
-  const { logout } = useAuth();
+  const { user, logout } = useAuth();
+
+  // Admins without a branch of their own pick which branch to look at
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+    enabled: !user?.branchId,
+  });
+
+  const branchId = user?.branchId || selectedBranchId || branches[0]?.id;
 
   // Fetch menu items
   const { data: menuItems = [], isLoading } = useQuery<MenuItem[]>({
     queryKey: ["/api/menu-items"],
   });
 
+  // Fetch stock levels at this branch
+  const { data: branchStock = [] } = useQuery<BranchStock[]>({
+    queryKey: ["/api/inventory/stock", branchId],
+    queryFn: async () => {
+      if (!branchId) throw new Error("Branch ID is required");
+      const response = await fetch(`/api/inventory/stock/${branchId}`);
+      if (!response.ok) throw new Error("Failed to fetch branch stock");
+      return response.json();
+    },
+    enabled: !!branchId,
+  });
+
+  const stockFor = (menuItemId: string) => branchStock.find(row => row.menuItemId === menuItemId);
+
   // Fetch categories for display
   const { data: categories = [] } = useQuery<any[]>({
     queryKey: ["/api/categories"],
@@ -34,14 +58,22 @@ export default function AdminDemand() {
     return acc;
   }, {} as Record<string, string>);
 
-  // Update stock mutation
+  // Update stock mutation - records the change as an adjustment at this branch
   const updateStockMutation = useMutation({
-    mutationFn: async ({ id, stockQuantity }: { id: string; stockQuantity: number }) => {
-      const res = await apiRequest(`/api/menu-items/${id}`, "PUT", { stockQuantity });
+    mutationFn: async ({ id, quantity }: { id: string; quantity: number }) => {
+      const res = await apiRequest("/api/inventory/transactions", "POST", {
+        branchId,
+        menuItemId: id,
+        transactionType: "adjustment",
+        quantity,
+        reason: "Manual stock adjustment",
+      });
       return await res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/menu-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock", branchId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock", branchId] });
       toast({ title: "Success", description: "Stock updated successfully" });
     },
     onError: (error: any) => {
@@ -54,20 +86,23 @@ export default function AdminDemand() {
     item.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  // Calculate statistics
-  const lowStockItems = menuItems.filter(
-    (item) => item.stockQuantity !== null && item.lowStockThreshold !== null && item.stockQuantity <= item.lowStockThreshold
+  // Calculate statistics from what is still available at this branch
+  const trackedItems = menuItems.filter((item) => item.stockQuantity !== null);
+
+  const lowStockItems = trackedItems.filter(
+    (item) => item.lowStockThreshold !== null && (stockFor(item.id)?.available ?? 0) <= item.lowStockThreshold
   );
 
-  const outOfStockItems = menuItems.filter(
-    (item) => item.stockQuantity !== null && item.stockQuantity === 0
+  const outOfStockItems = trackedItems.filter(
+    (item) => (stockFor(item.id)?.available ?? 0) <= 0
   );
 
-  const totalItemsTracked = menuItems.filter((item) => item.stockQuantity !== null).length;
+  const totalItemsTracked = trackedItems.length;
 
-  const handleStockUpdate = (id: string, currentStock: number, change: number) => {
-    const newStock = Math.max(0, currentStock + change);
-    updateStockMutation.mutate({ id, stockQuantity: newStock });
+  const handleStockUpdate = (id: string, onHand: number, change: number) => {
+    const quantity = Math.max(-onHand, change);
+    if (quantity === 0) return;
+    updateStockMutation.mutate({ id, quantity });
   };
 
   return (
@@ -90,11 +125,25 @@ export default function AdminDemand() {
         />
 
         <main className="flex-1 overflow-y-auto p-4 md:p-6">
-          <div className="mb-6">
-            <h1 className="text-2xl md:text-3xl font-bold mb-2">Inventory & Demand Tracking</h1>
-            <p className="text-muted-foreground text-sm md:text-base">
-              Monitor stock levels and manage inventory
-            </p>
+          <div className="mb-6 flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold mb-2">Inventory & Demand Tracking</h1>
+              <p className="text-muted-foreground text-sm md:text-base">
+                Monitor stock levels and manage inventory
+              </p>
+            </div>
+            {!user?.branchId && (
+              <Select value={branchId || ""} onValueChange={setSelectedBranchId}>
+                <SelectTrigger className="w-48" data-testid="select-demand-branch">
+                  <SelectValue placeholder="Select a branch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {branches.map(branch => (
+                    <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
           </div>
 
           {/* Statistics Cards */}
@@ -172,7 +221,7 @@ export default function AdminDemand() {
                     <tr>
                       <th className="text-left p-4 font-medium">Item Name</th>
                       <th className="text-left p-4 font-medium hidden md:table-cell">Category</th>
-                      <th className="text-center p-4 font-medium">Stock</th>
+                      <th className="text-center p-4 font-medium">Available</th>
                       <th className="text-center p-4 font-medium hidden sm:table-cell">Threshold</th>
                       <th className="text-center p-4 font-medium">Status</th>
                       <th className="text-right p-4 font-medium">Actions</th>
@@ -180,10 +229,12 @@ export default function AdminDemand() {
                   </thead>
                   <tbody>
                     {filteredItems.map((item) => {
-                      const stock = item.stockQuantity ?? 0;
+                      const level = stockFor(item.id);
+                      const onHand = level?.onHand ?? 0;
+                      const stock = level?.available ?? 0;
                       const threshold = item.lowStockThreshold ?? 10;
                       const isLowStock = stock <= threshold && stock > 0;
-                      const isOutOfStock = stock === 0;
+                      const isOutOfStock = stock <= 0;
 
                       return (
                         <tr key={item.id} className="border-b last:border-0" data-testid={`row-item-${item.id}`}>
@@ -200,6 +251,11 @@ export default function AdminDemand() {
                             <span className="font-semibold" data-testid={`text-stock-${item.id}`}>
                               {stock}
                             </span>
+                            {(level?.reserved ?? 0) > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                {onHand} on hand, {level!.reserved} reserved
+                              </div>
+                            )}
                           </td>
                           <td className="p-4 text-center hidden sm:table-cell text-muted-foreground">
                             {threshold}
@@ -224,8 +280,8 @@ export default function AdminDemand() {
                               <Button
                                 size="sm"
                                 variant="outline"
-                                onClick={() => handleStockUpdate(item.id, stock, -1)}
-                                disabled={stock === 0 || updateStockMutation.isPending}
+                                onClick={() => handleStockUpdate(item.id, onHand, -1)}
+                                disabled={onHand === 0 || !branchId || updateStockMutation.isPending}
                                 data-testid={`button-decrease-${item.id}`}
                               >
                                 -
@@ -233,16 +289,16 @@ export default function AdminDemand() {
                               <Button
                                 size="sm"
                                 variant="outline"
-                                onClick={() => handleStockUpdate(item.id, stock, 1)}
-                                disabled={updateStockMutation.isPending}
+                                onClick={() => handleStockUpdate(item.id, onHand, 1)}
+                                disabled={!branchId || updateStockMutation.isPending}
                                 data-testid={`button-increase-${item.id}`}
                               >
                                 +
                               </Button>
                               <Button
                                 size="sm"
-                                onClick={() => handleStockUpdate(item.id, stock, 10)}
-                                disabled={updateStockMutation.isPending}
+                                onClick={() => handleStockUpdate(item.id, onHand, 10)}
+                                disabled={!branchId || updateStockMutation.isPending}
                                 className="hidden sm:inline-flex"
                                 data-testid={`button-add-10-${item.id}`}
                               >
@@ -824,6 +824,11 @@ export default function AdminExpenses() {
                                 {supplierName}
                               </span>
                             )}
+                            {expense.paymentStatus === "unpaid" && (
+                              <span className="text-xs px-2 py-1 rounded-full bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200" data-testid={`badge-unpaid-${expense.id}`}>
+                                Unpaid{expense.dueDate ? ` - due ${format(new Date(expense.dueDate), "MMM dd")}` : ""}
+                              </span>
+                            )}
                             {expense.receiptUrl && (
                               <a 
                                 href={expense.receiptUrl} 
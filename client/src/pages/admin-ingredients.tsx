@@ -0,0 +1,820 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import AdminSidebar from "@/components/AdminSidebar";
+import AdminHeader from "@/components/AdminHeader";
+import { Wheat, AlertTriangle, Edit, Settings, Plus, Trash2, PackagePlus } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { INGREDIENT_UNITS, type BranchStock, type Ingredient, type MenuItem, type RecipeItem, type ReorderPoint, type Supplier } from "@shared/schema";
+
+const INGREDIENT_CATEGORIES = ["dairy", "produce", "meat", "dry_goods", "sauces", "beverage", "packaging"];
+
+interface MenuItemVariantGroup {
+  id: string;
+  name: string;
+  options: Array<{ id: string; name: string }>;
+}
+
+interface IngredientForm {
+  name: string;
+  unit: string;
+  category: string;
+  costPerUnit: string;
+  lowStockThreshold: string;
+  isActive: boolean;
+}
+
+const EMPTY_INGREDIENT: IngredientForm = {
+  name: "",
+  unit: "g",
+  category: "none",
+  costPerUnit: "0",
+  lowStockThreshold: "0",
+  isActive: true,
+};
+
+const formatCategory = (category: string) =>
+  category.replace(/_/g, " ").replace(/\b\w/g, c => c.toUpperCase());
+
+export default function AdminIngredients() {
+  const { toast } = useToast();
+  const { user, logout } = useAuth();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const branchId = user?.branchId;
+
+  // Ingredient dialogs
+  const [ingredientDialogOpen, setIngredientDialogOpen] = useState(false);
+  const [editingIngredient, setEditingIngredient] = useState<Ingredient | null>(null);
+  const [ingredientForm, setIngredientForm] = useState<IngredientForm>(EMPTY_INGREDIENT);
+  const [stockIngredient, setStockIngredient] = useState<Ingredient | null>(null);
+  const [stockChange, setStockChange] = useState("");
+  const [stockReason, setStockReason] = useState("");
+  const [reorderIngredient, setReorderIngredient] = useState<Ingredient | null>(null);
+  const [reorderForm, setReorderForm] = useState({ reorderLevel: "", reorderQuantity: "", preferredSupplierId: "none", leadTimeDays: "" });
+
+  // Recipe editor
+  const [recipeMenuItemId, setRecipeMenuItemId] = useState("");
+  const [newLine, setNewLine] = useState({ ingredientId: "", quantity: "", variantOptionId: "base" });
+
+  const { data: ingredients = [], isLoading } = useQuery<Ingredient[]>({
+    queryKey: ["/api/ingredients"],
+  });
+
+  const { data: menuItems = [] } = useQuery<MenuItem[]>({
+    queryKey: ["/api/menu-items"],
+  });
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: reorderPoints = [] } = useQuery<ReorderPoint[]>({
+    queryKey: ["/api/inventory/reorder-points", branchId],
+    queryFn: async () => {
+      const response = await fetch(`/api/inventory/reorder-points/${branchId}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch reorder points");
+      return response.json();
+    },
+    enabled: !!branchId,
+  });
+
+  const { data: branchStock = [] } = useQuery<BranchStock[]>({
+    queryKey: ["/api/inventory/stock", branchId],
+    queryFn: async () => {
+      const response = await fetch(`/api/inventory/stock/${branchId}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch branch stock");
+      return response.json();
+    },
+    enabled: !!branchId,
+  });
+
+  const { data: recipeItems = [] } = useQuery<RecipeItem[]>({
+    queryKey: ["/api/recipes"],
+  });
+
+  const { data: variantGroups = [] } = useQuery<MenuItemVariantGroup[]>({
+    queryKey: [`/api/menu-items/${recipeMenuItemId}/variant-groups`],
+    enabled: !!recipeMenuItemId,
+  });
+
+  const invalidateStock = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/ingredients"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock", branchId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory/reorder-points", branchId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock", branchId] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveIngredientMutation = useMutation({
+    mutationFn: (data: any) => editingIngredient
+      ? apiRequest(`/api/ingredients/${editingIngredient.id}`, "PATCH", data)
+      : apiRequest("/api/ingredients", "POST", data),
+    onSuccess: () => {
+      invalidateStock();
+      toast({ title: "Success", description: editingIngredient ? "Ingredient updated" : "Ingredient added" });
+      setIngredientDialogOpen(false);
+    },
+    onError,
+  });
+
+  const deleteIngredientMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/ingredients/${id}`, "DELETE"),
+    onSuccess: () => {
+      invalidateStock();
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      toast({ title: "Success", description: "Ingredient deleted" });
+    },
+    onError,
+  });
+
+  const adjustStockMutation = useMutation({
+    mutationFn: (data: any) => apiRequest("/api/inventory/transactions", "POST", data),
+    onSuccess: () => {
+      invalidateStock();
+      toast({ title: "Success", description: "Stock adjusted" });
+      setStockIngredient(null);
+    },
+    onError,
+  });
+
+  const saveReorderPointMutation = useMutation({
+    mutationFn: ({ id, data }: { id?: string; data: any }) => id
+      ? apiRequest(`/api/inventory/reorder-points/${id}`, "PATCH", data)
+      : apiRequest("/api/inventory/reorder-points", "POST", data),
+    onSuccess: () => {
+      invalidateStock();
+      toast({ title: "Success", description: "Reorder point saved" });
+      setReorderIngredient(null);
+    },
+    onError,
+  });
+
+  const deleteReorderPointMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/inventory/reorder-points/${id}`, "DELETE"),
+    onSuccess: () => {
+      invalidateStock();
+      toast({ title: "Success", description: "Reorder point deleted" });
+      setReorderIngredient(null);
+    },
+    onError,
+  });
+
+  const addRecipeLineMutation = useMutation({
+    mutationFn: (data: any) => apiRequest("/api/recipes", "POST", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      setNewLine({ ingredientId: "", quantity: "", variantOptionId: "base" });
+    },
+    onError,
+  });
+
+  const updateRecipeLineMutation = useMutation({
+    mutationFn: ({ id, quantity }: { id: string; quantity: number }) =>
+      apiRequest(`/api/recipes/${id}`, "PATCH", { quantity }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+    },
+    onError,
+  });
+
+  const deleteRecipeLineMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/recipes/${id}`, "DELETE"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+    },
+    onError,
+  });
+
+  const ingredientById = new Map(ingredients.map(i => [i.id, i]));
+  const reorderPointFor = (ingredientId: string) =>
+    reorderPoints.find(rp => rp.ingredientId === ingredientId && rp.branchId === branchId);
+
+  // Stock at the user's branch; without a branch, the total across branches
+  const stockAt = (ingredient: Ingredient) => {
+    if (!branchId) return { onHand: ingredient.stockQuantity, available: ingredient.stockQuantity };
+    const level = branchStock.find(row => row.ingredientId === ingredient.id);
+    return { onHand: level?.onHand ?? 0, available: level?.available ?? 0 };
+  };
+
+  // Same rule as the low-stock route: the reorder level when set, otherwise the ingredient's threshold
+  const isLowStock = (ingredient: Ingredient) => {
+    const point = reorderPointFor(ingredient.id);
+    const { available } = stockAt(ingredient);
+    if (point?.isActive) return available <= point.reorderLevel;
+    return available <= (ingredient.lowStockThreshold || 0);
+  };
+  const lowStock = ingredients.filter(i => i.isActive && isLowStock(i));
+
+  const openIngredientDialog = (ingredient?: Ingredient) => {
+    setEditingIngredient(ingredient || null);
+    setIngredientForm(ingredient ? {
+      name: ingredient.name,
+      unit: ingredient.unit,
+      category: ingredient.category || "none",
+      costPerUnit: ingredient.costPerUnit,
+      lowStockThreshold: String(ingredient.lowStockThreshold ?? 0),
+      isActive: ingredient.isActive,
+    } : EMPTY_INGREDIENT);
+    setIngredientDialogOpen(true);
+  };
+
+  const handleSaveIngredient = () => {
+    if (!ingredientForm.name.trim()) {
+      toast({ title: "Error", description: "Name is required", variant: "destructive" });
+      return;
+    }
+    saveIngredientMutation.mutate({
+      name: ingredientForm.name.trim(),
+      unit: ingredientForm.unit,
+      category: ingredientForm.category === "none" ? null : ingredientForm.category,
+      costPerUnit: String(parseFloat(ingredientForm.costPerUnit) || 0),
+      lowStockThreshold: parseInt(ingredientForm.lowStockThreshold, 10) || 0,
+      isActive: ingredientForm.isActive,
+    });
+  };
+
+  const handleDeleteIngredient = (ingredient: Ingredient) => {
+    if (confirm(`Delete ${ingredient.name}? Recipe lines using it are removed too.`)) {
+      deleteIngredientMutation.mutate(ingredient.id);
+    }
+  };
+
+  const handleAdjustStock = () => {
+    if (!stockIngredient) return;
+    if (!branchId) {
+      toast({ title: "Error", description: "Your account is not assigned to a branch", variant: "destructive" });
+      return;
+    }
+    const quantity = parseInt(stockChange, 10);
+    if (!quantity) {
+      toast({ title: "Error", description: "Enter a non-zero quantity", variant: "destructive" });
+      return;
+    }
+    adjustStockMutation.mutate({
+      ingredientId: stockIngredient.id,
+      branchId,
+      transactionType: "adjustment",
+      quantity,
+      reason: stockReason || "Manual adjustment",
+    });
+  };
+
+  const openReorderDialog = (ingredient: Ingredient) => {
+    const point = reorderPointFor(ingredient.id);
+    setReorderForm({
+      reorderLevel: point ? String(point.reorderLevel) : "",
+      reorderQuantity: point ? String(point.reorderQuantity) : "",
+      preferredSupplierId: point?.preferredSupplierId || "none",
+      leadTimeDays: point?.leadTimeDays ? String(point.leadTimeDays) : "",
+    });
+    setReorderIngredient(ingredient);
+  };
+
+  const handleSaveReorderPoint = () => {
+    if (!reorderIngredient || !branchId) return;
+    const reorderLevel = parseInt(reorderForm.reorderLevel, 10);
+    const reorderQuantity = parseInt(reorderForm.reorderQuantity, 10);
+    if (isNaN(reorderLevel) || isNaN(reorderQuantity)) {
+      toast({ title: "Error", description: "Reorder level and quantity are required", variant: "destructive" });
+      return;
+    }
+    saveReorderPointMutation.mutate({
+      id: reorderPointFor(reorderIngredient.id)?.id,
+      data: {
+        ingredientId: reorderIngredient.id,
+        branchId,
+        reorderLevel,
+        reorderQuantity,
+        preferredSupplierId: reorderForm.preferredSupplierId === "none" ? null : reorderForm.preferredSupplierId,
+        leadTimeDays: parseInt(reorderForm.leadTimeDays, 10) || 7,
+        isActive: true,
+      },
+    });
+  };
+
+  const handleAddRecipeLine = () => {
+    const quantity = parseInt(newLine.quantity, 10);
+    if (!recipeMenuItemId || !newLine.ingredientId || !(quantity > 0)) {
+      toast({ title: "Error", description: "Choose an ingredient and a quantity", variant: "destructive" });
+      return;
+    }
+    addRecipeLineMutation.mutate({
+      menuItemId: recipeMenuItemId,
+      variantOptionId: newLine.variantOptionId === "base" ? null : newLine.variantOptionId,
+      ingredientId: newLine.ingredientId,
+      quantity,
+    });
+  };
+
+  const recipeLines = recipeItems.filter(r => r.menuItemId === recipeMenuItemId);
+  const optionNames = new Map(
+    variantGroups.flatMap(group => group.options.map(option => [option.id, `${group.name}: ${option.name}`] as const))
+  );
+  const recipeSections = [
+    { key: "base", label: "Base recipe", lines: recipeLines.filter(r => !r.variantOptionId) },
+    ...Array.from(new Set(recipeLines.map(r => r.variantOptionId).filter((id): id is string => !!id))).map(id => ({
+      key: id,
+      label: `Extra for ${optionNames.get(id) || "variant option"}`,
+      lines: recipeLines.filter(r => r.variantOptionId === id),
+    })),
+  ];
+  const recipeCost = (lines: RecipeItem[]) => lines.reduce((sum, line) => {
+    const ingredient = ingredientById.get(line.ingredientId);
+    return sum + (ingredient ? parseFloat(ingredient.costPerUnit) * line.quantity : 0);
+  }, 0);
+  const menuItemsWithRecipe = new Set(recipeItems.map(r => r.menuItemId).filter(Boolean));
+
+  return (
+    <div className="flex h-screen bg-background">
+      {sidebarOpen && (
+        <div
+          className="fixed inset-0 bg-background/80 backdrop-blur-sm z-40 md:hidden"
+          onClick={() => setSidebarOpen(false)}
+        />
+      )}
+      <div className={`fixed md:static inset-y-0 left-0 z-50 w-64 transform transition-transform duration-200 ${sidebarOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}`}>
+        <AdminSidebar
+          soundEnabled={false}
+          onToggleSound={() => {}}
+          onLogout={logout}
+        />
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <AdminHeader
+          breadcrumbs={["Admin", "Ingredients & Recipes"]}
+          notificationCount={lowStock.length}
+          userName={user?.fullName || "Admin User"}
+          onMenuToggle={() => setSidebarOpen(!sidebarOpen)}
+        />
+
+        <main className="flex-1 overflow-y-auto p-4 md:p-6">
+          <div className="space-y-6">
+            <div>
+              <h2 className="text-2xl font-bold" data-testid="text-ingredients-title">Ingredients & Recipes</h2>
+              <p className="text-muted-foreground">
+                Items with a recipe deduct ingredients when ordered; items without one deduct finished stock
+              </p>
+            </div>
+
+            <Tabs defaultValue="ingredients">
+              <TabsList>
+                <TabsTrigger value="ingredients" data-testid="tab-ingredients">Ingredients</TabsTrigger>
+                <TabsTrigger value="recipes" data-testid="tab-recipes">Recipes</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="ingredients" className="space-y-6">
+                {lowStock.length > 0 && (
+                  <Card className="border-yellow-200 dark:border-yellow-900 bg-yellow-50 dark:bg-yellow-950/20">
+                    <CardHeader>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <AlertTriangle className="h-5 w-5 text-yellow-600" />
+                        Low Stock Ingredients
+                      </CardTitle>
+                      <CardDescription>These ingredients need to be reordered soon</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="flex flex-wrap gap-2">
+                        {lowStock.map(ingredient => (
+                          <Badge key={ingredient.id} variant="destructive" data-testid={`badge-low-stock-${ingredient.id}`}>
+                            {ingredient.name}: {stockAt(ingredient).available} {ingredient.unit}
+                          </Badge>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between gap-4">
+                    <div>
+                      <CardTitle>All Ingredients</CardTitle>
+                      <CardDescription>Stock is counted in each ingredient's base unit</CardDescription>
+                    </div>
+                    <Button onClick={() => openIngredientDialog()} data-testid="button-add-ingredient">
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Ingredient
+                    </Button>
+                  </CardHeader>
+                  <CardContent>
+                    {isLoading ? (
+                      <div className="text-center py-8 text-muted-foreground">Loading ingredients...</div>
+                    ) : ingredients.length === 0 ? (
+                      <div className="text-center py-8 text-muted-foreground">
+                        <Wheat className="h-12 w-12 mx-auto mb-4" />
+                        No ingredients yet
+                      </div>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead className="border-b">
+                            <tr className="text-left">
+                              <th className="px-4 py-2 font-semibold">Ingredient</th>
+                              <th className="px-4 py-2 font-semibold">Category</th>
+                              <th className="px-4 py-2 font-semibold">Stock</th>
+                              <th className="px-4 py-2 font-semibold">Reorder Level</th>
+                              <th className="px-4 py-2 font-semibold">Cost / Unit</th>
+                              <th className="px-4 py-2 font-semibold">Actions</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {ingredients.map(ingredient => {
+                              const point = reorderPointFor(ingredient.id);
+                              return (
+                                <tr key={ingredient.id} className="border-b hover:bg-muted/50 transition-colors" data-testid={`row-ingredient-${ingredient.id}`}>
+                                  <td className="px-4 py-3">
+                                    <div className="flex items-center gap-2">
+                                      <span className="font-medium">{ingredient.name}</span>
+                                      {!ingredient.isActive && <Badge variant="secondary">Inactive</Badge>}
+                                      {ingredient.isActive && isLowStock(ingredient) && <Badge variant="destructive">Low Stock</Badge>}
+                                    </div>
+                                  </td>
+                                  <td className="px-4 py-3 text-muted-foreground">
+                                    {ingredient.category ? formatCategory(ingredient.category) : "-"}
+                                  </td>
+                                  <td className="px-4 py-3" data-testid={`text-stock-${ingredient.id}`}>
+                                    {stockAt(ingredient).onHand} {ingredient.unit}
+                                    {stockAt(ingredient).available !== stockAt(ingredient).onHand && (
+                                      <span className="text-xs text-muted-foreground"> ({stockAt(ingredient).available} available)</span>
+                                    )}
+                                  </td>
+                                  <td className="px-4 py-3">
+                                    {point ? `${point.reorderLevel} (order ${point.reorderQuantity})` : "-"}
+                                  </td>
+                                  <td className="px-4 py-3">Rs. {parseFloat(ingredient.costPerUnit).toFixed(2)}</td>
+                                  <td className="px-4 py-3">
+                                    <div className="flex gap-1">
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => { setStockIngredient(ingredient); setStockChange(""); setStockReason(""); }}
+                                        data-testid={`button-adjust-stock-${ingredient.id}`}
+                                      >
+                                        <PackagePlus className="h-4 w-4 mr-1" />
+                                        Stock
+                                      </Button>
+                                      <Button size="sm" variant="outline" onClick={() => openReorderDialog(ingredient)} data-testid={`button-reorder-${ingredient.id}`}>
+                                        <Settings className="h-4 w-4" />
+                                      </Button>
+                                      <Button size="sm" variant="outline" onClick={() => openIngredientDialog(ingredient)} data-testid={`button-edit-ingredient-${ingredient.id}`}>
+                                        <Edit className="h-4 w-4" />
+                                      </Button>
+                                      <Button size="sm" variant="outline" onClick={() => handleDeleteIngredient(ingredient)} data-testid={`button-delete-ingredient-${ingredient.id}`}>
+                                        <Trash2 className="h-4 w-4" />
+                                      </Button>
+                                    </div>
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="recipes" className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Recipe</CardTitle>
+                    <CardDescription>
+                      Ingredient quantities used per unit sold. Variant lines are used on top of the base recipe when that option is chosen.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <Select value={recipeMenuItemId} onValueChange={setRecipeMenuItemId}>
+                      <SelectTrigger className="md:w-80" data-testid="select-recipe-menu-item">
+                        <SelectValue placeholder="Select a menu item" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {menuItems.map(item => (
+                          <SelectItem key={item.id} value={item.id}>
+                            {item.name}{menuItemsWithRecipe.has(item.id) ? " ✓" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {recipeMenuItemId && (
+                      <>
+                        {recipeLines.length === 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            No recipe - this item deducts its own stock quantity when ordered.
+                          </p>
+                        )}
+                        {recipeSections.filter(section => section.lines.length > 0).map(section => (
+                          <div key={section.key} className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <h3 className="font-semibold">{section.label}</h3>
+                              <span className="text-sm text-muted-foreground">
+                                Cost: Rs. {recipeCost(section.lines).toFixed(2)}
+                              </span>
+                            </div>
+                            {section.lines.map(line => {
+                              const ingredient = ingredientById.get(line.ingredientId);
+                              return (
+                                <div key={line.id} className="flex items-center gap-2 p-2 border rounded-lg" data-testid={`row-recipe-line-${line.id}`}>
+                                  <span className="flex-1">{ingredient?.name || "Unknown ingredient"}</span>
+                                  <Input
+                                    type="number"
+                                    min="1"
+                                    className="w-24"
+                                    defaultValue={line.quantity}
+                                    onBlur={(e) => {
+                                      const quantity = parseInt(e.target.value, 10);
+                                      if (quantity > 0 && quantity !== line.quantity) {
+                                        updateRecipeLineMutation.mutate({ id: line.id, quantity });
+                                      }
+                                    }}
+                                    data-testid={`input-recipe-quantity-${line.id}`}
+                                  />
+                                  <span className="w-10 text-sm text-muted-foreground">{ingredient?.unit}</span>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => deleteRecipeLineMutation.mutate(line.id)}
+                                    data-testid={`button-delete-recipe-line-${line.id}`}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        ))}
+
+                        <div className="grid gap-2 md:grid-cols-[1fr_1fr_8rem_auto] items-end border-t pt-4">
+                          <div className="space-y-1">
+                            <Label>Ingredient</Label>
+                            <Select value={newLine.ingredientId} onValueChange={(value) => setNewLine({ ...newLine, ingredientId: value })}>
+                              <SelectTrigger data-testid="select-recipe-ingredient">
+                                <SelectValue placeholder="Ingredient" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ingredients.filter(i => i.isActive).map(ingredient => (
+                                  <SelectItem key={ingredient.id} value={ingredient.id}>
+                                    {ingredient.name} ({ingredient.unit})
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-1">
+                            <Label>Applies to</Label>
+                            <Select value={newLine.variantOptionId} onValueChange={(value) => setNewLine({ ...newLine, variantOptionId: value })}>
+                              <SelectTrigger data-testid="select-recipe-variant">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="base">Base recipe</SelectItem>
+                                {variantGroups.flatMap(group => group.options.map(option => (
+                                  <SelectItem key={option.id} value={option.id}>
+                                    {group.name}: {option.name}
+                                  </SelectItem>
+                                )))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-1">
+                            <Label>Quantity</Label>
+                            <Input
+                              type="number"
+                              min="1"
+                              value={newLine.quantity}
+                              onChange={(e) => setNewLine({ ...newLine, quantity: e.target.value })}
+                              data-testid="input-recipe-quantity"
+                            />
+                          </div>
+                          <Button onClick={handleAddRecipeLine} disabled={addRecipeLineMutation.isPending} data-testid="button-add-recipe-line">
+                            <Plus className="h-4 w-4 mr-1" />
+                            Add
+                          </Button>
+                        </div>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
+          </div>
+        </main>
+      </div>
+
+      {/* Add / Edit Ingredient Dialog */}
+      <Dialog open={ingredientDialogOpen} onOpenChange={setIngredientDialogOpen}>
+        <DialogContent data-testid="dialog-ingredient">
+          <DialogHeader>
+            <DialogTitle>{editingIngredient ? "Edit" : "Add"} Ingredient</DialogTitle>
+            <DialogDescription>Quantities and costs are per base unit (gram, millilitre or piece)</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="ingredient-name">Name</Label>
+              <Input
+                id="ingredient-name"
+                value={ingredientForm.name}
+                onChange={(e) => setIngredientForm({ ...ingredientForm, name: e.target.value })}
+                data-testid="input-ingredient-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Unit</Label>
+                <Select value={ingredientForm.unit} onValueChange={(value) => setIngredientForm({ ...ingredientForm, unit: value })}>
+                  <SelectTrigger data-testid="select-ingredient-unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INGREDIENT_UNITS.map(unit => (
+                      <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Category</Label>
+                <Select value={ingredientForm.category} onValueChange={(value) => setIngredientForm({ ...ingredientForm, category: value })}>
+                  <SelectTrigger data-testid="select-ingredient-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {INGREDIENT_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category}>{formatCategory(category)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="ingredient-cost">Cost per Unit (Rs.)</Label>
+                <Input
+                  id="ingredient-cost"
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  value={ingredientForm.costPerUnit}
+                  onChange={(e) => setIngredientForm({ ...ingredientForm, costPerUnit: e.target.value })}
+                  data-testid="input-ingredient-cost"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="ingredient-threshold">Low Stock Threshold</Label>
+                <Input
+                  id="ingredient-threshold"
+                  type="number"
+                  min="0"
+                  value={ingredientForm.lowStockThreshold}
+                  onChange={(e) => setIngredientForm({ ...ingredientForm, lowStockThreshold: e.target.value })}
+                  data-testid="input-ingredient-threshold"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={ingredientForm.isActive}
+                onCheckedChange={(checked) => setIngredientForm({ ...ingredientForm, isActive: checked })}
+                data-testid="switch-ingredient-active"
+              />
+              <Label>Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIngredientDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveIngredient} disabled={saveIngredientMutation.isPending} data-testid="button-save-ingredient">
+              {saveIngredientMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Stock Adjustment Dialog */}
+      <Dialog open={!!stockIngredient} onOpenChange={(open) => !open && setStockIngredient(null)}>
+        <DialogContent data-testid="dialog-adjust-ingredient-stock">
+          <DialogHeader>
+            <DialogTitle>Adjust Stock</DialogTitle>
+            <DialogDescription>
+              {stockIngredient?.name}: {stockIngredient ? stockAt(stockIngredient).onHand : 0} {stockIngredient?.unit} on hand at your branch. Use a negative number to remove stock.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="stock-change">Change ({stockIngredient?.unit})</Label>
+              <Input
+                id="stock-change"
+                type="number"
+                value={stockChange}
+                onChange={(e) => setStockChange(e.target.value)}
+                data-testid="input-stock-change"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="stock-reason">Reason</Label>
+              <Input
+                id="stock-reason"
+                placeholder="e.g. Opening count, correction"
+                value={stockReason}
+                onChange={(e) => setStockReason(e.target.value)}
+                data-testid="input-stock-reason"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStockIngredient(null)}>Cancel</Button>
+            <Button onClick={handleAdjustStock} disabled={adjustStockMutation.isPending} data-testid="button-save-stock">
+              {adjustStockMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reorder Point Dialog */}
+      <Dialog open={!!reorderIngredient} onOpenChange={(open) => !open && setReorderIngredient(null)}>
+        <DialogContent data-testid="dialog-ingredient-reorder">
+          <DialogHeader>
+            <DialogTitle>Reorder Point</DialogTitle>
+            <DialogDescription>Configure reorder settings for {reorderIngredient?.name} ({reorderIngredient?.unit})</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="reorder-level">Reorder Level</Label>
+              <Input
+                id="reorder-level"
+                type="number"
+                value={reorderForm.reorderLevel}
+                onChange={(e) => setReorderForm({ ...reorderForm, reorderLevel: e.target.value })}
+                data-testid="input-reorder-level"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reorder-quantity">Reorder Quantity</Label>
+              <Input
+                id="reorder-quantity"
+                type="number"
+                value={reorderForm.reorderQuantity}
+                onChange={(e) => setReorderForm({ ...reorderForm, reorderQuantity: e.target.value })}
+                data-testid="input-reorder-quantity"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Preferred Supplier</Label>
+              <Select value={reorderForm.preferredSupplierId} onValueChange={(value) => setReorderForm({ ...reorderForm, preferredSupplierId: value })}>
+                <SelectTrigger data-testid="select-supplier">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No supplier</SelectItem>
+                  {suppliers.map(supplier => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="lead-time">Lead Time (Days)</Label>
+              <Input
+                id="lead-time"
+                type="number"
+                placeholder="7"
+                value={reorderForm.leadTimeDays}
+                onChange={(e) => setReorderForm({ ...reorderForm, leadTimeDays: e.target.value })}
+                data-testid="input-lead-time"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            {reorderIngredient && reorderPointFor(reorderIngredient.id) && (
+              <Button
+                variant="destructive"
+                onClick={() => deleteReorderPointMutation.mutate(reorderPointFor(reorderIngredient.id)!.id)}
+                disabled={deleteReorderPointMutation.isPending}
+                data-testid="button-delete-reorder"
+              >
+                Delete
+              </Button>
+            )}
+            <div className="flex-1" />
+            <Button variant="outline" onClick={() => setReorderIngredient(null)}>Cancel</Button>
+            <Button onClick={handleSaveReorderPoint} disabled={saveReorderPointMutation.isPending} data-testid="button-save-reorder">
+              {saveReorderPointMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -13,12 +13,13 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import AdminSidebar from "@/components/AdminSidebar";
 import AdminHeader from "@/components/AdminHeader";
-import { Package, AlertTriangle, Edit, Settings } from "lucide-react";
+import { Package, AlertTriangle, Edit, Settings, ArrowLeftRight, CalendarClock } from "lucide-react";
+import { Link } from "wouter";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/context/AuthContext";
-import type { MenuItem, ReorderPoint, Supplier } from "@shared/schema";
+import type { Branch, BranchStock, Ingredient, MenuItem, ReorderPoint, StockBatch, StockTransfer, Supplier } from "@shared/schema";
 
-// Schema for adjusting stock quantity
+// Schema for adjusting stock quantity - the counted on-hand quantity at the branch
 const stockAdjustmentSchema = z.object({
   stockQuantity: z.string().min(1, "Stock quantity is required").transform(val => parseInt(val, 10)),
   lowStockThreshold: z.string().optional().transform(val => val ? parseInt(val, 10) : undefined),
@@ -35,9 +36,23 @@ const reorderPointSchema = z.object({
 type StockAdjustmentFormData = z.infer<typeof stockAdjustmentSchema>;
 type ReorderPointFormData = z.infer<typeof reorderPointSchema>;
 
+// Row of /api/inventory/low-stock - a finished item or an ingredient
+interface LowStockItem {
+  menuItem?: MenuItem;
+  ingredient?: Ingredient;
+  onHand: number;
+  reserved: number;
+  currentStock: number; // Available
+  reorderLevel: number;
+  reorderQuantity: number;
+}
+
 interface MenuItemWithReorderPoint extends MenuItem {
   reorderPoint?: ReorderPoint;
   supplier?: Supplier;
+  onHand: number;
+  reserved: number;
+  available: number;
 }
 
 export default function AdminInventory() {
@@ -47,8 +62,14 @@ export default function AdminInventory() {
   const [stockDialogOpen, setStockDialogOpen] = useState(false);
   const [reorderDialogOpen, setReorderDialogOpen] = useState(false);
   const [selectedItem, setSelectedItem] = useState<MenuItemWithReorderPoint | null>(null);
+  const [selectedBranchId, setSelectedBranchId] = useState("");
+
+  // Admins without a branch of their own pick which branch to look at
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+  });
 
-  const branchId = user?.branchId;
+  const branchId = user?.branchId || selectedBranchId || branches[0]?.id;
 
   // Fetch menu items
   const { data: menuItems = [], isLoading: menuItemsLoading } = useQuery<MenuItem[]>({
@@ -67,13 +88,47 @@ export default function AdminInventory() {
     enabled: !!branchId,
   });
 
+  // Fetch on-hand, reserved and available stock at this branch
+  const { data: branchStock = [], isLoading: branchStockLoading } = useQuery<BranchStock[]>({
+    queryKey: ["/api/inventory/stock", branchId],
+    queryFn: async () => {
+      if (!branchId) throw new Error("Branch ID is required");
+      const response = await fetch(`/api/inventory/stock/${branchId}`);
+      if (!response.ok) throw new Error("Failed to fetch branch stock");
+      return response.json();
+    },
+    enabled: !!branchId,
+  });
+
+  // Fetch transfers into and out of this branch
+  const { data: stockTransfers = [] } = useQuery<StockTransfer[]>({
+    queryKey: ["/api/stock-transfers", { searchParams: { branchId: branchId || "" } }],
+    enabled: !!branchId,
+  });
+
+  // Fetch batches expired or expiring within the branch's warning window
+  const { data: expiring } = useQuery<{ days: number; expired: StockBatch[]; expiringSoon: StockBatch[] }>({
+    queryKey: ["/api/inventory/expiring", branchId],
+    queryFn: async () => {
+      if (!branchId) throw new Error("Branch ID is required");
+      const response = await fetch(`/api/inventory/expiring/${branchId}`);
+      if (!response.ok) throw new Error("Failed to fetch expiring batches");
+      return response.json();
+    },
+    enabled: !!branchId,
+  });
+
+  const { data: ingredients = [] } = useQuery<Ingredient[]>({
+    queryKey: ["/api/ingredients"],
+  });
+
   // Fetch suppliers
   const { data: suppliers = [] } = useQuery<Supplier[]>({
     queryKey: ["/api/suppliers"],
   });
 
   // Fetch low stock items from API
-  const { data: lowStockItems = [] } = useQuery<MenuItem[]>({
+  const { data: lowStockItems = [] } = useQuery<LowStockItem[]>({
     queryKey: ["/api/inventory/low-stock", branchId],
     queryFn: async () => {
       if (!branchId) throw new Error("Branch ID is required");
@@ -102,12 +157,17 @@ export default function AdminInventory() {
     },
   });
 
-  // Mutation to update menu item stock
+  // Mutation to record a stock count at this branch (and the item's threshold, if changed)
   const updateStockMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<MenuItem> }) =>
-      apiRequest(`/api/menu-items/${id}`, "PUT", data),
+    mutationFn: async ({ id, onHand, lowStockThreshold }: { id: string; onHand: number; lowStockThreshold?: number }) => {
+      await apiRequest("/api/inventory/stock-count", "POST", { branchId, menuItemId: id, onHand });
+      if (lowStockThreshold !== undefined) {
+        await apiRequest(`/api/menu-items/${id}`, "PUT", { lowStockThreshold });
+      }
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/menu-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock", branchId] });
       queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock", branchId] });
       toast({ title: "Success", description: "Stock quantity updated" });
       setStockDialogOpen(false);
@@ -118,6 +178,20 @@ export default function AdminInventory() {
     },
   });
 
+  // Mutation to write an expired batch off as wastage
+  const writeOffBatchMutation = useMutation({
+    mutationFn: (batchId: string) => apiRequest(`/api/inventory/batches/${batchId}/write-off`, "POST"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/expiring", branchId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock", branchId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock", branchId] });
+      toast({ title: "Success", description: "Batch written off as wastage" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   // Mutation to create reorder point
   const createReorderPointMutation = useMutation({
     mutationFn: (data: any) => apiRequest("/api/inventory/reorder-points", "POST", data),
@@ -170,7 +244,15 @@ export default function AdminInventory() {
     const supplier = reorderPoint
       ? suppliers.find(s => s.id === reorderPoint.preferredSupplierId)
       : undefined;
-    return { ...item, reorderPoint, supplier };
+    const stock = branchStock.find(row => row.menuItemId === item.id);
+    return {
+      ...item,
+      reorderPoint,
+      supplier,
+      onHand: stock?.onHand ?? 0,
+      reserved: stock?.reserved ?? 0,
+      available: stock?.available ?? 0,
+    };
   });
 
   // Filter to only show items with stock tracking
@@ -178,18 +260,18 @@ export default function AdminInventory() {
     item => item.stockQuantity !== null && item.stockQuantity !== undefined
   );
 
-  // Calculate low stock alerts
+  // Calculate low stock alerts from what is still available at this branch
   const lowStockAlerts = inventoryItems.filter(item => {
     if (item.reorderPoint) {
-      return (item.stockQuantity || 0) <= item.reorderPoint.reorderLevel;
+      return item.available <= item.reorderPoint.reorderLevel;
     }
-    return (item.stockQuantity || 0) <= (item.lowStockThreshold || 0);
+    return item.available <= (item.lowStockThreshold || 0);
   });
 
   const handleOpenStockDialog = (item: MenuItemWithReorderPoint) => {
     setSelectedItem(item);
     stockForm.reset({
-      stockQuantity: item.stockQuantity?.toString() || "0",
+      stockQuantity: item.onHand.toString(),
       lowStockThreshold: item.lowStockThreshold?.toString() || "",
     });
     setStockDialogOpen(true);
@@ -218,15 +300,11 @@ export default function AdminInventory() {
   const onStockSubmit = (data: StockAdjustmentFormData) => {
     if (!selectedItem) return;
 
-    const updateData: Partial<MenuItem> = {
-      stockQuantity: data.stockQuantity,
-    };
-
-    if (data.lowStockThreshold !== undefined) {
-      updateData.lowStockThreshold = data.lowStockThreshold;
-    }
-
-    updateStockMutation.mutate({ id: selectedItem.id, data: updateData });
+    updateStockMutation.mutate({
+      id: selectedItem.id,
+      onHand: data.stockQuantity,
+      lowStockThreshold: data.lowStockThreshold,
+    });
   };
 
   const onReorderSubmit = (data: ReorderPointFormData) => {
@@ -255,7 +333,19 @@ export default function AdminInventory() {
     }
   };
 
-  const isLoading = menuItemsLoading || reorderPointsLoading;
+  // Ingredients are managed on the Ingredients page; their alerts are listed here too
+  const lowStockIngredients = lowStockItems.filter(item => item.ingredient);
+  const menuItemReorderPoints = reorderPoints.filter(rp => rp.menuItemId);
+
+  const openTransfers = stockTransfers.filter(t => ["draft", "dispatched", "in_transit"].includes(t.status));
+  const branchName = (id: string) => branches.find(b => b.id === id)?.name || "another branch";
+
+  const expiringBatches = [...(expiring?.expired || []), ...(expiring?.expiringSoon || [])];
+  const batchName = (batch: StockBatch) => batch.ingredientId
+    ? ingredients.find(i => i.id === batch.ingredientId)?.name || "Unknown ingredient"
+    : menuItems.find(m => m.id === batch.menuItemId)?.name || "Unknown item";
+
+  const isLoading = menuItemsLoading || reorderPointsLoading || branchStockLoading;
 
   return (
     <div className="flex h-screen bg-background">
@@ -305,7 +395,7 @@ export default function AdminInventory() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold text-yellow-600" data-testid="text-low-stock-count">
-                    {lowStockAlerts.length}
+                    {lowStockAlerts.length + lowStockIngredients.length}
                   </div>
                   <p className="text-xs text-muted-foreground">Items need reorder</p>
                 </CardContent>
@@ -318,7 +408,7 @@ export default function AdminInventory() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold" data-testid="text-reorder-points-count">
-                    {reorderPoints.length}
+                    {menuItemReorderPoints.length}
                   </div>
                   <p className="text-xs text-muted-foreground">Configured items</p>
                 </CardContent>
@@ -331,10 +421,22 @@ export default function AdminInventory() {
                 <h2 className="text-2xl font-bold" data-testid="text-inventory-title">Inventory Items</h2>
                 <p className="text-muted-foreground">Manage stock levels and reorder settings</p>
               </div>
+              {!user?.branchId && (
+                <Select value={branchId || ""} onValueChange={setSelectedBranchId}>
+                  <SelectTrigger className="w-48" data-testid="select-inventory-branch">
+                    <SelectValue placeholder="Select a branch" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {branches.map(branch => (
+                      <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
 
             {/* Low Stock Alerts */}
-            {lowStockAlerts.length > 0 && (
+            {(lowStockAlerts.length > 0 || lowStockIngredients.length > 0) && (
               <Card className="border-yellow-200 dark:border-yellow-900 bg-yellow-50 dark:bg-yellow-950/20">
                 <CardHeader>
                   <CardTitle className="text-lg flex items-center gap-2">
@@ -356,7 +458,7 @@ export default function AdminInventory() {
                         <div>
                           <p className="font-medium">{item.name}</p>
                           <p className="text-sm text-muted-foreground">
-                            Current: {item.stockQuantity} {item.reorderPoint ? `| Reorder at: ${item.reorderPoint.reorderLevel}` : `| Threshold: ${item.lowStockThreshold}`}
+                            Available: {item.available} {item.reorderPoint ? `| Reorder at: ${item.reorderPoint.reorderLevel}` : `| Threshold: ${item.lowStockThreshold}`}
                           </p>
                         </div>
                         <Badge variant="destructive" data-testid={`badge-low-stock-${item.id}`}>
@@ -364,6 +466,115 @@ export default function AdminInventory() {
                         </Badge>
                       </div>
                     ))}
+                    {lowStockIngredients.map(({ ingredient, currentStock, reorderLevel }) => (
+                      <div
+                        key={ingredient!.id}
+                        className="flex items-center justify-between p-3 bg-background rounded-lg"
+                        data-testid={`alert-ingredient-${ingredient!.id}`}
+                      >
+                        <div>
+                          <p className="font-medium">{ingredient!.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            Available: {currentStock} {ingredient!.unit} | Reorder at: {reorderLevel}
+                          </p>
+                        </div>
+                        <Badge variant="destructive">Ingredient</Badge>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Open Stock Transfers */}
+            {openTransfers.length > 0 && (
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <ArrowLeftRight className="h-5 w-5" />
+                      Stock Transfers
+                    </CardTitle>
+                    <CardDescription>Stock on its way into or out of this branch</CardDescription>
+                  </div>
+                  <Link href="/admin/stock-transfers">
+                    <Button variant="outline" size="sm" data-testid="link-stock-transfers">View All</Button>
+                  </Link>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {openTransfers.map(transfer => {
+                      const outgoing = transfer.fromBranchId === branchId;
+                      return (
+                        <div
+                          key={transfer.id}
+                          className="flex items-center justify-between p-3 border rounded-lg text-sm"
+                          data-testid={`transfer-${transfer.id}`}
+                        >
+                          <div>
+                            <p className="font-mono text-xs">{transfer.transferNumber}</p>
+                            <p className="text-muted-foreground">
+                              {outgoing
+                                ? `Outgoing to ${branchName(transfer.toBranchId)}`
+                                : `Incoming from ${branchName(transfer.fromBranchId)}`}
+                            </p>
+                          </div>
+                          <Badge variant={outgoing ? "secondary" : "default"}>
+                            {transfer.status === "in_transit" ? "In Transit" : transfer.status.charAt(0).toUpperCase() + transfer.status.slice(1)}
+                          </Badge>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Expiring Batches */}
+            {expiringBatches.length > 0 && (
+              <Card className="border-orange-500">
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <CalendarClock className="h-5 w-5 text-orange-500" />
+                    Expiring Soon
+                  </CardTitle>
+                  <CardDescription>Batches expired or expiring within {expiring?.days} days - use these first</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {expiringBatches.map(batch => {
+                      const expired = new Date(batch.expiryDate!) <= new Date();
+                      return (
+                        <div
+                          key={batch.id}
+                          className="flex items-center justify-between p-3 border rounded-lg text-sm"
+                          data-testid={`batch-${batch.id}`}
+                        >
+                          <div>
+                            <p className="font-semibold">{batchName(batch)}</p>
+                            <p className="text-muted-foreground">
+                              {batch.lotNumber ? `Lot ${batch.lotNumber} - ` : ""}{batch.quantityRemaining} of {batch.quantityReceived} left
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant={expired ? "destructive" : "secondary"}>
+                              {expired ? "Expired" : "Expires"} {new Date(batch.expiryDate!).toLocaleDateString()}
+                            </Badge>
+                            {expired && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => writeOffBatchMutation.mutate(batch.id)}
+                                disabled={writeOffBatchMutation.isPending}
+                                data-testid={`button-write-off-${batch.id}`}
+                              >
+                                Write Off
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
@@ -413,8 +624,16 @@ export default function AdminInventory() {
                             </div>
                             <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-muted-foreground">
                               <div>
-                                <span className="font-medium">Stock:</span>{" "}
-                                <span data-testid={`text-stock-${item.id}`}>{item.stockQuantity}</span>
+                                <span className="font-medium">On Hand:</span>{" "}
+                                <span data-testid={`text-stock-${item.id}`}>{item.onHand}</span>
+                              </div>
+                              <div>
+                                <span className="font-medium">Reserved:</span>{" "}
+                                <span data-testid={`text-reserved-${item.id}`}>{item.reserved}</span>
+                              </div>
+                              <div>
+                                <span className="font-medium">Available:</span>{" "}
+                                <span data-testid={`text-available-${item.id}`}>{item.available}</span>
                               </div>
                               <div>
                                 <span className="font-medium">Threshold:</span>{" "}
@@ -477,7 +696,7 @@ export default function AdminInventory() {
           <DialogHeader>
             <DialogTitle>Adjust Stock Quantity</DialogTitle>
             <DialogDescription>
-              Update stock levels for {selectedItem?.name}
+              Enter the quantity of {selectedItem?.name} counted on hand at this branch. The difference is recorded as an adjustment.
             </DialogDescription>
           </DialogHeader>
           <Form {...stockForm}>
@@ -487,7 +706,7 @@ export default function AdminInventory() {
                 name="stockQuantity"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Stock Quantity</FormLabel>
+                    <FormLabel>Counted On Hand</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
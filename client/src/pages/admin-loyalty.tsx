@@ -0,0 +1,1100 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import AdminSidebar from "@/components/AdminSidebar";
+import AdminHeader from "@/components/AdminHeader";
+import { CreditCard, Crown, Gift, Pencil, Plus, Save, Stamp, Trash2, Users } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import type { Branch, Category, GiftCard, GiftCardTransaction, LoyaltyReward, LoyaltyRewardType, LoyaltyTier, LoyaltyTierMetric, MenuItem, Referral, StampCard } from "@shared/schema";
+
+interface TierConfig {
+  metric: LoyaltyTierMetric;
+  tiers: Array<Omit<LoyaltyTier, "id" | "createdAt" | "updatedAt">>;
+  usingDefaults: boolean;
+}
+
+// One editable row - numbers and perks are kept as typed until saved
+interface TierDraft {
+  code: string;
+  name: string;
+  threshold: string;
+  earnMultiplier: string;
+  freeDelivery: boolean;
+  perks: string;
+  isActive: boolean;
+}
+
+type RewardRow = LoyaltyReward & { menuItemName: string | null; remaining: number | null; usedCount: number };
+
+// The reward form - numbers and dates are kept as typed until saved
+interface RewardDraft {
+  name: string;
+  description: string;
+  rewardType: LoyaltyRewardType;
+  menuItemId: string;
+  pointsCost: string;
+  stockLimit: string;
+  branchIds: string[];
+  validFrom: string;
+  validUntil: string;
+  voucherValidDays: string;
+  isActive: boolean;
+}
+
+const EMPTY_REWARD: RewardDraft = {
+  name: "",
+  description: "",
+  rewardType: "free_item",
+  menuItemId: "",
+  pointsCost: "",
+  stockLimit: "",
+  branchIds: [],
+  validFrom: "",
+  validUntil: "",
+  voucherValidDays: "",
+  isActive: true,
+};
+
+type StampCardRow = StampCard & { rewardMenuItemName: string | null };
+
+interface ReferralReport {
+  summary: { signups: number; converted: number; pending: number; rejected: number; conversionRate: number; rewardCost: number };
+  byReferrer: Array<{ referrerId: string; name: string; signups: number; converted: number; rejected: number; rewardCost: number }>;
+  referrals: Array<Referral & { referrerName: string; refereeName: string }>;
+}
+
+const GIFT_CARD_STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  active: "default",
+  pending: "secondary",
+  voided: "destructive",
+};
+
+const REFERRAL_STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  rewarded: "default",
+  pending: "secondary",
+  rejected: "destructive",
+};
+
+interface StampCardDraft {
+  name: string;
+  description: string;
+  menuItemIds: string[];
+  categoryIds: string[];
+  stampsRequired: string;
+  rewardMenuItemId: string;
+  voucherValidDays: string;
+  isActive: boolean;
+}
+
+const EMPTY_STAMP_CARD: StampCardDraft = {
+  name: "",
+  description: "",
+  menuItemIds: [],
+  categoryIds: [],
+  stampsRequired: "10",
+  rewardMenuItemId: "",
+  voucherValidDays: "",
+  isActive: true,
+};
+
+const REWARD_TYPE_LABELS: Record<LoyaltyRewardType, string> = {
+  free_item: "Free item",
+  free_delivery: "Free delivery",
+};
+
+const toDateInput = (value: Date | string | null) => value ? new Date(value).toISOString().split("T")[0] : "";
+const toOptionalInt = (value: string) => value.trim() ? parseInt(value, 10) : null;
+
+const METRIC_LABELS: Record<LoyaltyTierMetric, string> = {
+  lifetime_points: "Lifetime points earned",
+  rolling_spend: "Spend in the last 12 months",
+  order_count: "Orders in the last 12 months",
+};
+
+const THRESHOLD_LABELS: Record<LoyaltyTierMetric, string> = {
+  lifetime_points: "Points",
+  rolling_spend: "Spend (Rs.)",
+  order_count: "Orders",
+};
+
+export default function AdminLoyalty() {
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [metric, setMetric] = useState<LoyaltyTierMetric>("rolling_spend");
+  const [tiers, setTiers] = useState<TierDraft[]>([]);
+  const [editingRewardId, setEditingRewardId] = useState<string | null>(null);
+  const [rewardDialogOpen, setRewardDialogOpen] = useState(false);
+  const [reward, setReward] = useState<RewardDraft>(EMPTY_REWARD);
+  const [editingStampCardId, setEditingStampCardId] = useState<string | null>(null);
+  const [stampCardDialogOpen, setStampCardDialogOpen] = useState(false);
+  const [stampCard, setStampCard] = useState<StampCardDraft>(EMPTY_STAMP_CARD);
+  // Referral report period
+  const [referralStartDate, setReferralStartDate] = useState(() => {
+    const date = new Date();
+    date.setDate(date.getDate() - 30);
+    return date.toISOString().split('T')[0];
+  });
+  const [referralEndDate, setReferralEndDate] = useState(new Date().toISOString().split('T')[0]);
+  const [giftCardSearch, setGiftCardSearch] = useState("");
+  const [giftCardStatus, setGiftCardStatus] = useState("all");
+  const [selectedGiftCardId, setSelectedGiftCardId] = useState<string | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const { toast } = useToast();
+  const { user, logout } = useAuth();
+
+  const { data: config, isLoading } = useQuery<TierConfig>({
+    queryKey: ["/api/admin/loyalty/tiers"],
+  });
+
+  const { data: rewards = [], isLoading: rewardsLoading } = useQuery<RewardRow[]>({
+    queryKey: ["/api/admin/loyalty/rewards"],
+  });
+
+  const { data: menuItems = [] } = useQuery<MenuItem[]>({
+    queryKey: ["/api/menu-items"],
+  });
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+  });
+
+  const { data: stampCards = [], isLoading: stampCardsLoading } = useQuery<StampCardRow[]>({
+    queryKey: ["/api/admin/loyalty/stamp-cards"],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const { data: referralReport, isLoading: referralReportLoading } = useQuery<ReferralReport>({
+    queryKey: ["/api/admin/referrals/report", referralStartDate, referralEndDate],
+    queryFn: async () => {
+      const params = new URLSearchParams({ startDate: referralStartDate, endDate: referralEndDate });
+      const res = await fetch(`/api/admin/referrals/report?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch referral report");
+      return res.json();
+    },
+  });
+
+  const { data: giftCards = [], isLoading: giftCardsLoading } = useQuery<GiftCard[]>({
+    queryKey: ["/api/admin/gift-cards", giftCardSearch, giftCardStatus],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (giftCardSearch.trim()) params.set("search", giftCardSearch.trim());
+      if (giftCardStatus !== "all") params.set("status", giftCardStatus);
+      const res = await fetch(`/api/admin/gift-cards?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch gift cards");
+      return res.json();
+    },
+  });
+
+  const { data: selectedGiftCard } = useQuery<GiftCard & { transactions: GiftCardTransaction[] }>({
+    queryKey: [`/api/admin/gift-cards/${selectedGiftCardId}`],
+    enabled: !!selectedGiftCardId,
+  });
+
+  const voidGiftCardMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/admin/gift-cards/${selectedGiftCardId}/void`, "POST", { reason: voidReason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/gift-cards"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/gift-cards/${selectedGiftCardId}`] });
+      setVoidReason("");
+      toast({ title: "Gift card voided", description: "Its balance can no longer be spent" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not void gift card", description: error.message, variant: "destructive" });
+    },
+  });
+
+  useEffect(() => {
+    if (!config) return;
+    setMetric(config.metric);
+    setTiers(config.tiers.map(tier => ({
+      code: tier.code,
+      name: tier.name,
+      threshold: String(parseFloat(tier.threshold)),
+      earnMultiplier: String(parseFloat(tier.earnMultiplier)),
+      freeDelivery: tier.freeDelivery,
+      perks: (tier.perks || []).join(", "),
+      isActive: tier.isActive,
+    })));
+  }, [config]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/admin/loyalty/tiers", "PUT", {
+        metric,
+        tiers: tiers.map(tier => ({
+          code: tier.code,
+          name: tier.name,
+          threshold: parseFloat(tier.threshold) || 0,
+          earnMultiplier: parseFloat(tier.earnMultiplier) || 0,
+          freeDelivery: tier.freeDelivery,
+          perks: tier.perks.split(",").map(perk => perk.trim()).filter(Boolean),
+          isActive: tier.isActive,
+        })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/loyalty/tiers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/customers/stats/overview"] });
+      toast({ title: "Tiers saved", description: "Customers are being moved to the tiers they now qualify for" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveRewardMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: reward.name,
+        description: reward.description || null,
+        rewardType: reward.rewardType,
+        menuItemId: reward.rewardType === "free_item" ? reward.menuItemId || null : null,
+        pointsCost: parseInt(reward.pointsCost, 10) || 0,
+        stockLimit: toOptionalInt(reward.stockLimit),
+        branchIds: reward.branchIds,
+        validFrom: reward.validFrom || null,
+        validUntil: reward.validUntil || null,
+        voucherValidDays: toOptionalInt(reward.voucherValidDays),
+        isActive: reward.isActive,
+      };
+      return editingRewardId
+        ? await apiRequest(`/api/admin/loyalty/rewards/${editingRewardId}`, "PUT", payload)
+        : await apiRequest("/api/admin/loyalty/rewards", "POST", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/loyalty/rewards"] });
+      toast({ title: editingRewardId ? "Reward updated" : "Reward created" });
+      setRewardDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openRewardDialog = (row?: RewardRow) => {
+    setEditingRewardId(row?.id || null);
+    setReward(row ? {
+      name: row.name,
+      description: row.description || "",
+      rewardType: row.rewardType as LoyaltyRewardType,
+      menuItemId: row.menuItemId || "",
+      pointsCost: String(row.pointsCost),
+      stockLimit: row.stockLimit != null ? String(row.stockLimit) : "",
+      branchIds: (row.branchIds as string[]) || [],
+      validFrom: toDateInput(row.validFrom),
+      validUntil: toDateInput(row.validUntil),
+      voucherValidDays: row.voucherValidDays != null ? String(row.voucherValidDays) : "",
+      isActive: row.isActive,
+    } : EMPTY_REWARD);
+    setRewardDialogOpen(true);
+  };
+
+  const toggleRewardBranch = (branchId: string, checked: boolean) => {
+    setReward(prev => ({
+      ...prev,
+      branchIds: checked ? [...prev.branchIds, branchId] : prev.branchIds.filter(id => id !== branchId),
+    }));
+  };
+
+  const branchNames = (ids: string[]) =>
+    ids.length === 0 ? "All branches" : ids.map(id => branches.find(b => b.id === id)?.name || "Unknown").join(", ");
+
+  const saveStampCardMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: stampCard.name,
+        description: stampCard.description || null,
+        menuItemIds: stampCard.menuItemIds,
+        categoryIds: stampCard.categoryIds,
+        stampsRequired: parseInt(stampCard.stampsRequired, 10) || 0,
+        rewardMenuItemId: stampCard.rewardMenuItemId,
+        voucherValidDays: toOptionalInt(stampCard.voucherValidDays),
+        isActive: stampCard.isActive,
+      };
+      return editingStampCardId
+        ? await apiRequest(`/api/admin/loyalty/stamp-cards/${editingStampCardId}`, "PUT", payload)
+        : await apiRequest("/api/admin/loyalty/stamp-cards", "POST", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/loyalty/stamp-cards"] });
+      toast({ title: editingStampCardId ? "Stamp card updated" : "Stamp card created" });
+      setStampCardDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openStampCardDialog = (row?: StampCardRow) => {
+    setEditingStampCardId(row?.id || null);
+    setStampCard(row ? {
+      name: row.name,
+      description: row.description || "",
+      menuItemIds: (row.menuItemIds as string[]) || [],
+      categoryIds: (row.categoryIds as string[]) || [],
+      stampsRequired: String(row.stampsRequired),
+      rewardMenuItemId: row.rewardMenuItemId,
+      voucherValidDays: row.voucherValidDays != null ? String(row.voucherValidDays) : "",
+      isActive: row.isActive,
+    } : EMPTY_STAMP_CARD);
+    setStampCardDialogOpen(true);
+  };
+
+  const toggleStampCardList = (key: "menuItemIds" | "categoryIds", id: string, checked: boolean) => {
+    setStampCard(prev => ({
+      ...prev,
+      [key]: checked ? [...prev[key], id] : prev[key].filter(existing => existing !== id),
+    }));
+  };
+
+  // What earns stamps on a card, as a short list of names
+  const stampSources = (row: StampCardRow) => [
+    ...((row.categoryIds as string[]) || []).map(id => categories.find(c => c.id === id)?.name || "Unknown category"),
+    ...((row.menuItemIds as string[]) || []).map(id => menuItems.find(m => m.id === id)?.name || "Unknown item"),
+  ].join(", ");
+
+  const updateTier = (index: number, changes: Partial<TierDraft>) => {
+    setTiers(prev => prev.map((tier, i) => i === index ? { ...tier, ...changes } : tier));
+  };
+
+  const addTier = () => {
+    setTiers(prev => [...prev, { code: "", name: "", threshold: "", earnMultiplier: "1", freeDelivery: false, perks: "", isActive: true }]);
+  };
+
+  return (
+    <div className="flex h-screen bg-background">
+      {sidebarOpen && (
+        <div
+          className="fixed inset-0 bg-background/80 backdrop-blur-sm z-40 md:hidden"
+          onClick={() => setSidebarOpen(false)}
+        />
+      )}
+      <div className={`fixed md:static inset-y-0 left-0 z-50 w-64 transform transition-transform duration-200 ${sidebarOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}`}>
+        <AdminSidebar
+          soundEnabled={false}
+          onToggleSound={() => {}}
+          onLogout={logout}
+        />
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <AdminHeader
+          breadcrumbs={["Admin", "Loyalty Program"]}
+          notificationCount={0}
+          userName={user?.fullName || "Admin User"}
+          onMenuToggle={() => setSidebarOpen(!sidebarOpen)}
+        />
+
+        <main className="flex-1 overflow-y-auto p-4 md:p-6">
+          <div className="space-y-6">
+            <div>
+              <h2 className="text-2xl font-bold" data-testid="text-loyalty-title">Loyalty Program</h2>
+              <p className="text-muted-foreground">Tiers, rewards and perks for returning customers</p>
+            </div>
+
+            <Tabs defaultValue="tiers">
+              <TabsList>
+                <TabsTrigger value="tiers" data-testid="tab-loyalty-tiers">Tiers</TabsTrigger>
+                <TabsTrigger value="rewards" data-testid="tab-loyalty-rewards">Rewards</TabsTrigger>
+                <TabsTrigger value="stamp-cards" data-testid="tab-loyalty-stamp-cards">Stamp Cards</TabsTrigger>
+                <TabsTrigger value="referrals" data-testid="tab-loyalty-referrals">Referrals</TabsTrigger>
+                <TabsTrigger value="gift-cards" data-testid="tab-loyalty-gift-cards">Gift Cards</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="tiers" className="mt-4">
+                <Card>
+                  <CardHeader>
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          <Crown className="h-5 w-5" />
+                          Tiers
+                          {config?.usingDefaults && <Badge variant="secondary">Defaults</Badge>}
+                        </CardTitle>
+                        <CardDescription>
+                          Customers move up and down automatically. Higher tiers multiply the points earned per order.
+                        </CardDescription>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Qualify by</Label>
+                        <Select value={metric} onValueChange={(value) => setMetric(value as LoyaltyTierMetric)}>
+                          <SelectTrigger className="w-64" data-testid="select-tier-metric">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(METRIC_LABELS) as LoyaltyTierMetric[]).map(key => (
+                              <SelectItem key={key} value={key}>{METRIC_LABELS[key]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {isLoading ? (
+                      <p className="text-muted-foreground">Loading tiers...</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Name</TableHead>
+                            <TableHead>Code</TableHead>
+                            <TableHead>{THRESHOLD_LABELS[metric]}</TableHead>
+                            <TableHead>Points Multiplier</TableHead>
+                            <TableHead>Free Delivery</TableHead>
+                            <TableHead>Perks (comma separated)</TableHead>
+                            <TableHead>Active</TableHead>
+                            <TableHead></TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {tiers.map((tier, index) => (
+                            <TableRow key={index} data-testid={`row-tier-${index}`}>
+                              <TableCell>
+                                <Input value={tier.name} onChange={(e) => updateTier(index, { name: e.target.value })} className="w-32" data-testid={`input-tier-name-${index}`} />
+                              </TableCell>
+                              <TableCell>
+                                <Input value={tier.code} onChange={(e) => updateTier(index, { code: e.target.value })} className="w-28" data-testid={`input-tier-code-${index}`} />
+                              </TableCell>
+                              <TableCell>
+                                <Input type="number" min="0" value={tier.threshold} onChange={(e) => updateTier(index, { threshold: e.target.value })} className="w-28" data-testid={`input-tier-threshold-${index}`} />
+                              </TableCell>
+                              <TableCell>
+                                <Input type="number" min="0" step="0.05" value={tier.earnMultiplier} onChange={(e) => updateTier(index, { earnMultiplier: e.target.value })} className="w-24" data-testid={`input-tier-multiplier-${index}`} />
+                              </TableCell>
+                              <TableCell>
+                                <Switch checked={tier.freeDelivery} onCheckedChange={(checked) => updateTier(index, { freeDelivery: checked })} data-testid={`switch-tier-free-delivery-${index}`} />
+                              </TableCell>
+                              <TableCell>
+                                <Input value={tier.perks} onChange={(e) => updateTier(index, { perks: e.target.value })} className="min-w-48" data-testid={`input-tier-perks-${index}`} />
+                              </TableCell>
+                              <TableCell>
+                                <Switch checked={tier.isActive} onCheckedChange={(checked) => updateTier(index, { isActive: checked })} data-testid={`switch-tier-active-${index}`} />
+                              </TableCell>
+                              <TableCell>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setTiers(prev => prev.filter((_, i) => i !== index))}
+                                  data-testid={`button-remove-tier-${index}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                    <p className="text-sm text-muted-foreground">
+                      New customers start in the tier with a threshold of 0. Removing a tier moves its customers to the tier they qualify for.
+                    </p>
+                    <div className="flex justify-between">
+                      <Button variant="outline" onClick={addTier} data-testid="button-add-tier">
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Tier
+                      </Button>
+                      <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || tiers.length === 0} data-testid="button-save-tiers">
+                        <Save className="h-4 w-4 mr-2" />
+                        {saveMutation.isPending ? "Saving..." : "Save Tiers"}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="rewards" className="mt-4">
+                <Card>
+                  <CardHeader>
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          <Gift className="h-5 w-5" />
+                          Rewards
+                        </CardTitle>
+                        <CardDescription>
+                          Customers spend points on these and get a single-use voucher for their next order.
+                        </CardDescription>
+                      </div>
+                      <Button onClick={() => openRewardDialog()} data-testid="button-add-reward">
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Reward
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {rewardsLoading ? (
+                      <p className="text-muted-foreground">Loading rewards...</p>
+                    ) : rewards.length === 0 ? (
+                      <p className="text-muted-foreground">No rewards yet</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Reward</TableHead>
+                            <TableHead>Points</TableHead>
+                            <TableHead>Claimed</TableHead>
+                            <TableHead>Remaining</TableHead>
+                            <TableHead>Branches</TableHead>
+                            <TableHead>Valid</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead></TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {rewards.map(row => (
+                            <TableRow key={row.id} data-testid={`row-reward-${row.id}`}>
+                              <TableCell>
+                                <div className="font-medium">{row.name}</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {row.rewardType === "free_item" ? row.menuItemName || "Item removed" : REWARD_TYPE_LABELS.free_delivery}
+                                </div>
+                              </TableCell>
+                              <TableCell>{row.pointsCost}</TableCell>
+                              <TableCell>{row.claimedCount} ({row.usedCount} used)</TableCell>
+                              <TableCell>{row.remaining ?? "Unlimited"}</TableCell>
+                              <TableCell className="max-w-48 truncate">{branchNames((row.branchIds as string[]) || [])}</TableCell>
+                              <TableCell className="text-sm">
+                                {row.validFrom || row.validUntil
+                                  ? `${toDateInput(row.validFrom) || "Now"} - ${toDateInput(row.validUntil) || "No end"}`
+                                  : "Always"}
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant={row.isActive ? "default" : "secondary"}>{row.isActive ? "Active" : "Inactive"}</Badge>
+                              </TableCell>
+                              <TableCell>
+                                <Button variant="ghost" size="icon" onClick={() => openRewardDialog(row)} data-testid={`button-edit-reward-${row.id}`}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="stamp-cards" className="mt-4">
+                <Card>
+                  <CardHeader>
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          <Stamp className="h-5 w-5" />
+                          Stamp Cards
+                        </CardTitle>
+                        <CardDescription>
+                          Each item bought earns a stamp. A full card gives the customer a voucher for a free item.
+                        </CardDescription>
+                      </div>
+                      <Button onClick={() => openStampCardDialog()} data-testid="button-add-stamp-card">
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Stamp Card
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {stampCardsLoading ? (
+                      <p className="text-muted-foreground">Loading stamp cards...</p>
+                    ) : stampCards.length === 0 ? (
+                      <p className="text-muted-foreground">No stamp cards yet</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Card</TableHead>
+                            <TableHead>Earned On</TableHead>
+                            <TableHead>Stamps</TableHead>
+                            <TableHead>Free Item</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead></TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {stampCards.map(row => (
+                            <TableRow key={row.id} data-testid={`row-stamp-card-${row.id}`}>
+                              <TableCell className="font-medium">{row.name}</TableCell>
+                              <TableCell className="max-w-64 truncate">{stampSources(row)}</TableCell>
+                              <TableCell>{row.stampsRequired}</TableCell>
+                              <TableCell>{row.rewardMenuItemName || "Item removed"}</TableCell>
+                              <TableCell>
+                                <Badge variant={row.isActive ? "default" : "secondary"}>{row.isActive ? "Active" : "Inactive"}</Badge>
+                              </TableCell>
+                              <TableCell>
+                                <Button variant="ghost" size="icon" onClick={() => openStampCardDialog(row)} data-testid={`button-edit-stamp-card-${row.id}`}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="referrals" className="mt-4 space-y-4">
+                <div className="flex flex-wrap gap-4 items-end">
+                  <div className="space-y-1">
+                    <Label htmlFor="referrals-start">From</Label>
+                    <Input id="referrals-start" type="date" value={referralStartDate} onChange={(e) => setReferralStartDate(e.target.value)} data-testid="input-referrals-start" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="referrals-end">To</Label>
+                    <Input id="referrals-end" type="date" value={referralEndDate} onChange={(e) => setReferralEndDate(e.target.value)} data-testid="input-referrals-end" />
+                  </div>
+                </div>
+
+                {referralReport && (
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    <Card>
+                      <CardHeader className="pb-2"><CardDescription>Signups</CardDescription></CardHeader>
+                      <CardContent><p className="text-2xl font-bold" data-testid="text-referral-signups">{referralReport.summary.signups}</p></CardContent>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2"><CardDescription>Converted</CardDescription></CardHeader>
+                      <CardContent><p className="text-2xl font-bold" data-testid="text-referral-converted">{referralReport.summary.converted}</p></CardContent>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2"><CardDescription>Conversion Rate</CardDescription></CardHeader>
+                      <CardContent><p className="text-2xl font-bold" data-testid="text-referral-conversion">{referralReport.summary.conversionRate}%</p></CardContent>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2"><CardDescription>Pending / Rejected</CardDescription></CardHeader>
+                      <CardContent><p className="text-2xl font-bold">{referralReport.summary.pending} / {referralReport.summary.rejected}</p></CardContent>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2"><CardDescription>Reward Cost</CardDescription></CardHeader>
+                      <CardContent><p className="text-2xl font-bold" data-testid="text-referral-cost">₨{referralReport.summary.rewardCost.toFixed(2)}</p></CardContent>
+                    </Card>
+                  </div>
+                )}
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Users className="h-5 w-5" />
+                      Top Referrers
+                    </CardTitle>
+                    <CardDescription>
+                      Referrals made in the period. Rewards are given once the new customer's first paid order is completed; referrals sharing the referrer's phone or address are rejected.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {referralReportLoading ? (
+                      <p className="text-muted-foreground">Loading referrals...</p>
+                    ) : !referralReport || referralReport.byReferrer.length === 0 ? (
+                      <p className="text-muted-foreground">No referrals in this period</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Customer</TableHead>
+                            <TableHead>Signups</TableHead>
+                            <TableHead>Converted</TableHead>
+                            <TableHead>Rejected</TableHead>
+                            <TableHead>Reward Cost</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {referralReport.byReferrer.map(row => (
+                            <TableRow key={row.referrerId} data-testid={`row-referrer-${row.referrerId}`}>
+                              <TableCell className="font-medium">{row.name}</TableCell>
+                              <TableCell>{row.signups}</TableCell>
+                              <TableCell>{row.converted}</TableCell>
+                              <TableCell>{row.rejected}</TableCell>
+                              <TableCell>₨{row.rewardCost.toFixed(2)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {referralReport && referralReport.referrals.length > 0 && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Referrals</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Signed Up</TableHead>
+                            <TableHead>New Customer</TableHead>
+                            <TableHead>Referred By</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead>Reward Cost</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {referralReport.referrals.map(row => (
+                            <TableRow key={row.id} data-testid={`row-referral-${row.id}`}>
+                              <TableCell>{new Date(row.createdAt).toLocaleDateString()}</TableCell>
+                              <TableCell className="font-medium">{row.refereeName}</TableCell>
+                              <TableCell>{row.referrerName}</TableCell>
+                              <TableCell>
+                                <Badge variant={REFERRAL_STATUS_VARIANTS[row.status] || "secondary"} className="capitalize">{row.status}</Badge>
+                                {row.rejectionReason && <p className="text-xs text-muted-foreground mt-1">{row.rejectionReason}</p>}
+                              </TableCell>
+                              <TableCell>₨{parseFloat(row.rewardCost).toFixed(2)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                )}
+              </TabsContent>
+
+              <TabsContent value="gift-cards" className="mt-4">
+                <Card>
+                  <CardHeader>
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          <CreditCard className="h-5 w-5" />
+                          Gift Cards
+                        </CardTitle>
+                        <CardDescription>
+                          Cards sold at the POS or bought online. Voiding a card stops its balance being spent.
+                        </CardDescription>
+                      </div>
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="Search code or recipient"
+                          value={giftCardSearch}
+                          onChange={(e) => setGiftCardSearch(e.target.value)}
+                          className="w-56"
+                          data-testid="input-gift-card-search"
+                        />
+                        <Select value={giftCardStatus} onValueChange={setGiftCardStatus}>
+                          <SelectTrigger className="w-36" data-testid="select-gift-card-status">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All</SelectItem>
+                            <SelectItem value="active">Active</SelectItem>
+                            <SelectItem value="pending">Pending</SelectItem>
+                            <SelectItem value="voided">Voided</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {giftCardsLoading ? (
+                      <p className="text-muted-foreground">Loading gift cards...</p>
+                    ) : giftCards.length === 0 ? (
+                      <p className="text-muted-foreground">No gift cards found</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Code</TableHead>
+                            <TableHead>Recipient</TableHead>
+                            <TableHead>Value</TableHead>
+                            <TableHead>Balance</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead>Sold</TableHead>
+                            <TableHead />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {giftCards.map(card => (
+                            <TableRow key={card.id} data-testid={`row-gift-card-${card.id}`}>
+                              <TableCell className="font-mono font-medium">{card.code}</TableCell>
+                              <TableCell>{card.recipientName || "-"}</TableCell>
+                              <TableCell>₨{parseFloat(card.initialValue).toFixed(2)}</TableCell>
+                              <TableCell>₨{parseFloat(card.balance).toFixed(2)}</TableCell>
+                              <TableCell>
+                                <Badge variant={GIFT_CARD_STATUS_VARIANTS[card.status] || "secondary"} className="capitalize">{card.status}</Badge>
+                              </TableCell>
+                              <TableCell>{new Date(card.createdAt).toLocaleDateString()}</TableCell>
+                              <TableCell className="text-right">
+                                <Button size="sm" variant="ghost" onClick={() => setSelectedGiftCardId(card.id)} data-testid={`button-view-gift-card-${card.id}`}>
+                                  View
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
+
+            <Dialog open={!!selectedGiftCardId} onOpenChange={(open) => { if (!open) { setSelectedGiftCardId(null); setVoidReason(""); } }}>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle className="font-mono">{selectedGiftCard?.code}</DialogTitle>
+                  <DialogDescription>
+                    {selectedGiftCard && `₨${parseFloat(selectedGiftCard.balance).toFixed(2)} of ₨${parseFloat(selectedGiftCard.initialValue).toFixed(2)} left`}
+                    {selectedGiftCard?.voidReason && ` · Voided: ${selectedGiftCard.voidReason}`}
+                  </DialogDescription>
+                </DialogHeader>
+                {selectedGiftCard && (
+                  <div className="space-y-4">
+                    {selectedGiftCard.transactions.length === 0 ? (
+                      <p className="text-muted-foreground">No transactions yet</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Date</TableHead>
+                            <TableHead>Description</TableHead>
+                            <TableHead>Amount</TableHead>
+                            <TableHead>Balance</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {selectedGiftCard.transactions.map(transaction => (
+                            <TableRow key={transaction.id} data-testid={`row-gift-card-transaction-${transaction.id}`}>
+                              <TableCell>{new Date(transaction.createdAt).toLocaleString()}</TableCell>
+                              <TableCell>{transaction.description}</TableCell>
+                              <TableCell className={parseFloat(transaction.amount) >= 0 ? "text-green-600" : "text-red-600"}>
+                                {parseFloat(transaction.amount) >= 0 ? "+" : ""}{parseFloat(transaction.amount).toFixed(2)}
+                              </TableCell>
+                              <TableCell>₨{parseFloat(transaction.balanceAfter).toFixed(2)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                    {selectedGiftCard.status === "active" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="gift-card-void-reason">Void Reason</Label>
+                        <Textarea
+                          id="gift-card-void-reason"
+                          value={voidReason}
+                          onChange={(e) => setVoidReason(e.target.value)}
+                          placeholder="Lost, stolen, sold in error..."
+                          data-testid="textarea-gift-card-void-reason"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+                <DialogFooter>
+                  {selectedGiftCard?.status === "active" && (
+                    <Button
+                      variant="destructive"
+                      onClick={() => voidGiftCardMutation.mutate()}
+                      disabled={!voidReason.trim() || voidGiftCardMutation.isPending}
+                      data-testid="button-void-gift-card"
+                    >
+                      Void Card
+                    </Button>
+                  )}
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+
+            <Dialog open={stampCardDialogOpen} onOpenChange={setStampCardDialogOpen}>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{editingStampCardId ? "Edit Stamp Card" : "Add Stamp Card"}</DialogTitle>
+                  <DialogDescription>Customers keep their stamps when a card is edited; an inactive card stops earning stamps.</DialogDescription>
+                </DialogHeader>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1 md:col-span-2">
+                    <Label>Name</Label>
+                    <Input value={stampCard.name} onChange={(e) => setStampCard({ ...stampCard, name: e.target.value })} placeholder="Pizza card" data-testid="input-stamp-card-name" />
+                  </div>
+                  <div className="space-y-1 md:col-span-2">
+                    <Label>Description</Label>
+                    <Textarea value={stampCard.description} onChange={(e) => setStampCard({ ...stampCard, description: e.target.value })} placeholder="Buy 9 pizzas, get the 10th free" data-testid="input-stamp-card-description" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Stamps for a Full Card</Label>
+                    <Input type="number" min="2" value={stampCard.stampsRequired} onChange={(e) => setStampCard({ ...stampCard, stampsRequired: e.target.value })} data-testid="input-stamp-card-required" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Free Item</Label>
+                    <Select value={stampCard.rewardMenuItemId} onValueChange={(value) => setStampCard({ ...stampCard, rewardMenuItemId: value })}>
+                      <SelectTrigger data-testid="select-stamp-card-reward">
+                        <SelectValue placeholder="Choose an item" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {menuItems.map(item => (
+                          <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Voucher Valid For (days)</Label>
+                    <Input type="number" min="1" value={stampCard.voucherValidDays} onChange={(e) => setStampCard({ ...stampCard, voucherValidDays: e.target.value })} placeholder="No limit" data-testid="input-stamp-card-voucher-days" />
+                  </div>
+                  <div className="flex items-center gap-2 pt-6">
+                    <Switch checked={stampCard.isActive} onCheckedChange={(checked) => setStampCard({ ...stampCard, isActive: checked })} data-testid="switch-stamp-card-active" />
+                    <Label>Active</Label>
+                  </div>
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Categories that earn stamps</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {categories.map(category => (
+                        <label key={category.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={stampCard.categoryIds.includes(category.id)}
+                            onCheckedChange={(checked) => toggleStampCardList("categoryIds", category.id, checked === true)}
+                            data-testid={`checkbox-stamp-card-category-${category.id}`}
+                          />
+                          {category.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Items that earn stamps</Label>
+                    <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                      {menuItems.map(item => (
+                        <label key={item.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={stampCard.menuItemIds.includes(item.id)}
+                            onCheckedChange={(checked) => toggleStampCardList("menuItemIds", item.id, checked === true)}
+                            data-testid={`checkbox-stamp-card-item-${item.id}`}
+                          />
+                          {item.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setStampCardDialogOpen(false)}>Cancel</Button>
+                  <Button
+                    onClick={() => saveStampCardMutation.mutate()}
+                    disabled={saveStampCardMutation.isPending || !stampCard.name.trim() || !stampCard.rewardMenuItemId}
+                    data-testid="button-save-stamp-card"
+                  >
+                    {saveStampCardMutation.isPending ? "Saving..." : "Save Stamp Card"}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+
+            <Dialog open={rewardDialogOpen} onOpenChange={setRewardDialogOpen}>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{editingRewardId ? "Edit Reward" : "Add Reward"}</DialogTitle>
+                  <DialogDescription>Vouchers already claimed keep working when a reward is edited or switched off.</DialogDescription>
+                </DialogHeader>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1 md:col-span-2">
+                    <Label>Name</Label>
+                    <Input value={reward.name} onChange={(e) => setReward({ ...reward, name: e.target.value })} placeholder="Free garlic bread" data-testid="input-reward-name" />
+                  </div>
+                  <div className="space-y-1 md:col-span-2">
+                    <Label>Description</Label>
+                    <Textarea value={reward.description} onChange={(e) => setReward({ ...reward, description: e.target.value })} data-testid="input-reward-description" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Type</Label>
+                    <Select value={reward.rewardType} onValueChange={(value) => setReward({ ...reward, rewardType: value as LoyaltyRewardType })}>
+                      <SelectTrigger data-testid="select-reward-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(REWARD_TYPE_LABELS) as LoyaltyRewardType[]).map(key => (
+                          <SelectItem key={key} value={key}>{REWARD_TYPE_LABELS[key]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {reward.rewardType === "free_item" && (
+                    <div className="space-y-1">
+                      <Label>Menu Item</Label>
+                      <Select value={reward.menuItemId} onValueChange={(value) => setReward({ ...reward, menuItemId: value })}>
+                        <SelectTrigger data-testid="select-reward-menu-item">
+                          <SelectValue placeholder="Choose an item" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {menuItems.map(item => (
+                            <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="space-y-1">
+                    <Label>Points Cost</Label>
+                    <Input type="number" min="1" value={reward.pointsCost} onChange={(e) => setReward({ ...reward, pointsCost: e.target.value })} data-testid="input-reward-points" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Stock Limit</Label>
+                    <Input type="number" min="1" value={reward.stockLimit} onChange={(e) => setReward({ ...reward, stockLimit: e.target.value })} placeholder="Unlimited" data-testid="input-reward-stock" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Available From</Label>
+                    <Input type="date" value={reward.validFrom} onChange={(e) => setReward({ ...reward, validFrom: e.target.value })} data-testid="input-reward-valid-from" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Available Until</Label>
+                    <Input type="date" value={reward.validUntil} onChange={(e) => setReward({ ...reward, validUntil: e.target.value })} data-testid="input-reward-valid-until" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Voucher Valid For (days)</Label>
+                    <Input type="number" min="1" value={reward.voucherValidDays} onChange={(e) => setReward({ ...reward, voucherValidDays: e.target.value })} placeholder="Until the reward ends" data-testid="input-reward-voucher-days" />
+                  </div>
+                  <div className="flex items-center gap-2 pt-6">
+                    <Switch checked={reward.isActive} onCheckedChange={(checked) => setReward({ ...reward, isActive: checked })} data-testid="switch-reward-active" />
+                    <Label>Active</Label>
+                  </div>
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Branches (none selected = all branches)</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {branches.map(branch => (
+                        <label key={branch.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={reward.branchIds.includes(branch.id)}
+                            onCheckedChange={(checked) => toggleRewardBranch(branch.id, checked === true)}
+                            data-testid={`checkbox-reward-branch-${branch.id}`}
+                          />
+                          {branch.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setRewardDialogOpen(false)}>Cancel</Button>
+                  <Button
+                    onClick={() => saveRewardMutation.mutate()}
+                    disabled={saveRewardMutation.isPending || !reward.name.trim() || !reward.pointsCost}
+                    data-testid="button-save-reward"
+                  >
+                    {saveRewardMutation.isPending ? "Saving..." : "Save Reward"}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -27,6 +27,7 @@ const campaignSchema = z.object({
   targetAudience: z.string().default("all"),
   messageTemplate: z.string().min(1, "Message template is required"),
   scheduledAt: z.string().optional(),
+  promoTemplateId: z.string().optional(),
 });
 
 type CampaignFormData = z.infer<typeof campaignSchema>;
@@ -42,7 +43,7 @@ export default function AdminMarketingCampaignDetail() {
 
   const [previewAudience, setPreviewAudience] = useState<any>(null);
 
-  const { data: campaign, isLoading } = useQuery({
+  const { data: campaign, isLoading } = useQuery<any>({
     queryKey: [`/api/marketing-campaigns/${id}`],
     enabled: !isNew,
   });
@@ -55,6 +56,10 @@ export default function AdminMarketingCampaignDetail() {
     queryKey: ["/api/message-templates"],
   });
 
+  const { data: promoCodes } = useQuery<any[]>({
+    queryKey: ["/api/promo-codes"],
+  });
+
   const form = useForm<CampaignFormData>({
     resolver: zodResolver(campaignSchema),
     defaultValues: {
@@ -64,6 +69,7 @@ export default function AdminMarketingCampaignDetail() {
       targetAudience: "all",
       messageTemplate: "",
       scheduledAt: "",
+      promoTemplateId: "none",
     },
   });
 
@@ -76,6 +82,7 @@ export default function AdminMarketingCampaignDetail() {
         targetAudience: campaign.targetAudience || "all",
         messageTemplate: campaign.messageTemplate || "",
         scheduledAt: campaign.scheduledAt ? format(new Date(campaign.scheduledAt), "yyyy-MM-dd'T'HH:mm") : "",
+        promoTemplateId: campaign.promoTemplateId || "none",
       });
     }
   }, [campaign, isNew, form]);
@@ -85,6 +92,7 @@ export default function AdminMarketingCampaignDetail() {
       const payload = {
         ...data,
         branchId: data.branchId === "all" ? null : data.branchId,
+        promoTemplateId: !data.promoTemplateId || data.promoTemplateId === "none" ? null : data.promoTemplateId,
         templateVariables: {},
       };
       if (isNew) {
@@ -520,7 +528,36 @@ export default function AdminMarketingCampaignDetail() {
                       />
                     </FormControl>
                     <FormDescription>
-                      Use &#123;&#123;name&#125;&#125; to personalize messages. Other variables can be defined in templates.
+                      Use &#123;&#123;name&#125;&#125; to personalize messages and &#123;&#123;promo_code&#125;&#125; for the recipient's personal code. Other variables can be defined in templates.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="promoTemplateId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Personal Promo Codes (Optional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || "none"} disabled={!canEdit}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-promo-template">
+                          <SelectValue placeholder="No personal codes" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No personal codes</SelectItem>
+                        {promoCodes?.map((promoCode) => (
+                          <SelectItem key={promoCode.id} value={promoCode.id}>
+                            {promoCode.code}{promoCode.description ? ` - ${promoCode.description}` : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      On launch each recipient gets a single-use code copying this promotion, only they can use.
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -246,6 +246,8 @@ export default function AdminMenu() {
               categoryId: editingItem.categoryId || undefined,
               imageUrl: editingItem.imageUrl || "",
               isAvailable: editingItem.isAvailable,
+              kitchenStationId: editingItem.kitchenStationId,
+              prepTimeMinutes: editingItem.prepTimeMinutes,
             } : undefined}
             categories={categories}
             onSubmit={handleSubmit}
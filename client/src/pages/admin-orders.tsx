@@ -11,6 +11,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Eye } from "lucide-react";
 import type { Order as DBOrder } from "@shared/schema";
+import { ORDER_STATUS_LABELS, type OrderStatus } from "@shared/orderLifecycle";
 
 export default function AdminOrders() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -31,7 +32,7 @@ export default function AdminOrders() {
 
   const updateOrderMutation = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      const res = await apiRequest(`/api/orders/${id}`, "PUT", { status });
+      const res = await apiRequest(`/api/orders/${id}/status`, "POST", { status });
       return await res.json();
     },
     onSuccess: () => {
@@ -47,13 +48,18 @@ export default function AdminOrders() {
     switch (status) {
       case "pending":
         return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200";
+      case "confirmed":
+        return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200";
       case "preparing":
         return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200";
       case "ready":
         return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+      case "out_for_delivery":
+        return "bg-cyan-100 text-cyan-800 dark:bg-cyan-900 dark:text-cyan-200";
       case "completed":
         return "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200";
       case "cancelled":
+      case "rejected":
         return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
       default:
         return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200";
@@ -154,7 +160,7 @@ export default function AdminOrders() {
                                 className={getStatusColor(order.status)}
                                 data-testid={`badge-status-${order.id}`}
                               >
-                                {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                                {ORDER_STATUS_LABELS[order.status as OrderStatus] || order.status}
                               </Badge>
                             </td>
                             <td className="px-4 py-3 text-xs text-muted-foreground" data-testid={`text-date-${order.id}`}>
@@ -162,7 +168,7 @@ export default function AdminOrders() {
                             </td>
                             <td className="px-4 py-3">
                               <div className="flex gap-2">
-                                {order.status === "pending" && (
+                                {(order.status === "pending" || order.status === "confirmed") && (
                                   <>
                                     <Button
                                       size="sm"
@@ -183,7 +189,7 @@ export default function AdminOrders() {
                                       onClick={() =>
                                         updateOrderMutation.mutate({
                                           id: order.id,
-                                          status: "cancelled",
+                                          status: order.status === "pending" ? "rejected" : "cancelled",
                                         })
                                       }
                                       disabled={updateOrderMutation.isPending}
@@ -208,7 +214,22 @@ export default function AdminOrders() {
                                     Mark Ready
                                   </Button>
                                 )}
-                                {order.status === "ready" && (
+                                {order.status === "ready" && order.orderType === "delivery" && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() =>
+                                      updateOrderMutation.mutate({
+                                        id: order.id,
+                                        status: "out_for_delivery",
+                                      })
+                                    }
+                                    disabled={updateOrderMutation.isPending}
+                                    data-testid={`button-dispatch-${order.id}`}
+                                  >
+                                    Out for Delivery
+                                  </Button>
+                                )}
+                                {((order.status === "ready" && order.orderType !== "delivery") || order.status === "out_for_delivery") && (
                                   <Button
                                     size="sm"
                                     onClick={() =>
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import AdminSidebar from "@/components/AdminSidebar";
+import AdminHeader from "@/components/AdminHeader";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw, AlertTriangle, Clock, CheckCircle, Loader2 } from "lucide-react";
+import type { OutboxEvent } from "@shared/schema";
+
+interface OutboxResponse {
+  events: OutboxEvent[];
+  stats: Record<string, number>;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  "order.kitchen_tickets": "Kitchen tickets",
+  "order.promo_usage": "Promo code usage",
+  "order.loyalty_award": "Loyalty points award",
+  "order.stock_deduction": "Stock reservation",
+  "order.loyalty_reversal": "Loyalty points reversal",
+  "order.stock_return": "Stock return",
+  "order.stock_consumption": "Stock deduction",
+};
+
+export default function AdminOutbox() {
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState("dead");
+  const { toast } = useToast();
+  const { logout } = useAuth();
+
+  const { data, isLoading } = useQuery<OutboxResponse>({
+    queryKey: ["/api/admin/outbox", { searchParams: statusFilter === "all" ? {} : { status: statusFilter } }],
+    refetchInterval: 10000,
+  });
+  const events = data?.events || [];
+  const stats = data?.stats || {};
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest(`/api/admin/outbox/${id}/replay`, "POST");
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/outbox"] });
+      toast({ title: "Queued", description: "Side effect will be retried shortly" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "pending":
+        return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200";
+      case "processing":
+        return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200";
+      case "completed":
+        return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+      case "dead":
+        return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+      default:
+        return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200";
+    }
+  };
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  };
+
+  const statCards = [
+    { key: "dead", label: "Failed", icon: AlertTriangle, className: "text-red-600" },
+    { key: "pending", label: "Waiting / Retrying", icon: Clock, className: "text-yellow-600" },
+    { key: "processing", label: "Processing", icon: Loader2, className: "text-blue-600" },
+    { key: "completed", label: "Completed", icon: CheckCircle, className: "text-green-600" },
+  ];
+
+  return (
+    <div className="flex h-screen bg-background">
+      {sidebarOpen && (
+        <div
+          className="fixed inset-0 bg-background/80 backdrop-blur-sm z-40 md:hidden"
+          onClick={() => setSidebarOpen(false)}
+        />
+      )}
+      <div
+        className={`fixed md:static inset-y-0 left-0 z-50 w-64 transform transition-transform duration-200 ${
+          sidebarOpen ? "translate-x-0" : "-translate-x-full md:translate-x-0"
+        }`}
+      >
+        <AdminSidebar onLogout={logout} />
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <AdminHeader
+          breadcrumbs={["Admin", "Side Effects"]}
+          notificationCount={stats.dead || 0}
+          userName="Admin User"
+          onMenuToggle={() => setSidebarOpen(!sidebarOpen)}
+        />
+
+        <main className="flex-1 overflow-y-auto p-4 md:p-6">
+          <div className="mb-6">
+            <h1 className="text-2xl md:text-3xl font-bold mb-2">Order Side Effects</h1>
+            <p className="text-muted-foreground text-sm md:text-base">
+              Kitchen tickets, promo usage, loyalty and stock updates queued by orders. Failed entries can be replayed.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {statCards.map(({ key, label, icon: Icon, className }) => (
+              <Card key={key} className="cursor-pointer" onClick={() => setStatusFilter(key)} data-testid={`card-stat-${key}`}>
+                <CardContent className="p-4 flex items-center gap-3">
+                  <Icon className={`w-6 h-6 ${className}`} />
+                  <div>
+                    <p className="text-2xl font-bold">{stats[key] || 0}</p>
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <CardTitle>Events</CardTitle>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-44" data-testid="select-status-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="dead">Failed</SelectItem>
+                  <SelectItem value="pending">Waiting / Retrying</SelectItem>
+                  <SelectItem value="processing">Processing</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="text-center py-8 text-muted-foreground">Loading...</div>
+              ) : events.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No events</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="border-b">
+                      <tr className="text-left">
+                        <th className="px-4 py-2 font-semibold">Side Effect</th>
+                        <th className="px-4 py-2 font-semibold">Order</th>
+                        <th className="px-4 py-2 font-semibold">Status</th>
+                        <th className="px-4 py-2 font-semibold">Attempts</th>
+                        <th className="px-4 py-2 font-semibold">Last Error</th>
+                        <th className="px-4 py-2 font-semibold">Created</th>
+                        <th className="px-4 py-2 font-semibold">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {events.map((event) => (
+                        <tr key={event.id} className="border-b hover:bg-muted/50 transition-colors" data-testid={`row-outbox-${event.id}`}>
+                          <td className="px-4 py-3 font-medium">{EVENT_LABELS[event.eventType] || event.eventType}</td>
+                          <td className="px-4 py-3 font-mono text-xs">{event.aggregateId.slice(0, 8)}</td>
+                          <td className="px-4 py-3">
+                            <Badge className={getStatusColor(event.status)}>{event.status === "dead" ? "failed" : event.status}</Badge>
+                          </td>
+                          <td className="px-4 py-3">{event.attempts}/{event.maxAttempts}</td>
+                          <td className="px-4 py-3 text-xs text-muted-foreground max-w-xs truncate" title={event.lastError || ""}>
+                            {event.lastError || "-"}
+                          </td>
+                          <td className="px-4 py-3 text-xs text-muted-foreground">{formatDate(event.createdAt)}</td>
+                          <td className="px-4 py-3">
+                            {event.status === "dead" && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => replayMutation.mutate(event.id)}
+                                disabled={replayMutation.isPending}
+                                data-testid={`button-replay-${event.id}`}
+                              >
+                                <RotateCcw className="w-4 h-4 mr-1" />
+                                Replay
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -15,15 +15,30 @@ import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Edit, Trash2, Tag, Calendar, Users, TrendingUp, Percent } from "lucide-react";
+import { Plus, Edit, Trash2, Tag, Calendar, Clock, Users, TrendingUp, Percent, Download, Ban, Layers } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PROMO_DISCOUNT_TYPES, type Category, type MenuItem } from "@shared/schema";
+import { describePromotion } from "@shared/pricing";
+
+const DISCOUNT_TYPE_LABELS: Record<(typeof PROMO_DISCOUNT_TYPES)[number], string> = {
+  percentage: "Percentage",
+  fixed: "Fixed Amount",
+  bogo: "Buy One Get One",
+  buy_x_get_y: "Buy X Get Y",
+  free_delivery: "Free Delivery",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
 const promoCodeFormSchema = z.object({
   code: z.string().min(3, "Code must be at least 3 characters").toUpperCase(),
   description: z.string().optional(),
-  discountType: z.enum(["percentage", "fixed"]),
-  discountValue: z.string().min(1, "Discount value is required"),
+  discountType: z.enum(PROMO_DISCOUNT_TYPES),
+  discountValue: z.string(),
   minOrderAmount: z.string().optional(),
   maxDiscountAmount: z.string().optional(),
   usageLimit: z.string().optional(),
@@ -32,6 +47,30 @@ const promoCodeFormSchema = z.object({
   validUntil: z.string().optional(),
   isActive: z.boolean().default(true),
   branchId: z.string().optional(),
+  menuItemIds: z.array(z.string()).default([]),
+  categoryIds: z.array(z.string()).default([]),
+  buyQuantity: z.string().optional(),
+  getQuantity: z.string().optional(),
+  getMenuItemIds: z.array(z.string()).default([]),
+  getCategoryIds: z.array(z.string()).default([]),
+  firstOrderOnly: z.boolean().default(false),
+  daysOfWeek: z.array(z.number()).default([]),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  isAutomatic: z.boolean().default(false),
+  isCombinable: z.boolean().default(false),
+  priority: z.string().optional(),
+  excludeDiscountedItems: z.boolean().default(false),
+}).superRefine((promo, ctx) => {
+  if (promo.discountType !== "free_delivery" && !promo.discountValue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["discountValue"], message: "Discount value is required" });
+  }
+  if ((promo.discountType === "bogo" || promo.discountType === "buy_x_get_y") && (!promo.buyQuantity || !promo.getQuantity)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["buyQuantity"], message: "Buy and get quantities are required" });
+  }
+  if (!!promo.startTime !== !!promo.endTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endTime"], message: "Give both a start and an end time" });
+  }
 });
 
 type PromoCodeFormData = z.infer<typeof promoCodeFormSchema>;
@@ -51,16 +90,74 @@ interface PromoCode {
   validUntil?: string;
   isActive: boolean;
   branchId?: string;
+  menuItemIds: string[];
+  categoryIds: string[];
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  getMenuItemIds: string[];
+  getCategoryIds: string[];
+  firstOrderOnly: boolean;
+  daysOfWeek: number[];
+  startTime?: string | null;
+  endTime?: string | null;
+  isAutomatic: boolean;
+  isCombinable: boolean;
+  priority: number;
+  excludeDiscountedItems: boolean;
   createdBy?: string;
   createdAt: string;
 }
 
+const toPayload = (data: Partial<PromoCodeFormData>) => ({
+  ...data,
+  discountValue: data.discountType === "free_delivery" ? "0" : data.discountValue,
+  buyQuantity: data.buyQuantity ? parseInt(data.buyQuantity) : null,
+  getQuantity: data.getQuantity ? parseInt(data.getQuantity) : null,
+  priority: data.priority ? parseInt(data.priority) : 0,
+  startTime: data.startTime || null,
+  endTime: data.endTime || null,
+  branchId: !data.branchId || data.branchId === "all" ? null : data.branchId,
+});
+
 interface Branch {
   id: string;
   name: string;
   city: string;
 }
 
+interface PromoCodeBatchRow {
+  id: string;
+  name: string;
+  templatePromoCodeId: string | null;
+  templateCode: string | null;
+  campaignName: string | null;
+  prefix: string;
+  quantity: number;
+  redeemed: number;
+  discountTotal: number;
+  createdAt: string;
+}
+
+interface BatchCode {
+  code: string;
+  status: string;
+  customerName: string | null;
+  customerPhone: string | null;
+  customerEmail: string | null;
+  orderId: string | null;
+  discountAmount: number | null;
+  usedAt: string | null;
+}
+
+const emptyBatch = {
+  name: "",
+  templatePromoCodeId: "",
+  prefix: "KP",
+  codeLength: "5",
+  quantity: "",
+  customers: "",
+};
+
 export default function AdminPromoCodes() {
   const { toast } = useToast();
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -68,6 +165,8 @@ export default function AdminPromoCodes() {
   const { logout } = useAuth();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingPromoCode, setEditingPromoCode] = useState<PromoCode | null>(null);
+  const [batchDialogOpen, setBatchDialogOpen] = useState(false);
+  const [batch, setBatch] = useState(emptyBatch);
 
   const { data: branches = [] } = useQuery<Branch[]>({
     queryKey: ["/api/branches"],
@@ -77,13 +176,21 @@ export default function AdminPromoCodes() {
     queryKey: ["/api/promo-codes"],
   });
 
+  const { data: batches = [] } = useQuery<PromoCodeBatchRow[]>({
+    queryKey: ["/api/promo-code-batches"],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const { data: menuItems = [] } = useQuery<MenuItem[]>({
+    queryKey: ["/api/menu-items"],
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: PromoCodeFormData) => {
-      const payload = {
-        ...data,
-        branchId: !data.branchId || data.branchId === "all" ? null : data.branchId,
-      };
-      return await apiRequest("/api/promo-codes", "POST", payload);
+      return await apiRequest("/api/promo-codes", "POST", toPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/promo-codes"] });
@@ -105,11 +212,7 @@ export default function AdminPromoCodes() {
 
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: Partial<PromoCodeFormData> }) => {
-      const payload = {
-        ...data,
-        branchId: !data.branchId || data.branchId === "all" ? null : data.branchId,
-      };
-      return await apiRequest(`/api/promo-codes/${id}`, "PATCH", payload);
+      return await apiRequest(`/api/promo-codes/${id}`, "PATCH", toPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/promo-codes"] });
@@ -148,6 +251,87 @@ export default function AdminPromoCodes() {
     },
   });
 
+  const createBatchMutation = useMutation({
+    mutationFn: async () => {
+      // One customer per line or comma - phone numbers or emails
+      const customers = batch.customers.split(/[\n,]/).map(value => value.trim()).filter(Boolean);
+      const response = await apiRequest("/api/promo-code-batches", "POST", {
+        name: batch.name,
+        templatePromoCodeId: batch.templatePromoCodeId,
+        prefix: batch.prefix,
+        codeLength: parseInt(batch.codeLength) || 5,
+        quantity: customers.length > 0 ? undefined : parseInt(batch.quantity) || undefined,
+        customers,
+      });
+      return await response.json();
+    },
+    onSuccess: (created: PromoCodeBatchRow) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promo-code-batches"] });
+      setBatchDialogOpen(false);
+      setBatch(emptyBatch);
+      toast({
+        title: "Codes generated",
+        description: `${created.quantity} single-use codes created in ${created.name}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate codes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const voidBatchMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/promo-code-batches/${id}/void`, "POST", {});
+      return await response.json();
+    },
+    onSuccess: (result: { voided: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promo-code-batches"] });
+      toast({
+        title: "Batch voided",
+        description: `${result.voided} unused codes no longer work`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to void codes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Download the batch's codes as CSV, with who they went to and whether they were used
+  const exportBatch = async (row: PromoCodeBatchRow) => {
+    try {
+      const response = await apiRequest(`/api/promo-code-batches/${row.id}/codes`, "GET");
+      const codes: BatchCode[] = await response.json();
+      const headers: Array<keyof BatchCode> = ["code", "status", "customerName", "customerPhone", "customerEmail", "orderId", "discountAmount", "usedAt"];
+      const csvContent = [
+        headers.join(","),
+        ...codes.map(code => headers.map(h => {
+          const value = code[h] ?? "";
+          return typeof value === "string" && value.includes(",") ? `"${value}"` : value;
+        }).join(",")),
+      ].join("\n");
+
+      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(blob);
+      link.download = `${row.prefix}_${row.name.replace(/\W+/g, "_")}.csv`;
+      link.click();
+    } catch (error: any) {
+      toast({
+        title: "Export failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const form = useForm<PromoCodeFormData>({
     resolver: zodResolver(promoCodeFormSchema),
     defaultValues: {
@@ -161,6 +345,20 @@ export default function AdminPromoCodes() {
       perUserLimit: "",
       isActive: true,
       branchId: "all",
+      menuItemIds: [],
+      categoryIds: [],
+      buyQuantity: "",
+      getQuantity: "",
+      getMenuItemIds: [],
+      getCategoryIds: [],
+      firstOrderOnly: false,
+      daysOfWeek: [],
+      startTime: "",
+      endTime: "",
+      isAutomatic: false,
+      isCombinable: false,
+      priority: "0",
+      excludeDiscountedItems: false,
     },
   });
 
@@ -169,7 +367,7 @@ export default function AdminPromoCodes() {
     form.reset({
       code: promoCode.code,
       description: promoCode.description || "",
-      discountType: promoCode.discountType as "percentage" | "fixed",
+      discountType: promoCode.discountType as PromoCodeFormData["discountType"],
       discountValue: promoCode.discountValue,
       minOrderAmount: promoCode.minOrderAmount || "0",
       maxDiscountAmount: promoCode.maxDiscountAmount || "",
@@ -179,6 +377,20 @@ export default function AdminPromoCodes() {
       validUntil: promoCode.validUntil ? new Date(promoCode.validUntil).toISOString().slice(0, 16) : "",
       isActive: promoCode.isActive,
       branchId: promoCode.branchId || "all",
+      menuItemIds: promoCode.menuItemIds || [],
+      categoryIds: promoCode.categoryIds || [],
+      buyQuantity: promoCode.buyQuantity?.toString() || "",
+      getQuantity: promoCode.getQuantity?.toString() || "",
+      getMenuItemIds: promoCode.getMenuItemIds || [],
+      getCategoryIds: promoCode.getCategoryIds || [],
+      firstOrderOnly: promoCode.firstOrderOnly,
+      daysOfWeek: promoCode.daysOfWeek || [],
+      startTime: promoCode.startTime || "",
+      endTime: promoCode.endTime || "",
+      isAutomatic: promoCode.isAutomatic,
+      isCombinable: promoCode.isCombinable,
+      priority: promoCode.priority.toString(),
+      excludeDiscountedItems: promoCode.excludeDiscountedItems,
     });
   };
 
@@ -196,11 +408,21 @@ export default function AdminPromoCodes() {
     }
   };
 
-  const getDiscountDisplay = (promoCode: PromoCode) => {
-    if (promoCode.discountType === "percentage") {
-      return `${promoCode.discountValue}% off`;
-    }
-    return `₨${promoCode.discountValue} off`;
+  const getDiscountDisplay = (promoCode: PromoCode) => describePromotion(promoCode);
+
+  // The items and categories a promotion is limited to, or null when it covers everything
+  const getScopeDisplay = (itemIds: string[] = [], categoryIds: string[] = []) => {
+    const names = [
+      ...categoryIds.map(id => categories.find(c => c.id === id)?.name || "Unknown category"),
+      ...itemIds.map(id => menuItems.find(m => m.id === id)?.name || "Unknown item"),
+    ];
+    return names.length > 0 ? names.join(", ") : null;
+  };
+
+  const getScheduleDisplay = (promoCode: PromoCode) => {
+    const days = (promoCode.daysOfWeek || []).slice().sort().map(day => WEEKDAYS[day]).join(", ");
+    const hours = promoCode.startTime && promoCode.endTime ? `${promoCode.startTime}-${promoCode.endTime}` : "";
+    return [days, hours].filter(Boolean).join(" ");
   };
 
   const isExpired = (promoCode: PromoCode) => {
@@ -266,6 +488,8 @@ export default function AdminPromoCodes() {
               form={form} 
               onSubmit={onSubmit} 
               branches={branches}
+              categories={categories}
+              menuItems={menuItems}
               isLoading={createMutation.isPending}
             />
           </DialogContent>
@@ -304,6 +528,8 @@ export default function AdminPromoCodes() {
                         form={form} 
                         onSubmit={onSubmit} 
                         branches={branches}
+                        categories={categories}
+                        menuItems={menuItems}
                         isLoading={updateMutation.isPending}
                       />
                     </DialogContent>
@@ -329,6 +555,25 @@ export default function AdminPromoCodes() {
                 <span className="font-semibold text-primary">{getDiscountDisplay(promoCode)}</span>
               </div>
 
+              {getScopeDisplay(promoCode.menuItemIds, promoCode.categoryIds) && (
+                <div className="text-sm text-muted-foreground" data-testid={`text-promo-scope-${promoCode.id}`}>
+                  {promoCode.discountType === "buy_x_get_y" ? "Buy" : "On"}: {getScopeDisplay(promoCode.menuItemIds, promoCode.categoryIds)}
+                </div>
+              )}
+
+              {promoCode.discountType === "buy_x_get_y" && (
+                <div className="text-sm text-muted-foreground">
+                  Get: {getScopeDisplay(promoCode.getMenuItemIds, promoCode.getCategoryIds) || "Any item"}
+                </div>
+              )}
+
+              {getScheduleDisplay(promoCode) && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground" data-testid={`text-promo-schedule-${promoCode.id}`}>
+                  <Clock className="w-4 h-4" />
+                  {getScheduleDisplay(promoCode)}
+                </div>
+              )}
+
               {promoCode.minOrderAmount && parseFloat(promoCode.minOrderAmount) > 0 && (
                 <div className="text-sm text-muted-foreground">
                   Min. order: ₨{promoCode.minOrderAmount}
@@ -360,12 +605,19 @@ export default function AdminPromoCodes() {
                 ) : (
                   <Badge variant="secondary">Inactive</Badge>
                 )}
-                {promoCode.discountType === "percentage" && (
-                  <Badge variant="outline">Percentage</Badge>
+                <Badge variant="outline">
+                  {DISCOUNT_TYPE_LABELS[promoCode.discountType as PromoCodeFormData["discountType"]] || promoCode.discountType}
+                </Badge>
+                {promoCode.isAutomatic && (
+                  <Badge variant="outline">Automatic</Badge>
                 )}
-                {promoCode.discountType === "fixed" && (
-                  <Badge variant="outline">Fixed</Badge>
+                {promoCode.firstOrderOnly && (
+                  <Badge variant="outline">First Order</Badge>
                 )}
+                <Badge variant="outline" data-testid={`badge-stacking-${promoCode.id}`}>
+                  {promoCode.isCombinable ? "Combinable" : "Exclusive"}
+                  {promoCode.priority !== 0 && ` · Priority ${promoCode.priority}`}
+                </Badge>
               </div>
             </CardContent>
           </Card>
@@ -380,6 +632,161 @@ export default function AdminPromoCodes() {
           </CardContent>
         </Card>
       )}
+
+      <Card data-testid="card-promo-code-batches">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Layers className="w-5 h-5 text-primary" />
+              <CardTitle>Code Batches</CardTitle>
+            </div>
+            <Button variant="outline" onClick={() => setBatchDialogOpen(true)} data-testid="button-generate-codes">
+              <Plus className="w-4 h-4 mr-2" />
+              Generate Codes
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {batches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No batches yet. A batch generates unique single-use codes that copy a promotion's rules.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Promotion</TableHead>
+                  <TableHead>Codes</TableHead>
+                  <TableHead>Redeemed</TableHead>
+                  <TableHead>Discount Given</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map(row => (
+                  <TableRow key={row.id} data-testid={`row-batch-${row.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{row.name}</div>
+                      {row.campaignName && (
+                        <div className="text-xs text-muted-foreground">Campaign: {row.campaignName}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{row.templateCode || "Deleted"}</TableCell>
+                    <TableCell className="font-mono">{row.quantity} × {row.prefix}-…</TableCell>
+                    <TableCell data-testid={`text-batch-redeemed-${row.id}`}>{row.redeemed} / {row.quantity}</TableCell>
+                    <TableCell>₨{row.discountTotal.toFixed(2)}</TableCell>
+                    <TableCell>{new Date(row.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button size="icon" variant="ghost" onClick={() => exportBatch(row)} data-testid={`button-export-batch-${row.id}`}>
+                          <Download className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => {
+                            if (confirm("Void every unused code in this batch?")) voidBatchMutation.mutate(row.id);
+                          }}
+                          data-testid={`button-void-batch-${row.id}`}
+                        >
+                          <Ban className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={batchDialogOpen} onOpenChange={setBatchDialogOpen}>
+        <DialogContent className="max-w-lg" data-testid="dialog-generate-codes">
+          <DialogHeader>
+            <DialogTitle>Generate Single-Use Codes</DialogTitle>
+            <DialogDescription>
+              Each code copies the promotion's rules and works once.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="batch-name">Batch Name</Label>
+              <Input id="batch-name" value={batch.name} onChange={(e) => setBatch({ ...batch, name: e.target.value })} placeholder="Eid flyers" data-testid="input-batch-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Promotion</Label>
+              <Select value={batch.templatePromoCodeId} onValueChange={(value) => setBatch({ ...batch, templatePromoCodeId: value })}>
+                <SelectTrigger data-testid="select-batch-template">
+                  <SelectValue placeholder="Choose the promotion to copy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {promoCodes.map(promoCode => (
+                    <SelectItem key={promoCode.id} value={promoCode.id}>
+                      {promoCode.code} - {getDiscountDisplay(promoCode)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="batch-prefix">Prefix</Label>
+                <Input id="batch-prefix" value={batch.prefix} onChange={(e) => setBatch({ ...batch, prefix: e.target.value.toUpperCase() })} className="uppercase" data-testid="input-batch-prefix" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-code-length">Code Length</Label>
+                <Input id="batch-code-length" type="number" min="5" max="10" value={batch.codeLength} onChange={(e) => setBatch({ ...batch, codeLength: e.target.value })} data-testid="input-batch-code-length" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-quantity">Quantity</Label>
+                <Input
+                  id="batch-quantity"
+                  type="number"
+                  min="1"
+                  max="10000"
+                  value={batch.quantity}
+                  onChange={(e) => setBatch({ ...batch, quantity: e.target.value })}
+                  disabled={!!batch.customers.trim()}
+                  data-testid="input-batch-quantity"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="batch-customers">Assign to Customers (Optional)</Label>
+              <Textarea
+                id="batch-customers"
+                value={batch.customers}
+                onChange={(e) => setBatch({ ...batch, customers: e.target.value })}
+                placeholder="One phone number or email per line - each customer gets a code only they can use"
+                rows={4}
+                data-testid="textarea-batch-customers"
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Codes look like {batch.prefix || "KP"}-{"X".repeat(Math.min(10, Math.max(5, parseInt(batch.codeLength) || 5)))}.
+            </p>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setBatchDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createBatchMutation.mutate()}
+              disabled={
+                createBatchMutation.isPending ||
+                !batch.name.trim() ||
+                !batch.templatePromoCodeId ||
+                !batch.prefix.trim() ||
+                (!batch.customers.trim() && !(parseInt(batch.quantity) > 0))
+              }
+              data-testid="button-create-batch"
+            >
+              {createBatchMutation.isPending ? "Generating..." : "Generate Codes"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
           </div>
         </main>
       </div>
@@ -387,17 +794,87 @@ export default function AdminPromoCodes() {
   );
 }
 
+// Checkboxes for the categories and items a promotion covers
+function ScopeFields({
+  form,
+  itemsField,
+  categoriesField,
+  label,
+  categories,
+  menuItems,
+}: {
+  form: any;
+  itemsField: "menuItemIds" | "getMenuItemIds";
+  categoriesField: "categoryIds" | "getCategoryIds";
+  label: string;
+  categories: Category[];
+  menuItems: MenuItem[];
+}) {
+  const toggle = (values: string[], id: string, checked: boolean) =>
+    checked ? [...values, id] : values.filter(value => value !== id);
+
+  return (
+    <div className="space-y-2 rounded-lg border p-4">
+      <FormLabel>{label}</FormLabel>
+      <div className="text-sm text-muted-foreground">Leave everything unticked for every item</div>
+      <FormField
+        control={form.control}
+        name={categoriesField}
+        render={({ field }) => (
+          <div className="grid grid-cols-2 gap-2">
+            {categories.map(category => (
+              <label key={category.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={field.value.includes(category.id)}
+                  onCheckedChange={(checked) => field.onChange(toggle(field.value, category.id, checked === true))}
+                  data-testid={`checkbox-${categoriesField}-${category.id}`}
+                />
+                {category.name}
+              </label>
+            ))}
+          </div>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name={itemsField}
+        render={({ field }) => (
+          <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto border-t pt-2">
+            {menuItems.map(item => (
+              <label key={item.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={field.value.includes(item.id)}
+                  onCheckedChange={(checked) => field.onChange(toggle(field.value, item.id, checked === true))}
+                  data-testid={`checkbox-${itemsField}-${item.id}`}
+                />
+                {item.name}
+              </label>
+            ))}
+          </div>
+        )}
+      />
+    </div>
+  );
+}
+
 function PromoCodeForm({ 
   form, 
   onSubmit, 
   branches,
+  categories,
+  menuItems,
   isLoading 
 }: { 
   form: any; 
   onSubmit: (data: PromoCodeFormData) => void;
   branches: Branch[];
+  categories: Category[];
+  menuItems: MenuItem[];
   isLoading: boolean;
 }) {
+  const discountType: PromoCodeFormData["discountType"] = form.watch("discountType");
+  const givesFreeUnits = discountType === "bogo" || discountType === "buy_x_get_y";
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
@@ -443,8 +920,9 @@ function PromoCodeForm({
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    <SelectItem value="percentage">Percentage</SelectItem>
-                    <SelectItem value="fixed">Fixed Amount</SelectItem>
+                    {PROMO_DISCOUNT_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{DISCOUNT_TYPE_LABELS[type]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <FormMessage />
@@ -452,21 +930,75 @@ function PromoCodeForm({
             )}
           />
 
-          <FormField
-            control={form.control}
-            name="discountValue"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Discount Value</FormLabel>
-                <FormControl>
-                  <Input {...field} type="number" step="0.01" placeholder="20" data-testid="input-discount-value" />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+          {discountType !== "free_delivery" && (
+            <FormField
+              control={form.control}
+              name="discountValue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{givesFreeUnits ? "% Off Free Units (100 = free)" : "Discount Value"}</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="number" step="0.01" placeholder={givesFreeUnits ? "100" : "20"} data-testid="input-discount-value" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
         </div>
 
+        {givesFreeUnits && (
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="buyQuantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Buy Quantity</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="number" min="1" placeholder="1" data-testid="input-buy-quantity" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="getQuantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Get Quantity</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="number" min="1" placeholder="1" data-testid="input-get-quantity" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <ScopeFields
+          form={form}
+          itemsField="menuItemIds"
+          categoriesField="categoryIds"
+          label={givesFreeUnits ? "Items to Buy" : discountType === "free_delivery" ? "Order Must Include" : "Discount Applies To"}
+          categories={categories}
+          menuItems={menuItems}
+        />
+
+        {discountType === "buy_x_get_y" && (
+          <ScopeFields
+            form={form}
+            itemsField="getMenuItemIds"
+            categoriesField="getCategoryIds"
+            label="Items That Can Be Free"
+            categories={categories}
+            menuItems={menuItems}
+          />
+        )}
+
         <div className="grid grid-cols-2 gap-4">
           <FormField
             control={form.control}
@@ -583,6 +1115,171 @@ function PromoCodeForm({
           )}
         />
 
+        <div className="space-y-2 rounded-lg border p-4">
+          <FormLabel>Schedule (Optional)</FormLabel>
+          <div className="text-sm text-muted-foreground">Days and hours the promotion is valid, e.g. a happy hour</div>
+          <FormField
+            control={form.control}
+            name="daysOfWeek"
+            render={({ field }) => (
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAYS.map((day, index) => (
+                  <label key={day} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={field.value.includes(index)}
+                      onCheckedChange={(checked) => field.onChange(
+                        checked === true ? [...field.value, index] : field.value.filter((value: number) => value !== index)
+                      )}
+                      data-testid={`checkbox-day-${index}`}
+                    />
+                    {day}
+                  </label>
+                ))}
+              </div>
+            )}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="startTime"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>From</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="time" data-testid="input-start-time" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="endTime"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Until</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="time" data-testid="input-end-time" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="firstOrderOnly"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <FormLabel className="text-base">First Order Only</FormLabel>
+                <div className="text-sm text-muted-foreground">
+                  Only for a signed-in customer's first order
+                </div>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  data-testid="switch-first-order-only"
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="isAutomatic"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <FormLabel className="text-base">Apply Automatically</FormLabel>
+                <div className="text-sm text-muted-foreground">
+                  Applies to qualifying orders without the code being entered
+                </div>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  data-testid="switch-is-automatic"
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-4 rounded-lg border p-4">
+          <div>
+            <div className="text-base font-medium">Stacking</div>
+            <div className="text-sm text-muted-foreground">
+              How this promotion combines with others on the same order. Higher priority applies first.
+            </div>
+          </div>
+
+          <FormField
+            control={form.control}
+            name="priority"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Priority</FormLabel>
+                <FormControl>
+                  <Input {...field} type="number" placeholder="0" data-testid="input-priority" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="isCombinable"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <FormLabel>Combinable</FormLabel>
+                  <div className="text-sm text-muted-foreground">
+                    Can apply together with other combinable promotions - otherwise it applies alone
+                  </div>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    data-testid="switch-is-combinable"
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="excludeDiscountedItems"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <FormLabel>Skip Discounted Items</FormLabel>
+                  <div className="text-sm text-muted-foreground">
+                    Does not discount items a higher-priority promotion already discounted
+                  </div>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    data-testid="switch-exclude-discounted-items"
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        </div>
+
         <FormField
           control={form.control}
           name="isActive"
@@ -0,0 +1,733 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import AdminSidebar from "@/components/AdminSidebar";
+import AdminHeader from "@/components/AdminHeader";
+import { ClipboardList, Plus, Send, XCircle, PackageCheck, Wand2, Trash2, Banknote } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import type {
+  Branch,
+  Expense,
+  GoodsReceivedNote,
+  GoodsReceivedNoteItem,
+  Ingredient,
+  MenuItem,
+  PurchaseOrder,
+  PurchaseOrderItem,
+  Supplier,
+} from "@shared/schema";
+
+interface PurchaseOrderDetail extends PurchaseOrder {
+  supplier?: Supplier;
+  items: PurchaseOrderItem[];
+  goodsReceivedNotes: Array<GoodsReceivedNote & { items: GoodsReceivedNoteItem[] }>;
+  receivedValue: number;
+  payable: Expense | null;
+}
+
+// Line being added; item is "ingredient:<id>" or "menu:<id>"
+interface DraftLine {
+  item: string;
+  quantityOrdered: string;
+  unitCost: string;
+}
+
+const EMPTY_LINE: DraftLine = { item: "", quantityOrdered: "", unitCost: "" };
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially Received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "draft":
+      return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200";
+    case "sent":
+      return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200";
+    case "partially_received":
+      return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200";
+    case "received":
+      return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+    case "cancelled":
+      return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+    default:
+      return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200";
+  }
+};
+
+const formatDate = (date: string | Date | null) =>
+  date ? new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }) : "-";
+
+const toLinePayload = (line: DraftLine) => {
+  const [kind, id] = line.item.split(":");
+  return {
+    ingredientId: kind === "ingredient" ? id : null,
+    menuItemId: kind === "menu" ? id : null,
+    quantityOrdered: parseInt(line.quantityOrdered, 10),
+    unitCost: line.unitCost === "" ? undefined : parseFloat(line.unitCost),
+  };
+};
+
+export default function AdminPurchaseOrders() {
+  const { toast } = useToast();
+  const { user, logout } = useAuth();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // New purchase order
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newOrder, setNewOrder] = useState({ supplierId: "", branchId: user?.branchId || "", expectedDate: "", notes: "" });
+  const [newLines, setNewLines] = useState<DraftLine[]>([]);
+  const [lineDraft, setLineDraft] = useState<DraftLine>(EMPTY_LINE);
+
+  // Goods receipt
+  const [receiving, setReceiving] = useState(false);
+  const [receiptLines, setReceiptLines] = useState<Record<string, { quantity: string; unitCost: string; lotNumber: string; expiryDate: string }>>({});
+  const [supplierReference, setSupplierReference] = useState("");
+
+  const isAdmin = user?.role === "admin";
+
+  const { data: purchaseOrders = [], isLoading } = useQuery<PurchaseOrder[]>({
+    queryKey: ["/api/purchase-orders", { searchParams: statusFilter === "all" || statusFilter === "open" ? {} : { status: statusFilter } }],
+  });
+
+  const { data: detail } = useQuery<PurchaseOrderDetail>({
+    queryKey: [`/api/purchase-orders/${selectedId}`],
+    enabled: !!selectedId,
+  });
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: ingredients = [] } = useQuery<Ingredient[]>({
+    queryKey: ["/api/ingredients"],
+  });
+
+  const { data: menuItems = [] } = useQuery<MenuItem[]>({
+    queryKey: ["/api/menu-items"],
+  });
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+    enabled: isAdmin,
+  });
+
+  const supplierName = (id: string) => suppliers.find(s => s.id === id)?.name || "Unknown supplier";
+  const itemName = (value: string) => {
+    const [kind, id] = value.split(":");
+    return kind === "ingredient"
+      ? ingredients.find(i => i.id === id)?.name
+      : menuItems.find(m => m.id === id)?.name;
+  };
+
+  const visibleOrders = statusFilter === "open"
+    ? purchaseOrders.filter(po => ["draft", "sent", "partially_received"].includes(po.status))
+    : purchaseOrders;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    if (selectedId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/purchase-orders/${selectedId}`] });
+    }
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const res = await apiRequest("/api/purchase-orders", "POST", data);
+      return await res.json();
+    },
+    onSuccess: (purchaseOrder: PurchaseOrder) => {
+      invalidate();
+      toast({ title: "Success", description: `Purchase order ${purchaseOrder.poNumber} drafted` });
+      setCreateOpen(false);
+      setSelectedId(purchaseOrder.id);
+    },
+    onError,
+  });
+
+  const autoDraftMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("/api/purchase-orders/auto-draft", "POST", { branchId: user?.branchId });
+      return await res.json();
+    },
+    onSuccess: (drafted: PurchaseOrder[]) => {
+      invalidate();
+      toast({
+        title: drafted.length > 0 ? "Drafted" : "Nothing to order",
+        description: drafted.length > 0
+          ? `${drafted.length} purchase order(s) drafted from reorder points`
+          : "No stock with a preferred supplier is at its reorder level",
+      });
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ action, data }: { action: string; data?: any }) =>
+      apiRequest(`/api/purchase-orders/${selectedId}/${action}`, "POST", data),
+    onSuccess: (_res, { action }) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/ingredients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/menu-items"] });
+      const messages: Record<string, string> = {
+        send: "Purchase order sent",
+        cancel: "Purchase order cancelled",
+        receive: "Goods received into stock",
+        pay: "Payable marked as paid",
+        items: "Line added",
+      };
+      toast({ title: "Success", description: messages[action] || "Updated" });
+      if (action === "receive") setReceiving(false);
+      if (action === "items") setLineDraft(EMPTY_LINE);
+    },
+    onError,
+  });
+
+  const deleteLineMutation = useMutation({
+    mutationFn: (itemId: string) => apiRequest(`/api/purchase-orders/${selectedId}/items/${itemId}`, "DELETE"),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const openCreate = () => {
+    setNewOrder({ supplierId: "", branchId: user?.branchId || "", expectedDate: "", notes: "" });
+    setNewLines([]);
+    setLineDraft(EMPTY_LINE);
+    setCreateOpen(true);
+  };
+
+  const isLineValid = (line: DraftLine) => !!line.item && parseInt(line.quantityOrdered, 10) > 0;
+
+  const handleCreate = () => {
+    if (!newOrder.supplierId || !newOrder.branchId) {
+      toast({ title: "Error", description: "Choose a supplier and branch", variant: "destructive" });
+      return;
+    }
+    const lines = isLineValid(lineDraft) ? [...newLines, lineDraft] : newLines;
+    createMutation.mutate({
+      supplierId: newOrder.supplierId,
+      branchId: newOrder.branchId,
+      expectedDate: newOrder.expectedDate || null,
+      notes: newOrder.notes || null,
+      lines: lines.map(toLinePayload),
+    });
+  };
+
+  const openReceive = () => {
+    if (!detail) return;
+    setReceiptLines(Object.fromEntries(detail.items.map(item => [item.id, {
+      quantity: String(item.quantityOrdered - item.quantityReceived),
+      unitCost: String(parseFloat(item.unitCost)),
+      lotNumber: "",
+      expiryDate: "",
+    }])));
+    setSupplierReference("");
+    setReceiving(true);
+  };
+
+  const handleReceive = () => {
+    const lines = Object.entries(receiptLines)
+      .map(([purchaseOrderItemId, line]) => ({
+        purchaseOrderItemId,
+        quantity: parseInt(line.quantity, 10) || 0,
+        unitCost: line.unitCost === "" ? undefined : parseFloat(line.unitCost),
+        lotNumber: line.lotNumber || undefined,
+        expiryDate: line.expiryDate || undefined,
+      }))
+      .filter(line => line.quantity > 0);
+    actionMutation.mutate({ action: "receive", data: { lines, supplierReference: supplierReference || undefined } });
+  };
+
+  const renderItemSelect = (line: DraftLine, onChange: (line: DraftLine) => void) => (
+    <div className="grid gap-2 md:grid-cols-[1fr_7rem_7rem] items-end">
+      <div className="space-y-1">
+        <Label>Item</Label>
+        <Select value={line.item} onValueChange={(value) => onChange({ ...line, item: value })}>
+          <SelectTrigger data-testid="select-po-item">
+            <SelectValue placeholder="Ingredient or menu item" />
+          </SelectTrigger>
+          <SelectContent>
+            {ingredients.filter(i => i.isActive).map(ingredient => (
+              <SelectItem key={ingredient.id} value={`ingredient:${ingredient.id}`}>
+                {ingredient.name} ({ingredient.unit})
+              </SelectItem>
+            ))}
+            {menuItems.filter(m => m.stockQuantity !== null).map(menuItem => (
+              <SelectItem key={menuItem.id} value={`menu:${menuItem.id}`}>
+                {menuItem.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label>Quantity</Label>
+        <Input
+          type="number"
+          min="1"
+          value={line.quantityOrdered}
+          onChange={(e) => onChange({ ...line, quantityOrdered: e.target.value })}
+          data-testid="input-po-quantity"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label>Unit Cost</Label>
+        <Input
+          type="number"
+          step="0.0001"
+          min="0"
+          placeholder="Default"
+          value={line.unitCost}
+          onChange={(e) => onChange({ ...line, unitCost: e.target.value })}
+          data-testid="input-po-unit-cost"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex h-screen bg-background">
+      {sidebarOpen && (
+        <div
+          className="fixed inset-0 bg-background/80 backdrop-blur-sm z-40 md:hidden"
+          onClick={() => setSidebarOpen(false)}
+        />
+      )}
+      <div className={`fixed md:static inset-y-0 left-0 z-50 w-64 transform transition-transform duration-200 ${sidebarOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}`}>
+        <AdminSidebar
+          soundEnabled={false}
+          onToggleSound={() => {}}
+          onLogout={logout}
+        />
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <AdminHeader
+          breadcrumbs={["Admin", "Purchase Orders"]}
+          notificationCount={0}
+          userName={user?.fullName || "Admin User"}
+          onMenuToggle={() => setSidebarOpen(!sidebarOpen)}
+        />
+
+        <main className="flex-1 overflow-y-auto p-4 md:p-6">
+          <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <h2 className="text-2xl font-bold" data-testid="text-purchase-orders-title">Purchase Orders</h2>
+                <p className="text-muted-foreground">Order stock from suppliers and receive deliveries into inventory</p>
+              </div>
+              <div className="flex gap-2">
+                {user?.branchId && (
+                  <Button
+                    variant="outline"
+                    onClick={() => autoDraftMutation.mutate()}
+                    disabled={autoDraftMutation.isPending}
+                    data-testid="button-auto-draft"
+                  >
+                    <Wand2 className="h-4 w-4 mr-1" />
+                    Draft from Reorder Points
+                  </Button>
+                )}
+                <Button onClick={openCreate} data-testid="button-new-po">
+                  <Plus className="h-4 w-4 mr-1" />
+                  New Purchase Order
+                </Button>
+              </div>
+            </div>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between gap-4">
+                <CardTitle>Orders</CardTitle>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-48" data-testid="select-po-status-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="open">Open</SelectItem>
+                    <SelectItem value="all">All</SelectItem>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="text-center py-8 text-muted-foreground">Loading...</div>
+                ) : visibleOrders.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <ClipboardList className="h-12 w-12 mx-auto mb-4" />
+                    No purchase orders
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="border-b">
+                        <tr className="text-left">
+                          <th className="px-4 py-2 font-semibold">PO Number</th>
+                          <th className="px-4 py-2 font-semibold">Supplier</th>
+                          <th className="px-4 py-2 font-semibold">Status</th>
+                          <th className="px-4 py-2 font-semibold">Total</th>
+                          <th className="px-4 py-2 font-semibold">Expected</th>
+                          <th className="px-4 py-2 font-semibold">Created</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {visibleOrders.map(po => (
+                          <tr
+                            key={po.id}
+                            className="border-b hover:bg-muted/50 transition-colors cursor-pointer"
+                            onClick={() => { setSelectedId(po.id); setReceiving(false); }}
+                            data-testid={`row-po-${po.id}`}
+                          >
+                            <td className="px-4 py-3 font-mono text-xs">
+                              {po.poNumber}
+                              {po.isAutoDrafted && <Badge variant="outline" className="ml-2">Auto</Badge>}
+                            </td>
+                            <td className="px-4 py-3">{supplierName(po.supplierId)}</td>
+                            <td className="px-4 py-3">
+                              <Badge className={getStatusColor(po.status)}>{STATUS_LABELS[po.status] || po.status}</Badge>
+                            </td>
+                            <td className="px-4 py-3">Rs. {parseFloat(po.totalAmount).toFixed(2)}</td>
+                            <td className="px-4 py-3 text-muted-foreground">{formatDate(po.expectedDate)}</td>
+                            <td className="px-4 py-3 text-muted-foreground">{formatDate(po.createdAt)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+
+      {/* New Purchase Order Dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-new-po">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+            <DialogDescription>Saved as a draft; lines can still be changed until it is sent</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Supplier</Label>
+                <Select value={newOrder.supplierId} onValueChange={(value) => setNewOrder({ ...newOrder, supplierId: value })}>
+                  <SelectTrigger data-testid="select-po-supplier">
+                    <SelectValue placeholder="Select a supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.filter(s => s.isActive).map(supplier => (
+                      <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isAdmin ? (
+                <div className="space-y-1">
+                  <Label>Branch</Label>
+                  <Select value={newOrder.branchId} onValueChange={(value) => setNewOrder({ ...newOrder, branchId: value })}>
+                    <SelectTrigger data-testid="select-po-branch">
+                      <SelectValue placeholder="Select a branch" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {branches.map(branch => (
+                        <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : null}
+              <div className="space-y-1">
+                <Label htmlFor="po-expected">Expected Delivery</Label>
+                <Input
+                  id="po-expected"
+                  type="date"
+                  value={newOrder.expectedDate}
+                  onChange={(e) => setNewOrder({ ...newOrder, expectedDate: e.target.value })}
+                  data-testid="input-po-expected"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="po-notes">Notes</Label>
+              <Textarea
+                id="po-notes"
+                rows={2}
+                value={newOrder.notes}
+                onChange={(e) => setNewOrder({ ...newOrder, notes: e.target.value })}
+                data-testid="input-po-notes"
+              />
+            </div>
+
+            {newLines.length > 0 && (
+              <div className="space-y-2">
+                {newLines.map((line, index) => (
+                  <div key={index} className="flex items-center gap-2 p-2 border rounded-lg text-sm">
+                    <span className="flex-1">{itemName(line.item)}</span>
+                    <span>x {line.quantityOrdered}</span>
+                    <span className="w-24 text-right text-muted-foreground">
+                      {line.unitCost ? `Rs. ${line.unitCost}` : "Default cost"}
+                    </span>
+                    <Button size="sm" variant="ghost" onClick={() => setNewLines(newLines.filter((_, i) => i !== index))}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {renderItemSelect(lineDraft, setLineDraft)}
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!isLineValid(lineDraft)}
+              onClick={() => { setNewLines([...newLines, lineDraft]); setLineDraft(EMPTY_LINE); }}
+              data-testid="button-po-add-line"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Line
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={createMutation.isPending} data-testid="button-create-po">
+              {createMutation.isPending ? "Saving..." : "Save Draft"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Purchase Order Detail Dialog */}
+      <Dialog open={!!selectedId} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="dialog-po-detail">
+          {!detail ? (
+            <div className="text-center py-8 text-muted-foreground">Loading...</div>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {detail.poNumber}
+                  <Badge className={getStatusColor(detail.status)}>{STATUS_LABELS[detail.status] || detail.status}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {detail.supplier?.name || "Unknown supplier"}
+                  {detail.supplier?.paymentTerms ? ` - ${detail.supplier.paymentTerms.replace(/_/g, " ")}` : ""}
+                  {detail.expectedDate ? ` - expected ${formatDate(detail.expectedDate)}` : ""}
+                </DialogDescription>
+              </DialogHeader>
+
+              {detail.notes && <p className="text-sm text-muted-foreground">{detail.notes}</p>}
+
+              <table className="w-full text-sm">
+                <thead className="border-b">
+                  <tr className="text-left">
+                    <th className="py-2 font-semibold">Item</th>
+                    <th className="py-2 font-semibold text-right">Ordered</th>
+                    <th className="py-2 font-semibold text-right">Received</th>
+                    <th className="py-2 font-semibold text-right">Unit Cost</th>
+                    {receiving && <th className="py-2 font-semibold text-right">Receive Now (qty, cost, lot, expiry)</th>}
+                    {detail.status === "draft" && <th />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.items.map(item => {
+                    const outstanding = item.quantityOrdered - item.quantityReceived;
+                    return (
+                      <tr key={item.id} className="border-b" data-testid={`row-po-item-${item.id}`}>
+                        <td className="py-2">{item.description}</td>
+                        <td className="py-2 text-right">{item.quantityOrdered}</td>
+                        <td className="py-2 text-right">{item.quantityReceived}</td>
+                        <td className="py-2 text-right">Rs. {parseFloat(item.unitCost).toFixed(4)}</td>
+                        {receiving && (
+                          <td className="py-2">
+                            {outstanding > 0 ? (
+                              <div className="flex justify-end gap-1">
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max={outstanding}
+                                  className="w-20"
+                                  value={receiptLines[item.id]?.quantity ?? ""}
+                                  onChange={(e) => setReceiptLines({ ...receiptLines, [item.id]: { ...receiptLines[item.id], quantity: e.target.value } })}
+                                  data-testid={`input-receive-quantity-${item.id}`}
+                                />
+                                <Input
+                                  type="number"
+                                  step="0.0001"
+                                  min="0"
+                                  className="w-24"
+                                  value={receiptLines[item.id]?.unitCost ?? ""}
+                                  onChange={(e) => setReceiptLines({ ...receiptLines, [item.id]: { ...receiptLines[item.id], unitCost: e.target.value } })}
+                                  data-testid={`input-receive-cost-${item.id}`}
+                                />
+                                <Input
+                                  placeholder="Lot"
+                                  className="w-24"
+                                  value={receiptLines[item.id]?.lotNumber ?? ""}
+                                  onChange={(e) => setReceiptLines({ ...receiptLines, [item.id]: { ...receiptLines[item.id], lotNumber: e.target.value } })}
+                                  data-testid={`input-receive-lot-${item.id}`}
+                                />
+                                <Input
+                                  type="date"
+                                  className="w-36"
+                                  title="Expiry date"
+                                  value={receiptLines[item.id]?.expiryDate ?? ""}
+                                  onChange={(e) => setReceiptLines({ ...receiptLines, [item.id]: { ...receiptLines[item.id], expiryDate: e.target.value } })}
+                                  data-testid={`input-receive-expiry-${item.id}`}
+                                />
+                              </div>
+                            ) : (
+                              <p className="text-right text-muted-foreground">Complete</p>
+                            )}
+                          </td>
+                        )}
+                        {detail.status === "draft" && (
+                          <td className="py-2 text-right">
+                            <Button size="sm" variant="ghost" onClick={() => deleteLineMutation.mutate(item.id)} data-testid={`button-delete-po-item-${item.id}`}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div className="flex justify-between text-sm">
+                <span>Ordered: <strong>Rs. {parseFloat(detail.totalAmount).toFixed(2)}</strong></span>
+                <span>Received: <strong>Rs. {detail.receivedValue.toFixed(2)}</strong></span>
+              </div>
+
+              {detail.status === "draft" && (
+                <div className="space-y-2 border-t pt-4">
+                  {renderItemSelect(lineDraft, setLineDraft)}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!isLineValid(lineDraft) || actionMutation.isPending}
+                    onClick={() => actionMutation.mutate({ action: "items", data: { lines: [toLinePayload(lineDraft)] } })}
+                    data-testid="button-po-detail-add-line"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Line
+                  </Button>
+                </div>
+              )}
+
+              {receiving && (
+                <div className="space-y-1">
+                  <Label htmlFor="supplier-reference">Supplier Delivery Note / Invoice No.</Label>
+                  <Input
+                    id="supplier-reference"
+                    value={supplierReference}
+                    onChange={(e) => setSupplierReference(e.target.value)}
+                    data-testid="input-supplier-reference"
+                  />
+                </div>
+              )}
+
+              {detail.goodsReceivedNotes.length > 0 && (
+                <div className="space-y-2 border-t pt-4">
+                  <h3 className="font-semibold">Goods Received</h3>
+                  {detail.goodsReceivedNotes.map(note => (
+                    <div key={note.id} className="flex justify-between text-sm p-2 border rounded-lg" data-testid={`row-grn-${note.id}`}>
+                      <span className="font-mono text-xs">{note.grnNumber}</span>
+                      <span className="text-muted-foreground">{note.supplierReference || "-"}</span>
+                      <span>{note.items.reduce((sum, item) => sum + item.quantity, 0)} units</span>
+                      <span>Rs. {parseFloat(note.totalValue).toFixed(2)}</span>
+                      <span className="text-muted-foreground">{formatDate(note.receivedAt)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {detail.payable && (
+                <Card>
+                  <CardHeader className="py-3">
+                    <CardTitle className="text-base flex items-center justify-between">
+                      Supplier Payable
+                      <Badge variant={detail.payable.paymentStatus === "paid" ? "secondary" : "destructive"}>
+                        {detail.payable.paymentStatus === "paid" ? "Paid" : "Unpaid"}
+                      </Badge>
+                    </CardTitle>
+                    <CardDescription>
+                      Rs. {parseFloat(detail.payable.amount).toFixed(2)}
+                      {detail.payable.paymentStatus === "paid"
+                        ? ` - paid ${formatDate(detail.payable.paidAt)}`
+                        : ` - due ${formatDate(detail.payable.dueDate)}`}
+                    </CardDescription>
+                  </CardHeader>
+                </Card>
+              )}
+
+              <DialogFooter className="gap-2 flex-wrap">
+                {["draft", "sent", "partially_received"].includes(detail.status) && (
+                  <Button
+                    variant="destructive"
+                    onClick={() => confirm("Cancel this purchase order?") && actionMutation.mutate({ action: "cancel" })}
+                    disabled={actionMutation.isPending}
+                    data-testid="button-cancel-po"
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Cancel Order
+                  </Button>
+                )}
+                <div className="flex-1" />
+                {detail.payable && detail.payable.paymentStatus !== "paid" && (
+                  <Button variant="outline" onClick={() => actionMutation.mutate({ action: "pay" })} disabled={actionMutation.isPending} data-testid="button-pay-po">
+                    <Banknote className="h-4 w-4 mr-1" />
+                    Mark Paid
+                  </Button>
+                )}
+                {detail.status === "draft" && (
+                  <Button onClick={() => actionMutation.mutate({ action: "send" })} disabled={actionMutation.isPending} data-testid="button-send-po">
+                    <Send className="h-4 w-4 mr-1" />
+                    Send to Supplier
+                  </Button>
+                )}
+                {["sent", "partially_received"].includes(detail.status) && (
+                  receiving ? (
+                    <>
+                      <Button variant="outline" onClick={() => setReceiving(false)}>Back</Button>
+                      <Button onClick={handleReceive} disabled={actionMutation.isPending} data-testid="button-confirm-receive">
+                        <PackageCheck className="h-4 w-4 mr-1" />
+                        Confirm Receipt
+                      </Button>
+                    </>
+                  ) : (
+                    <Button onClick={openReceive} data-testid="button-receive-po">
+                      <PackageCheck className="h-4 w-4 mr-1" />
+                      Receive Goods
+                    </Button>
+                  )
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
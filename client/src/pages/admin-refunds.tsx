@@ -18,12 +18,13 @@ import AdminHeader from "@/components/AdminHeader";
 import { DollarSign, RefreshCcw, AlertCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
+import type { OrderItem } from "@shared/schema";
 
 const refundSchema = z.object({
   orderId: z.string().min(1, "Order is required"),
   refundAmount: z.string().min(1, "Amount is required"),
   reason: z.string().min(10, "Reason must be at least 10 characters"),
-  refundMethod: z.enum(["cash", "card", "jazzcash", "loyalty_points"]),
+  refundMethod: z.enum(["cash", "card", "jazzcash", "loyalty_points", "gift_card", "store_credit"]),
   notes: z.string().optional(),
 });
 
@@ -57,6 +58,7 @@ export default function AdminRefunds() {
   const { logout, user } = useAuth();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [lineQuantities, setLineQuantities] = useState<Record<string, number>>({});
 
   const userBranchId = user?.branchId || "";
 
@@ -84,8 +86,35 @@ export default function AdminRefunds() {
     },
   });
 
+  const selectedOrderId = form.watch("orderId");
+
+  // Order lines for per-line refunds
+  const { data: orderLines = [] } = useQuery<OrderItem[]>({
+    queryKey: [`/api/orders/${selectedOrderId}/items`],
+    enabled: !!selectedOrderId,
+  });
+
+  const selectedLines = orderLines
+    .filter(line => (lineQuantities[line.id] || 0) > 0)
+    .map(line => ({ orderItemId: line.id, quantity: lineQuantities[line.id] }));
+
+  const updateLineQuantity = (line: OrderItem, quantity: number) => {
+    const remaining = line.quantity - line.refundedQuantity;
+    const next = { ...lineQuantities, [line.id]: Math.max(0, Math.min(remaining, quantity || 0)) };
+    setLineQuantities(next);
+
+    // Keep the refund amount in step with the selected lines
+    const amount = orderLines.reduce((sum, l) => {
+      const qty = next[l.id] || 0;
+      return sum + (parseFloat(l.lineTotal) / l.quantity) * qty;
+    }, 0);
+    if (amount > 0) {
+      form.setValue("refundAmount", amount.toFixed(2));
+    }
+  };
+
   const createRefundMutation = useMutation({
-    mutationFn: (data: { orderId: string; refundAmount: number; reason: string; refundMethod: string; branchId: string; notes?: string }) => {
+    mutationFn: (data: { orderId: string; refundAmount: number; reason: string; refundMethod: string; branchId: string; notes?: string; items?: Array<{ orderItemId: string; quantity: number }> }) => {
       return apiRequest("/api/refunds", "POST", data);
     },
     onSuccess: () => {
@@ -93,6 +122,7 @@ export default function AdminRefunds() {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       toast({ title: "Success", description: "Refund processed successfully" });
       setIsDialogOpen(false);
+      setLineQuantities({});
       form.reset();
     },
     onError: (error: Error) => {
@@ -108,15 +138,17 @@ export default function AdminRefunds() {
       refundMethod: data.refundMethod,
       branchId: userBranchId,
       notes: data.notes || undefined,
+      items: selectedLines.length > 0 ? selectedLines : undefined,
     });
   };
 
   // Auto-fill payment method and total when order selected
   const handleOrderChange = (orderId: string) => {
     const selectedOrder = orders.find((o) => o.id === orderId);
+    setLineQuantities({});
     if (selectedOrder) {
       const method = selectedOrder.paymentMethod.toLowerCase();
-      form.setValue("refundMethod", method as "cash" | "card" | "jazzcash" | "loyalty_points");
+      form.setValue("refundMethod", method as "cash" | "card" | "jazzcash" | "loyalty_points" | "gift_card" | "store_credit");
       form.setValue("refundAmount", selectedOrder.totalAmount.toString());
     }
   };
@@ -303,6 +335,36 @@ export default function AdminRefunds() {
                 )}
               />
 
+              {orderLines.length > 0 && (
+                <div className="space-y-2" data-testid="list-refund-lines">
+                  <p className="text-sm font-medium">Refund Items (optional)</p>
+                  {orderLines.map((line) => {
+                    const remaining = line.quantity - line.refundedQuantity;
+                    return (
+                      <div key={line.id} className="flex items-center justify-between gap-3 text-sm" data-testid={`row-refund-line-${line.id}`}>
+                        <div className="flex-1">
+                          <p className="font-medium">{line.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            ₨{parseFloat(line.unitPrice).toFixed(2)} × {line.quantity}
+                            {line.refundedQuantity > 0 && ` (${line.refundedQuantity} refunded)`}
+                          </p>
+                        </div>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={remaining}
+                          className="w-20"
+                          value={lineQuantities[line.id] || 0}
+                          disabled={remaining === 0}
+                          onChange={(e) => updateLineQuantity(line, parseInt(e.target.value))}
+                          data-testid={`input-refund-quantity-${line.id}`}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -324,7 +386,8 @@ export default function AdminRefunds() {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Refund Method</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value} disabled>
+                      {/* Defaults to how the order was paid; store credit can be chosen for any order with a customer account */}
+                      <Select onValueChange={field.onChange} value={field.value}>
                         <FormControl>
                           <SelectTrigger data-testid="select-refund-method">
                             <SelectValue placeholder="Select method" />
@@ -335,6 +398,8 @@ export default function AdminRefunds() {
                           <SelectItem value="card">Card</SelectItem>
                           <SelectItem value="jazzcash">JazzCash</SelectItem>
                           <SelectItem value="loyalty_points">Loyalty Points</SelectItem>
+                          <SelectItem value="gift_card">Back onto Gift Card</SelectItem>
+                          <SelectItem value="store_credit">Store Credit</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -1,4 +1,6 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 import AdminSidebar from "@/components/AdminSidebar";
 import AdminHeader from "@/components/AdminHeader";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,91 +13,123 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/context/AuthContext";
 import { 
   Building2, Bell, Clock, CreditCard, Truck, Globe, Shield, 
-  Percent, Receipt, Settings, CheckCircle2, AlertCircle 
+  Percent, Receipt, Settings, CheckCircle2, AlertCircle, Loader2, RotateCcw 
 } from "lucide-react";
+import { DEFAULT_SYSTEM_SETTINGS, type Branch, type SystemSettings as SystemSettingsRow, type SystemSettingsValues } from "@shared/schema";
 
-interface SystemSettings {
-  restaurantName: string;
-  contactEmail: string;
-  contactPhone: string;
-  address: string;
-  openingTime: string;
-  closingTime: string;
-  orderNotifications: boolean;
-  soundAlerts: boolean;
-  lowStockAlerts: boolean;
-  taxRate: number;
-  taxName: string;
-  taxEnabled: boolean;
-  currency: string;
-  currencySymbol: string;
-  language: string;
-  timezone: string;
-  minOrderAmount: number;
-  maxOrderAmount: number;
-  autoAcceptOrders: boolean;
-  requirePhoneVerification: boolean;
-  allowGuestCheckout: boolean;
-  enableLoyaltyProgram: boolean;
-  pointsPerOrder: number;
-  pointsRedemptionRate: number;
-  defaultDeliveryRadius: number;
-  estimatedDeliveryTime: number;
-  enableCOD: boolean;
-  enableStripe: boolean;
-  enableJazzCash: boolean;
+type SystemSettings = SystemSettingsValues;
+
+interface SettingsOverridesResponse {
+  global: SystemSettingsRow | null;
+  branches: SystemSettingsRow[];
 }
 
-const defaultSettings: SystemSettings = {
-  restaurantName: "Kebabish Pizza",
-  contactEmail: "info@kebabish-pizza.com",
-  contactPhone: "+92-300-1234567",
-  address: "Main Branch, Sahiwal, Pakistan",
-  openingTime: "10:00",
-  closingTime: "23:00",
-  orderNotifications: true,
-  soundAlerts: true,
-  lowStockAlerts: true,
-  taxRate: 16,
-  taxName: "GST",
-  taxEnabled: true,
-  currency: "PKR",
-  currencySymbol: "Rs.",
-  language: "en",
-  timezone: "Asia/Karachi",
-  minOrderAmount: 200,
-  maxOrderAmount: 50000,
-  autoAcceptOrders: false,
-  requirePhoneVerification: false,
-  allowGuestCheckout: true,
-  enableLoyaltyProgram: true,
-  pointsPerOrder: 10,
-  pointsRedemptionRate: 100,
-  defaultDeliveryRadius: 10,
-  estimatedDeliveryTime: 45,
-  enableCOD: true,
-  enableStripe: true,
-  enableJazzCash: true,
-};
+const GLOBAL_SCOPE = "global";
 
 export default function AdminSettings() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const [settings, setSettings] = useState<SystemSettings>(defaultSettings);
+  const [scope, setScope] = useState<string>(GLOBAL_SCOPE);
+  const [settings, setSettings] = useState<SystemSettings>(DEFAULT_SYSTEM_SETTINGS);
   const { toast } = useToast();
+  const { logout } = useAuth();
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+  });
+
+  const { data: stored, isLoading } = useQuery<SettingsOverridesResponse>({
+    queryKey: ["/api/settings/overrides"],
+  });
+
+  // Global defaults = built-in defaults + saved global row
+  const globalSettings: SystemSettings = {
+    ...DEFAULT_SYSTEM_SETTINGS,
+    ...((stored?.global?.settings as Partial<SystemSettings>) || {}),
+  };
+  const branchOverride = scope !== GLOBAL_SCOPE
+    ? stored?.branches.find(row => row.branchId === scope)
+    : undefined;
+
+  // Load the form whenever the scope or stored settings change
+  useEffect(() => {
+    setSettings({
+      ...globalSettings,
+      ...((branchOverride?.settings as Partial<SystemSettings>) || {}),
+    });
+  }, [scope, stored]);
 
   const updateSetting = <K extends keyof SystemSettings>(key: K, value: SystemSettings[K]) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
 
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (scope === GLOBAL_SCOPE) {
+        return await apiRequest("/api/settings", "PUT", settings);
+      }
+      // Branch overrides only store the values that differ from the global defaults
+      const overrides = Object.fromEntries(
+        (Object.keys(settings) as (keyof SystemSettings)[])
+          .filter(key => settings[key] !== globalSettings[key])
+          .map(key => [key, settings[key]])
+      );
+      return await apiRequest(`/api/settings/branches/${scope}`, "PUT", overrides);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/overrides"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Settings saved",
+        description: scope === GLOBAL_SCOPE
+          ? "Default settings have been updated for all branches"
+          : "Branch settings have been updated successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetBranchMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/settings/branches/${scope}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/overrides"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Branch reset",
+        description: "This branch now uses the default settings",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSave = () => {
-    toast({
-      title: "Settings saved",
-      description: "Your settings have been updated successfully",
-    });
+    saveMutation.mutate();
   };
 
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-screen bg-background">
       {sidebarOpen && (
@@ -108,10 +142,7 @@ export default function AdminSettings() {
         <AdminSidebar
           soundEnabled={settings.soundAlerts}
           onToggleSound={() => updateSetting('soundAlerts', !settings.soundAlerts)}
-          onLogout={() => {
-            localStorage.removeItem("user");
-            window.location.href = "/";
-          }}
+          onLogout={logout}
           onNavigate={() => setSidebarOpen(false)}
         />
       </div>
@@ -133,6 +164,47 @@ export default function AdminSettings() {
               </p>
             </div>
 
+            <Card className="mb-6">
+              <CardContent className="pt-6">
+                <div className="flex flex-col md:flex-row md:items-end gap-4">
+                  <div className="flex-1 space-y-2">
+                    <Label htmlFor="settings-scope">Apply To</Label>
+                    <Select value={scope} onValueChange={setScope}>
+                      <SelectTrigger id="settings-scope" data-testid="select-settings-scope">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={GLOBAL_SCOPE}>All Branches (Defaults)</SelectItem>
+                        {branches.map((branch) => (
+                          <SelectItem key={branch.id} value={branch.id}>
+                            {branch.name} - {branch.city}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {scope !== GLOBAL_SCOPE && (
+                    <div className="flex items-center gap-2">
+                      <Badge variant={branchOverride ? "default" : "secondary"} data-testid="badge-branch-overrides">
+                        {branchOverride
+                          ? `${Object.keys(branchOverride.settings as object).length} override(s)`
+                          : "Using defaults"}
+                      </Badge>
+                      <Button
+                        variant="outline"
+                        onClick={() => resetBranchMutation.mutate()}
+                        disabled={!branchOverride || resetBranchMutation.isPending}
+                        data-testid="button-reset-branch-settings"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Reset to Defaults
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
             <Tabs defaultValue="general" className="space-y-6">
               <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 lg:grid-cols-7">
                 <TabsTrigger value="general" className="gap-2" data-testid="tab-general">
@@ -315,6 +387,37 @@ export default function AdminSettings() {
                         data-testid="switch-low-stock-alerts"
                       />
                     </div>
+                    <Separator />
+                    <div className="space-y-2">
+                      <Label htmlFor="expiry-warning-days">Expiry Warning (days)</Label>
+                      <Input
+                        id="expiry-warning-days"
+                        type="number"
+                        min="0"
+                        max="90"
+                        value={settings.expiryWarningDays}
+                        onChange={(e) => updateSetting('expiryWarningDays', parseInt(e.target.value) || 0)}
+                        data-testid="input-expiry-warning-days"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Stock batches expiring within this many days are listed each day as expiring soon.
+                      </p>
+                    </div>
+                    <Separator />
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="auto-write-off-expired">Write Off Expired Stock</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Automatically record expired batches as wastage
+                        </p>
+                      </div>
+                      <Switch
+                        id="auto-write-off-expired"
+                        checked={settings.autoWriteOffExpiredStock}
+                        onCheckedChange={(checked) => updateSetting('autoWriteOffExpiredStock', checked)}
+                        data-testid="switch-auto-write-off-expired"
+                      />
+                    </div>
                   </CardContent>
                 </Card>
               </TabsContent>
@@ -639,6 +742,35 @@ export default function AdminSettings() {
                       </div>
                     </div>
                     <Separator />
+                    <div className="space-y-2">
+                      <Label htmlFor="max-order-discount">Maximum Discount per Order (%)</Label>
+                      <Input
+                        id="max-order-discount"
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={settings.maxOrderDiscountPercent}
+                        onChange={(e) => updateSetting('maxOrderDiscountPercent', Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+                        data-testid="input-max-order-discount"
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        Promotions and manual discounts together, as a share of the subtotal (0 = no cap)
+                      </p>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label>Manual Discounts on Promotions</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Let cashiers add a discount to orders whose promotions are all combinable
+                        </p>
+                      </div>
+                      <Switch
+                        checked={settings.manualDiscountWithPromotions}
+                        onCheckedChange={(checked) => updateSetting('manualDiscountWithPromotions', checked)}
+                        data-testid="switch-manual-discount-with-promotions"
+                      />
+                    </div>
+                    <Separator />
                     <div className="flex items-center justify-between">
                       <div className="space-y-0.5">
                         <Label>Auto-Accept Orders</Label>
@@ -653,6 +785,37 @@ export default function AdminSettings() {
                       />
                     </div>
                     <Separator />
+                    <div className="space-y-2">
+                      <Label htmlFor="kitchen-prep-target">Default Kitchen Prep Time Target (minutes)</Label>
+                      <Input
+                        id="kitchen-prep-target"
+                        type="number"
+                        min="1"
+                        max="180"
+                        value={settings.kitchenPrepTimeTarget}
+                        onChange={(e) => updateSetting('kitchenPrepTimeTarget', parseInt(e.target.value) || 15)}
+                        data-testid="input-kitchen-prep-target"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Used for menu items without their own prep time. Kitchen tickets past their target are flagged on the kitchen display.
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="accept-timeout">Online Order Accept Timeout (minutes)</Label>
+                      <Input
+                        id="accept-timeout"
+                        type="number"
+                        min="1"
+                        max="60"
+                        value={settings.orderAcceptTimeoutMinutes}
+                        onChange={(e) => updateSetting('orderAcceptTimeoutMinutes', parseInt(e.target.value) || 5)}
+                        data-testid="input-accept-timeout"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Online orders not accepted on the kitchen display within this time are escalated to managers.
+                      </p>
+                    </div>
+                    <Separator />
                     <div className="flex items-center justify-between">
                       <div className="space-y-0.5">
                         <Label>Allow Guest Checkout</Label>
@@ -720,6 +883,111 @@ export default function AdminSettings() {
                             />
                           </div>
                         </div>
+                        {/* Expiry applies to the whole program, so it is only set on the defaults */}
+                        {scope === GLOBAL_SCOPE && (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="points-expiry-months">Points expire after (months)</Label>
+                              <Input
+                                id="points-expiry-months"
+                                type="number"
+                                min="0"
+                                value={settings.pointsExpiryMonths}
+                                onChange={(e) => updateSetting('pointsExpiryMonths', parseInt(e.target.value) || 0)}
+                                data-testid="input-points-expiry-months"
+                              />
+                              <p className="text-xs text-muted-foreground">0 keeps points forever</p>
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="points-expiry-warning">Warn customers (days before expiry)</Label>
+                              <Input
+                                id="points-expiry-warning"
+                                type="number"
+                                min="0"
+                                value={settings.pointsExpiryWarningDays}
+                                onChange={(e) => updateSetting('pointsExpiryWarningDays', parseInt(e.target.value) || 0)}
+                                data-testid="input-points-expiry-warning"
+                              />
+                            </div>
+                          </div>
+                        )}
+                      </>
+                    )}
+                    {/* Referrals run across all branches, so they are only set on the defaults */}
+                    {scope === GLOBAL_SCOPE && (
+                      <>
+                        <Separator />
+                        <div className="flex items-center justify-between">
+                          <div className="space-y-0.5">
+                            <Label>Enable Referral Program</Label>
+                            <p className="text-sm text-muted-foreground">
+                              Reward customers and the friends they invite once the friend's first paid order is completed
+                            </p>
+                          </div>
+                          <Switch
+                            checked={settings.enableReferralProgram}
+                            onCheckedChange={(checked) => updateSetting('enableReferralProgram', checked)}
+                            data-testid="switch-referrals"
+                          />
+                        </div>
+                        {settings.enableReferralProgram && (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="referral-reward-type">Reward Type</Label>
+                              <Select
+                                value={settings.referralRewardType}
+                                onValueChange={(value) => updateSetting('referralRewardType', value as SystemSettings['referralRewardType'])}
+                              >
+                                <SelectTrigger id="referral-reward-type" data-testid="select-referral-reward-type">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="points">Loyalty points</SelectItem>
+                                  <SelectItem value="promo">One-time promo code</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            {settings.referralRewardType === "promo" && (
+                              <div className="space-y-2">
+                                <Label htmlFor="referral-promo-days">Promo codes valid for (days)</Label>
+                                <Input
+                                  id="referral-promo-days"
+                                  type="number"
+                                  min="1"
+                                  value={settings.referralPromoValidDays}
+                                  onChange={(e) => updateSetting('referralPromoValidDays', parseInt(e.target.value) || 1)}
+                                  data-testid="input-referral-promo-days"
+                                />
+                              </div>
+                            )}
+                            <div className="space-y-2">
+                              <Label htmlFor="referrer-reward">
+                                Referrer reward ({settings.referralRewardType === "points" ? "points" : settings.currencySymbol})
+                              </Label>
+                              <Input
+                                id="referrer-reward"
+                                type="number"
+                                min="0"
+                                value={settings.referrerRewardValue}
+                                onChange={(e) => updateSetting('referrerRewardValue', parseFloat(e.target.value) || 0)}
+                                data-testid="input-referrer-reward"
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="referee-reward">
+                                New customer reward ({settings.referralRewardType === "points" ? "points" : settings.currencySymbol})
+                              </Label>
+                              <Input
+                                id="referee-reward"
+                                type="number"
+                                min="0"
+                                value={settings.refereeRewardValue}
+                                onChange={(e) => updateSetting('refereeRewardValue', parseFloat(e.target.value) || 0)}
+                                data-testid="input-referee-reward"
+                              />
+                            </div>
+                          </div>
+                        )}
                       </>
                     )}
                   </CardContent>
@@ -728,9 +996,13 @@ export default function AdminSettings() {
             </Tabs>
 
             <div className="flex justify-end mt-6 sticky bottom-6">
-              <Button onClick={handleSave} size="lg" data-testid="button-save-settings">
-                <CheckCircle2 className="h-4 w-4 mr-2" />
-                Save All Settings
+              <Button onClick={handleSave} size="lg" disabled={saveMutation.isPending} data-testid="button-save-settings">
+                {saveMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                )}
+                {scope === GLOBAL_SCOPE ? "Save All Settings" : "Save Branch Settings"}
               </Button>
             </div>
           </div>
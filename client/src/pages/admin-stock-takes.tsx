@@ -0,0 +1,639 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import AdminSidebar from "@/components/AdminSidebar";
+import AdminHeader from "@/components/AdminHeader";
+import { ClipboardCheck, Plus, Save, CheckCircle2, XCircle, Search, TrendingDown, Trash2 } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import type { Branch, Category, StockTake, StockTakeItem, StockWastage } from "@shared/schema";
+
+const INGREDIENT_CATEGORIES = ["dairy", "produce", "meat", "dry_goods", "sauces", "beverage", "packaging"];
+
+interface StockTakeDetail extends StockTake {
+  items: StockTakeItem[];
+  countedLines: number;
+}
+
+interface VarianceReport {
+  stockTakes: StockTake[];
+  items: Array<{
+    description: string;
+    menuItemId: string | null;
+    ingredientId: string | null;
+    variance: number;
+    varianceValue: number;
+    counts: number;
+  }>;
+  wastage: StockWastage[];
+  summary: {
+    countLoss: number;
+    countGain: number;
+    netCountVariance: number;
+    wastageValue: number;
+    wastageQuantity: number;
+    totalLoss: number;
+  };
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  counting: "Counting",
+  posted: "Posted",
+  cancelled: "Cancelled",
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "counting":
+      return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200";
+    case "posted":
+      return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+    case "cancelled":
+      return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+    default:
+      return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200";
+  }
+};
+
+const formatCategory = (category: string) =>
+  category.replace(/_/g, " ").replace(/\b\w/g, c => c.toUpperCase());
+
+const formatDate = (date: string | Date | null) =>
+  date ? new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }) : "-";
+
+const formatMoney = (value: number) => `${value < 0 ? "-" : ""}Rs. ${Math.abs(value).toFixed(2)}`;
+
+export default function AdminStockTakes() {
+  const { toast } = useToast();
+  const { user, logout } = useAuth();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [selectedBranchId, setSelectedBranchId] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+
+  // New stock take
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newTake, setNewTake] = useState({ countType: "full", ingredientCategory: "none", menuCategoryId: "none", notes: "" });
+
+  // Counts typed in but not saved yet, by stock take line
+  const [counts, setCounts] = useState<Record<string, string>>({});
+
+  // Variance report period
+  const [startDate, setStartDate] = useState(() => {
+    const date = new Date();
+    date.setDate(date.getDate() - 30);
+    return date.toISOString().split('T')[0];
+  });
+  const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+    enabled: !user?.branchId,
+  });
+
+  // Admins without a branch of their own pick which branch to count
+  const branchId = user?.branchId || selectedBranchId || branches[0]?.id;
+
+  const { data: stockTakes = [], isLoading } = useQuery<StockTake[]>({
+    queryKey: ["/api/stock-takes", { searchParams: { branchId: branchId || "" } }],
+    enabled: !!branchId,
+  });
+
+  const { data: detail } = useQuery<StockTakeDetail>({
+    queryKey: [`/api/stock-takes/${selectedId}`],
+    enabled: !!selectedId,
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const { data: report } = useQuery<VarianceReport>({
+    queryKey: ["/api/stock-takes/variance-report", branchId, startDate, endDate],
+    queryFn: async () => {
+      const params = new URLSearchParams({ startDate, endDate, ...(branchId && { branchId }) });
+      const res = await fetch(`/api/stock-takes/variance-report?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch variance report");
+      return res.json();
+    },
+    enabled: !!branchId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-takes"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-takes/variance-report"] });
+    if (selectedId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/stock-takes/${selectedId}`] });
+    }
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const res = await apiRequest("/api/stock-takes", "POST", data);
+      return await res.json();
+    },
+    onSuccess: (stockTake: StockTake) => {
+      invalidate();
+      toast({ title: "Success", description: `Stock take ${stockTake.takeNumber} started - expected quantities are frozen` });
+      setCreateOpen(false);
+      openDetail(stockTake.id);
+    },
+    onError,
+  });
+
+  const saveCountsMutation = useMutation({
+    mutationFn: (data: any) => apiRequest(`/api/stock-takes/${selectedId}/counts`, "PUT", data),
+    onSuccess: () => {
+      invalidate();
+      setCounts({});
+      toast({ title: "Success", description: "Counts saved" });
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: (action: string) => apiRequest(`/api/stock-takes/${selectedId}/${action}`, "POST"),
+    onSuccess: (_res, action) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      toast({ title: "Success", description: action === "post" ? "Variances posted to stock" : "Stock take cancelled" });
+    },
+    onError,
+  });
+
+  const openDetail = (id: string) => {
+    setSelectedId(id);
+    setCounts({});
+    setSearch("");
+  };
+
+  const handleCreate = () => {
+    const isCycle = newTake.countType === "cycle";
+    createMutation.mutate({
+      branchId,
+      countType: newTake.countType,
+      ingredientCategory: isCycle && newTake.ingredientCategory !== "none" ? newTake.ingredientCategory : null,
+      menuCategoryId: isCycle && newTake.menuCategoryId !== "none" ? newTake.menuCategoryId : null,
+      notes: newTake.notes || null,
+    });
+  };
+
+  const pendingCounts = () => Object.entries(counts).map(([stockTakeItemId, value]) => ({
+    stockTakeItemId,
+    countedQuantity: value === "" ? null : Math.max(0, parseInt(value, 10) || 0),
+  }));
+
+  // Unsaved counts are saved first so nothing typed in is lost
+  const handlePost = async () => {
+    if (!confirm("Post this stock take? Variances will be booked as stock adjustments.")) return;
+    if (Object.keys(counts).length > 0) {
+      await saveCountsMutation.mutateAsync({ counts: pendingCounts() });
+    }
+    actionMutation.mutate("post");
+  };
+
+  const countFor = (item: StockTakeItem) =>
+    counts[item.id] ?? (item.countedQuantity === null ? "" : String(item.countedQuantity));
+
+  const visibleItems = (detail?.items || []).filter(item =>
+    item.description.toLowerCase().includes(search.toLowerCase())
+  );
+  const isCounting = detail?.status === "counting";
+
+  const categoryName = (id: string | null) => categories.find(c => c.id === id)?.name;
+  const scopeLabel = (take: StockTake) => take.countType === "full"
+    ? "Full count"
+    : [take.ingredientCategory && formatCategory(take.ingredientCategory), categoryName(take.menuCategoryId)].filter(Boolean).join(" + ") || "Cycle count";
+
+  return (
+    <div className="flex h-screen bg-background">
+      {sidebarOpen && (
+        <div
+          className="fixed inset-0 bg-background/80 backdrop-blur-sm z-40 md:hidden"
+          onClick={() => setSidebarOpen(false)}
+        />
+      )}
+      <div className={`fixed md:static inset-y-0 left-0 z-50 w-64 transform transition-transform duration-200 ${sidebarOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}`}>
+        <AdminSidebar
+          soundEnabled={false}
+          onToggleSound={() => {}}
+          onLogout={logout}
+        />
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <AdminHeader
+          breadcrumbs={["Admin", "Stock Takes"]}
+          notificationCount={0}
+          userName={user?.fullName || "Admin User"}
+          onMenuToggle={() => setSidebarOpen(!sidebarOpen)}
+        />
+
+        <main className="flex-1 overflow-y-auto p-4 md:p-6">
+          <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <h2 className="text-2xl font-bold" data-testid="text-stock-takes-title">Stock Takes</h2>
+                <p className="text-muted-foreground">Count what is on the shelf and post the differences to stock</p>
+              </div>
+              <div className="flex gap-2">
+                {!user?.branchId && (
+                  <Select value={branchId || ""} onValueChange={setSelectedBranchId}>
+                    <SelectTrigger className="w-48" data-testid="select-stock-take-branch">
+                      <SelectValue placeholder="Select a branch" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {branches.map(branch => (
+                        <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  onClick={() => { setNewTake({ countType: "full", ingredientCategory: "none", menuCategoryId: "none", notes: "" }); setCreateOpen(true); }}
+                  disabled={!branchId}
+                  data-testid="button-new-stock-take"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Start Stock Take
+                </Button>
+              </div>
+            </div>
+
+            <Tabs defaultValue="counts">
+              <TabsList>
+                <TabsTrigger value="counts" data-testid="tab-stock-takes">Stock Takes</TabsTrigger>
+                <TabsTrigger value="variance" data-testid="tab-variance-report">Variance Report</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="counts">
+                <Card>
+                  <CardContent className="pt-6">
+                    {isLoading ? (
+                      <div className="text-center py-8 text-muted-foreground">Loading...</div>
+                    ) : stockTakes.length === 0 ? (
+                      <div className="text-center py-8 text-muted-foreground">
+                        <ClipboardCheck className="h-12 w-12 mx-auto mb-4" />
+                        No stock takes yet
+                      </div>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead className="border-b">
+                            <tr className="text-left">
+                              <th className="px-4 py-2 font-semibold">Stock Take</th>
+                              <th className="px-4 py-2 font-semibold">Scope</th>
+                              <th className="px-4 py-2 font-semibold">Status</th>
+                              <th className="px-4 py-2 font-semibold text-right">Variance Value</th>
+                              <th className="px-4 py-2 font-semibold">Started</th>
+                              <th className="px-4 py-2 font-semibold">Posted</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {stockTakes.map(take => (
+                              <tr
+                                key={take.id}
+                                className="border-b hover:bg-muted/50 transition-colors cursor-pointer"
+                                onClick={() => openDetail(take.id)}
+                                data-testid={`row-stock-take-${take.id}`}
+                              >
+                                <td className="px-4 py-3 font-mono text-xs">{take.takeNumber}</td>
+                                <td className="px-4 py-3">{scopeLabel(take)}</td>
+                                <td className="px-4 py-3">
+                                  <Badge className={getStatusColor(take.status)}>{STATUS_LABELS[take.status] || take.status}</Badge>
+                                </td>
+                                <td className={`px-4 py-3 text-right ${parseFloat(take.totalVarianceValue) < 0 ? "text-destructive" : ""}`}>
+                                  {take.status === "posted" ? formatMoney(parseFloat(take.totalVarianceValue)) : "-"}
+                                </td>
+                                <td className="px-4 py-3 text-muted-foreground">{formatDate(take.createdAt)}</td>
+                                <td className="px-4 py-3 text-muted-foreground">{formatDate(take.postedAt)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="variance" className="space-y-4">
+                <div className="flex flex-wrap gap-4 items-end">
+                  <div className="space-y-1">
+                    <Label htmlFor="variance-start">From</Label>
+                    <Input id="variance-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} data-testid="input-variance-start" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="variance-end">To</Label>
+                    <Input id="variance-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} data-testid="input-variance-end" />
+                  </div>
+                </div>
+
+                {report && (
+                  <>
+                    <div className="grid gap-4 md:grid-cols-4">
+                      <Card>
+                        <CardHeader className="pb-2">
+                          <CardTitle className="text-sm font-medium">Count Losses</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <div className="text-2xl font-bold text-destructive" data-testid="text-count-loss">{formatMoney(report.summary.countLoss)}</div>
+                          <p className="text-xs text-muted-foreground">Counted less than expected</p>
+                        </CardContent>
+                      </Card>
+                      <Card>
+                        <CardHeader className="pb-2">
+                          <CardTitle className="text-sm font-medium">Count Gains</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <div className="text-2xl font-bold" data-testid="text-count-gain">{formatMoney(report.summary.countGain)}</div>
+                          <p className="text-xs text-muted-foreground">Counted more than expected</p>
+                        </CardContent>
+                      </Card>
+                      <Card>
+                        <CardHeader className="pb-2">
+                          <CardTitle className="text-sm font-medium">Recorded Wastage</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <div className="text-2xl font-bold text-yellow-600" data-testid="text-wastage-value">{formatMoney(report.summary.wastageValue)}</div>
+                          <p className="text-xs text-muted-foreground">{report.summary.wastageQuantity} units in {report.wastage.length} entries</p>
+                        </CardContent>
+                      </Card>
+                      <Card>
+                        <CardHeader className="pb-2">
+                          <CardTitle className="text-sm font-medium">Total Value Lost</CardTitle>
+                          <TrendingDown className="h-4 w-4 text-muted-foreground" />
+                        </CardHeader>
+                        <CardContent>
+                          <div className="text-2xl font-bold text-destructive" data-testid="text-total-loss">{formatMoney(report.summary.totalLoss)}</div>
+                          <p className="text-xs text-muted-foreground">Net count variance plus wastage</p>
+                        </CardContent>
+                      </Card>
+                    </div>
+
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Variance by Item</CardTitle>
+                        <CardDescription>{report.stockTakes.length} posted stock take(s) in this period</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        {report.items.length === 0 ? (
+                          <p className="text-center py-6 text-muted-foreground">No posted counts in this period</p>
+                        ) : (
+                          <table className="w-full text-sm">
+                            <thead className="border-b">
+                              <tr className="text-left">
+                                <th className="py-2 font-semibold">Item</th>
+                                <th className="py-2 font-semibold text-right">Counts</th>
+                                <th className="py-2 font-semibold text-right">Variance</th>
+                                <th className="py-2 font-semibold text-right">Value</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {report.items.map(item => (
+                                <tr key={item.ingredientId || item.menuItemId} className="border-b">
+                                  <td className="py-2">{item.description}</td>
+                                  <td className="py-2 text-right">{item.counts}</td>
+                                  <td className={`py-2 text-right ${item.variance < 0 ? "text-destructive" : ""}`}>
+                                    {item.variance > 0 ? "+" : ""}{item.variance}
+                                  </td>
+                                  <td className={`py-2 text-right ${item.varianceValue < 0 ? "text-destructive" : ""}`}>{formatMoney(item.varianceValue)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                          <Trash2 className="h-5 w-5" />
+                          Recorded Wastage
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        {report.wastage.length === 0 ? (
+                          <p className="text-center py-6 text-muted-foreground">No wastage recorded in this period</p>
+                        ) : (
+                          <div className="space-y-2">
+                            {report.wastage.map(entry => (
+                              <div key={entry.id} className="flex justify-between text-sm p-2 border rounded-lg">
+                                <span className="capitalize">{entry.wastageType}</span>
+                                <span className="flex-1 px-4 text-muted-foreground">{entry.reason}</span>
+                                <span>{entry.quantity} units</span>
+                                <span className="w-28 text-right">{entry.estimatedCost ? formatMoney(parseFloat(entry.estimatedCost)) : "-"}</span>
+                                <span className="w-28 text-right text-muted-foreground">{formatDate(entry.wasteDate)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </>
+                )}
+              </TabsContent>
+            </Tabs>
+          </div>
+        </main>
+      </div>
+
+      {/* Start Stock Take Dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent data-testid="dialog-new-stock-take">
+          <DialogHeader>
+            <DialogTitle>Start Stock Take</DialogTitle>
+            <DialogDescription>Expected quantities are frozen now; sales during the count are kept when the variances are posted</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Count</Label>
+              <Select value={newTake.countType} onValueChange={(value) => setNewTake({ ...newTake, countType: value })}>
+                <SelectTrigger data-testid="select-count-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">Full count - everything at the branch</SelectItem>
+                  <SelectItem value="cycle">Cycle count - one category</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {newTake.countType === "cycle" && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Ingredient Category</Label>
+                  <Select value={newTake.ingredientCategory} onValueChange={(value) => setNewTake({ ...newTake, ingredientCategory: value })}>
+                    <SelectTrigger data-testid="select-count-ingredient-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {INGREDIENT_CATEGORIES.map(category => (
+                        <SelectItem key={category} value={category}>{formatCategory(category)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Menu Category</Label>
+                  <Select value={newTake.menuCategoryId} onValueChange={(value) => setNewTake({ ...newTake, menuCategoryId: value })}>
+                    <SelectTrigger data-testid="select-count-menu-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {categories.map(category => (
+                        <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="stock-take-notes">Notes</Label>
+              <Textarea
+                id="stock-take-notes"
+                rows={2}
+                value={newTake.notes}
+                onChange={(e) => setNewTake({ ...newTake, notes: e.target.value })}
+                data-testid="input-stock-take-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={createMutation.isPending} data-testid="button-start-stock-take">
+              {createMutation.isPending ? "Starting..." : "Start Count"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Stock Take Detail Dialog */}
+      <Dialog open={!!selectedId} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="dialog-stock-take-detail">
+          {!detail ? (
+            <div className="text-center py-8 text-muted-foreground">Loading...</div>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {detail.takeNumber}
+                  <Badge className={getStatusColor(detail.status)}>{STATUS_LABELS[detail.status] || detail.status}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {scopeLabel(detail)} - {detail.countedLines} of {detail.items.length} lines counted
+                  {detail.status === "posted" ? ` - variance ${formatMoney(parseFloat(detail.totalVarianceValue))}` : ""}
+                </DialogDescription>
+              </DialogHeader>
+
+              {detail.notes && <p className="text-sm text-muted-foreground">{detail.notes}</p>}
+
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Find an item..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10"
+                  data-testid="input-stock-take-search"
+                />
+              </div>
+
+              <table className="w-full text-sm">
+                <thead className="border-b">
+                  <tr className="text-left">
+                    <th className="py-2 font-semibold">Item</th>
+                    <th className="py-2 font-semibold text-right">Expected</th>
+                    <th className="py-2 font-semibold text-right">Counted</th>
+                    <th className="py-2 font-semibold text-right">Variance</th>
+                    <th className="py-2 font-semibold text-right">Value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleItems.map(item => {
+                    const counted = countFor(item);
+                    const variance = item.variance ?? (counted === "" ? null : (parseInt(counted, 10) || 0) - item.expectedQuantity);
+                    const value = item.varianceValue !== null
+                      ? parseFloat(item.varianceValue)
+                      : variance === null ? null : variance * parseFloat(item.unitCost);
+                    return (
+                      <tr key={item.id} className="border-b" data-testid={`row-stock-take-item-${item.id}`}>
+                        <td className="py-2">{item.description}</td>
+                        <td className="py-2 text-right">{item.expectedQuantity}</td>
+                        <td className="py-2 text-right">
+                          {isCounting ? (
+                            <Input
+                              type="number"
+                              min="0"
+                              className="w-24 ml-auto"
+                              value={counted}
+                              onChange={(e) => setCounts({ ...counts, [item.id]: e.target.value })}
+                              data-testid={`input-count-${item.id}`}
+                            />
+                          ) : (
+                            item.countedQuantity ?? "Not counted"
+                          )}
+                        </td>
+                        <td className={`py-2 text-right ${variance !== null && variance < 0 ? "text-destructive" : ""}`}>
+                          {variance === null ? "-" : `${variance > 0 ? "+" : ""}${variance}`}
+                        </td>
+                        <td className={`py-2 text-right ${value !== null && value < 0 ? "text-destructive" : ""}`}>
+                          {value === null ? "-" : formatMoney(value)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {isCounting && (
+                <DialogFooter className="gap-2 flex-wrap">
+                  <Button
+                    variant="destructive"
+                    onClick={() => confirm("Cancel this stock take? Counts entered so far are discarded.") && actionMutation.mutate("cancel")}
+                    disabled={actionMutation.isPending}
+                    data-testid="button-cancel-stock-take"
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                  <div className="flex-1" />
+                  <Button
+                    variant="outline"
+                    onClick={() => saveCountsMutation.mutate({ counts: pendingCounts() })}
+                    disabled={Object.keys(counts).length === 0 || saveCountsMutation.isPending}
+                    data-testid="button-save-counts"
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    Save Counts
+                  </Button>
+                  <Button onClick={handlePost} disabled={actionMutation.isPending || saveCountsMutation.isPending} data-testid="button-post-stock-take">
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Post Variances
+                  </Button>
+                </DialogFooter>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,552 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import AdminSidebar from "@/components/AdminSidebar";
+import AdminHeader from "@/components/AdminHeader";
+import { ArrowLeftRight, Plus, Send, Truck, XCircle, PackageCheck, Trash2, AlertTriangle } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import type { Branch, Ingredient, MenuItem, StockTransfer, StockTransferItem } from "@shared/schema";
+
+interface StockTransferDetail extends StockTransfer {
+  fromBranch?: Branch;
+  toBranch?: Branch;
+  items: StockTransferItem[];
+}
+
+// Line being added; item is "ingredient:<id>" or "menu:<id>"
+interface DraftLine {
+  item: string;
+  quantity: string;
+}
+
+const EMPTY_LINE: DraftLine = { item: "", quantity: "" };
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  dispatched: "Dispatched",
+  in_transit: "In Transit",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "draft":
+      return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200";
+    case "dispatched":
+      return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200";
+    case "in_transit":
+      return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200";
+    case "received":
+      return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+    case "cancelled":
+      return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+    default:
+      return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200";
+  }
+};
+
+const formatDate = (date: string | Date | null) =>
+  date ? new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }) : "-";
+
+const toLinePayload = (line: DraftLine) => {
+  const [kind, id] = line.item.split(":");
+  return {
+    ingredientId: kind === "ingredient" ? id : null,
+    menuItemId: kind === "menu" ? id : null,
+    quantity: parseInt(line.quantity, 10),
+  };
+};
+
+export default function AdminStockTransfers() {
+  const { toast } = useToast();
+  const { user, logout } = useAuth();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // New transfer
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newTransfer, setNewTransfer] = useState({ fromBranchId: user?.branchId || "", toBranchId: "", notes: "" });
+  const [newLines, setNewLines] = useState<DraftLine[]>([]);
+  const [lineDraft, setLineDraft] = useState<DraftLine>(EMPTY_LINE);
+
+  // Receipt
+  const [receiving, setReceiving] = useState(false);
+  const [receiptLines, setReceiptLines] = useState<Record<string, { quantity: string; reason: string }>>({});
+
+  const isAdmin = user?.role === "admin";
+
+  const { data: transfers = [], isLoading } = useQuery<StockTransfer[]>({
+    queryKey: ["/api/stock-transfers", { searchParams: statusFilter === "all" || statusFilter === "open" ? {} : { status: statusFilter } }],
+  });
+
+  const { data: detail } = useQuery<StockTransferDetail>({
+    queryKey: [`/api/stock-transfers/${selectedId}`],
+    enabled: !!selectedId,
+  });
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+  });
+
+  const { data: ingredients = [] } = useQuery<Ingredient[]>({
+    queryKey: ["/api/ingredients"],
+  });
+
+  const { data: menuItems = [] } = useQuery<MenuItem[]>({
+    queryKey: ["/api/menu-items"],
+  });
+
+  const branchName = (id: string) => branches.find(b => b.id === id)?.name || "Unknown branch";
+  const itemName = (value: string) => {
+    const [kind, id] = value.split(":");
+    return kind === "ingredient"
+      ? ingredients.find(i => i.id === id)?.name
+      : menuItems.find(m => m.id === id)?.name;
+  };
+
+  // Staff act on their own side of a transfer; admins on either
+  const isSender = (transfer: StockTransfer) => isAdmin || transfer.fromBranchId === user?.branchId;
+  const isReceiver = (transfer: StockTransfer) => isAdmin || transfer.toBranchId === user?.branchId;
+
+  const visibleTransfers = statusFilter === "open"
+    ? transfers.filter(t => ["draft", "dispatched", "in_transit"].includes(t.status))
+    : transfers;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-transfers"] });
+    if (selectedId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/stock-transfers/${selectedId}`] });
+    }
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const res = await apiRequest("/api/stock-transfers", "POST", data);
+      return await res.json();
+    },
+    onSuccess: (transfer: StockTransfer) => {
+      invalidate();
+      toast({ title: "Success", description: `Transfer ${transfer.transferNumber} drafted` });
+      setCreateOpen(false);
+      setSelectedId(transfer.id);
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ action, data }: { action: string; data?: any }) =>
+      apiRequest(`/api/stock-transfers/${selectedId}/${action}`, "POST", data),
+    onSuccess: (_res, { action }) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      const messages: Record<string, string> = {
+        dispatch: "Stock dispatched",
+        "in-transit": "Marked as in transit",
+        receive: "Transfer received into stock",
+        cancel: "Transfer cancelled",
+      };
+      toast({ title: "Success", description: messages[action] || "Updated" });
+      if (action === "receive") setReceiving(false);
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setNewTransfer({ fromBranchId: user?.branchId || "", toBranchId: "", notes: "" });
+    setNewLines([]);
+    setLineDraft(EMPTY_LINE);
+    setCreateOpen(true);
+  };
+
+  const isLineValid = (line: DraftLine) => !!line.item && parseInt(line.quantity, 10) > 0;
+
+  const handleCreate = () => {
+    if (!newTransfer.fromBranchId || !newTransfer.toBranchId) {
+      toast({ title: "Error", description: "Choose the sending and receiving branch", variant: "destructive" });
+      return;
+    }
+    const lines = isLineValid(lineDraft) ? [...newLines, lineDraft] : newLines;
+    createMutation.mutate({
+      fromBranchId: newTransfer.fromBranchId,
+      toBranchId: newTransfer.toBranchId,
+      notes: newTransfer.notes || null,
+      lines: lines.map(toLinePayload),
+    });
+  };
+
+  const openReceive = () => {
+    if (!detail) return;
+    setReceiptLines(Object.fromEntries(detail.items.map(item => [item.id, { quantity: String(item.quantitySent), reason: "" }])));
+    setReceiving(true);
+  };
+
+  const handleReceive = () => {
+    const lines = Object.entries(receiptLines).map(([stockTransferItemId, line]) => ({
+      stockTransferItemId,
+      quantityReceived: Math.max(0, parseInt(line.quantity, 10) || 0),
+      discrepancyReason: line.reason || undefined,
+    }));
+    actionMutation.mutate({ action: "receive", data: { lines } });
+  };
+
+  return (
+    <div className="flex h-screen bg-background">
+      {sidebarOpen && (
+        <div
+          className="fixed inset-0 bg-background/80 backdrop-blur-sm z-40 md:hidden"
+          onClick={() => setSidebarOpen(false)}
+        />
+      )}
+      <div className={`fixed md:static inset-y-0 left-0 z-50 w-64 transform transition-transform duration-200 ${sidebarOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}`}>
+        <AdminSidebar
+          soundEnabled={false}
+          onToggleSound={() => {}}
+          onLogout={logout}
+        />
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <AdminHeader
+          breadcrumbs={["Admin", "Stock Transfers"]}
+          notificationCount={0}
+          userName={user?.fullName || "Admin User"}
+          onMenuToggle={() => setSidebarOpen(!sidebarOpen)}
+        />
+
+        <main className="flex-1 overflow-y-auto p-4 md:p-6">
+          <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <h2 className="text-2xl font-bold" data-testid="text-stock-transfers-title">Stock Transfers</h2>
+                <p className="text-muted-foreground">Send stock between branches and receive it at the other end</p>
+              </div>
+              <Button onClick={openCreate} data-testid="button-new-transfer">
+                <Plus className="h-4 w-4 mr-1" />
+                New Transfer
+              </Button>
+            </div>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between gap-4">
+                <CardTitle>Transfers</CardTitle>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-48" data-testid="select-transfer-status-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="open">Open</SelectItem>
+                    <SelectItem value="all">All</SelectItem>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="text-center py-8 text-muted-foreground">Loading...</div>
+                ) : visibleTransfers.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <ArrowLeftRight className="h-12 w-12 mx-auto mb-4" />
+                    No stock transfers
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="border-b">
+                        <tr className="text-left">
+                          <th className="px-4 py-2 font-semibold">Transfer</th>
+                          <th className="px-4 py-2 font-semibold">From</th>
+                          <th className="px-4 py-2 font-semibold">To</th>
+                          <th className="px-4 py-2 font-semibold">Status</th>
+                          <th className="px-4 py-2 font-semibold">Dispatched</th>
+                          <th className="px-4 py-2 font-semibold">Received</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {visibleTransfers.map(transfer => (
+                          <tr
+                            key={transfer.id}
+                            className="border-b hover:bg-muted/50 transition-colors cursor-pointer"
+                            onClick={() => { setSelectedId(transfer.id); setReceiving(false); }}
+                            data-testid={`row-transfer-${transfer.id}`}
+                          >
+                            <td className="px-4 py-3 font-mono text-xs">{transfer.transferNumber}</td>
+                            <td className="px-4 py-3">{branchName(transfer.fromBranchId)}</td>
+                            <td className="px-4 py-3">{branchName(transfer.toBranchId)}</td>
+                            <td className="px-4 py-3">
+                              <Badge className={getStatusColor(transfer.status)}>{STATUS_LABELS[transfer.status] || transfer.status}</Badge>
+                              {transfer.hasDiscrepancy && <Badge variant="destructive" className="ml-2">Discrepancy</Badge>}
+                            </td>
+                            <td className="px-4 py-3 text-muted-foreground">{formatDate(transfer.dispatchedAt)}</td>
+                            <td className="px-4 py-3 text-muted-foreground">{formatDate(transfer.receivedAt)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+
+      {/* New Transfer Dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-new-transfer">
+          <DialogHeader>
+            <DialogTitle>New Stock Transfer</DialogTitle>
+            <DialogDescription>Saved as a draft; stock leaves the sending branch when it is dispatched</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              {isAdmin && (
+                <div className="space-y-1">
+                  <Label>From Branch</Label>
+                  <Select value={newTransfer.fromBranchId} onValueChange={(value) => setNewTransfer({ ...newTransfer, fromBranchId: value })}>
+                    <SelectTrigger data-testid="select-transfer-from">
+                      <SelectValue placeholder="Select a branch" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {branches.map(branch => (
+                        <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label>To Branch</Label>
+                <Select value={newTransfer.toBranchId} onValueChange={(value) => setNewTransfer({ ...newTransfer, toBranchId: value })}>
+                  <SelectTrigger data-testid="select-transfer-to">
+                    <SelectValue placeholder="Select a branch" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {branches.filter(branch => branch.id !== newTransfer.fromBranchId).map(branch => (
+                      <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="transfer-notes">Notes</Label>
+              <Textarea
+                id="transfer-notes"
+                rows={2}
+                value={newTransfer.notes}
+                onChange={(e) => setNewTransfer({ ...newTransfer, notes: e.target.value })}
+                data-testid="input-transfer-notes"
+              />
+            </div>
+
+            {newLines.length > 0 && (
+              <div className="space-y-2">
+                {newLines.map((line, index) => (
+                  <div key={index} className="flex items-center gap-2 p-2 border rounded-lg text-sm">
+                    <span className="flex-1">{itemName(line.item)}</span>
+                    <span>x {line.quantity}</span>
+                    <Button size="sm" variant="ghost" onClick={() => setNewLines(newLines.filter((_, i) => i !== index))}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="grid gap-2 md:grid-cols-[1fr_7rem] items-end">
+              <div className="space-y-1">
+                <Label>Item</Label>
+                <Select value={lineDraft.item} onValueChange={(value) => setLineDraft({ ...lineDraft, item: value })}>
+                  <SelectTrigger data-testid="select-transfer-item">
+                    <SelectValue placeholder="Ingredient or menu item" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ingredients.filter(i => i.isActive).map(ingredient => (
+                      <SelectItem key={ingredient.id} value={`ingredient:${ingredient.id}`}>
+                        {ingredient.name} ({ingredient.unit})
+                      </SelectItem>
+                    ))}
+                    {menuItems.filter(m => m.stockQuantity !== null).map(menuItem => (
+                      <SelectItem key={menuItem.id} value={`menu:${menuItem.id}`}>
+                        {menuItem.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Quantity</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={lineDraft.quantity}
+                  onChange={(e) => setLineDraft({ ...lineDraft, quantity: e.target.value })}
+                  data-testid="input-transfer-quantity"
+                />
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!isLineValid(lineDraft)}
+              onClick={() => { setNewLines([...newLines, lineDraft]); setLineDraft(EMPTY_LINE); }}
+              data-testid="button-transfer-add-line"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Line
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={createMutation.isPending} data-testid="button-create-transfer">
+              {createMutation.isPending ? "Saving..." : "Save Draft"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Transfer Detail Dialog */}
+      <Dialog open={!!selectedId} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="dialog-transfer-detail">
+          {!detail ? (
+            <div className="text-center py-8 text-muted-foreground">Loading...</div>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {detail.transferNumber}
+                  <Badge className={getStatusColor(detail.status)}>{STATUS_LABELS[detail.status] || detail.status}</Badge>
+                  {detail.hasDiscrepancy && <Badge variant="destructive">Discrepancy</Badge>}
+                </DialogTitle>
+                <DialogDescription>
+                  {detail.fromBranch?.name || "Unknown branch"} to {detail.toBranch?.name || "Unknown branch"}
+                  {detail.dispatchedAt ? ` - dispatched ${formatDate(detail.dispatchedAt)}` : ""}
+                  {detail.receivedAt ? ` - received ${formatDate(detail.receivedAt)}` : ""}
+                </DialogDescription>
+              </DialogHeader>
+
+              {detail.notes && <p className="text-sm text-muted-foreground">{detail.notes}</p>}
+
+              <table className="w-full text-sm">
+                <thead className="border-b">
+                  <tr className="text-left">
+                    <th className="py-2 font-semibold">Item</th>
+                    <th className="py-2 font-semibold text-right">Sent</th>
+                    <th className="py-2 font-semibold text-right">{receiving ? "Arrived" : "Received"}</th>
+                    {receiving && <th className="py-2 font-semibold">Reason for Shortfall</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.items.map(item => {
+                    const short = item.quantityReceived !== null && item.quantityReceived < item.quantitySent;
+                    return (
+                      <tr key={item.id} className="border-b" data-testid={`row-transfer-item-${item.id}`}>
+                        <td className="py-2">
+                          {item.description}
+                          {short && (
+                            <p className="text-xs text-destructive flex items-center gap-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              {item.quantitySent - item.quantityReceived!} short{item.discrepancyReason ? ` - ${item.discrepancyReason}` : ""}
+                            </p>
+                          )}
+                        </td>
+                        <td className="py-2 text-right">{item.quantitySent}</td>
+                        <td className="py-2 text-right">
+                          {receiving ? (
+                            <Input
+                              type="number"
+                              min="0"
+                              max={item.quantitySent}
+                              className="w-20 ml-auto"
+                              value={receiptLines[item.id]?.quantity ?? ""}
+                              onChange={(e) => setReceiptLines({ ...receiptLines, [item.id]: { ...receiptLines[item.id], quantity: e.target.value } })}
+                              data-testid={`input-transfer-received-${item.id}`}
+                            />
+                          ) : (
+                            item.quantityReceived ?? "-"
+                          )}
+                        </td>
+                        {receiving && (
+                          <td className="py-2 pl-2">
+                            {(parseInt(receiptLines[item.id]?.quantity, 10) || 0) < item.quantitySent && (
+                              <Input
+                                placeholder="Damaged, missing..."
+                                value={receiptLines[item.id]?.reason ?? ""}
+                                onChange={(e) => setReceiptLines({ ...receiptLines, [item.id]: { ...receiptLines[item.id], reason: e.target.value } })}
+                                data-testid={`input-transfer-reason-${item.id}`}
+                              />
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <DialogFooter className="gap-2 flex-wrap">
+                {detail.status === "draft" && isSender(detail) && (
+                  <Button
+                    variant="destructive"
+                    onClick={() => confirm("Cancel this transfer?") && actionMutation.mutate({ action: "cancel" })}
+                    disabled={actionMutation.isPending}
+                    data-testid="button-cancel-transfer"
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Cancel Transfer
+                  </Button>
+                )}
+                <div className="flex-1" />
+                {detail.status === "draft" && isSender(detail) && (
+                  <Button onClick={() => actionMutation.mutate({ action: "dispatch" })} disabled={actionMutation.isPending} data-testid="button-dispatch-transfer">
+                    <Send className="h-4 w-4 mr-1" />
+                    Dispatch
+                  </Button>
+                )}
+                {detail.status === "dispatched" && isSender(detail) && (
+                  <Button variant="outline" onClick={() => actionMutation.mutate({ action: "in-transit" })} disabled={actionMutation.isPending} data-testid="button-transfer-in-transit">
+                    <Truck className="h-4 w-4 mr-1" />
+                    Mark In Transit
+                  </Button>
+                )}
+                {["dispatched", "in_transit"].includes(detail.status) && isReceiver(detail) && (
+                  receiving ? (
+                    <>
+                      <Button variant="outline" onClick={() => setReceiving(false)}>Back</Button>
+                      <Button onClick={handleReceive} disabled={actionMutation.isPending} data-testid="button-confirm-transfer-receipt">
+                        <PackageCheck className="h-4 w-4 mr-1" />
+                        Confirm Receipt
+                      </Button>
+                    </>
+                  ) : (
+                    <Button onClick={openReceive} data-testid="button-receive-transfer">
+                      <PackageCheck className="h-4 w-4 mr-1" />
+                      Receive
+                    </Button>
+                  )
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -146,6 +146,7 @@ const PERMISSION_MODULES = [
       { id: "inventory.receive_stock", label: "Receive Stock", description: "Record stock receipts" },
       { id: "inventory.view_audit", label: "View Audit Logs", description: "View stock history" },
       { id: "inventory.manage_wastage", label: "Manage Wastage", description: "Record wastage" },
+      { id: "inventory.transfer_stock", label: "Transfer Stock", description: "Send stock to other branches" },
     ],
   },
   {
@@ -157,6 +158,7 @@ const PERMISSION_MODULES = [
       { id: "suppliers.create", label: "Add Suppliers", description: "Add new suppliers" },
       { id: "suppliers.edit", label: "Edit Suppliers", description: "Modify supplier details" },
       { id: "suppliers.delete", label: "Delete Suppliers", description: "Remove suppliers" },
+      { id: "suppliers.manage_purchase_orders", label: "Manage Purchase Orders", description: "Draft, send and cancel purchase orders" },
     ],
   },
   {
@@ -192,6 +194,8 @@ const PERMISSION_MODULES = [
       { id: "loyalty.manage_points", label: "Manage Points", description: "Adjust loyalty points" },
       { id: "loyalty.view_rewards", label: "View Rewards", description: "View reward redemptions" },
       { id: "loyalty.manage_tiers", label: "Manage Tiers", description: "Configure loyalty tiers" },
+      { id: "loyalty.manage_rewards", label: "Manage Rewards", description: "Create and edit the rewards catalogue" },
+      { id: "loyalty.manage_gift_cards", label: "Manage Gift Cards", description: "View gift cards and void them" },
     ],
   },
   {
@@ -11,7 +11,8 @@ import {
   Award, 
   ShoppingBag, 
   ChevronRight,
-  User
+  User,
+  Wallet
 } from "lucide-react";
 
 export default function CustomerAccount() {
@@ -33,8 +34,12 @@ export default function CustomerAccount() {
     queryKey: [`/api/customers/${user.id}/favorites`],
   });
 
-  const { data: loyaltyData } = useQuery<{ balance: number }>({
-    queryKey: [`/api/customers/${user.id}/loyalty-points`],
+  const { data: loyaltyData } = useQuery<{ availablePoints: number; tierProgress: { tier: { name: string } } }>({
+    queryKey: [`/api/customers/${user.id}/loyalty`],
+  });
+
+  const { data: wallet } = useQuery<{ balance: number }>({
+    queryKey: [`/api/customers/${user.id}/store-credit`],
   });
 
   const { data: orders = [] } = useQuery<any[]>({
@@ -60,12 +65,22 @@ export default function CustomerAccount() {
     },
     {
       title: "Loyalty Points",
-      description: `${loyaltyData?.balance || 0} points available`,
+      description: loyaltyData
+        ? `${loyaltyData.availablePoints} points available · ${loyaltyData.tierProgress.tier.name} member`
+        : "0 points available",
       icon: Award,
       href: "/account/loyalty",
       color: "text-yellow-600",
       bgColor: "bg-yellow-50 dark:bg-yellow-950",
     },
+    {
+      title: "Wallet",
+      description: `₨${(wallet?.balance || 0).toFixed(2)} store credit · gift cards`,
+      icon: Wallet,
+      href: "/account/wallet",
+      color: "text-purple-600",
+      bgColor: "bg-purple-50 dark:bg-purple-950",
+    },
     {
       title: "Order History",
       description: `${orders.length} ${orders.length === 1 ? 'order' : 'orders'} placed`,
@@ -10,20 +10,63 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/AuthContext";
 import { formatCurrency } from "@/lib/utils";
-import { ChevronLeft, Loader2 } from "lucide-react";
+import { ChevronLeft, CreditCard, Gift, Loader2, Ticket, Wallet } from "lucide-react";
 import type { Branch } from "@shared/schema";
+import { amountsMatch, roundMoney, type OrderPricing } from "@shared/pricing";
+
+// What the signed-in customer can pay with points (GET /api/customers/:id/loyalty/tender)
+interface PointsTenderOptions {
+  enabled: boolean;
+  availablePoints: number;
+  redemptionRate: number; // Points worth Rs. 1
+  maxPoints: number;
+  maxAmount: number;
+}
+
+// What the signed-in customer can pay with store credit (GET /api/customers/:id/store-credit/tender)
+interface StoreCreditTenderOptions {
+  balance: number;
+  maxAmount: number;
+}
+
+// Result of a gift card balance check (GET /api/gift-cards/:code/balance)
+interface GiftCardBalance {
+  code: string;
+  status: string;
+  balance: number;
+}
+
+// The customer's claimed rewards (GET /api/customers/:id/loyalty/vouchers)
+interface RewardVoucher {
+  id: string;
+  code: string;
+  state: "available" | "used" | "expired";
+  reward: { name: string; rewardType: string; branchIds: string[] } | null;
+}
 
 export default function CustomerCheckout() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { user, isAuthenticated } = useAuth();
   const [paymentMethod, setPaymentMethod] = useState("cash");
   const [customerName, setCustomerName] = useState("");
   const [customerPhone, setCustomerPhone] = useState("");
   const [customerAddress, setCustomerAddress] = useState("");
   const [notes, setNotes] = useState("");
   const [promoCode, setPromoCode] = useState("");
+  const [appliedPromoCode, setAppliedPromoCode] = useState<string | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [pointsToUse, setPointsToUse] = useState("");
+  const [storeCreditToUse, setStoreCreditToUse] = useState("");
+  const [giftCardCode, setGiftCardCode] = useState("");
+  const [giftCard, setGiftCard] = useState<GiftCardBalance | null>(null);
+  const [giftCardToUse, setGiftCardToUse] = useState("");
+  const [isCheckingGiftCard, setIsCheckingGiftCard] = useState(false);
+  const [rewardCodes, setRewardCodes] = useState<string[]>([]);
+  const [applyingVoucher, setApplyingVoucher] = useState<string | null>(null);
 
   // Get cart data from localStorage
   const [cartData, setCartData] = useState<any>(null);
@@ -53,15 +96,145 @@ export default function CustomerCheckout() {
 
   const selectedBranch = branches.find(b => b.id === orderInfo?.branchId);
 
+  const fetchQuote = async (options: { promoCode?: string | null; customerAddress?: string; rewardCodes?: string[] }): Promise<OrderPricing> => {
+    const response = await apiRequest("/api/orders/quote", "POST", {
+      branchId: orderInfo.branchId,
+      orderType: orderInfo.orderType,
+      items: cartData.items || [],
+      promoCode: options.promoCode || undefined,
+      customerAddress: options.customerAddress || undefined,
+      rewardCodes: options.rewardCodes?.length ? options.rewardCodes : undefined,
+    });
+    return await response.json();
+  };
+
+  // Server-calculated totals for the cart (menu prices, promo, tax and delivery charges)
+  const { data: pricing, isLoading: isPricingLoading } = useQuery<OrderPricing>({
+    queryKey: ["/api/orders/quote", orderInfo?.branchId, orderInfo?.orderType, cartData?.items, appliedPromoCode, rewardCodes],
+    queryFn: () => fetchQuote({ promoCode: appliedPromoCode, rewardCodes }),
+    enabled: !!cartData && !!orderInfo,
+  });
+
+  // Signed-in customers can pay for part or all of the order with their loyalty points
+  const isCustomer = isAuthenticated && user?.role === "customer";
+  const { data: pointsTender } = useQuery<PointsTenderOptions>({
+    queryKey: [`/api/customers/${user?.id}/loyalty/tender`, { searchParams: { branchId: orderInfo?.branchId, amount: pricing?.total ?? 0 } }],
+    enabled: isCustomer && !!orderInfo && !!pricing,
+  });
+
+  const { data: storeCreditTender } = useQuery<StoreCreditTenderOptions>({
+    queryKey: [`/api/customers/${user?.id}/store-credit/tender`, { searchParams: { amountDue: pricing?.total ?? 0 } }],
+    enabled: isCustomer && !!pricing,
+  });
+
+  // Reward vouchers the customer has claimed and can use at this branch
+  const { data: vouchers = [] } = useQuery<RewardVoucher[]>({
+    queryKey: [`/api/customers/${user?.id}/loyalty/vouchers`],
+    enabled: isCustomer,
+  });
+  const usableVouchers = vouchers.filter(voucher =>
+    voucher.state === "available" &&
+    (!voucher.reward?.branchIds.length || voucher.reward.branchIds.includes(orderInfo?.branchId)) &&
+    (voucher.reward?.rewardType !== "free_delivery" || orderInfo?.orderType === "delivery")
+  );
+
   if (!cartData || !orderInfo) {
     return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
   }
 
   const cartItems = cartData.items || [];
-  const subtotal = cartData.subtotal || 0;
-  const deliveryCharges = orderInfo.orderType === "delivery" ? 50 : 0; // Default delivery charge
-  const discount = 0; // Will be calculated from promo code
-  const total = subtotal + deliveryCharges - discount;
+  const subtotal = pricing?.subtotal ?? (cartData.subtotal || 0);
+  const deliveryCharges = pricing?.deliveryCharges ?? 0;
+  const discount = pricing?.discount ?? 0;
+  const tax = pricing?.tax ?? 0;
+  const total = pricing?.total ?? subtotal;
+  const canUsePoints = !!pointsTender?.enabled && pointsTender.maxPoints > 0;
+  const redeemPoints = canUsePoints ? Math.min(Math.max(0, parseInt(pointsToUse) || 0), pointsTender.maxPoints) : 0;
+  const pointsAmount = redeemPoints > 0 ? roundMoney(Math.min(redeemPoints / pointsTender!.redemptionRate, total)) : 0;
+  // Store credit and then a gift card cover what the points leave
+  const dueAfterPoints = roundMoney(total - pointsAmount);
+  const canUseStoreCredit = (storeCreditTender?.balance || 0) > 0;
+  const storeCreditAmount = canUseStoreCredit
+    ? roundMoney(Math.min(Math.max(0, parseFloat(storeCreditToUse) || 0), storeCreditTender!.balance, dueAfterPoints))
+    : 0;
+  const dueAfterStoreCredit = roundMoney(dueAfterPoints - storeCreditAmount);
+  const giftCardAmount = giftCard
+    ? roundMoney(Math.min(Math.max(0, parseFloat(giftCardToUse) || 0), giftCard.balance, dueAfterStoreCredit))
+    : 0;
+  const amountToPay = roundMoney(dueAfterStoreCredit - giftCardAmount);
+  const tendersAmount = roundMoney(pointsAmount + storeCreditAmount + giftCardAmount);
+  const paidWithTenders = tendersAmount > 0 && amountsMatch(amountToPay, 0);
+
+  const handleCheckGiftCard = async () => {
+    const code = giftCardCode.trim().toUpperCase();
+    if (!code) return;
+    setIsCheckingGiftCard(true);
+    try {
+      const response = await fetch(`/api/gift-cards/${encodeURIComponent(code)}/balance`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result?.error || "Gift card not found");
+      }
+      if (result.status !== "active" || result.balance <= 0) {
+        throw new Error(result.status === "voided" ? "This gift card has been voided" : "This gift card has no balance left");
+      }
+      setGiftCard(result);
+      setGiftCardToUse(String(Math.min(result.balance, dueAfterStoreCredit)));
+    } catch (error: any) {
+      setGiftCard(null);
+      toast({
+        title: "Gift card not accepted",
+        description: error.message || "Gift card not found",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCheckingGiftCard(false);
+    }
+  };
+
+  const handleApplyPromo = async () => {
+    const code = promoCode.trim().toUpperCase();
+    if (!code) return;
+
+    setIsApplyingPromo(true);
+    try {
+      await fetchQuote({ promoCode: code });
+      setAppliedPromoCode(code);
+      toast({
+        title: "Promo code applied",
+        description: `${code} has been applied to your order.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Invalid promo code",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  };
+
+  const handleToggleVoucher = async (code: string) => {
+    if (rewardCodes.includes(code)) {
+      setRewardCodes(rewardCodes.filter(c => c !== code));
+      return;
+    }
+    setApplyingVoucher(code);
+    try {
+      const codes = [...rewardCodes, code];
+      await fetchQuote({ promoCode: appliedPromoCode, rewardCodes: codes });
+      setRewardCodes(codes);
+    } catch (error: any) {
+      toast({
+        title: "Voucher could not be applied",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setApplyingVoucher(null);
+    }
+  };
 
   const handleCheckout = async () => {
     if (!customerName || !customerPhone) {
@@ -85,6 +258,24 @@ export default function CustomerCheckout() {
     setIsProcessing(true);
 
     try {
+      // Re-price with the delivery address so the submitted totals match what the server charges
+      const finalPricing = await fetchQuote({
+        promoCode: appliedPromoCode,
+        customerAddress: orderInfo.orderType === "delivery" ? customerAddress : undefined,
+        rewardCodes,
+      });
+      if (!amountsMatch(finalPricing.total, total)) {
+        queryClient.setQueryData(
+          ["/api/orders/quote", orderInfo.branchId, orderInfo.orderType, cartData.items, appliedPromoCode, rewardCodes],
+          finalPricing
+        );
+        toast({
+          title: "Order total updated",
+          description: "Delivery charges were updated for your address. Please review your order.",
+        });
+        return;
+      }
+
       const orderPayload = {
         customerName,
         customerPhone,
@@ -94,19 +285,33 @@ export default function CustomerCheckout() {
         orderSource: "online",
         paymentMethod,
         branchId: orderInfo.branchId,
-        items: JSON.stringify(cartItems),
-        subtotal: subtotal.toString(),
-        deliveryCharges: deliveryCharges.toString(),
-        total: total.toString(),
+        items: JSON.stringify(finalPricing.items),
+        subtotal: finalPricing.subtotal.toString(),
+        discount: finalPricing.discount.toString(),
+        tax: finalPricing.tax.toString(),
+        deliveryCharges: finalPricing.deliveryCharges.toString(),
+        total: finalPricing.total.toString(),
+        promoCode: appliedPromoCode || undefined,
+        loyaltyPointsToRedeem: redeemPoints > 0 ? redeemPoints : undefined,
+        storeCreditAmount: storeCreditAmount > 0 ? storeCreditAmount : undefined,
+        giftCardCode: giftCardAmount > 0 ? giftCard!.code : undefined,
+        giftCardAmount: giftCardAmount > 0 ? giftCardAmount : undefined,
+        rewardCodes: rewardCodes.length > 0 ? rewardCodes : undefined,
         notes,
       };
 
-      const response = await apiRequest("POST", "/api/orders", orderPayload) as any;
+      const response = await (await apiRequest("/api/orders", "POST", orderPayload)).json();
 
       // Clear cart
       localStorage.removeItem("kebabish-cart");
 
-      if (paymentMethod === "stripe") {
+      if (paidWithTenders) {
+        toast({
+          title: "Order placed successfully",
+          description: `Order #${response.orderNumber} is paid in full`,
+        });
+        setLocation(`/account/orders`);
+      } else if (paymentMethod === "stripe") {
         // Redirect to Stripe checkout
         window.location.href = response.checkoutUrl;
       } else if (paymentMethod === "jazzcash") {
@@ -187,25 +392,168 @@ export default function CustomerCheckout() {
               </div>
             </Card>
 
-            {/* Payment Method */}
-            <Card className="p-6" data-testid="card-payment-method">
-              <h2 className="text-xl font-semibold mb-4" data-testid="text-payment-method">Payment Method</h2>
-              <RadioGroup value={paymentMethod} onValueChange={setPaymentMethod} data-testid="radio-payment-method">
-                <div className="flex items-center space-x-2 mb-4">
-                  <RadioGroupItem value="cash" id="cash" data-testid="radio-payment-cash" />
-                  <Label htmlFor="cash" className="cursor-pointer">Cash on Delivery</Label>
+            {/* Payment Method - not needed once points, store credit or a gift card pay for everything */}
+            {!paidWithTenders && (
+              <Card className="p-6" data-testid="card-payment-method">
+                <h2 className="text-xl font-semibold mb-4" data-testid="text-payment-method">Payment Method</h2>
+                <RadioGroup value={paymentMethod} onValueChange={setPaymentMethod} data-testid="radio-payment-method">
+                  <div className="flex items-center space-x-2 mb-4">
+                    <RadioGroupItem value="cash" id="cash" data-testid="radio-payment-cash" />
+                    <Label htmlFor="cash" className="cursor-pointer">Cash on Delivery</Label>
+                  </div>
+                  <div className="flex items-center space-x-2 mb-4">
+                    <RadioGroupItem value="card" id="card" data-testid="radio-payment-card" />
+                    <Label htmlFor="card" className="cursor-pointer">Credit/Debit Card (Stripe)</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="jazzcash" id="jazzcash" data-testid="radio-payment-jazzcash" />
+                    <Label htmlFor="jazzcash" className="cursor-pointer">JazzCash</Label>
+                  </div>
+                </RadioGroup>
+              </Card>
+            )}
+
+            {/* Loyalty Points */}
+            {isCustomer && canUsePoints && (
+              <Card className="p-6" data-testid="card-loyalty-points">
+                <h2 className="text-xl font-semibold mb-1 flex items-center gap-2" data-testid="text-loyalty-points">
+                  <Gift className="w-5 h-5" />
+                  Pay with Points
+                </h2>
+                <p className="text-sm text-muted-foreground mb-4" data-testid="text-points-available">
+                  You have {pointsTender!.availablePoints} points · {pointsTender!.redemptionRate === 1 ? "1 point" : `${pointsTender!.redemptionRate} points`} = {formatCurrency(1)}
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    max={pointsTender!.maxPoints}
+                    value={pointsToUse}
+                    onChange={(e) => setPointsToUse(e.target.value)}
+                    placeholder={`Up to ${pointsTender!.maxPoints} points`}
+                    data-testid="input-points-to-use"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => setPointsToUse(String(pointsTender!.maxPoints))}
+                    data-testid="button-use-max-points"
+                  >
+                    Use {pointsTender!.maxPoints}
+                  </Button>
                 </div>
-                <div className="flex items-center space-x-2 mb-4">
-                  <RadioGroupItem value="card" id="card" data-testid="radio-payment-card" />
-                  <Label htmlFor="card" className="cursor-pointer">Credit/Debit Card (Stripe)</Label>
+                {redeemPoints > 0 && (
+                  <p className="text-sm text-green-600 mt-3" data-testid="text-points-applied">
+                    {redeemPoints} points pay {formatCurrency(pointsAmount)}{paidWithTenders ? " - nothing left to pay" : ""}
+                  </p>
+                )}
+              </Card>
+            )}
+
+            {/* Store Credit */}
+            {isCustomer && canUseStoreCredit && (
+              <Card className="p-6" data-testid="card-store-credit">
+                <h2 className="text-xl font-semibold mb-1 flex items-center gap-2" data-testid="text-store-credit">
+                  <Wallet className="w-5 h-5" />
+                  Pay with Store Credit
+                </h2>
+                <p className="text-sm text-muted-foreground mb-4" data-testid="text-store-credit-available">
+                  You have {formatCurrency(storeCreditTender!.balance)} in store credit
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={storeCreditToUse}
+                    onChange={(e) => setStoreCreditToUse(e.target.value)}
+                    placeholder={`Up to ${formatCurrency(Math.min(storeCreditTender!.balance, dueAfterPoints))}`}
+                    data-testid="input-store-credit-to-use"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => setStoreCreditToUse(String(Math.min(storeCreditTender!.balance, dueAfterPoints)))}
+                    data-testid="button-use-max-store-credit"
+                  >
+                    Use max
+                  </Button>
                 </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="jazzcash" id="jazzcash" data-testid="radio-payment-jazzcash" />
-                  <Label htmlFor="jazzcash" className="cursor-pointer">JazzCash</Label>
+              </Card>
+            )}
+
+            {/* Gift Card */}
+            <Card className="p-6" data-testid="card-gift-card">
+              <h2 className="text-xl font-semibold mb-4 flex items-center gap-2" data-testid="text-gift-card">
+                <CreditCard className="w-5 h-5" />
+                Gift Card
+              </h2>
+              <div className="flex gap-2">
+                <Input
+                  value={giftCardCode}
+                  onChange={(e) => {
+                    setGiftCardCode(e.target.value.toUpperCase());
+                    setGiftCard(null);
+                  }}
+                  placeholder="GC-XXXX-XXXX-XXXX-XXXX"
+                  data-testid="input-gift-card-code"
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleCheckGiftCard}
+                  disabled={!giftCardCode.trim() || isCheckingGiftCard}
+                  data-testid="button-check-gift-card"
+                >
+                  {isCheckingGiftCard ? <Loader2 className="w-4 h-4 animate-spin" /> : "Apply"}
+                </Button>
+              </div>
+              {giftCard && (
+                <div className="mt-4 space-y-2">
+                  <p className="text-sm text-muted-foreground" data-testid="text-gift-card-balance">
+                    Card balance {formatCurrency(giftCard.balance)}
+                  </p>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={giftCardToUse}
+                    onChange={(e) => setGiftCardToUse(e.target.value)}
+                    data-testid="input-gift-card-amount"
+                  />
                 </div>
-              </RadioGroup>
+              )}
             </Card>
 
+            {/* Reward Vouchers */}
+            {isCustomer && usableVouchers.length > 0 && (
+              <Card className="p-6" data-testid="card-reward-vouchers">
+                <h2 className="text-xl font-semibold mb-4 flex items-center gap-2" data-testid="text-reward-vouchers">
+                  <Ticket className="w-5 h-5" />
+                  Your Rewards
+                </h2>
+                <div className="space-y-2">
+                  {usableVouchers.map(voucher => {
+                    const applied = rewardCodes.includes(voucher.code);
+                    return (
+                      <div key={voucher.id} className="flex items-center justify-between text-sm" data-testid={`row-voucher-${voucher.id}`}>
+                        <div>
+                          <div className="font-medium">{voucher.reward?.name || "Reward"}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{voucher.code}</div>
+                        </div>
+                        <Button
+                          variant={applied ? "ghost" : "outline"}
+                          size="sm"
+                          onClick={() => handleToggleVoucher(voucher.code)}
+                          disabled={applyingVoucher !== null}
+                          data-testid={`button-voucher-${voucher.id}`}
+                        >
+                          {applyingVoucher === voucher.code ? <Loader2 className="w-4 h-4 animate-spin" /> : applied ? "Remove" : "Apply"}
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Card>
+            )}
+
             {/* Special Instructions */}
             <Card className="p-6" data-testid="card-instructions">
               <h2 className="text-xl font-semibold mb-4" data-testid="text-special-instructions">Special Instructions</h2>
@@ -227,8 +575,28 @@ export default function CustomerCheckout() {
                   placeholder="Enter promo code"
                   data-testid="input-promo-code"
                 />
-                <Button variant="outline" disabled data-testid="button-apply-promo">Apply</Button>
+                <Button
+                  variant="outline"
+                  onClick={handleApplyPromo}
+                  disabled={!promoCode.trim() || isApplyingPromo}
+                  data-testid="button-apply-promo"
+                >
+                  {isApplyingPromo ? <Loader2 className="w-4 h-4 animate-spin" /> : "Apply"}
+                </Button>
               </div>
+              {appliedPromoCode && (
+                <div className="flex items-center justify-between mt-3 text-sm" data-testid="text-applied-promo">
+                  <span className="text-green-600">{appliedPromoCode} applied</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setAppliedPromoCode(null)}
+                    data-testid="button-remove-promo"
+                  >
+                    Remove
+                  </Button>
+                </div>
+              )}
             </Card>
           </div>
 
@@ -256,6 +624,12 @@ export default function CustomerCheckout() {
                     </div>
                   </div>
                 ))}
+                {pricing?.items.filter(line => line.rewardClaimId).map((line) => (
+                  <div key={line.rewardClaimId} className="flex justify-between text-sm text-green-600" data-testid={`row-reward-item-${line.rewardClaimId}`}>
+                    <div className="font-medium">{line.name}</div>
+                    <div className="font-semibold">Free</div>
+                  </div>
+                ))}
               </div>
 
               <div className="border-t pt-4 space-y-2">
@@ -275,16 +649,64 @@ export default function CustomerCheckout() {
                     <span className="font-semibold" data-testid="text-discount-value">-{formatCurrency(discount)}</span>
                   </div>
                 )}
+                {pricing?.promotions.map(promotion => (
+                  <div key={promotion.promoCodeId} className="text-sm text-green-600 space-y-1" data-testid={`text-promotion-${promotion.code}`}>
+                    <div>{promotion.code}: {promotion.reason}</div>
+                    {promotion.lines.map(line => (
+                      <div key={line.lineIndex} className="flex justify-between text-muted-foreground" data-testid={`row-promotion-line-${promotion.code}-${line.lineIndex}`}>
+                        <span>{line.quantity}x {line.name}</span>
+                        <span>-{formatCurrency(line.discount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+                {pricing?.rejectedPromotions.map(rejection => (
+                  <div key={rejection.promoCodeId} className="text-xs text-muted-foreground" data-testid={`text-rejected-promotion-${rejection.code}`}>
+                    {rejection.reason}
+                  </div>
+                ))}
+                {tax > 0 && (
+                  <div className="flex justify-between" data-testid="row-tax">
+                    <span data-testid="text-tax-label">Tax</span>
+                    <span className="font-semibold" data-testid="text-tax-value">{formatCurrency(tax)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-lg font-bold border-t pt-2" data-testid="row-total">
                   <span data-testid="text-total-label">Total</span>
                   <span data-testid="text-total-value">{formatCurrency(total)}</span>
                 </div>
+                {tendersAmount > 0 && (
+                  <>
+                    {pointsAmount > 0 && (
+                      <div className="flex justify-between text-green-600" data-testid="row-points">
+                        <span data-testid="text-points-label">Paid with {redeemPoints} points</span>
+                        <span className="font-semibold" data-testid="text-points-value">-{formatCurrency(pointsAmount)}</span>
+                      </div>
+                    )}
+                    {storeCreditAmount > 0 && (
+                      <div className="flex justify-between text-green-600" data-testid="row-store-credit">
+                        <span>Store credit</span>
+                        <span className="font-semibold" data-testid="text-store-credit-value">-{formatCurrency(storeCreditAmount)}</span>
+                      </div>
+                    )}
+                    {giftCardAmount > 0 && (
+                      <div className="flex justify-between text-green-600" data-testid="row-gift-card">
+                        <span>Gift card {giftCard!.code}</span>
+                        <span className="font-semibold" data-testid="text-gift-card-value">-{formatCurrency(giftCardAmount)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between font-bold" data-testid="row-amount-to-pay">
+                      <span>To Pay</span>
+                      <span data-testid="text-amount-to-pay">{formatCurrency(amountToPay)}</span>
+                    </div>
+                  </>
+                )}
               </div>
 
               <Button 
                 className="w-full mt-6 h-12 text-lg"
                 onClick={handleCheckout}
-                disabled={isProcessing}
+                disabled={isProcessing || isPricingLoading || !pricing}
                 data-testid="button-place-order"
               >
                 {isProcessing ? (
@@ -17,6 +17,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Input } from "@/components/ui/input";
 import { Search, TrendingUp } from "lucide-react";
 import type { MenuItem as DBMenuItem, Category, Branch } from "@shared/schema";
+import type { OrderPricing } from "@shared/pricing";
 
 import burgerImage from "@assets/generated_images/Gourmet_burger_hero_image_fed670c3.png";
 import friesImage from "@assets/generated_images/French_fries_menu_item_798d4b73.png";
@@ -353,9 +354,6 @@ export default function CustomerHome() {
     // Generate order number
     const orderNumber = `ORD-${Date.now().toString().slice(-8)}`;
 
-    // Calculate amounts
-    const subtotal = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
-    
     // Validate required data
     if (!selectedBranchId) {
       console.error("Missing branchId - cannot create order");
@@ -367,24 +365,24 @@ export default function CustomerHome() {
       return;
     }
 
-    // Calculate delivery charges dynamically
-    let deliveryCharges = 0;
-    if (orderType === "delivery") {
-      try {
-        const response = await apiRequest("/api/delivery-charges/calculate", "POST", {
-          branchId: selectedBranchId,
-          orderAmount: subtotal,
-        });
-        const result = await response.json();
-        deliveryCharges = result.freeDelivery ? 0 : result.deliveryCharges;
-      } catch (error) {
-        console.error("Failed to calculate delivery charges:", error);
-        // Fallback to default delivery charge if calculation fails
-        deliveryCharges = 50;
-      }
+    // Get server-calculated totals (menu prices, tax and delivery charges)
+    let pricing: OrderPricing;
+    try {
+      const response = await apiRequest("/api/orders/quote", "POST", {
+        branchId: selectedBranchId,
+        orderType: orderType === "pickup" ? "takeaway" : "delivery",
+        items: cartItems,
+        customerAddress: orderDetails.customerAddress || undefined,
+      });
+      pricing = await response.json();
+    } catch (error: any) {
+      toast({
+        title: "Error placing order",
+        description: error.message || "Failed to calculate order total. Please try again.",
+        variant: "destructive",
+      });
+      return;
     }
-    
-    const total = subtotal + deliveryCharges;
 
     // Prepare order data - required fields only, add optional fields conditionally
     const orderData: Record<string, any> = {
@@ -394,10 +392,11 @@ export default function CustomerHome() {
       customerPhone: orderDetails.customerPhone,
       orderType: orderType === "pickup" ? "takeaway" : "delivery",
       paymentMethod: orderDetails.paymentMethod,
-      items: JSON.stringify(cartItems),
-      subtotal,
-      deliveryCharges,
-      total,
+      items: JSON.stringify(pricing.items),
+      subtotal: pricing.subtotal,
+      tax: pricing.tax,
+      deliveryCharges: pricing.deliveryCharges,
+      total: pricing.total,
       status: "pending",
     };
 
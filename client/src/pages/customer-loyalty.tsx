@@ -1,37 +1,126 @@
-import { useState } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { useSocketEvent } from "@/context/SocketContext";
 import CustomerHeader from "@/components/CustomerHeader";
 import Footer from "@/components/Footer";
-import { Award, TrendingUp, TrendingDown, ChevronLeft, Gift } from "lucide-react";
-import { format } from "date-fns";
+import { Award, TrendingUp, TrendingDown, ChevronLeft, Gift, Crown, Check, Clock, Ticket, Stamp, Users, Copy } from "lucide-react";
+import { format, differenceInCalendarDays } from "date-fns";
+
+interface TierLevel {
+  code: string;
+  name: string;
+  threshold: number;
+  earnMultiplier: number;
+  freeDelivery: boolean;
+  perks: string[];
+}
 
 interface LoyaltyData {
-  balance: number;
+  availablePoints: number;
+  lifetimeEarned: number;
+  redemptionRate: number; // Points worth Rs. 1
+  tierProgress: {
+    metric: "lifetime_points" | "rolling_spend" | "order_count";
+    value: number;
+    tier: TierLevel;
+    nextTier: TierLevel | null;
+    remaining: number;
+    progress: number;
+    tiers: TierLevel[];
+  };
+  pointsExpiry: {
+    warningDays: number;
+    expiries: Array<{ expiresAt: string; points: number }>;
+  };
 }
 
 interface LoyaltyTransaction {
   id: string;
-  type: "earn" | "redeem";
+  transactionType: string; // earn, redeem, restore, expire, bonus, adjustment, reversal, tier_change
   points: number;
   description: string;
   createdAt: string;
 }
 
+interface RewardOffer {
+  id: string;
+  name: string;
+  description: string | null;
+  rewardType: "free_item" | "free_delivery";
+  pointsCost: number;
+  remaining: number | null;
+  validUntil: string | null;
+  menuItemName: string | null;
+}
+
+interface RewardVoucher {
+  id: string;
+  code: string;
+  state: "available" | "used" | "expired";
+  pointsSpent: number;
+  expiresAt: string | null;
+  createdAt: string;
+  reward: { name: string; rewardType: string } | null;
+}
+
+interface StampCardProgress {
+  id: string;
+  name: string;
+  description: string | null;
+  stampsRequired: number;
+  rewardMenuItemName: string | null;
+  stamps: number;
+  cardsCompleted: number;
+}
+
+interface ReferralSummary {
+  code: string;
+  enabled: boolean;
+  referrerReward: string;
+  refereeReward: string;
+  invited: number;
+  rewarded: number;
+  pending: number;
+}
+
+interface CustomerNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  createdAt: string;
+}
+
+const VOUCHER_STATE_LABELS: Record<RewardVoucher["state"], string> = {
+  available: "Ready to use",
+  used: "Used",
+  expired: "Expired",
+};
+
+// How the qualifying value reads for each tier metric
+function formatTierValue(metric: LoyaltyData["tierProgress"]["metric"], value: number) {
+  if (metric === "rolling_spend") return `₨${Math.round(value).toLocaleString()}`;
+  if (metric === "order_count") return `${value} ${value === 1 ? "order" : "orders"}`;
+  return `${value} points`;
+}
+
+const METRIC_DESCRIPTIONS = {
+  lifetime_points: "Tiers are based on the points you have earned",
+  rolling_spend: "Tiers are based on what you have spent in the last 12 months",
+  order_count: "Tiers are based on the orders you have placed in the last 12 months",
+};
+
 export default function CustomerLoyalty() {
   const { user, isAuthenticated } = useAuth();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const [isRedeemDialogOpen, setIsRedeemDialogOpen] = useState(false);
-  const [redeemPoints, setRedeemPoints] = useState("");
 
   if (!isAuthenticated || user?.role !== "customer") {
     setLocation("/login");
@@ -39,42 +128,109 @@ export default function CustomerLoyalty() {
   }
 
   const { data: loyaltyData } = useQuery<LoyaltyData>({
-    queryKey: [`/api/customers/${user.id}/loyalty-points`],
+    queryKey: [`/api/customers/${user.id}/loyalty`],
   });
 
   const { data: transactions = [], isLoading } = useQuery<LoyaltyTransaction[]>({
-    queryKey: [`/api/customers/${user.id}/loyalty-points/history`],
+    queryKey: [`/api/customers/${user.id}/loyalty/transactions`],
+  });
+
+  const { data: rewards = [] } = useQuery<RewardOffer[]>({
+    queryKey: ["/api/loyalty/rewards"],
+  });
+
+  const { data: vouchers = [] } = useQuery<RewardVoucher[]>({
+    queryKey: [`/api/customers/${user.id}/loyalty/vouchers`],
+  });
+
+  const { data: stampCards = [] } = useQuery<StampCardProgress[]>({
+    queryKey: [`/api/customers/${user.id}/loyalty/stamps`],
+  });
+
+  const { data: referral } = useQuery<ReferralSummary>({
+    queryKey: [`/api/customers/${user.id}/referral`],
+  });
+
+  const copyInviteLink = (code: string) => {
+    navigator.clipboard.writeText(`${window.location.origin}/signup?ref=${code}`);
+    toast({ title: "Copied!", description: "Invite link copied to clipboard" });
+  };
+
+  // Warnings sent while the customer was away (e.g. points about to expire) stay until dismissed
+  const { data: notifications = [] } = useQuery<CustomerNotification[]>({
+    queryKey: [`/api/customers/${user.id}/notifications`],
   });
 
-  const redeemMutation = useMutation({
-    mutationFn: (points: number) =>
-      apiRequest(`/api/customers/${user.id}/loyalty-points/redeem`, "POST", { points }),
+  const dismissMutation = useMutation({
+    mutationFn: async (notificationId: string) => {
+      const res = await apiRequest(`/api/customers/${user.id}/notifications/${notificationId}/read`, "POST");
+      return await res.json();
+    },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/loyalty-points`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/loyalty-points/history`] });
-      toast({ title: "Success", description: "Points redeemed successfully" });
-      setIsRedeemDialogOpen(false);
-      setRedeemPoints("");
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/notifications`] });
+    },
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async (rewardId: string) => {
+      const res = await apiRequest(`/api/loyalty/rewards/${rewardId}/claim`, "POST");
+      return await res.json();
+    },
+    onSuccess: (claim: { code: string }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/loyalty`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/loyalty/transactions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/loyalty/vouchers`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/loyalty/rewards"] });
+      toast({ title: "Reward claimed", description: `Your voucher code is ${claim.code}. Apply it at checkout.` });
     },
     onError: (error: Error) => {
-      toast({ title: "Error", description: error.message, variant: "destructive" });
+      toast({ title: "Could not claim reward", description: error.message, variant: "destructive" });
     },
   });
 
-  const handleRedeem = () => {
-    const points = parseInt(redeemPoints);
-    if (isNaN(points) || points <= 0) {
-      toast({ title: "Error", description: "Please enter a valid number of points", variant: "destructive" });
-      return;
-    }
-    if (points > (loyaltyData?.balance || 0)) {
-      toast({ title: "Error", description: "Insufficient points", variant: "destructive" });
-      return;
-    }
-    redeemMutation.mutate(points);
-  };
+  // Promotions and demotions are sent to this customer's user room
+  useSocketEvent<{ tierName: string; promoted: boolean; perks: string[] }>("loyalty:tierChanged", (data) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/loyalty`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/loyalty/transactions`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/notifications`] });
+    toast({
+      title: data.promoted ? `Welcome to ${data.tierName}!` : `You are now a ${data.tierName} member`,
+      description: data.perks.length > 0 ? data.perks.join(" · ") : undefined,
+    });
+  });
 
-  const pointsValue = (loyaltyData?.balance || 0) * 1; // 1 point = Rs. 1
+  useSocketEvent<{ cardName: string; codes: string[] }>("loyalty:stampCardCompleted", (data) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/loyalty/stamps`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/loyalty/vouchers`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/notifications`] });
+    toast({
+      title: `${data.cardName} complete!`,
+      description: `Your free item voucher: ${data.codes.join(", ")}`,
+    });
+  });
+
+  useSocketEvent<{ role: "referrer" | "referee"; refereeName?: string; reward: string }>("loyalty:referralRewarded", (data) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/loyalty`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/loyalty/transactions`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/referral`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/notifications`] });
+    toast({
+      title: data.role === "referrer" ? `${data.refereeName} placed their first order!` : "Welcome reward unlocked",
+      description: `You earned ${data.reward}`,
+    });
+  });
+
+  useSocketEvent<{ points: number; expiresAt: string }>("loyalty:pointsExpiring", (data) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/loyalty`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/notifications`] });
+    toast({
+      title: `${data.points} points expiring soon`,
+      description: `Use them before ${format(new Date(data.expiresAt), "PP")}`,
+    });
+  });
+
+  const redemptionRate = loyaltyData?.redemptionRate || 1;
+  const pointsValue = (loyaltyData?.availablePoints || 0) / redemptionRate;
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
@@ -98,6 +254,29 @@ export default function CustomerLoyalty() {
             </div>
           </div>
 
+          {notifications.map((notification) => (
+            <Card key={notification.id} className="border-primary/40" data-testid={`card-notification-${notification.id}`}>
+              <CardContent className="flex items-center justify-between gap-4 py-4">
+                <div className="flex items-center gap-3">
+                  <Clock className="h-5 w-5 text-primary" />
+                  <div>
+                    <p className="font-medium">{notification.title}</p>
+                    <p className="text-sm text-muted-foreground">{notification.message}</p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => dismissMutation.mutate(notification.id)}
+                  disabled={dismissMutation.isPending}
+                  data-testid={`button-dismiss-notification-${notification.id}`}
+                >
+                  Dismiss
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+
           {/* Points Balance Card */}
           <Card className="bg-gradient-to-br from-primary/10 to-primary/5">
             <CardHeader>
@@ -105,7 +284,7 @@ export default function CustomerLoyalty() {
                 <div>
                   <CardDescription>Available Points</CardDescription>
                   <CardTitle className="text-4xl mt-2" data-testid="text-points-balance">
-                    {loyaltyData?.balance || 0}
+                    {loyaltyData?.availablePoints || 0}
                   </CardTitle>
                   <p className="text-sm text-muted-foreground mt-1" data-testid="text-points-value">
                     Worth ₨{pointsValue.toFixed(2)}
@@ -116,16 +295,236 @@ export default function CustomerLoyalty() {
             </CardHeader>
             <CardContent>
               <Button 
-                onClick={() => setIsRedeemDialogOpen(true)}
-                disabled={!loyaltyData || loyaltyData.balance <= 0}
+                onClick={() => setLocation("/")}
+                disabled={!loyaltyData || loyaltyData.availablePoints <= 0}
                 data-testid="button-redeem-points"
               >
                 <Gift className="h-4 w-4 mr-2" />
-                Redeem Points
+                Use Points on an Order
               </Button>
+              <p className="text-xs text-muted-foreground mt-2">Choose how many points to use when you check out</p>
             </CardContent>
           </Card>
 
+          {/* Expiring Points */}
+          {loyaltyData && loyaltyData.pointsExpiry.expiries.length > 0 && (
+            <Card data-testid="card-points-expiry">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Clock className="h-5 w-5" />
+                  Expiring Points
+                </CardTitle>
+                <CardDescription>Points are used oldest first</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {loyaltyData.pointsExpiry.expiries.slice(0, 5).map((expiry) => {
+                  const daysLeft = differenceInCalendarDays(new Date(expiry.expiresAt), new Date());
+                  const isSoon = daysLeft <= loyaltyData.pointsExpiry.warningDays;
+                  return (
+                    <div key={expiry.expiresAt} className="flex items-center justify-between text-sm" data-testid={`row-expiry-${expiry.expiresAt}`}>
+                      <span className={isSoon ? "text-red-600 font-medium" : ""}>
+                        {expiry.points} points
+                      </span>
+                      <span className={isSoon ? "text-red-600" : "text-muted-foreground"}>
+                        {format(new Date(expiry.expiresAt), "PP")}
+                        {isSoon && ` (${daysLeft <= 0 ? "today" : `${daysLeft} ${daysLeft === 1 ? "day" : "days"} left`})`}
+                      </span>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Tier Card */}
+          {loyaltyData && (
+            <Card data-testid="card-loyalty-tier">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardDescription>Your Tier</CardDescription>
+                    <CardTitle className="text-2xl mt-1 flex items-center gap-2" data-testid="text-loyalty-tier">
+                      <Crown className="h-6 w-6 text-yellow-600" />
+                      {loyaltyData.tierProgress.tier.name}
+                    </CardTitle>
+                  </div>
+                  {loyaltyData.tierProgress.tier.earnMultiplier !== 1 && (
+                    <Badge variant="secondary" data-testid="badge-earn-multiplier">
+                      {loyaltyData.tierProgress.tier.earnMultiplier}x points
+                    </Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {loyaltyData.tierProgress.tier.perks.length > 0 && (
+                  <div className="space-y-1">
+                    {loyaltyData.tierProgress.tier.perks.map((perk) => (
+                      <p key={perk} className="text-sm flex items-center gap-2">
+                        <Check className="h-4 w-4 text-green-600" />
+                        {perk}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {loyaltyData.tierProgress.nextTier ? (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span>{formatTierValue(loyaltyData.tierProgress.metric, loyaltyData.tierProgress.value)}</span>
+                      <span className="text-muted-foreground">
+                        {loyaltyData.tierProgress.nextTier.name} at {formatTierValue(loyaltyData.tierProgress.metric, loyaltyData.tierProgress.nextTier.threshold)}
+                      </span>
+                    </div>
+                    <Progress value={loyaltyData.tierProgress.progress} data-testid="progress-next-tier" />
+                    <p className="text-sm text-muted-foreground" data-testid="text-next-tier">
+                      {formatTierValue(loyaltyData.tierProgress.metric, loyaltyData.tierProgress.remaining)} more to reach {loyaltyData.tierProgress.nextTier.name}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground" data-testid="text-next-tier">
+                    You are in our highest tier
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {METRIC_DESCRIPTIONS[loyaltyData.tierProgress.metric]}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Stamp Cards */}
+          {stampCards.length > 0 && (
+            <div>
+              <h2 className="text-2xl font-bold mb-4" data-testid="text-stamp-cards-title">Stamp Cards</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {stampCards.map((card) => (
+                  <Card key={card.id} data-testid={`card-stamp-card-${card.id}`}>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <Stamp className="h-5 w-5" />
+                        {card.name}
+                      </CardTitle>
+                      <CardDescription>
+                        {card.description || `Collect ${card.stampsRequired} stamps for a free ${card.rewardMenuItemName || "item"}`}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      <div className="flex flex-wrap gap-1" data-testid={`stamps-${card.id}`}>
+                        {Array.from({ length: card.stampsRequired }, (_, i) => (
+                          <div
+                            key={i}
+                            className={`h-6 w-6 rounded-full border-2 ${i < card.stamps ? "bg-primary border-primary" : "border-muted-foreground/30"}`}
+                          />
+                        ))}
+                      </div>
+                      <p className="text-sm text-muted-foreground" data-testid={`text-stamps-${card.id}`}>
+                        {card.stamps} of {card.stampsRequired} stamps
+                        {card.cardsCompleted > 0 && ` · ${card.cardsCompleted} ${card.cardsCompleted === 1 ? "card" : "cards"} completed`}
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Rewards Catalogue */}
+          {rewards.length > 0 && (
+            <div>
+              <h2 className="text-2xl font-bold mb-4" data-testid="text-rewards-title">Rewards</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {rewards.map((reward) => {
+                  const affordable = (loyaltyData?.availablePoints || 0) >= reward.pointsCost;
+                  return (
+                    <Card key={reward.id} data-testid={`card-reward-${reward.id}`}>
+                      <CardHeader className="pb-2">
+                        <div className="flex items-start justify-between gap-2">
+                          <CardTitle className="text-lg">{reward.name}</CardTitle>
+                          <Badge variant="secondary">{reward.pointsCost} points</Badge>
+                        </div>
+                        {reward.description && <CardDescription>{reward.description}</CardDescription>}
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        <div className="text-xs text-muted-foreground space-y-1">
+                          {reward.remaining !== null && <p>{reward.remaining} left</p>}
+                          {reward.validUntil && <p>Claim by {format(new Date(reward.validUntil), "PP")}</p>}
+                        </div>
+                        <Button
+                          size="sm"
+                          onClick={() => claimMutation.mutate(reward.id)}
+                          disabled={!affordable || claimMutation.isPending}
+                          data-testid={`button-claim-reward-${reward.id}`}
+                        >
+                          <Gift className="h-4 w-4 mr-2" />
+                          {affordable ? "Claim" : `${reward.pointsCost - (loyaltyData?.availablePoints || 0)} more points needed`}
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Claimed Vouchers */}
+          {vouchers.length > 0 && (
+            <Card data-testid="card-vouchers">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Ticket className="h-5 w-5" />
+                  My Vouchers
+                </CardTitle>
+                <CardDescription>Rewards you have claimed and free items from full stamp cards. Apply a voucher at checkout, or show its code at the counter.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {vouchers.map((voucher) => (
+                  <div key={voucher.id} className="flex items-center justify-between text-sm" data-testid={`row-voucher-${voucher.id}`}>
+                    <div>
+                      <p className="font-medium">{voucher.reward?.name || "Reward"}</p>
+                      <p className="font-mono text-muted-foreground" data-testid={`text-voucher-code-${voucher.id}`}>{voucher.code}</p>
+                    </div>
+                    <div className="text-right">
+                      <Badge variant={voucher.state === "available" ? "default" : "secondary"}>
+                        {VOUCHER_STATE_LABELS[voucher.state]}
+                      </Badge>
+                      {voucher.state === "available" && voucher.expiresAt && (
+                        <p className="text-xs text-muted-foreground mt-1">Use by {format(new Date(voucher.expiresAt), "PP")}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Invite Friends */}
+          {referral?.enabled && (
+            <Card data-testid="card-referral">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Users className="h-5 w-5" />
+                  Invite Friends
+                </CardTitle>
+                <CardDescription>
+                  Friends who sign up with your code get {referral.refereeReward}, and you get {referral.referrerReward} once their first order is paid and completed.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <span className="font-mono text-2xl font-bold tracking-wider" data-testid="text-referral-code">{referral.code}</span>
+                  <Button variant="outline" size="sm" onClick={() => copyInviteLink(referral.code)} data-testid="button-copy-referral">
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy invite link
+                  </Button>
+                </div>
+                <div className="flex gap-6 text-sm text-muted-foreground">
+                  <span data-testid="text-referrals-invited">{referral.invited} joined</span>
+                  <span data-testid="text-referrals-pending">{referral.pending} awaiting first order</span>
+                  <span data-testid="text-referrals-rewarded">{referral.rewarded} rewarded</span>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* How It Works Card */}
           <Card>
             <CardHeader>
@@ -133,8 +532,11 @@ export default function CustomerLoyalty() {
             </CardHeader>
             <CardContent className="space-y-2">
               <p className="text-sm text-muted-foreground">• Earn 1 point for every ₨100 spent</p>
-              <p className="text-sm text-muted-foreground">• Redeem points for discounts on future orders</p>
-              <p className="text-sm text-muted-foreground">• 1 point = ₨1 discount</p>
+              <p className="text-sm text-muted-foreground">• Pay for part or all of an order with points at checkout</p>
+              <p className="text-sm text-muted-foreground">• Swap points for rewards like free items and free delivery</p>
+              <p className="text-sm text-muted-foreground">• Fill a stamp card for a free item</p>
+              <p className="text-sm text-muted-foreground">• Reach higher tiers for bonus points and perks</p>
+              <p className="text-sm text-muted-foreground">• {redemptionRate === 1 ? "1 point" : `${redemptionRate} points`} = ₨1</p>
             </CardContent>
           </Card>
 
@@ -159,7 +561,11 @@ export default function CustomerLoyalty() {
                     <CardHeader className="py-4">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-3">
-                          {transaction.type === "earn" ? (
+                          {transaction.transactionType === "tier_change" ? (
+                            <div className="h-10 w-10 rounded-full bg-yellow-100 dark:bg-yellow-950 flex items-center justify-center">
+                              <Crown className="h-5 w-5 text-yellow-600" data-testid={`icon-tier-${transaction.id}`} />
+                            </div>
+                          ) : transaction.points >= 0 ? (
                             <div className="h-10 w-10 rounded-full bg-green-100 dark:bg-green-950 flex items-center justify-center">
                               <TrendingUp className="h-5 w-5 text-green-600" data-testid={`icon-earn-${transaction.id}`} />
                             </div>
@@ -177,9 +583,11 @@ export default function CustomerLoyalty() {
                             </p>
                           </div>
                         </div>
-                        <p className={`text-lg font-bold ${transaction.type === "earn" ? "text-green-600" : "text-red-600"}`} data-testid={`text-points-${transaction.id}`}>
-                          {transaction.type === "earn" ? "+" : "-"}{transaction.points}
-                        </p>
+                        {transaction.transactionType !== "tier_change" && (
+                          <p className={`text-lg font-bold ${transaction.points >= 0 ? "text-green-600" : "text-red-600"}`} data-testid={`text-points-${transaction.id}`}>
+                            {transaction.points >= 0 ? "+" : ""}{transaction.points}
+                          </p>
+                        )}
                       </div>
                     </CardHeader>
                   </Card>
@@ -190,61 +598,6 @@ export default function CustomerLoyalty() {
         </div>
       </main>
 
-      {/* Redeem Dialog */}
-      <Dialog open={isRedeemDialogOpen} onOpenChange={setIsRedeemDialogOpen}>
-        <DialogContent data-testid="dialog-redeem-points">
-          <DialogHeader>
-            <DialogTitle data-testid="text-dialog-title">Redeem Points</DialogTitle>
-            <DialogDescription>
-              Enter the number of points you want to redeem
-            </DialogDescription>
-          </DialogHeader>
-
-          <div className="space-y-4">
-            <div>
-              <Label htmlFor="points">Points to Redeem</Label>
-              <Input
-                id="points"
-                type="number"
-                placeholder="Enter points"
-                value={redeemPoints}
-                onChange={(e) => setRedeemPoints(e.target.value)}
-                min="1"
-                max={loyaltyData?.balance || 0}
-                data-testid="input-redeem-points"
-              />
-              <p className="text-sm text-muted-foreground mt-2">
-                Available: {loyaltyData?.balance || 0} points
-              </p>
-            </div>
-
-            {redeemPoints && !isNaN(parseInt(redeemPoints)) && (
-              <Card>
-                <CardContent className="py-4">
-                  <p className="text-sm text-muted-foreground">Discount Value</p>
-                  <p className="text-2xl font-bold text-primary" data-testid="text-discount-value">
-                    ₨{(parseInt(redeemPoints) * 1).toFixed(2)}
-                  </p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
-
-          <DialogFooter>
-            <Button type="button" variant="outline" onClick={() => setIsRedeemDialogOpen(false)} data-testid="button-cancel">
-              Cancel
-            </Button>
-            <Button 
-              onClick={handleRedeem}
-              disabled={redeemMutation.isPending}
-              data-testid="button-confirm-redeem"
-            >
-              {redeemMutation.isPending ? "Redeeming..." : "Redeem"}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-
       <Footer />
     </div>
   );
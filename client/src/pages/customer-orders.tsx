@@ -6,10 +6,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useSocketEvent } from "@/context/SocketContext";
 import CustomerHeader from "@/components/CustomerHeader";
 import Footer from "@/components/Footer";
 import { ShoppingBag, ChevronLeft, RefreshCw, Package } from "lucide-react";
 import { format } from "date-fns";
+import { ORDER_STATUS_LABELS, type OrderStatus } from "@shared/orderLifecycle";
 
 interface OrderItem {
   menuItemId: string;
@@ -27,6 +29,9 @@ interface Order {
   orderType: string;
   items: OrderItem[];
   createdAt: string;
+  acceptedAt?: string | null;
+  estimatedPrepMinutes?: number | null;
+  rejectionReason?: string | null;
 }
 
 const statusColors: Record<string, string> = {
@@ -34,8 +39,10 @@ const statusColors: Record<string, string> = {
   confirmed: "bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-200",
   preparing: "bg-purple-100 text-purple-800 dark:bg-purple-950 dark:text-purple-200",
   ready: "bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-200",
+  out_for_delivery: "bg-cyan-100 text-cyan-800 dark:bg-cyan-950 dark:text-cyan-200",
   completed: "bg-gray-100 text-gray-800 dark:bg-gray-950 dark:text-gray-200",
   cancelled: "bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-200",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-200",
 };
 
 export default function CustomerOrders() {
@@ -52,6 +59,30 @@ export default function CustomerOrders() {
     queryKey: [`/api/customers/${user.id}/orders`],
   });
 
+  // Live updates from the kitchen (sent to this customer's user room)
+  const refreshOrders = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/orders`] });
+  };
+
+  useSocketEvent("order:statusUpdated", refreshOrders);
+
+  useSocketEvent<{ orderNumber: string; estimatedPrepMinutes: number }>("order:accepted", (data) => {
+    refreshOrders();
+    toast({
+      title: `Order #${data.orderNumber} accepted`,
+      description: `The kitchen expects it to be ready in about ${data.estimatedPrepMinutes} minutes`,
+    });
+  });
+
+  useSocketEvent<{ orderNumber: string; reason: string | null }>("order:rejected", (data) => {
+    refreshOrders();
+    toast({
+      title: `Order #${data.orderNumber} was rejected`,
+      description: data.reason || "The restaurant could not accept your order",
+      variant: "destructive",
+    });
+  });
+
   const reorderMutation = useMutation({
     mutationFn: (orderId: string) =>
       apiRequest(`/api/customers/${user.id}/orders/${orderId}/reorder`, "POST"),
@@ -119,12 +150,22 @@ export default function CustomerOrders() {
                             Order #{order.orderNumber}
                           </CardTitle>
                           <Badge className={statusColors[order.status] || statusColors.pending} data-testid={`badge-status-${order.id}`}>
-                            {order.status}
+                            {ORDER_STATUS_LABELS[order.status as OrderStatus] || order.status}
                           </Badge>
                         </div>
                         <CardDescription className="mt-1" data-testid={`text-order-date-${order.id}`}>
                           {format(new Date(order.createdAt), "PPp")} • {order.orderType}
                         </CardDescription>
+                        {order.acceptedAt && order.estimatedPrepMinutes && !["completed", "cancelled", "rejected"].includes(order.status) && (
+                          <p className="text-sm mt-1" data-testid={`text-estimate-${order.id}`}>
+                            Ready around {format(new Date(new Date(order.acceptedAt).getTime() + order.estimatedPrepMinutes * 60000), "p")}
+                          </p>
+                        )}
+                        {order.status === "rejected" && order.rejectionReason && (
+                          <p className="text-sm text-red-600 mt-1" data-testid={`text-rejection-${order.id}`}>
+                            {order.rejectionReason}
+                          </p>
+                        )}
                       </div>
                       <div className="text-right">
                         <p className="text-sm text-muted-foreground">Total</p>
@@ -0,0 +1,380 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useSocketEvent } from "@/context/SocketContext";
+import CustomerHeader from "@/components/CustomerHeader";
+import Footer from "@/components/Footer";
+import { ChevronLeft, Wallet, CreditCard, TrendingUp, TrendingDown, Copy, Search } from "lucide-react";
+import { format } from "date-fns";
+
+interface StoreCreditTransaction {
+  id: string;
+  transactionType: string; // refund, redeem, restore, adjustment
+  amount: string;
+  balanceAfter: string;
+  description: string;
+  createdAt: string;
+}
+
+interface StoreCreditWallet {
+  balance: number;
+  lifetimeCredited: number;
+  transactions: StoreCreditTransaction[];
+}
+
+interface PurchasedGiftCard {
+  id: string;
+  code: string | null; // Hidden until the card is paid for
+  status: "pending" | "active" | "voided";
+  initialValue: string;
+  balance: string;
+  recipientName: string | null;
+  createdAt: string;
+}
+
+interface GiftCardBalance {
+  code: string;
+  status: string;
+  balance: number;
+  initialValue: number;
+}
+
+const GIFT_CARD_STATUS_LABELS: Record<PurchasedGiftCard["status"], string> = {
+  pending: "Awaiting payment",
+  active: "Active",
+  voided: "Voided",
+};
+
+export default function CustomerWallet() {
+  const { user, isAuthenticated } = useAuth();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [amount, setAmount] = useState("");
+  const [recipientName, setRecipientName] = useState("");
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const [message, setMessage] = useState("");
+  const [balanceCode, setBalanceCode] = useState("");
+  const [checkedCard, setCheckedCard] = useState<GiftCardBalance | null>(null);
+
+  if (!isAuthenticated || user?.role !== "customer") {
+    setLocation("/login");
+    return null;
+  }
+
+  const { data: wallet, isLoading } = useQuery<StoreCreditWallet>({
+    queryKey: [`/api/customers/${user.id}/store-credit`],
+  });
+
+  const { data: giftCards = [] } = useQuery<PurchasedGiftCard[]>({
+    queryKey: [`/api/customers/${user.id}/gift-cards`],
+  });
+
+  // Back from Stripe Checkout - activate the card once its payment has gone through
+  useEffect(() => {
+    const giftCardId = new URLSearchParams(window.location.search).get("giftCard");
+    if (!giftCardId) return;
+    window.history.replaceState(null, "", window.location.pathname);
+    apiRequest(`/api/gift-cards/${giftCardId}/confirm`, "POST")
+      .then(res => res.json())
+      .then((card: PurchasedGiftCard) => {
+        queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/gift-cards`] });
+        toast(card.status === "active"
+          ? { title: "Gift card ready", description: `Your gift card code is ${card.code}` }
+          : { title: "Payment pending", description: "Your gift card will be ready once the payment goes through" });
+      })
+      .catch((error: Error) => {
+        toast({ title: "Could not confirm gift card", description: error.message, variant: "destructive" });
+      });
+  }, []);
+
+  const purchaseMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("/api/gift-cards/purchase", "POST", {
+        amount: parseFloat(amount),
+        recipientName: recipientName || undefined,
+        recipientEmail: recipientEmail || undefined,
+        message: message || undefined,
+        returnUrl: `${window.location.origin}/account/wallet`,
+      });
+      return await res.json();
+    },
+    onSuccess: (result: { checkoutUrl: string }) => {
+      window.location.href = result.checkoutUrl;
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not buy gift card", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const balanceMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest(`/api/gift-cards/${encodeURIComponent(code)}/balance`, "GET");
+      return await res.json();
+    },
+    onSuccess: (card: GiftCardBalance) => setCheckedCard(card),
+    onError: () => {
+      setCheckedCard(null);
+      toast({ title: "Gift card not found", description: "Check the code and try again", variant: "destructive" });
+    },
+  });
+
+  const copyCode = (code: string) => {
+    navigator.clipboard.writeText(code);
+    toast({ title: "Copied!", description: "Gift card code copied to clipboard" });
+  };
+
+  // Refunds and adjustments are sent to this customer's user room
+  useSocketEvent<{ amount: number; balance: number }>("wallet:storeCreditChanged", (data) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${user.id}/store-credit`] });
+    toast({
+      title: data.amount >= 0 ? `₨${data.amount.toFixed(2)} added to your store credit` : "Store credit updated",
+      description: `Your balance is now ₨${data.balance.toFixed(2)}`,
+    });
+  });
+
+  const transactions = wallet?.transactions || [];
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <CustomerHeader />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLocation("/account")}
+              data-testid="button-back"
+            >
+              <ChevronLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold" data-testid="text-page-title">Wallet</h1>
+              <p className="text-muted-foreground">Store credit and gift cards</p>
+            </div>
+          </div>
+
+          {/* Store Credit Balance */}
+          <Card className="bg-gradient-to-br from-primary/10 to-primary/5">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardDescription>Store Credit</CardDescription>
+                  <CardTitle className="text-4xl mt-2" data-testid="text-store-credit-balance">
+                    ₨{(wallet?.balance || 0).toFixed(2)}
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">Use it on any order at checkout</p>
+                </div>
+                <Wallet className="h-16 w-16 text-primary/30" />
+              </div>
+            </CardHeader>
+          </Card>
+
+          {/* Buy a Gift Card */}
+          <Card data-testid="card-buy-gift-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard className="h-5 w-5" />
+                Buy a Gift Card
+              </CardTitle>
+              <CardDescription>Pay by card - the code is yours to use or share once the payment goes through</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="gift-card-amount">Value (₨)</Label>
+                  <Input
+                    id="gift-card-amount"
+                    type="number"
+                    min="1"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    data-testid="input-gift-card-amount"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="gift-card-recipient">Recipient</Label>
+                  <Input
+                    id="gift-card-recipient"
+                    value={recipientName}
+                    onChange={(e) => setRecipientName(e.target.value)}
+                    data-testid="input-gift-card-recipient"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="gift-card-recipient-email">Recipient Email</Label>
+                  <Input
+                    id="gift-card-recipient-email"
+                    type="email"
+                    value={recipientEmail}
+                    onChange={(e) => setRecipientEmail(e.target.value)}
+                    data-testid="input-gift-card-recipient-email"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="gift-card-message">Message</Label>
+                <Textarea
+                  id="gift-card-message"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  data-testid="textarea-gift-card-message"
+                />
+              </div>
+              <Button
+                onClick={() => purchaseMutation.mutate()}
+                disabled={!(parseFloat(amount) > 0) || purchaseMutation.isPending}
+                data-testid="button-buy-gift-card"
+              >
+                {purchaseMutation.isPending ? "Redirecting..." : "Continue to Payment"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Purchased Gift Cards */}
+          {giftCards.length > 0 && (
+            <div>
+              <h2 className="text-2xl font-bold mb-4" data-testid="text-gift-cards-title">Your Gift Cards</h2>
+              <div className="grid gap-3 md:grid-cols-2">
+                {giftCards.map(card => (
+                  <Card key={card.id} data-testid={`card-gift-card-${card.id}`}>
+                    <CardHeader className="py-4">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-mono font-semibold" data-testid={`text-gift-card-code-${card.id}`}>
+                              {card.code || "••••-••••"}
+                            </p>
+                            {card.code && (
+                              <Button size="icon" variant="ghost" onClick={() => copyCode(card.code!)} data-testid={`button-copy-gift-card-${card.id}`}>
+                                <Copy className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {card.recipientName ? `For ${card.recipientName} · ` : ""}{format(new Date(card.createdAt), "PP")}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="font-bold" data-testid={`text-gift-card-balance-${card.id}`}>
+                            ₨{parseFloat(card.balance).toFixed(2)}
+                          </p>
+                          <Badge variant={card.status === "active" ? "default" : "secondary"}>
+                            {GIFT_CARD_STATUS_LABELS[card.status]}
+                          </Badge>
+                        </div>
+                      </div>
+                    </CardHeader>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Balance Enquiry */}
+          <Card data-testid="card-gift-card-balance">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Search className="h-5 w-5" />
+                Check a Gift Card
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex gap-2">
+                <Input
+                  value={balanceCode}
+                  onChange={(e) => {
+                    setBalanceCode(e.target.value.toUpperCase());
+                    setCheckedCard(null);
+                  }}
+                  placeholder="GC-XXXX-XXXX-XXXX-XXXX"
+                  data-testid="input-balance-code"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => balanceMutation.mutate(balanceCode.trim())}
+                  disabled={!balanceCode.trim() || balanceMutation.isPending}
+                  data-testid="button-check-balance"
+                >
+                  Check
+                </Button>
+              </div>
+              {checkedCard && (
+                <p className="text-sm" data-testid="text-checked-balance">
+                  {checkedCard.code}: ₨{checkedCard.balance.toFixed(2)} of ₨{checkedCard.initialValue.toFixed(2)} left
+                  {checkedCard.status === "voided" ? " (voided)" : ""}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Store Credit History */}
+          <div>
+            <h2 className="text-2xl font-bold mb-4" data-testid="text-history-title">Store Credit History</h2>
+            {isLoading ? (
+              <p data-testid="text-loading">Loading transactions...</p>
+            ) : transactions.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <p className="text-muted-foreground" data-testid="text-empty-state">No store credit yet</p>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    Refunds paid as store credit show up here
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                {transactions.map((transaction) => {
+                  const value = parseFloat(transaction.amount);
+                  return (
+                    <Card key={transaction.id} data-testid={`card-transaction-${transaction.id}`}>
+                      <CardHeader className="py-4">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                            {value >= 0 ? (
+                              <div className="h-10 w-10 rounded-full bg-green-100 dark:bg-green-950 flex items-center justify-center">
+                                <TrendingUp className="h-5 w-5 text-green-600" />
+                              </div>
+                            ) : (
+                              <div className="h-10 w-10 rounded-full bg-red-100 dark:bg-red-950 flex items-center justify-center">
+                                <TrendingDown className="h-5 w-5 text-red-600" />
+                              </div>
+                            )}
+                            <div>
+                              <p className="font-medium" data-testid={`text-description-${transaction.id}`}>
+                                {transaction.description}
+                              </p>
+                              <p className="text-sm text-muted-foreground" data-testid={`text-date-${transaction.id}`}>
+                                {format(new Date(transaction.createdAt), "PPp")}
+                              </p>
+                            </div>
+                          </div>
+                          <p className={`text-lg font-bold ${value >= 0 ? "text-green-600" : "text-red-600"}`} data-testid={`text-amount-${transaction.id}`}>
+                            {value >= 0 ? "+" : "-"}₨{Math.abs(value).toFixed(2)}
+                          </p>
+                        </div>
+                      </CardHeader>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,30 +1,65 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Clock, CheckCircle, ChefHat, AlertCircle, Filter, Bell, BellOff } from "lucide-react";
+import { useLocation, useParams } from "wouter";
+import { Clock, CheckCircle, ChefHat, AlertCircle, Filter, Bell, BellOff, Undo2, Inbox, XCircle, AlertTriangle } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useSocketEvent } from "@/context/SocketContext";
-import type { Order } from "@shared/schema";
+import type { KitchenStation, KitchenTicket, Order } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 import AdminSidebar from "@/components/AdminSidebar";
 import AdminHeader from "@/components/AdminHeader";
 import { useAuth } from "@/context/AuthContext";
 
+// Payload of the kitchen:slaBreached alert sent to the branch room
+interface SlaBreachAlert {
+  ticketId: string;
+  orderNumber: string;
+  stationId: string | null;
+  station: string | null;
+  targetPrepMinutes: number;
+  elapsedMinutes: number;
+}
+
+// Ticket as returned by /api/pos/kitchen-tickets, with a summary of its order
+const PREP_TIME_OPTIONS = [10, 15, 20, 30, 45, 60];
+
+const REJECT_REASONS = ["Kitchen too busy", "Item unavailable", "Closing soon", "Outside delivery area"];
+
+type KdsTicket = KitchenTicket & {
+  order: Pick<Order, "orderNumber" | "orderType" | "orderSource" | "status" | "customerName" | "tableId" | "notes" | "createdAt">;
+};
+
 export default function KitchenDisplay() {
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  // /admin/kitchen shows every station, /admin/kitchen/station/:stationId a single one
+  const { stationId } = useParams<{ stationId?: string }>();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { logout } = useAuth();
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [statusFilter, setStatusFilter] = useState<string>("active");
   const [soundEnabled, setSoundEnabled] = useState(() => {
     const stored = localStorage.getItem("kds-sound-enabled");
     return stored ? JSON.parse(stored) : true;
   });
-  const [lastOrderCount, setLastOrderCount] = useState(0);
+  const [lastTicketCount, setLastTicketCount] = useState(0);
+  const [lastIncomingCount, setLastIncomingCount] = useState(0);
+  const [prepTimes, setPrepTimes] = useState<Record<string, number>>({});
+  const [rejectingOrder, setRejectingOrder] = useState<Order | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  // Re-render every 30s so ticket ages and colours stay current between updates
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
 
   // Get user from localStorage
   const user = (() => {
@@ -37,40 +72,93 @@ export default function KitchenDisplay() {
   })();
   const userBranchId = user.branchId;
 
-  // Fetch orders for kitchen display (WebSocket real-time updates)
-  const { data: orders = [] } = useQuery<Order[]>({
-    queryKey: ["/api/orders", userBranchId],
-    queryFn: () => {
-      const url = userBranchId === "all" 
-        ? "/api/orders" 
-        : `/api/orders?branchId=${userBranchId}`;
-      return fetch(url).then(res => res.json());
+  const { data: stations = [] } = useQuery<KitchenStation[]>({
+    queryKey: ["/api/kitchen-stations"],
+  });
+  const currentStation = stations.find(station => station.id === stationId);
+
+  // Fetch tickets for this station (WebSocket real-time updates)
+  const ticketsQueryKey = ["/api/pos/kitchen-tickets", {
+    searchParams: {
+      branchId: userBranchId,
+      ...(stationId ? { stationId } : {}),
+      ...(statusFilter === "ready" ? { status: "ready" } : { active: "true" }),
     },
+  }];
+  const { data: tickets = [] } = useQuery<KdsTicket[]>({
+    queryKey: ticketsQueryKey,
     enabled: !!userBranchId,
   });
 
-  // Real-time order updates via WebSocket
-  useSocketEvent<Order>("order:created", (order) => {
-    queryClient.invalidateQueries({ queryKey: ["/api/orders", userBranchId] });
+  // Online/phone orders waiting to be accepted (shown on the all-stations view)
+  const { data: incomingOrders = [] } = useQuery<Order[]>({
+    queryKey: ["/api/pos/incoming-orders", {
+      searchParams: userBranchId && userBranchId !== "all" ? { branchId: userBranchId } : {},
+    }],
+    enabled: !!userBranchId && !stationId,
   });
 
-  useSocketEvent<Order>("order:statusUpdated", (order) => {
-    queryClient.invalidateQueries({ queryKey: ["/api/orders", userBranchId] });
+  const refreshTickets = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pos/kitchen-tickets"] });
+  };
+
+  const refreshIncoming = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pos/incoming-orders"] });
+  };
+
+  // Real-time ticket updates via WebSocket
+  useSocketEvent<KitchenTicket>("kitchen:ticketCreated", refreshTickets);
+  useSocketEvent<KitchenTicket>("kitchen:ticketUpdated", refreshTickets);
+  // Cancelled / rejected orders drop off the board
+  useSocketEvent<Order>("order:statusUpdated", () => {
+    refreshTickets();
+    refreshIncoming();
   });
+  useSocketEvent<Order>("order:created", refreshIncoming);
 
-  // Filter orders for kitchen (exclude delivered/cancelled)
-  const kitchenOrders = orders.filter(order => 
-    ["pending", "preparing", "ready"].includes(order.status) &&
-    order.orderSource === "pos"
-  );
+  useSocketEvent<Order>("order:escalated", (order) => {
+    refreshIncoming();
+    if (stationId) return;
+    if (soundEnabled) {
+      playNotificationSound();
+    }
+    toast({
+      title: `Order ${order.orderNumber} is waiting to be accepted`,
+      description: "This online order has not been accepted yet",
+      variant: "destructive",
+    });
+  });
 
-  // Play sound for new orders
+  useSocketEvent<SlaBreachAlert>("kitchen:slaBreached", (alert) => {
+    if (stationId && alert.stationId !== stationId) return;
+    if (soundEnabled) {
+      playNotificationSound();
+    }
+    toast({
+      title: `Order ${alert.orderNumber} is running late`,
+      description: `${alert.station || "Kitchen"}: ${alert.elapsedMinutes}m against a ${alert.targetPrepMinutes}m target`,
+      variant: "destructive",
+    });
+  });
+
+  const activeTickets = tickets.filter(ticket => ticket.status === "pending" || ticket.status === "preparing");
+
+  // Play sound for new tickets
   useEffect(() => {
-    if (kitchenOrders.length > lastOrderCount && lastOrderCount > 0 && soundEnabled) {
+    if (statusFilter === "ready") return;
+    if (activeTickets.length > lastTicketCount && lastTicketCount > 0 && soundEnabled) {
       playNotificationSound();
     }
-    setLastOrderCount(kitchenOrders.length);
-  }, [kitchenOrders.length, soundEnabled]);
+    setLastTicketCount(activeTickets.length);
+  }, [activeTickets.length, soundEnabled]);
+
+  // Play sound for new incoming online orders
+  useEffect(() => {
+    if (incomingOrders.length > lastIncomingCount && soundEnabled) {
+      playNotificationSound();
+    }
+    setLastIncomingCount(incomingOrders.length);
+  }, [incomingOrders.length, soundEnabled]);
 
   // Sound notification
   const playNotificationSound = () => {
@@ -102,36 +190,101 @@ export default function KitchenDisplay() {
     });
   };
 
-  // Update order status mutation
+  // Bump / recall a station ticket - the order becomes ready once all its tickets are done
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ orderId, status }: { orderId: string; status: string }) => {
-      // Use simplified status update endpoint
-      const response = await fetch(`/api/orders/${orderId}/status`, {
+    mutationFn: async ({ ticketId, status }: { ticketId: string; status: string }) => {
+      const response = await fetch(`/api/pos/kitchen-tickets/${ticketId}/status`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
+        credentials: "include",
         body: JSON.stringify({ status }),
       });
-      if (!response.ok) throw new Error("Failed to update order status");
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || "Failed to update ticket status");
+      }
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/orders", userBranchId] });
+      refreshTickets();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleStatusUpdate = (ticketId: string, newStatus: string) => {
+    updateStatusMutation.mutate({ ticketId, status: newStatus });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async ({ orderId, prepTimeMinutes }: { orderId: string; prepTimeMinutes: number }) => {
+      const response = await fetch(`/api/orders/${orderId}/accept`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ prepTimeMinutes }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || "Failed to accept order");
+      }
+      return response.json();
+    },
+    onSuccess: (order: Order) => {
+      refreshIncoming();
       toast({
-        title: "Status updated",
-        description: "Order status has been updated",
+        title: "Order accepted",
+        description: `${order.orderNumber} sent to the kitchen`,
       });
     },
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to update status",
+        description: error.message || "Failed to accept order",
         variant: "destructive",
       });
     },
   });
 
-  const handleStatusUpdate = (orderId: string, newStatus: string) => {
-    updateStatusMutation.mutate({ orderId, status: newStatus });
+  const rejectMutation = useMutation({
+    mutationFn: async ({ orderId, reason }: { orderId: string; reason: string }) => {
+      const response = await fetch(`/api/orders/${orderId}/reject`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ reason }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || "Failed to reject order");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshIncoming();
+      setRejectingOrder(null);
+      setRejectReason("");
+      toast({
+        title: "Order rejected",
+        description: "The customer has been notified",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reject order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleStationChange = (value: string) => {
+    setLocation(value === "all" ? "/admin/kitchen" : `/admin/kitchen/station/${value}`);
   };
 
   const getStatusColor = (status: string) => {
@@ -160,11 +313,23 @@ export default function KitchenDisplay() {
     }
   };
 
-  const getPriorityColor = (createdAt: Date) => {
-    const minutesOld = (Date.now() - new Date(createdAt).getTime()) / 1000 / 60;
-    if (minutesOld > 20) return "border-l-4 border-l-red-500";
-    if (minutesOld > 10) return "border-l-4 border-l-yellow-500";
-    return "";
+  // Aging against the ticket's prep-time target: amber from 75%, red once over
+  const getAgeLevel = (ticket: KitchenTicket) => {
+    const minutesOld = (now - new Date(ticket.createdAt).getTime()) / 1000 / 60;
+    if (ticket.slaBreachedAt || minutesOld > ticket.targetPrepMinutes) return "late";
+    if (minutesOld >= ticket.targetPrepMinutes * 0.75) return "warning";
+    return "ok";
+  };
+
+  const getPriorityColor = (ticket: KitchenTicket) => {
+    switch (getAgeLevel(ticket)) {
+      case "late":
+        return "border-l-4 border-l-red-500 bg-red-500/5";
+      case "warning":
+        return "border-l-4 border-l-yellow-500";
+      default:
+        return "";
+    }
   };
 
   const parseItems = (itemsJson: string) => {
@@ -175,13 +340,14 @@ export default function KitchenDisplay() {
     }
   };
 
-  const filteredOrders = statusFilter === "all" 
-    ? kitchenOrders 
-    : kitchenOrders.filter(order => order.status === statusFilter);
-
-  const sortedOrders = [...filteredOrders].sort((a, b) => 
-    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-  );
+  // Oldest first while cooking; most recently bumped first on the "ready" list (for recalls)
+  const sortedTickets = statusFilter === "ready"
+    ? [...tickets]
+        .sort((a, b) => new Date(b.completedAt || b.createdAt).getTime() - new Date(a.completedAt || a.createdAt).getTime())
+        .slice(0, 20)
+    : [...tickets]
+        .filter(ticket => statusFilter === "active" || ticket.status === statusFilter)
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
 
   if (!userBranchId || (userBranchId !== "all" && !userBranchId)) {
     return (
@@ -212,7 +378,7 @@ export default function KitchenDisplay() {
 
       <div className="flex-1 flex flex-col overflow-hidden">
         <AdminHeader
-          breadcrumbs={["Admin", "Kitchen Display"]}
+          breadcrumbs={["Admin", "Kitchen Display", ...(currentStation ? [currentStation.name] : [])]}
           notificationCount={0}
           userName="Admin User"
           onMenuToggle={() => setSidebarOpen(!sidebarOpen)}
@@ -226,14 +392,30 @@ export default function KitchenDisplay() {
                 <div className="flex items-center gap-3">
                   <ChefHat className="w-8 h-8 text-primary" />
                   <div>
-                    <h1 className="text-2xl font-bold" data-testid="heading-kds">Kitchen Display</h1>
+                    <h1 className="text-2xl font-bold" data-testid="heading-kds">
+                      {currentStation ? `${currentStation.name} Station` : "Kitchen Display"}
+                    </h1>
                     <p className="text-sm text-muted-foreground">
-                      {filteredOrders.length} {filteredOrders.length === 1 ? 'order' : 'orders'}
+                      {sortedTickets.length} {sortedTickets.length === 1 ? 'ticket' : 'tickets'}
                     </p>
                   </div>
                 </div>
 
                 <div className="flex items-center gap-3">
+                  {/* Station */}
+                  <Select value={stationId || "all"} onValueChange={handleStationChange}>
+                    <SelectTrigger className="w-40" data-testid="select-station">
+                      <ChefHat className="w-4 h-4 mr-2" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Stations</SelectItem>
+                      {stations.filter(station => station.isActive).map(station => (
+                        <SelectItem key={station.id} value={station.id}>{station.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
                   {/* Status filter */}
                   <Select value={statusFilter} onValueChange={setStatusFilter}>
                     <SelectTrigger className="w-40" data-testid="select-status-filter">
@@ -241,10 +423,10 @@ export default function KitchenDisplay() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="all">All Orders</SelectItem>
+                      <SelectItem value="active">All Open</SelectItem>
                       <SelectItem value="pending">Pending</SelectItem>
                       <SelectItem value="preparing">Preparing</SelectItem>
-                      <SelectItem value="ready">Ready</SelectItem>
+                      <SelectItem value="ready">Bumped</SelectItem>
                     </SelectContent>
                   </Select>
 
@@ -262,22 +444,16 @@ export default function KitchenDisplay() {
             <div className="flex gap-4 px-4 border-l">
               <div className="text-center">
                 <p className="text-2xl font-bold text-yellow-600" data-testid="stat-pending">
-                  {kitchenOrders.filter(o => o.status === "pending").length}
+                  {activeTickets.filter(t => t.status === "pending").length}
                 </p>
                 <p className="text-xs text-muted-foreground">Pending</p>
               </div>
               <div className="text-center">
                 <p className="text-2xl font-bold text-blue-600" data-testid="stat-preparing">
-                  {kitchenOrders.filter(o => o.status === "preparing").length}
+                  {activeTickets.filter(t => t.status === "preparing").length}
                 </p>
                 <p className="text-xs text-muted-foreground">Preparing</p>
               </div>
-              <div className="text-center">
-                <p className="text-2xl font-bold text-green-600" data-testid="stat-ready">
-                  {kitchenOrders.filter(o => o.status === "ready").length}
-                </p>
-                <p className="text-xs text-muted-foreground">Ready</p>
-              </div>
             </div>
           </div>
         </div>
@@ -286,36 +462,139 @@ export default function KitchenDisplay() {
       {/* Orders grid */}
       <ScrollArea className="flex-1">
         <div className="p-6">
-          {sortedOrders.length === 0 ? (
+          {/* Incoming online orders */}
+          {!stationId && incomingOrders.length > 0 && (
+            <div className="mb-6" data-testid="lane-incoming">
+              <div className="flex items-center gap-2 mb-3">
+                <Inbox className="w-5 h-5 text-primary" />
+                <h2 className="text-lg font-semibold">Incoming</h2>
+                <Badge variant="secondary">{incomingOrders.length}</Badge>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                {incomingOrders.map((order) => {
+                  const items = parseItems(order.items);
+                  const minutesWaiting = Math.floor((now - new Date(order.createdAt).getTime()) / 1000 / 60);
+                  const prepTime = prepTimes[order.id] || 20;
+
+                  return (
+                    <Card
+                      key={order.id}
+                      className={`border-l-4 ${order.escalatedAt ? "border-l-red-500 bg-red-500/5" : "border-l-primary"}`}
+                      data-testid={`card-incoming-${order.id}`}
+                    >
+                      <div className="p-4 space-y-3">
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <p className="font-bold text-lg">{order.orderNumber}</p>
+                            <div className="flex flex-wrap items-center gap-2 mt-1">
+                              <Badge variant="secondary" className="capitalize">{order.orderSource}</Badge>
+                              <Badge variant="outline" className="capitalize">{order.orderType}</Badge>
+                              {order.escalatedAt && (
+                                <Badge variant="destructive">
+                                  <AlertTriangle className="w-3 h-3 mr-1" />
+                                  Escalated
+                                </Badge>
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-1 text-sm">
+                            <Clock className="w-3 h-3" />
+                            <span className={order.escalatedAt ? "text-red-600 font-bold" : "text-muted-foreground"}>
+                              {minutesWaiting}m
+                            </span>
+                          </div>
+                        </div>
+
+                        <div className="text-sm">
+                          <p className="font-semibold">{order.customerName}</p>
+                          {order.notes && (
+                            <p className="text-xs text-muted-foreground mt-1 italic">Note: {order.notes}</p>
+                          )}
+                        </div>
+
+                        <div className="space-y-1">
+                          {items.map((item: any, idx: number) => (
+                            <p key={idx} className="text-sm border-l-2 border-primary pl-2">
+                              <span className="font-bold">{item.quantity}x</span> {item.name}
+                            </p>
+                          ))}
+                        </div>
+
+                        <div className="flex gap-2 pt-2">
+                          <Select
+                            value={String(prepTime)}
+                            onValueChange={(value) => setPrepTimes({ ...prepTimes, [order.id]: parseInt(value) })}
+                          >
+                            <SelectTrigger className="w-28" data-testid={`select-prep-time-${order.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {PREP_TIME_OPTIONS.map((minutes) => (
+                                <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            className="flex-1"
+                            onClick={() => acceptMutation.mutate({ orderId: order.id, prepTimeMinutes: prepTime })}
+                            disabled={acceptMutation.isPending}
+                            data-testid={`button-accept-${order.id}`}
+                          >
+                            <CheckCircle className="w-4 h-4 mr-2" />
+                            Accept
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => setRejectingOrder(order)}
+                            data-testid={`button-reject-${order.id}`}
+                          >
+                            <XCircle className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </Card>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {sortedTickets.length === 0 ? (
             <Card className="p-12 text-center">
               <ChefHat className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
-              <p className="text-xl font-semibold mb-2">No orders in kitchen</p>
-              <p className="text-muted-foreground">New orders will appear here automatically</p>
+              <p className="text-xl font-semibold mb-2">No tickets at this station</p>
+              <p className="text-muted-foreground">New tickets will appear here automatically</p>
             </Card>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-              {sortedOrders.map((order) => {
-                const items = parseItems(order.items);
-                const minutesOld = Math.floor((Date.now() - new Date(order.createdAt).getTime()) / 1000 / 60);
+              {sortedTickets.map((ticket) => {
+                const { order } = ticket;
+                const items = parseItems(ticket.items);
+                const minutesOld = Math.floor((now - new Date(ticket.createdAt).getTime()) / 1000 / 60);
+                const ageLevel = getAgeLevel(ticket);
                 
                 return (
                   <Card
-                    key={order.id}
-                    className={`${getPriorityColor(order.createdAt)} hover-elevate`}
-                    data-testid={`card-order-${order.id}`}
+                    key={ticket.id}
+                    className={`${ticket.status === "ready" ? "" : getPriorityColor(ticket)} hover-elevate`}
+                    data-testid={`card-ticket-${ticket.id}`}
                   >
                     <div className="p-4 space-y-3">
                       {/* Header */}
                       <div className="flex items-start justify-between">
                         <div>
-                          <p className="font-bold text-lg" data-testid={`text-order-number-${order.id}`}>
+                          <p className="font-bold text-lg" data-testid={`text-order-number-${ticket.id}`}>
                             {order.orderNumber}
                           </p>
-                          <div className="flex items-center gap-2 mt-1">
-                            <Badge variant="outline" className={getStatusColor(order.status)}>
-                              {getStatusIcon(order.status)}
-                              <span className="ml-1">{order.status}</span>
+                          <div className="flex flex-wrap items-center gap-2 mt-1">
+                            <Badge variant="outline" className={getStatusColor(ticket.status)}>
+                              {getStatusIcon(ticket.status)}
+                              <span className="ml-1">{ticket.status}</span>
                             </Badge>
+                            {!stationId && (
+                              <Badge variant="secondary">{ticket.station || "Unassigned"}</Badge>
+                            )}
                             {order.orderType === "dine-in" && order.tableId && (
                               <Badge variant="secondary">Table</Badge>
                             )}
@@ -327,12 +606,25 @@ export default function KitchenDisplay() {
                         <div className="text-right">
                           <div className="flex items-center gap-1 text-sm">
                             <Clock className="w-3 h-3" />
-                            <span className={minutesOld > 15 ? "text-red-600 font-bold" : "text-muted-foreground"}>
-                              {minutesOld}m
+                            <span
+                              className={
+                                ticket.status === "ready"
+                                  ? "text-muted-foreground"
+                                  : ageLevel === "late"
+                                    ? "text-red-600 font-bold"
+                                    : ageLevel === "warning"
+                                      ? "text-yellow-600 font-semibold"
+                                      : "text-muted-foreground"
+                              }
+                              data-testid={`text-ticket-age-${ticket.id}`}
+                            >
+                              {ticket.status === "ready" && ticket.completedAt
+                                ? Math.round((new Date(ticket.completedAt).getTime() - new Date(ticket.createdAt).getTime()) / 60000)
+                                : minutesOld}m / {ticket.targetPrepMinutes}m
                             </span>
                           </div>
                           <p className="text-xs text-muted-foreground mt-1">
-                            {formatDistanceToNow(new Date(order.createdAt), { addSuffix: true })}
+                            {formatDistanceToNow(new Date(ticket.createdAt), { addSuffix: true })}
                           </p>
                         </div>
                       </div>
@@ -353,7 +645,7 @@ export default function KitchenDisplay() {
                               <p className="font-medium">
                                 <span className="font-bold">{item.quantity}x</span> {item.name}
                               </p>
-                              {item.variants && item.variants.length > 0 && (
+                              {Array.isArray(item.variants) && item.variants.length > 0 && (
                                 <p className="text-xs text-muted-foreground">
                                   {item.variants.map((v: any) => `${v.groupName}: ${v.optionName}`).join(", ")}
                                 </p>
@@ -370,35 +662,40 @@ export default function KitchenDisplay() {
 
                       {/* Actions */}
                       <div className="pt-2 space-y-2">
-                        {order.status === "pending" && (
+                        {ticket.status === "pending" && (
                           <Button
                             className="w-full"
-                            onClick={() => handleStatusUpdate(order.id, "preparing")}
+                            onClick={() => handleStatusUpdate(ticket.id, "preparing")}
                             disabled={updateStatusMutation.isPending}
-                            data-testid={`button-start-${order.id}`}
+                            data-testid={`button-start-${ticket.id}`}
                           >
                             <ChefHat className="w-4 h-4 mr-2" />
                             Start Preparing
                           </Button>
                         )}
-                        {order.status === "preparing" && (
+                        {ticket.status === "preparing" && (
                           <Button
                             className="w-full"
                             variant="default"
-                            onClick={() => handleStatusUpdate(order.id, "ready")}
+                            onClick={() => handleStatusUpdate(ticket.id, "ready")}
                             disabled={updateStatusMutation.isPending}
-                            data-testid={`button-ready-${order.id}`}
+                            data-testid={`button-bump-${ticket.id}`}
                           >
                             <CheckCircle className="w-4 h-4 mr-2" />
-                            Mark as Ready
+                            Bump
                           </Button>
                         )}
-                        {order.status === "ready" && (
-                          <div className="text-center p-3 bg-green-500/10 rounded-lg">
-                            <p className="text-sm font-semibold text-green-700 dark:text-green-400">
-                              Ready for Pickup
-                            </p>
-                          </div>
+                        {ticket.status === "ready" && (
+                          <Button
+                            className="w-full"
+                            variant="outline"
+                            onClick={() => handleStatusUpdate(ticket.id, "preparing")}
+                            disabled={updateStatusMutation.isPending || order.status !== "preparing"}
+                            data-testid={`button-recall-${ticket.id}`}
+                          >
+                            <Undo2 className="w-4 h-4 mr-2" />
+                            Recall
+                          </Button>
                         )}
                       </div>
                     </div>
@@ -412,6 +709,40 @@ export default function KitchenDisplay() {
           </div>
         </main>
       </div>
+
+      <Dialog open={!!rejectingOrder} onOpenChange={(open) => { if (!open) { setRejectingOrder(null); setRejectReason(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {rejectingOrder?.orderNumber}</DialogTitle>
+            <DialogDescription>The customer will see this reason.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {REJECT_REASONS.map((reason) => (
+                <Button key={reason} size="sm" variant={rejectReason === reason ? "default" : "outline"} onClick={() => setRejectReason(reason)}>
+                  {reason}
+                </Button>
+              ))}
+            </div>
+            <Textarea
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              placeholder="Reason for rejecting"
+              data-testid="input-reject-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={() => rejectingOrder && rejectMutation.mutate({ orderId: rejectingOrder.id, reason: rejectReason })}
+              disabled={!rejectReason.trim() || rejectMutation.isPending}
+              data-testid="button-confirm-reject"
+            >
+              Reject Order
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
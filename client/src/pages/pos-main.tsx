@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Plus, Minus, Search, Grid, List, X } from "lucide-react";
+import { Plus, Minus, Search, Grid, List, X, CreditCard } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,12 +14,25 @@ import { Textarea } from "@/components/ui/textarea";
 import AdminSidebar from "@/components/AdminSidebar";
 import AdminHeader from "@/components/AdminHeader";
 import { PaymentDialog } from "@/components/PaymentDialog";
+import { GiftCardSaleDialog } from "@/components/GiftCardSaleDialog";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { MenuItem as DbMenuItem, Category, PosTable, PosSession, Branch } from "@shared/schema";
 import ItemCustomizationDialog, { CustomizationSelection } from "@/components/ItemCustomizationDialog";
+import type { OrderPricing } from "@shared/pricing";
 import type { MenuItem as ComponentMenuItem } from "@/components/MenuItemCard";
 
+// A loyalty member found by phone (GET /api/pos/customers/lookup)
+interface PosCustomer {
+  id: string;
+  fullName: string;
+  phone: string;
+  availablePoints: number;
+  tier: { name: string };
+  stampCards: Array<{ id: string; name: string; stamps: number; stampsRequired: number }>;
+  vouchers: Array<{ id: string; code: string; reward: { name: string } | null }>;
+}
+
 interface CartItem {
   id: string;
   itemId: string;
@@ -27,6 +40,7 @@ interface CartItem {
   price: number;
   quantity: number;
   variants: Array<{ groupName: string; optionName: string }>;
+  variantOptionIds: string[];
   specialInstructions?: string;
   image?: string;
 }
@@ -47,7 +61,11 @@ export default function PosMain() {
   const [customerName, setCustomerName] = useState("");
   const [customerPhone, setCustomerPhone] = useState("");
   const [customerAddress, setCustomerAddress] = useState("");
+  const [rewardVoucherCodes, setRewardVoucherCodes] = useState("");
+  const [posCustomer, setPosCustomer] = useState<PosCustomer | null>(null);
+  const [isLookingUpCustomer, setIsLookingUpCustomer] = useState(false);
   const [showPaymentDialog, setShowPaymentDialog] = useState(false);
+  const [showGiftCardDialog, setShowGiftCardDialog] = useState(false);
   const [pendingOrderForPayment, setPendingOrderForPayment] = useState<{
     id: string;
     orderNumber: string;
@@ -200,6 +218,7 @@ export default function PosMain() {
       price: customization.calculatedUnitPrice, // Use calculated price including variant modifiers
       quantity: customization.quantity,
       variants,
+      variantOptionIds: Object.values(customization.variantSelections),
       specialInstructions: customization.instructions,
       image: item.image || undefined,
     };
@@ -253,6 +272,8 @@ export default function PosMain() {
       setCustomerName("");
       setCustomerPhone("");
       setCustomerAddress("");
+      setRewardVoucherCodes("");
+      setPosCustomer(null);
       setSelectedTable(null);
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
     },
@@ -265,6 +286,34 @@ export default function PosMain() {
     },
   });
 
+  const handleLookupCustomer = async () => {
+    const phone = customerPhone.trim();
+    if (!phone) return;
+    setIsLookingUpCustomer(true);
+    try {
+      const response = await apiRequest(`/api/pos/customers/lookup?phone=${encodeURIComponent(phone)}`, "GET");
+      const customer: PosCustomer = await response.json();
+      setPosCustomer(customer);
+      if (!customerName) setCustomerName(customer.fullName);
+    } catch (error: any) {
+      setPosCustomer(null);
+      toast({
+        title: "Customer not found",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLookingUpCustomer(false);
+    }
+  };
+
+  const addVoucherCode = (code: string) => {
+    const codes = rewardVoucherCodes.split(",").map(c => c.trim()).filter(Boolean);
+    if (!codes.includes(code)) {
+      setRewardVoucherCodes([...codes, code].join(", "));
+    }
+  };
+
   const handlePlaceOrder = async () => {
     if (cart.length === 0) {
       toast({
@@ -305,30 +354,6 @@ export default function PosMain() {
     // Generate order number with branch prefix
     const orderNumber = `ORD-${Date.now()}`;
     
-    // Calculate totals
-    const subtotal = calculateTotal();
-    const discount = 0;
-    
-    // Calculate delivery charges dynamically
-    let deliveryCharges = 0;
-    if (orderType === "delivery") {
-      try {
-        const response = await apiRequest("/api/delivery-charges/calculate", "POST", {
-          branchId: userBranchId,
-          orderAmount: subtotal,
-          deliveryAddress: customerAddress.trim() || undefined,
-        });
-        const result = await response.json();
-        deliveryCharges = result.freeDelivery ? 0 : result.deliveryCharges;
-      } catch (error) {
-        console.error("Failed to calculate delivery charges:", error);
-        // Fallback to default delivery charge if calculation fails
-        deliveryCharges = 50;
-      }
-    }
-    
-    const total = subtotal - discount + deliveryCharges;
-
     // Serialize cart items for database
     const orderItems = cart.map(item => ({
       id: item.id,
@@ -337,9 +362,34 @@ export default function PosMain() {
       price: item.price,
       quantity: item.quantity,
       variants: item.variants,
+      variantOptionIds: item.variantOptionIds,
       specialInstructions: item.specialInstructions,
     }));
 
+    // Loyalty reward vouchers the customer shows at the counter
+    const rewardCodes = rewardVoucherCodes.split(",").map(code => code.trim().toUpperCase()).filter(Boolean);
+
+    // Get server-calculated totals (menu prices, tax, delivery charges and reward vouchers)
+    let pricing: OrderPricing;
+    try {
+      const response = await apiRequest("/api/orders/quote", "POST", {
+        branchId: userBranchId,
+        customerId: posCustomer?.id,
+        orderType,
+        items: orderItems,
+        customerAddress: orderType === "delivery" ? customerAddress.trim() || undefined : undefined,
+        rewardCodes: rewardCodes.length > 0 ? rewardCodes : undefined,
+      });
+      pricing = await response.json();
+    } catch (error: any) {
+      toast({
+        title: "Unable to price order",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
     const orderData: any = {
       orderNumber,
       branchId: userBranchId,
@@ -349,16 +399,19 @@ export default function PosMain() {
       orderSource: "pos",
       paymentMethod: "cash",
       paymentStatus: "pending",
-      items: JSON.stringify(orderItems),
-      subtotal: subtotal.toString(),
-      discount: discount.toString(),
-      deliveryCharges: deliveryCharges.toString(),
-      total: total.toString(),
+      items: JSON.stringify(pricing.items),
+      subtotal: pricing.subtotal.toString(),
+      discount: pricing.discount.toString(),
+      tax: pricing.tax.toString(),
+      deliveryCharges: pricing.deliveryCharges.toString(),
+      total: pricing.total.toString(),
       status: "pending",
     };
 
     // Add optional fields only if they have values
     if (activeSession?.id) orderData.sessionId = activeSession.id;
+    if (rewardCodes.length > 0) orderData.rewardCodes = rewardCodes;
+    if (posCustomer) orderData.customerId = posCustomer.id; // Earns the customer's points and stamps
     if (orderType === "dine-in" && selectedTable) orderData.tableId = selectedTable;
     if (orderType === "delivery") {
       orderData.customerAddress = customerAddress.trim();
@@ -420,6 +473,15 @@ export default function PosMain() {
             >
               {viewMode === "grid" ? <List className="h-4 w-4" /> : <Grid className="h-4 w-4" />}
             </Button>
+            <Button
+              data-testid="button-open-gift-card-sale"
+              variant="outline"
+              onClick={() => setShowGiftCardDialog(true)}
+              className="flex-shrink-0"
+            >
+              <CreditCard className="h-4 w-4 mr-2" />
+              Gift Card
+            </Button>
           </div>
 
           {/* Categories */}
@@ -513,12 +575,58 @@ export default function PosMain() {
               value={customerName}
               onChange={(e) => setCustomerName(e.target.value)}
             />
-            <Input
-              data-testid="input-customer-phone"
-              placeholder="Customer phone"
-              value={customerPhone}
-              onChange={(e) => setCustomerPhone(e.target.value)}
-            />
+            <div className="flex gap-2">
+              <Input
+                data-testid="input-customer-phone"
+                placeholder="Customer phone"
+                value={customerPhone}
+                onChange={(e) => {
+                  setCustomerPhone(e.target.value);
+                  setPosCustomer(null);
+                }}
+              />
+              <Button
+                data-testid="button-lookup-customer"
+                variant="outline"
+                onClick={handleLookupCustomer}
+                disabled={!customerPhone.trim() || isLookingUpCustomer}
+              >
+                <Search className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {/* Loyalty member found by phone */}
+            {posCustomer && (
+              <Card className="p-2 space-y-1 text-sm" data-testid="card-pos-customer">
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">{posCustomer.fullName}</span>
+                  <Badge variant="secondary">{posCustomer.tier.name}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">{posCustomer.availablePoints} points</p>
+                {posCustomer.stampCards.map(card => (
+                  <p key={card.id} className="text-xs" data-testid={`text-pos-stamps-${card.id}`}>
+                    {card.name}: {card.stamps}/{card.stampsRequired} stamps
+                  </p>
+                ))}
+                {posCustomer.vouchers.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {posCustomer.vouchers.map(voucher => (
+                      <Button
+                        key={voucher.id}
+                        size="sm"
+                        variant="outline"
+                        className="h-6 text-xs"
+                        onClick={() => addVoucherCode(voucher.code)}
+                        data-testid={`button-pos-voucher-${voucher.id}`}
+                      >
+                        <Plus className="h-3 w-3 mr-1" />
+                        {voucher.reward?.name || voucher.code}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            )}
             
             {/* Delivery address for delivery orders */}
             {orderType === "delivery" && (
@@ -531,6 +639,13 @@ export default function PosMain() {
               />
             )}
 
+            <Input
+              data-testid="input-reward-vouchers"
+              placeholder="Reward voucher codes (comma separated)"
+              value={rewardVoucherCodes}
+              onChange={(e) => setRewardVoucherCodes(e.target.value)}
+            />
+
             <Separator />
 
             {/* Cart items */}
@@ -649,6 +764,13 @@ export default function PosMain() {
           }}
         />
       )}
+
+      {/* Gift card sale */}
+      <GiftCardSaleDialog
+        open={showGiftCardDialog}
+        onClose={() => setShowGiftCardDialog(false)}
+        branchId={userBranchId || ""}
+      />
     </div>
   );
 }
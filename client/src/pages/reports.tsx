@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Calendar, DollarSign, ShoppingBag, TrendingUp, Users, Package, CreditCard, PieChart as PieChartIcon, Receipt, Download, FileSpreadsheet } from "lucide-react";
+import { Calendar, DollarSign, ShoppingBag, TrendingUp, Users, Package, CreditCard, PieChart as PieChartIcon, Receipt, Download, FileSpreadsheet, ChefHat, Timer, AlertTriangle, Percent } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -15,6 +15,132 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsive
 import { useToast } from "@/hooks/use-toast";
 import type { Branch } from "@shared/schema";
 
+interface KitchenPerformanceRow {
+  key: string;
+  label: string;
+  tickets: number;
+  avgMinutes: number;
+  p90Minutes: number;
+  breaches: number;
+  breachRate: number;
+}
+
+interface KitchenPerformanceReport {
+  overall: KitchenPerformanceRow;
+  byStation: KitchenPerformanceRow[];
+  byHour: KitchenPerformanceRow[];
+  byCook: KitchenPerformanceRow[];
+}
+
+function KitchenPerformanceTable({ title, rows, testId }: { title: string; rows: KitchenPerformanceRow[]; testId: string }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No completed tickets in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid={testId}>
+              <thead className="border-b">
+                <tr className="text-left">
+                  <th className="px-4 py-2 font-semibold">Name</th>
+                  <th className="px-4 py-2 font-semibold text-right">Tickets</th>
+                  <th className="px-4 py-2 font-semibold text-right">Avg (min)</th>
+                  <th className="px-4 py-2 font-semibold text-right">P90 (min)</th>
+                  <th className="px-4 py-2 font-semibold text-right">Breach Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.key} className="border-b">
+                    <td className="px-4 py-2 font-medium">{row.label}</td>
+                    <td className="px-4 py-2 text-right">{row.tickets}</td>
+                    <td className="px-4 py-2 text-right">{row.avgMinutes}</td>
+                    <td className="px-4 py-2 text-right">{row.p90Minutes}</td>
+                    <td className={`px-4 py-2 text-right ${row.breachRate > 20 ? "text-red-600 font-semibold" : ""}`}>
+                      {row.breachRate}% ({row.breaches})
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface FoodCostRow {
+  key: string;
+  label: string;
+  quantity: number;
+  sales: number;
+  theoreticalCost: number;
+  actualCost: number;
+  variance: number;
+  theoreticalFoodCost: number;
+  actualFoodCost: number;
+}
+
+interface FoodCostReport {
+  summary: FoodCostRow & { orders: number; totalRevenue: number; costOfGoodsSold: number; stockLosses: number };
+  byItem: FoodCostRow[];
+  byCategory: FoodCostRow[];
+  byBranch: Array<FoodCostRow & { costOfGoodsSold: number; stockLosses: number }>;
+}
+
+function FoodCostTable({ title, rows, testId }: { title: string; rows: FoodCostRow[]; testId: string }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No sales in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid={testId}>
+              <thead className="border-b">
+                <tr className="text-left">
+                  <th className="px-4 py-2 font-semibold">Name</th>
+                  <th className="px-4 py-2 font-semibold text-right">Sold</th>
+                  <th className="px-4 py-2 font-semibold text-right">Sales</th>
+                  <th className="px-4 py-2 font-semibold text-right">Theoretical</th>
+                  <th className="px-4 py-2 font-semibold text-right">Actual</th>
+                  <th className="px-4 py-2 font-semibold text-right">Variance</th>
+                  <th className="px-4 py-2 font-semibold text-right">Food Cost %</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.key} className="border-b">
+                    <td className="px-4 py-2 font-medium">{row.label}</td>
+                    <td className="px-4 py-2 text-right">{row.quantity}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(row.sales)}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(row.theoreticalCost)}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(row.actualCost)}</td>
+                    <td className={`px-4 py-2 text-right ${row.variance > 0 ? "text-red-600 font-semibold" : ""}`}>
+                      {formatCurrency(row.variance)}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {row.actualFoodCost}% <span className="text-muted-foreground">({row.theoreticalFoodCost}%)</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function Reports() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [startDate, setStartDate] = useState(() => {
@@ -105,6 +231,36 @@ export default function Reports() {
     },
   });
 
+  // Kitchen prep-time report (station SLA performance)
+  const { data: kitchenData } = useQuery<KitchenPerformanceReport>({
+    queryKey: ["/api/reports/kitchen-performance", selectedBranchId, startDate, endDate],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        startDate,
+        endDate,
+        ...(selectedBranchId !== "all" && { branchId: selectedBranchId }),
+      });
+      const res = await fetch(`/api/reports/kitchen-performance?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch kitchen report");
+      return res.json();
+    },
+  });
+
+  // Food cost report (theoretical vs actual cost of goods sold)
+  const { data: foodCostData } = useQuery<FoodCostReport>({
+    queryKey: ["/api/reports/food-cost", selectedBranchId, startDate, endDate],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        startDate,
+        endDate,
+        ...(selectedBranchId !== "all" && { branchId: selectedBranchId }),
+      });
+      const res = await fetch(`/api/reports/food-cost?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch food cost report");
+      return res.json();
+    },
+  });
+
   const COLORS = ['#dc2626', '#ea580c', '#d97706', '#ca8a04', '#65a30d'];
 
   return (
@@ -183,13 +339,15 @@ export default function Reports() {
             ) : (
               <Tabs defaultValue="overview" className="space-y-6">
                 <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
-                  <TabsList className="grid w-full md:w-auto grid-cols-3 md:grid-cols-6">
+                  <TabsList className="grid w-full md:w-auto grid-cols-4 md:grid-cols-7">
                     <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
                     <TabsTrigger value="sales" data-testid="tab-sales">Sales</TabsTrigger>
                     <TabsTrigger value="products" data-testid="tab-products">Products</TabsTrigger>
                     <TabsTrigger value="payments" data-testid="tab-payments">Payments</TabsTrigger>
                     <TabsTrigger value="expenses" data-testid="tab-expenses">Expenses</TabsTrigger>
                     <TabsTrigger value="performance" data-testid="tab-performance">Performance</TabsTrigger>
+                    <TabsTrigger value="kitchen" data-testid="tab-kitchen">Kitchen</TabsTrigger>
+                    <TabsTrigger value="food-cost" data-testid="tab-food-cost">Food Cost</TabsTrigger>
                   </TabsList>
                   
                   <DropdownMenu>
@@ -216,6 +374,10 @@ export default function Reports() {
                         <FileSpreadsheet className="h-4 w-4 mr-2" />
                         Payments Data (CSV)
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => exportToCSV(kitchenData?.byStation || [], "kitchen_stations")} data-testid="export-kitchen-csv">
+                        <FileSpreadsheet className="h-4 w-4 mr-2" />
+                        Kitchen Performance (CSV)
+                      </DropdownMenuItem>
                       <DropdownMenuItem onClick={exportFullReport} data-testid="export-full-report">
                         <Download className="h-4 w-4 mr-2" />
                         Full Report (JSON)
@@ -652,6 +814,130 @@ export default function Reports() {
                     </div>
                   )}
                 </TabsContent>
+
+                {/* Kitchen Tab */}
+                <TabsContent value="kitchen" className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <Card>
+                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-sm font-medium">Tickets Completed</CardTitle>
+                        <ChefHat className="h-4 w-4 text-muted-foreground" />
+                      </CardHeader>
+                      <CardContent>
+                        <div className="text-2xl font-bold" data-testid="text-kitchen-tickets">{kitchenData?.overall.tickets || 0}</div>
+                      </CardContent>
+                    </Card>
+                    <Card>
+                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-sm font-medium">Average Prep Time</CardTitle>
+                        <Timer className="h-4 w-4 text-muted-foreground" />
+                      </CardHeader>
+                      <CardContent>
+                        <div className="text-2xl font-bold" data-testid="text-kitchen-avg">{kitchenData?.overall.avgMinutes || 0} min</div>
+                      </CardContent>
+                    </Card>
+                    <Card>
+                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-sm font-medium">P90 Prep Time</CardTitle>
+                        <Timer className="h-4 w-4 text-muted-foreground" />
+                      </CardHeader>
+                      <CardContent>
+                        <div className="text-2xl font-bold" data-testid="text-kitchen-p90">{kitchenData?.overall.p90Minutes || 0} min</div>
+                      </CardContent>
+                    </Card>
+                    <Card>
+                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-sm font-medium">SLA Breach Rate</CardTitle>
+                        <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+                      </CardHeader>
+                      <CardContent>
+                        <div className="text-2xl font-bold" data-testid="text-kitchen-breach-rate">{kitchenData?.overall.breachRate || 0}%</div>
+                        <p className="text-xs text-muted-foreground">
+                          {kitchenData?.overall.breaches || 0} tickets over target
+                        </p>
+                      </CardContent>
+                    </Card>
+                  </div>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Prep Time by Hour</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <ResponsiveContainer width="100%" height={300}>
+                        <BarChart data={kitchenData?.byHour || []}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="label" />
+                          <YAxis />
+                          <Tooltip />
+                          <Legend />
+                          <Bar dataKey="avgMinutes" fill="#ea580c" name="Avg (min)" />
+                          <Bar dataKey="p90Minutes" fill="#dc2626" name="P90 (min)" />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </CardContent>
+                  </Card>
+
+                  <KitchenPerformanceTable title="By Station" rows={kitchenData?.byStation || []} testId="table-kitchen-stations" />
+                  <KitchenPerformanceTable title="By Cook" rows={kitchenData?.byCook || []} testId="table-kitchen-cooks" />
+                </TabsContent>
+
+                <TabsContent value="food-cost" className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <Card>
+                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-sm font-medium">Item Sales</CardTitle>
+                        <DollarSign className="h-4 w-4 text-muted-foreground" />
+                      </CardHeader>
+                      <CardContent>
+                        <div className="text-2xl font-bold" data-testid="text-food-cost-sales">{formatCurrency(foodCostData?.summary.sales || 0)}</div>
+                        <p className="text-xs text-muted-foreground">
+                          {formatCurrency(foodCostData?.summary.totalRevenue || 0)} revenue from {foodCostData?.summary.orders || 0} orders
+                        </p>
+                      </CardContent>
+                    </Card>
+                    <Card>
+                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-sm font-medium">Cost of Goods Sold</CardTitle>
+                        <Package className="h-4 w-4 text-muted-foreground" />
+                      </CardHeader>
+                      <CardContent>
+                        <div className="text-2xl font-bold" data-testid="text-food-cost-cogs">{formatCurrency(foodCostData?.summary.costOfGoodsSold || 0)}</div>
+                        <p className="text-xs text-muted-foreground">
+                          Plus {formatCurrency(foodCostData?.summary.stockLosses || 0)} wastage and count losses
+                        </p>
+                      </CardContent>
+                    </Card>
+                    <Card>
+                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-sm font-medium">Actual Food Cost</CardTitle>
+                        <Percent className="h-4 w-4 text-muted-foreground" />
+                      </CardHeader>
+                      <CardContent>
+                        <div className="text-2xl font-bold" data-testid="text-food-cost-actual">{foodCostData?.summary.actualFoodCost || 0}%</div>
+                        <p className="text-xs text-muted-foreground">
+                          {formatCurrency(foodCostData?.summary.actualCost || 0)} of item sales
+                        </p>
+                      </CardContent>
+                    </Card>
+                    <Card>
+                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-sm font-medium">Theoretical Food Cost</CardTitle>
+                        <Percent className="h-4 w-4 text-muted-foreground" />
+                      </CardHeader>
+                      <CardContent>
+                        <div className="text-2xl font-bold" data-testid="text-food-cost-theoretical">{foodCostData?.summary.theoreticalFoodCost || 0}%</div>
+                        <p className="text-xs text-muted-foreground">
+                          {formatCurrency(foodCostData?.summary.variance || 0)} over recipe cost
+                        </p>
+                      </CardContent>
+                    </Card>
+                  </div>
+
+                  <FoodCostTable title="By Branch" rows={foodCostData?.byBranch || []} testId="table-food-cost-branches" />
+                  <FoodCostTable title="By Category" rows={foodCostData?.byCategory || []} testId="table-food-cost-categories" />
+                  <FoodCostTable title="By Menu Item" rows={foodCostData?.byItem || []} testId="table-food-cost-items" />
+                </TabsContent>
               </Tabs>
             )}
           </div>
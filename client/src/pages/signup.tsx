@@ -20,6 +20,7 @@ const signupSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   password: z.string().min(6, "Password must be at least 6 characters"),
   confirmPassword: z.string(),
+  referralCode: z.string().optional(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
@@ -30,6 +31,8 @@ type SignupForm = z.infer<typeof signupSchema>;
 export default function Signup() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  // Invite links carry the friend's code as ?ref=
+  const inviteCode = new URLSearchParams(window.location.search).get("ref") || "";
   
   const form = useForm<SignupForm>({
     resolver: zodResolver(signupSchema),
@@ -40,16 +43,21 @@ export default function Signup() {
       username: "",
       password: "",
       confirmPassword: "",
+      referralCode: inviteCode,
     },
   });
 
   const signupMutation = useMutation({
     mutationFn: async (data: SignupForm) => {
-      const { confirmPassword, ...signupData } = data;
+      const { confirmPassword, referralCode, ...signupData } = data;
       const response = await fetch("/api/auth/signup", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ ...signupData, role: "customer" }),
+        body: JSON.stringify({
+          ...signupData,
+          role: "customer",
+          ...(referralCode?.trim() && { referralCode: referralCode.trim() }),
+        }),
       });
       if (!response.ok) {
         const error = await response.json();
@@ -57,10 +65,12 @@ export default function Signup() {
       }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (user: { referralWarning?: string }) => {
       toast({
         title: "Account created successfully",
-        description: "Please sign in to continue",
+        description: user.referralWarning
+          ? `${user.referralWarning}. Please sign in to continue`
+          : "Please sign in to continue",
       });
       setLocation("/login");
     },
@@ -205,6 +215,24 @@ export default function Signup() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="referralCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Referral Code (optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Code from a friend"
+                        className="uppercase"
+                        data-testid="input-referral-code"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <Button
                 type="submit"
                 className="w-full"
@@ -3,7 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import AdminSidebar from "@/components/AdminSidebar";
 import AdminHeader from "@/components/AdminHeader";
-import OrderCard, { Order } from "@/components/OrderCard";
+import OrderCard, { Order, toOrderCardStatus } from "@/components/OrderCard";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/context/AuthContext";
 import { useSocketEvent } from "@/context/SocketContext";
@@ -47,13 +47,13 @@ export default function StaffDashboard() {
     customerPhone: order.customerPhone,
     items: JSON.parse(order.items),
     total: parseFloat(order.total),
-    status: (order.status === "completed" ? "delivered" : order.status) as Order["status"],
+    status: toOrderCardStatus(order.status),
     createdAt: new Date(order.createdAt),
   }));
 
   const updateOrderMutation = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      const res = await apiRequest(`/api/orders/${id}`, "PUT", { status });
+      const res = await apiRequest(`/api/orders/${id}/status`, "POST", { status });
       return await res.json();
     },
     onSuccess: () => {
@@ -102,12 +102,12 @@ export default function StaffDashboard() {
 
   const handleReject = (id: string) => {
     updateOrderMutation.mutate(
-      { id, status: "cancelled" },
+      { id, status: "rejected" },
       {
         onSuccess: () => {
           toast({
             title: "Order rejected",
-            description: "Order has been cancelled",
+            description: "Order has been rejected",
             variant: "destructive",
           });
         },
@@ -0,0 +1,58 @@
+import * as schema from "@shared/schema";
+import { asc, desc, isNotNull, sql } from "drizzle-orm";
+import { db, pool } from "./db";
+
+// Backfill branch_stock from the all-branch stockQuantity kept on menu items and ingredients.
+// Each item's stock is placed at the branch of its latest inventory transaction, or the first
+// branch if it has none. Safe to re-run: items that already have branch stock are skipped.
+async function backfillBranchStock() {
+  console.log("🔄 Backfilling branch stock...");
+  try {
+    const branches = await db.select().from(schema.branches).orderBy(asc(schema.branches.name));
+    if (branches.length === 0) {
+      console.log("No branches - nothing to backfill");
+      return;
+    }
+
+    const existing = await db.select().from(schema.branchStock);
+    const stocked = new Set(existing.map(row => row.ingredientId || row.menuItemId));
+    const transactions = await db.select().from(schema.inventoryTransactions)
+      .orderBy(desc(schema.inventoryTransactions.createdAt));
+    const branchFor = (item: schema.StockItemRef) => {
+      const latest = transactions.find(t => item.ingredientId
+        ? t.ingredientId === item.ingredientId
+        : t.menuItemId === item.menuItemId && !t.ingredientId);
+      return latest?.branchId || branches[0].id;
+    };
+
+    const menuItems = await db.select().from(schema.menuItems).where(isNotNull(schema.menuItems.stockQuantity));
+    const ingredients = await db.select().from(schema.ingredients);
+    const rows = [
+      ...menuItems.map(item => ({ menuItemId: item.id, onHand: item.stockQuantity || 0 })),
+      ...ingredients.map(item => ({ ingredientId: item.id, onHand: item.stockQuantity })),
+    ];
+
+    let created = 0;
+    for (const row of rows) {
+      const itemId = "ingredientId" in row ? row.ingredientId : row.menuItemId;
+      if (stocked.has(itemId)) continue;
+      await db.insert(schema.branchStock).values({
+        ...row,
+        branchId: branchFor(row),
+        reserved: 0,
+        available: row.onHand,
+      }).onConflictDoNothing();
+      created++;
+    }
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(schema.branchStock);
+    console.log(`✅ Backfilled ${created} items (${count} branch stock rows in total)`);
+  } catch (error) {
+    console.error("❌ Error backfilling branch stock:", error);
+    throw error;
+  } finally {
+    await pool.end();
+  }
+}
+
+backfillBranchStock();
@@ -0,0 +1,39 @@
+import * as schema from "@shared/schema";
+import { sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import { storage } from "./storage";
+
+// Backfill order_items from the legacy orders.items JSON for orders that have no line items yet.
+// Safe to re-run: orders that already have lines are skipped.
+async function backfillOrderItems() {
+  console.log("🔄 Backfilling order line items...");
+  try {
+    const orders = await db.select().from(schema.orders).where(
+      sql`not exists (select 1 from ${schema.orderItems} where ${schema.orderItems.orderId} = ${schema.orders.id})`
+    );
+    console.log(`Found ${orders.length} orders without line items`);
+
+    let migrated = 0;
+    let lines = 0;
+    let failed = 0;
+    for (const order of orders) {
+      try {
+        const created = await storage.syncOrderItems(order);
+        lines += created.length;
+        migrated++;
+      } catch (error) {
+        failed++;
+        console.error(`Failed to backfill order ${order.orderNumber}:`, error);
+      }
+    }
+
+    console.log(`✅ Backfilled ${lines} lines across ${migrated} orders (${failed} failed)`);
+  } catch (error) {
+    console.error("❌ Error backfilling order items:", error);
+    throw error;
+  } finally {
+    await pool.end();
+  }
+}
+
+backfillOrderItems();
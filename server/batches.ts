@@ -0,0 +1,104 @@
+import { storage } from "./storage";
+import { emitEvent } from "./websocket";
+import type { StockBatch } from "@shared/schema";
+
+// Stock batches - lots received with a lot number and/or expiry date. Each branch gets a daily
+// list of batches expiring within its expiryWarningDays; branches with autoWriteOffExpiredStock
+// have expired batches written off as wastage.
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function batchError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+function expiryReason(batch: StockBatch, automatic: boolean) {
+  const lot = batch.lotNumber ? ` (lot ${batch.lotNumber})` : "";
+  const date = batch.expiryDate ? new Date(batch.expiryDate).toISOString().split("T")[0] : "";
+  return `Batch${lot} expired ${date}${automatic ? " - written off automatically" : ""}`;
+}
+
+// Active batches already expired, and those expiring within the window (the branch's setting by default)
+export async function getExpiringBatches(branchId: string, days?: number) {
+  const settings = await storage.getEffectiveSystemSettings(branchId);
+  const windowDays = days ?? settings.expiryWarningDays;
+  const now = new Date();
+  const batches = await storage.getStockBatches({
+    branchId,
+    statuses: ["active"],
+    expiresBefore: new Date(now.getTime() + windowDays * DAY_MS),
+  });
+  return {
+    days: windowDays,
+    expired: batches.filter(batch => new Date(batch.expiryDate!) <= now),
+    expiringSoon: batches.filter(batch => new Date(batch.expiryDate!) > now),
+  };
+}
+
+export async function writeOffStockBatch(id: string, reportedBy: string | null) {
+  const batch = await storage.getStockBatch(id);
+  if (!batch) {
+    throw batchError("Batch not found", 404);
+  }
+  if (batch.status !== "active") {
+    throw batchError(`Batch is already ${batch.status.replace("_", " ")}`, 400);
+  }
+  const wastage = await storage.writeOffStockBatch(id, reportedBy, expiryReason(batch, false));
+  if (!wastage) {
+    throw batchError("Batch was written off by someone else", 409);
+  }
+  return wastage;
+}
+
+// Branch -> the local day its expiring list last went out
+const listSent = new Map<string, string>();
+
+export async function checkStockExpiry() {
+  const branches = (await storage.getAllBranches()).filter(branch => branch.isActive);
+  for (const branch of branches) {
+    const settings = await storage.getEffectiveSystemSettings(branch.id);
+    const { days, expired, expiringSoon } = await getExpiringBatches(branch.id);
+
+    const writtenOff: StockBatch[] = [];
+    if (settings.autoWriteOffExpiredStock) {
+      for (const batch of expired) {
+        if (await storage.writeOffStockBatch(batch.id, null, expiryReason(batch, true))) {
+          writtenOff.push(batch);
+        }
+      }
+    }
+
+    const today = new Intl.DateTimeFormat("en-CA", { timeZone: settings.timezone }).format(new Date());
+    if (listSent.get(branch.id) === today) continue;
+    listSent.set(branch.id, today);
+    if (expired.length === 0 && expiringSoon.length === 0) continue;
+
+    emitEvent.stockExpiring({
+      branchId: branch.id,
+      branchName: branch.name,
+      date: today,
+      days,
+      expiringSoon,
+      expired: expired.filter(batch => !writtenOff.includes(batch)),
+      writtenOff,
+    });
+  }
+}
+
+export function startExpiryMonitor() {
+  let running = false;
+  const run = () => {
+    if (running) return;
+    running = true;
+    checkStockExpiry()
+      .catch(error => console.error("Stock expiry check error:", error))
+      .finally(() => { running = false; });
+  };
+  const timer = setInterval(run, CHECK_INTERVAL_MS);
+  run();
+  console.log("Stock expiry monitor started");
+  return () => clearInterval(timer);
+}
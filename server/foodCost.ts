@@ -0,0 +1,191 @@
+import { storage } from "./storage";
+import { calculateStockUsage } from "./inventory";
+import { roundMoney } from "@shared/pricing";
+import type { BranchStock, InventoryTransaction, Order, OrderItem } from "@shared/schema";
+
+// Food cost - what sold items cost against what they sold for.
+// Theoretical cost is the recipe at each ingredient's standard cost per unit (finished items at the
+// branch's average cost). Actual cost is the cost of goods sold posted on the orders' sale movements,
+// spread over the order's lines by their theoretical cost; at branch level it also carries stock lost
+// to wastage and count adjustments. Sales are order line totals, as in the /api/reports product and
+// category figures.
+
+// Orders the kitchen has started - their stock has left the shelf as sales
+const SOLD_ORDER_STATUSES = ["preparing", "ready", "out_for_delivery", "completed"];
+
+export interface FoodCostRow {
+  key: string;
+  label: string;
+  quantity: number;
+  sales: number;
+  theoreticalCost: number;
+  actualCost: number;
+  variance: number; // actual - theoretical
+  theoreticalFoodCost: number; // % of sales
+  actualFoodCost: number; // % of sales
+}
+
+export interface BranchFoodCostRow extends FoodCostRow {
+  costOfGoodsSold: number;
+  stockLosses: number;
+}
+
+type Totals = Pick<FoodCostRow, "quantity" | "sales" | "theoreticalCost" | "actualCost">;
+
+const percentOf = (cost: number, sales: number) => sales > 0 ? Math.round((cost / sales) * 1000) / 10 : 0;
+
+function toRow(key: string, label: string, totals: Totals): FoodCostRow {
+  const theoreticalCost = roundMoney(totals.theoreticalCost);
+  const actualCost = roundMoney(totals.actualCost);
+  return {
+    key,
+    label,
+    quantity: totals.quantity,
+    sales: roundMoney(totals.sales),
+    theoreticalCost,
+    actualCost,
+    variance: roundMoney(actualCost - theoreticalCost),
+    theoreticalFoodCost: percentOf(theoreticalCost, totals.sales),
+    actualFoodCost: percentOf(actualCost, totals.sales),
+  };
+}
+
+function addTo(groups: Map<string, Totals & { label: string }>, key: string, label: string, line: Totals) {
+  const group = groups.get(key) || { label, quantity: 0, sales: 0, theoreticalCost: 0, actualCost: 0 };
+  group.quantity += line.quantity;
+  group.sales += line.sales;
+  group.theoreticalCost += line.theoreticalCost;
+  group.actualCost += line.actualCost;
+  groups.set(key, group);
+}
+
+// Cost of goods sold on an order: its sale movements less anything returned
+function orderCostOfGoods(transactions: InventoryTransaction[]) {
+  return -transactions
+    .filter(t => t.transactionType === "sale" || t.transactionType === "return")
+    .reduce((sum, t) => sum + parseFloat(t.totalCost || "0"), 0);
+}
+
+export async function getFoodCostReport(filters: { branchId?: string; from: Date; to: Date }) {
+  const orders: Order[] = (filters.branchId ? await storage.getOrdersByBranch(filters.branchId) : await storage.getAllOrders())
+    .filter(order => {
+      const createdAt = new Date(order.createdAt);
+      return createdAt >= filters.from && createdAt <= filters.to && SOLD_ORDER_STATUSES.includes(order.status);
+    });
+  const orderIds = orders.map(order => order.id);
+
+  const [lines, transactions, losses, recipeItems, ingredients, menuItems, categories, branches] = await Promise.all([
+    storage.getOrderItemsByOrderIds(orderIds),
+    storage.getInventoryTransactionsByOrderIds(orderIds),
+    storage.getInventoryTransactionsBetween(filters.branchId || null, filters.from, filters.to, ["wastage", "adjustment"]),
+    storage.getAllRecipeItems(),
+    storage.getAllIngredients(),
+    storage.getAllMenuItems(),
+    storage.getAllCategories(),
+    storage.getAllBranches(),
+  ]);
+
+  const ingredientCost = new Map(ingredients.map(i => [i.id, parseFloat(i.costPerUnit)]));
+  const menuItemById = new Map(menuItems.map(m => [m.id, m]));
+  const categoryName = new Map(categories.map(c => [c.id, c.name]));
+  const branchName = new Map(branches.map(b => [b.id, b.name]));
+
+  // Finished items have no standard cost, so they are valued at the branch's average (or last purchase) cost
+  const branchStock = new Map<string, BranchStock[]>();
+  const finishedCost = new Map<string, number>();
+  async function finishedItemCost(branchId: string, menuItemId: string) {
+    const key = `${branchId}:${menuItemId}`;
+    if (!finishedCost.has(key)) {
+      if (!branchStock.has(branchId)) branchStock.set(branchId, await storage.getBranchStock(branchId));
+      const level = branchStock.get(branchId)!.find(row => row.menuItemId === menuItemId);
+      const average = parseFloat(level?.averageCost || "0");
+      finishedCost.set(key, average > 0 ? average : (await storage.getLastPurchaseUnitCost({ menuItemId })) ?? 0);
+    }
+    return finishedCost.get(key)!;
+  }
+
+  async function theoreticalLineCost(line: OrderItem, branchId: string) {
+    const usage = calculateStockUsage([line], recipeItems);
+    let cost = 0;
+    for (const [ingredientId, quantity] of Array.from(usage.ingredients)) {
+      cost += quantity * (ingredientCost.get(ingredientId) || 0);
+    }
+    for (const [menuItemId, quantity] of Array.from(usage.menuItems)) {
+      cost += quantity * await finishedItemCost(branchId, menuItemId);
+    }
+    return cost;
+  }
+
+  const byItem = new Map<string, Totals & { label: string }>();
+  const byCategory = new Map<string, Totals & { label: string }>();
+  const byBranch = new Map<string, Totals & { label: string }>();
+  const branchCostOfGoods = new Map<string, number>();
+
+  for (const order of orders) {
+    const orderLines = lines.filter(line => line.orderId === order.id);
+    const costOfGoods = orderCostOfGoods(transactions.filter(t => t.orderId === order.id));
+    branchCostOfGoods.set(order.branchId, (branchCostOfGoods.get(order.branchId) || 0) + costOfGoods);
+
+    const theoretical = await Promise.all(orderLines.map(line => theoreticalLineCost(line, order.branchId)));
+    const orderTheoretical = theoretical.reduce((sum, cost) => sum + cost, 0);
+    const orderSales = orderLines.reduce((sum, line) => sum + parseFloat(line.lineTotal), 0);
+
+    orderLines.forEach((line, index) => {
+      const sales = parseFloat(line.lineTotal);
+      // Sale movements are per order, not per line, so each line takes its share of them
+      const share = orderTheoretical > 0
+        ? theoretical[index] / orderTheoretical
+        : orderSales > 0 ? sales / orderSales : 1 / orderLines.length;
+      const totals = { quantity: line.quantity, sales, theoreticalCost: theoretical[index], actualCost: costOfGoods * share };
+
+      const menuItem = line.menuItemId ? menuItemById.get(line.menuItemId) : undefined;
+      addTo(byItem, line.menuItemId || line.name, line.name, totals);
+      addTo(byCategory, menuItem?.categoryId || "uncategorised", (menuItem?.categoryId && categoryName.get(menuItem.categoryId)) || "Other", totals);
+      addTo(byBranch, order.branchId, branchName.get(order.branchId) || "Unknown branch", totals);
+    });
+  }
+
+  // Wastage and count adjustments (negative totalCost for stock lost, positive for stock found)
+  const branchLosses = new Map<string, number>();
+  for (const loss of losses) {
+    branchLosses.set(loss.branchId, (branchLosses.get(loss.branchId) || 0) - parseFloat(loss.totalCost || "0"));
+  }
+
+  const branchIds = Array.from(new Set([...Array.from(byBranch.keys()), ...Array.from(branchLosses.keys())]));
+  const byBranchRows: BranchFoodCostRow[] = branchIds.map(branchId => {
+    const totals = byBranch.get(branchId) || { label: branchName.get(branchId) || "Unknown branch", quantity: 0, sales: 0, theoreticalCost: 0, actualCost: 0 };
+    const costOfGoodsSold = roundMoney(branchCostOfGoods.get(branchId) || 0);
+    const stockLosses = roundMoney(branchLosses.get(branchId) || 0);
+    return {
+      ...toRow(branchId, totals.label, { ...totals, actualCost: costOfGoodsSold + stockLosses }),
+      costOfGoodsSold,
+      stockLosses,
+    };
+  }).sort((a, b) => b.sales - a.sales);
+
+  const rows = (groups: Map<string, Totals & { label: string }>) =>
+    Array.from(groups.entries()).map(([key, group]) => toRow(key, group.label, group)).sort((a, b) => b.actualCost - a.actualCost);
+
+  const sales = byBranchRows.reduce((sum, row) => sum + row.sales, 0);
+  const theoreticalCost = byBranchRows.reduce((sum, row) => sum + row.theoreticalCost, 0);
+  const costOfGoodsSold = roundMoney(byBranchRows.reduce((sum, row) => sum + row.costOfGoodsSold, 0));
+  const stockLosses = roundMoney(byBranchRows.reduce((sum, row) => sum + row.stockLosses, 0));
+
+  return {
+    summary: {
+      ...toRow("all", "All branches", {
+        quantity: byBranchRows.reduce((sum, row) => sum + row.quantity, 0),
+        sales,
+        theoreticalCost,
+        actualCost: costOfGoodsSold + stockLosses,
+      }),
+      orders: orders.length,
+      totalRevenue: roundMoney(orders.reduce((sum, order) => sum + parseFloat(order.total), 0)), // Order totals, as the /api/reports overview
+      costOfGoodsSold,
+      stockLosses,
+    },
+    byItem: rows(byItem),
+    byCategory: rows(byCategory),
+    byBranch: byBranchRows,
+  };
+}
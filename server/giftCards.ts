@@ -0,0 +1,219 @@
+import crypto from "crypto";
+import { storage, type GiftCardTender } from "./storage";
+import { roundMoney } from "@shared/pricing";
+import type { GiftCard, GiftCardSale, Order } from "@shared/schema";
+
+// Gift cards - prepaid codes with a balance, sold at the POS (paid there and then) or bought online
+// through Stripe Checkout (active once the payment is confirmed). A card pays for part or all of any
+// order as a "gift_card" tender; what was paid goes back onto the card if the order is cancelled or
+// rejected, or refunded to the gift card.
+
+export const GIFT_CARD_TENDER_METHOD = "gift_card";
+
+function giftCardError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+// Codes are bearer tenders, so they carry 80 bits: GC- and four groups of four characters
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // No 0/O or 1/I lookalikes
+const CODE_LENGTH = 16;
+
+function generateGiftCardCode() {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  }
+  return `GC-${code.match(/.{4}/g)!.join("-")}`;
+}
+
+// Balance lookups are open to anyone holding a card, so each caller gets a few a minute
+const balanceLookups = new Map<string, number>();
+const BALANCE_LOOKUP_WINDOW = 60 * 1000; // 1 minute
+const MAX_BALANCE_LOOKUPS_PER_WINDOW = 10;
+
+function throttleBalanceLookup(caller: string) {
+  const recent = balanceLookups.get(caller) || 0;
+  if (recent >= MAX_BALANCE_LOOKUPS_PER_WINDOW) {
+    throw giftCardError("Too many gift card lookups - please try again in a minute", 429);
+  }
+  balanceLookups.set(caller, recent + 1);
+  setTimeout(() => {
+    const current = balanceLookups.get(caller) || 0;
+    if (current <= 1) {
+      balanceLookups.delete(caller);
+    } else {
+      balanceLookups.set(caller, current - 1);
+    }
+  }, BALANCE_LOOKUP_WINDOW);
+}
+
+const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+function saleDetails(sale: GiftCardSale) {
+  const amount = roundMoney(sale.amount).toFixed(2);
+  return {
+    code: generateGiftCardCode(),
+    initialValue: amount,
+    balance: amount,
+    recipientName: sale.recipientName || null,
+    recipientEmail: sale.recipientEmail || null,
+    message: sale.message || null,
+  };
+}
+
+// Sold at the counter - the card is paid for there and then, so it is active straight away
+export async function sellGiftCard(sale: GiftCardSale, soldBy: string) {
+  if (!sale.branchId) {
+    throw giftCardError("Branch is required", 400);
+  }
+  const session = await storage.getActivePosSession(sale.branchId);
+  return await storage.createGiftCard({
+    ...saleDetails(sale),
+    status: "active",
+    branchId: sale.branchId,
+    sessionId: session?.id ?? null,
+    purchaserId: sale.customerId || null,
+    paymentMethod: sale.paymentMethod,
+    paymentReference: sale.paymentReference || null,
+    soldBy,
+    activatedAt: new Date(),
+  }, soldBy);
+}
+
+// Bought online - the card waits for its Stripe Checkout payment, and the customer is sent to pay
+export async function purchaseGiftCard(sale: GiftCardSale, customerId: string, customerEmail: string, returnUrl: string) {
+  const settings = await storage.getEffectiveSystemSettings(null);
+  if (!settings.enableStripe) {
+    throw giftCardError("Card payments are not available", 400);
+  }
+  const card = await storage.createGiftCard({
+    ...saleDetails(sale),
+    status: "pending",
+    purchaserId: customerId,
+    paymentMethod: "stripe",
+  }, null);
+
+  const { stripeService } = await import("./stripeService");
+  const separator = returnUrl.includes("?") ? "&" : "?";
+  const session = await stripeService.createCheckoutSession({
+    amount: parseFloat(card.initialValue),
+    customerEmail,
+    description: `Kebabish Pizza gift card - ${card.initialValue}`,
+    successUrl: `${returnUrl}${separator}giftCard=${card.id}`,
+    cancelUrl: returnUrl,
+    metadata: { giftCardId: card.id },
+  });
+  const updated = await storage.updateGiftCard(card.id, { paymentReference: session.id });
+  return { giftCard: hideCode(updated || card), checkoutUrl: session.url };
+}
+
+// Activate an online purchase once Stripe reports it paid
+export async function confirmGiftCardPurchase(id: string, customerId: string) {
+  const card = await storage.getGiftCard(id);
+  if (!card || card.purchaserId !== customerId) {
+    throw giftCardError("Gift card not found", 404);
+  }
+  if (card.status !== "pending") {
+    return card;
+  }
+  if (!card.paymentReference) {
+    return hideCode(card);
+  }
+  const { stripeService } = await import("./stripeService");
+  const session = await stripeService.retrieveCheckoutSession(card.paymentReference);
+  if (session.metadata?.giftCardId !== card.id || session.payment_status !== "paid") {
+    return hideCode(card);
+  }
+  return await storage.activateGiftCard(card.id, session.id) || await storage.getGiftCard(card.id);
+}
+
+// A card's code is only shown once it has been paid for
+function hideCode(card: GiftCard) {
+  return card.status === "pending" ? { ...card, code: null } : card;
+}
+
+export async function getPurchasedGiftCards(customerId: string) {
+  const cards = await storage.getGiftCards();
+  return cards.filter(card => card.purchaserId === customerId).map(hideCode);
+}
+
+// Balance enquiry by code - nothing about the purchaser is given away
+// `caller` identifies who is asking (signed-in user or IP address) for throttling
+export async function getGiftCardBalance(code: string, caller: string) {
+  throttleBalanceLookup(caller);
+  const card = await storage.getGiftCardByCode(normalizeCode(code));
+  if (!card || card.status === "pending") {
+    throw giftCardError("Gift card not found", 404);
+  }
+  return {
+    code: card.code,
+    status: card.status,
+    balance: parseFloat(card.balance),
+    initialValue: parseFloat(card.initialValue),
+  };
+}
+
+export async function getGiftCardDetails(id: string) {
+  const card = await storage.getGiftCard(id);
+  if (!card) {
+    throw giftCardError("Gift card not found", 404);
+  }
+  const transactions = await storage.getGiftCardTransactions({ giftCardId: id });
+  return { ...card, transactions };
+}
+
+export async function voidGiftCard(id: string, reason: string, performedBy: string) {
+  if (!reason?.trim()) {
+    throw giftCardError("A reason is required", 400);
+  }
+  const card = await storage.voidGiftCard(id, reason.trim(), performedBy);
+  if (!card) {
+    throw giftCardError("Gift card not found or already voided", 404);
+  }
+  return card;
+}
+
+// Check the card and amount against the card's balance and the amount still due
+export async function prepareGiftCardTender(
+  code: string,
+  amountDue: number,
+  amount: number,
+  receivedBy: string | null = null
+): Promise<GiftCardTender> {
+  const card = await storage.getGiftCardByCode(normalizeCode(code));
+  if (!card || card.status === "pending") {
+    throw giftCardError("Gift card not found", 404);
+  }
+  if (card.status !== "active") {
+    throw giftCardError("Gift card has been voided", 400);
+  }
+  const value = roundMoney(amount);
+  if (!(value > 0)) {
+    throw giftCardError("Gift card amount must be above 0", 400);
+  }
+  if (value > parseFloat(card.balance)) {
+    throw giftCardError("Insufficient gift card balance", 400);
+  }
+  if (value > roundMoney(amountDue)) {
+    throw giftCardError(`At most ${roundMoney(amountDue).toFixed(2)} can be paid with the gift card`, 400);
+  }
+  return { giftCardId: card.id, amount: value.toFixed(2), receivedBy };
+}
+
+// What gift cards paid on the order, and how much of it has not gone back onto the cards
+export async function getOrderGiftCardTender(orderId: string) {
+  const transactions = await storage.getGiftCardTransactions({ orderId });
+  const paid = -transactions.filter(t => t.transactionType === "redeem").reduce((sum, t) => sum + parseFloat(t.amount), 0);
+  const returned = transactions.filter(t => t.transactionType !== "redeem").reduce((sum, t) => sum + parseFloat(t.amount), 0);
+  return { paid: roundMoney(paid), outstanding: roundMoney(paid - returned) };
+}
+
+// A cancelled or rejected order puts everything paid with gift cards back onto them
+export async function restoreOrderGiftCards(order: Order) {
+  return await storage.returnGiftCardTenders(order.id, null, {
+    transactionType: "restore",
+    reason: `order #${order.orderNumber} was ${order.status}`,
+  });
+}
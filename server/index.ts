@@ -3,6 +3,12 @@ import cookieParser from "cookie-parser";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeWebSocket } from "./websocket";
+import { startOutboxWorker } from "./outbox";
+import { startKitchenMonitor } from "./kitchen";
+import { startExpiryMonitor } from "./batches";
+import { startLoyaltyTierMonitor } from "./loyalty";
+import { startPointsExpiryMonitor } from "./pointsExpiry";
+import { startReferralMonitor } from "./referrals";
 import { WebhookHandlers } from "./webhookHandlers";
 
 const app = express();
@@ -130,6 +136,19 @@ app.use((req, res, next) => {
 
     initializeWebSocket(server);
 
+    // Background processing of order side effects recorded in the outbox
+    startOutboxWorker();
+    // Escalates unaccepted online orders and alerts on kitchen tickets past their prep-time target
+    startKitchenMonitor();
+    // Daily expiring-soon list per branch, and write-off of expired batches where enabled
+    startExpiryMonitor();
+    // Re-checks loyalty tiers so customers drop a tier as old orders leave the 12-month window
+    startLoyaltyTierMonitor();
+    // Expires loyalty points past their date and warns customers before points expire
+    startPointsExpiryMonitor();
+    // Rewards referrals whose first order was paid after it was completed
+    startReferralMonitor();
+
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
       const status = err.status || err.statusCode || 500;
       const message = err.message || "Internal Server Error";
@@ -0,0 +1,46 @@
+import type { OrderItem, RecipeItem } from "@shared/schema";
+
+// Stock consumed by order lines.
+// Menu items with a recipe of their own consume ingredients; items without one consume finished
+// stock (menuItems.stockQuantity) as before. Recipe lines tied to a variant option only (no menu
+// item) apply to any item sold with that option, on top of whichever of the two applies.
+
+export interface StockUsage {
+  menuItems: Map<string, number>; // menuItemId -> units sold
+  ingredients: Map<string, number>; // ingredientId -> base units used
+}
+
+function add(map: Map<string, number>, key: string, quantity: number) {
+  map.set(key, (map.get(key) || 0) + quantity);
+}
+
+export function calculateStockUsage(
+  orderItems: Pick<OrderItem, "menuItemId" | "quantity" | "variantOptions">[],
+  recipeItems: RecipeItem[]
+): StockUsage {
+  const usage: StockUsage = { menuItems: new Map(), ingredients: new Map() };
+  const recipeMenuItems = new Set(
+    recipeItems.filter(r => r.menuItemId).map(r => r.menuItemId as string)
+  );
+
+  for (const line of orderItems) {
+    if (!line.menuItemId || line.quantity <= 0) continue;
+
+    const optionIds = new Set(
+      (line.variantOptions || []).map(v => v.optionId).filter((id): id is string => !!id)
+    );
+    const hasRecipe = recipeMenuItems.has(line.menuItemId);
+    if (!hasRecipe) {
+      add(usage.menuItems, line.menuItemId, line.quantity);
+    }
+
+    for (const recipe of recipeItems) {
+      if (recipe.menuItemId && recipe.menuItemId !== line.menuItemId) continue;
+      if (recipe.variantOptionId && !optionIds.has(recipe.variantOptionId)) continue;
+      if (!recipe.menuItemId && !recipe.variantOptionId) continue;
+      add(usage.ingredients, recipe.ingredientId, recipe.quantity * line.quantity);
+    }
+  }
+
+  return usage;
+}
@@ -0,0 +1,357 @@
+import { storage } from "./storage";
+import { emitEvent } from "./websocket";
+import { SYSTEM_ACTOR, transitionOrderStatus, type OrderActor } from "./orderLifecycle";
+import type { KitchenTicket, Order, OrderItem } from "@shared/schema";
+
+// Kitchen routing - splits orders into one ticket per station and keeps the order
+// status in step with its tickets. Also runs the incoming lane for online orders and
+// watches ticket prep-time SLAs.
+
+export const KITCHEN_TICKET_STATUSES = ["pending", "preparing", "ready", "served"] as const;
+
+// Tickets that still need work at their station
+export const ACTIVE_TICKET_STATUSES = ["pending", "preparing"];
+
+export const DONE_TICKET_STATUSES = ["ready", "served"];
+
+function kitchenError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+const MONITOR_INTERVAL_MS = 30 * 1000;
+
+// Station for each menu item (the item's own station, else its category's) and its target prep time
+async function resolveRouting(lines: OrderItem[], defaultPrepMinutes: number): Promise<Map<string, { stationId: string | null; prepMinutes: number }>> {
+  const menuItemIds = Array.from(new Set(lines.map(line => line.menuItemId).filter((id): id is string => !!id)));
+  const [menuItems, categories] = await Promise.all([
+    Promise.all(menuItemIds.map(id => storage.getMenuItem(id))),
+    storage.getAllCategories(),
+  ]);
+  const categoryStations = new Map(categories.map(category => [category.id, category.kitchenStationId]));
+  const routing = new Map<string, { stationId: string | null; prepMinutes: number }>();
+  for (const menuItem of menuItems) {
+    if (!menuItem) continue;
+    routing.set(menuItem.id, {
+      stationId: menuItem.kitchenStationId || (menuItem.categoryId ? categoryStations.get(menuItem.categoryId) || null : null),
+      prepMinutes: menuItem.prepTimeMinutes || defaultPrepMinutes,
+    });
+  }
+  return routing;
+}
+
+// Create one ticket per station for the order's lines that have not been sent to the kitchen yet
+// (or only the given lines). Safe to call again - already ticketed lines are skipped.
+export async function createKitchenTickets(orderId: string, orderItemIds?: string[]): Promise<KitchenTicket[]> {
+  const order = await storage.getOrder(orderId);
+  if (!order) {
+    throw kitchenError("Order not found", 404);
+  }
+
+  const lines = (await storage.getOrderItems(orderId)).filter(line =>
+    !line.kitchenTicketId && (!orderItemIds || orderItemIds.includes(line.id))
+  );
+  if (lines.length === 0) return [];
+
+  const settings = await storage.getEffectiveSystemSettings(order.branchId);
+  const routing = await resolveRouting(lines, settings.kitchenPrepTimeTarget);
+  const stations = await storage.getAllKitchenStations();
+  const routeOf = (line: OrderItem) => (line.menuItemId ? routing.get(line.menuItemId) : undefined);
+
+  const groups = new Map<string | null, OrderItem[]>();
+  for (const line of lines) {
+    const stationId = routeOf(line)?.stationId || null;
+    groups.set(stationId, [...(groups.get(stationId) || []), line]);
+  }
+
+  const tickets: KitchenTicket[] = [];
+  const baseNumber = `KOT${Date.now()}`;
+  let index = 0;
+  for (const [stationId, stationLines] of Array.from(groups.entries())) {
+    const station = stationId ? stations.find(s => s.id === stationId) : undefined;
+    index++;
+    const ticket = await storage.createKitchenTicketForLines({
+      orderId: order.id,
+      branchId: order.branchId,
+      ticketNumber: groups.size > 1 ? `${baseNumber}-${index}` : baseNumber,
+      stationId: station?.id || null,
+      station: station?.name || null,
+      priority: "normal",
+      status: "pending",
+      // The ticket is done when its slowest item is
+      targetPrepMinutes: Math.max(...stationLines.map(line => routeOf(line)?.prepMinutes || settings.kitchenPrepTimeTarget)),
+      specialInstructions: order.notes,
+      items: JSON.stringify(stationLines.map(line => ({
+        orderItemId: line.id,
+        menuItemId: line.menuItemId,
+        name: line.name,
+        quantity: line.quantity,
+        variants: line.variantOptions,
+        specialInstructions: line.notes,
+      }))),
+    }, stationLines.map(line => line.id));
+    tickets.push(ticket);
+  }
+  return tickets;
+}
+
+export async function updateKitchenTicketStatus(ticketId: string, status: string, userId: string | null): Promise<KitchenTicket> {
+  if (!(KITCHEN_TICKET_STATUSES as readonly string[]).includes(status)) {
+    throw kitchenError("Invalid ticket status", 400);
+  }
+
+  const ticket = await storage.getKitchenTicket(ticketId);
+  if (!ticket) {
+    throw kitchenError("Ticket not found", 404);
+  }
+  if (ticket.status === status) {
+    return ticket;
+  }
+
+  const updates: Record<string, any> = { status };
+  if (status === "preparing") {
+    updates.startedAt = ticket.startedAt || new Date();
+    updates.preparedBy = userId || ticket.preparedBy;
+  }
+  if (status === "ready") {
+    updates.completedAt = new Date();
+    updates.startedAt = ticket.startedAt || updates.completedAt;
+    updates.preparedBy = ticket.preparedBy || userId;
+    // Late bumps the monitor has not flagged yet still count as breaches
+    if (!ticket.slaBreachedAt && prepMinutes(ticket, updates.completedAt) > ticket.targetPrepMinutes) {
+      updates.slaBreachedAt = updates.completedAt;
+    }
+  }
+  if (status === "pending") {
+    // Recalled by the station
+    updates.startedAt = null;
+    updates.completedAt = null;
+  }
+
+  const updatedTicket = await storage.updateKitchenTicket(ticketId, updates);
+  if (!updatedTicket) {
+    throw kitchenError("Ticket not found", 404);
+  }
+
+  await syncOrderWithTickets(updatedTicket.orderId);
+  return updatedTicket;
+}
+
+// First ticket started -> order preparing; every ticket done -> order ready
+export async function syncOrderWithTickets(orderId: string) {
+  const [order, tickets] = await Promise.all([
+    storage.getOrder(orderId),
+    storage.getKitchenTicketsByOrder(orderId),
+  ]);
+  if (!order || tickets.length === 0) return;
+
+  const anyStarted = tickets.some(ticket => ticket.status !== "pending");
+  const allDone = tickets.every(ticket => DONE_TICKET_STATUSES.includes(ticket.status));
+
+  try {
+    if ((anyStarted || allDone) && (order.status === "pending" || order.status === "confirmed")) {
+      await transitionOrderStatus(orderId, "preparing", SYSTEM_ACTOR, { reason: "Kitchen started the order" });
+    }
+    if (allDone && (order.status === "pending" || order.status === "confirmed" || order.status === "preparing")) {
+      await transitionOrderStatus(orderId, "ready", SYSTEM_ACTOR, { reason: "All kitchen stations done" });
+    }
+  } catch (error: any) {
+    console.warn(`Order ${orderId} not synced with its kitchen tickets: ${error.message}`);
+  }
+}
+
+// Minutes from the ticket reaching the kitchen until it was bumped (or until now)
+export function prepMinutes(ticket: KitchenTicket, until: Date = ticket.completedAt || new Date()): number {
+  return (until.getTime() - new Date(ticket.createdAt).getTime()) / 60000;
+}
+
+// Flag open tickets that ran past their target and alert the branch room (once per ticket)
+export async function checkKitchenSla() {
+  const now = new Date();
+  const tickets = await storage.getKitchenTickets({ statuses: ACTIVE_TICKET_STATUSES });
+  for (const ticket of tickets) {
+    if (ticket.slaBreachedAt || prepMinutes(ticket, now) <= ticket.targetPrepMinutes) continue;
+
+    const breached = await storage.markKitchenTicketSlaBreached(ticket.id, now);
+    if (!breached) continue;
+
+    const order = await storage.getOrder(ticket.orderId);
+    if (!order || order.status === "cancelled" || order.status === "rejected") continue;
+
+    emitEvent.kitchenTicketUpdated(breached);
+    emitEvent.kitchenSlaBreached({
+      ticketId: breached.id,
+      ticketNumber: breached.ticketNumber,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      branchId: breached.branchId,
+      stationId: breached.stationId,
+      station: breached.station,
+      status: breached.status,
+      targetPrepMinutes: breached.targetPrepMinutes,
+      elapsedMinutes: Math.floor(prepMinutes(breached, now)),
+    });
+  }
+}
+
+// Accept an incoming online/phone order with the kitchen's prep-time estimate
+export async function acceptIncomingOrder(orderId: string, prepMinutes: number, actor: OrderActor): Promise<Order> {
+  if (!Number.isInteger(prepMinutes) || prepMinutes < 1 || prepMinutes > 240) {
+    throw kitchenError("Estimated prep time must be between 1 and 240 minutes", 400);
+  }
+  await assertIncoming(orderId);
+
+  const order = await transitionOrderStatus(orderId, "confirmed", actor, {
+    reason: `Accepted, ready in about ${prepMinutes} minutes`,
+    changes: { acceptedAt: new Date(), estimatedPrepMinutes: prepMinutes },
+  });
+  emitEvent.orderAccepted(order);
+  return order;
+}
+
+export async function rejectIncomingOrder(orderId: string, reason: string, actor: OrderActor): Promise<Order> {
+  if (!reason || !reason.trim()) {
+    throw kitchenError("A reason is required to reject an order", 400);
+  }
+  await assertIncoming(orderId);
+
+  const order = await transitionOrderStatus(orderId, "rejected", actor, {
+    reason: reason.trim(),
+    changes: { rejectionReason: reason.trim() },
+  });
+  emitEvent.orderRejected(order);
+  return order;
+}
+
+async function assertIncoming(orderId: string) {
+  const order = await storage.getOrder(orderId);
+  if (!order) {
+    throw kitchenError("Order not found", 404);
+  }
+  if (order.orderSource === "pos") {
+    throw kitchenError("POS orders do not need to be accepted", 400);
+  }
+  if (order.status !== "pending") {
+    throw kitchenError(`Order was already ${order.status}`, 409);
+  }
+}
+
+// Escalate online orders nobody accepted within the branch's orderAcceptTimeoutMinutes (once per order)
+export async function checkIncomingOrders() {
+  const now = new Date();
+  const orders = await storage.getUnacceptedOrders();
+  const timeouts = new Map<string, number>();
+
+  for (const order of orders) {
+    if (order.escalatedAt) continue;
+    if (!timeouts.has(order.branchId)) {
+      const settings = await storage.getEffectiveSystemSettings(order.branchId);
+      timeouts.set(order.branchId, settings.orderAcceptTimeoutMinutes);
+    }
+    const waitingMinutes = (now.getTime() - new Date(order.createdAt).getTime()) / 60000;
+    if (waitingMinutes < timeouts.get(order.branchId)!) continue;
+
+    const escalated = await storage.markOrderEscalated(order.id, now);
+    if (!escalated) continue;
+
+    await storage.createOrderModification({
+      orderId: escalated.id,
+      modifiedBy: null,
+      modificationType: "escalated",
+      description: `Not accepted after ${Math.floor(waitingMinutes)} minutes - escalated to managers`,
+    });
+    emitEvent.orderEscalated(escalated);
+  }
+}
+
+// Periodic kitchen checks: unaccepted online orders and ticket SLAs
+export function startKitchenMonitor() {
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    Promise.all([
+      checkIncomingOrders().catch(error => console.error("Incoming order check error:", error)),
+      checkKitchenSla().catch(error => console.error("Kitchen SLA check error:", error)),
+    ]).finally(() => { running = false; });
+  }, MONITOR_INTERVAL_MS);
+  console.log("Kitchen monitor started");
+  return () => clearInterval(timer);
+}
+
+export interface KitchenPerformanceRow {
+  key: string;
+  label: string;
+  tickets: number;
+  avgMinutes: number;
+  p90Minutes: number;
+  breaches: number;
+  breachRate: number; // Percent of tickets over target
+}
+
+function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) return 0;
+  const index = Math.ceil((p / 100) * sortedValues.length) - 1;
+  return sortedValues[Math.min(sortedValues.length - 1, Math.max(0, index))];
+}
+
+function summarize(key: string, label: string, tickets: KitchenTicket[]): KitchenPerformanceRow {
+  const durations = tickets.map(ticket => prepMinutes(ticket)).sort((a, b) => a - b);
+  const breaches = tickets.filter(ticket => prepMinutes(ticket) > ticket.targetPrepMinutes).length;
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    key,
+    label,
+    tickets: tickets.length,
+    avgMinutes: round(durations.reduce((sum, d) => sum + d, 0) / (durations.length || 1)),
+    p90Minutes: round(percentile(durations, 90)),
+    breaches,
+    breachRate: round(tickets.length > 0 ? (breaches / tickets.length) * 100 : 0),
+  };
+}
+
+function groupBy(tickets: KitchenTicket[], keyOf: (ticket: KitchenTicket) => string): Map<string, KitchenTicket[]> {
+  const groups = new Map<string, KitchenTicket[]>();
+  for (const ticket of tickets) {
+    const key = keyOf(ticket);
+    groups.set(key, [...(groups.get(key) || []), ticket]);
+  }
+  return groups;
+}
+
+// Prep-time performance of bumped tickets created in the range, by station, hour of day and cook
+export async function getKitchenPerformance(filters: { branchId?: string; from: Date; to: Date }) {
+  const tickets = (await storage.getKitchenTickets({
+    branchId: filters.branchId,
+    statuses: DONE_TICKET_STATUSES,
+    from: filters.from,
+    to: filters.to,
+  })).filter(ticket => ticket.completedAt);
+
+  const settings = await storage.getEffectiveSystemSettings(filters.branchId);
+  const hourFormat = new Intl.DateTimeFormat("en-US", { hour: "numeric", hourCycle: "h23", timeZone: settings.timezone });
+  const hourOf = (ticket: KitchenTicket) => String(Number(hourFormat.format(new Date(ticket.createdAt)))).padStart(2, "0");
+
+  const cookIds = Array.from(new Set(tickets.map(ticket => ticket.preparedBy).filter((id): id is string => !!id)));
+  const cooks = new Map((await Promise.all(cookIds.map(id => storage.getUser(id))))
+    .filter(Boolean)
+    .map(user => [user!.id, user!.fullName]));
+
+  const byStation = Array.from(groupBy(tickets, ticket => ticket.stationId || "none").entries())
+    .map(([key, group]) => summarize(key, group[0].station || "Unassigned", group))
+    .sort((a, b) => b.tickets - a.tickets);
+  const byHour = Array.from(groupBy(tickets, hourOf).entries())
+    .map(([hour, group]) => summarize(hour, `${hour}:00`, group))
+    .sort((a, b) => a.key.localeCompare(b.key));
+  const byCook = Array.from(groupBy(tickets, ticket => ticket.preparedBy || "none").entries())
+    .map(([key, group]) => summarize(key, cooks.get(key) || "Unknown", group))
+    .sort((a, b) => b.tickets - a.tickets);
+
+  return {
+    overall: summarize("all", "All stations", tickets),
+    byStation,
+    byHour,
+    byCook,
+  };
+}
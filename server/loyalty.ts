@@ -0,0 +1,204 @@
+import { storage } from "./storage";
+import { emitEvent } from "./websocket";
+import {
+  DEFAULT_LOYALTY_TIERS,
+  type InsertLoyaltyTier,
+  type LoyaltyPoints,
+  type LoyaltyTier,
+  type LoyaltyTierMetric,
+  type LoyaltyTierTable,
+  type Order,
+  type SystemSettingsValues,
+} from "@shared/schema";
+
+// Loyalty tiers - a customer sits in the highest active tier whose threshold their qualifying value
+// has reached: lifetime points earned, or spend / order count over the last 12 months. Tiers are
+// re-checked whenever the customer's points or orders change, and on a timer so that customers
+// drop a tier once old orders leave the 12-month window. Higher tiers earn points faster and can
+// come with free delivery.
+
+const CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const ROLLING_MONTHS = 12;
+
+export interface TierLevel {
+  code: string;
+  name: string;
+  threshold: number;
+  earnMultiplier: number;
+  freeDelivery: boolean;
+  perks: string[];
+}
+
+function toLevel(tier: LoyaltyTier | InsertLoyaltyTier): TierLevel {
+  return {
+    code: tier.code,
+    name: tier.name,
+    threshold: parseFloat(tier.threshold || "0"),
+    earnMultiplier: parseFloat(tier.earnMultiplier || "1"),
+    freeDelivery: !!tier.freeDelivery,
+    perks: (tier.perks as string[]) || [],
+  };
+}
+
+// Saved tiers, or the defaults until any have been saved
+export async function getLoyaltyTierConfig() {
+  const [saved, settings] = await Promise.all([
+    storage.getLoyaltyTiers(),
+    storage.getEffectiveSystemSettings(null),
+  ]);
+  return {
+    metric: settings.loyaltyTierMetric,
+    tiers: saved.length > 0 ? saved : DEFAULT_LOYALTY_TIERS,
+    usingDefaults: saved.length === 0,
+  };
+}
+
+// Active tiers, lowest threshold first - the first is where new customers start
+export async function getLoyaltyTierLadder(): Promise<{ metric: LoyaltyTierMetric; tiers: TierLevel[] }> {
+  const config = await getLoyaltyTierConfig();
+  const tiers = config.tiers
+    .filter(tier => tier.isActive !== false)
+    .map(toLevel)
+    .sort((a, b) => a.threshold - b.threshold);
+  return { metric: config.metric, tiers };
+}
+
+function tierFor(value: number, tiers: TierLevel[]) {
+  return tiers.filter(tier => value >= tier.threshold).pop() || tiers[0];
+}
+
+function currentTier(points: LoyaltyPoints | undefined, tiers: TierLevel[]) {
+  return tiers.find(tier => tier.code === points?.tier) || tiers[0];
+}
+
+async function qualifyingValue(customerId: string, metric: LoyaltyTierMetric, points: LoyaltyPoints | undefined) {
+  if (metric === "lifetime_points") {
+    return points?.lifetimeEarned || 0;
+  }
+  const since = new Date();
+  since.setMonth(since.getMonth() - ROLLING_MONTHS);
+  const activity = await storage.getCustomerOrderActivity(customerId, since);
+  return metric === "rolling_spend" ? activity.totalSpent : activity.orderCount;
+}
+
+export async function getCustomerTier(customerId: string) {
+  const [{ tiers }, points] = await Promise.all([getLoyaltyTierLadder(), storage.getLoyaltyPoints(customerId)]);
+  return currentTier(points, tiers);
+}
+
+// Points for an order at the customer's current tier
+export async function calculateOrderPoints(order: Order) {
+  const basePoints = await storage.calculateEarnedPoints(parseFloat(order.total), order.branchId);
+  if (basePoints <= 0 || !order.customerId) {
+    return { points: 0, tier: null };
+  }
+  const tier = await getCustomerTier(order.customerId);
+  return { points: Math.floor(basePoints * tier.earnMultiplier), tier };
+}
+
+// Free delivery perk - only while the loyalty program is running at the branch
+export async function hasTierFreeDelivery(customerId: string | null | undefined, settings: SystemSettingsValues) {
+  if (!customerId || !settings.enableLoyaltyProgram) return null;
+  const tier = await getCustomerTier(customerId);
+  return tier.freeDelivery ? tier : null;
+}
+
+// Move the customer to the tier they now qualify for, recording and announcing any change
+export async function evaluateCustomerTier(customerId: string) {
+  const { metric, tiers } = await getLoyaltyTierLadder();
+  const points = await storage.getLoyaltyPoints(customerId);
+  const tier = tierFor(await qualifyingValue(customerId, metric, points), tiers);
+  const previous = points ? tiers.find(t => t.code === points.tier) : tiers[0];
+  if (previous?.code === tier.code) return tier;
+
+  await storage.createOrUpdateLoyaltyPoints(customerId, { tier: tier.code, tierUpdatedAt: new Date() });
+  // A tier that no longer exists is just corrected to the entry tier
+  if (!previous && tier.code === tiers[0].code) return tier;
+
+  const promoted = !previous || tier.threshold > previous.threshold;
+  await storage.createLoyaltyTransaction({
+    customerId,
+    transactionType: "tier_change",
+    points: 0,
+    balanceAfter: points?.availablePoints || 0,
+    description: promoted ? `Promoted to ${tier.name}` : `Moved to ${tier.name}`,
+  });
+  await storage.createCustomerNotification({
+    customerId,
+    type: "tier_changed",
+    title: promoted ? `Welcome to ${tier.name}!` : `You are now a ${tier.name} member`,
+    message: tier.perks.length > 0 ? tier.perks.join(" · ") : `Your loyalty tier is now ${tier.name}`,
+  });
+  emitEvent.loyaltyTierChanged({
+    customerId,
+    previousTier: previous?.code || null,
+    tier: tier.code,
+    tierName: tier.name,
+    promoted,
+    perks: tier.perks,
+  });
+  return tier;
+}
+
+export async function evaluateAllCustomerTiers() {
+  const accounts = await storage.getAllLoyaltyPoints();
+  for (const account of accounts) {
+    await evaluateCustomerTier(account.customerId);
+  }
+}
+
+// Where the customer stands and what it takes to reach the next tier
+export async function getTierProgress(customerId: string) {
+  const { metric, tiers } = await getLoyaltyTierLadder();
+  const points = await storage.getLoyaltyPoints(customerId);
+  const value = await qualifyingValue(customerId, metric, points);
+  const tier = currentTier(points, tiers);
+  const nextTier = tiers.find(t => t.threshold > tier.threshold) || null;
+  const span = nextTier ? nextTier.threshold - tier.threshold : 0;
+  return {
+    metric,
+    value,
+    tier,
+    nextTier,
+    remaining: nextTier ? Math.max(0, nextTier.threshold - value) : 0,
+    progress: nextTier ? Math.min(100, Math.max(0, Math.round(((value - tier.threshold) / span) * 100))) : 100,
+    tiers,
+  };
+}
+
+// Replace the tier table and metric, then re-check every customer against it
+export async function saveLoyaltyTierTable(table: LoyaltyTierTable, updatedBy: string) {
+  const tiers = await storage.replaceLoyaltyTiers(
+    [...table.tiers]
+      .sort((a, b) => a.threshold - b.threshold)
+      .map((tier, index) => ({
+        ...tier,
+        threshold: tier.threshold.toFixed(2),
+        earnMultiplier: tier.earnMultiplier.toFixed(2),
+        sortOrder: index,
+      }))
+  );
+  const existing = await storage.getSystemSettings(null);
+  await storage.saveSystemSettings(null, {
+    ...((existing?.settings as Partial<SystemSettingsValues>) || {}),
+    loyaltyTierMetric: table.metric,
+  }, updatedBy);
+
+  evaluateAllCustomerTiers().catch(error => console.error("Loyalty tier re-evaluation error:", error));
+  return { metric: table.metric, tiers, usingDefaults: false };
+}
+
+export function startLoyaltyTierMonitor() {
+  let running = false;
+  const run = () => {
+    if (running) return;
+    running = true;
+    evaluateAllCustomerTiers()
+      .catch(error => console.error("Loyalty tier check error:", error))
+      .finally(() => { running = false; });
+  };
+  const timer = setInterval(run, CHECK_INTERVAL_MS);
+  run();
+  console.log("Loyalty tier monitor started");
+  return () => clearInterval(timer);
+}
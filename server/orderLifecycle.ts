@@ -0,0 +1,134 @@
+import { storage, type OutboxEventInput } from "./storage";
+import { OUTBOX_EVENT_TYPES, wakeOutboxWorker } from "./outbox";
+import type { InsertOrder, Order } from "@shared/schema";
+import {
+  ORDER_STATUS_LABELS,
+  canTransitionOrder,
+  getOrderTransitions,
+  isOrderStatus,
+  type OrderStatus,
+} from "@shared/orderLifecycle";
+
+// Order status state machine.
+// Every status change goes through transitionOrderStatus so it is validated, audited in
+// orderModifications, broadcast (order:statusUpdated) and its side effects queued in the outbox.
+
+export interface OrderActor {
+  id: string | null; // null for system transitions
+  role: string;
+  branchId?: string | null;
+}
+
+export const SYSTEM_ACTOR: OrderActor = { id: null, role: "system" };
+
+function lifecycleError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+async function assertActorCanTouchOrder(order: Order, actor: OrderActor) {
+  if (actor.role === "customer" && order.customerId !== actor.id) {
+    throw lifecycleError("You can only update your own orders", 403);
+  }
+  if (actor.role === "staff" && actor.branchId && actor.branchId !== order.branchId) {
+    throw lifecycleError("Order belongs to another branch", 403);
+  }
+  if (actor.role === "rider") {
+    const [rider, delivery] = await Promise.all([
+      actor.id ? storage.getRiderByUserId(actor.id) : Promise.resolve(undefined),
+      storage.getDeliveryByOrder(order.id),
+    ]);
+    if (!rider || !delivery || delivery.riderId !== rider.id) {
+      throw lifecycleError("Order is not assigned to you", 403);
+    }
+  }
+}
+
+export async function transitionOrderStatus(
+  orderId: string,
+  toStatus: string,
+  actor: OrderActor,
+  options: { reason?: string; changes?: Partial<InsertOrder> } = {}
+): Promise<Order> {
+  if (!isOrderStatus(toStatus)) {
+    throw lifecycleError("Invalid status value", 400);
+  }
+
+  const order = await storage.getOrder(orderId);
+  if (!order) {
+    throw lifecycleError("Order not found", 404);
+  }
+
+  // Repeated requests (double clicks, retried webhooks) are a no-op
+  if (order.status === toStatus) {
+    return order;
+  }
+
+  if (!getOrderTransitions(order.status, order.orderType).includes(toStatus)) {
+    throw lifecycleError(`Cannot change a ${order.orderType} order from ${order.status} to ${toStatus}`, 409);
+  }
+  if (!canTransitionOrder(order.status, toStatus, order.orderType, actor.role)) {
+    throw lifecycleError(`Your role cannot change an order from ${order.status} to ${toStatus}`, 403);
+  }
+  await assertActorCanTouchOrder(order, actor);
+
+  // An order with kitchen tickets is ready only once every station has bumped its ticket
+  if (toStatus === "ready") {
+    const tickets = await storage.getKitchenTicketsByOrder(orderId);
+    const open = tickets.filter(ticket => ticket.status === "pending" || ticket.status === "preparing");
+    if (open.length > 0) {
+      const stations = open.map(ticket => ticket.station || "Kitchen").join(", ");
+      throw lifecycleError(`Order still has open kitchen tickets (${stations})`, 409);
+    }
+  }
+
+  const updatedOrder = await storage.transitionOrder(
+    orderId,
+    order.status,
+    toStatus,
+    {
+      modifiedBy: actor.id,
+      modificationType: "status_changed",
+      description: `Status changed to ${ORDER_STATUS_LABELS[toStatus]} by ${actor.role}${options.reason ? `: ${options.reason}` : ""}`,
+      oldValue: order.status,
+      newValue: toStatus,
+    },
+    transitionSideEffects(order.status, toStatus),
+    options.changes
+  );
+  if (!updatedOrder) {
+    throw lifecycleError("Order status was changed by someone else - please refresh", 409);
+  }
+
+  wakeOutboxWorker();
+  return updatedOrder;
+}
+
+function transitionSideEffects(fromStatus: string, toStatus: OrderStatus): OutboxEventInput[] {
+  const events: OutboxEventInput[] = [];
+  // Online orders reach the kitchen once accepted (POS orders already have their tickets - a no-op)
+  if (fromStatus === "pending" && (toStatus === "confirmed" || toStatus === "preparing")) {
+    events.push({ eventType: OUTBOX_EVENT_TYPES.kitchenTickets });
+  }
+  if (toStatus === "cancelled" || toStatus === "rejected") {
+    events.push({ eventType: OUTBOX_EVENT_TYPES.loyaltyReversal });
+    events.push({ eventType: OUTBOX_EVENT_TYPES.pointsRestore });
+    events.push({ eventType: OUTBOX_EVENT_TYPES.storedValueRestore });
+    events.push({ eventType: OUTBOX_EVENT_TYPES.rewardRelease });
+    events.push({ eventType: OUTBOX_EVENT_TYPES.stampReversal });
+  }
+  // Referral rewards wait for the referee's first completed, paid order
+  if (toStatus === "completed") {
+    events.push({ eventType: OUTBOX_EVENT_TYPES.referralReward });
+  }
+  // The kitchen has started, so the stock reserved at checkout is used up
+  if (toStatus === "preparing") {
+    events.push({ eventType: OUTBOX_EVENT_TYPES.stockConsumption });
+  }
+  // Nothing was cooked yet, so the stock reserved at checkout goes back on the shelf
+  if (toStatus === "rejected" || (toStatus === "cancelled" && (fromStatus === "pending" || fromStatus === "confirmed"))) {
+    events.push({ eventType: OUTBOX_EVENT_TYPES.stockReturn });
+  }
+  return events;
+}
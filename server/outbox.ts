@@ -0,0 +1,359 @@
+import { storage, type OutboxEventInput, type StockReservationLine } from "./storage";
+import { createKitchenTickets } from "./kitchen";
+import { calculateStockUsage } from "./inventory";
+import { autoDraftPurchaseOrders } from "./purchasing";
+import { calculateOrderPoints, evaluateCustomerTier } from "./loyalty";
+import { pointsExpiryDate } from "./pointsExpiry";
+import { restoreOrderPoints } from "./pointsTender";
+import { restoreOrderGiftCards } from "./giftCards";
+import { restoreOrderStoreCredit } from "./storeCredit";
+import { releaseOrderRewards } from "./rewards";
+import { awardOrderStamps, reverseOrderStamps } from "./stampCards";
+import { checkReferral } from "./referrals";
+import { getOrderPromotions } from "./promotions";
+import { isTerminalOrderStatus } from "@shared/orderLifecycle";
+import type { InsertOrder, Order, OutboxEvent } from "@shared/schema";
+
+// Outbox worker - processes side effects recorded with an order change.
+// Handlers may run more than once (retries, crashed workers), so each one checks
+// whether its work was already done before doing it.
+
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 20;
+const STALE_LOCK_MS = 5 * 60 * 1000; // "processing" longer than this means the worker died
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+export const OUTBOX_EVENT_TYPES = {
+  kitchenTickets: "order.kitchen_tickets",
+  promoUsage: "order.promo_usage",
+  loyaltyAward: "order.loyalty_award",
+  stockDeduction: "order.stock_deduction",
+  loyaltyReversal: "order.loyalty_reversal",
+  pointsRestore: "order.points_restore",
+  storedValueRestore: "order.stored_value_restore",
+  rewardRelease: "order.reward_release",
+  stampAward: "order.stamp_award",
+  stampReversal: "order.stamp_reversal",
+  referralReward: "order.referral_reward",
+  stockReturn: "order.stock_return",
+  stockConsumption: "order.stock_consumption",
+} as const;
+
+// Side effects of placing an order (kitchen tickets first so the kitchen sees the order quickly).
+// Online orders waiting to be accepted get their tickets on accept instead.
+export function orderCreatedSideEffects(order: InsertOrder): OutboxEventInput[] {
+  const events: OutboxEventInput[] = [];
+  if (order.orderSource === "pos" || (order.status || "pending") !== "pending") {
+    events.push({ eventType: OUTBOX_EVENT_TYPES.kitchenTickets });
+  }
+  if (order.promoCodeId) {
+    events.push({ eventType: OUTBOX_EVENT_TYPES.promoUsage });
+  }
+  if (order.customerId) {
+    events.push({ eventType: OUTBOX_EVENT_TYPES.loyaltyAward });
+    events.push({ eventType: OUTBOX_EVENT_TYPES.stampAward });
+  }
+  // Stock is reserved at checkout and deducted once the kitchen starts on the order
+  events.push({ eventType: OUTBOX_EVENT_TYPES.stockDeduction });
+  if (!["pending", "confirmed"].includes(order.status || "pending")) {
+    events.push({ eventType: OUTBOX_EVENT_TYPES.stockConsumption });
+  }
+  return events;
+}
+
+async function loadOrder(event: OutboxEvent): Promise<Order> {
+  const order = await storage.getOrder(event.aggregateId);
+  if (!order) {
+    throw new Error(`Order ${event.aggregateId} not found`);
+  }
+  return order;
+}
+
+// Split the order into one ticket per kitchen station
+async function sendToKitchen(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  if (isTerminalOrderStatus(order.status)) return;
+  if (order.orderSource !== "pos" && order.status === "pending") return; // Not accepted yet
+  await createKitchenTickets(order.id);
+}
+
+// One usage per promotion on the order, with what that promotion took off
+async function recordPromoUsage(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  for (const promotion of getOrderPromotions(order)) {
+    // Single-use codes from a batch are tracked against the batch too
+    const promoCode = await storage.getPromoCode(promotion.promoCodeId);
+    // Counted once per order, however often the event is retried
+    await storage.recordPromoCodeUsage({
+      promoCodeId: promotion.promoCodeId,
+      orderId: order.id,
+      userId: order.customerId,
+      discountAmount: promotion.discount.toFixed(2),
+      batchId: promoCode?.batchId ?? null,
+    });
+  }
+}
+
+async function awardLoyaltyPoints(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  if (!order.customerId || order.status === "cancelled" || order.status === "rejected") return;
+
+  const transactions = await storage.getLoyaltyTransactions(order.customerId);
+  if (transactions.some(t => t.orderId === order.id && t.transactionType === "earn")) return;
+
+  // Points are earned at the tier the customer is in when they order
+  const { points: pointsEarned, tier } = await calculateOrderPoints(order);
+  if (pointsEarned > 0) {
+    const bonus = tier && tier.earnMultiplier !== 1 ? ` (${tier.name} ${tier.earnMultiplier}x)` : "";
+    await storage.changeLoyaltyPoints({
+      customerId: order.customerId,
+      orderId: order.id,
+      transactionType: "earn",
+      points: pointsEarned,
+      lifetimeEarned: pointsEarned,
+      describe: (points) => `Earned ${points} points from order #${order.orderNumber}${bonus}`,
+      expiresAt: await pointsExpiryDate(),
+    });
+  }
+
+  // Spend and order-count tiers move with every order, points tiers with the points
+  await evaluateCustomerTier(order.customerId);
+}
+
+// Take back the points earned on this order (once)
+async function reverseLoyaltyPoints(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  if (!order.customerId) return;
+
+  const transactions = (await storage.getLoyaltyTransactions(order.customerId))
+    .filter(t => t.orderId === order.id);
+  if (transactions.some(t => t.transactionType === "reversal")) return;
+
+  const earned = transactions
+    .filter(t => t.transactionType === "earn")
+    .reduce((sum, t) => sum + t.points, 0);
+  if (earned > 0) {
+    await storage.changeLoyaltyPoints({
+      customerId: order.customerId,
+      orderId: order.id,
+      transactionType: "reversal",
+      points: -earned,
+      lifetimeEarned: -earned,
+      describe: (points) => `Reversed ${-points} points - order #${order.orderNumber} was ${order.status}`,
+    });
+  }
+
+  // The order no longer counts towards the customer's tier
+  await evaluateCustomerTier(order.customerId);
+}
+
+// Give back points the customer paid with (only what has not been given back already)
+async function restorePaidPoints(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  await restoreOrderPoints(order);
+}
+
+// Give back store credit and gift card balance paid on the order (each ledger only returns what is
+// still out)
+async function restoreStoredValue(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  await restoreOrderStoreCredit(order);
+  await restoreOrderGiftCards(order);
+}
+
+// Stamps for the order's items (each card's stamps are added once)
+async function awardStamps(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  await awardOrderStamps(order);
+}
+
+// Take back the order's stamps (once per card)
+async function reverseStamps(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  await reverseOrderStamps(order);
+}
+
+// A completed order may be the referee's first paid one (checkReferral only rewards a referral once)
+async function rewardReferral(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  if (!order.customerId) return;
+  await checkReferral(order.customerId);
+}
+
+// Reward vouchers used on the order can be used again (already-released ones are left alone)
+async function releaseRewardVouchers(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  await releaseOrderRewards(order);
+}
+
+// Stock the order's lines need - finished items, or ingredients for items with a recipe
+async function orderStockLines(order: Order): Promise<StockReservationLine[]> {
+  const [orderItems, recipeItems] = await Promise.all([
+    storage.getOrderItems(order.id),
+    storage.getAllRecipeItems(),
+  ]);
+  for (const item of orderItems) {
+    if (!item.menuItemId) {
+      console.warn(`Skipping stock for unlinked line ${item.id} in order ${order.id}`);
+    }
+  }
+
+  const usage = calculateStockUsage(orderItems, recipeItems);
+  const lines: StockReservationLine[] = [];
+  // Lines for the same menu item are reserved together
+  for (const [menuItemId, quantity] of Array.from(usage.menuItems)) {
+    if (await storage.getMenuItem(menuItemId)) lines.push({ menuItemId, quantity });
+  }
+  for (const [ingredientId, quantity] of Array.from(usage.ingredients)) {
+    if (await storage.getIngredient(ingredientId)) lines.push({ ingredientId, quantity });
+  }
+  return lines;
+}
+
+// Holds the order's stock at its branch until the kitchen starts on it (or it is cancelled).
+// Orders already reserved - or deducted outright before reservations existed - are skipped.
+async function reserveOrderStock(order: Order) {
+  const [reservations, transactions] = await Promise.all([
+    storage.getStockReservationsByOrder(order.id),
+    storage.getInventoryTransactionsByOrder(order.id),
+  ]);
+  if (reservations.length > 0 || transactions.some(t => t.transactionType === "sale")) return;
+  await storage.reserveOrderStock(order.id, order.branchId, await orderStockLines(order));
+}
+
+async function reserveStock(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  if (order.status === "cancelled" || order.status === "rejected") return;
+  await reserveOrderStock(order);
+}
+
+// The kitchen has started, so reserved stock leaves the shelf as a sale
+async function consumeStock(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  if (order.status === "rejected") return;
+  await reserveOrderStock(order);
+
+  const reservations = await storage.getStockReservationsByOrder(order.id);
+  for (const reservation of reservations) {
+    if (reservation.status !== "active") continue;
+    await storage.consumeStockReservation(reservation.id, {
+      orderId: order.id,
+      performedBy: order.servedBy || undefined,
+      reference: order.orderNumber,
+      reason: `Stock deducted for order #${order.orderNumber}`,
+    });
+  }
+
+  // Stock that fell to its reorder level goes onto a draft purchase order; this is housekeeping,
+  // so a failure here must not retry the stock movement
+  autoDraftPurchaseOrders(order.branchId).catch(error => {
+    console.error(`Auto-drafting purchase orders for branch ${order.branchId} failed:`, error);
+  });
+}
+
+// Nothing was cooked, so reserved stock becomes available again. Orders deducted at checkout
+// (before reservations existed) get their sale movements reversed instead.
+async function returnStock(event: OutboxEvent) {
+  const order = await loadOrder(event);
+  const reservations = await storage.getStockReservationsByOrder(order.id);
+  for (const reservation of reservations) {
+    if (reservation.status === "active") {
+      await storage.releaseStockReservation(reservation.id);
+    }
+  }
+  if (reservations.length > 0) return;
+
+  const transactions = await storage.getInventoryTransactionsByOrder(order.id);
+  const returned = transactions.filter(t => t.transactionType === "return");
+  for (const sale of transactions.filter(t => t.transactionType === "sale")) {
+    const alreadyReturned = returned.some(t => t.menuItemId === sale.menuItemId && t.ingredientId === sale.ingredientId);
+    if (alreadyReturned) continue;
+    await storage.createInventoryTransaction({
+      branchId: sale.branchId,
+      menuItemId: sale.menuItemId,
+      ingredientId: sale.ingredientId,
+      transactionType: "return",
+      quantity: -sale.quantity,
+      unitCost: sale.unitCost,
+      orderId: order.id,
+      reference: order.orderNumber,
+      reason: `Stock returned - order #${order.orderNumber} was ${order.status}`,
+    });
+  }
+}
+
+const handlers: Record<string, (event: OutboxEvent) => Promise<void>> = {
+  [OUTBOX_EVENT_TYPES.kitchenTickets]: sendToKitchen,
+  [OUTBOX_EVENT_TYPES.promoUsage]: recordPromoUsage,
+  [OUTBOX_EVENT_TYPES.loyaltyAward]: awardLoyaltyPoints,
+  [OUTBOX_EVENT_TYPES.stockDeduction]: reserveStock,
+  [OUTBOX_EVENT_TYPES.loyaltyReversal]: reverseLoyaltyPoints,
+  [OUTBOX_EVENT_TYPES.pointsRestore]: restorePaidPoints,
+  [OUTBOX_EVENT_TYPES.storedValueRestore]: restoreStoredValue,
+  [OUTBOX_EVENT_TYPES.rewardRelease]: releaseRewardVouchers,
+  [OUTBOX_EVENT_TYPES.stampAward]: awardStamps,
+  [OUTBOX_EVENT_TYPES.stampReversal]: reverseStamps,
+  [OUTBOX_EVENT_TYPES.referralReward]: rewardReferral,
+  [OUTBOX_EVENT_TYPES.stockReturn]: returnStock,
+  [OUTBOX_EVENT_TYPES.stockConsumption]: consumeStock,
+};
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+async function processEvent(event: OutboxEvent) {
+  try {
+    const handler = handlers[event.eventType];
+    if (!handler) {
+      throw new Error(`No handler for outbox event type ${event.eventType}`);
+    }
+    await handler(event);
+    await storage.completeOutboxEvent(event.id);
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    const retryAt = event.attempts < event.maxAttempts
+      ? new Date(Date.now() + retryDelay(event.attempts))
+      : null;
+    if (retryAt) {
+      console.warn(`Outbox event ${event.eventType} for ${event.aggregateId} failed (attempt ${event.attempts}/${event.maxAttempts}): ${message}`);
+    } else {
+      console.error(`Outbox event ${event.eventType} for ${event.aggregateId} dead-lettered after ${event.attempts} attempts: ${message}`);
+    }
+    await storage.failOutboxEvent(event.id, message, retryAt);
+  }
+}
+
+let running = false;
+
+// Process everything that is due; overlapping calls are skipped
+export async function processOutbox() {
+  if (running) return;
+  running = true;
+  try {
+    while (true) {
+      const events = await storage.claimOutboxEvents(BATCH_SIZE, new Date(Date.now() - STALE_LOCK_MS));
+      if (events.length === 0) break;
+      for (const event of events) {
+        await processEvent(event);
+      }
+    }
+  } catch (error) {
+    console.error("Outbox worker error:", error);
+  } finally {
+    running = false;
+  }
+}
+
+// Run the worker without waiting for the next poll (e.g. right after an order is placed)
+export function wakeOutboxWorker() {
+  processOutbox().catch(() => {});
+}
+
+export function startOutboxWorker() {
+  const timer = setInterval(wakeOutboxWorker, POLL_INTERVAL_MS);
+  wakeOutboxWorker();
+  console.log("Outbox worker started");
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,155 @@
+import { storage } from "./storage";
+import { emitEvent } from "./websocket";
+import type { LoyaltyTransaction } from "@shared/schema";
+
+// Loyalty points expiry - points earned expire pointsExpiryMonths after they were earned.
+// Balances are spent oldest points first, so what is left of each earning is worked out from the
+// customer's transactions rather than stored. An hourly job writes "expire" transactions for
+// points past their date and warns customers pointsExpiryWarningDays ahead (once per earning).
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PointsLot {
+  transaction: LoyaltyTransaction;
+  remaining: number;
+}
+
+// When points earned now expire, or null while the policy is off
+export async function pointsExpiryDate(earnedAt = new Date()) {
+  const settings = await storage.getEffectiveSystemSettings(null);
+  if (settings.pointsExpiryMonths <= 0) return null;
+  const expiresAt = new Date(earnedAt);
+  expiresAt.setMonth(expiresAt.getMonth() + settings.pointsExpiryMonths);
+  return expiresAt;
+}
+
+function consume(lots: PointsLot[], amount: number) {
+  for (const lot of lots) {
+    if (amount <= 0) break;
+    const used = Math.min(lot.remaining, amount);
+    lot.remaining -= used;
+    amount -= used;
+  }
+}
+
+// Earnings with points still unspent, oldest first. A reversal takes back its own order's points;
+// expired points came off the earnings that expired; everything else spent the oldest points
+// (less any points given back from cancelled or refunded orders).
+export function getPointsLots(transactions: LoyaltyTransaction[]): PointsLot[] {
+  const sorted = [...transactions].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const lots = sorted
+    .filter(t => t.points > 0 && t.transactionType !== "restore")
+    .map(transaction => ({ transaction, remaining: transaction.points }));
+
+  for (const reversal of sorted.filter(t => t.transactionType === "reversal" && t.orderId)) {
+    consume(lots.filter(lot => lot.transaction.transactionType === "earn" && lot.transaction.orderId === reversal.orderId), -reversal.points);
+  }
+  const restored = sorted.filter(t => t.transactionType === "restore").reduce((sum, t) => sum + t.points, 0);
+  const spent = sorted
+    .filter(t => t.points < 0 && t.transactionType !== "expire" && !(t.transactionType === "reversal" && t.orderId))
+    .reduce((sum, t) => sum - t.points, 0) - restored;
+  consume(lots, spent);
+
+  const expired = sorted.filter(t => t.transactionType === "expire").reduce((sum, t) => sum - t.points, 0);
+  consume(
+    lots.filter(lot => lot.transaction.expiresAt)
+      .sort((a, b) => new Date(a.transaction.expiresAt!).getTime() - new Date(b.transaction.expiresAt!).getTime()),
+    expired
+  );
+
+  return lots.filter(lot => lot.remaining > 0);
+}
+
+// Points due to expire, grouped by day, for the customer's loyalty page
+export async function getUpcomingExpiries(customerId: string) {
+  const [settings, transactions] = await Promise.all([
+    storage.getEffectiveSystemSettings(null),
+    storage.getLoyaltyTransactions(customerId),
+  ]);
+  const byDay = new Map<string, { expiresAt: Date; points: number }>();
+  for (const lot of getPointsLots(transactions)) {
+    if (!lot.transaction.expiresAt) continue;
+    const expiresAt = new Date(lot.transaction.expiresAt);
+    const day = expiresAt.toISOString().split("T")[0];
+    const entry = byDay.get(day) || { expiresAt, points: 0 };
+    entry.points += lot.remaining;
+    byDay.set(day, entry);
+  }
+  const expiries = Array.from(byDay.values()).sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+  return {
+    warningDays: settings.pointsExpiryWarningDays,
+    expiries,
+  };
+}
+
+// Expire what is left of earnings past their date, and warn about those coming up
+async function processCustomer(customerId: string, now: Date, warnBefore: Date) {
+  const [points, transactions] = await Promise.all([
+    storage.getLoyaltyPoints(customerId),
+    storage.getLoyaltyTransactions(customerId),
+  ]);
+  if (!points || points.availablePoints <= 0) return;
+  const lots = getPointsLots(transactions).filter(lot => lot.transaction.expiresAt);
+
+  const due = Math.min(
+    points.availablePoints,
+    lots.filter(lot => new Date(lot.transaction.expiresAt!) <= now).reduce((sum, lot) => sum + lot.remaining, 0)
+  );
+  if (due > 0) {
+    // Taken off the locked balance, so points earned or spent meanwhile are not overwritten
+    await storage.changeLoyaltyPoints({
+      customerId,
+      transactionType: "expire",
+      points: -due,
+      describe: (moved) => `${-moved} points expired`,
+    });
+  }
+
+  // The warning is kept in the customer's notifications before the points count as warned - the
+  // socket event only reaches customers who are connected
+  const expiring = lots.filter(lot => {
+    const expiresAt = new Date(lot.transaction.expiresAt!);
+    return expiresAt > now && expiresAt <= warnBefore && !lot.transaction.expiryWarnedAt;
+  });
+  if (expiring.length > 0) {
+    const warning = {
+      customerId,
+      points: expiring.reduce((sum, lot) => sum + lot.remaining, 0),
+      expiresAt: expiring[0].transaction.expiresAt!,
+    };
+    await storage.createCustomerNotification({
+      customerId,
+      type: "points_expiring",
+      title: `${warning.points} points expiring soon`,
+      message: `Use them before ${new Date(warning.expiresAt).toISOString().split("T")[0]}`,
+    });
+    emitEvent.loyaltyPointsExpiring(warning);
+    await storage.markLoyaltyExpiryWarned(expiring.map(lot => lot.transaction.id));
+  }
+}
+
+export async function processPointsExpiry() {
+  const settings = await storage.getEffectiveSystemSettings(null);
+  const now = new Date();
+  const warnBefore = new Date(now.getTime() + settings.pointsExpiryWarningDays * DAY_MS);
+  const customerIds = await storage.getCustomerIdsWithPointsExpiringBefore(warnBefore);
+  for (const customerId of customerIds) {
+    await processCustomer(customerId, now, warnBefore);
+  }
+}
+
+export function startPointsExpiryMonitor() {
+  let running = false;
+  const run = () => {
+    if (running) return;
+    running = true;
+    processPointsExpiry()
+      .catch(error => console.error("Loyalty points expiry error:", error))
+      .finally(() => { running = false; });
+  };
+  const timer = setInterval(run, CHECK_INTERVAL_MS);
+  run();
+  console.log("Loyalty points expiry monitor started");
+  return () => clearInterval(timer);
+}
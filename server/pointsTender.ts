@@ -0,0 +1,107 @@
+import { storage, type PointsTender } from "./storage";
+import { roundMoney } from "@shared/pricing";
+import type { Order } from "@shared/schema";
+
+// Loyalty points as a tender - customers pay part or all of an order with points, valued at the
+// branch's pointsRedemptionRate (points per Rs. 1). The points leave the balance in the same
+// transaction that records the order's "loyalty_points" payment, and go back if the order is
+// cancelled, rejected or refunded.
+
+export const POINTS_TENDER_METHOD = "loyalty_points";
+
+function tenderError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+function pointsValue(points: number, rate: number, amountDue: number) {
+  return roundMoney(Math.min(points / rate, amountDue));
+}
+
+// What the customer can put towards the amount still due on an order at the branch
+export async function getPointsTenderOptions(customerId: string, branchId: string, amountDue: number) {
+  const [settings, account] = await Promise.all([
+    storage.getEffectiveSystemSettings(branchId),
+    storage.getLoyaltyPoints(customerId),
+  ]);
+  const redemptionRate = settings.pointsRedemptionRate;
+  const availablePoints = settings.enableLoyaltyProgram ? account?.availablePoints || 0 : 0;
+  // Points are whole, so the last fraction of a rupee takes a whole point
+  const maxPoints = Math.min(availablePoints, Math.ceil(roundMoney(Math.max(0, amountDue)) * redemptionRate));
+  return {
+    enabled: settings.enableLoyaltyProgram,
+    availablePoints,
+    redemptionRate,
+    maxPoints,
+    maxAmount: pointsValue(maxPoints, redemptionRate, amountDue),
+  };
+}
+
+// Check the points against the customer's balance and the amount still due
+export async function preparePointsTender(
+  customerId: string,
+  branchId: string,
+  amountDue: number,
+  points: number,
+  receivedBy: string | null = null
+): Promise<PointsTender> {
+  if (!Number.isInteger(points) || points <= 0) {
+    throw tenderError("Points to redeem must be a whole number above 0", 400);
+  }
+  const options = await getPointsTenderOptions(customerId, branchId, amountDue);
+  if (!options.enabled) {
+    throw tenderError("Loyalty points cannot be used at this branch", 400);
+  }
+  if (points > options.availablePoints) {
+    throw tenderError("Insufficient points", 400);
+  }
+  if (points > options.maxPoints) {
+    throw tenderError(`At most ${options.maxPoints} points can be used on this order`, 400);
+  }
+  return {
+    customerId,
+    points,
+    amount: pointsValue(points, options.redemptionRate, amountDue).toFixed(2),
+    receivedBy,
+  };
+}
+
+// Points paid on the order, how many are still spent, what they paid and what still counts as paid
+export async function getOrderPointsTender(orderId: string) {
+  const [payments, transactions] = await Promise.all([
+    storage.getPaymentsByOrder(orderId),
+    storage.getLoyaltyTransactionsByOrder(orderId),
+  ]);
+  const redeemed = -transactions.filter(t => t.transactionType === "redeem").reduce((sum, t) => sum + t.points, 0);
+  const restored = transactions.filter(t => t.transactionType === "restore").reduce((sum, t) => sum + t.points, 0);
+  const tenders = payments.filter(p => p.paymentMethod === POINTS_TENDER_METHOD);
+  return {
+    points: redeemed,
+    outstanding: redeemed - restored,
+    amount: roundMoney(tenders.reduce((sum, p) => sum + parseFloat(p.amount), 0)),
+    paid: roundMoney(tenders.filter(p => p.status === "completed").reduce((sum, p) => sum + parseFloat(p.amount), 0)),
+  };
+}
+
+// The customer whose points can pay for an order - its own customer, or the customer account
+// registered to the phone number taken at the counter
+export async function getOrderPointsCustomer(order: Order) {
+  if (order.customerId) {
+    return await storage.getUser(order.customerId);
+  }
+  return order.customerPhone ? await storage.getCustomerByPhone(order.customerPhone) : undefined;
+}
+
+// A cancelled or rejected order gives back every point paid on it
+export async function restoreOrderPoints(order: Order) {
+  return await storage.restoreRedeemedPoints(order.id, null, `order #${order.orderNumber} was ${order.status}`);
+}
+
+// Points behind a partial refund made in points - that share of the points payment. A full refund
+// gives back every point paid on the order whatever it is made in.
+export async function getRefundPointsShare(orderId: string, refundAmount: number) {
+  const tender = await getOrderPointsTender(orderId);
+  if (tender.outstanding <= 0 || tender.amount <= 0) return 0;
+  return Math.round(tender.points * Math.min(1, refundAmount / tender.amount));
+}
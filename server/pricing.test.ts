@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_SYSTEM_SETTINGS,
+  type MenuItem,
+  type MenuItemVariant,
+  type PromoCode,
+  type VariantGroup,
+  type VariantOption,
+} from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getMenuItem: vi.fn(),
+    getMenuItemVariants: vi.fn(),
+    getVariantGroup: vi.fn(),
+    getVariantOptionsByGroup: vi.fn(),
+    getPromoCode: vi.fn(),
+    getPromoCodeByCode: vi.fn(),
+    getAutomaticPromoCodes: vi.fn(),
+    getEffectiveSystemSettings: vi.fn(),
+    getUserPromoCodeUsageCount: vi.fn(),
+    getOrdersByCustomer: vi.fn(),
+  },
+}));
+vi.mock("./loyalty", () => ({ hasTierFreeDelivery: vi.fn() }));
+vi.mock("./rewards", () => ({ validateRewardVoucher: vi.fn() }));
+
+import { storage } from "./storage";
+import { priceOrder } from "./pricing";
+
+function menuItem(overrides: Partial<MenuItem>): MenuItem {
+  return {
+    id: "item",
+    name: "Item",
+    description: null,
+    price: "0",
+    size: null,
+    variant: null,
+    categoryId: null,
+    imageUrl: null,
+    isAvailable: true,
+    isHotSelling: false,
+    stockQuantity: 0,
+    lowStockThreshold: 10,
+    branchId: null,
+    kitchenStationId: null,
+    prepTimeMinutes: null,
+    createdAt: new Date(0),
+    ...overrides,
+  } as MenuItem;
+}
+
+function promoCode(overrides: Partial<PromoCode>): PromoCode {
+  return {
+    id: overrides.code || "promo",
+    code: "PROMO",
+    description: null,
+    discountType: "percentage",
+    discountValue: "10",
+    minOrderAmount: "0",
+    maxDiscountAmount: null,
+    menuItemIds: [],
+    categoryIds: [],
+    buyQuantity: null,
+    getQuantity: null,
+    getMenuItemIds: [],
+    getCategoryIds: [],
+    firstOrderOnly: false,
+    daysOfWeek: [],
+    startTime: null,
+    endTime: null,
+    isAutomatic: false,
+    isCombinable: false,
+    priority: 0,
+    excludeDiscountedItems: false,
+    batchId: null,
+    usageLimit: null,
+    usageCount: 0,
+    perUserLimit: null,
+    validFrom: new Date(0),
+    validUntil: null,
+    isActive: true,
+    branchId: null,
+    customerId: null,
+    createdBy: null,
+    createdAt: new Date(0),
+    ...overrides,
+  };
+}
+
+// A pizza that needs a size and a drink without options
+const MENU = [
+  menuItem({ id: "pizza", name: "Pizza", price: "1000.00", categoryId: "pizzas" }),
+  menuItem({ id: "drink", name: "Drink", price: "150.00", categoryId: "drinks" }),
+  menuItem({ id: "burger", name: "Burger", price: "500.00", isAvailable: false }),
+  menuItem({ id: "other-branch", name: "Wrap", price: "400.00", branchId: "branch-2" }),
+];
+const SIZE = { id: "size", name: "Size", selectionType: "single", isRequired: true, isActive: true } as VariantGroup;
+const SIZES = [
+  { id: "small", variantGroupId: "size", name: "Small", priceModifier: "-200.00", isActive: true },
+  { id: "large", variantGroupId: "size", name: "Large", priceModifier: "300.00", isActive: true },
+] as VariantOption[];
+
+const PIZZA_AND_DRINKS = [
+  { menuItemId: "pizza", quantity: 2, price: 1, variants: [{ groupName: "Size", optionName: "Large" }] },
+  { menuItemId: "drink", quantity: 3, price: 1 },
+];
+
+function takeaway(overrides: Partial<Parameters<typeof priceOrder>[0]> = {}) {
+  return priceOrder({ branchId: "branch-1", orderType: "takeaway", items: PIZZA_AND_DRINKS, customerId: "customer-1", ...overrides });
+}
+
+describe("priceOrder", () => {
+  let promoCodes: PromoCode[];
+
+  beforeEach(() => {
+    promoCodes = [];
+    vi.mocked(storage.getMenuItem).mockImplementation(async id => MENU.find(item => item.id === id));
+    vi.mocked(storage.getMenuItemVariants).mockImplementation(async id =>
+      id === "pizza" ? [{ id: "pizza-size", menuItemId: "pizza", variantGroupId: "size" } as MenuItemVariant] : []);
+    vi.mocked(storage.getVariantGroup).mockImplementation(async id => (id === SIZE.id ? SIZE : undefined));
+    vi.mocked(storage.getVariantOptionsByGroup).mockResolvedValue(SIZES);
+    vi.mocked(storage.getPromoCode).mockImplementation(async id => promoCodes.find(promo => promo.id === id));
+    vi.mocked(storage.getPromoCodeByCode).mockImplementation(async code => promoCodes.find(promo => promo.code === code));
+    vi.mocked(storage.getAutomaticPromoCodes).mockImplementation(async () => promoCodes.filter(promo => promo.isAutomatic));
+    vi.mocked(storage.getEffectiveSystemSettings).mockResolvedValue({ ...DEFAULT_SYSTEM_SETTINGS });
+  });
+
+  it("prices lines from the menu and the chosen options, not the prices sent", async () => {
+    const pricing = await takeaway();
+
+    expect(pricing.items.map(line => [line.menuItemId, line.price, line.lineTotal])).toEqual([
+      ["pizza", 1300, 2600],
+      ["drink", 150, 450],
+    ]);
+    expect(pricing.items[0].variants).toEqual([{ groupName: "Size", optionName: "Large", optionId: "large", priceModifier: 300 }]);
+    expect(pricing).toMatchObject({ subtotal: 3050, discount: 0, tax: 0, deliveryCharges: 0, total: 3050 });
+  });
+
+  it("accepts options by id", async () => {
+    const pricing = await takeaway({ items: [{ menuItemId: "pizza", quantity: 1, variantOptionIds: ["small"] }] });
+
+    expect(pricing.total).toBe(800);
+  });
+
+  it("adds tax on what is left after the discount", async () => {
+    vi.mocked(storage.getEffectiveSystemSettings).mockResolvedValue({ ...DEFAULT_SYSTEM_SETTINGS, taxEnabled: true, taxRate: 16 });
+    promoCodes.push(promoCode({ code: "SAVE10" }));
+
+    const pricing = await takeaway({ promoCode: "save10" });
+
+    expect(pricing).toMatchObject({ subtotal: 3050, discount: 305, tax: 439.2, total: 3184.2, promoCode: "SAVE10" });
+  });
+
+  it("stacks the code with the automatic promotions the cart qualifies for", async () => {
+    promoCodes.push(
+      promoCode({ code: "SAVE10", isCombinable: true }),
+      promoCode({ code: "DRINKS50", discountValue: "50", categoryIds: ["drinks"], isAutomatic: true, isCombinable: true, priority: 1 })
+    );
+
+    const pricing = await takeaway({ promoCode: "SAVE10" });
+
+    expect(pricing.promotions.map(promotion => [promotion.code, promotion.discount])).toEqual([["DRINKS50", 225], ["SAVE10", 282.5]]);
+    expect(pricing).toMatchObject({ discount: 507.5, total: 2542.5, promoCode: "DRINKS50" });
+  });
+
+  it("applies automatic promotions without a code", async () => {
+    promoCodes.push(promoCode({ code: "AUTO5", discountType: "fixed", discountValue: "50", isAutomatic: true }));
+
+    const pricing = await takeaway();
+
+    expect(pricing).toMatchObject({ discount: 50, total: 3000, promoCode: "AUTO5", rejectedPromotions: [] });
+  });
+
+  it("re-checks the promo code stored on an order", async () => {
+    promoCodes.push(promoCode({ code: "SAVE10", usageLimit: 1, usageCount: 1 }));
+
+    await expect(takeaway({ promoCodeId: "SAVE10" })).rejects.toMatchObject({ message: "Promo code usage limit reached", statusCode: 400 });
+  });
+
+  it("rejects a cart the menu cannot price", async () => {
+    await expect(takeaway({ items: [] })).rejects.toMatchObject({ message: "Order must contain at least one item", statusCode: 400 });
+    await expect(takeaway({ items: [{ menuItemId: "burger", quantity: 1 }] }))
+      .rejects.toMatchObject({ message: "Burger is currently unavailable", statusCode: 400 });
+    await expect(takeaway({ items: [{ menuItemId: "other-branch", quantity: 1 }] }))
+      .rejects.toMatchObject({ message: "Wrap is not available at this branch", statusCode: 400 });
+    await expect(takeaway({ items: [{ menuItemId: "drink", quantity: 0 }] }))
+      .rejects.toMatchObject({ message: "Invalid quantity for order item", statusCode: 400 });
+    await expect(takeaway({ items: [{ menuItemId: "pizza", quantity: 1 }] }))
+      .rejects.toMatchObject({ message: "Choose a Size for Pizza", statusCode: 400 });
+    await expect(takeaway({ items: [{ menuItemId: "pizza", quantity: 1, variantOptionIds: ["small", "large"] }] }))
+      .rejects.toMatchObject({ message: "Choose only one Size for Pizza", statusCode: 400 });
+  });
+});
@@ -0,0 +1,499 @@
+import { storage } from "./storage";
+import { hasTierFreeDelivery } from "./loyalty";
+import { validateRewardVoucher } from "./rewards";
+import { checkPromotion, evaluatePromotion, loadPromotionCart, stackPromotions } from "./promotions";
+import { DEFAULT_DELIVERY_CONFIG, type PromoCode, type VariantGroup, type VariantOption } from "@shared/schema";
+import {
+  roundMoney,
+  calculateUnitPrice,
+  calculateSubtotal,
+  calculateTax,
+  calculateOrderTotal,
+  resolveMenuItemId,
+  type AppliedPromotion,
+  type AppliedReward,
+  type OrderPricing,
+  type PricedLine,
+  type PricedLineVariant,
+  type RejectedPromotion,
+} from "@shared/pricing";
+
+// Server-authoritative order pricing.
+// Prices always come from menuItems / variantOptions, never from the client payload.
+
+function pricingError(message: string, statusCode: number, details?: Record<string, any>): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  if (details) {
+    (error as any).details = details;
+  }
+  return error;
+}
+
+// ==================== Promo Codes ====================
+
+export interface PromoCodeValidation {
+  promoCode: PromoCode;
+  discountAmount: number;
+  promotion: AppliedPromotion;
+  promotions: AppliedPromotion[]; // With the automatic promotions it stacks with
+  rejectedPromotions: RejectedPromotion[];
+}
+
+// Check a promo code against the cart and the automatic promotions it would stack with. Without
+// priced lines only order-wide discounts can be worked out from the amount. A code the stacking
+// rules leave off is rejected with the reason.
+export async function validatePromoCode(
+  code: string,
+  options: {
+    orderAmount: number;
+    branchId: string;
+    userId?: string | null;
+    items?: PricedLine[];
+    orderType?: string | null;
+    deliveryCharges?: number;
+  }
+): Promise<PromoCodeValidation> {
+  const promoCode = await storage.getPromoCodeByCode(code.trim().toUpperCase());
+  if (!promoCode) {
+    throw pricingError("Invalid promo code", 404);
+  }
+
+  const cart = await loadPromotionCart({
+    branchId: options.branchId,
+    customerId: options.userId,
+    orderType: options.orderType,
+    items: options.items || [],
+    subtotal: options.orderAmount,
+  });
+  const problem = await checkPromotion(promoCode, cart);
+  if (problem) {
+    throw pricingError(problem, 400);
+  }
+
+  if (!evaluatePromotion(promoCode, cart, false)) {
+    throw pricingError("Promo code does not apply to any items in your order", 400);
+  }
+
+  const { applied, rejected } = await stackPromotions(cart, { promoCode, deliveryCharges: options.deliveryCharges ?? 0 });
+  const promotion = applied.find(entry => entry.promoCodeId === promoCode.id);
+  if (!promotion) {
+    const rejection = rejected.find(entry => entry.promoCodeId === promoCode.id);
+    throw pricingError(rejection?.reason || "Promo code cannot be used on this order", 400, {
+      promotions: applied,
+      rejectedPromotions: rejected,
+    });
+  }
+
+  return {
+    promoCode,
+    discountAmount: promotion.discount,
+    promotion,
+    promotions: applied,
+    rejectedPromotions: rejected,
+  };
+}
+
+// ==================== Delivery Charges ====================
+
+// Delivery time estimation - the configured average delivery time covers a typical 5 km trip
+const TRAVEL_TIME_PER_KM = 2.5; // minutes per kilometer
+const DEFAULT_DISTANCE_KM = 5;
+
+export interface DeliveryChargeQuote {
+  deliveryCharges: number;
+  chargeType: string;
+  freeDelivery: boolean;
+  distance: number | null;
+  usingCustomConfig: boolean;
+  message?: string;
+  estimatedDeliveryTime: number;
+}
+
+// The distance is measured from the geocoded address to the branch. Only a distance the server
+// worked out earlier (stored on an order being repriced) is taken as given - never one from a client.
+export async function calculateDeliveryCharges(input: {
+  branchId: string;
+  orderAmount: number;
+  storedDistance?: number | null;
+  deliveryAddress?: string | null;
+  customerId?: string | null; // Loyalty tiers can carry free delivery
+}): Promise<DeliveryChargeQuote> {
+  const { branchId, orderAmount, deliveryAddress } = input;
+
+  // Get branch-specific config or use defaults
+  const config = await storage.getDeliveryChargesConfig(branchId);
+  const settings = await storage.getEffectiveSystemSettings(branchId);
+
+  // Use config only if it exists and is active, otherwise use defaults
+  const useConfig = !!(config && config.isActive);
+  const chargeType = useConfig ? config!.chargeType : DEFAULT_DELIVERY_CONFIG.CHARGE_TYPE;
+  const freeDeliveryThreshold = parseFloat(
+    useConfig ? (config!.freeDeliveryThreshold || DEFAULT_DELIVERY_CONFIG.FREE_DELIVERY_THRESHOLD.toString())
+              : DEFAULT_DELIVERY_CONFIG.FREE_DELIVERY_THRESHOLD.toString()
+  );
+
+  const basePrepTime = Math.max(0, settings.estimatedDeliveryTime - DEFAULT_DISTANCE_KM * TRAVEL_TIME_PER_KM);
+  const estimateTime = (distanceKm: number) => Math.ceil(basePrepTime + distanceKm * TRAVEL_TIME_PER_KM);
+
+  let calculatedDistance = typeof input.storedDistance === "number" && !isNaN(input.storedDistance) && input.storedDistance > 0
+    ? input.storedDistance
+    : null;
+  const safeDistance = calculatedDistance ?? DEFAULT_DISTANCE_KM;
+
+  // Fallback used when a distance cannot be determined for dynamic pricing
+  const defaultStaticQuote = (message: string): DeliveryChargeQuote => ({
+    deliveryCharges: DEFAULT_DELIVERY_CONFIG.STATIC_CHARGE,
+    chargeType: "static",
+    freeDelivery: false,
+    distance: null,
+    usingCustomConfig: false,
+    message,
+    estimatedDeliveryTime: estimateTime(DEFAULT_DISTANCE_KM),
+  });
+
+  const tierPerk = await hasTierFreeDelivery(input.customerId, settings);
+  if (tierPerk) {
+    return {
+      deliveryCharges: 0,
+      chargeType,
+      freeDelivery: true,
+      distance: calculatedDistance,
+      usingCustomConfig: useConfig,
+      message: `Free delivery - ${tierPerk.name} member perk`,
+      estimatedDeliveryTime: estimateTime(safeDistance),
+    };
+  }
+
+  if (orderAmount >= freeDeliveryThreshold) {
+    return {
+      deliveryCharges: 0,
+      chargeType,
+      freeDelivery: true,
+      distance: calculatedDistance,
+      usingCustomConfig: useConfig,
+      message: `Free delivery for orders above ₨${freeDeliveryThreshold}`,
+      estimatedDeliveryTime: estimateTime(safeDistance),
+    };
+  }
+
+  let deliveryCharges = 0;
+
+  if (chargeType === "static") {
+    deliveryCharges = parseFloat(
+      useConfig ? (config!.staticCharge || DEFAULT_DELIVERY_CONFIG.STATIC_CHARGE.toString())
+                : DEFAULT_DELIVERY_CONFIG.STATIC_CHARGE.toString()
+    );
+  } else {
+    // Dynamic pricing based on distance - geocode the address if no distance was provided
+    if (deliveryAddress && !calculatedDistance) {
+      const { geocodeAddress, calculateDistance, validateAddress } = await import("./geocoding");
+
+      const validation = validateAddress(deliveryAddress);
+      if (!validation.valid) {
+        console.warn('Address validation failed:', validation.error);
+        return defaultStaticQuote("Using default delivery charge (invalid address)");
+      }
+
+      const branch = await storage.getBranch(branchId);
+      if (!branch || !branch.latitude || !branch.longitude) {
+        console.warn('Branch coordinates not available for branch:', branchId);
+        return defaultStaticQuote("Using default delivery charge (branch coordinates unavailable)");
+      }
+
+      const geocoded = await geocodeAddress(deliveryAddress);
+      if (!geocoded) {
+        console.warn('Geocoding failed for address:', deliveryAddress.substring(0, 30));
+        return defaultStaticQuote("Using default delivery charge (address not found)");
+      }
+
+      calculatedDistance = calculateDistance(
+        parseFloat(branch.latitude),
+        parseFloat(branch.longitude),
+        geocoded.latitude,
+        geocoded.longitude
+      );
+    }
+
+    if (!calculatedDistance) {
+      return defaultStaticQuote("Using default delivery charge");
+    }
+
+    const baseCharge = parseFloat(
+      useConfig ? (config!.baseCharge || DEFAULT_DELIVERY_CONFIG.BASE_CHARGE.toString())
+                : DEFAULT_DELIVERY_CONFIG.BASE_CHARGE.toString()
+    );
+    const perKmCharge = parseFloat(
+      useConfig ? (config!.perKmCharge || DEFAULT_DELIVERY_CONFIG.PER_KM_CHARGE.toString())
+                : DEFAULT_DELIVERY_CONFIG.PER_KM_CHARGE.toString()
+    );
+    const maxDistance = parseFloat(
+      useConfig ? (config!.maxDeliveryDistance || settings.defaultDeliveryRadius.toString())
+                : settings.defaultDeliveryRadius.toString()
+    );
+
+    if (calculatedDistance > maxDistance) {
+      throw pricingError(`Delivery not available for distances over ${maxDistance} KM`, 400, {
+        maxDistance,
+        providedDistance: calculatedDistance,
+        estimatedDeliveryTime: estimateTime(maxDistance),
+      });
+    }
+
+    deliveryCharges = baseCharge + calculatedDistance * perKmCharge;
+  }
+
+  return {
+    deliveryCharges: roundMoney(deliveryCharges),
+    chargeType,
+    freeDelivery: false,
+    distance: calculatedDistance,
+    usingCustomConfig: useConfig,
+    estimatedDeliveryTime: estimateTime(safeDistance),
+  };
+}
+
+// ==================== Order Pricing ====================
+
+export interface PriceOrderInput {
+  branchId: string;
+  orderType: string;
+  items: string | any[]; // Order items as stored on orders.items (JSON string or array)
+  promoCode?: string | null;
+  promoCodeId?: string | null;
+  customerId?: string | null;
+  storedDeliveryDistance?: number | string | null; // Repricing an existing order: the distance measured when it was placed
+  customerAddress?: string | null;
+  rewardCodes?: string[] | null; // Loyalty reward vouchers to use on the order
+}
+
+function parseItems(items: string | any[]): any[] {
+  if (Array.isArray(items)) return items;
+  try {
+    const parsed = JSON.parse(items);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    throw pricingError("Order items are not valid JSON", 400);
+  }
+}
+
+async function priceLine(line: any, branchId: string): Promise<PricedLine> {
+  const menuItemId = resolveMenuItemId(line);
+  if (!menuItemId) {
+    throw pricingError("Order item is missing a menu item reference", 400);
+  }
+
+  const quantity = Number(line.quantity);
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw pricingError(`Invalid quantity for ${line.name || "order item"}`, 400);
+  }
+
+  const menuItem = await storage.getMenuItem(menuItemId);
+  if (!menuItem) {
+    throw pricingError(`Menu item not found: ${line.name || menuItemId}`, 400);
+  }
+  if (!menuItem.isAvailable) {
+    throw pricingError(`${menuItem.name} is currently unavailable`, 400);
+  }
+  if (menuItem.branchId && menuItem.branchId !== branchId) {
+    throw pricingError(`${menuItem.name} is not available at this branch`, 400);
+  }
+
+  // Load the variant groups assigned to this menu item with their active options
+  const assignments = await storage.getMenuItemVariants(menuItemId);
+  const groups = (await Promise.all(
+    assignments.map(async (assignment) => {
+      const group = await storage.getVariantGroup(assignment.variantGroupId);
+      if (!group || !group.isActive) return null;
+      const options = await storage.getVariantOptionsByGroup(group.id);
+      return { group, options: options.filter(option => option.isActive) };
+    })
+  )).filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+  // Every selection has to be an active option of one of the item's groups
+  const selections: Array<{ group: VariantGroup; option: VariantOption }> = [];
+  if (Array.isArray(line.variantOptionIds) && line.variantOptionIds.length > 0) {
+    // Selections by option id
+    for (const optionId of line.variantOptionIds) {
+      const match = groups
+        .map(({ group, options }) => ({ group, option: options.find(option => option.id === optionId) }))
+        .find(entry => entry.option);
+      if (!match || !match.option) {
+        throw pricingError(`Invalid option selected for ${menuItem.name}`, 400);
+      }
+      selections.push({ group: match.group, option: match.option });
+    }
+  } else if (Array.isArray(line.variants)) {
+    // Selections by group and option name
+    for (const selected of line.variants) {
+      const groupName = String(selected?.groupName || "").trim().toLowerCase();
+      const optionName = String(selected?.optionName || "").trim().toLowerCase();
+      const entry = groups.find(({ group }) => group.name.trim().toLowerCase() === groupName);
+      const option = entry?.options.find(option => option.name.trim().toLowerCase() === optionName);
+      if (!entry || !option) {
+        throw pricingError(`Invalid option selected for ${menuItem.name}: ${selected?.groupName || "?"} - ${selected?.optionName || "?"}`, 400);
+      }
+      selections.push({ group: entry.group, option });
+    }
+  }
+
+  // Required groups need a choice and single-select groups take only one
+  for (const { group, options } of groups) {
+    const chosen = selections.filter(selection => selection.group.id === group.id).length;
+    if (group.isRequired && options.length > 0 && chosen === 0) {
+      throw pricingError(`Choose a ${group.name} for ${menuItem.name}`, 400);
+    }
+    if (group.selectionType === "single" && chosen > 1) {
+      throw pricingError(`Choose only one ${group.name} for ${menuItem.name}`, 400);
+    }
+  }
+
+  const variants: PricedLineVariant[] = selections.map(({ group, option }) => ({
+    groupName: group.name,
+    optionName: option.name,
+    optionId: option.id,
+    priceModifier: parseFloat(option.priceModifier || "0"),
+  }));
+
+  const basePrice = parseFloat(menuItem.price);
+  const unitPrice = Math.max(0, calculateUnitPrice(basePrice, variants.map(variant => variant.priceModifier)));
+
+  return {
+    id: line.id,
+    menuItemId,
+    name: menuItem.name,
+    quantity,
+    basePrice,
+    price: unitPrice,
+    lineTotal: roundMoney(unitPrice * quantity),
+    variants,
+    specialInstructions: line.specialInstructions || line.instructions || undefined,
+  };
+}
+
+// ==================== Loyalty Rewards ====================
+
+// Free lines and free delivery from the order's reward vouchers
+async function applyRewardVouchers(input: PriceOrderInput) {
+  const lines: PricedLine[] = [];
+  const rewards: AppliedReward[] = [];
+  let freeDelivery = false;
+  const codes = Array.from(new Set((input.rewardCodes || []).map(code => String(code).trim().toUpperCase()).filter(Boolean)));
+  for (const code of codes) {
+    const { claim, reward } = await validateRewardVoucher(code, { branchId: input.branchId, customerId: input.customerId });
+    if (reward.rewardType === "free_delivery") {
+      if (input.orderType !== "delivery") {
+        throw pricingError(`${reward.name} can only be used on delivery orders`, 400);
+      }
+      freeDelivery = true;
+    } else {
+      const menuItem = reward.menuItemId ? await storage.getMenuItem(reward.menuItemId) : undefined;
+      if (!menuItem || !menuItem.isAvailable || (menuItem.branchId && menuItem.branchId !== input.branchId)) {
+        throw pricingError(`${reward.name} is currently unavailable`, 400);
+      }
+      const basePrice = parseFloat(menuItem.price);
+      lines.push({
+        menuItemId: menuItem.id,
+        name: `${menuItem.name} (Reward)`,
+        quantity: 1,
+        basePrice,
+        price: 0,
+        lineTotal: 0,
+        variants: [],
+        rewardClaimId: claim.id,
+      });
+    }
+    rewards.push({ claimId: claim.id, code: claim.code, name: reward.name, rewardType: reward.rewardType });
+  }
+  return { lines, rewards, freeDelivery };
+}
+
+// Price cart lines at current menu prices
+export async function priceItems(branchId: string, lines: string | any[]): Promise<PricedLine[]> {
+  const items: PricedLine[] = [];
+  for (const line of parseItems(lines)) {
+    items.push(await priceLine(line, branchId));
+  }
+  return items;
+}
+
+export async function priceOrder(input: PriceOrderInput): Promise<OrderPricing> {
+  // Reward lines sent back from an earlier quote are rebuilt from the vouchers
+  const rawItems = parseItems(input.items).filter(line => !line?.rewardClaimId);
+  if (rawItems.length === 0) {
+    throw pricingError("Order must contain at least one item", 400);
+  }
+
+  const items = await priceItems(input.branchId, rawItems);
+  const rewardVouchers = await applyRewardVouchers(input);
+  items.push(...rewardVouchers.lines);
+  const subtotal = calculateSubtotal(items);
+
+  // Delivery is quoted before the promotion so free delivery can be weighed against the charge
+  const quote = input.orderType === "delivery"
+    ? await calculateDeliveryCharges({
+        branchId: input.branchId,
+        orderAmount: subtotal,
+        storedDistance: input.storedDeliveryDistance != null ? parseFloat(String(input.storedDeliveryDistance)) : null,
+        deliveryAddress: input.customerAddress,
+        customerId: input.customerId,
+      })
+    : null;
+  const quotedCharges = quote && !quote.freeDelivery && !rewardVouchers.freeDelivery ? quote.deliveryCharges : 0;
+
+  // Re-validate the promo code against the recomputed cart, stacked with the automatic promotions
+  // the cart qualifies for
+  let promotions: AppliedPromotion[];
+  let rejectedPromotions: RejectedPromotion[];
+  let code = input.promoCode?.trim() || null;
+  if (!code && input.promoCodeId) {
+    const existing = await storage.getPromoCode(input.promoCodeId);
+    if (!existing) {
+      throw pricingError("Invalid promo code", 400);
+    }
+    code = existing.code;
+  }
+  if (code) {
+    const validation = await validatePromoCode(code, {
+      orderAmount: subtotal,
+      branchId: input.branchId,
+      userId: input.customerId,
+      items,
+      orderType: input.orderType,
+      deliveryCharges: quotedCharges,
+    });
+    ({ promotions, rejectedPromotions } = validation);
+  } else {
+    const cart = await loadPromotionCart({
+      branchId: input.branchId,
+      customerId: input.customerId,
+      orderType: input.orderType,
+      items,
+      subtotal,
+    });
+    ({ applied: promotions, rejected: rejectedPromotions } = await stackPromotions(cart, { deliveryCharges: quotedCharges }));
+  }
+  const discount = roundMoney(promotions.reduce((sum, promotion) => sum + promotion.discount, 0));
+
+  const settings = await storage.getEffectiveSystemSettings(input.branchId);
+  const tax = calculateTax(subtotal - discount, settings.taxRate, settings.taxEnabled);
+
+  const freeDelivery = !!quote && (quote.freeDelivery || rewardVouchers.freeDelivery || promotions.some(promotion => promotion.freeDelivery));
+  const deliveryCharges = quote && !freeDelivery ? quote.deliveryCharges : 0;
+
+  return {
+    items,
+    subtotal,
+    discount,
+    tax,
+    deliveryCharges,
+    total: calculateOrderTotal({ subtotal, discount, tax, deliveryCharges }),
+    promoCodeId: promotions[0]?.promoCodeId ?? null,
+    promoCode: promotions[0]?.code ?? null,
+    deliveryDistance: quote?.distance ?? null,
+    freeDelivery,
+    rewards: rewardVouchers.rewards,
+    promotions,
+    rejectedPromotions,
+  };
+}
@@ -0,0 +1,178 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { roundMoney } from "@shared/pricing";
+import type { InsertPromoCode, MarketingCampaign, PromoCodeBatchInput, User } from "@shared/schema";
+
+// Promo code batches - unique single-use codes like KP-7GX2Q generated from a template promotion.
+// Each code is its own promo code row copying the template's rules with a usage limit of 1, so
+// codes are checked and tracked like any other. A code can be assigned to a customer, making it
+// theirs alone, and a marketing campaign can issue one to each recipient.
+
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // No 0/O or 1/I lookalikes
+
+function batchError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+function generateCode(prefix: string, length: number) {
+  let suffix = "";
+  for (let i = 0; i < length; i++) {
+    suffix += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  }
+  return `${prefix}-${suffix}`;
+}
+
+// Customer accounts by phone number or email - every one has to be found
+async function resolveCustomers(identifiers: string[]) {
+  const customers: User[] = [];
+  const missing: string[] = [];
+  for (const identifier of Array.from(new Set(identifiers))) {
+    const user = identifier.includes("@")
+      ? await storage.getUserByEmail(identifier)
+      : await storage.getCustomerByPhone(identifier);
+    if (user && user.role === "customer") {
+      customers.push(user);
+    } else {
+      missing.push(identifier);
+    }
+  }
+  if (missing.length > 0) {
+    throw batchError(`No customer account found for ${missing.slice(0, 5).join(", ")}${missing.length > 5 ? ` and ${missing.length - 5} more` : ""}`, 400);
+  }
+  return customers;
+}
+
+async function generateBatch(
+  input: { name: string; templatePromoCodeId: string; prefix: string; codeLength: number; quantity: number; customerIds: string[] },
+  createdBy: string | null,
+  campaignId: string | null
+) {
+  const template = await storage.getPromoCode(input.templatePromoCodeId);
+  if (!template) {
+    throw batchError("Template promotion not found", 404);
+  }
+  if (template.batchId) {
+    throw batchError("A code from a batch cannot be used as a template", 400);
+  }
+
+  // Unique against each other and every code already issued with the prefix
+  const taken = new Set(await storage.getPromoCodesWithPrefix(input.prefix));
+  const codes: string[] = [];
+  let attempts = 0;
+  while (codes.length < input.quantity) {
+    if (++attempts > input.quantity * 20) {
+      throw batchError("Not enough unique codes left for this prefix - use a longer code or another prefix", 400);
+    }
+    const code = generateCode(input.prefix, input.codeLength);
+    if (!taken.has(code)) {
+      taken.add(code);
+      codes.push(code);
+    }
+  }
+
+  const { id: _id, code: _code, usageCount: _usageCount, createdAt: _createdAt, batchId: _batchId, ...rules } = template;
+  const rows: InsertPromoCode[] = codes.map((code, index) => ({
+    ...rules,
+    code,
+    usageLimit: 1,
+    perUserLimit: null,
+    isAutomatic: false,
+    isActive: true,
+    customerId: input.customerIds[index] ?? template.customerId,
+    createdBy,
+  }));
+
+  return await storage.createPromoCodeBatch({
+    name: input.name,
+    templatePromoCodeId: template.id,
+    prefix: input.prefix,
+    quantity: codes.length,
+    campaignId,
+    createdBy,
+  }, rows);
+}
+
+export async function createPromoCodeBatch(input: PromoCodeBatchInput, createdBy: string) {
+  const customers = await resolveCustomers(input.customers);
+  return await generateBatch({
+    name: input.name,
+    templatePromoCodeId: input.templatePromoCodeId,
+    prefix: input.prefix,
+    codeLength: input.codeLength,
+    quantity: customers.length || input.quantity!,
+    customerIds: customers.map(customer => customer.id),
+  }, createdBy, null);
+}
+
+// One code per campaign recipient, by customer id
+export async function issueCampaignCodes(campaign: MarketingCampaign, customerIds: string[], createdBy: string) {
+  const { codes } = await generateBatch({
+    name: `Campaign: ${campaign.name}`,
+    templatePromoCodeId: campaign.promoTemplateId!,
+    prefix: "KP",
+    codeLength: 5,
+    quantity: customerIds.length,
+    customerIds,
+  }, createdBy, campaign.id);
+  return new Map(codes.map(code => [code.customerId!, code.code]));
+}
+
+// Every batch with how many of its codes have been redeemed and what they took off orders
+export async function getPromoCodeBatchSummaries() {
+  const [batches, templates, campaigns] = await Promise.all([
+    storage.getPromoCodeBatches(),
+    storage.getAllPromoCodes(),
+    storage.getAllMarketingCampaigns(),
+  ]);
+  return await Promise.all(batches.map(async (batch) => {
+    const usage = await storage.getPromoCodeUsageByBatch(batch.id);
+    return {
+      ...batch,
+      templateCode: templates.find(t => t.id === batch.templatePromoCodeId)?.code || null,
+      campaignName: campaigns.find(c => c.id === batch.campaignId)?.name || null,
+      redeemed: usage.length,
+      discountTotal: roundMoney(usage.reduce((sum, u) => sum + parseFloat(u.discountAmount), 0)),
+    };
+  }));
+}
+
+// The batch's codes with who they were issued to and when they were used, for export
+export async function getPromoCodeBatchCodes(batchId: string) {
+  const batch = await storage.getPromoCodeBatch(batchId);
+  if (!batch) {
+    throw batchError("Promo code batch not found", 404);
+  }
+  const [codes, usage] = await Promise.all([
+    storage.getPromoCodesByBatch(batchId),
+    storage.getPromoCodeUsageByBatch(batchId),
+  ]);
+  const customers = new Map<string, User | undefined>();
+  for (const customerId of Array.from(new Set(codes.map(c => c.customerId).filter((id): id is string => !!id)))) {
+    customers.set(customerId, await storage.getUser(customerId));
+  }
+  return codes.map(code => {
+    const redemption = usage.find(u => u.promoCodeId === code.id);
+    const customer = code.customerId ? customers.get(code.customerId) : undefined;
+    return {
+      code: code.code,
+      status: redemption ? "redeemed" : code.isActive ? "unused" : "voided",
+      customerName: customer?.fullName || null,
+      customerPhone: customer?.phone || null,
+      customerEmail: customer?.email || null,
+      orderId: redemption?.orderId || null,
+      discountAmount: redemption ? parseFloat(redemption.discountAmount) : null,
+      usedAt: redemption?.usedAt || null,
+    };
+  });
+}
+
+// Stop the batch's unused codes from working - redeemed ones keep their history
+export async function voidPromoCodeBatch(batchId: string) {
+  const batch = await storage.getPromoCodeBatch(batchId);
+  if (!batch) {
+    throw batchError("Promo code batch not found", 404);
+  }
+  return await storage.voidUnusedBatchCodes(batchId);
+}
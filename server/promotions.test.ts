@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_SYSTEM_SETTINGS, type PromoCode } from "@shared/schema";
+import type { PricedLine } from "@shared/pricing";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getAutomaticPromoCodes: vi.fn(),
+    getEffectiveSystemSettings: vi.fn(),
+    getUserPromoCodeUsageCount: vi.fn(),
+    getOrdersByCustomer: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import { stackPromotions, type PromotionCart } from "./promotions";
+
+function promoCode(overrides: Partial<PromoCode>): PromoCode {
+  return {
+    id: overrides.code || "promo",
+    code: "PROMO",
+    description: null,
+    discountType: "percentage",
+    discountValue: "10",
+    minOrderAmount: "0",
+    maxDiscountAmount: null,
+    menuItemIds: [],
+    categoryIds: [],
+    buyQuantity: null,
+    getQuantity: null,
+    getMenuItemIds: [],
+    getCategoryIds: [],
+    firstOrderOnly: false,
+    daysOfWeek: [],
+    startTime: null,
+    endTime: null,
+    isAutomatic: false,
+    isCombinable: false,
+    priority: 0,
+    excludeDiscountedItems: false,
+    batchId: null,
+    usageLimit: null,
+    usageCount: 0,
+    perUserLimit: null,
+    validFrom: new Date(0),
+    validUntil: null,
+    isActive: true,
+    branchId: null,
+    customerId: null,
+    createdBy: null,
+    createdAt: new Date(0),
+    ...overrides,
+  };
+}
+
+function line(menuItemId: string, price: number, quantity: number): PricedLine {
+  return { menuItemId, name: menuItemId, quantity, basePrice: price, price, lineTotal: price * quantity, variants: [] };
+}
+
+// Two pizzas at 400 and two drinks at 100
+function cart(): PromotionCart {
+  return {
+    branchId: "branch-1",
+    customerId: "customer-1",
+    orderType: "takeaway",
+    items: [line("pizza", 400, 2), line("drink", 100, 2)],
+    subtotal: 1000,
+    categories: new Map([["pizza", "pizzas"], ["drink", "drinks"]]),
+  };
+}
+
+describe("stackPromotions", () => {
+  beforeEach(() => {
+    vi.mocked(storage.getAutomaticPromoCodes).mockResolvedValue([]);
+    vi.mocked(storage.getEffectiveSystemSettings).mockResolvedValue({ ...DEFAULT_SYSTEM_SETTINGS });
+  });
+
+  it("applies the code entered on its own", async () => {
+    const save10 = promoCode({ code: "SAVE10" });
+
+    const { applied, rejected } = await stackPromotions(cart(), { promoCode: save10, deliveryCharges: 0 });
+
+    expect(applied.map(promotion => [promotion.code, promotion.discount])).toEqual([["SAVE10", 100]]);
+    expect(rejected).toEqual([]);
+  });
+
+  it("applies combinable promotions highest priority first, each on what is left", async () => {
+    const drinks = promoCode({ code: "DRINKS50", discountValue: "50", categoryIds: ["drinks"], isAutomatic: true, isCombinable: true, priority: 1 });
+    vi.mocked(storage.getAutomaticPromoCodes).mockResolvedValue([drinks]);
+
+    const { applied } = await stackPromotions(cart(), {
+      promoCode: promoCode({ code: "SAVE10", isCombinable: true }),
+      deliveryCharges: 0,
+    });
+
+    expect(applied.map(promotion => [promotion.code, promotion.discount])).toEqual([["DRINKS50", 100], ["SAVE10", 90]]);
+    expect(applied[0].lines).toEqual([expect.objectContaining({ menuItemId: "drink", quantity: 2, discount: 100 })]);
+  });
+
+  it("rejects promotions that cannot be combined with a higher-priority one", async () => {
+    const auto20 = promoCode({ code: "AUTO20", discountValue: "20", isAutomatic: true, priority: 5 });
+    vi.mocked(storage.getAutomaticPromoCodes).mockResolvedValue([auto20]);
+
+    const { applied, rejected } = await stackPromotions(cart(), {
+      promoCode: promoCode({ code: "SAVE10", isCombinable: true }),
+      deliveryCharges: 0,
+    });
+
+    expect(applied.map(promotion => promotion.code)).toEqual(["AUTO20"]);
+    expect(rejected).toEqual([{
+      promoCodeId: "SAVE10",
+      code: "SAVE10",
+      automatic: false,
+      reason: "SAVE10 cannot be combined with AUTO20, which takes priority",
+    }]);
+  });
+
+  it("keeps the promotions within the order discount cap", async () => {
+    vi.mocked(storage.getEffectiveSystemSettings).mockResolvedValue({ ...DEFAULT_SYSTEM_SETTINGS, maxOrderDiscountPercent: 15 });
+    const auto10 = promoCode({ code: "AUTO10", isAutomatic: true, isCombinable: true, priority: 1 });
+    const extra = promoCode({ code: "EXTRA", discountValue: "5", isAutomatic: true, isCombinable: true });
+    vi.mocked(storage.getAutomaticPromoCodes).mockResolvedValue([auto10, extra]);
+
+    const { applied, rejected } = await stackPromotions(cart(), {
+      promoCode: promoCode({ code: "SAVE10", isCombinable: true }),
+      deliveryCharges: 0,
+    });
+
+    expect(applied.map(promotion => [promotion.code, promotion.discount])).toEqual([["AUTO10", 100], ["SAVE10", 50]]);
+    expect(applied[1].reason).toContain("limited by the order discount cap");
+    expect(rejected.map(rejection => [rejection.code, rejection.reason])).toEqual([
+      ["EXTRA", "The order already has the most discount allowed - 15% of the subtotal (₨150.00)"],
+    ]);
+  });
+
+  it("skips lines an earlier promotion discounted when the promotion excludes them", async () => {
+    const drinks = promoCode({ code: "DRINKS50", discountValue: "50", categoryIds: ["drinks"], isAutomatic: true, isCombinable: true, priority: 1 });
+    vi.mocked(storage.getAutomaticPromoCodes).mockResolvedValue([drinks]);
+
+    const { rejected } = await stackPromotions(cart(), {
+      promoCode: promoCode({ code: "DRINKS10", menuItemIds: ["drink"], isCombinable: true, excludeDiscountedItems: true }),
+      deliveryCharges: 0,
+    });
+
+    expect(rejected.map(rejection => rejection.reason)).toEqual(["DRINKS10 does not apply to items that are already discounted"]);
+  });
+
+  it("gives the cheapest units of each group free on a bogo", async () => {
+    const bogo = promoCode({ code: "PIZZABOGO", discountType: "bogo", discountValue: "100", categoryIds: ["pizzas"], buyQuantity: 1, getQuantity: 1 });
+
+    const { applied } = await stackPromotions(cart(), { promoCode: bogo, deliveryCharges: 0 });
+
+    expect(applied[0].discount).toBe(400);
+    expect(applied[0].lines).toEqual([expect.objectContaining({ menuItemId: "pizza", quantity: 1, discount: 400 })]);
+  });
+
+  it("only applies automatic free delivery when there is a charge to waive", async () => {
+    const freeDelivery = promoCode({ code: "FREEDEL", discountType: "free_delivery", discountValue: "0", isAutomatic: true });
+    vi.mocked(storage.getAutomaticPromoCodes).mockResolvedValue([freeDelivery]);
+    const delivery = { ...cart(), orderType: "delivery" };
+
+    expect((await stackPromotions(delivery, { deliveryCharges: 0 })).applied).toEqual([]);
+
+    const { applied } = await stackPromotions(delivery, { deliveryCharges: 150 });
+    expect(applied).toEqual([expect.objectContaining({ code: "FREEDEL", freeDelivery: true, discount: 0 })]);
+  });
+});
@@ -0,0 +1,520 @@
+import { storage } from "./storage";
+import {
+  PROMO_DISCOUNT_TYPES,
+  type InsertPromoCode,
+  type Order,
+  type OrderPromotion,
+  type PromoCode,
+  type SystemSettingsValues,
+} from "@shared/schema";
+import {
+  PRICE_TOLERANCE,
+  roundMoney,
+  calculatePromoDiscount,
+  describePromotion,
+  type AppliedPromotion,
+  type DiscountedLine,
+  type PricedLine,
+  type RejectedPromotion,
+} from "@shared/pricing";
+
+// Promotions - the rules a promo code can carry beyond a discount on the whole order. The discount
+// can be limited to some items or categories, give free units (BOGO, buy X get Y) or waive
+// delivery; the promotion can be limited to a customer's first order or to some days and hours
+// (happy hour); and automatic promotions apply to every qualifying order without a code.
+//
+// Several promotions can apply to one order when they are all combinable. They apply highest
+// priority first, each on what the ones before it left of a line; an exclusive promotion applies
+// alone. Promotions and a cashier's manual discount together stay within the order discount cap.
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function promotionError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+// The cart a promotion is checked against - lines are empty when only an order amount is known
+export interface PromotionCart {
+  branchId: string;
+  customerId?: string | null;
+  orderType?: string | null;
+  items: PricedLine[];
+  subtotal: number;
+  categories: Map<string, string | null>; // Category of each line's menu item
+}
+
+export async function loadPromotionCart(cart: Omit<PromotionCart, "categories">): Promise<PromotionCart> {
+  const categories = new Map<string, string | null>();
+  for (const menuItemId of Array.from(new Set(cart.items.map(line => line.menuItemId)))) {
+    const menuItem = await storage.getMenuItem(menuItemId);
+    categories.set(menuItemId, menuItem?.categoryId ?? null);
+  }
+  return { ...cart, categories };
+}
+
+// Check the rules on a promo code before it is saved
+export function assertPromotionRules(promoCode: Partial<InsertPromoCode>) {
+  const discountType = promoCode.discountType || "percentage";
+  if (!(PROMO_DISCOUNT_TYPES as readonly string[]).includes(discountType)) {
+    throw promotionError(`Unknown discount type: ${discountType}`, 400);
+  }
+  if ((discountType === "bogo" || discountType === "buy_x_get_y") &&
+      !(Number(promoCode.buyQuantity) >= 1 && Number(promoCode.getQuantity) >= 1)) {
+    throw promotionError("Buy and get quantities must be at least 1", 400);
+  }
+  if (!!promoCode.startTime !== !!promoCode.endTime ||
+      [promoCode.startTime, promoCode.endTime].some(time => time && !TIME_PATTERN.test(time))) {
+    throw promotionError("Give both a start and an end time as HH:MM", 400);
+  }
+  if ((promoCode.daysOfWeek || []).some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw promotionError("Days of the week must be 0 (Sunday) to 6 (Saturday)", 400);
+  }
+}
+
+// ==================== Schedule ====================
+
+// Day of the week and minutes past midnight in the restaurant's timezone
+function localClock(now: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZone,
+  }).formatToParts(now);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || "0";
+  return {
+    day: WEEKDAYS.indexOf(part("weekday")),
+    minutes: parseInt(part("hour")) * 60 + parseInt(part("minute")),
+  };
+}
+
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Days count by when the order is placed, so a window past midnight runs into the next day
+export function isWithinSchedule(promoCode: PromoCode, now: Date, timeZone: string) {
+  const clock = localClock(now, timeZone);
+  const days = promoCode.daysOfWeek as number[];
+  if (days.length > 0 && !days.includes(clock.day)) return false;
+  if (!promoCode.startTime || !promoCode.endTime) return true;
+
+  const start = toMinutes(promoCode.startTime);
+  const end = toMinutes(promoCode.endTime);
+  return start <= end
+    ? clock.minutes >= start && clock.minutes < end
+    : clock.minutes >= start || clock.minutes < end;
+}
+
+function describeSchedule(promoCode: PromoCode) {
+  const days = (promoCode.daysOfWeek as number[]).slice().sort().map(day => WEEKDAYS[day]).join(", ");
+  const hours = promoCode.startTime && promoCode.endTime ? `${promoCode.startTime}-${promoCode.endTime}` : "";
+  return [days, hours].filter(Boolean).join(" ");
+}
+
+// ==================== Eligibility ====================
+
+// Why the promotion cannot be used on the cart right now, or null when it can
+export async function checkPromotion(promoCode: PromoCode, cart: PromotionCart): Promise<string | null> {
+  if (!promoCode.isActive) {
+    return "Promo code is not active";
+  }
+
+  const now = new Date();
+  if (promoCode.validUntil && new Date(promoCode.validUntil) < now) {
+    return "Promo code has expired";
+  }
+
+  if (new Date(promoCode.validFrom) > now) {
+    return "Promo code is not valid yet";
+  }
+
+  if (promoCode.usageLimit && promoCode.usageCount >= promoCode.usageLimit) {
+    return promoCode.batchId ? "This promo code has already been used" : "Promo code usage limit reached";
+  }
+
+  // Per-user limits can only be enforced for signed-in customers
+  if (promoCode.perUserLimit) {
+    if (!cart.customerId) {
+      return "Please sign in to use this promo code";
+    }
+    const userUsageCount = await storage.getUserPromoCodeUsageCount(promoCode.id, cart.customerId);
+    if (userUsageCount >= promoCode.perUserLimit) {
+      return "You have reached the usage limit for this promo code";
+    }
+  }
+
+  // Personal codes (e.g. referral rewards) belong to one customer
+  if (promoCode.customerId && promoCode.customerId !== cart.customerId) {
+    return "This promo code belongs to another customer";
+  }
+
+  if (promoCode.branchId && promoCode.branchId !== cart.branchId) {
+    return "Promo code is not valid for this branch";
+  }
+
+  if (parseFloat(promoCode.minOrderAmount || "0") > cart.subtotal) {
+    return `Minimum order amount of ₨${promoCode.minOrderAmount} required`;
+  }
+
+  if (promoCode.discountType === "free_delivery" && cart.orderType && cart.orderType !== "delivery") {
+    return "Promo code is only valid on delivery orders";
+  }
+
+  const settings = await storage.getEffectiveSystemSettings(cart.branchId);
+  if (!isWithinSchedule(promoCode, now, settings.timezone)) {
+    return `Promo code is only valid ${describeSchedule(promoCode)}`;
+  }
+
+  // Orders that were cancelled or rejected do not count as the customer's first
+  if (promoCode.firstOrderOnly) {
+    if (!cart.customerId) {
+      return "Please sign in to use this promo code";
+    }
+    const orders = await storage.getOrdersByCustomer(cart.customerId);
+    if (orders.some(order => order.status !== "cancelled" && order.status !== "rejected")) {
+      return "Promo code is only valid on your first order";
+    }
+  }
+
+  return null;
+}
+
+// ==================== Discounts ====================
+
+interface LineShare {
+  lineIndex: number;
+  quantity: number;
+  amount: number; // What the line's share is weighed by
+}
+
+interface Unit {
+  id: number;
+  lineIndex: number;
+  price: number;
+}
+
+// What the promotions applied before this one took off, line by line
+interface PriorDiscounts {
+  lines: Map<number, number>;
+  total: number;
+}
+
+const NO_PRIOR_DISCOUNTS: PriorDiscounts = { lines: new Map(), total: 0 };
+
+// What is left of a line after earlier promotions
+function remainingValue(line: PricedLine, lineIndex: number, prior: PriorDiscounts) {
+  return roundMoney(line.lineTotal - (prior.lines.get(lineIndex) || 0));
+}
+
+// Free lines from reward vouchers are never discounted again, nor are lines an earlier promotion
+// discounted when the promotion excludes them
+function isDiscountable(line: PricedLine, lineIndex: number, promoCode: PromoCode, prior: PriorDiscounts) {
+  if (line.lineTotal <= 0 || line.rewardClaimId) return false;
+  if (promoCode.excludeDiscountedItems && prior.lines.has(lineIndex)) return false;
+  return remainingValue(line, lineIndex, prior) > 0;
+}
+
+function hasScope(menuItemIds: unknown, categoryIds: unknown) {
+  return (menuItemIds as string[]).length > 0 || (categoryIds as string[]).length > 0;
+}
+
+// No items or categories means every item
+function inScope(menuItemIds: unknown, categoryIds: unknown, line: PricedLine, cart: PromotionCart) {
+  if (!hasScope(menuItemIds, categoryIds)) return true;
+  const categoryId = cart.categories.get(line.menuItemId);
+  return (menuItemIds as string[]).includes(line.menuItemId) ||
+    (!!categoryId && (categoryIds as string[]).includes(categoryId));
+}
+
+// Split a discount over lines in proportion to their shares, the last line taking the rounding
+function splitDiscount(discount: number, shares: LineShare[], cart: PromotionCart, reason: string): DiscountedLine[] {
+  const total = shares.reduce((sum, share) => sum + share.amount, 0);
+  if (discount <= 0 || total <= 0) return [];
+
+  let remaining = discount;
+  return shares.map((share, index) => {
+    const amount = index === shares.length - 1 ? roundMoney(remaining) : roundMoney((discount * share.amount) / total);
+    remaining = roundMoney(remaining - amount);
+    const line = cart.items[share.lineIndex];
+    return {
+      lineIndex: share.lineIndex,
+      menuItemId: line.menuItemId,
+      name: line.name,
+      quantity: share.quantity,
+      discount: amount,
+      reason,
+    };
+  });
+}
+
+// Units a bogo / buy X get Y promotion discounts. The dearest qualifying units count as bought and
+// the cheapest eligible units are discounted, for as many full groups as the cart holds.
+function discountedUnits(promoCode: PromoCode, cart: PromotionCart, prior: PriorDiscounts): Unit[] {
+  const buyQuantity = promoCode.buyQuantity || 1;
+  const getQuantity = promoCode.getQuantity || 1;
+
+  const units: Array<Unit & { buys: boolean; gets: boolean }> = [];
+  cart.items.forEach((line, lineIndex) => {
+    if (!isDiscountable(line, lineIndex, promoCode, prior)) return;
+    const price = (line.price * remainingValue(line, lineIndex, prior)) / line.lineTotal;
+    const buys = inScope(promoCode.menuItemIds, promoCode.categoryIds, line, cart);
+    const gets = promoCode.discountType === "bogo"
+      ? buys
+      : inScope(promoCode.getMenuItemIds, promoCode.getCategoryIds, line, cart);
+    for (let i = 0; i < line.quantity; i++) {
+      units.push({ id: units.length, lineIndex, price, buys, gets });
+    }
+  });
+
+  const bought = units.filter(unit => unit.buys).sort((a, b) => b.price - a.price);
+  const eligible = units.filter(unit => unit.gets).sort((a, b) => a.price - b.price);
+  const used = new Set<number>();
+  const discounted: Unit[] = [];
+  while (true) {
+    const group = bought.filter(unit => !used.has(unit.id)).slice(0, buyQuantity);
+    if (group.length < buyQuantity) break;
+    group.forEach(unit => used.add(unit.id));
+
+    const free = eligible.filter(unit => !used.has(unit.id)).slice(0, getQuantity);
+    if (free.length < getQuantity) break;
+    free.forEach(unit => used.add(unit.id));
+    discounted.push(...free);
+  }
+  return discounted;
+}
+
+// The discount the promotion gives on the cart, line by line - null when nothing in it qualifies
+export function evaluatePromotion(
+  promoCode: PromoCode,
+  cart: PromotionCart,
+  automatic: boolean,
+  prior: PriorDiscounts = NO_PRIOR_DISCOUNTS
+): AppliedPromotion | null {
+  const rule = describePromotion(promoCode);
+  const reason = `${promoCode.code}: ${rule}`;
+  const matching = cart.items
+    .map((line, lineIndex) => ({ line, lineIndex }))
+    .filter(({ line, lineIndex }) => isDiscountable(line, lineIndex, promoCode, prior) &&
+      inScope(promoCode.menuItemIds, promoCode.categoryIds, line, cart));
+
+  let discount = 0;
+  let freeDelivery = false;
+  let lines: DiscountedLine[] = [];
+  if (promoCode.discountType === "free_delivery") {
+    // Free delivery limited to some items needs one of them in the cart
+    if (hasScope(promoCode.menuItemIds, promoCode.categoryIds) && matching.length === 0) return null;
+    freeDelivery = true;
+  } else if (promoCode.discountType === "bogo" || promoCode.discountType === "buy_x_get_y") {
+    const percent = Math.min(100, parseFloat(promoCode.discountValue));
+    const shares = new Map<number, LineShare>();
+    for (const unit of discountedUnits(promoCode, cart, prior)) {
+      const share = shares.get(unit.lineIndex) || { lineIndex: unit.lineIndex, quantity: 0, amount: 0 };
+      share.quantity += 1;
+      share.amount += (unit.price * percent) / 100;
+      shares.set(unit.lineIndex, share);
+    }
+    let total = Array.from(shares.values()).reduce((sum, share) => sum + share.amount, 0);
+    if (promoCode.maxDiscountAmount) {
+      total = Math.min(total, parseFloat(promoCode.maxDiscountAmount));
+    }
+    discount = roundMoney(Math.max(0, total));
+    lines = splitDiscount(discount, Array.from(shares.values()), cart, reason);
+  } else {
+    // Percentage or fixed off the matching lines, or off the whole order when it has no scope (less
+    // what earlier promotions took off, or without the lines they discounted when it excludes them)
+    const shares = matching.map(({ line, lineIndex }) => ({
+      lineIndex,
+      quantity: line.quantity,
+      amount: remainingValue(line, lineIndex, prior),
+    }));
+    const onMatchingLines = hasScope(promoCode.menuItemIds, promoCode.categoryIds) ||
+      (promoCode.excludeDiscountedItems && prior.lines.size > 0);
+    const base = onMatchingLines
+      ? roundMoney(shares.reduce((sum, share) => sum + share.amount, 0))
+      : roundMoney(cart.subtotal - prior.total);
+    discount = base > 0 ? calculatePromoDiscount(promoCode, base) : 0;
+    lines = splitDiscount(discount, shares, cart, reason);
+  }
+
+  if (discount <= 0 && !freeDelivery) return null;
+
+  const schedule = describeSchedule(promoCode);
+  return {
+    promoCodeId: promoCode.id,
+    code: promoCode.code,
+    description: promoCode.description,
+    discountType: promoCode.discountType,
+    automatic,
+    discount,
+    freeDelivery,
+    reason: [rule, schedule, promoCode.firstOrderOnly ? "first order only" : ""].filter(Boolean).join(" · "),
+    lines,
+  };
+}
+
+// ==================== Stacking ====================
+
+// Most the promotions and manual discounts on an order can take off together
+export function maxOrderDiscount(subtotal: number, settings: SystemSettingsValues) {
+  return settings.maxOrderDiscountPercent > 0
+    ? roundMoney((subtotal * settings.maxOrderDiscountPercent) / 100)
+    : subtotal;
+}
+
+function describeCap(settings: SystemSettingsValues, cap: number) {
+  return `${settings.maxOrderDiscountPercent}% of the subtotal (₨${cap.toFixed(2)})`;
+}
+
+// Cut a promotion down to what is left under the order discount cap
+function capPromotion(promotion: AppliedPromotion, allowed: number, cart: PromotionCart): AppliedPromotion {
+  const shares = promotion.lines.map(line => ({ lineIndex: line.lineIndex, quantity: line.quantity, amount: line.discount }));
+  return {
+    ...promotion,
+    discount: allowed,
+    reason: `${promotion.reason} · limited by the order discount cap`,
+    lines: splitDiscount(allowed, shares, cart, promotion.lines[0]?.reason || promotion.code),
+  };
+}
+
+interface Candidate {
+  promoCode: PromoCode;
+  automatic: boolean;
+  value: number; // What it is worth on its own - free delivery is worth the charge it saves
+}
+
+export interface StackedPromotions {
+  applied: AppliedPromotion[];
+  rejected: RejectedPromotion[];
+}
+
+// The promotions for the cart: the code entered (already checked) and every automatic promotion it
+// qualifies for. Highest priority applies first - the code entered first among equals, then the
+// one worth most. Whatever cannot be combined with what is already on the order, has nothing left
+// to discount or would go over the cap is rejected with the reason.
+export async function stackPromotions(
+  cart: PromotionCart,
+  options: { promoCode?: PromoCode | null; deliveryCharges: number }
+): Promise<StackedPromotions> {
+  const candidates: Candidate[] = [];
+  const consider = (promoCode: PromoCode, automatic: boolean) => {
+    const promotion = evaluatePromotion(promoCode, cart, automatic);
+    if (!promotion) return;
+    const value = promotion.discount + (promotion.freeDelivery ? options.deliveryCharges : 0);
+    if (value > 0 || !automatic) {
+      candidates.push({ promoCode, automatic, value });
+    }
+  };
+  if (options.promoCode) {
+    consider(options.promoCode, false);
+  }
+  for (const promoCode of await storage.getAutomaticPromoCodes()) {
+    if (promoCode.id === options.promoCode?.id || await checkPromotion(promoCode, cart)) continue;
+    consider(promoCode, true);
+  }
+  candidates.sort((a, b) =>
+    b.promoCode.priority - a.promoCode.priority ||
+    Number(a.automatic) - Number(b.automatic) ||
+    b.value - a.value
+  );
+
+  const settings = await storage.getEffectiveSystemSettings(cart.branchId);
+  const cap = maxOrderDiscount(cart.subtotal, settings);
+  const applied: Array<{ promoCode: PromoCode; promotion: AppliedPromotion }> = [];
+  const rejected: RejectedPromotion[] = [];
+  const prior: PriorDiscounts = { lines: new Map(), total: 0 };
+  for (const { promoCode, automatic } of candidates) {
+    const reject = (reason: string) => rejected.push({ promoCodeId: promoCode.id, code: promoCode.code, automatic, reason });
+
+    const exclusive = applied.find(entry => !entry.promoCode.isCombinable);
+    if (exclusive) {
+      reject(`${promoCode.code} cannot be combined with ${exclusive.promoCode.code}, which takes priority`);
+      continue;
+    }
+    if (applied.length > 0 && !promoCode.isCombinable) {
+      reject(`${promoCode.code} cannot be combined with other promotions and ${applied[0].promoCode.code} takes priority`);
+      continue;
+    }
+
+    let promotion = evaluatePromotion(promoCode, cart, automatic, prior);
+    if (!promotion) {
+      reject(promoCode.excludeDiscountedItems
+        ? `${promoCode.code} does not apply to items that are already discounted`
+        : `Nothing is left for ${promoCode.code} to discount after the promotions before it`);
+      continue;
+    }
+    if (promotion.discount > 0 && prior.total + promotion.discount > cap) {
+      const allowed = roundMoney(cap - prior.total);
+      if (allowed <= 0 && !promotion.freeDelivery) {
+        reject(`The order already has the most discount allowed - ${describeCap(settings, cap)}`);
+        continue;
+      }
+      promotion = allowed > 0 ? capPromotion(promotion, allowed, cart) : { ...promotion, discount: 0, lines: [] };
+    }
+
+    applied.push({ promoCode, promotion });
+    prior.total = roundMoney(prior.total + promotion.discount);
+    for (const line of promotion.lines) {
+      prior.lines.set(line.lineIndex, roundMoney((prior.lines.get(line.lineIndex) || 0) + line.discount));
+    }
+  }
+
+  return { applied: applied.map(entry => entry.promotion), rejected };
+}
+
+// The discount reason stored on an order, e.g. "Promotion: HAPPYHOUR, Promo code: SAVE10"
+export function describeOrderPromotions(promotions: Array<Pick<OrderPromotion, "code" | "automatic">>) {
+  return promotions.map(promotion => `${promotion.automatic ? "Promotion" : "Promo code"}: ${promotion.code}`).join(", ");
+}
+
+// ==================== Manual Discounts ====================
+
+// The promotions on an order - orders placed before promotions could stack only have promoCodeId
+export function getOrderPromotions(order: Order): OrderPromotion[] {
+  const promotions = order.appliedPromotions as OrderPromotion[];
+  if (promotions.length > 0 || !order.promoCodeId) return promotions;
+  return [{
+    promoCodeId: order.promoCodeId,
+    code: "",
+    automatic: false,
+    discount: roundMoney(parseFloat(order.discount || "0") - parseFloat(order.manualDiscount || "0")),
+  }];
+}
+
+// Check a cashier's discount against the order's promotions and the discount cap. Returns the
+// promotions' discount it is added to.
+export async function checkManualDiscount(order: Order, amount: number) {
+  const settings = await storage.getEffectiveSystemSettings(order.branchId);
+  const promotions = getOrderPromotions(order);
+  if (amount > 0) {
+    for (const entry of promotions) {
+      const promoCode = await storage.getPromoCode(entry.promoCodeId);
+      const code = promoCode?.code || entry.code;
+      if (!settings.manualDiscountWithPromotions) {
+        throw promotionError(`Order already has promotion ${code} - manual discounts cannot be added to orders with a promotion`, 400);
+      }
+      if (!promoCode?.isCombinable) {
+        throw promotionError(`${code} cannot be combined with a manual discount`, 400);
+      }
+    }
+  }
+
+  const subtotal = parseFloat(order.subtotal);
+  const promotionDiscount = roundMoney(promotions.reduce((sum, entry) => sum + entry.discount, 0));
+  const cap = maxOrderDiscount(subtotal, settings);
+  if (promotionDiscount + amount > cap + PRICE_TOLERANCE) {
+    const left = Math.max(0, roundMoney(cap - promotionDiscount));
+    throw promotionError(
+      settings.maxOrderDiscountPercent > 0
+        ? `Total discount is capped at ${describeCap(settings, cap)} - at most ₨${left.toFixed(2)} can be added${promotionDiscount > 0 ? ` to the ₨${promotionDiscount.toFixed(2)} from promotions` : ""}`
+        : "Discount cannot exceed subtotal",
+      400
+    );
+  }
+  return promotionDiscount;
+}
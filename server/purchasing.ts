@@ -0,0 +1,296 @@
+import { storage } from "./storage";
+import { roundMoney } from "@shared/pricing";
+import type { GoodsReceiptLine, InsertPurchaseOrderItem, PurchaseOrder, Supplier } from "@shared/schema";
+
+// Purchasing - purchase orders to suppliers, goods received against them and the supplier
+// payable each one produces. Also drafts purchase orders for stock at or below its reorder level.
+
+// Orders still waiting on (part of) their delivery
+export const OPEN_PURCHASE_ORDER_STATUSES = ["draft", "sent", "partially_received"];
+
+const PAYABLE_CATEGORY = "Supplies";
+
+function purchasingError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+export interface PurchaseOrderLineInput {
+  menuItemId?: string | null;
+  ingredientId?: string | null;
+  quantityOrdered: number;
+  unitCost?: number;
+}
+
+// Validates lines and snapshots the item names; ingredients default to their current cost
+async function resolveLines(lines: PurchaseOrderLineInput[]): Promise<InsertPurchaseOrderItem[]> {
+  const resolved: InsertPurchaseOrderItem[] = [];
+  for (const line of lines) {
+    if (!line.menuItemId === !line.ingredientId) {
+      throw purchasingError("Each line needs either a menu item or an ingredient", 400);
+    }
+    if (!Number.isInteger(line.quantityOrdered) || line.quantityOrdered <= 0) {
+      throw purchasingError("Quantities must be whole numbers greater than zero", 400);
+    }
+    if (line.unitCost !== undefined && (isNaN(line.unitCost) || line.unitCost < 0)) {
+      throw purchasingError("Unit cost cannot be negative", 400);
+    }
+
+    if (line.ingredientId) {
+      const ingredient = await storage.getIngredient(line.ingredientId);
+      if (!ingredient) throw purchasingError("Ingredient not found", 404);
+      resolved.push({
+        ingredientId: ingredient.id,
+        description: `${ingredient.name} (${ingredient.unit})`,
+        quantityOrdered: line.quantityOrdered,
+        unitCost: (line.unitCost ?? parseFloat(ingredient.costPerUnit)).toFixed(4),
+      });
+    } else {
+      const menuItem = await storage.getMenuItem(line.menuItemId!);
+      if (!menuItem) throw purchasingError("Menu item not found", 404);
+      resolved.push({
+        menuItemId: menuItem.id,
+        description: menuItem.name,
+        quantityOrdered: line.quantityOrdered,
+        unitCost: (line.unitCost ?? 0).toFixed(4),
+      });
+    }
+  }
+  return resolved;
+}
+
+function generatePoNumber() {
+  return `PO${Date.now()}${Math.floor(Math.random() * 100).toString().padStart(2, "0")}`;
+}
+
+export async function getPurchaseOrderOrThrow(id: string): Promise<PurchaseOrder> {
+  const purchaseOrder = await storage.getPurchaseOrder(id);
+  if (!purchaseOrder) {
+    throw purchasingError("Purchase order not found", 404);
+  }
+  return purchaseOrder;
+}
+
+// Lines can only be changed before the order goes to the supplier
+export async function getDraftPurchaseOrder(id: string): Promise<PurchaseOrder> {
+  const purchaseOrder = await getPurchaseOrderOrThrow(id);
+  if (purchaseOrder.status !== "draft") {
+    throw purchasingError("Only draft purchase orders can be edited", 400);
+  }
+  return purchaseOrder;
+}
+
+export async function createPurchaseOrder(
+  input: { supplierId: string; branchId: string; expectedDate?: Date | null; notes?: string | null; lines: PurchaseOrderLineInput[] },
+  createdBy: string | null,
+  isAutoDrafted = false
+) {
+  const supplier = await storage.getSupplier(input.supplierId);
+  if (!supplier) {
+    throw purchasingError("Supplier not found", 404);
+  }
+  const items = await resolveLines(input.lines || []);
+  return await storage.createPurchaseOrder({
+    poNumber: generatePoNumber(),
+    supplierId: supplier.id,
+    branchId: input.branchId,
+    expectedDate: input.expectedDate || null,
+    notes: input.notes || null,
+    isAutoDrafted,
+    createdBy,
+  }, items);
+}
+
+export async function addPurchaseOrderLines(id: string, lines: PurchaseOrderLineInput[]) {
+  await getDraftPurchaseOrder(id);
+  return await storage.addPurchaseOrderItems(id, await resolveLines(lines));
+}
+
+export async function sendPurchaseOrder(id: string) {
+  const purchaseOrder = await getPurchaseOrderOrThrow(id);
+  const items = await storage.getPurchaseOrderItems(id);
+  if (items.length === 0) {
+    throw purchasingError("Add at least one line before sending", 400);
+  }
+
+  const sentAt = new Date();
+  const updated = await storage.transitionPurchaseOrder(id, ["draft"], { status: "sent", sentAt });
+  if (!updated) {
+    throw purchasingError(`Cannot send a ${purchaseOrder.status} purchase order`, 400);
+  }
+
+  // Record the order date on the reorder points it covers
+  const reorderPoints = await storage.getReorderPoints(updated.branchId);
+  for (const point of reorderPoints) {
+    const covered = items.some(item =>
+      (item.ingredientId && item.ingredientId === point.ingredientId) ||
+      (item.menuItemId && item.menuItemId === point.menuItemId)
+    );
+    if (covered) {
+      await storage.updateReorderPoint(point.id, { lastOrderDate: sentAt });
+    }
+  }
+  return updated;
+}
+
+// Anything already received stays in stock and on the payable
+export async function cancelPurchaseOrder(id: string) {
+  const purchaseOrder = await getPurchaseOrderOrThrow(id);
+  const updated = await storage.transitionPurchaseOrder(id, OPEN_PURCHASE_ORDER_STATUSES, {
+    status: "cancelled",
+    cancelledAt: new Date(),
+  });
+  if (!updated) {
+    throw purchasingError(`Cannot cancel a ${purchaseOrder.status} purchase order`, 400);
+  }
+  return updated;
+}
+
+// Payables fall due by the supplier's terms (net_30, net_60); anything else is due on delivery
+function payableDueDate(supplier: Supplier | undefined, receivedAt: Date): Date {
+  const match = supplier?.paymentTerms?.match(/^net_(\d+)$/);
+  const days = match ? parseInt(match[1], 10) : 0;
+  return new Date(receivedAt.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+export async function receivePurchaseOrder(
+  id: string,
+  input: { lines: GoodsReceiptLine[]; supplierReference?: string; notes?: string },
+  receivedBy: string
+) {
+  const purchaseOrder = await getPurchaseOrderOrThrow(id);
+  if (!["sent", "partially_received"].includes(purchaseOrder.status)) {
+    throw purchasingError(`Cannot receive goods against a ${purchaseOrder.status} purchase order`, 400);
+  }
+
+  const lines = (input.lines || []).filter(line => line.quantity > 0);
+  if (lines.length === 0) {
+    throw purchasingError("Enter the quantity received for at least one line", 400);
+  }
+
+  const items = await storage.getPurchaseOrderItems(id);
+  const seen = new Set<string>();
+  const receiptLines = lines.map(line => {
+    const item = items.find(i => i.id === line.purchaseOrderItemId);
+    if (!item) {
+      throw purchasingError("Line is not on this purchase order", 400);
+    }
+    if (seen.has(item.id)) {
+      throw purchasingError(`${item.description} is listed twice`, 400);
+    }
+    seen.add(item.id);
+    const outstanding = item.quantityOrdered - item.quantityReceived;
+    if (line.quantity > outstanding) {
+      throw purchasingError(`Only ${outstanding} of ${item.description} is outstanding`, 400);
+    }
+    return { ...line, unitCost: line.unitCost ?? parseFloat(item.unitCost) };
+  });
+
+  const supplier = await storage.getSupplier(purchaseOrder.supplierId);
+  return await storage.receivePurchaseOrder(id, {
+    grnNumber: `GRN${Date.now()}`,
+    receivedBy,
+    supplierReference: input.supplierReference,
+    notes: input.notes,
+    lines: receiptLines,
+    payable: {
+      category: PAYABLE_CATEGORY,
+      description: `Purchase order ${purchaseOrder.poNumber}${supplier ? ` - ${supplier.name}` : ""}`,
+      dueDate: payableDueDate(supplier, new Date()),
+    },
+  });
+}
+
+export async function payPurchaseOrder(id: string) {
+  await getPurchaseOrderOrThrow(id);
+  const payable = await storage.getPurchaseOrderPayable(id);
+  if (!payable) {
+    throw purchasingError("Nothing has been received on this purchase order yet", 400);
+  }
+  if (payable.paymentStatus === "paid") {
+    throw purchasingError("Payable is already paid", 400);
+  }
+  return await storage.updateExpense(payable.id, { paymentStatus: "paid", paidAt: new Date() });
+}
+
+export async function getPurchaseOrderDetail(id: string) {
+  const purchaseOrder = await getPurchaseOrderOrThrow(id);
+  const [items, goodsReceivedNotes, payable, supplier] = await Promise.all([
+    storage.getPurchaseOrderItems(id),
+    storage.getGoodsReceivedNotes(id),
+    storage.getPurchaseOrderPayable(id),
+    storage.getSupplier(purchaseOrder.supplierId),
+  ]);
+  const noteItems = await storage.getGoodsReceivedNoteItems(goodsReceivedNotes.map(note => note.id));
+  return {
+    ...purchaseOrder,
+    supplier,
+    items,
+    goodsReceivedNotes: goodsReceivedNotes.map(note => ({
+      ...note,
+      items: noteItems.filter(item => item.goodsReceivedNoteId === note.id),
+    })),
+    receivedValue: roundMoney(items.reduce((sum, item) => sum + item.quantityReceived * parseFloat(item.unitCost), 0)),
+    payable: payable || null,
+  };
+}
+
+const drafting = new Map<string, Promise<PurchaseOrder[]>>();
+
+// Drafts (or tops up) one purchase order per preferred supplier for the branch's stock at or
+// below its reorder level. Items already on an open order are left alone. Runs one at a time
+// per branch so concurrent stock movements cannot draft the same item twice.
+export function autoDraftPurchaseOrders(branchId: string): Promise<PurchaseOrder[]> {
+  const previous = drafting.get(branchId) || Promise.resolve([]);
+  const run = previous.catch(() => []).then(() => draftForBranch(branchId));
+  drafting.set(branchId, run);
+  run.finally(() => {
+    if (drafting.get(branchId) === run) drafting.delete(branchId);
+  }).catch(() => {});
+  return run;
+}
+
+async function draftForBranch(branchId: string): Promise<PurchaseOrder[]> {
+  const [lowStock, openItems] = await Promise.all([
+    storage.checkLowStock(branchId),
+    storage.getOpenPurchaseOrderItems(branchId),
+  ]);
+  const onOrder = new Set(openItems.map(item => item.ingredientId || item.menuItemId));
+
+  const bySupplier = new Map<string, PurchaseOrderLineInput[]>();
+  for (const item of lowStock) {
+    if (!item.preferredSupplierId || item.reorderQuantity <= 0) continue;
+    const itemId = item.ingredient?.id || item.menuItem?.id;
+    if (!itemId || onOrder.has(itemId)) continue;
+
+    const lines = bySupplier.get(item.preferredSupplierId) || [];
+    lines.push({
+      ingredientId: item.ingredient?.id,
+      menuItemId: item.menuItem?.id,
+      quantityOrdered: item.reorderQuantity,
+    });
+    bySupplier.set(item.preferredSupplierId, lines);
+  }
+  if (bySupplier.size === 0) return [];
+
+  const drafts = await storage.getPurchaseOrders({ branchId, status: "draft" });
+  const touched: PurchaseOrder[] = [];
+  for (const [supplierId, lines] of Array.from(bySupplier)) {
+    const existing = drafts.find(po => po.supplierId === supplierId && po.isAutoDrafted);
+    if (existing) {
+      await storage.addPurchaseOrderItems(existing.id, await resolveLines(lines));
+      touched.push((await storage.getPurchaseOrder(existing.id))!);
+    } else {
+      touched.push(await createPurchaseOrder({
+        supplierId,
+        branchId,
+        notes: "Drafted automatically from reorder points",
+        lines,
+      }, null, true));
+    }
+  }
+  console.log(`Drafted purchase orders for ${touched.length} supplier(s) at branch ${branchId}`);
+  return touched;
+}
+
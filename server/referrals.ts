@@ -0,0 +1,340 @@
+import crypto from "crypto";
+import { storage, type NewReferral, type ReferralRewardGrant } from "./storage";
+import { emitEvent } from "./websocket";
+import { evaluateCustomerTier } from "./loyalty";
+import { pointsExpiryDate } from "./pointsExpiry";
+import { roundMoney } from "@shared/pricing";
+import type { InsertCustomerNotification, InsertPromoCode, Order, Referral, SystemSettingsValues, User } from "@shared/schema";
+
+// Referral program - every customer has a personal code, and a signup with it is linked to them.
+// Both sides are rewarded (points, or a one-time promo code only they can use) once the referee's
+// first paid order is completed. Fraud checks stop the rewards when the referee shares the
+// referrer's phone number or address, or signed up with a phone number that already has an
+// account. Orders paid after they were completed are picked up by an hourly check.
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function referralError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+const normalizePhone = (phone: string | null | undefined) => (phone || "").replace(/\D/g, "").slice(-10);
+const normalizeAddress = (address: string | null | undefined) =>
+  (address || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+export function samePhone(a: string | null | undefined, b: string | null | undefined) {
+  const phone = normalizePhone(a);
+  return phone.length > 0 && phone === normalizePhone(b);
+}
+
+// Up to 4 letters of the customer's name and 6 random bytes, so codes cannot be guessed
+function generateReferralCode(user: User) {
+  const prefix = user.fullName.toUpperCase().replace(/[^A-Z]/g, "").slice(0, 4) || "KP";
+  return `${prefix}${crypto.randomBytes(6).toString("hex").toUpperCase()}`;
+}
+
+// Postgres unique_violation - another customer was given the same code first
+const isUniqueViolation = (error: any) => error?.code === "23505";
+
+// The customer's code, issued the first time it is asked for
+export async function getReferralCode(user: User) {
+  if (user.referralCode) return user.referralCode;
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = generateReferralCode(user);
+    if (await storage.getUserByReferralCode(code)) continue;
+    let updated;
+    try {
+      updated = await storage.setUserReferralCode(user.id, code);
+    } catch (error) {
+      if (isUniqueViolation(error)) continue;
+      throw error;
+    }
+    if (updated) return updated.referralCode!;
+    // Issued by a concurrent request
+    const current = await storage.getUser(user.id);
+    if (current?.referralCode) return current.referralCode;
+  }
+  throw referralError("Could not issue a referral code, please try again", 500);
+}
+
+function describeReward(settings: SystemSettingsValues, value: number) {
+  return settings.referralRewardType === "points"
+    ? `${value} points`
+    : `${settings.currencySymbol}${value} off your next order`;
+}
+
+// The customer's code, what each side gets and how their invites are doing
+export async function getReferralSummary(user: User) {
+  const [code, settings, referrals] = await Promise.all([
+    getReferralCode(user),
+    storage.getEffectiveSystemSettings(null),
+    storage.getReferrals({ referrerId: user.id }),
+  ]);
+  return {
+    code,
+    enabled: settings.enableReferralProgram,
+    referrerReward: describeReward(settings, settings.referrerRewardValue),
+    refereeReward: describeReward(settings, settings.refereeRewardValue),
+    invited: referrals.length,
+    rewarded: referrals.filter(r => r.status === "rewarded").length,
+    pending: referrals.filter(r => r.status === "pending").length,
+  };
+}
+
+// The referrer behind a code given at signup. A code that cannot be used does not stop the
+// signup - the account is created without a referral and the warning says why.
+export async function findReferrer(code: string): Promise<{ referrer: User | null; warning: string | null }> {
+  const settings = await storage.getEffectiveSystemSettings(null);
+  if (!settings.enableReferralProgram) {
+    return { referrer: null, warning: "The referral program is not running, so no referral was recorded" };
+  }
+  const referrer = await storage.getUserByReferralCode(code.trim().toUpperCase());
+  if (!referrer || referrer.role !== "customer" || referrer.isDeleted || !referrer.isActive) {
+    return { referrer: null, warning: "Referral code not found, so no referral was recorded" };
+  }
+  return { referrer, warning: null };
+}
+
+// The referral linking a new customer to their referrer, created with the account. phoneInUse is
+// whether another account already had the phone number before this signup - such referrals are
+// recorded but never rewarded.
+export function newReferral(referee: { phone?: string | null }, referrer: User, phoneInUse: boolean): NewReferral {
+  let rejectionReason: string | null = null;
+  if (samePhone(referee.phone, referrer.phone)) {
+    rejectionReason = "Same phone number as the referrer";
+  } else if (phoneInUse) {
+    rejectionReason = "Phone number already belongs to another account";
+  }
+  return {
+    referrerId: referrer.id,
+    code: referrer.referralCode!,
+    status: rejectionReason ? "rejected" : "pending",
+    rejectionReason,
+  };
+}
+
+// The referee's first order that is both completed and paid
+async function qualifyingOrder(refereeId: string) {
+  const orders = await storage.getOrdersByCustomer(refereeId);
+  return orders
+    .filter(order => order.status === "completed" && order.paymentStatus === "paid")
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())[0];
+}
+
+// Why the referral should not be rewarded, or null when it passes the fraud checks
+async function fraudReason(referral: Referral, referrer: User, referee: User, order: Order) {
+  if (samePhone(order.customerPhone, referrer.phone) || samePhone(referee.phone, referrer.phone)) {
+    return "Same phone number as the referrer";
+  }
+  const [referrerAddresses, refereeAddresses, referrerOrders] = await Promise.all([
+    storage.getCustomerAddresses(referrer.id),
+    storage.getCustomerAddresses(referral.refereeId),
+    storage.getOrdersByCustomer(referrer.id),
+  ]);
+  const known = new Set([
+    ...referrerAddresses.map(address => normalizeAddress(address.fullAddress)),
+    ...referrerOrders.map(o => normalizeAddress(o.customerAddress)),
+  ].filter(Boolean));
+  const used = [
+    normalizeAddress(order.customerAddress),
+    ...refereeAddresses.map(address => normalizeAddress(address.fullAddress)),
+  ].filter(Boolean);
+  if (used.some(address => known.has(address))) {
+    return "Same address as the referrer";
+  }
+  const referrerPhones = referrerAddresses.map(address => address.phoneNumber);
+  if (referrerPhones.some(phone => samePhone(phone, order.customerPhone))) {
+    return "Same phone number as the referrer";
+  }
+  return null;
+}
+
+function referralPromo(settings: SystemSettingsValues, customerId: string, value: number, description: string): InsertPromoCode {
+  return {
+    code: `REF-${crypto.randomBytes(3).toString("hex").toUpperCase()}`,
+    description,
+    discountType: "fixed",
+    discountValue: value.toFixed(2),
+    minOrderAmount: "0",
+    usageLimit: 1,
+    perUserLimit: 1,
+    validFrom: new Date(),
+    validUntil: new Date(Date.now() + settings.referralPromoValidDays * DAY_MS),
+    isActive: true,
+    customerId,
+  };
+}
+
+// Kept for the loyalty page, so both sides see their reward even if they were offline
+function rewardNotifications(
+  settings: SystemSettingsValues,
+  referrer: User,
+  referee: User,
+  promos: { referrer?: InsertPromoCode; referee?: InsertPromoCode } = {}
+) {
+  const reward = (value: number, promo?: InsertPromoCode) =>
+    `You earned ${describeReward(settings, value)}${promo ? ` - use code ${promo.code}` : ""}`;
+  const notifications: InsertCustomerNotification[] = [];
+  if (settings.referrerRewardValue > 0) {
+    notifications.push({
+      customerId: referrer.id,
+      type: "referral_rewarded",
+      title: `${referee.fullName} placed their first order!`,
+      message: reward(settings.referrerRewardValue, promos.referrer),
+    });
+  }
+  if (settings.refereeRewardValue > 0) {
+    notifications.push({
+      customerId: referee.id,
+      type: "referral_rewarded",
+      title: "Welcome reward unlocked",
+      message: reward(settings.refereeRewardValue, promos.referee),
+    });
+  }
+  return notifications;
+}
+
+async function buildGrant(settings: SystemSettingsValues, referrer: User, referee: User): Promise<ReferralRewardGrant> {
+  const referrerDescription = `Referral reward - ${referee.fullName} placed their first order`;
+  const refereeDescription = `Welcome reward - referred by ${referrer.fullName}`;
+  if (settings.referralRewardType === "points") {
+    const referrerPoints = Math.floor(settings.referrerRewardValue);
+    const refereePoints = Math.floor(settings.refereeRewardValue);
+    return {
+      rewardType: "points",
+      referrerPoints,
+      refereePoints,
+      // What the points are worth when paid with
+      rewardCost: roundMoney((referrerPoints + refereePoints) / settings.pointsRedemptionRate).toFixed(2),
+      pointsExpireAt: await pointsExpiryDate(),
+      referrerDescription,
+      refereeDescription,
+      notifications: rewardNotifications(settings, referrer, referee),
+    };
+  }
+  const referrerPromo = settings.referrerRewardValue > 0
+    ? referralPromo(settings, referrer.id, settings.referrerRewardValue, referrerDescription)
+    : undefined;
+  const refereePromo = settings.refereeRewardValue > 0
+    ? referralPromo(settings, referee.id, settings.refereeRewardValue, refereeDescription)
+    : undefined;
+  return {
+    rewardType: "promo",
+    referrerPoints: 0,
+    refereePoints: 0,
+    referrerPromo,
+    refereePromo,
+    rewardCost: roundMoney(settings.referrerRewardValue + settings.refereeRewardValue).toFixed(2),
+    pointsExpireAt: null,
+    referrerDescription,
+    refereeDescription,
+    notifications: rewardNotifications(settings, referrer, referee, { referrer: referrerPromo, referee: refereePromo }),
+  };
+}
+
+// Reward (or reject) the customer's pending referral once they have a completed, paid order
+export async function checkReferral(refereeId: string) {
+  const referral = await storage.getReferralByReferee(refereeId);
+  if (!referral || referral.status !== "pending") return;
+  const settings = await storage.getEffectiveSystemSettings(null);
+  if (!settings.enableReferralProgram) return;
+
+  const order = await qualifyingOrder(refereeId);
+  if (!order) return;
+  const [referrer, referee] = await Promise.all([
+    storage.getUser(referral.referrerId),
+    storage.getUser(refereeId),
+  ]);
+  if (!referee) return;
+  if (!referrer || referrer.isDeleted) {
+    await storage.rejectReferral(referral.id, "Referrer account was closed", order.id);
+    return;
+  }
+  const reason = await fraudReason(referral, referrer, referee, order);
+  if (reason) {
+    await storage.rejectReferral(referral.id, reason, order.id);
+    return;
+  }
+
+  const rewarded = await storage.rewardReferral(referral.id, order.id, await buildGrant(settings, referrer, referee));
+  if (!rewarded) return;
+  if (rewarded.rewardType === "points") {
+    await evaluateCustomerTier(referrer.id);
+    await evaluateCustomerTier(referee.id);
+  }
+  emitEvent.referralRewarded({ customerId: referrer.id, role: "referrer", refereeName: referee.fullName, reward: describeReward(settings, settings.referrerRewardValue) });
+  emitEvent.referralRewarded({ customerId: referee.id, role: "referee", reward: describeReward(settings, settings.refereeRewardValue) });
+}
+
+export async function checkPendingReferrals() {
+  const referrals = await storage.getReferrals({ status: "pending" });
+  for (const referral of referrals) {
+    await checkReferral(referral.refereeId);
+  }
+}
+
+// Signups, conversions and what the rewards cost, per referrer, for referrals made in the period
+export async function getReferralReport(filters: { from: Date; to: Date }) {
+  const [referrals, users] = await Promise.all([
+    storage.getReferrals(),
+    storage.getAllUsers(),
+  ]);
+  const inPeriod = referrals.filter(r => {
+    const createdAt = new Date(r.createdAt);
+    return createdAt >= filters.from && createdAt <= filters.to;
+  });
+  const userById = new Map(users.map(user => [user.id, user]));
+
+  const byReferrer = new Map<string, { referrerId: string; name: string; signups: number; converted: number; rejected: number; rewardCost: number }>();
+  for (const referral of inPeriod) {
+    const row = byReferrer.get(referral.referrerId) || {
+      referrerId: referral.referrerId,
+      name: userById.get(referral.referrerId)?.fullName || "Deleted customer",
+      signups: 0,
+      converted: 0,
+      rejected: 0,
+      rewardCost: 0,
+    };
+    row.signups += 1;
+    if (referral.status === "rewarded") row.converted += 1;
+    if (referral.status === "rejected") row.rejected += 1;
+    row.rewardCost = roundMoney(row.rewardCost + parseFloat(referral.rewardCost));
+    byReferrer.set(referral.referrerId, row);
+  }
+
+  const converted = inPeriod.filter(r => r.status === "rewarded").length;
+  return {
+    summary: {
+      signups: inPeriod.length,
+      converted,
+      pending: inPeriod.filter(r => r.status === "pending").length,
+      rejected: inPeriod.filter(r => r.status === "rejected").length,
+      conversionRate: inPeriod.length > 0 ? Math.round((converted / inPeriod.length) * 1000) / 10 : 0,
+      rewardCost: roundMoney(inPeriod.reduce((sum, r) => sum + parseFloat(r.rewardCost), 0)),
+    },
+    byReferrer: Array.from(byReferrer.values()).sort((a, b) => b.converted - a.converted || b.signups - a.signups),
+    referrals: inPeriod.map(referral => ({
+      ...referral,
+      referrerName: userById.get(referral.referrerId)?.fullName || "Deleted customer",
+      refereeName: userById.get(referral.refereeId)?.fullName || "Deleted customer",
+    })),
+  };
+}
+
+export function startReferralMonitor() {
+  let running = false;
+  const run = () => {
+    if (running) return;
+    running = true;
+    checkPendingReferrals()
+      .catch(error => console.error("Referral check error:", error))
+      .finally(() => { running = false; });
+  };
+  const timer = setInterval(run, CHECK_INTERVAL_MS);
+  run();
+  console.log("Referral monitor started");
+  return () => clearInterval(timer);
+}
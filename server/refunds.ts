@@ -0,0 +1,130 @@
+import { storage } from "./storage";
+import { emitEvent } from "./websocket";
+import { amountsMatch, roundMoney } from "@shared/pricing";
+import { getOrderPointsCustomer, getRefundPointsShare, POINTS_TENDER_METHOD } from "./pointsTender";
+import { getOrderGiftCardTender, GIFT_CARD_TENDER_METHOD } from "./giftCards";
+import { getStoreCreditBalance, STORE_CREDIT_TENDER_METHOD } from "./storeCredit";
+
+// Refunds - a whole amount or per-line, paid back in cash, to the card through Stripe, or onto the
+// customer's stored value (store credit, gift cards, points). Checked here, then the refund, its
+// lines and the stored value are written in one transaction with the order and its lines locked.
+
+function refundError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+export interface RefundRequest {
+  orderId: string;
+  refundAmount?: number | string | null; // Defaults to the value of the refunded lines
+  refundMethod: string;
+  reason: string;
+  notes?: string | null;
+  items?: Array<{ orderItemId: string; quantity: number | string }>; // Per-line refunds
+}
+
+export async function createOrderRefund(request: RefundRequest, processedBy: string) {
+  const order = await storage.getOrder(request.orderId);
+  if (!order) {
+    throw refundError("Order not found", 404);
+  }
+
+  // Per-line refunds are worth the lines' share of what was paid for them
+  const orderLines = await storage.getOrderItems(order.id);
+  const lines = (request.items || []).map(requested => {
+    const line = orderLines.find(l => l.id === requested.orderItemId);
+    if (!line) {
+      throw refundError("Refund line does not belong to this order", 400);
+    }
+    const quantity = parseInt(String(requested.quantity), 10);
+    const remaining = line.quantity - line.refundedQuantity;
+    if (isNaN(quantity) || quantity <= 0 || quantity > remaining) {
+      throw refundError(`Can refund at most ${remaining} of ${line.name}`, 400);
+    }
+    const amount = roundMoney((parseFloat(line.lineTotal) / line.quantity) * quantity);
+    return { orderItemId: line.id, quantity, amount: amount.toFixed(2) };
+  });
+  const linesTotal = roundMoney(lines.reduce((sum, line) => sum + parseFloat(line.amount), 0));
+
+  const amountGiven = request.refundAmount !== undefined && request.refundAmount !== null && request.refundAmount !== "";
+  const refundAmount = amountGiven ? roundMoney(parseFloat(String(request.refundAmount))) : linesTotal;
+  if (isNaN(refundAmount) || refundAmount <= 0) {
+    throw refundError("Invalid refund amount", 400);
+  }
+  if (lines.length > 0 && !amountsMatch(refundAmount, linesTotal)) {
+    throw refundError(`Refund amount must match the refunded lines (${linesTotal.toFixed(2)})`, 400);
+  }
+  if (refundAmount > parseFloat(order.total)) {
+    throw refundError("Refund amount exceeds order total", 400);
+  }
+  const refundedBefore = roundMoney((await storage.getRefundsByOrder(order.id))
+    .filter(r => r.status === "completed" || r.status === "pending")
+    .reduce((sum, r) => sum + parseFloat(r.refundAmount), 0));
+  if (roundMoney(refundedBefore + refundAmount) > parseFloat(order.total) && !amountsMatch(refundedBefore + refundAmount, parseFloat(order.total))) {
+    throw refundError(`Cannot refund ₨${refundAmount.toFixed(2)}. Already refunded ₨${refundedBefore.toFixed(2)} of ₨${parseFloat(order.total).toFixed(2)} total.`, 400);
+  }
+
+  // Store credit goes into the wallet of the order's customer; a gift card refund goes back onto
+  // the cards that paid, so it cannot be more than they paid
+  let storeCreditCustomerId: string | null = null;
+  if (request.refundMethod === STORE_CREDIT_TENDER_METHOD) {
+    const customer = await getOrderPointsCustomer(order);
+    if (!customer) {
+      throw refundError("Store credit needs a customer account on the order", 400);
+    }
+    storeCreditCustomerId = customer.id;
+  }
+  if (request.refundMethod === GIFT_CARD_TENDER_METHOD) {
+    const { outstanding } = await getOrderGiftCardTender(order.id);
+    if (refundAmount > outstanding) {
+      throw refundError(`At most ₨${outstanding.toFixed(2)} can go back onto gift cards`, 400);
+    }
+  }
+
+  // Card refunds (and refunds on Stripe orders not made to stored value) go back through Stripe
+  const storedValueRefund = request.refundMethod === STORE_CREDIT_TENDER_METHOD || request.refundMethod === GIFT_CARD_TENDER_METHOD;
+  const throughStripe = request.refundMethod === "card" || (order.paymentMethod === "stripe" && !storedValueRefund);
+  if (throughStripe && !order.stripePaymentIntentId) {
+    throw refundError("Cannot process card refund: Order does not have a Stripe payment intent ID", 400);
+  }
+
+  const refund = await storage.createOrderRefund({
+    refund: {
+      orderId: order.id,
+      refundAmount: refundAmount.toFixed(2),
+      refundMethod: request.refundMethod,
+      reason: request.reason,
+      notes: request.notes,
+      processedBy,
+    },
+    lines,
+    storeCreditCustomerId,
+    pointsShare: request.refundMethod === POINTS_TENDER_METHOD ? await getRefundPointsShare(order.id, refundAmount) : 0,
+    payOut: throughStripe
+      ? async () => {
+          try {
+            const { stripeService } = await import("./stripeService");
+            const stripeRefund = await stripeService.createRefund({
+              paymentIntentId: order.stripePaymentIntentId!,
+              amount: refundAmount,
+              reason: request.reason || undefined,
+            });
+            return stripeRefund.id;
+          } catch (stripeError: any) {
+            console.error("Stripe refund error:", stripeError);
+            throw refundError("Failed to process Stripe refund: " + stripeError.message, 500);
+          }
+        }
+      : undefined,
+  });
+
+  if (storeCreditCustomerId) {
+    emitEvent.storeCreditChanged({
+      customerId: storeCreditCustomerId,
+      amount: refundAmount,
+      balance: await getStoreCreditBalance(storeCreditCustomerId),
+    });
+  }
+  return refund;
+}
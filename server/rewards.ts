@@ -0,0 +1,218 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { LoyaltyReward, LoyaltyRewardClaim, LoyaltyRewardInput, LoyaltyRewardType, Order } from "@shared/schema";
+
+// Loyalty rewards catalogue - admins list rewards (a free menu item or free delivery) that cost
+// points, with optional stock limits, validity dates and branches. Claiming a reward spends the
+// points and issues a single-use voucher; its code is used on an order at checkout or the POS,
+// where pricing turns it into a zero-priced line or free delivery. Vouchers on cancelled or
+// rejected orders can be used again. Completed stamp cards (see stampCards.ts) issue the same
+// vouchers for their free item.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function rewardError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+export type VoucherState = "available" | "used" | "expired" | "voided";
+
+// What a voucher gives, from its catalogue reward or stamp card
+export interface VoucherReward {
+  name: string;
+  rewardType: LoyaltyRewardType;
+  menuItemId: string | null;
+  branchIds: string[];
+}
+
+export function voucherState(claim: LoyaltyRewardClaim, now = new Date()): VoucherState {
+  if (claim.status === "used" || claim.status === "voided") return claim.status;
+  if (claim.expiresAt && new Date(claim.expiresAt) <= now) return "expired";
+  return "available";
+}
+
+function remainingStock(reward: LoyaltyReward) {
+  return reward.stockLimit === null ? null : Math.max(0, reward.stockLimit - reward.claimedCount);
+}
+
+// Why the reward cannot be claimed right now, or null when it can
+function unavailableReason(reward: LoyaltyReward, now: Date) {
+  if (!reward.isActive) return "This reward is not available";
+  if (reward.validFrom && new Date(reward.validFrom) > now) return "This reward is not available yet";
+  if (reward.validUntil && new Date(reward.validUntil) <= now) return "This reward has ended";
+  if (remainingStock(reward) === 0) return "This reward has run out";
+  return null;
+}
+
+function usableAtBranch(reward: Pick<LoyaltyReward, "branchIds">, branchId: string) {
+  const branchIds = (reward.branchIds as string[]) || [];
+  return branchIds.length === 0 || branchIds.includes(branchId);
+}
+
+// Every reward with its item and what is left, for the admin screen
+export async function getAllRewards() {
+  const [rewards, menuItems, claims] = await Promise.all([
+    storage.getLoyaltyRewards(),
+    storage.getAllMenuItems(),
+    storage.getLoyaltyRewardClaims(),
+  ]);
+  const itemName = new Map(menuItems.map(item => [item.id, item.name]));
+  return rewards.map(reward => {
+    const rewardClaims = claims.filter(claim => claim.rewardId === reward.id);
+    return {
+      ...reward,
+      menuItemName: reward.menuItemId ? itemName.get(reward.menuItemId) || null : null,
+      remaining: remainingStock(reward),
+      usedCount: rewardClaims.filter(claim => claim.status === "used").length,
+    };
+  });
+}
+
+// Rewards customers can claim now, optionally only those good at a branch
+export async function getRewardCatalogue(branchId?: string) {
+  const now = new Date();
+  return (await getAllRewards())
+    .filter(reward => !unavailableReason(reward, now))
+    .filter(reward => !branchId || usableAtBranch(reward, branchId))
+    .map(({ usedCount, createdBy, ...reward }) => reward);
+}
+
+async function assertMenuItem(input: LoyaltyRewardInput) {
+  if (input.rewardType !== "free_item") return;
+  if (!input.menuItemId || !(await storage.getMenuItem(input.menuItemId))) {
+    throw rewardError("Menu item not found", 400);
+  }
+}
+
+function toRow(input: LoyaltyRewardInput) {
+  return {
+    ...input,
+    description: input.description || null,
+    menuItemId: input.rewardType === "free_item" ? input.menuItemId : null,
+    stockLimit: input.stockLimit ?? null,
+    validFrom: input.validFrom ?? null,
+    validUntil: input.validUntil ?? null,
+    voucherValidDays: input.voucherValidDays ?? null,
+  };
+}
+
+export async function createReward(input: LoyaltyRewardInput, createdBy: string) {
+  await assertMenuItem(input);
+  return await storage.createLoyaltyReward({ ...toRow(input), createdBy });
+}
+
+export async function updateReward(id: string, input: LoyaltyRewardInput) {
+  const existing = await storage.getLoyaltyReward(id);
+  if (!existing) {
+    throw rewardError("Reward not found", 404);
+  }
+  await assertMenuItem(input);
+  if (input.stockLimit != null && input.stockLimit < existing.claimedCount) {
+    throw rewardError(`${existing.claimedCount} have already been claimed`, 400);
+  }
+  return await storage.updateLoyaltyReward(id, toRow(input));
+}
+
+// Unused vouchers expire with the reward, or voucherValidDays after claiming if that is sooner
+function voucherExpiry(reward: LoyaltyReward, claimedAt: Date) {
+  const dates = [
+    reward.validUntil ? new Date(reward.validUntil) : null,
+    reward.voucherValidDays ? new Date(claimedAt.getTime() + reward.voucherValidDays * DAY_MS) : null,
+  ].filter((date): date is Date => date !== null);
+  return dates.length > 0 ? new Date(Math.min(...dates.map(date => date.getTime()))) : null;
+}
+
+export function generateVoucherCode() {
+  return `RW-${crypto.randomBytes(4).toString("hex").toUpperCase()}`;
+}
+
+export async function claimReward(rewardId: string, customerId: string) {
+  const [reward, settings] = await Promise.all([
+    storage.getLoyaltyReward(rewardId),
+    storage.getEffectiveSystemSettings(null),
+  ]);
+  if (!reward) {
+    throw rewardError("Reward not found", 404);
+  }
+  if (!settings.enableLoyaltyProgram) {
+    throw rewardError("The loyalty program is not running", 400);
+  }
+  const now = new Date();
+  const reason = unavailableReason(reward, now);
+  if (reason) {
+    throw rewardError(reason, 400);
+  }
+
+  try {
+    return await storage.claimLoyaltyReward({
+      rewardId: reward.id,
+      customerId,
+      code: generateVoucherCode(),
+      pointsSpent: reward.pointsCost,
+      status: "available",
+      expiresAt: voucherExpiry(reward, now),
+    }, reward.name);
+  } catch (error: any) {
+    // Stock and balance are re-checked under lock when claiming
+    throw rewardError(error.message, 400);
+  }
+}
+
+async function getVoucherReward(claim: LoyaltyRewardClaim): Promise<VoucherReward | null> {
+  if (claim.stampCardId) {
+    const card = await storage.getStampCard(claim.stampCardId);
+    return card ? { name: `${card.name} reward`, rewardType: "free_item", menuItemId: card.rewardMenuItemId, branchIds: [] } : null;
+  }
+  const reward = claim.rewardId ? await storage.getLoyaltyReward(claim.rewardId) : undefined;
+  return reward ? {
+    name: reward.name,
+    rewardType: reward.rewardType as LoyaltyRewardType,
+    menuItemId: reward.menuItemId,
+    branchIds: (reward.branchIds as string[]) || [],
+  } : null;
+}
+
+// The customer's vouchers with their reward, newest first (voided ones are left out)
+export async function getCustomerVouchers(customerId: string) {
+  const claims = (await storage.getLoyaltyRewardClaims({ customerId })).filter(claim => claim.status !== "voided");
+  const now = new Date();
+  return await Promise.all(claims.map(async claim => ({
+    ...claim,
+    state: voucherState(claim, now),
+    reward: await getVoucherReward(claim),
+  })));
+}
+
+// A voucher that can be used on an order at the branch. Vouchers are bearer codes on walk-in
+// orders, but an order for a customer can only use that customer's own.
+export async function validateRewardVoucher(code: string, options: { branchId: string; customerId?: string | null }) {
+  const claim = await storage.getLoyaltyRewardClaimByCode(code.trim().toUpperCase());
+  if (!claim) {
+    throw rewardError(`Reward voucher ${code} not found`, 404);
+  }
+  const state = voucherState(claim);
+  if (state === "voided") {
+    throw rewardError(`Reward voucher ${claim.code} is no longer valid`, 400);
+  }
+  if (state !== "available") {
+    throw rewardError(`Reward voucher ${claim.code} has ${state === "used" ? "already been used" : "expired"}`, 400);
+  }
+  if (options.customerId && claim.customerId !== options.customerId) {
+    throw rewardError(`Reward voucher ${claim.code} belongs to another customer`, 403);
+  }
+  const reward = await getVoucherReward(claim);
+  if (!reward) {
+    throw rewardError(`Reward voucher ${claim.code} not found`, 404);
+  }
+  if (!usableAtBranch(reward, options.branchId)) {
+    throw rewardError(`${reward.name} cannot be used at this branch`, 400);
+  }
+  return { claim, reward };
+}
+
+// Vouchers used on a cancelled or rejected order go back to the customer
+export async function releaseOrderRewards(order: Order) {
+  return await storage.releaseLoyaltyRewardClaims(order.id);
+}
@@ -1,12 +1,81 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type OrderTenders } from "./storage";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
 import { z } from "zod";
 import crypto from "crypto";
-import { insertUserSchema, insertOrderSchema, insertBranchSchema, insertRiderSchema, insertDeliverySchema, DEFAULT_DELIVERY_CONFIG } from "@shared/schema";
+import { insertUserSchema, insertOrderSchema, orderDetailsUpdateSchema, insertPaymentSchema, insertBranchSchema, insertRiderSchema, insertDeliverySchema, DEFAULT_DELIVERY_CONFIG, systemSettingsValuesSchema, publicSystemSettingsSchema, insertKitchenStationSchema, kitchenTicketUpdateSchema, insertIngredientSchema, insertRecipeItemSchema, goodsReceiptLineSchema, stockTransferReceiptLineSchema, stockTakeCountSchema, stockBatchInputSchema, loyaltyTierTableSchema, loyaltyRewardInputSchema, stampCardInputSchema, giftCardSaleSchema, promoCodeBatchInputSchema, type SystemSettingsValues, type OrderPromotion, type InsertOrder } from "@shared/schema";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { priceOrder, priceItems, validatePromoCode, calculateDeliveryCharges } from "./pricing";
+import { assertPromotionRules, checkManualDiscount, describeOrderPromotions } from "./promotions";
+import { createPromoCodeBatch, getPromoCodeBatchCodes, getPromoCodeBatchSummaries, issueCampaignCodes, voidPromoCodeBatch } from "./promoCodeBatches";
+import { amountsMatch, calculateSubtotal, calculateTax, calculateOrderTotal, roundMoney, type OrderPricing } from "@shared/pricing";
+import { transitionOrderStatus } from "./orderLifecycle";
+import { orderCreatedSideEffects, wakeOutboxWorker } from "./outbox";
+import {
+  addPurchaseOrderLines,
+  autoDraftPurchaseOrders,
+  cancelPurchaseOrder,
+  createPurchaseOrder,
+  getDraftPurchaseOrder,
+  getPurchaseOrderDetail,
+  getPurchaseOrderOrThrow,
+  payPurchaseOrder,
+  receivePurchaseOrder,
+  sendPurchaseOrder,
+} from "./purchasing";
+import {
+  cancelStockTransfer,
+  createStockTransfer,
+  dispatchStockTransfer,
+  getStockTransferDetail,
+  getStockTransferOrThrow,
+  markStockTransferInTransit,
+  receiveStockTransfer,
+} from "./transfers";
+import {
+  cancelStockTake,
+  getStockTakeDetail,
+  getStockTakeOrThrow,
+  getVarianceReport,
+  postStockTake,
+  recordStockTakeCounts,
+  startStockTake,
+} from "./stockTakes";
+import { getFoodCostReport } from "./foodCost";
+import { getExpiringBatches, writeOffStockBatch } from "./batches";
+import { evaluateCustomerTier, getLoyaltyTierConfig, getLoyaltyTierLadder, getTierProgress, saveLoyaltyTierTable } from "./loyalty";
+import { getUpcomingExpiries, pointsExpiryDate } from "./pointsExpiry";
+import { getOrderPointsCustomer, getPointsTenderOptions } from "./pointsTender";
+import { createOrderRefund } from "./refunds";
+import { getOrderPrepaidAmount, hasTenders, needsCustomer, prepareTenders } from "./tenders";
+import {
+  confirmGiftCardPurchase,
+  getGiftCardBalance,
+  getGiftCardDetails,
+  getPurchasedGiftCards,
+  purchaseGiftCard,
+  sellGiftCard,
+  voidGiftCard,
+} from "./giftCards";
+import {
+  adjustStoreCredit,
+  getStoreCreditTenderOptions,
+  getStoreCreditWallet,
+} from "./storeCredit";
+import { claimReward, createReward, getAllRewards, getCustomerVouchers, getRewardCatalogue, updateReward } from "./rewards";
+import { createStampCard, getAllStampCards, getCustomerStampCards, updateStampCard } from "./stampCards";
+import { findReferrer, getReferralReport, getReferralSummary, newReferral, samePhone } from "./referrals";
+import { getAllowedOrderTransitions, isTerminalOrderStatus } from "@shared/orderLifecycle";
+import {
+  ACTIVE_TICKET_STATUSES,
+  acceptIncomingOrder,
+  createKitchenTickets,
+  getKitchenPerformance,
+  rejectIncomingOrder,
+  updateKitchenTicketStatus,
+} from "./kitchen";
 
 // JWT secret - in production, this should be in environment variables
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key-change-in-production";
@@ -75,6 +144,28 @@ async function authenticate(req: Request, res: Response, next: NextFunction) {
   }
 }
 
+// Like authenticate, but lets the request through without a user when there is no valid cookie
+// (guest checkout and the POS use the same order routes as signed-in customers)
+async function optionalAuthenticate(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = req.cookies?.authToken;
+    if (token) {
+      const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+      const user = decoded.userId ? await storage.getUser(decoded.userId) : undefined;
+      if (user) {
+        const { password: _, ...userWithoutPassword } = user;
+        req.user = {
+          ...userWithoutPassword,
+          permissions: user.permissions || [],
+        };
+      }
+    }
+  } catch (error) {
+    // An expired or invalid cookie is treated as a guest
+  }
+  next();
+}
+
 // Role-based authorization middleware
 function authorize(...allowedRoles: string[]) {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -149,6 +240,128 @@ function requireBranchAccess(req: Request, queryBranchId?: string): { branchId:
   return { branchId: req.user.branchId, requiresFilter: true };
 }
 
+// Helper to check whether a payment method is enabled in system settings
+// Cash is only gated for online orders (cash on delivery) - POS counter cash is always accepted
+function isPaymentMethodEnabled(settings: SystemSettingsValues, paymentMethod: string, orderSource: string = "online"): boolean {
+  switch (paymentMethod) {
+    case "cash":
+      return orderSource !== "online" || settings.enableCOD;
+    case "card":
+    case "stripe":
+      return orderSource !== "online" || settings.enableStripe;
+    case "jazzcash":
+      return settings.enableJazzCash;
+    default:
+      return true;
+  }
+}
+
+// Helper to check whether the restaurant is open at the given time, in the settings' timezone
+// A closing time at or before the opening time means the restaurant closes after midnight
+function isWithinOpeningHours(settings: SystemSettingsValues, at: Date = new Date()): boolean {
+  const [hour, minute] = new Intl.DateTimeFormat("en-GB", {
+    timeZone: settings.timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(at).split(":").map(Number);
+  const toMinutes = (time: string) => {
+    const [h, m] = time.split(":").map(Number);
+    return h * 60 + m;
+  };
+  const now = hour * 60 + minute;
+  const opens = toMinutes(settings.openingTime);
+  const closes = toMinutes(settings.closingTime);
+  if (opens === closes) {
+    return true; // Open around the clock
+  }
+  return opens < closes ? now >= opens && now < closes : now >= opens || now < closes;
+}
+
+// Customer an order is priced and placed for. Signed-in customers always order as themselves, so they
+// earn (and can spend) their own points; only staff may name another customer, and guests order as nobody.
+function orderCustomerId(req: Request, requestedCustomerId?: string | null): string | undefined {
+  if (req.user?.role === "customer") {
+    return req.user.id;
+  }
+  if (req.user?.role === "admin" || req.user?.role === "staff") {
+    return requestedCustomerId || undefined;
+  }
+  return undefined;
+}
+
+// Writes the server-computed prices, promotions and delivery charge onto a new order
+function applyOrderPricing(order: InsertOrder, pricing: OrderPricing): void {
+  Object.assign(order, {
+    items: JSON.stringify(pricing.items),
+    subtotal: pricing.subtotal.toFixed(2),
+    discount: pricing.discount.toFixed(2),
+    discountReason: pricing.promotions.length > 0
+      ? describeOrderPromotions(pricing.promotions)
+      : order.discountReason,
+    promoCodeId: pricing.promoCodeId,
+    appliedPromotions: pricing.promotions.map(promotion => ({
+      promoCodeId: promotion.promoCodeId,
+      code: promotion.code,
+      automatic: promotion.automatic,
+      discount: promotion.discount,
+    })),
+    manualDiscount: "0",
+    tax: pricing.tax.toFixed(2),
+    deliveryCharges: pricing.deliveryCharges.toFixed(2),
+    deliveryDistance: pricing.deliveryDistance != null ? pricing.deliveryDistance.toFixed(2) : undefined,
+    total: pricing.total.toFixed(2),
+  });
+}
+
+function orderError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+// Enforces branch settings (order limits, payment methods, opening hours, guest checkout, auto-accept)
+// and saves a priced order.
+// Promo usage, loyalty and stock are recorded in the outbox with the order and applied by the worker.
+async function placeOrder(order: InsertOrder, pricing: OrderPricing, tenders: OrderTenders = {}) {
+  const settings = await storage.getEffectiveSystemSettings(order.branchId);
+  if (settings.minOrderAmount > 0 && pricing.subtotal < settings.minOrderAmount) {
+    throw orderError(`Minimum order amount is ${settings.currencySymbol}${settings.minOrderAmount}`, 400);
+  }
+  if (settings.maxOrderAmount > 0 && pricing.subtotal > settings.maxOrderAmount) {
+    throw orderError(`Maximum order amount is ${settings.currencySymbol}${settings.maxOrderAmount}`, 400);
+  }
+  const orderSource = order.orderSource || "online";
+  if (!isPaymentMethodEnabled(settings, order.paymentMethod || "cash", orderSource)) {
+    throw orderError("Selected payment method is not available", 400);
+  }
+  // Online ordering follows the opening hours and checkout rules - staff take POS and phone orders as they come
+  if (orderSource === "online") {
+    if (!isWithinOpeningHours(settings)) {
+      throw orderError(`We're closed right now. Orders are taken from ${settings.openingTime} to ${settings.closingTime}`, 400);
+    }
+    if (!order.customerId && !settings.allowGuestCheckout) {
+      throw orderError("Sign in to place an order", 401);
+    }
+    // Verified phone = the number on the customer's account, so guests can't order to an unchecked number
+    if (settings.requirePhoneVerification) {
+      const customer = order.customerId ? await storage.getUser(order.customerId) : undefined;
+      if (!customer || !samePhone(customer.phone, order.customerPhone)) {
+        throw orderError("Orders must use the phone number on your account", 400);
+      }
+    }
+  }
+  // New orders always enter the lifecycle at pending (confirmed when auto-accepted)
+  order.status = orderSource !== "pos" && settings.autoAcceptOrders ? "confirmed" : "pending";
+
+  const created = await storage.createOrder(order, orderCreatedSideEffects(order), {
+    ...tenders,
+    rewardClaimIds: pricing.rewards.map(reward => reward.claimId),
+  });
+  wakeOutboxWorker();
+  return created;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Authentication routes
   app.post("/api/auth/signup", async (req, res) => {
@@ -166,14 +379,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Username already taken" });
       }
 
+      // Invite code from another customer - checked before the account is created
+      const referralCode = typeof req.body.referralCode === "string" ? req.body.referralCode.trim() : "";
+      const { referrer, warning: referralWarning } = referralCode
+        ? await findReferrer(referralCode)
+        : { referrer: null, warning: null };
+      const phoneInUse = referrer && userData.phone ? !!(await storage.getCustomerByPhone(userData.phone)) : false;
+
       // Hash password
       const hashedPassword = await bcrypt.hash(userData.password, 10);
       
-      // Create user
+      // Create user (with the referral in the same transaction, so a failed link leaves no account)
+      const isCustomer = (userData.role || "customer") === "customer";
       const user = await storage.createUser({
         ...userData,
         password: hashedPassword,
-      });
+      }, referrer && isCustomer ? newReferral(userData, referrer, phoneInUse) : null);
 
       // Generate JWT token
       const token = generateToken(user.id);
@@ -188,7 +409,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Remove password from response
       const { password, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      res.json(referralWarning ? { ...userWithoutPassword, referralWarning } : userWithoutPassword);
     } catch (error: any) {
       console.error("Signup error:", error);
       res.status(400).json({ error: error.message || "Signup failed" });
@@ -757,26 +978,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         phone: filteredOrders.filter(o => o.orderSource === "phone").length,
       };
 
+      // Order lines for the filtered orders
+      const reportLines = await storage.getOrderItemsByOrderIds(filteredOrders.map(o => o.id));
+      const soldOrderIds = new Set(
+        filteredOrders.filter(o => o.status === "completed" || o.status === "ready").map(o => o.id)
+      );
+
       // Top selling items
       const itemCounts = new Map<string, { quantity: number; revenue: number; name: string }>();
       
-      filteredOrders.forEach(order => {
-        if (order.status === "completed" || order.status === "ready") {
-          try {
-            const items = JSON.parse(order.items);
-            items.forEach((item: any) => {
-              const existing = itemCounts.get(item.itemId) || { quantity: 0, revenue: 0, name: item.name };
-              itemCounts.set(item.itemId, {
-                quantity: existing.quantity + (item.quantity || 1),
-                revenue: existing.revenue + (item.total || item.price * (item.quantity || 1)),
-                name: item.name,
-              });
-            });
-          } catch (e) {
-            console.error("Error parsing order items:", e);
-          }
-        }
-      });
+      reportLines
+        .filter(line => soldOrderIds.has(line.orderId))
+        .forEach(line => {
+          const key = line.menuItemId || line.name;
+          const existing = itemCounts.get(key) || { quantity: 0, revenue: 0, name: line.name };
+          itemCounts.set(key, {
+            quantity: existing.quantity + line.quantity,
+            revenue: existing.revenue + parseFloat(line.lineTotal),
+            name: line.name,
+          });
+        });
 
       const topSellingProducts = Array.from(itemCounts.entries())
         .map(([id, data]) => ({
@@ -792,18 +1013,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const categoryRevenue = new Map<string, number>();
       const allMenuItems = await storage.getAllMenuItems();
       
-      filteredOrders.forEach(order => {
-        try {
-          const items = JSON.parse(order.items);
-          items.forEach((item: any) => {
-            const menuItem = allMenuItems.find(mi => mi.id === item.itemId);
-            if (menuItem?.categoryId) {
-              const current = categoryRevenue.get(menuItem.categoryId) || 0;
-              categoryRevenue.set(menuItem.categoryId, current + (item.total || item.price * (item.quantity || 1)));
-            }
-          });
-        } catch (e) {
-          console.error("Error parsing order items for categories:", e);
+      reportLines.forEach(line => {
+        const menuItem = allMenuItems.find(mi => mi.id === line.menuItemId);
+        if (menuItem?.categoryId) {
+          const current = categoryRevenue.get(menuItem.categoryId) || 0;
+          categoryRevenue.set(menuItem.categoryId, current + parseFloat(line.lineTotal));
         }
       });
 
@@ -929,124 +1143,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/orders", async (req, res) => {
-    let createdOrder = null;
-    
+  // Price a cart without placing the order (used by POS and checkout to show server totals)
+  app.post("/api/orders/quote", optionalAuthenticate, async (req, res) => {
+    try {
+      const { branchId, orderType, items, promoCode, customerAddress, rewardCodes } = req.body;
+      const customerId = orderCustomerId(req, req.body.customerId);
+
+      if (!branchId || !items) {
+        return res.status(400).json({ error: "Branch ID and items are required" });
+      }
+
+      const pricing = await priceOrder({
+        branchId,
+        orderType: orderType || "takeaway",
+        items,
+        promoCode,
+        customerId,
+        customerAddress,
+        rewardCodes,
+      });
+      res.json(pricing);
+    } catch (error: any) {
+      const statusCode = (error as any).statusCode || 500;
+      res.status(statusCode).json({ error: error.message, ...((error as any).details || {}) });
+    }
+  });
+
+  app.post("/api/orders", optionalAuthenticate, async (req, res) => {
     try {
       // Validate order data
       const validatedData = insertOrderSchema.parse(req.body);
-      
-      const order = await storage.createOrder(validatedData);
-      createdOrder = order;
-      
-      // Return order immediately - side effects run asynchronously
+      validatedData.customerId = orderCustomerId(req, validatedData.customerId);
+
+      // Recompute prices server-side - client totals are only used to detect stale or tampered carts
+      const pricing = await priceOrder({
+        branchId: validatedData.branchId,
+        orderType: validatedData.orderType || "takeaway",
+        items: validatedData.items,
+        promoCode: req.body.promoCode,
+        promoCodeId: validatedData.promoCodeId,
+        customerId: validatedData.customerId,
+        customerAddress: validatedData.customerAddress,
+        rewardCodes: req.body.rewardCodes,
+      });
+      if (!amountsMatch(parseFloat(validatedData.total), pricing.total)) {
+        return res.status(409).json({
+          error: "Order total has changed. Please review your order and try again.",
+          pricing,
+        });
+      }
+      applyOrderPricing(validatedData, pricing);
+
+      // Points, store credit and gift cards paid towards the order come off their balances in the
+      // same transaction as the order
+      let orderTenders;
+      const tenderRequest = {
+        points: Number(req.body.loyaltyPointsToRedeem || 0),
+        storeCredit: Number(req.body.storeCreditAmount || 0),
+        giftCardCode: req.body.giftCardCode,
+        giftCardAmount: Number(req.body.giftCardAmount || 0),
+      };
+      if (hasTenders(tenderRequest)) {
+        if (needsCustomer(tenderRequest) && (!req.user || !validatedData.customerId)) {
+          return res.status(401).json({ error: "Sign in to pay with loyalty points or store credit" });
+        }
+        if (req.user?.role === "rider") {
+          return res.status(403).json({ error: "Unauthorized" });
+        }
+        const prepared = await prepareTenders(tenderRequest, {
+          customerId: validatedData.customerId,
+          branchId: validatedData.branchId,
+          amountDue: pricing.total,
+          receivedBy: req.user && req.user.role !== "customer" ? req.user.id : null,
+        });
+        orderTenders = prepared.tenders;
+        // Paid in full - nothing is left to collect
+        if (prepared.coversAmountDue) {
+          validatedData.paymentMethod = prepared.paymentMethod;
+          validatedData.paymentStatus = "paid";
+        } else {
+          validatedData.paymentStatus = "partial";
+        }
+      }
+
+      const order = await placeOrder(validatedData, pricing, orderTenders);
       res.json(order);
-      
     } catch (error: any) {
       console.error("Order creation error:", error);
-      return res.status(400).json({ error: error.message || "Failed to create order" });
+      return res.status((error as any).statusCode || 400).json({ error: error.message || "Failed to create order" });
     }
-    
-    // SIDE EFFECTS: Run after response is sent (truly fire-and-forget)
-    if (createdOrder) {
-      // Wrap everything in Promise.resolve().then() to ensure truly async execution
-      Promise.resolve().then(async () => {
-        const order = createdOrder!;
-        
-        // Safely parse items
-        let orderItems: any[] = [];
-        try {
-          if (typeof order.items === "string") {
-            orderItems = JSON.parse(order.items);
-          } else if (Array.isArray(order.items)) {
-            orderItems = order.items;
-          }
-        } catch (parseError) {
-          console.error(`Failed to parse items for order ${order.id}:`, parseError);
-          return;
-        }
-        
-        // AUTO-AWARD LOYALTY POINTS
-        try {
-          if (order.customerId && order.status !== "cancelled") {
-            const orderTotal = parseFloat(order.total);
-            const pointsEarned = Math.floor(orderTotal / 100);
-            
-            if (pointsEarned > 0) {
-              const loyaltyPoints = await storage.getLoyaltyPoints(order.customerId);
-              const currentAvailable = loyaltyPoints?.availablePoints || 0;
-              const currentLifetimeEarned = loyaltyPoints?.lifetimeEarned || 0;
-              
-              await storage.createOrUpdateLoyaltyPoints(order.customerId, {
-                availablePoints: currentAvailable + pointsEarned,
-                lifetimeEarned: currentLifetimeEarned + pointsEarned
-              });
-              
-              await storage.createLoyaltyTransaction({
-                customerId: order.customerId,
-                orderId: order.id,
-                transactionType: "earn",
-                points: pointsEarned,
-                balanceAfter: currentAvailable + pointsEarned,
-                description: `Earned ${pointsEarned} points from order #${order.orderNumber}`
-              });
-            }
-          }
-        } catch (loyaltyError) {
-          console.error(`Failed to award loyalty points for order ${order.id}:`, loyaltyError);
-        }
-        
-        // AUTO-DEDUCT STOCK FROM INVENTORY
-        try {
-          if (Array.isArray(orderItems) && orderItems.length > 0 && order.branchId) {
-            for (const item of orderItems) {
-              // Support both menuItemId and itemId field names
-              const menuItemId = item.menuItemId || item.itemId;
-              const quantity = item.quantity;
-              
-              if (!menuItemId || typeof quantity !== "number" || quantity <= 0) {
-                console.warn(`Skipping stock deduction for invalid item in order ${order.id}:`, item);
-                continue;
-              }
-              
-              try {
-                await storage.createInventoryTransaction({
-                  branchId: order.branchId,
-                  menuItemId: menuItemId,
-                  transactionType: "sale",
-                  quantity: -quantity,
-                  performedBy: order.createdBy || "system",
-                  notes: `Stock deducted for order #${order.orderNumber}`
-                });
-              } catch (inventoryError) {
-                console.error(`Failed to deduct stock for item ${menuItemId} in order ${order.id}:`, inventoryError);
-              }
-            }
-          }
-        } catch (stockError) {
-          console.error(`Failed to process stock deductions for order ${order.id}:`, stockError);
-        }
-      }).catch((err) => {
-        // Catch any unhandled errors in the side effects chain
-        console.error(`Unhandled error in order side effects for order ${createdOrder?.id}:`, err);
-      });
+  });
+
+  // Order line items
+  // Staff see any order's lines, customers only their own
+  app.get("/api/orders/:id/items", authenticate, async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      if (req.user!.role !== "admin" && req.user!.role !== "staff" && order.customerId !== req.user!.id) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      const items = await storage.getOrderItems(order.id);
+      res.json(items);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
     }
   });
 
-  app.put("/api/orders/:id", async (req, res) => {
+  app.put("/api/orders/:id", authenticate, authorize("admin", "staff"), async (req, res) => {
     try {
-      const order = await storage.updateOrder(req.params.id, req.body);
+      // Status changes go through the lifecycle so they are validated and audited
+      const { status, ...updates } = orderDetailsUpdateSchema.parse(req.body);
+      let order = Object.keys(updates).length > 0
+        ? await storage.updateOrder(req.params.id, updates)
+        : await storage.getOrder(req.params.id);
       if (!order) {
         return res.status(404).json({ error: "Order not found" });
       }
+      if (status && status !== order.status) {
+        const user = req.user!;
+        order = await transitionOrderStatus(order.id, status, { id: user.id, role: user.role, branchId: user.branchId });
+      }
       res.json(order);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status((error as any).statusCode || 400).json({ error: error.message });
     }
   });
 
-  // Endpoint for applying discount (used by Discount Dialog)
-  app.post("/api/orders/:id/discount", async (req, res) => {
+  // Endpoint for applying discount (used by Discount Dialog). The cashier's discount is added to the
+  // order's promotions when they can be combined with it, within the order discount cap.
+  app.post("/api/orders/:id/discount", authenticate, authorize("admin", "staff"), async (req, res) => {
     try {
       const { discount, discountReason } = req.body;
       
@@ -1066,13 +1297,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const subtotal = parseFloat(currentOrder.subtotal);
-      if (discountValue > subtotal) {
-        return res.status(400).json({ error: "Discount cannot exceed subtotal" });
-      }
-
-      // Calculate new total
+      const promotionDiscount = await checkManualDiscount(currentOrder, discountValue);
+      const totalDiscount = roundMoney(promotionDiscount + discountValue);
+      // Orders placed before promotions could stack only have the promo code in the reason
+      const promotions = currentOrder.appliedPromotions as OrderPromotion[];
+      const promotionReason = promotions.length > 0
+        ? describeOrderPromotions(promotions)
+        : currentOrder.promoCodeId ? currentOrder.discountReason : null;
+      const reason = [promotionReason, discountValue > 0 ? discountReason : null].filter(Boolean).join(", ");
+
+      // Calculate new total (tax is charged on the discounted subtotal)
+      const settings = await storage.getEffectiveSystemSettings(currentOrder.branchId);
       const deliveryCharges = parseFloat(currentOrder.deliveryCharges || "0");
-      const newTotal = subtotal - discountValue + deliveryCharges;
+      const tax = calculateTax(subtotal - totalDiscount, settings.taxRate, settings.taxEnabled);
+      const newTotal = calculateOrderTotal({ subtotal, discount: totalDiscount, tax, deliveryCharges });
 
       // Update order with discount (only pass mutable fields)
       const updatedOrder = await storage.updateOrder(req.params.id, {
@@ -1092,8 +1330,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         paymentStatus: currentOrder.paymentStatus,
         items: currentOrder.items,
         subtotal: currentOrder.subtotal,
-        discount: discountValue.toString(),
-        discountReason,
+        discount: totalDiscount.toString(),
+        discountReason: reason || null,
+        manualDiscount: discountValue.toString(),
+        tax: tax.toFixed(2),
         deliveryCharges: currentOrder.deliveryCharges ?? undefined,
         deliveryDistance: currentOrder.deliveryDistance || undefined,
         total: newTotal.toString(),
@@ -1109,12 +1349,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(updatedOrder);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status((error as any).statusCode || 400).json({ error: error.message });
     }
   });
 
   // Endpoint for processing payment (used by Payment Dialog)
-  app.post("/api/orders/:id/payment", async (req, res) => {
+  app.post("/api/orders/:id/payment", optionalAuthenticate, async (req, res) => {
     try {
       const { 
         paymentMethod, 
@@ -1122,7 +1362,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         paymentDetails,
         jazzCashTransactionId,
         jazzCashPayerPhone,
-        jazzCashScreenshotUrl
+        jazzCashScreenshotUrl,
+        loyaltyPoints,
+        storeCredit,
+        giftCardCode,
+        giftCardAmount
       } = req.body;
       
       if (!paymentMethod || !paymentStatus) {
@@ -1144,12 +1388,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Order not found" });
       }
 
-      // Update payment information
-      const updatedOrder = await storage.updateOrder(req.params.id, {
-        ...currentOrder,
-        discount: currentOrder.discount ?? undefined,
-        deliveryCharges: currentOrder.deliveryCharges ?? undefined,
-        deliveryDistance: currentOrder.deliveryDistance || undefined,
+      const settings = await storage.getEffectiveSystemSettings(currentOrder.branchId);
+      if (!isPaymentMethodEnabled(settings, paymentMethod, currentOrder.orderSource)) {
+        return res.status(400).json({ error: "Selected payment method is not available" });
+      }
+
+      const paymentChanges = {
         paymentMethod,
         paymentStatus,
         jazzCashTransactionId: jazzCashTransactionId || currentOrder.jazzCashTransactionId || undefined,
@@ -1157,6 +1401,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
         jazzCashScreenshotUrl: jazzCashScreenshotUrl || currentOrder.jazzCashScreenshotUrl || undefined,
         // Store payment details if provided (for split payments, change details, etc.)
         notes: paymentDetails ? `${currentOrder.notes || ""}\nPayment: ${paymentDetails}`.trim() : currentOrder.notes || undefined,
+      };
+
+      // Points, store credit and gift cards tendered at the counter are taken in the same
+      // transaction as the payment update
+      const tenderRequest = {
+        points: Number(loyaltyPoints || 0),
+        storeCredit: Number(storeCredit || 0),
+        giftCardCode,
+        giftCardAmount: Number(giftCardAmount || 0),
+      };
+      if (hasTenders(tenderRequest)) {
+        if (!req.user || !["admin", "staff"].includes(req.user.role)) {
+          return res.status(403).json({ error: "Only staff can take loyalty points, store credit or gift cards as payment" });
+        }
+        const customer = needsCustomer(tenderRequest) ? await getOrderPointsCustomer(currentOrder) : undefined;
+        const prepaid = await getOrderPrepaidAmount(currentOrder.id);
+        const { tenders } = await prepareTenders(tenderRequest, {
+          customerId: customer?.id,
+          branchId: currentOrder.branchId,
+          amountDue: roundMoney(parseFloat(currentOrder.total) - prepaid),
+          receivedBy: req.user.id,
+        });
+        const paidOrder = await storage.payOrderWithTenders(currentOrder.id, tenders, paymentChanges);
+        if (!paidOrder) {
+          return res.status(404).json({ error: "Order not found" });
+        }
+        return res.json(paidOrder);
+      }
+
+      // Update payment information
+      const updatedOrder = await storage.updateOrder(req.params.id, {
+        ...currentOrder,
+        discount: currentOrder.discount ?? undefined,
+        deliveryCharges: currentOrder.deliveryCharges ?? undefined,
+        deliveryDistance: currentOrder.deliveryDistance || undefined,
+        ...paymentChanges,
       });
 
       if (!updatedOrder) {
@@ -1165,46 +1445,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(updatedOrder);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status((error as any).statusCode || 400).json({ error: error.message });
     }
   });
 
-  // Simplified endpoint for updating order status (used by Kitchen Display)
-  app.post("/api/orders/:id/status", async (req, res) => {
+  // Loyalty points and store credit the order's customer can pay with at the counter (used by Payment Dialog)
+  app.get("/api/orders/:id/points-tender", authenticate, authorize("admin", "staff"), async (req, res) => {
     try {
-      const { status } = req.body;
-      if (!status) {
-        return res.status(400).json({ error: "Status is required" });
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
       }
-
-      // Validate status value
-      const validStatuses = ["pending", "preparing", "ready", "completed", "cancelled"];
-      if (!validStatuses.includes(status)) {
-        return res.status(400).json({ error: "Invalid status value" });
+      const customer = await getOrderPointsCustomer(order);
+      const paid = await getOrderPrepaidAmount(order.id);
+      const amountDue = roundMoney(parseFloat(order.total) - paid);
+      if (!customer) {
+        return res.json({ customer: null, paid, amountDue });
       }
+      res.json({
+        customer: { id: customer.id, fullName: customer.fullName },
+        paid,
+        amountDue,
+        ...(await getPointsTenderOptions(customer.id, order.branchId, amountDue)),
+        storeCredit: await getStoreCreditTenderOptions(customer.id, amountDue),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      // Fetch current order
-      const currentOrder = await storage.getOrder(req.params.id);
-      if (!currentOrder) {
-        return res.status(404).json({ error: "Order not found" });
+  // Order status changes - validated against the order lifecycle (shared/orderLifecycle.ts)
+  app.post("/api/orders/:id/status", authenticate, async (req, res) => {
+    try {
+      const { status, reason } = req.body;
+      if (!status) {
+        return res.status(400).json({ error: "Status is required" });
       }
 
-      // Update only the status
-      const updatedOrder = await storage.updateOrder(req.params.id, {
-        ...currentOrder,
-        discount: currentOrder.discount ?? undefined,
-        deliveryCharges: currentOrder.deliveryCharges ?? undefined,
-        deliveryDistance: currentOrder.deliveryDistance || undefined,
+      const user = req.user!;
+      const updatedOrder = await transitionOrderStatus(
+        req.params.id,
         status,
-      });
+        { id: user.id, role: user.role, branchId: user.branchId },
+        { reason }
+      );
+      res.json(updatedOrder);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
 
-      if (!updatedOrder) {
-        return res.status(500).json({ error: "Failed to update order status" });
-      }
+  // Online/phone orders waiting in the kitchen display's incoming lane
+  app.get("/api/pos/incoming-orders", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { branchId } = requireBranchAccess(req, req.query.branchId as string | undefined);
+      const orders = await storage.getUnacceptedOrders(branchId || undefined);
+      res.json(orders);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
 
-      res.json(updatedOrder);
+  // Accept an incoming order with an estimated prep time - the customer is notified
+  app.post("/api/orders/:id/accept", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const prepTimeMinutes = Number(req.body.prepTimeMinutes);
+      const user = req.user!;
+      const order = await acceptIncomingOrder(
+        req.params.id,
+        prepTimeMinutes,
+        { id: user.id, role: user.role, branchId: user.branchId }
+      );
+      res.json(order);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // Reject an incoming order with a reason - the customer is notified
+  app.post("/api/orders/:id/reject", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const order = await rejectIncomingOrder(
+        req.params.id,
+        req.body.reason,
+        { id: user.id, role: user.role, branchId: user.branchId }
+      );
+      res.json(order);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // Allowed next statuses for the current user
+  app.get("/api/orders/:id/transitions", authenticate, async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json({
+        status: order.status,
+        transitions: getAllowedOrderTransitions(order.status, order.orderType, req.user!.role),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
     }
   });
 
@@ -1527,88 +1872,262 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Kitchen Tickets routes
-  app.get("/api/pos/kitchen-tickets", async (req, res) => {
+  // Kitchen Stations routes
+  app.get("/api/kitchen-stations", async (req, res) => {
     try {
-      const { status } = req.query;
-      const tickets = status
-        ? await storage.getKitchenTicketsByStatus(status as string)
-        : await storage.getAllKitchenTickets();
-      res.json(tickets);
+      const stations = await storage.getAllKitchenStations();
+      res.json(stations);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/pos/kitchen-tickets/order/:orderId", async (req, res) => {
+  app.post("/api/kitchen-stations", authenticate, authorize("admin"), async (req, res) => {
     try {
-      const tickets = await storage.getKitchenTicketsByOrder(req.params.orderId);
-      res.json(tickets);
+      const validatedData = insertKitchenStationSchema.parse(req.body);
+      const station = await storage.createKitchenStation(validatedData);
+      res.json(station);
     } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.post("/api/pos/kitchen-tickets", async (req, res) => {
+  app.put("/api/kitchen-stations/:id", authenticate, authorize("admin"), async (req, res) => {
     try {
-      // Generate ticket number
-      const ticketNumber = `KOT${Date.now()}`;
-      const ticket = await storage.createKitchenTicket({
-        ...req.body,
-        ticketNumber,
-      });
-      res.json(ticket);
+      const validatedData = insertKitchenStationSchema.partial().parse(req.body);
+      const station = await storage.updateKitchenStation(req.params.id, validatedData);
+      if (!station) {
+        return res.status(404).json({ error: "Kitchen station not found" });
+      }
+      res.json(station);
     } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.put("/api/pos/kitchen-tickets/:id", async (req, res) => {
+  app.delete("/api/kitchen-stations/:id", authenticate, authorize("admin"), async (req, res) => {
     try {
-      const ticket = await storage.updateKitchenTicket(req.params.id, req.body);
-      if (!ticket) {
-        return res.status(404).json({ error: "Ticket not found" });
-      }
-      res.json(ticket);
+      await storage.deleteKitchenStation(req.params.id);
+      res.json({ success: true });
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  // Payments routes
-  app.get("/api/pos/payments", async (req, res) => {
-    try {
-      const { orderId, sessionId } = req.query;
-      let payments;
-      if (orderId) {
-        payments = await storage.getPaymentsByOrder(orderId as string);
-      } else if (sessionId) {
-        payments = await storage.getPaymentsBySession(sessionId as string);
-      } else {
-        payments = await storage.getAllPayments();
+  // Kitchen Tickets routes
+  // Filters: status, branchId, stationId ("none" = unrouted), active=true (pending/preparing only).
+  // Tickets are returned with a summary of their order for the KDS.
+  app.get("/api/pos/kitchen-tickets", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { status, stationId, active } = req.query;
+      // Staff only see their own branch's tickets
+      const requestedBranchId = req.query.branchId && req.query.branchId !== "all" ? req.query.branchId as string : undefined;
+      const { branchId } = requireBranchAccess(req, requestedBranchId);
+      const statuses = active === "true" ? ACTIVE_TICKET_STATUSES : status ? [status as string] : undefined;
+      let tickets = await storage.getKitchenTickets({
+        branchId: branchId || undefined,
+        stationId: stationId && stationId !== "none" ? stationId as string : undefined,
+        statuses,
+      });
+      if (stationId === "none") {
+        tickets = tickets.filter(ticket => !ticket.stationId);
       }
-      res.json(payments);
-    } catch (error: any) {
-      res.status(400).json({ error: error.message });
-    }
-  });
 
-  app.post("/api/pos/payments", async (req, res) => {
-    try {
-      const payment = await storage.createPayment(req.body);
-      res.json(payment);
+      const orders = await Promise.all(
+        Array.from(new Set(tickets.map(ticket => ticket.orderId))).map(id => storage.getOrder(id))
+      );
+      const orderMap = new Map(orders.filter(Boolean).map(order => [order!.id, order!]));
+      const result = tickets
+        .filter(ticket => {
+          const order = orderMap.get(ticket.orderId);
+          return order && !(active === "true" && isTerminalOrderStatus(order.status));
+        })
+        .map(ticket => {
+          const order = orderMap.get(ticket.orderId)!;
+          return {
+            ...ticket,
+            order: {
+              orderNumber: order.orderNumber,
+              orderType: order.orderType,
+              orderSource: order.orderSource,
+              status: order.status,
+              customerName: order.customerName,
+              tableId: order.tableId,
+              notes: order.notes,
+              createdAt: order.createdAt,
+            },
+          };
+        });
+      res.json(result);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status((error as any).statusCode || 400).json({ error: error.message });
     }
   });
 
-  // Order Modifications routes
-  app.get("/api/pos/order-modifications/:orderId", async (req, res) => {
+  app.get("/api/pos/kitchen-tickets/order/:orderId", authenticate, authorize("admin", "staff"), async (req, res) => {
     try {
-      const modifications = await storage.getOrderModifications(req.params.orderId);
-      res.json(modifications);
+      const order = await storage.getOrder(req.params.orderId);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      requireBranchAccess(req);
+      if (req.user!.role !== "admin" && order.branchId !== req.user!.branchId) {
+        return res.status(403).json({ error: "Access denied: Order belongs to another branch" });
+      }
+      const tickets = await storage.getKitchenTicketsByOrder(order.id);
+      res.json(tickets);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status((error as any).statusCode || 400).json({ error: error.message });
+    }
+  });
+
+  // Send order lines to the kitchen - one ticket per station
+  // (the given lines, or every line of the order not yet sent to the kitchen)
+  app.post("/api/pos/kitchen-tickets", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { orderId, orderItemIds } = req.body;
+      if (!orderId) {
+        return res.status(400).json({ error: "orderId is required" });
+      }
+
+      const tickets = await createKitchenTickets(orderId, Array.isArray(orderItemIds) ? orderItemIds : undefined);
+      if (tickets.length === 0) {
+        return res.status(400).json({ error: "No order lines to send to the kitchen" });
+      }
+      res.json(tickets);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 400).json({ error: error.message });
+    }
+  });
+
+  // Station bump / recall - keeps the order status in step with its tickets
+  app.post("/api/pos/kitchen-tickets/:id/status", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { status } = req.body;
+      if (!status) {
+        return res.status(400).json({ error: "Status is required" });
+      }
+      const ticket = await updateKitchenTicketStatus(req.params.id, status, req.user!.id);
+      res.json(ticket);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 400).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/pos/kitchen-tickets/:id", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { status, ...updates } = kitchenTicketUpdateSchema.parse(req.body);
+      let ticket = Object.keys(updates).length > 0
+        ? await storage.updateKitchenTicket(req.params.id, updates)
+        : await storage.getKitchenTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ error: "Ticket not found" });
+      }
+      if (status && status !== ticket.status) {
+        ticket = await updateKitchenTicketStatus(ticket.id, status, req.user!.id);
+      }
+      res.json(ticket);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status((error as any).statusCode || 400).json({ error: error.message });
+    }
+  });
+
+  // Kitchen prep-time report: average, p90 and SLA breach rate by station, hour and cook
+  app.get("/api/reports/kitchen-performance", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { startDate, endDate } = req.query;
+      if (!startDate || !endDate) {
+        return res.status(400).json({ error: "Start date and end date are required" });
+      }
+      // Staff only see their own branch
+      const requestedBranchId = req.query.branchId && req.query.branchId !== "all" ? req.query.branchId as string : undefined;
+      const { branchId } = requireBranchAccess(req, requestedBranchId);
+
+      const from = new Date(startDate as string);
+      const to = new Date(endDate as string);
+      to.setHours(23, 59, 59, 999);
+
+      const report = await getKitchenPerformance({
+        branchId: branchId || undefined,
+        from,
+        to,
+      });
+      res.json(report);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // Food cost: theoretical (recipe) vs actual (cost of goods sold) against sales, by item, category and branch
+  app.get("/api/reports/food-cost", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { startDate, endDate } = req.query;
+      if (!startDate || !endDate) {
+        return res.status(400).json({ error: "Start date and end date are required" });
+      }
+      const requestedBranchId = req.query.branchId && req.query.branchId !== "all" ? req.query.branchId as string : undefined;
+      const { branchId } = requireBranchAccess(req, requestedBranchId);
+
+      const from = new Date(startDate as string);
+      const to = new Date(endDate as string);
+      to.setHours(23, 59, 59, 999);
+
+      const report = await getFoodCostReport({ branchId: branchId || undefined, from, to });
+      res.json(report);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // Payments routes
+  app.get("/api/pos/payments", async (req, res) => {
+    try {
+      const { orderId, sessionId } = req.query;
+      let payments;
+      if (orderId) {
+        payments = await storage.getPaymentsByOrder(orderId as string);
+      } else if (sessionId) {
+        payments = await storage.getPaymentsBySession(sessionId as string);
+      } else {
+        payments = await storage.getAllPayments();
+      }
+      res.json(payments);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/pos/payments", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const payment = await storage.createPayment({
+        ...insertPaymentSchema.parse(req.body),
+        receivedBy: req.user!.id,
+      });
+      res.json(payment);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Order Modifications routes
+  app.get("/api/pos/order-modifications/:orderId", async (req, res) => {
+    try {
+      const modifications = await storage.getOrderModifications(req.params.orderId);
+      res.json(modifications);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
     }
   });
 
@@ -1748,25 +2267,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Top selling products
+      const reportLines = await storage.getOrderItemsByOrderIds(filteredOrders.map(o => o.id));
       const itemCounts = new Map<string, { name: string; quantity: number; revenue: number }>();
-      filteredOrders.forEach(order => {
-        try {
-          const items = JSON.parse(order.items);
-          items.forEach((item: any) => {
-            const existing = itemCounts.get(item.itemId);
-            if (existing) {
-              existing.quantity += item.quantity || 1;
-              existing.revenue += (item.price || 0) * (item.quantity || 1);
-            } else {
-              itemCounts.set(item.itemId, {
-                name: item.name || "Unknown",
-                quantity: item.quantity || 1,
-                revenue: (item.price || 0) * (item.quantity || 1),
-              });
-            }
+      reportLines.forEach(line => {
+        const key = line.menuItemId || line.name;
+        const existing = itemCounts.get(key);
+        if (existing) {
+          existing.quantity += line.quantity;
+          existing.revenue += parseFloat(line.lineTotal);
+        } else {
+          itemCounts.set(key, {
+            name: line.name,
+            quantity: line.quantity,
+            revenue: parseFloat(line.lineTotal),
           });
-        } catch (e) {
-          console.error("Error parsing order items:", e);
         }
       });
 
@@ -1776,20 +2290,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Sales by category
       const categorySales = new Map<string, number>();
-      filteredOrders.forEach(order => {
-        try {
-          const items = JSON.parse(order.items);
-          items.forEach((item: any) => {
-            const menuItem = menuItems.find(m => m.id === item.itemId);
-            if (menuItem) {
-              const category = categories.find(c => c.id === menuItem.categoryId);
-              const categoryName = category?.name || "Other";
-              const revenue = (item.price || 0) * (item.quantity || 1);
-              categorySales.set(categoryName, (categorySales.get(categoryName) || 0) + revenue);
-            }
-          });
-        } catch (e) {
-          console.error("Error parsing order items:", e);
+      reportLines.forEach(line => {
+        const menuItem = menuItems.find(m => m.id === line.menuItemId);
+        if (menuItem) {
+          const category = categories.find(c => c.id === menuItem.categoryId);
+          const categoryName = category?.name || "Other";
+          categorySales.set(categoryName, (categorySales.get(categoryName) || 0) + parseFloat(line.lineTotal));
         }
       });
 
@@ -2279,6 +2785,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updatedDelivery = await storage.updateDelivery(id, updates);
+
+      // Keep the order lifecycle in step with the delivery
+      const orderStatus = status === "picked_up" ? "out_for_delivery" : status === "delivered" ? "completed" : null;
+      if (orderStatus) {
+        const user = req.user!;
+        try {
+          await transitionOrderStatus(delivery.orderId, orderStatus, { id: user.id, role: user.role, branchId: user.branchId });
+        } catch (transitionError: any) {
+          console.warn(`Order ${delivery.orderId} not moved to ${orderStatus}: ${transitionError.message}`);
+        }
+      }
+
       res.json(updatedDelivery);
     } catch (error: any) {
       console.error("Error updating delivery status:", error);
@@ -2329,13 +2847,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Validate and apply promo code (authenticated users)
+  // Validate and apply promo code (authenticated users). With the cart's items the promotion's
+  // rules are evaluated line by line; with only an order amount, just order-wide discounts.
   app.post("/api/promo-codes/validate", authenticate, async (req, res) => {
     try {
-      const { code, orderAmount, branchId } = req.body;
+      const { code, branchId, items, orderType } = req.body;
+      const hasItems = Array.isArray(items) && items.length > 0;
 
-      if (!code || !orderAmount) {
-        return res.status(400).json({ error: "Code and order amount are required" });
+      if (!code || (!req.body.orderAmount && !hasItems)) {
+        return res.status(400).json({ error: "Code and order amount or items are required" });
       }
 
       if (!branchId) {
@@ -2348,77 +2868,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: "User not authenticated" });
       }
 
-      // Get promo code
-      const promoCode = await storage.getPromoCodeByCode(code.toUpperCase());
-      if (!promoCode) {
-        return res.status(404).json({ error: "Invalid promo code" });
-      }
-
-      // Check if promo code is active
-      if (!promoCode.isActive) {
-        return res.status(400).json({ error: "Promo code is not active" });
-      }
-
-      // Check if promo code is expired
-      const now = new Date();
-      if (promoCode.validUntil && new Date(promoCode.validUntil) < now) {
-        return res.status(400).json({ error: "Promo code has expired" });
-      }
-
-      // Check if promo code is valid yet
-      if (new Date(promoCode.validFrom) > now) {
-        return res.status(400).json({ error: "Promo code is not valid yet" });
-      }
-
-      // Check if usage limit is reached
-      if (promoCode.usageLimit && promoCode.usageCount >= promoCode.usageLimit) {
-        return res.status(400).json({ error: "Promo code usage limit reached" });
-      }
-
-      // Check per-user usage limit (always check when perUserLimit is set)
-      if (promoCode.perUserLimit) {
-        const userUsageCount = await storage.getUserPromoCodeUsageCount(promoCode.id, userId);
-        if (userUsageCount >= promoCode.perUserLimit) {
-          return res.status(400).json({ error: "You have reached the usage limit for this promo code" });
-        }
-      }
-
-      // Check branch restriction (always enforce if promo code has a branch restriction)
-      if (promoCode.branchId && promoCode.branchId !== branchId) {
-        return res.status(400).json({ error: "Promo code is not valid for this branch" });
-      }
-
-      // Check minimum order amount
-      if (parseFloat(promoCode.minOrderAmount || "0") > orderAmount) {
-        return res.status(400).json({ 
-          error: `Minimum order amount of ₨${promoCode.minOrderAmount} required` 
-        });
-      }
-
-      // Calculate discount
-      let discountAmount = 0;
-      if (promoCode.discountType === "percentage") {
-        discountAmount = (orderAmount * parseFloat(promoCode.discountValue)) / 100;
-        // Apply max discount cap if set
-        if (promoCode.maxDiscountAmount) {
-          discountAmount = Math.min(discountAmount, parseFloat(promoCode.maxDiscountAmount));
-        }
-      } else {
-        discountAmount = parseFloat(promoCode.discountValue);
-      }
-
-      // Ensure discount doesn't exceed order amount
-      discountAmount = Math.min(discountAmount, orderAmount);
+      const lines = hasItems ? await priceItems(branchId, items) : [];
+      const orderAmount = hasItems ? calculateSubtotal(lines) : parseFloat(req.body.orderAmount);
+      const { promoCode, discountAmount, promotion, promotions, rejectedPromotions } = await validatePromoCode(code, {
+        orderAmount,
+        branchId,
+        userId,
+        items: lines,
+        orderType: orderType || null,
+      });
 
       res.json({
         valid: true,
         promoCode: promoCode,
         discountAmount: discountAmount.toFixed(2),
         finalAmount: (orderAmount - discountAmount).toFixed(2),
+        freeDelivery: promotion.freeDelivery,
+        reason: promotion.reason,
+        discountedLines: promotion.lines,
+        promotions,
+        rejectedPromotions,
       });
     } catch (error: any) {
       console.error("Error validating promo code:", error);
-      res.status(500).json({ error: error.message });
+      const statusCode = (error as any).statusCode || 500;
+      res.status(statusCode).json({ error: error.message, ...((error as any).details || {}) });
     }
   });
 
@@ -2437,12 +2911,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (existing) {
         return res.status(400).json({ error: "Promo code already exists" });
       }
+      assertPromotionRules(promoData);
 
       const promoCode = await storage.createPromoCode(promoData);
       res.status(201).json(promoCode);
     } catch (error: any) {
       console.error("Error creating promo code:", error);
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
@@ -2456,6 +2931,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ? { ...req.body, code: req.body.code.toUpperCase() }
         : req.body;
 
+      const existing = await storage.getPromoCode(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Promo code not found" });
+      }
+      assertPromotionRules({ ...existing, ...updateData });
+
       const promoCode = await storage.updatePromoCode(id, updateData);
       if (!promoCode) {
         return res.status(404).json({ error: "Promo code not found" });
@@ -2463,7 +2944,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(promoCode);
     } catch (error: any) {
       console.error("Error updating promo code:", error);
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
@@ -2494,291 +2975,293 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ==================== Delivery Charges Configuration Routes ====================
-
-  // Get all delivery charges configurations (admin/staff only)
-  app.get("/api/delivery-charges", authenticate, authorize("admin", "staff"), async (req, res) => {
+  // Promo code batches - unique single-use codes generated from a template promotion
+  app.get("/api/promo-code-batches", authenticate, authorize("admin", "staff"), async (req, res) => {
     try {
-      const configs = await storage.getAllDeliveryChargesConfigs();
-      res.json(configs);
+      res.json(await getPromoCodeBatchSummaries());
     } catch (error: any) {
-      console.error("Error fetching delivery charges configs:", error);
+      console.error("Error fetching promo code batches:", error);
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Get delivery charges config for a specific branch
-  app.get("/api/delivery-charges/:branchId", async (req, res) => {
+  app.post("/api/promo-code-batches", authenticate, authorize("admin"), async (req, res) => {
     try {
-      const { branchId } = req.params;
-      const config = await storage.getDeliveryChargesConfig(branchId);
-      res.json(config || null);
+      const input = promoCodeBatchInputSchema.parse(req.body);
+      const { batch } = await createPromoCodeBatch(input, req.user!.id);
+      res.status(201).json(batch);
     } catch (error: any) {
-      console.error("Error fetching delivery charges config:", error);
-      res.status(500).json({ error: error.message });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error creating promo code batch:", error);
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  // Calculate delivery charges based on config and distance
-  app.post("/api/delivery-charges/calculate", authenticate, async (req, res) => {
+  // The batch's codes with their customers and redemptions (exported as CSV by the admin screen)
+  app.get("/api/promo-code-batches/:id/codes", authenticate, authorize("admin", "staff"), async (req, res) => {
     try {
-      const { branchId, orderAmount, distance: providedDistance, deliveryAddress } = req.body;
-
-      if (!branchId || !orderAmount) {
-        return res.status(400).json({ error: "Branch ID and order amount are required" });
-      }
-
-      // Get branch-specific config or use defaults
-      const config = await storage.getDeliveryChargesConfig(branchId);
-      
-      // Use config only if it exists and is active, otherwise use defaults
-      const useConfig = config && config.isActive;
-      const chargeType = useConfig ? config.chargeType : DEFAULT_DELIVERY_CONFIG.CHARGE_TYPE;
-      const freeDeliveryThreshold = parseFloat(
-        useConfig ? (config.freeDeliveryThreshold || DEFAULT_DELIVERY_CONFIG.FREE_DELIVERY_THRESHOLD.toString()) 
-                  : DEFAULT_DELIVERY_CONFIG.FREE_DELIVERY_THRESHOLD.toString()
-      );
-
-      // Delivery time estimation constants
-      const BASE_PREP_TIME = 25; // minutes for food preparation
-      const TRAVEL_TIME_PER_KM = 2.5; // minutes per kilometer
-
-      // Initialize distance (will be calculated later if needed)
-      let deliveryCharges = 0;
-      let calculatedDistance = providedDistance;
-      
-      // Validate and sanitize distance for time estimation
-      const safeDistance = typeof calculatedDistance === "number" 
-        && !isNaN(calculatedDistance) 
-        && calculatedDistance > 0
-          ? calculatedDistance
-          : 5; // Default to 5km if invalid
-
-      // Check for free delivery
-      if (orderAmount >= freeDeliveryThreshold) {
-        // Calculate estimated delivery time using safe distance
-        const estimatedTime = Math.ceil(BASE_PREP_TIME + (safeDistance * TRAVEL_TIME_PER_KM));
-        
-        return res.json({
-          deliveryCharges: 0,
-          chargeType: chargeType,
-          freeDelivery: true,
-          message: `Free delivery for orders above ₨${freeDeliveryThreshold}`,
-          usingCustomConfig: useConfig,
-          estimatedDeliveryTime: estimatedTime,
-        });
-      }
-
-      if (chargeType === "static") {
-        // Static pricing
-        const staticCharge = parseFloat(
-          useConfig ? (config.staticCharge || DEFAULT_DELIVERY_CONFIG.STATIC_CHARGE.toString())
-                    : DEFAULT_DELIVERY_CONFIG.STATIC_CHARGE.toString()
-        );
-        deliveryCharges = staticCharge;
-      } else {
-        // Dynamic pricing based on distance
-        // If delivery address provided, calculate distance from branch
-        if (deliveryAddress && !providedDistance) {
-          const { geocodeAddress, calculateDistance, validateAddress } = await import("./geocoding");
-          
-          // Validate address length to prevent abuse
-          const validation = validateAddress(deliveryAddress);
-          if (!validation.valid) {
-            console.warn('Address validation failed:', validation.error);
-            // Fall back to default static charge instead of failing
-            const defaultStaticCharge = parseFloat(DEFAULT_DELIVERY_CONFIG.STATIC_CHARGE.toString());
-            const defaultEstimatedTime = Math.ceil(BASE_PREP_TIME + (5 * TRAVEL_TIME_PER_KM));
-            return res.json({
-              deliveryCharges: defaultStaticCharge,
-              chargeType: "static",
-              freeDelivery: false,
-              distance: null,
-              usingCustomConfig: false,
-              message: "Using default delivery charge (invalid address)",
-              estimatedDeliveryTime: defaultEstimatedTime,
-            });
-          }
-
-          // Get branch coordinates
-          const branch = await storage.getBranch(branchId);
-          if (!branch || !branch.latitude || !branch.longitude) {
-            console.warn('Branch coordinates not available for branch:', branchId);
-            // Fall back to default static charge instead of 500 error
-            const defaultStaticCharge = parseFloat(DEFAULT_DELIVERY_CONFIG.STATIC_CHARGE.toString());
-            const defaultEstimatedTime = Math.ceil(BASE_PREP_TIME + (5 * TRAVEL_TIME_PER_KM));
-            return res.json({
-              deliveryCharges: defaultStaticCharge,
-              chargeType: "static",
-              freeDelivery: false,
-              distance: null,
-              usingCustomConfig: false,
-              message: "Using default delivery charge (branch coordinates unavailable)",
-              estimatedDeliveryTime: defaultEstimatedTime,
-            });
-          }
-
-          // Geocode delivery address
-          const geocoded = await geocodeAddress(deliveryAddress);
-          if (!geocoded) {
-            console.warn('Geocoding failed for address:', deliveryAddress.substring(0, 30));
-            // Fall back to default static charge instead of failing
-            const defaultStaticCharge = parseFloat(DEFAULT_DELIVERY_CONFIG.STATIC_CHARGE.toString());
-            const defaultEstimatedTime = Math.ceil(BASE_PREP_TIME + (5 * TRAVEL_TIME_PER_KM));
-            return res.json({
-              deliveryCharges: defaultStaticCharge,
-              chargeType: "static",
-              freeDelivery: false,
-              distance: null,
-              usingCustomConfig: false,
-              message: "Using default delivery charge (address not found)",
-              estimatedDeliveryTime: defaultEstimatedTime,
-            });
-          }
-
-          // Calculate distance
-          calculatedDistance = calculateDistance(
-            parseFloat(branch.latitude),
-            parseFloat(branch.longitude),
-            geocoded.latitude,
-            geocoded.longitude
-          );
-        }
-
-        // If still no distance after attempting geocoding, use default charge
-        if (!calculatedDistance) {
-          const defaultStaticCharge = parseFloat(DEFAULT_DELIVERY_CONFIG.STATIC_CHARGE.toString());
-          const defaultEstimatedTime = Math.ceil(BASE_PREP_TIME + (5 * TRAVEL_TIME_PER_KM));
-          return res.json({
-            deliveryCharges: defaultStaticCharge,
-            chargeType: "static",
-            freeDelivery: false,
-            distance: null,
-            usingCustomConfig: false,
-            message: "Using default delivery charge",
-            estimatedDeliveryTime: defaultEstimatedTime,
-          });
-        }
-
-        const baseCharge = parseFloat(
-          useConfig ? (config.baseCharge || DEFAULT_DELIVERY_CONFIG.BASE_CHARGE.toString())
-                    : DEFAULT_DELIVERY_CONFIG.BASE_CHARGE.toString()
-        );
-        const perKmCharge = parseFloat(
-          useConfig ? (config.perKmCharge || DEFAULT_DELIVERY_CONFIG.PER_KM_CHARGE.toString())
-                    : DEFAULT_DELIVERY_CONFIG.PER_KM_CHARGE.toString()
-        );
-        const maxDistance = parseFloat(
-          useConfig ? (config.maxDeliveryDistance || DEFAULT_DELIVERY_CONFIG.MAX_DELIVERY_DISTANCE.toString())
-                    : DEFAULT_DELIVERY_CONFIG.MAX_DELIVERY_DISTANCE.toString()
-        );
-
-        // Validate distance is a number
-        const validDistance = typeof calculatedDistance === "number" && !isNaN(calculatedDistance) && calculatedDistance > 0;
-        
-        if (validDistance && calculatedDistance > maxDistance) {
-          const maxDistanceTime = Math.ceil(BASE_PREP_TIME + (maxDistance * TRAVEL_TIME_PER_KM));
-          return res.status(400).json({ 
-            error: `Delivery not available for distances over ${maxDistance} KM`,
-            maxDistance: maxDistance,
-            providedDistance: calculatedDistance,
-            estimatedDeliveryTime: maxDistanceTime
-          });
-        }
-
-        deliveryCharges = baseCharge + (validDistance ? calculatedDistance * perKmCharge : 0);
-      }
-
-      // Calculate estimated delivery time using safe distance (already validated at start)
-      const estimatedTime = Math.ceil(BASE_PREP_TIME + (safeDistance * TRAVEL_TIME_PER_KM));
-
-      res.json({
-        deliveryCharges: parseFloat(deliveryCharges.toFixed(2)),
-        chargeType: chargeType,
-        freeDelivery: false,
-        distance: calculatedDistance || null,
-        usingCustomConfig: useConfig,
-        estimatedDeliveryTime: estimatedTime,
-      });
+      res.json(await getPromoCodeBatchCodes(req.params.id));
     } catch (error: any) {
-      console.error("Error calculating delivery charges:", error);
-      res.status(500).json({ error: error.message });
+      console.error("Error fetching promo code batch codes:", error);
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  // Create or update delivery charges config (admin only)
-  app.post("/api/delivery-charges/:branchId", authenticate, authorize("admin"), async (req, res) => {
+  app.post("/api/promo-code-batches/:id/void", authenticate, authorize("admin"), async (req, res) => {
     try {
-      const { branchId } = req.params;
-      const configData = { ...req.body, branchId };
+      const voided = await voidPromoCodeBatch(req.params.id);
+      res.json({ voided });
+    } catch (error: any) {
+      console.error("Error voiding promo code batch:", error);
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
 
-      // Check if config already exists
-      const existing = await storage.getDeliveryChargesConfig(branchId);
-      
-      let config;
-      if (existing) {
-        config = await storage.updateDeliveryChargesConfig(branchId, configData);
-      } else {
-        config = await storage.createDeliveryChargesConfig(configData);
-      }
+  // ==================== Outbox (order side effects) ====================
 
-      res.json(config);
+  app.get("/api/admin/outbox", authenticate, authorize("admin"), async (req, res) => {
+    try {
+      const { status, orderId } = req.query;
+      const [events, stats] = await Promise.all([
+        storage.getOutboxEvents({ status: status as string | undefined, aggregateId: orderId as string | undefined }),
+        storage.getOutboxStats(),
+      ]);
+      res.json({ events, stats });
     } catch (error: any) {
-      console.error("Error saving delivery charges config:", error);
+      console.error("Error fetching outbox events:", error);
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Delete delivery charges config (admin only)
-  app.delete("/api/delivery-charges/:branchId", authenticate, authorize("admin"), async (req, res) => {
+  // Re-queue a dead-lettered side effect (handlers skip work that was already done)
+  app.post("/api/admin/outbox/:id/replay", authenticate, authorize("admin"), async (req, res) => {
     try {
-      const { branchId } = req.params;
-      const deleted = await storage.deleteDeliveryChargesConfig(branchId);
-      if (!deleted) {
-        return res.status(404).json({ error: "Delivery charges config not found" });
+      const event = await storage.getOutboxEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "Outbox event not found" });
       }
-      res.json({ success: true });
+      if (event.status !== "dead") {
+        return res.status(409).json({ error: "Only failed events can be replayed" });
+      }
+
+      const replayed = await storage.replayOutboxEvent(event.id);
+      wakeOutboxWorker();
+      res.json(replayed);
     } catch (error: any) {
-      console.error("Error deleting delivery charges config:", error);
+      console.error("Error replaying outbox event:", error);
       res.status(500).json({ error: error.message });
     }
   });
 
-  // ==================== Variant Management Routes ====================
+  // ==================== System Settings Routes ====================
 
-  // Get all variant groups
-  app.get("/api/variant-groups", async (req, res) => {
+  // Get effective settings (global defaults merged with branch overrides)
+  // Signed-out callers and customers only get what the storefront needs
+  app.get("/api/settings", optionalAuthenticate, async (req, res) => {
     try {
-      const groups = await storage.getAllVariantGroups();
-      res.json(groups);
+      const branchId = req.query.branchId as string | undefined;
+      const settings = await storage.getEffectiveSystemSettings(branchId || null);
+      const isStaff = req.user?.role === "admin" || req.user?.role === "staff";
+      res.json(isStaff ? settings : publicSystemSettingsSchema.parse(settings));
     } catch (error: any) {
-      console.error("Error fetching variant groups:", error);
+      console.error("Error fetching system settings:", error);
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Get single variant group
-  app.get("/api/variant-groups/:id", async (req, res) => {
+  // Get stored settings rows - global row and every branch override (admin only)
+  app.get("/api/settings/overrides", authenticate, authorize("admin"), async (req, res) => {
     try {
-      const { id } = req.params;
-      const group = await storage.getVariantGroup(id);
-      if (!group) {
-        return res.status(404).json({ error: "Variant group not found" });
-      }
-      res.json(group);
+      const rows = await storage.getAllSystemSettings();
+      res.json({
+        global: rows.find(r => r.branchId === null) || null,
+        branches: rows.filter(r => r.branchId !== null),
+      });
     } catch (error: any) {
-      console.error("Error fetching variant group:", error);
+      console.error("Error fetching system settings overrides:", error);
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Create variant group (admin/staff only)
-  app.post("/api/variant-groups", authenticate, authorize("admin", "staff"), async (req, res) => {
+  // Save global default settings (admin only)
+  app.put("/api/settings", authenticate, authorize("admin"), async (req, res) => {
     try {
-      const group = await storage.createVariantGroup(req.body);
-      res.json(group);
+      const existing = await storage.getSystemSettings(null);
+      const settings = systemSettingsValuesSchema.partial().parse(req.body);
+      const saved = await storage.saveSystemSettings(null, {
+        ...((existing?.settings as Partial<SystemSettingsValues>) || {}),
+        ...settings,
+      }, req.user!.id);
+      res.json(saved);
     } catch (error: any) {
-      console.error("Error creating variant group:", error);
+      console.error("Error saving system settings:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Save branch overrides - only the keys provided replace the global defaults (admin only)
+  app.put("/api/settings/branches/:branchId", authenticate, authorize("admin"), async (req, res) => {
+    try {
+      const { branchId } = req.params;
+      const branch = await storage.getBranch(branchId);
+      if (!branch) {
+        return res.status(404).json({ error: "Branch not found" });
+      }
+
+      const overrides = systemSettingsValuesSchema.partial().parse(req.body);
+      const saved = await storage.saveSystemSettings(branchId, overrides, req.user!.id);
+      res.json(saved);
+    } catch (error: any) {
+      console.error("Error saving branch settings:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Remove branch overrides so the branch falls back to global defaults (admin only)
+  app.delete("/api/settings/branches/:branchId", authenticate, authorize("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteSystemSettings(req.params.branchId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Branch has no settings overrides" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting branch settings:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Delivery Charges Configuration Routes ====================
+
+  // Get all delivery charges configurations (admin/staff only)
+  app.get("/api/delivery-charges", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const configs = await storage.getAllDeliveryChargesConfigs();
+      res.json(configs);
+    } catch (error: any) {
+      console.error("Error fetching delivery charges configs:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Get delivery charges config for a specific branch
+  app.get("/api/delivery-charges/:branchId", async (req, res) => {
+    try {
+      const { branchId } = req.params;
+      const config = await storage.getDeliveryChargesConfig(branchId);
+      res.json(config || null);
+    } catch (error: any) {
+      console.error("Error fetching delivery charges config:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Calculate delivery charges based on config and distance
+  app.post("/api/delivery-charges/calculate", authenticate, async (req, res) => {
+    try {
+      const { branchId, orderAmount, deliveryAddress } = req.body;
+
+      if (!branchId || !orderAmount) {
+        return res.status(400).json({ error: "Branch ID and order amount are required" });
+      }
+
+      const quote = await calculateDeliveryCharges({
+        branchId,
+        orderAmount,
+        deliveryAddress,
+        customerId: req.user!.role === "customer" ? req.user!.id : req.body.customerId,
+      });
+      res.json(quote);
+    } catch (error: any) {
+      const statusCode = (error as any).statusCode || 500;
+      if (statusCode === 500) {
+        console.error("Error calculating delivery charges:", error);
+      }
+      res.status(statusCode).json({ error: error.message, ...((error as any).details || {}) });
+    }
+  });
+
+  // Create or update delivery charges config (admin only)
+  app.post("/api/delivery-charges/:branchId", authenticate, authorize("admin"), async (req, res) => {
+    try {
+      const { branchId } = req.params;
+      const configData = { ...req.body, branchId };
+
+      // Check if config already exists
+      const existing = await storage.getDeliveryChargesConfig(branchId);
+      
+      let config;
+      if (existing) {
+        config = await storage.updateDeliveryChargesConfig(branchId, configData);
+      } else {
+        config = await storage.createDeliveryChargesConfig(configData);
+      }
+
+      res.json(config);
+    } catch (error: any) {
+      console.error("Error saving delivery charges config:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Delete delivery charges config (admin only)
+  app.delete("/api/delivery-charges/:branchId", authenticate, authorize("admin"), async (req, res) => {
+    try {
+      const { branchId } = req.params;
+      const deleted = await storage.deleteDeliveryChargesConfig(branchId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Delivery charges config not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting delivery charges config:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Variant Management Routes ====================
+
+  // Get all variant groups
+  app.get("/api/variant-groups", async (req, res) => {
+    try {
+      const groups = await storage.getAllVariantGroups();
+      res.json(groups);
+    } catch (error: any) {
+      console.error("Error fetching variant groups:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Get single variant group
+  app.get("/api/variant-groups/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const group = await storage.getVariantGroup(id);
+      if (!group) {
+        return res.status(404).json({ error: "Variant group not found" });
+      }
+      res.json(group);
+    } catch (error: any) {
+      console.error("Error fetching variant group:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Create variant group (admin/staff only)
+  app.post("/api/variant-groups", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const group = await storage.createVariantGroup(req.body);
+      res.json(group);
+    } catch (error: any) {
+      console.error("Error creating variant group:", error);
       res.status(500).json({ error: error.message });
     }
   });
@@ -2973,6 +3456,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get all users with role 'customer'
       const allUsers = await storage.getAllUsers();
       const customers = allUsers.filter(u => u.role === "customer");
+      const { tiers } = await getLoyaltyTierLadder();
       
       // Get aggregated data for each customer
       const customersWithData = await Promise.all(
@@ -2995,7 +3479,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             orderCount: orders.length,
             totalSpent,
             loyaltyPoints: loyalty?.availablePoints || 0,
-            loyaltyTier: loyalty?.tier || "bronze",
+            loyaltyTier: loyalty?.tier || tiers[0].code,
             lifetimePoints: loyalty?.lifetimeEarned || 0,
             favoriteCount: favorites.length,
             lastOrderDate: orders.length > 0 
@@ -3058,12 +3542,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Customer not found" });
       }
       
-      const [addresses, loyalty, loyaltyTransactions, orders, favorites] = await Promise.all([
+      const [addresses, loyalty, loyaltyTransactions, orders, favorites, tierProgress, stampCards, storeCredit] = await Promise.all([
         storage.getCustomerAddresses(customerId),
         storage.getLoyaltyPoints(customerId),
         storage.getLoyaltyTransactions(customerId),
         storage.getAllOrders().then(orders => orders.filter(o => o.customerId === customerId)),
         storage.getCustomerFavorites(customerId),
+        getTierProgress(customerId),
+        getCustomerStampCards(customerId),
+        getStoreCreditWallet(customerId),
       ]);
       
       // Get menu items for favorites
@@ -3082,7 +3569,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         password: undefined,
         addresses,
         orders: orders.sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()),
-        loyalty: loyalty || { customerId, totalPoints: 0, availablePoints: 0, lifetimeEarned: 0, lifetimeRedeemed: 0, tier: "bronze" },
+        loyalty: loyalty || { customerId, totalPoints: 0, availablePoints: 0, lifetimeEarned: 0, lifetimeRedeemed: 0, tier: tierProgress.tier.code },
+        tierProgress,
+        stampCards,
+        storeCredit,
         loyaltyTransactions: loyaltyTransactions.sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()),
         favorites: favoriteItems,
         stats: {
@@ -3135,7 +3625,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         points,
         balanceAfter: newAvailable,
         description: `Admin adjustment: ${reason}`,
+        expiresAt: points > 0 ? await pointsExpiryDate() : null, // Points added expire like points earned
       });
+      await evaluateCustomerTier(customerId);
       
       res.json({ success: true, newBalance: newAvailable });
     } catch (error: any) {
@@ -3156,15 +3648,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         customers.map(c => storage.getLoyaltyPoints(c.id))
       );
       
-      const tierCounts = { bronze: 0, silver: 0, gold: 0, platinum: 0 };
+      // Customers in a tier that has since been removed count in the entry tier, as they will be re-checked into it
+      const { tiers } = await getLoyaltyTierLadder();
+      const tierCounts: Record<string, number> = Object.fromEntries(tiers.map(t => [t.code, 0]));
       let totalLoyaltyPoints = 0;
       
       loyaltyData.forEach(l => {
+        const code = l && l.tier in tierCounts ? l.tier : tiers[0].code;
+        tierCounts[code]++;
         if (l) {
-          tierCounts[l.tier as keyof typeof tierCounts]++;
           totalLoyaltyPoints += l.availablePoints;
-        } else {
-          tierCounts.bronze++;
         }
       });
       
@@ -3189,6 +3682,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         averageOrderValue: completedOrders.length > 0 ? totalRevenue / completedOrders.length : 0,
         totalLoyaltyPoints,
         tierDistribution: tierCounts,
+        tiers,
       });
     } catch (error: any) {
       console.error("Error fetching customer stats:", error);
@@ -3334,8 +3828,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
         return res.status(403).json({ error: "Unauthorized" });
       }
-      const points = await storage.getLoyaltyPoints(customerId);
-      res.json(points || { customerId, totalPoints: 0, availablePoints: 0, lifetimeEarned: 0, lifetimeRedeemed: 0, tier: "bronze" });
+      const [points, tierProgress, pointsExpiry, settings] = await Promise.all([
+        storage.getLoyaltyPoints(customerId),
+        getTierProgress(customerId),
+        getUpcomingExpiries(customerId),
+        storage.getEffectiveSystemSettings(null),
+      ]);
+      res.json({
+        ...(points || { customerId, totalPoints: 0, availablePoints: 0, lifetimeEarned: 0, lifetimeRedeemed: 0, tier: tierProgress.tier.code }),
+        tierProgress,
+        pointsExpiry,
+        redemptionRate: settings.pointsRedemptionRate,
+      });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -3347,372 +3851,1306 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
         return res.status(403).json({ error: "Unauthorized" });
       }
-      const transactions = await storage.getLoyaltyTransactions(customerId);
-      res.json(transactions);
+      const transactions = await storage.getLoyaltyTransactions(customerId);
+      res.json(transactions);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Notifications kept for the customer (e.g. points about to expire) until they dismiss them
+  app.get("/api/customers/:customerId/notifications", authenticate, async (req, res) => {
+    try {
+      const { customerId } = req.params;
+      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      res.json(await storage.getUnreadCustomerNotifications(customerId));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/customers/:customerId/notifications/:id/read", authenticate, async (req, res) => {
+    try {
+      const { customerId, id } = req.params;
+      if (req.user!.id !== customerId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      const notification = await storage.markCustomerNotificationRead(id, customerId);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Points are spent as a tender on an order (POST /api/orders with loyaltyPointsToRedeem) -
+  // this is what the customer could put towards an order of the given amount at the branch
+  app.get("/api/customers/:customerId/loyalty/tender", authenticate, async (req, res) => {
+    try {
+      const { customerId } = req.params;
+      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      const { branchId, amount } = req.query;
+      const amountDue = parseFloat(amount as string);
+      if (!branchId || isNaN(amountDue) || amountDue < 0) {
+        return res.status(400).json({ error: "Branch ID and amount are required" });
+      }
+      res.json(await getPointsTenderOptions(customerId, branchId as string, amountDue));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Loyalty Tiers ====================
+
+  app.get("/api/admin/loyalty/tiers", authenticate, requirePermission("loyalty.manage_tiers", "loyalty.view_customers"), async (req, res) => {
+    try {
+      res.json(await getLoyaltyTierConfig());
+    } catch (error: any) {
+      console.error("Error fetching loyalty tiers:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Replace the whole tier table; every customer is re-checked against it
+  app.put("/api/admin/loyalty/tiers", authenticate, requirePermission("loyalty.manage_tiers"), async (req, res) => {
+    try {
+      const table = loyaltyTierTableSchema.parse(req.body);
+      res.json(await saveLoyaltyTierTable(table, req.user!.id));
+    } catch (error: any) {
+      console.error("Error saving loyalty tiers:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Loyalty Rewards ====================
+
+  // Rewards customers can claim now (only those good at the branch when one is given)
+  app.get("/api/loyalty/rewards", async (req, res) => {
+    try {
+      const { branchId } = req.query;
+      res.json(await getRewardCatalogue(branchId as string | undefined));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Spend points on a reward - the voucher is then used on an order with rewardCodes
+  app.post("/api/loyalty/rewards/:id/claim", authenticate, authorize("customer"), async (req, res) => {
+    try {
+      const claim = await claimReward(req.params.id, req.user!.id);
+      res.json(claim);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/customers/:customerId/loyalty/vouchers", authenticate, async (req, res) => {
+    try {
+      const { customerId } = req.params;
+      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      res.json(await getCustomerVouchers(customerId));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/admin/loyalty/rewards", authenticate, requirePermission("loyalty.manage_rewards", "loyalty.view_customers"), async (req, res) => {
+    try {
+      res.json(await getAllRewards());
+    } catch (error: any) {
+      console.error("Error fetching loyalty rewards:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/admin/loyalty/rewards", authenticate, requirePermission("loyalty.manage_rewards"), async (req, res) => {
+    try {
+      const input = loyaltyRewardInputSchema.parse(req.body);
+      res.json(await createReward(input, req.user!.id));
+    } catch (error: any) {
+      console.error("Error creating loyalty reward:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/admin/loyalty/rewards/:id", authenticate, requirePermission("loyalty.manage_rewards"), async (req, res) => {
+    try {
+      const input = loyaltyRewardInputSchema.parse(req.body);
+      res.json(await updateReward(req.params.id, input));
+    } catch (error: any) {
+      console.error("Error updating loyalty reward:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Stamp Cards ====================
+
+  app.get("/api/customers/:customerId/loyalty/stamps", authenticate, async (req, res) => {
+    try {
+      const { customerId } = req.params;
+      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      res.json(await getCustomerStampCards(customerId));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Customer lookup at the POS - the order is placed for the customer, so it earns points and stamps
+  app.get("/api/pos/customers/lookup", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const phone = String(req.query.phone || "").trim();
+      if (!phone) {
+        return res.status(400).json({ error: "Phone number is required" });
+      }
+      const customer = await storage.getCustomerByPhone(phone);
+      if (!customer) {
+        return res.status(404).json({ error: "No customer with this phone number" });
+      }
+      const [points, tier, stampCards, vouchers] = await Promise.all([
+        storage.getLoyaltyPoints(customer.id),
+        getTierProgress(customer.id).then(progress => progress.tier),
+        getCustomerStampCards(customer.id),
+        getCustomerVouchers(customer.id),
+      ]);
+      res.json({
+        id: customer.id,
+        fullName: customer.fullName,
+        phone: customer.phone,
+        availablePoints: points?.availablePoints || 0,
+        tier,
+        stampCards,
+        vouchers: vouchers.filter(voucher => voucher.state === "available"),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/admin/loyalty/stamp-cards", authenticate, requirePermission("loyalty.manage_rewards", "loyalty.view_customers"), async (req, res) => {
+    try {
+      res.json(await getAllStampCards());
+    } catch (error: any) {
+      console.error("Error fetching stamp cards:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/admin/loyalty/stamp-cards", authenticate, requirePermission("loyalty.manage_rewards"), async (req, res) => {
+    try {
+      const input = stampCardInputSchema.parse(req.body);
+      res.json(await createStampCard(input, req.user!.id));
+    } catch (error: any) {
+      console.error("Error creating stamp card:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/admin/loyalty/stamp-cards/:id", authenticate, requirePermission("loyalty.manage_rewards"), async (req, res) => {
+    try {
+      const input = stampCardInputSchema.parse(req.body);
+      res.json(await updateStampCard(req.params.id, input));
+    } catch (error: any) {
+      console.error("Error updating stamp card:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Referrals ====================
+
+  // The customer's invite code, what it earns and how their invites are doing
+  app.get("/api/customers/:customerId/referral", authenticate, async (req, res) => {
+    try {
+      const { customerId } = req.params;
+      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      const customer = await storage.getUser(customerId);
+      if (!customer || customer.role !== "customer") {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      res.json(await getReferralSummary(customer));
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // Signups, conversions and reward cost for referrals made in the period
+  app.get("/api/admin/referrals/report", authenticate, requirePermission("loyalty.view_customers"), async (req, res) => {
+    try {
+      const { startDate, endDate } = req.query;
+      if (!startDate || !endDate) {
+        return res.status(400).json({ error: "Start date and end date are required" });
+      }
+      const from = new Date(startDate as string);
+      const to = new Date(endDate as string);
+      to.setHours(23, 59, 59, 999);
+
+      res.json(await getReferralReport({ from, to }));
+    } catch (error: any) {
+      console.error("Error fetching referral report:", error);
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Gift Cards ====================
+
+  // Balance enquiry by code (anyone holding the card can check it, a few times a minute)
+  app.get("/api/gift-cards/:code/balance", optionalAuthenticate, async (req, res) => {
+    try {
+      res.json(await getGiftCardBalance(req.params.code, req.user?.id || req.ip || "unknown"));
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // Sold at the counter - paid there and then, so the card is active straight away
+  app.post("/api/pos/gift-cards", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const sale = giftCardSaleSchema.parse(req.body);
+      if (req.user!.role !== "admin") {
+        sale.branchId = req.user!.branchId || undefined;
+      }
+      res.status(201).json(await sellGiftCard(sale, req.user!.id));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // Bought online - returns the Stripe Checkout page to pay on
+  app.post("/api/gift-cards/purchase", authenticate, authorize("customer"), async (req, res) => {
+    try {
+      const sale = giftCardSaleSchema.parse(req.body);
+      if (!req.body.returnUrl) {
+        return res.status(400).json({ error: "Return URL is required" });
+      }
+      res.status(201).json(await purchaseGiftCard(sale, req.user!.id, req.user!.email, req.body.returnUrl));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // Called on return from Stripe Checkout - activates the card once the payment has gone through
+  app.post("/api/gift-cards/:id/confirm", authenticate, authorize("customer"), async (req, res) => {
+    try {
+      res.json(await confirmGiftCardPurchase(req.params.id, req.user!.id));
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // Gift cards the customer has bought
+  app.get("/api/customers/:customerId/gift-cards", authenticate, async (req, res) => {
+    try {
+      const { customerId } = req.params;
+      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      res.json(await getPurchasedGiftCards(customerId));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/admin/gift-cards", authenticate, requirePermission("loyalty.manage_gift_cards"), async (req, res) => {
+    try {
+      const { status, search } = req.query;
+      res.json(await storage.getGiftCards({ status: status as string | undefined, search: search as string | undefined }));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // A card with its full ledger
+  app.get("/api/admin/gift-cards/:id", authenticate, requirePermission("loyalty.manage_gift_cards"), async (req, res) => {
+    try {
+      res.json(await getGiftCardDetails(req.params.id));
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/admin/gift-cards/:id/void", authenticate, requirePermission("loyalty.manage_gift_cards"), async (req, res) => {
+    try {
+      res.json(await voidGiftCard(req.params.id, req.body.reason, req.user!.id));
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Store Credit ====================
+
+  // The customer's wallet balance and ledger
+  app.get("/api/customers/:customerId/store-credit", authenticate, async (req, res) => {
+    try {
+      const { customerId } = req.params;
+      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      res.json(await getStoreCreditWallet(customerId));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Store credit the customer can pay with at checkout
+  app.get("/api/customers/:customerId/store-credit/tender", authenticate, async (req, res) => {
+    try {
+      const { customerId } = req.params;
+      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      const amountDue = parseFloat(req.query.amountDue as string);
+      if (isNaN(amountDue) || amountDue < 0) {
+        return res.status(400).json({ error: "Amount due is required" });
+      }
+      res.json(await getStoreCreditTenderOptions(customerId, amountDue));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/admin/customers/:customerId/store-credit/adjust", authenticate, requirePermission("loyalty.manage_points"), async (req, res) => {
+    try {
+      const { customerId } = req.params;
+      const customer = await storage.getUser(customerId);
+      if (!customer || customer.role !== "customer") {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      const transaction = await adjustStoreCredit(customerId, Number(req.body.amount), req.body.reason, req.user!.id);
+      res.json({ success: true, newBalance: parseFloat(transaction.balanceAfter) });
+    } catch (error: any) {
+      console.error("Error adjusting store credit:", error);
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Order History ====================
+  
+  app.get("/api/customers/:customerId/orders", authenticate, async (req, res) => {
+    try {
+      const { customerId } = req.params;
+      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      const orders = await storage.getAllOrders();
+      const customerOrders = orders.filter(o => o.customerId === customerId);
+      res.json(customerOrders);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/customers/:customerId/orders/:orderId/reorder", authenticate, async (req, res) => {
+    try {
+      const { customerId, orderId } = req.params;
+      
+      // Verify user owns this customer account
+      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      
+      // Get the original order
+      const originalOrder = await storage.getOrder(orderId);
+      if (!originalOrder) {
+        return res.status(404).json({ error: "Original order not found" });
+      }
+      
+      // Security: For non-admin/staff, verify the order belongs to the authenticated user
+      if (req.user!.role !== "admin" && req.user!.role !== "staff") {
+        if (originalOrder.customerId !== req.user!.id) {
+          return res.status(403).json({ error: "You can only reorder your own orders" });
+        }
+      } else {
+        // Admin/staff can reorder for any customer, but verify order belongs to target customer
+        if (originalOrder.customerId !== customerId) {
+          return res.status(403).json({ error: "Order does not belong to this customer" });
+        }
+      }
+      
+      // Reprice the original items at current menu prices (promo codes are not carried over,
+      // automatic promotions and tier perks apply as on any new order)
+      const pricing = await priceOrder({
+        branchId: originalOrder.branchId,
+        orderType: originalOrder.orderType,
+        items: originalOrder.items,
+        customerId: originalOrder.customerId,
+        storedDeliveryDistance: originalOrder.deliveryDistance,
+        customerAddress: originalOrder.customerAddress,
+      });
+      
+      // Validate payload using schema before creating order
+      const newOrderPayload = insertOrderSchema.parse({
+        orderNumber: `ORD-${Date.now()}-${(await storage.getAllOrders()).length + 1}`,
+        customerId: originalOrder.customerId!,
+        branchId: originalOrder.branchId,
+        customerName: originalOrder.customerName,
+        customerPhone: originalOrder.customerPhone,
+        alternativePhone: originalOrder.alternativePhone,
+        customerAddress: originalOrder.customerAddress,
+        deliveryArea: originalOrder.deliveryArea,
+        orderType: originalOrder.orderType,
+        orderSource: "online", // Reorders are always online
+        paymentMethod: originalOrder.paymentMethod,
+        paymentStatus: "pending", // Reset payment status
+        items: JSON.stringify(pricing.items), // Same items at current prices
+        subtotal: pricing.subtotal.toFixed(2),
+        total: pricing.total.toFixed(2),
+        notes: originalOrder.notes,
+      });
+      applyOrderPricing(newOrderPayload, pricing);
+      
+      // Created like any new order - same settings checks, and side effects go through the outbox
+      const newOrder = await placeOrder(newOrderPayload, pricing);
+      
+      res.json(newOrder);
+    } catch (error: any) {
+      console.error("Reorder error:", error);
+      const statusCode = (error as any).statusCode || 500;
+      res.status(statusCode).json({ error: error.message || "Failed to reorder" });
+    }
+  });
+
+  // ==================== Refunds ====================
+  
+  app.get("/api/refunds", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const refunds = await storage.getAllRefunds();
+      res.json(refunds);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/orders/:orderId/refunds", authenticate, async (req, res) => {
+    try {
+      const { orderId } = req.params;
+      const refunds = await storage.getRefundsByOrder(orderId);
+      res.json(refunds);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Whole-amount or per-line ([{ orderItemId, quantity }]) refunds - see server/refunds.ts
+  app.post("/api/refunds", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { orderId, refundAmount, refundMethod, reason, notes, items } = req.body;
+      const refund = await createOrderRefund({
+        orderId,
+        refundAmount,
+        refundMethod,
+        reason,
+        notes,
+        items: Array.isArray(items) ? items : undefined,
+      }, req.user!.id);
+      res.status(201).json(refund);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/refunds/:id", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const refund = await storage.updateRefund(id, {
+        ...req.body,
+        processedBy: req.user!.id,
+        processedAt: req.body.status === "completed" ? new Date() : undefined
+      });
+      res.json(refund);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Suppliers ====================
+  
+  app.get("/api/suppliers", authenticate, requirePermission("suppliers.view"), async (req, res) => {
+    try {
+      const suppliers = await storage.getAllSuppliers();
+      res.json(suppliers);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/suppliers", authenticate, requirePermission("suppliers.create"), async (req, res) => {
+    try {
+      const supplier = await storage.createSupplier(req.body);
+      res.status(201).json(supplier);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/suppliers/:id", authenticate, requirePermission("suppliers.edit"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const supplier = await storage.updateSupplier(id, req.body);
+      res.json(supplier);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/suppliers/:id", authenticate, requirePermission("suppliers.delete"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteSupplier(id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Inventory ====================
+  
+  app.get("/api/inventory/transactions", authenticate, requirePermission("inventory.view", "inventory.view_audit"), async (req, res) => {
+    try {
+      const { branchId } = req.query;
+      const { branchId: effectiveBranchId, requiresFilter } = requireBranchAccess(req, branchId as string | undefined);
+      const transactions = requiresFilter && effectiveBranchId
+        ? await storage.getInventoryTransactionsByBranch(effectiveBranchId)
+        : await storage.getAllInventoryTransactions();
+      res.json(transactions);
+    } catch (error: any) {
+      const statusCode = (error as any).statusCode || 500;
+      res.status(statusCode).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/inventory/transactions", authenticate, requirePermission("inventory.adjust_stock", "inventory.receive_stock"), async (req, res) => {
+    try {
+      // The balance is worked out from the branch's stock level, never taken from the client
+      const { balanceAfter, lotNumber, expiryDate, ...body } = req.body;
+      const batch = stockBatchInputSchema.parse({ lotNumber, expiryDate });
+      const transaction = await storage.createInventoryTransaction({
+        ...body,
+        performedBy: req.user!.id
+      }, batch);
+      if (transaction.quantity < 0) {
+        autoDraftPurchaseOrders(transaction.branchId).catch(error => console.error("Auto-draft failed:", error));
+      }
+      res.status(201).json(transaction);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // On-hand, reserved and available quantities per item at a branch
+  app.get("/api/inventory/stock/:branchId", authenticate, requirePermission("inventory.view"), async (req, res) => {
+    try {
+      const { branchId } = requireBranchAccess(req, req.params.branchId);
+      const stock = await storage.getBranchStock(branchId!);
+      res.json(stock);
+    } catch (error: any) {
+      const statusCode = (error as any).statusCode || 500;
+      res.status(statusCode).json({ error: error.message });
+    }
+  });
+
+  // Sets the counted on-hand quantity, recording the difference as an adjustment
+  app.post("/api/inventory/stock-count", authenticate, requirePermission("inventory.adjust_stock"), async (req, res) => {
+    try {
+      const { menuItemId, ingredientId, onHand, reason } = req.body;
+      const { branchId } = requireBranchAccess(req, req.body.branchId);
+      if (!branchId) {
+        return res.status(400).json({ error: "Branch is required" });
+      }
+      if (!menuItemId === !ingredientId) {
+        return res.status(400).json({ error: "A stock count needs either a menu item or an ingredient" });
+      }
+      if (!Number.isInteger(onHand) || onHand < 0) {
+        return res.status(400).json({ error: "Counted quantity must be a whole number of zero or more" });
+      }
+
+      const item = ingredientId ? { ingredientId } : { menuItemId };
+      const current = await storage.getBranchStockLevel(branchId, item);
+      const difference = onHand - (current?.onHand ?? 0);
+      if (difference === 0) {
+        return res.json(current);
+      }
+
+      await storage.createInventoryTransaction({
+        ...item,
+        branchId,
+        transactionType: "adjustment",
+        quantity: difference,
+        reason: reason || "Stock count",
+        performedBy: req.user!.id,
+      });
+      if (difference < 0) {
+        autoDraftPurchaseOrders(branchId).catch(error => console.error("Auto-draft failed:", error));
+      }
+      res.json(await storage.getBranchStockLevel(branchId, item));
+    } catch (error: any) {
+      const statusCode = (error as any).statusCode || 500;
+      res.status(statusCode).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/inventory/wastage/:branchId", authenticate, requirePermission("inventory.view", "inventory.manage_wastage"), async (req, res) => {
+    try {
+      const { branchId } = req.params;
+      const wastage = await storage.getStockWastage(branchId);
+      res.json(wastage);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/inventory/wastage", authenticate, requirePermission("inventory.manage_wastage"), async (req, res) => {
+    try {
+      const wastage = await storage.createStockWastage({
+        ...req.body,
+        reportedBy: req.user!.id
+      });
+      autoDraftPurchaseOrders(wastage.branchId).catch(error => console.error("Auto-draft failed:", error));
+      res.status(201).json(wastage);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Batches (lots with expiry dates) at a branch, soonest expiry first
+  app.get("/api/inventory/batches/:branchId", authenticate, requirePermission("inventory.view"), async (req, res) => {
+    try {
+      const { branchId } = requireBranchAccess(req, req.params.branchId);
+      const { status } = req.query;
+      const batches = await storage.getStockBatches({
+        branchId: branchId!,
+        statuses: status ? (status as string).split(",") : ["active"],
+      });
+      res.json(batches);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // Expired batches and those expiring within ?days= (the branch's expiryWarningDays by default)
+  app.get("/api/inventory/expiring/:branchId", authenticate, requirePermission("inventory.view"), async (req, res) => {
+    try {
+      const { branchId } = requireBranchAccess(req, req.params.branchId);
+      const days = req.query.days !== undefined ? parseInt(req.query.days as string) : undefined;
+      if (days !== undefined && (isNaN(days) || days < 0)) {
+        return res.status(400).json({ error: "days must be zero or more" });
+      }
+      res.json(await getExpiringBatches(branchId!, days));
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // Books what is left of a batch as expired wastage
+  app.post("/api/inventory/batches/:id/write-off", authenticate, requirePermission("inventory.manage_wastage"), async (req, res) => {
+    try {
+      const batch = await storage.getStockBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ error: "Batch not found" });
+      }
+      const { branchId, requiresFilter } = requireBranchAccess(req, batch.branchId);
+      if (requiresFilter && branchId !== batch.branchId) {
+        return res.status(403).json({ error: "Access denied: Batch belongs to another branch" });
+      }
+      const wastage = await writeOffStockBatch(batch.id, req.user!.id);
+      autoDraftPurchaseOrders(batch.branchId).catch(error => console.error("Auto-draft failed:", error));
+      res.status(201).json(wastage);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/inventory/reorder-points/:branchId", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { branchId } = req.params;
+      const points = await storage.getReorderPoints(branchId);
+      res.json(points);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/inventory/low-stock/:branchId", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { branchId } = requireBranchAccess(req, req.params.branchId);
+      const lowStock = await storage.checkLowStock(branchId!);
+      res.json(lowStock);
+    } catch (error: any) {
+      const statusCode = (error as any).statusCode || 500;
+      res.status(statusCode).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/inventory/reorder-points", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      if (!req.body.menuItemId === !req.body.ingredientId) {
+        return res.status(400).json({ error: "A reorder point needs either a menu item or an ingredient" });
+      }
+      const point = await storage.createReorderPoint(req.body);
+      res.status(201).json(point);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/inventory/reorder-points/:id", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const point = await storage.updateReorderPoint(id, req.body);
+      res.json(point);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/inventory/reorder-points/:id", authenticate, authorize("admin", "staff"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteReorderPoint(id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Ingredients & Recipes ====================
+
+  app.get("/api/ingredients", authenticate, requirePermission("inventory.view"), async (req, res) => {
+    try {
+      const ingredients = await storage.getAllIngredients();
+      res.json(ingredients);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/ingredients", authenticate, requirePermission("inventory.adjust_stock"), async (req, res) => {
+    try {
+      const validatedData = insertIngredientSchema.parse(req.body);
+      const ingredient = await storage.createIngredient(validatedData);
+      res.status(201).json(ingredient);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Stock is changed through inventory transactions, not by editing the ingredient
+  app.patch("/api/ingredients/:id", authenticate, requirePermission("inventory.adjust_stock"), async (req, res) => {
+    try {
+      const { stockQuantity, ...changes } = insertIngredientSchema.partial().parse(req.body);
+      const ingredient = await storage.updateIngredient(req.params.id, changes);
+      if (!ingredient) {
+        return res.status(404).json({ error: "Ingredient not found" });
+      }
+      res.json(ingredient);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/ingredients/:id", authenticate, requirePermission("inventory.adjust_stock"), async (req, res) => {
+    try {
+      await storage.deleteIngredient(req.params.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error.code === '23503') {
+        return res.status(409).json({ error: "Ingredient has stock history - deactivate it instead" });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/recipes", authenticate, requirePermission("inventory.view"), async (req, res) => {
+    try {
+      const { menuItemId } = req.query;
+      const recipeItems = menuItemId
+        ? await storage.getRecipeItemsByMenuItem(menuItemId as string)
+        : await storage.getAllRecipeItems();
+      res.json(recipeItems);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/recipes", authenticate, requirePermission("inventory.adjust_stock"), async (req, res) => {
+    try {
+      const validatedData = insertRecipeItemSchema.parse(req.body);
+      if (!validatedData.menuItemId && !validatedData.variantOptionId) {
+        return res.status(400).json({ error: "A recipe line needs a menu item or a variant option" });
+      }
+      if (validatedData.quantity <= 0) {
+        return res.status(400).json({ error: "Quantity must be greater than zero" });
+      }
+      const recipeItem = await storage.createRecipeItem(validatedData);
+      res.status(201).json(recipeItem);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/recipes/:id", authenticate, requirePermission("inventory.adjust_stock"), async (req, res) => {
+    try {
+      const validatedData = insertRecipeItemSchema.pick({ quantity: true, ingredientId: true }).partial().parse(req.body);
+      if (validatedData.quantity !== undefined && validatedData.quantity <= 0) {
+        return res.status(400).json({ error: "Quantity must be greater than zero" });
+      }
+      const recipeItem = await storage.updateRecipeItem(req.params.id, validatedData);
+      if (!recipeItem) {
+        return res.status(404).json({ error: "Recipe line not found" });
+      }
+      res.json(recipeItem);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/recipes/:id", authenticate, requirePermission("inventory.adjust_stock"), async (req, res) => {
+    try {
+      await storage.deleteRecipeItem(req.params.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Purchase Orders ====================
+
+  // Non-admin users only see purchase orders for their own branch
+  async function loadPurchaseOrderForUser(req: Request, id: string) {
+    const purchaseOrder = await getPurchaseOrderOrThrow(id);
+    const { branchId, requiresFilter } = requireBranchAccess(req, purchaseOrder.branchId);
+    if (requiresFilter && branchId !== purchaseOrder.branchId) {
+      const error = new Error("Access denied: Purchase order belongs to another branch");
+      (error as any).statusCode = 403;
+      throw error;
+    }
+    return purchaseOrder;
+  }
+
+  app.get("/api/purchase-orders", authenticate, requirePermission("suppliers.view", "inventory.view"), async (req, res) => {
+    try {
+      const { branchId, status, supplierId } = req.query;
+      const { branchId: effectiveBranchId } = requireBranchAccess(req, branchId as string | undefined);
+      const purchaseOrders = await storage.getPurchaseOrders({
+        branchId: effectiveBranchId || undefined,
+        status: status as string | undefined,
+        supplierId: supplierId as string | undefined,
+      });
+      res.json(purchaseOrders);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", authenticate, requirePermission("suppliers.view", "inventory.view"), async (req, res) => {
+    try {
+      await loadPurchaseOrderForUser(req, req.params.id);
+      res.json(await getPurchaseOrderDetail(req.params.id));
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/purchase-orders", authenticate, requirePermission("suppliers.manage_purchase_orders"), async (req, res) => {
+    try {
+      const { supplierId, expectedDate, notes, lines } = req.body;
+      const { branchId } = requireBranchAccess(req, req.body.branchId);
+      if (!branchId) {
+        return res.status(400).json({ error: "Branch is required" });
+      }
+      const purchaseOrder = await createPurchaseOrder({
+        supplierId,
+        branchId,
+        expectedDate: expectedDate ? new Date(expectedDate) : null,
+        notes,
+        lines: lines || [],
+      }, req.user!.id);
+      res.status(201).json(purchaseOrder);
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
+
+  // Drafts purchase orders for stock at or below its reorder level
+  app.post("/api/purchase-orders/auto-draft", authenticate, requirePermission("suppliers.manage_purchase_orders"), async (req, res) => {
+    try {
+      const { branchId } = requireBranchAccess(req, req.body.branchId);
+      if (!branchId) {
+        return res.status(400).json({ error: "Branch is required" });
+      }
+      const purchaseOrders = await autoDraftPurchaseOrders(branchId);
+      res.json(purchaseOrders);
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.post("/api/customers/:customerId/loyalty/redeem", authenticate, async (req, res) => {
+  app.patch("/api/purchase-orders/:id", authenticate, requirePermission("suppliers.manage_purchase_orders"), async (req, res) => {
     try {
-      const { customerId } = req.params;
-      const { points, orderId } = req.body;
-      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
-        return res.status(403).json({ error: "Unauthorized" });
-      }
-      const loyaltyPoints = await storage.getLoyaltyPoints(customerId);
-      if (!loyaltyPoints || loyaltyPoints.availablePoints < points) {
-        return res.status(400).json({ error: "Insufficient points" });
+      await loadPurchaseOrderForUser(req, req.params.id);
+      await getDraftPurchaseOrder(req.params.id);
+      const { supplierId, expectedDate, notes } = req.body;
+      if (supplierId && !(await storage.getSupplier(supplierId))) {
+        return res.status(404).json({ error: "Supplier not found" });
       }
-      const newAvailable = loyaltyPoints.availablePoints - points;
-      const newRedeemed = loyaltyPoints.lifetimeRedeemed + points;
-      await storage.createOrUpdateLoyaltyPoints(customerId, {
-        availablePoints: newAvailable,
-        lifetimeRedeemed: newRedeemed
-      });
-      await storage.createLoyaltyTransaction({
-        customerId,
-        orderId,
-        transactionType: "redeem",
-        points: -points,
-        balanceAfter: newAvailable,
-        description: `Redeemed ${points} points`
+      const purchaseOrder = await storage.updatePurchaseOrder(req.params.id, {
+        supplierId,
+        expectedDate: expectedDate === undefined ? undefined : expectedDate ? new Date(expectedDate) : null,
+        notes,
       });
-      res.json({ success: true, newBalance: newAvailable });
+      res.json(purchaseOrder);
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  // ==================== Order History ====================
-  
-  app.get("/api/customers/:customerId/orders", authenticate, async (req, res) => {
+  app.post("/api/purchase-orders/:id/items", authenticate, requirePermission("suppliers.manage_purchase_orders"), async (req, res) => {
     try {
-      const { customerId } = req.params;
-      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
-        return res.status(403).json({ error: "Unauthorized" });
-      }
-      const orders = await storage.getAllOrders();
-      const customerOrders = orders.filter(o => o.customerId === customerId);
-      res.json(customerOrders);
+      await loadPurchaseOrderForUser(req, req.params.id);
+      const items = await addPurchaseOrderLines(req.params.id, req.body.lines || [req.body]);
+      res.status(201).json(items);
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.post("/api/customers/:customerId/orders/:orderId/reorder", authenticate, async (req, res) => {
+  app.patch("/api/purchase-orders/:id/items/:itemId", authenticate, requirePermission("suppliers.manage_purchase_orders"), async (req, res) => {
     try {
-      const { customerId, orderId } = req.params;
-      
-      // Verify user owns this customer account
-      if (req.user!.role !== "admin" && req.user!.role !== "staff" && req.user!.id !== customerId) {
-        return res.status(403).json({ error: "Unauthorized" });
-      }
-      
-      // Get the original order
-      const originalOrder = await storage.getOrder(orderId);
-      if (!originalOrder) {
-        return res.status(404).json({ error: "Original order not found" });
+      await loadPurchaseOrderForUser(req, req.params.id);
+      await getDraftPurchaseOrder(req.params.id);
+      const { quantityOrdered, unitCost } = req.body;
+      if (quantityOrdered !== undefined && (!Number.isInteger(quantityOrdered) || quantityOrdered <= 0)) {
+        return res.status(400).json({ error: "Quantity must be a whole number greater than zero" });
       }
-      
-      // Security: For non-admin/staff, verify the order belongs to the authenticated user
-      if (req.user!.role !== "admin" && req.user!.role !== "staff") {
-        if (originalOrder.customerId !== req.user!.id) {
-          return res.status(403).json({ error: "You can only reorder your own orders" });
-        }
-      } else {
-        // Admin/staff can reorder for any customer, but verify order belongs to target customer
-        if (originalOrder.customerId !== customerId) {
-          return res.status(403).json({ error: "Order does not belong to this customer" });
-        }
+      if (unitCost !== undefined && (isNaN(parseFloat(unitCost)) || parseFloat(unitCost) < 0)) {
+        return res.status(400).json({ error: "Unit cost cannot be negative" });
       }
-      
-      // Validate payload using schema before creating order
-      const newOrderPayload = insertOrderSchema.parse({
-        orderNumber: `ORD-${Date.now()}-${(await storage.getAllOrders()).length + 1}`,
-        customerId: originalOrder.customerId!,
-        branchId: originalOrder.branchId,
-        customerName: originalOrder.customerName,
-        customerPhone: originalOrder.customerPhone,
-        alternativePhone: originalOrder.alternativePhone,
-        customerAddress: originalOrder.customerAddress,
-        deliveryArea: originalOrder.deliveryArea,
-        orderType: originalOrder.orderType,
-        orderSource: "online", // Reorders are always online
-        paymentMethod: originalOrder.paymentMethod,
-        paymentStatus: "pending", // Reset payment status
-        items: originalOrder.items, // Copy same items
-        subtotal: originalOrder.subtotal,
-        discount: "0", // Reset discount for new order
-        discountReason: null,
-        deliveryCharges: originalOrder.deliveryCharges,
-        deliveryDistance: originalOrder.deliveryDistance,
-        total: originalOrder.total,
-        status: "pending", // New order starts as pending
-        notes: originalOrder.notes,
+      const item = await storage.updatePurchaseOrderItem(req.params.itemId, {
+        quantityOrdered,
+        unitCost: unitCost === undefined ? undefined : parseFloat(unitCost).toFixed(4),
       });
-      
-      // Create new order with validated payload
-      const newOrder = await storage.createOrder(newOrderPayload);
-      
-      res.json(newOrder);
+      if (!item || item.purchaseOrderId !== req.params.id) {
+        return res.status(404).json({ error: "Purchase order line not found" });
+      }
+      res.json(item);
     } catch (error: any) {
-      console.error("Reorder error:", error);
-      res.status(500).json({ error: error.message || "Failed to reorder" });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  // ==================== Refunds ====================
-  
-  app.get("/api/refunds", authenticate, authorize("admin", "staff"), async (req, res) => {
+  app.delete("/api/purchase-orders/:id/items/:itemId", authenticate, requirePermission("suppliers.manage_purchase_orders"), async (req, res) => {
     try {
-      const refunds = await storage.getAllRefunds();
-      res.json(refunds);
+      await loadPurchaseOrderForUser(req, req.params.id);
+      await getDraftPurchaseOrder(req.params.id);
+      const items = await storage.getPurchaseOrderItems(req.params.id);
+      if (!items.some(item => item.id === req.params.itemId)) {
+        return res.status(404).json({ error: "Purchase order line not found" });
+      }
+      await storage.deletePurchaseOrderItem(req.params.itemId);
+      res.json({ success: true });
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.get("/api/orders/:orderId/refunds", authenticate, async (req, res) => {
+  app.post("/api/purchase-orders/:id/send", authenticate, requirePermission("suppliers.manage_purchase_orders"), async (req, res) => {
     try {
-      const { orderId } = req.params;
-      const refunds = await storage.getRefundsByOrder(orderId);
-      res.json(refunds);
+      await loadPurchaseOrderForUser(req, req.params.id);
+      res.json(await sendPurchaseOrder(req.params.id));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.post("/api/refunds", authenticate, authorize("admin", "staff"), async (req, res) => {
+  app.post("/api/purchase-orders/:id/cancel", authenticate, requirePermission("suppliers.manage_purchase_orders"), async (req, res) => {
     try {
-      const { orderId, refundAmount, refundMethod, reason, branchId, notes } = req.body;
-      
-      // Get the order to check payment method
-      const order = await storage.getOrder(orderId);
-      if (!order) {
-        return res.status(404).json({ error: "Order not found" });
-      }
-
-      // Validate refund amount
-      const refundAmountNum = parseFloat(refundAmount);
-      if (isNaN(refundAmountNum) || refundAmountNum <= 0) {
-        return res.status(400).json({ error: "Invalid refund amount" });
-      }
-
-      // Check if order total is sufficient
-      const orderTotal = parseFloat(order.total || "0");
-      if (refundAmountNum > orderTotal) {
-        return res.status(400).json({ error: "Refund amount exceeds order total" });
-      }
-
-      // Get existing refunds for this order to prevent over-refunding
-      const existingRefunds = await storage.getRefundsByOrder(orderId);
-      const totalRefunded = existingRefunds
-        .filter(r => r.status === "completed" || r.status === "pending")
-        .reduce((sum, r) => sum + parseFloat(r.refundAmount || "0"), 0);
-      
-      if (totalRefunded + refundAmountNum > orderTotal) {
-        return res.status(400).json({ 
-          error: `Cannot refund ₨${refundAmountNum.toFixed(2)}. Already refunded ₨${totalRefunded.toFixed(2)} of ₨${orderTotal.toFixed(2)} total.` 
-        });
-      }
-
-      let stripeRefundId: string | undefined;
-
-      // If order was paid via Stripe, process refund through Stripe
-      if (refundMethod === "card" || order.paymentMethod === "stripe") {
-        // Validate Stripe payment intent exists
-        if (!order.stripePaymentIntentId) {
-          return res.status(400).json({ 
-            error: "Cannot process card refund: Order does not have a Stripe payment intent ID" 
-          });
-        }
+      await loadPurchaseOrderForUser(req, req.params.id);
+      res.json(await cancelPurchaseOrder(req.params.id));
+    } catch (error: any) {
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
 
-        try {
-          const { stripeService } = await import('./stripeService');
-          const stripeRefund = await stripeService.createRefund({
-            paymentIntentId: order.stripePaymentIntentId,
-            amount: refundAmountNum,
-            reason: reason || undefined,
-          });
-          stripeRefundId = stripeRefund.id;
-        } catch (stripeError: any) {
-          console.error("Stripe refund error:", stripeError);
-          return res.status(500).json({ 
-            error: "Failed to process Stripe refund: " + stripeError.message 
-          });
-        }
+  // Goods received note: books the delivered quantities into stock at their unit cost
+  app.post("/api/purchase-orders/:id/receive", authenticate, requirePermission("inventory.receive_stock"), async (req, res) => {
+    try {
+      await loadPurchaseOrderForUser(req, req.params.id);
+      const lines = z.array(goodsReceiptLineSchema).parse(req.body.lines || []);
+      const result = await receivePurchaseOrder(req.params.id, {
+        lines,
+        supplierReference: req.body.supplierReference,
+        notes: req.body.notes,
+      }, req.user!.id);
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
       }
+      res.status((error as any).statusCode || 500).json({ error: error.message });
+    }
+  });
 
-      // Only persist refund after successful Stripe API call (if applicable)
-      const refund = await storage.createRefund({
-        orderId,
-        refundAmount: refundAmountNum.toString(),
-        refundMethod,
-        reason,
-        branchId,
-        notes,
-        stripeRefundId,
-        processedBy: req.user!.id
-      });
-      
-      res.status(201).json(refund);
+  app.post("/api/purchase-orders/:id/pay", authenticate, requirePermission("expenses.edit"), async (req, res) => {
+    try {
+      await loadPurchaseOrderForUser(req, req.params.id);
+      res.json(await payPurchaseOrder(req.params.id));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.patch("/api/refunds/:id", authenticate, authorize("admin", "staff"), async (req, res) => {
+  // ==================== Stock Takes ====================
+
+  async function loadStockTakeForUser(req: Request, id: string) {
+    const stockTake = await getStockTakeOrThrow(id);
+    const { branchId, requiresFilter } = requireBranchAccess(req, stockTake.branchId);
+    if (requiresFilter && branchId !== stockTake.branchId) {
+      const error = new Error("Access denied: Stock take belongs to another branch");
+      (error as any).statusCode = 403;
+      throw error;
+    }
+    return stockTake;
+  }
+
+  app.get("/api/stock-takes", authenticate, requirePermission("inventory.view"), async (req, res) => {
     try {
-      const { id } = req.params;
-      const refund = await storage.updateRefund(id, {
-        ...req.body,
-        processedBy: req.user!.id,
-        processedAt: req.body.status === "completed" ? new Date() : undefined
-      });
-      res.json(refund);
+      const { branchId, status } = req.query;
+      const { branchId: effectiveBranchId } = requireBranchAccess(req, branchId as string | undefined);
+      res.json(await storage.getStockTakes(effectiveBranchId || undefined, status as string | undefined));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  // ==================== Suppliers ====================
-  
-  app.get("/api/suppliers", authenticate, requirePermission("suppliers.view"), async (req, res) => {
+  // Value lost to count variances alongside recorded wastage
+  app.get("/api/stock-takes/variance-report", authenticate, requirePermission("inventory.view", "inventory.view_audit"), async (req, res) => {
     try {
-      const suppliers = await storage.getAllSuppliers();
-      res.json(suppliers);
+      const { startDate, endDate, branchId } = req.query;
+      if (!startDate || !endDate) {
+        return res.status(400).json({ error: "Start date and end date are required" });
+      }
+      const { branchId: effectiveBranchId } = requireBranchAccess(req, branchId as string | undefined);
+
+      const from = new Date(startDate as string);
+      const to = new Date(endDate as string);
+      to.setHours(23, 59, 59, 999);
+
+      res.json(await getVarianceReport(effectiveBranchId, from, to));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.post("/api/suppliers", authenticate, requirePermission("suppliers.create"), async (req, res) => {
+  app.get("/api/stock-takes/:id", authenticate, requirePermission("inventory.view"), async (req, res) => {
     try {
-      const supplier = await storage.createSupplier(req.body);
-      res.status(201).json(supplier);
+      await loadStockTakeForUser(req, req.params.id);
+      res.json(await getStockTakeDetail(req.params.id));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.patch("/api/suppliers/:id", authenticate, requirePermission("suppliers.edit"), async (req, res) => {
+  // Freezes the expected quantities for a full count or a cycle count of one category
+  app.post("/api/stock-takes", authenticate, requirePermission("inventory.adjust_stock"), async (req, res) => {
     try {
-      const { id } = req.params;
-      const supplier = await storage.updateSupplier(id, req.body);
-      res.json(supplier);
+      const { branchId } = requireBranchAccess(req, req.body.branchId);
+      if (!branchId) {
+        return res.status(400).json({ error: "Branch is required" });
+      }
+      const stockTake = await startStockTake({
+        branchId,
+        countType: req.body.countType === "cycle" ? "cycle" : "full",
+        ingredientCategory: req.body.ingredientCategory,
+        menuCategoryId: req.body.menuCategoryId,
+        notes: req.body.notes,
+      }, req.user!.id);
+      res.status(201).json(stockTake);
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.delete("/api/suppliers/:id", authenticate, requirePermission("suppliers.delete"), async (req, res) => {
+  app.put("/api/stock-takes/:id/counts", authenticate, requirePermission("inventory.adjust_stock"), async (req, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteSupplier(id);
-      res.json({ success: true });
+      await loadStockTakeForUser(req, req.params.id);
+      const counts = z.array(stockTakeCountSchema).parse(req.body.counts || []);
+      res.json(await recordStockTakeCounts(req.params.id, counts, req.user!.id));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  // ==================== Inventory ====================
-  
-  app.get("/api/inventory/transactions", authenticate, requirePermission("inventory.view", "inventory.view_audit"), async (req, res) => {
+  // Books the counted variances as adjustments; uncounted lines are left alone
+  app.post("/api/stock-takes/:id/post", authenticate, requirePermission("inventory.adjust_stock"), async (req, res) => {
     try {
-      const { branchId } = req.query;
-      const { branchId: effectiveBranchId, requiresFilter } = requireBranchAccess(req, branchId as string | undefined);
-      const transactions = requiresFilter && effectiveBranchId
-        ? await storage.getInventoryTransactionsByBranch(effectiveBranchId)
-        : await storage.getAllInventoryTransactions();
-      res.json(transactions);
+      const stockTake = await loadStockTakeForUser(req, req.params.id);
+      const posted = await postStockTake(req.params.id, req.user!.id);
+      autoDraftPurchaseOrders(stockTake.branchId).catch(error => console.error("Auto-draft failed:", error));
+      res.json(posted);
     } catch (error: any) {
-      const statusCode = (error as any).statusCode || 500;
-      res.status(statusCode).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.post("/api/inventory/transactions", authenticate, requirePermission("inventory.adjust_stock", "inventory.receive_stock"), async (req, res) => {
+  app.post("/api/stock-takes/:id/cancel", authenticate, requirePermission("inventory.adjust_stock"), async (req, res) => {
     try {
-      const transaction = await storage.createInventoryTransaction({
-        ...req.body,
-        performedBy: req.user!.id
-      });
-      res.status(201).json(transaction);
+      await loadStockTakeForUser(req, req.params.id);
+      res.json(await cancelStockTake(req.params.id));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.get("/api/inventory/wastage/:branchId", authenticate, requirePermission("inventory.view", "inventory.manage_wastage"), async (req, res) => {
+  // ==================== Stock Transfers ====================
+
+  // Staff can see transfers in or out of their branch; the sending branch dispatches, the receiving branch receives
+  async function loadStockTransferForUser(req: Request, id: string, side?: "from" | "to") {
+    const transfer = await getStockTransferOrThrow(id);
+    const { branchId, requiresFilter } = requireBranchAccess(req);
+    const allowed = side === "from" ? [transfer.fromBranchId]
+      : side === "to" ? [transfer.toBranchId]
+      : [transfer.fromBranchId, transfer.toBranchId];
+    if (requiresFilter && !allowed.includes(branchId!)) {
+      const error = new Error(side === "to"
+        ? "Access denied: Only the receiving branch can do this"
+        : side === "from"
+          ? "Access denied: Only the sending branch can do this"
+          : "Access denied: Transfer belongs to other branches");
+      (error as any).statusCode = 403;
+      throw error;
+    }
+    return transfer;
+  }
+
+  app.get("/api/stock-transfers", authenticate, requirePermission("inventory.view", "inventory.transfer_stock"), async (req, res) => {
     try {
-      const { branchId } = req.params;
-      const wastage = await storage.getStockWastage(branchId);
-      res.json(wastage);
+      const { branchId, status } = req.query;
+      const { branchId: effectiveBranchId } = requireBranchAccess(req, branchId as string | undefined);
+      const transfers = await storage.getStockTransfers({
+        branchId: effectiveBranchId || undefined,
+        status: status as string | undefined,
+      });
+      res.json(transfers);
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.post("/api/inventory/wastage", authenticate, requirePermission("inventory.manage_wastage"), async (req, res) => {
+  app.get("/api/stock-transfers/:id", authenticate, requirePermission("inventory.view", "inventory.transfer_stock"), async (req, res) => {
     try {
-      const wastage = await storage.createStockWastage({
-        ...req.body,
-        reportedBy: req.user!.id
-      });
-      res.status(201).json(wastage);
+      await loadStockTransferForUser(req, req.params.id);
+      res.json(await getStockTransferDetail(req.params.id));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.get("/api/inventory/reorder-points/:branchId", authenticate, authorize("admin", "staff"), async (req, res) => {
+  app.post("/api/stock-transfers", authenticate, requirePermission("inventory.transfer_stock"), async (req, res) => {
     try {
-      const { branchId } = req.params;
-      const points = await storage.getReorderPoints(branchId);
-      res.json(points);
+      const { fromBranchId, toBranchId, notes, lines } = req.body;
+      const { branchId } = requireBranchAccess(req, fromBranchId);
+      const transfer = await createStockTransfer({
+        fromBranchId: branchId!,
+        toBranchId,
+        notes,
+        lines: lines || [],
+      }, req.user!.id);
+      res.status(201).json(transfer);
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.get("/api/inventory/low-stock/:branchId", authenticate, authorize("admin", "staff"), async (req, res) => {
+  // Takes the stock out of the sending branch
+  app.post("/api/stock-transfers/:id/dispatch", authenticate, requirePermission("inventory.transfer_stock"), async (req, res) => {
     try {
-      const { branchId } = req.params;
-      const lowStock = await storage.checkLowStock(branchId);
-      res.json(lowStock);
+      const transfer = await loadStockTransferForUser(req, req.params.id, "from");
+      const dispatched = await dispatchStockTransfer(req.params.id, req.user!.id);
+      autoDraftPurchaseOrders(transfer.fromBranchId).catch(error => console.error("Auto-draft failed:", error));
+      res.json(dispatched);
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.post("/api/inventory/reorder-points", authenticate, authorize("admin", "staff"), async (req, res) => {
+  app.post("/api/stock-transfers/:id/in-transit", authenticate, requirePermission("inventory.transfer_stock"), async (req, res) => {
     try {
-      const point = await storage.createReorderPoint(req.body);
-      res.status(201).json(point);
+      await loadStockTransferForUser(req, req.params.id, "from");
+      res.json(await markStockTransferInTransit(req.params.id));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.patch("/api/inventory/reorder-points/:id", authenticate, authorize("admin", "staff"), async (req, res) => {
+  // Books what arrived into the receiving branch; shortfalls are recorded as discrepancies
+  app.post("/api/stock-transfers/:id/receive", authenticate, requirePermission("inventory.receive_stock"), async (req, res) => {
     try {
-      const { id } = req.params;
-      const point = await storage.updateReorderPoint(id, req.body);
-      res.json(point);
+      await loadStockTransferForUser(req, req.params.id, "to");
+      const lines = z.array(stockTransferReceiptLineSchema).parse(req.body.lines || []);
+      res.json(await receiveStockTransfer(req.params.id, lines, req.user!.id));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
-  app.delete("/api/inventory/reorder-points/:id", authenticate, authorize("admin", "staff"), async (req, res) => {
+  app.post("/api/stock-transfers/:id/cancel", authenticate, requirePermission("inventory.transfer_stock"), async (req, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteReorderPoint(id);
-      res.json({ success: true });
+      await loadStockTransferForUser(req, req.params.id, "from");
+      res.json(await cancelStockTransfer(req.params.id));
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.status((error as any).statusCode || 500).json({ error: error.message });
     }
   });
 
@@ -3737,6 +5175,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Unauthorized" });
       }
 
+      const settings = await storage.getEffectiveSystemSettings(order.branchId);
+      if (!settings.enableStripe) {
+        return res.status(400).json({ error: "Card payments are not available" });
+      }
+
       const { stripeService } = await import('./stripeService');
       const user = req.user!.email ? req.user! : await storage.getUserByEmail(order.customerName);
       
@@ -3856,6 +5299,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Cannot process payment for cancelled or refunded order" });
       }
 
+      const settings = await storage.getEffectiveSystemSettings(order.branchId);
+      if (!settings.enableJazzCash) {
+        return res.status(400).json({ error: "JazzCash payments are not available" });
+      }
+
       const { createJazzCashPayment, isJazzCashConfigured } = await import('./jazzCashService');
       
       if (!isJazzCashConfigured()) {
@@ -4007,10 +5455,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       ).length;
       
       const menuItems = await storage.getAllMenuItems();
-      const orderItems = orders.flatMap(order => order.items || []);
+      const orderItems = await storage.getOrderItemsByOrderIds(orders.map(order => order.id));
       const itemCounts = orderItems.reduce((acc, item) => {
-        const id = typeof item === 'string' ? item : (item as any).menuItemId;
-        acc[id] = (acc[id] || 0) + 1;
+        if (item.menuItemId) {
+          acc[item.menuItemId] = (acc[item.menuItemId] || 0) + item.quantity;
+        }
         return acc;
       }, {} as Record<string, number>);
       
@@ -4138,21 +5587,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const productSales: Record<string, { quantity: number; revenue: number }> = {};
       let totalItems = 0;
       
-      orders.forEach(order => {
-        const items = order.items || [];
-        totalItems += items.length;
-        items.forEach((item: any) => {
-          const id = typeof item === 'string' ? item : item.menuItemId;
-          const quantity = typeof item === 'string' ? 1 : (item.quantity || 1);
-          const menuItem = menuItems.find(m => m.id === id);
-          const price = menuItem ? parseFloat(menuItem.price) : 0;
-          
-          if (!productSales[id]) {
-            productSales[id] = { quantity: 0, revenue: 0 };
-          }
-          productSales[id].quantity += quantity;
-          productSales[id].revenue += price * quantity;
-        });
+      const orderItems = await storage.getOrderItemsByOrderIds(orders.map(order => order.id));
+      orderItems.forEach(item => {
+        if (!item.menuItemId) return;
+        totalItems += item.quantity;
+        
+        if (!productSales[item.menuItemId]) {
+          productSales[item.menuItemId] = { quantity: 0, revenue: 0 };
+        }
+        productSales[item.menuItemId].quantity += item.quantity;
+        productSales[item.menuItemId].revenue += parseFloat(item.lineTotal);
       });
       
       const topSelling = Object.entries(productSales)
@@ -4902,11 +6346,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         filters = campaign.customSegmentFilter;
       }
       
-      const customers = await storage.getCustomersForSegment(filters);
+      // Only customers with phone numbers
+      const customers = (await storage.getCustomersForSegment(filters)).filter(c => c.phone);
+      if (customers.length === 0) {
+        return res.status(400).json({ error: "No customers found matching campaign criteria" });
+      }
+
+      // Each recipient gets their own single-use code when the campaign has a promotion
+      const promoCodes = campaign.promoTemplateId
+        ? await issueCampaignCodes(campaign, customers.map(c => c.id), req.user!.id)
+        : new Map<string, string>();
       
       // Create recipients with personalized messages
       const recipients = customers
-        .filter(c => c.phone) // Only customers with phone numbers
         .map(customer => {
           let personalizedMessage = campaign.messageTemplate;
           
@@ -4914,6 +6366,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const variables = campaign.templateVariables as any || {};
           personalizedMessage = personalizedMessage.replace(/\{\{name\}\}/g, customer.fullName || "Valued Customer");
           personalizedMessage = personalizedMessage.replace(/\{\{phone\}\}/g, customer.phone || "");
+          personalizedMessage = personalizedMessage.replace(/\{\{promo_code\}\}/g, promoCodes.get(customer.id) || "");
           
           Object.keys(variables).forEach(key => {
             const placeholder = `{{${key}}}`;
@@ -4926,13 +6379,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
             phoneNumber: customer.phone!,
             personalizedMessage,
             status: "pending" as const,
+            metadata: promoCodes.has(customer.id) ? { promoCode: promoCodes.get(customer.id) } : undefined,
           };
         });
       
-      if (recipients.length === 0) {
-        return res.status(400).json({ error: "No customers found matching campaign criteria" });
-      }
-      
       // Bulk create recipients
       await storage.bulkCreateCampaignRecipients(recipients);
       
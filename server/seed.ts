@@ -10,6 +10,15 @@ async function seedMenuData() {
     await db.delete(schema.menuItems);
     await db.delete(schema.categories);
     console.log("✅ Cleared existing menu data");
+    // Kitchen stations (kept across re-seeds - tickets reference them)
+    await db.insert(schema.kitchenStations).values([
+      { name: "Grill", displayOrder: 0 },
+      { name: "Pizza", displayOrder: 1 },
+      { name: "Fryer", displayOrder: 2 },
+      { name: "Drinks", displayOrder: 3 },
+    ]).onConflictDoNothing();
+    const stations = await db.select().from(schema.kitchenStations);
+    const stationId = (name: string) => stations.find((s: schema.KitchenStation) => s.name === name)?.id || null;
     // Create Categories
     const categoriesData = [
       {
@@ -17,30 +26,35 @@ async function seedMenuData() {
         description: "Delicious handcrafted pizzas with premium toppings",
         imageUrl: "https://images.unsplash.com/photo-1513104890138-7c749659a591?w=400&h=300&fit=crop",
         isActive: true,
+        kitchenStationId: stationId("Pizza"),
       },
       {
         name: "French Fries",
         description: "Crispy golden fries",
         imageUrl: "https://images.unsplash.com/photo-1630431341973-02e1979c5501?w=400&h=300&fit=crop",
         isActive: true,
+        kitchenStationId: stationId("Fryer"),
       },
       {
         name: "Burgers",
         description: "Juicy burgers with fresh ingredients",
         imageUrl: "https://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=400&h=300&fit=crop",
         isActive: true,
+        kitchenStationId: stationId("Grill"),
       },
       {
         name: "Wings",
         description: "Crispy chicken wings with various flavors",
         imageUrl: "https://images.unsplash.com/photo-1527477396000-e27163b481c2?w=400&h=300&fit=crop",
         isActive: true,
+        kitchenStationId: stationId("Fryer"),
       },
       {
         name: "Pasta",
         description: "Italian-style pasta dishes",
         imageUrl: "https://images.unsplash.com/photo-1621996346565-e3dbc646d9a9?w=400&h=300&fit=crop",
         isActive: true,
+        kitchenStationId: stationId("Grill"),
       },
     ];
     const createdCategories = await db.insert(schema.categories).values(categoriesData).returning();
@@ -0,0 +1,148 @@
+import { storage } from "./storage";
+import { emitEvent } from "./websocket";
+import { generateVoucherCode } from "./rewards";
+import type { MenuItem, Order, OrderItem, StampCard, StampCardInput } from "@shared/schema";
+
+// Stamp cards - "buy 9, get the 10th free". Every unit of an item on the card (listed directly or
+// through its category) earns a stamp when the order is placed; a full card issues a single-use
+// voucher for the card's free item, used like any reward voucher. Cancelled and rejected orders
+// take their stamps back, voiding vouchers they filled while those are still unused.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function stampCardError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+function earnsStamp(card: StampCard, menuItem: MenuItem | undefined) {
+  if (!menuItem) return false;
+  return (card.menuItemIds as string[]).includes(menuItem.id) ||
+    (!!menuItem.categoryId && (card.categoryIds as string[]).includes(menuItem.categoryId));
+}
+
+// Stamps the order's lines earn on the card - free lines (reward vouchers) earn none
+export function countOrderStamps(card: StampCard, lines: OrderItem[], menuItems: Map<string, MenuItem>) {
+  return lines
+    .filter(line => line.menuItemId && parseFloat(line.lineTotal) > 0)
+    .filter(line => earnsStamp(card, menuItems.get(line.menuItemId!)))
+    .reduce((sum, line) => sum + line.quantity, 0);
+}
+
+// Every card with its free item, for the admin screen
+export async function getAllStampCards() {
+  const [cards, menuItems] = await Promise.all([storage.getStampCards(), storage.getAllMenuItems()]);
+  const itemName = new Map(menuItems.map(item => [item.id, item.name]));
+  return cards.map(card => ({
+    ...card,
+    rewardMenuItemName: itemName.get(card.rewardMenuItemId) || null,
+  }));
+}
+
+async function assertMenuItems(input: StampCardInput) {
+  if (!(await storage.getMenuItem(input.rewardMenuItemId))) {
+    throw stampCardError("Free item not found", 400);
+  }
+}
+
+function toRow(input: StampCardInput) {
+  return {
+    ...input,
+    description: input.description || null,
+    voucherValidDays: input.voucherValidDays ?? null,
+  };
+}
+
+export async function createStampCard(input: StampCardInput, createdBy: string) {
+  await assertMenuItems(input);
+  return await storage.createStampCard({ ...toRow(input), createdBy });
+}
+
+export async function updateStampCard(id: string, input: StampCardInput) {
+  if (!(await storage.getStampCard(id))) {
+    throw stampCardError("Stamp card not found", 404);
+  }
+  await assertMenuItems(input);
+  return await storage.updateStampCard(id, toRow(input));
+}
+
+// The customer's progress on every active card (and inactive ones they have stamps on)
+export async function getCustomerStampCards(customerId: string) {
+  const [cards, progress, menuItems] = await Promise.all([
+    storage.getStampCards(),
+    storage.getCustomerStamps(customerId),
+    storage.getAllMenuItems(),
+  ]);
+  const itemName = new Map(menuItems.map(item => [item.id, item.name]));
+  return cards
+    .map(card => {
+      const entry = progress.find(p => p.stampCardId === card.id);
+      return {
+        id: card.id,
+        name: card.name,
+        description: card.description,
+        stampsRequired: card.stampsRequired,
+        rewardMenuItemName: itemName.get(card.rewardMenuItemId) || null,
+        isActive: card.isActive,
+        stamps: entry?.stamps || 0,
+        cardsCompleted: entry?.cardsCompleted || 0,
+      };
+    })
+    .filter(card => card.isActive || card.stamps > 0);
+}
+
+export async function awardOrderStamps(order: Order) {
+  if (!order.customerId || order.status === "cancelled" || order.status === "rejected") return;
+  const settings = await storage.getEffectiveSystemSettings(order.branchId);
+  if (!settings.enableLoyaltyProgram) return;
+
+  const cards = (await storage.getStampCards()).filter(card => card.isActive);
+  if (cards.length === 0) return;
+  const [lines, menuItems] = await Promise.all([storage.getOrderItems(order.id), storage.getAllMenuItems()]);
+  const menuItemById = new Map(menuItems.map(item => [item.id, item]));
+
+  for (const card of cards) {
+    const stamps = countOrderStamps(card, lines, menuItemById);
+    if (stamps <= 0) continue;
+    const result = await storage.earnStamps({
+      card,
+      customerId: order.customerId,
+      orderId: order.id,
+      stamps,
+      description: `${stamps} ${stamps === 1 ? "stamp" : "stamps"} from order #${order.orderNumber}`,
+      issueVoucher: () => ({
+        code: generateVoucherCode(),
+        expiresAt: card.voucherValidDays ? new Date(Date.now() + card.voucherValidDays * DAY_MS) : null,
+      }),
+    });
+    if (result && result.vouchers.length > 0) {
+      // Kept for the loyalty page, so a customer who was offline still sees the voucher
+      const codes = result.vouchers.map(voucher => voucher.code);
+      await storage.createCustomerNotification({
+        customerId: order.customerId,
+        type: "stamp_card_completed",
+        title: `${card.name} complete!`,
+        message: `Your free item ${codes.length === 1 ? "voucher" : "vouchers"}: ${codes.join(", ")}`,
+      });
+      emitEvent.stampCardCompleted({
+        customerId: order.customerId,
+        stampCardId: card.id,
+        cardName: card.name,
+        codes,
+      });
+    }
+  }
+}
+
+// Take back the stamps this order earned on every card (once per card)
+export async function reverseOrderStamps(order: Order) {
+  if (!order.customerId) return;
+  const transactions = await storage.getStampTransactions({ orderId: order.id });
+  const cardIds = Array.from(new Set(transactions.filter(t => t.transactionType === "earn").map(t => t.stampCardId)));
+  for (const cardId of cardIds) {
+    const card = await storage.getStampCard(cardId);
+    if (!card) continue;
+    await storage.reverseStamps(card, order.customerId, order.id, `Stamps taken back - order #${order.orderNumber} was ${order.status}`);
+  }
+}
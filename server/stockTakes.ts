@@ -0,0 +1,206 @@
+import { storage } from "./storage";
+import { roundMoney } from "@shared/pricing";
+import type { InsertStockTakeItem, StockTake, StockTakeCount } from "@shared/schema";
+
+// Stock takes - physical counts at a branch. Starting one freezes the expected (on hand)
+// quantity of every item in scope; staff enter what they counted, and posting books the
+// differences as adjustments. The variance report sets the value lost against recorded wastage.
+
+function stockTakeError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+export interface StockTakeInput {
+  branchId: string;
+  countType: "full" | "cycle";
+  ingredientCategory?: string | null;
+  menuCategoryId?: string | null;
+  notes?: string | null;
+}
+
+function generateTakeNumber() {
+  return `ST${Date.now()}${Math.floor(Math.random() * 100).toString().padStart(2, "0")}`;
+}
+
+export async function getStockTakeOrThrow(id: string): Promise<StockTake> {
+  const stockTake = await storage.getStockTake(id);
+  if (!stockTake) {
+    throw stockTakeError("Stock take not found", 404);
+  }
+  return stockTake;
+}
+
+async function getOpenStockTake(id: string): Promise<StockTake> {
+  const stockTake = await getStockTakeOrThrow(id);
+  if (stockTake.status !== "counting") {
+    throw stockTakeError(`Stock take is already ${stockTake.status}`, 400);
+  }
+  return stockTake;
+}
+
+// Full counts cover every active ingredient and stock-tracked menu item; cycle counts one
+// ingredient category and/or one menu category
+export async function startStockTake(input: StockTakeInput, createdBy: string) {
+  const branch = await storage.getBranch(input.branchId);
+  if (!branch) {
+    throw stockTakeError("Branch not found", 404);
+  }
+  const isCycle = input.countType === "cycle";
+  if (isCycle && !input.ingredientCategory && !input.menuCategoryId) {
+    throw stockTakeError("Choose a category to count", 400);
+  }
+
+  const open = await storage.getStockTakes(branch.id, "counting");
+  if (open.length > 0) {
+    throw stockTakeError(`Stock take ${open[0].takeNumber} is still being counted at this branch`, 409);
+  }
+
+  const [ingredients, menuItems, stockLevels] = await Promise.all([
+    storage.getAllIngredients(),
+    storage.getAllMenuItems(),
+    storage.getBranchStock(branch.id),
+  ]);
+  const level = (ref: { menuItemId?: string; ingredientId?: string }) =>
+    stockLevels.find(row => ref.ingredientId ? row.ingredientId === ref.ingredientId : row.menuItemId === ref.menuItemId);
+  // Lines are valued at the branch's average cost once it has one
+  const averageCost = (ref: { menuItemId?: string; ingredientId?: string }) => {
+    const cost = parseFloat(level(ref)?.averageCost || "0");
+    return cost > 0 ? cost : undefined;
+  };
+
+  const items: InsertStockTakeItem[] = [];
+  for (const ingredient of ingredients) {
+    if (!ingredient.isActive) continue;
+    if (isCycle && ingredient.category !== input.ingredientCategory) continue;
+    const ref = { ingredientId: ingredient.id };
+    items.push({
+      ingredientId: ingredient.id,
+      description: `${ingredient.name} (${ingredient.unit})`,
+      expectedQuantity: level(ref)?.onHand ?? 0,
+      unitCost: (averageCost(ref) ?? parseFloat(ingredient.costPerUnit)).toFixed(4),
+    });
+  }
+  for (const menuItem of menuItems) {
+    if (menuItem.stockQuantity === null) continue;
+    if (menuItem.branchId && menuItem.branchId !== branch.id) continue;
+    if (isCycle && (!input.menuCategoryId || menuItem.categoryId !== input.menuCategoryId)) continue;
+    const ref = { menuItemId: menuItem.id };
+    const unitCost = averageCost(ref) ?? await storage.getLastPurchaseUnitCost(ref);
+    items.push({
+      menuItemId: menuItem.id,
+      description: menuItem.name,
+      expectedQuantity: level(ref)?.onHand ?? 0,
+      unitCost: (unitCost ?? 0).toFixed(4),
+    });
+  }
+  if (items.length === 0) {
+    throw stockTakeError("There is nothing to count in that selection", 400);
+  }
+
+  return await storage.createStockTake({
+    takeNumber: generateTakeNumber(),
+    branchId: branch.id,
+    countType: isCycle ? "cycle" : "full",
+    ingredientCategory: isCycle ? input.ingredientCategory || null : null,
+    menuCategoryId: isCycle ? input.menuCategoryId || null : null,
+    notes: input.notes || null,
+    createdBy,
+  }, items);
+}
+
+export async function recordStockTakeCounts(id: string, counts: StockTakeCount[], countedBy: string) {
+  await getOpenStockTake(id);
+  const items = await storage.getStockTakeItems(id);
+  for (const count of counts) {
+    if (!items.some(item => item.id === count.stockTakeItemId)) {
+      throw stockTakeError("Line is not on this stock take", 400);
+    }
+  }
+  return await storage.recordStockTakeCounts(id, counts, countedBy);
+}
+
+export async function postStockTake(id: string, postedBy: string) {
+  await getOpenStockTake(id);
+  const items = await storage.getStockTakeItems(id);
+  if (!items.some(item => item.countedQuantity !== null)) {
+    throw stockTakeError("Enter at least one counted quantity before posting", 400);
+  }
+  try {
+    return await storage.postStockTake(id, postedBy);
+  } catch (error: any) {
+    throw stockTakeError(error.message, 409);
+  }
+}
+
+export async function cancelStockTake(id: string) {
+  const stockTake = await getStockTakeOrThrow(id);
+  const updated = await storage.transitionStockTake(id, ["counting"], {
+    status: "cancelled",
+    cancelledAt: new Date(),
+  });
+  if (!updated) {
+    throw stockTakeError(`Cannot cancel a ${stockTake.status} stock take`, 400);
+  }
+  return updated;
+}
+
+export async function getStockTakeDetail(id: string) {
+  const stockTake = await getStockTakeOrThrow(id);
+  const items = await storage.getStockTakeItems(id);
+  return {
+    ...stockTake,
+    items,
+    countedLines: items.filter(item => item.countedQuantity !== null).length,
+  };
+}
+
+// Posted count variances and recorded wastage over a period. Losses are shown as positive values.
+export async function getVarianceReport(branchId: string | null, startDate: Date, endDate: Date) {
+  const [lines, wastage] = await Promise.all([
+    storage.getPostedStockTakeItems(branchId, startDate, endDate),
+    storage.getStockWastageBetween(branchId, startDate, endDate),
+  ]);
+
+  // One row per item across all stock takes in the period
+  const byItem = new Map<string, { description: string; menuItemId: string | null; ingredientId: string | null; variance: number; varianceValue: number; counts: number }>();
+  for (const { item } of lines) {
+    if (item.variance === null) continue;
+    const key = item.ingredientId ? `ingredient:${item.ingredientId}` : `menu:${item.menuItemId}`;
+    const row = byItem.get(key) || {
+      description: item.description,
+      menuItemId: item.menuItemId,
+      ingredientId: item.ingredientId,
+      variance: 0,
+      varianceValue: 0,
+      counts: 0,
+    };
+    row.variance += item.variance;
+    row.varianceValue = roundMoney(row.varianceValue + parseFloat(item.varianceValue || "0"));
+    row.counts++;
+    byItem.set(key, row);
+  }
+  const items = Array.from(byItem.values()).sort((a, b) => a.varianceValue - b.varianceValue);
+
+  const stockTakes = new Map(lines.map(({ stockTake }) => [stockTake.id, stockTake]));
+  const countLoss = roundMoney(items.filter(i => i.varianceValue < 0).reduce((sum, i) => sum - i.varianceValue, 0));
+  const countGain = roundMoney(items.filter(i => i.varianceValue > 0).reduce((sum, i) => sum + i.varianceValue, 0));
+  const wastageValue = roundMoney(wastage.reduce((sum, w) => sum + parseFloat(w.estimatedCost || "0"), 0));
+
+  return {
+    startDate,
+    endDate,
+    stockTakes: Array.from(stockTakes.values()),
+    items,
+    wastage,
+    summary: {
+      countLoss,
+      countGain,
+      netCountVariance: roundMoney(countGain - countLoss),
+      wastageValue,
+      wastageQuantity: wastage.reduce((sum, w) => sum + w.quantity, 0),
+      totalLoss: roundMoney(countLoss - countGain + wastageValue),
+    },
+  };
+}
@@ -1,7 +1,157 @@
 import * as schema from "@shared/schema";
-import { eq, like, and, desc, lt, gte, lte, or, sql as drizzleSql } from "drizzle-orm";
+import { eq, like, and, desc, asc, lt, gte, lte, or, isNull, inArray, sql as drizzleSql } from "drizzle-orm";
 import { db } from "./db";
 import { emitEvent } from "./websocket";
+import { amountsMatch, resolveMenuItemId, roundMoney } from "@shared/pricing";
+
+// Either the shared db handle or an open transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Side effect to record in the outbox alongside an order change
+export type OutboxEventInput = Pick<schema.InsertOutboxEvent, "eventType" | "payload" | "maxAttempts">;
+
+// Inventory transaction to record; balanceAfter is worked out from the branch's stock level
+export type NewInventoryTransaction = Omit<schema.InsertInventoryTransaction, "balanceAfter">;
+
+export type StockReservationLine = schema.StockItemRef & { quantity: number };
+
+// Points added to or taken off a customer's balance, with the ledger entry recording it
+export interface LoyaltyPointsChange {
+  customerId: string;
+  orderId?: string | null;
+  transactionType: string;
+  points: number; // Added to the available balance (negative takes off, never below zero)
+  lifetimeEarned?: number; // Added to lifetime earned (never below zero)
+  describe: (points: number) => string; // Description for the points actually moved
+  expiresAt?: Date | null;
+}
+
+// The referral a signup with an invite code records - the referee is the account being created
+export type NewReferral = Omit<schema.InsertReferral, "refereeId">;
+
+// Loyalty points put towards an order - recorded as its "loyalty_points" payment
+export interface PointsTender {
+  customerId: string;
+  points: number;
+  amount: string;
+  receivedBy?: string | null;
+}
+
+// Store credit put towards an order - recorded as its "store_credit" payment
+export interface StoreCreditTender {
+  customerId: string;
+  amount: string;
+  receivedBy?: string | null;
+}
+
+// A gift card put towards an order - recorded as its "gift_card" payment
+export interface GiftCardTender {
+  giftCardId: string;
+  amount: string;
+  receivedBy?: string | null;
+}
+
+// Points, store credit and gift cards paid on an order
+export interface OrderTenders {
+  pointsTender?: PointsTender;
+  storeCreditTender?: StoreCreditTender;
+  giftCardTender?: GiftCardTender;
+}
+
+// Loyalty and stored value spent on a new order - tenders paid and reward vouchers used, committed with the order
+export interface OrderRedemptions extends OrderTenders {
+  rewardClaimIds?: string[];
+}
+
+// Stored value going back after a cancellation (restore) or a refund made to it
+export interface StoredValueReturn {
+  transactionType: "restore" | "refund";
+  reason: string;
+  refundId?: string | null;
+  performedBy?: string | null;
+}
+
+// A refund, the order lines it covers and where the money goes. Store credit refunds are paid into
+// the customer's wallet and gift card refunds go back onto the cards that paid; a full refund gives
+// back every point paid, a refund made in points the pointsShare behind it. payOut sends a card
+// refund through Stripe and returns its id.
+export interface OrderRefund {
+  refund: schema.InsertRefund;
+  lines: Array<Omit<schema.InsertRefundItem, "refundId">>;
+  storeCreditCustomerId?: string | null;
+  pointsShare?: number;
+  payOut?: (refund: schema.Refund) => Promise<string>;
+}
+
+export interface LoyaltyRewardClaimFilters {
+  customerId?: string;
+  rewardId?: string;
+  orderId?: string;
+}
+
+// Stamps from one order on one card. issueVoucher builds the voucher for each card the stamps fill.
+export interface StampEarning {
+  card: schema.StampCard;
+  customerId: string;
+  orderId: string;
+  stamps: number;
+  description: string;
+  issueVoucher: () => Pick<schema.InsertLoyaltyRewardClaim, "code" | "expiresAt">;
+}
+
+// Rewards for both sides of a referral, granted together once the referee qualifies
+export interface ReferralRewardGrant {
+  rewardType: schema.ReferralRewardType;
+  referrerPoints: number;
+  refereePoints: number;
+  referrerPromo?: schema.InsertPromoCode;
+  refereePromo?: schema.InsertPromoCode;
+  rewardCost: string;
+  pointsExpireAt: Date | null;
+  referrerDescription: string;
+  refereeDescription: string;
+  notifications: schema.InsertCustomerNotification[]; // Written with the rewards
+}
+
+// A finished menu item or an ingredient whose available stock at a branch is at or below its reorder level
+export interface LowStockItem {
+  menuItem?: schema.MenuItem;
+  ingredient?: schema.Ingredient;
+  onHand: number;
+  reserved: number;
+  currentStock: number; // Available
+  reorderLevel: number;
+  reorderQuantity: number;
+  preferredSupplierId: string | null;
+}
+
+export interface PurchaseOrderFilters {
+  branchId?: string;
+  supplierId?: string;
+  status?: string;
+}
+
+// A delivery against a purchase order and the supplier payable it adds to
+export interface GoodsReceipt {
+  grnNumber: string;
+  receivedBy: string;
+  supplierReference?: string;
+  notes?: string;
+  lines: Array<schema.GoodsReceiptLine & { unitCost: number }>;
+  payable: Pick<schema.InsertExpense, "category" | "description" | "dueDate">;
+}
+
+export interface StockBatchFilters {
+  branchId?: string;
+  item?: schema.StockItemRef;
+  statuses?: string[];
+  expiresBefore?: Date; // Batches with an expiry date before this
+}
+
+export interface StockTransferFilters {
+  branchId?: string; // Either end of the transfer
+  status?: string;
+}
 
 // Storage interface with all CRUD operations
 export interface IStorage {
@@ -9,8 +159,11 @@ export interface IStorage {
   getUser(id: string): Promise<schema.User | undefined>;
   getUserByUsername(username: string): Promise<schema.User | undefined>;
   getUserByEmail(email: string): Promise<schema.User | undefined>;
+  getCustomerByPhone(phone: string): Promise<schema.User | undefined>;
+  getUserByReferralCode(code: string): Promise<schema.User | undefined>;
+  setUserReferralCode(id: string, code: string): Promise<schema.User | undefined>;
   getAllUsers(): Promise<schema.User[]>;
-  createUser(user: schema.InsertUser): Promise<schema.User>;
+  createUser(user: schema.InsertUser, referral?: NewReferral | null): Promise<schema.User>;
   updateUser(id: string, user: Partial<schema.InsertUser>): Promise<schema.User | undefined>;
   deleteUser(id: string): Promise<boolean>;
 
@@ -42,11 +195,31 @@ export interface IStorage {
   getAllOrders(): Promise<schema.Order[]>;
   getOrder(id: string): Promise<schema.Order | undefined>;
   getOrdersByBranch(branchId: string): Promise<schema.Order[]>;
+  getOrdersByCustomer(customerId: string): Promise<schema.Order[]>;
   getOrdersByStatus(status: string): Promise<schema.Order[]>;
-  createOrder(order: schema.InsertOrder): Promise<schema.Order>;
+  createOrder(order: schema.InsertOrder, sideEffects?: OutboxEventInput[], redemptions?: OrderRedemptions): Promise<schema.Order>;
   updateOrder(id: string, order: Partial<schema.InsertOrder>): Promise<schema.Order | undefined>;
+  transitionOrder(id: string, fromStatus: string, toStatus: string, modification: Omit<schema.InsertOrderModification, "orderId">, sideEffects?: OutboxEventInput[], changes?: Partial<schema.InsertOrder>): Promise<schema.Order | undefined>;
+  getUnacceptedOrders(branchId?: string): Promise<schema.Order[]>;
+  markOrderEscalated(id: string, escalatedAt: Date): Promise<schema.Order | undefined>;
   deleteOrder(id: string): Promise<boolean>;
 
+  // Order Items
+  getOrderItems(orderId: string): Promise<schema.OrderItem[]>;
+  getOrderItemsByOrderIds(orderIds: string[]): Promise<schema.OrderItem[]>;
+  getOrderItem(id: string): Promise<schema.OrderItem | undefined>;
+  updateOrderItem(id: string, item: Partial<schema.InsertOrderItem>): Promise<schema.OrderItem | undefined>;
+  syncOrderItems(order: schema.Order): Promise<schema.OrderItem[]>;
+
+  // Outbox
+  getOutboxEvents(filters?: { status?: string; aggregateId?: string }): Promise<schema.OutboxEvent[]>;
+  getOutboxEvent(id: string): Promise<schema.OutboxEvent | undefined>;
+  getOutboxStats(): Promise<Record<string, number>>;
+  claimOutboxEvents(limit: number, staleBefore: Date): Promise<schema.OutboxEvent[]>;
+  completeOutboxEvent(id: string): Promise<void>;
+  failOutboxEvent(id: string, error: string, retryAt: Date | null): Promise<void>;
+  replayOutboxEvent(id: string): Promise<schema.OutboxEvent | undefined>;
+
   // Expenses
   getAllExpenses(): Promise<schema.Expense[]>;
   getExpense(id: string): Promise<schema.Expense | undefined>;
@@ -80,13 +253,23 @@ export interface IStorage {
   createPosSession(session: schema.InsertPosSession): Promise<schema.PosSession>;
   updatePosSession(id: string, session: Partial<schema.InsertPosSession>): Promise<schema.PosSession | undefined>;
 
+  // Kitchen Stations
+  getAllKitchenStations(): Promise<schema.KitchenStation[]>;
+  getKitchenStation(id: string): Promise<schema.KitchenStation | undefined>;
+  createKitchenStation(station: schema.InsertKitchenStation): Promise<schema.KitchenStation>;
+  updateKitchenStation(id: string, station: Partial<schema.InsertKitchenStation>): Promise<schema.KitchenStation | undefined>;
+  deleteKitchenStation(id: string): Promise<boolean>;
+
   // Kitchen Tickets
   getAllKitchenTickets(): Promise<schema.KitchenTicket[]>;
   getKitchenTicket(id: string): Promise<schema.KitchenTicket | undefined>;
   getKitchenTicketsByOrder(orderId: string): Promise<schema.KitchenTicket[]>;
+  getKitchenTickets(filters: { branchId?: string; stationId?: string; statuses?: string[]; from?: Date; to?: Date }): Promise<schema.KitchenTicket[]>;
+  createKitchenTicketForLines(ticket: schema.InsertKitchenTicket, orderItemIds: string[]): Promise<schema.KitchenTicket>;
   getKitchenTicketsByStatus(status: string): Promise<schema.KitchenTicket[]>;
   createKitchenTicket(ticket: schema.InsertKitchenTicket): Promise<schema.KitchenTicket>;
   updateKitchenTicket(id: string, ticket: Partial<schema.InsertKitchenTicket>): Promise<schema.KitchenTicket | undefined>;
+  markKitchenTicketSlaBreached(id: string, breachedAt: Date): Promise<schema.KitchenTicket | undefined>;
 
   // Payments
   getAllPayments(): Promise<schema.Payment[]>;
@@ -137,15 +320,25 @@ export interface IStorage {
   getAllPromoCodes(): Promise<schema.PromoCode[]>;
   getPromoCode(id: string): Promise<schema.PromoCode | undefined>;
   getPromoCodeByCode(code: string): Promise<schema.PromoCode | undefined>;
+  getAutomaticPromoCodes(): Promise<schema.PromoCode[]>;
   createPromoCode(promoCode: schema.InsertPromoCode): Promise<schema.PromoCode>;
   updatePromoCode(id: string, promoCode: Partial<schema.InsertPromoCode>): Promise<schema.PromoCode | undefined>;
   deletePromoCode(id: string): Promise<boolean>;
-  incrementPromoCodeUsage(id: string): Promise<void>;
+
+  // Promo Code Batches
+  getPromoCodeBatches(): Promise<schema.PromoCodeBatch[]>;
+  getPromoCodeBatch(id: string): Promise<schema.PromoCodeBatch | undefined>;
+  getPromoCodesByBatch(batchId: string): Promise<schema.PromoCode[]>;
+  getPromoCodesWithPrefix(prefix: string): Promise<string[]>;
+  createPromoCodeBatch(batch: schema.InsertPromoCodeBatch, codes: schema.InsertPromoCode[]): Promise<{ batch: schema.PromoCodeBatch; codes: schema.PromoCode[] }>;
+  voidUnusedBatchCodes(batchId: string): Promise<number>;
 
   // Promo Code Usage
   getPromoCodeUsage(promoCodeId: string): Promise<schema.PromoCodeUsage[]>;
+  getPromoCodeUsageByBatch(batchId: string): Promise<schema.PromoCodeUsage[]>;
   getUserPromoCodeUsageCount(promoCodeId: string, userId: string): Promise<number>;
-  createPromoCodeUsage(usage: schema.InsertPromoCodeUsage): Promise<schema.PromoCodeUsage>;
+  getPromoCodeUsageByOrder(orderId: string): Promise<schema.PromoCodeUsage[]>;
+  recordPromoCodeUsage(usage: schema.InsertPromoCodeUsage): Promise<schema.PromoCodeUsage | null>;
 
   // Delivery Charges Configuration
   getDeliveryChargesConfig(branchId: string): Promise<schema.DeliveryChargesConfig | undefined>;
@@ -154,6 +347,13 @@ export interface IStorage {
   updateDeliveryChargesConfig(branchId: string, config: Partial<schema.InsertDeliveryChargesConfig>): Promise<schema.DeliveryChargesConfig | undefined>;
   deleteDeliveryChargesConfig(branchId: string): Promise<boolean>;
 
+  // System Settings
+  getSystemSettings(branchId: string | null): Promise<schema.SystemSettings | undefined>;
+  getAllSystemSettings(): Promise<schema.SystemSettings[]>;
+  getEffectiveSystemSettings(branchId?: string | null): Promise<schema.SystemSettingsValues>;
+  saveSystemSettings(branchId: string | null, settings: Partial<schema.SystemSettingsValues>, updatedBy?: string): Promise<schema.SystemSettings>;
+  deleteSystemSettings(branchId: string): Promise<boolean>;
+
   // Variant Groups
   getAllVariantGroups(): Promise<schema.VariantGroup[]>;
   getVariantGroup(id: string): Promise<schema.VariantGroup | undefined>;
@@ -194,14 +394,76 @@ export interface IStorage {
   createOrUpdateLoyaltyPoints(customerId: string, points: Partial<schema.InsertLoyaltyPoints>): Promise<schema.LoyaltyPoints>;
   getLoyaltyTransactions(customerId: string): Promise<schema.LoyaltyTransaction[]>;
   createLoyaltyTransaction(transaction: schema.InsertLoyaltyTransaction): Promise<schema.LoyaltyTransaction>;
-  calculateEarnedPoints(orderTotal: number): Promise<number>;
+  changeLoyaltyPoints(change: LoyaltyPointsChange): Promise<number>;
+  calculateEarnedPoints(orderTotal: number, branchId?: string | null): Promise<number>;
+  getAllLoyaltyPoints(): Promise<schema.LoyaltyPoints[]>;
+  getCustomerOrderActivity(customerId: string, since: Date): Promise<{ orderCount: number; totalSpent: number }>;
+  getCustomerIdsWithPointsExpiringBefore(before: Date): Promise<string[]>;
+  markLoyaltyExpiryWarned(transactionIds: string[]): Promise<void>;
+  getLoyaltyTransactionsByOrder(orderId: string): Promise<schema.LoyaltyTransaction[]>;
+  createCustomerNotification(notification: schema.InsertCustomerNotification): Promise<schema.CustomerNotification>;
+  getUnreadCustomerNotifications(customerId: string): Promise<schema.CustomerNotification[]>;
+  markCustomerNotificationRead(id: string, customerId: string): Promise<schema.CustomerNotification | undefined>;
+  payOrderWithTenders(orderId: string, tenders: OrderTenders, changes: Partial<schema.InsertOrder>): Promise<schema.Order | undefined>;
+  restoreRedeemedPoints(orderId: string, points: number | null, reason: string): Promise<number>;
+
+  // Loyalty Tiers
+  getLoyaltyTiers(): Promise<schema.LoyaltyTier[]>;
+  replaceLoyaltyTiers(tiers: schema.InsertLoyaltyTier[]): Promise<schema.LoyaltyTier[]>;
+
+  // Loyalty Rewards
+  getLoyaltyRewards(): Promise<schema.LoyaltyReward[]>;
+  getLoyaltyReward(id: string): Promise<schema.LoyaltyReward | undefined>;
+  createLoyaltyReward(reward: schema.InsertLoyaltyReward): Promise<schema.LoyaltyReward>;
+  updateLoyaltyReward(id: string, reward: Partial<schema.InsertLoyaltyReward>): Promise<schema.LoyaltyReward | undefined>;
+  getLoyaltyRewardClaims(filters?: LoyaltyRewardClaimFilters): Promise<schema.LoyaltyRewardClaim[]>;
+  getLoyaltyRewardClaimByCode(code: string): Promise<schema.LoyaltyRewardClaim | undefined>;
+  claimLoyaltyReward(claim: schema.InsertLoyaltyRewardClaim & { rewardId: string }, rewardName: string): Promise<schema.LoyaltyRewardClaim>;
+  releaseLoyaltyRewardClaims(orderId: string): Promise<schema.LoyaltyRewardClaim[]>;
+
+  // Stamp Cards
+  getStampCards(): Promise<schema.StampCard[]>;
+  getStampCard(id: string): Promise<schema.StampCard | undefined>;
+  createStampCard(card: schema.InsertStampCard): Promise<schema.StampCard>;
+  updateStampCard(id: string, card: Partial<schema.InsertStampCard>): Promise<schema.StampCard | undefined>;
+  getCustomerStamps(customerId: string): Promise<schema.CustomerStamps[]>;
+  getStampTransactions(filters: { customerId?: string; orderId?: string }): Promise<schema.StampTransaction[]>;
+  earnStamps(earning: StampEarning): Promise<{ progress: schema.CustomerStamps; vouchers: schema.LoyaltyRewardClaim[] } | null>;
+  reverseStamps(card: schema.StampCard, customerId: string, orderId: string, description: string): Promise<schema.StampTransaction | null>;
+
+  // Referrals
+  createReferral(referral: schema.InsertReferral): Promise<schema.Referral>;
+  getReferrals(filters?: { referrerId?: string; status?: string }): Promise<schema.Referral[]>;
+  getReferralByReferee(refereeId: string): Promise<schema.Referral | undefined>;
+  rejectReferral(id: string, reason: string, orderId?: string | null): Promise<schema.Referral | undefined>;
+  rewardReferral(id: string, orderId: string, grant: ReferralRewardGrant): Promise<schema.Referral | undefined>;
+
+  // Gift Cards
+  getGiftCards(filters?: { status?: string; search?: string }): Promise<schema.GiftCard[]>;
+  getGiftCard(id: string): Promise<schema.GiftCard | undefined>;
+  getGiftCardByCode(code: string): Promise<schema.GiftCard | undefined>;
+  createGiftCard(card: schema.InsertGiftCard, performedBy: string | null): Promise<schema.GiftCard>;
+  updateGiftCard(id: string, card: Partial<schema.InsertGiftCard>): Promise<schema.GiftCard | undefined>;
+  activateGiftCard(id: string, paymentReference: string | null): Promise<schema.GiftCard | undefined>;
+  voidGiftCard(id: string, reason: string, performedBy: string): Promise<schema.GiftCard | undefined>;
+  getGiftCardTransactions(filters: { giftCardId?: string; orderId?: string }): Promise<schema.GiftCardTransaction[]>;
+  returnGiftCardTenders(orderId: string, amount: number | null, entry: StoredValueReturn): Promise<number>;
+
+  // Store Credit
+  getStoreCreditAccount(customerId: string): Promise<schema.StoreCreditAccount | undefined>;
+  getStoreCreditTransactions(filters: { customerId?: string; orderId?: string }): Promise<schema.StoreCreditTransaction[]>;
+  adjustStoreCredit(customerId: string, amount: number, description: string, performedBy: string): Promise<schema.StoreCreditTransaction>;
+  returnStoreCreditTender(orderId: string, amount: number | null, entry: StoredValueReturn): Promise<number>;
   
   // Refunds
   getRefund(id: string): Promise<schema.Refund | undefined>;
   getRefundsByOrder(orderId: string): Promise<schema.Refund[]>;
   getAllRefunds(): Promise<schema.Refund[]>;
   createRefund(refund: schema.InsertRefund): Promise<schema.Refund>;
+  createOrderRefund(request: OrderRefund): Promise<schema.Refund>;
   updateRefund(id: string, refund: Partial<schema.InsertRefund>): Promise<schema.Refund | undefined>;
+  getRefundItems(refundId: string): Promise<schema.RefundItem[]>;
+  createRefundItem(item: schema.InsertRefundItem): Promise<schema.RefundItem>;
 
   // Suppliers
   getAllSuppliers(): Promise<schema.Supplier[]>;
@@ -210,15 +472,60 @@ export interface IStorage {
   updateSupplier(id: string, supplier: Partial<schema.InsertSupplier>): Promise<schema.Supplier | undefined>;
   deleteSupplier(id: string): Promise<boolean>;
 
+  // Ingredients
+  getAllIngredients(): Promise<schema.Ingredient[]>;
+  getIngredient(id: string): Promise<schema.Ingredient | undefined>;
+  createIngredient(ingredient: schema.InsertIngredient): Promise<schema.Ingredient>;
+  updateIngredient(id: string, ingredient: Partial<schema.InsertIngredient>): Promise<schema.Ingredient | undefined>;
+  deleteIngredient(id: string): Promise<boolean>;
+
+  // Recipes
+  getAllRecipeItems(): Promise<schema.RecipeItem[]>;
+  getRecipeItem(id: string): Promise<schema.RecipeItem | undefined>;
+  getRecipeItemsByMenuItem(menuItemId: string): Promise<schema.RecipeItem[]>;
+  createRecipeItem(item: schema.InsertRecipeItem): Promise<schema.RecipeItem>;
+  updateRecipeItem(id: string, item: Partial<schema.InsertRecipeItem>): Promise<schema.RecipeItem | undefined>;
+  deleteRecipeItem(id: string): Promise<boolean>;
+
   // Inventory Transactions
   getInventoryTransactions(menuItemId: string, branchId: string): Promise<schema.InventoryTransaction[]>;
   getAllInventoryTransactions(): Promise<schema.InventoryTransaction[]>;
   getInventoryTransactionsByBranch(branchId: string): Promise<schema.InventoryTransaction[]>;
-  createInventoryTransaction(transaction: schema.InsertInventoryTransaction): Promise<schema.InventoryTransaction>;
+  getInventoryTransactionsByOrder(orderId: string): Promise<schema.InventoryTransaction[]>;
+  getInventoryTransactionsByOrderIds(orderIds: string[]): Promise<schema.InventoryTransaction[]>;
+  getInventoryTransactionsBetween(branchId: string | null, startDate: Date, endDate: Date, transactionTypes: string[]): Promise<schema.InventoryTransaction[]>;
+  createInventoryTransaction(transaction: NewInventoryTransaction, batch?: schema.StockBatchInput): Promise<schema.InventoryTransaction>;
+
+  // Branch Stock
+  getBranchStock(branchId: string): Promise<schema.BranchStock[]>;
+  getBranchStockLevel(branchId: string, item: schema.StockItemRef): Promise<schema.BranchStock | undefined>;
+
+  // Stock Reservations
+  getStockReservationsByOrder(orderId: string): Promise<schema.StockReservation[]>;
+  reserveOrderStock(orderId: string, branchId: string, lines: StockReservationLine[]): Promise<schema.StockReservation[]>;
+  consumeStockReservation(id: string, sale: Omit<NewInventoryTransaction, "branchId" | "menuItemId" | "ingredientId" | "quantity" | "transactionType">): Promise<schema.InventoryTransaction | undefined>;
+  releaseStockReservation(id: string): Promise<schema.StockReservation | undefined>;
   
   // Stock Wastage
   getStockWastage(branchId: string): Promise<schema.StockWastage[]>;
   createStockWastage(wastage: schema.InsertStockWastage): Promise<schema.StockWastage>;
+
+  // Stock Batches
+  getStockBatches(filters: StockBatchFilters): Promise<schema.StockBatch[]>;
+  getStockBatch(id: string): Promise<schema.StockBatch | undefined>;
+  writeOffStockBatch(id: string, reportedBy: string | null, reason: string): Promise<schema.StockWastage | undefined>;
+
+  // Stock Takes
+  getStockTakes(branchId?: string, status?: string): Promise<schema.StockTake[]>;
+  getStockTake(id: string): Promise<schema.StockTake | undefined>;
+  getStockTakeItems(stockTakeId: string): Promise<schema.StockTakeItem[]>;
+  createStockTake(stockTake: schema.InsertStockTake, items: schema.InsertStockTakeItem[]): Promise<schema.StockTake>;
+  recordStockTakeCounts(stockTakeId: string, counts: schema.StockTakeCount[], countedBy: string): Promise<schema.StockTakeItem[]>;
+  transitionStockTake(id: string, fromStatuses: string[], changes: Partial<schema.InsertStockTake>): Promise<schema.StockTake | undefined>;
+  postStockTake(id: string, postedBy: string): Promise<schema.StockTake>;
+  getPostedStockTakeItems(branchId: string | null, startDate: Date, endDate: Date): Promise<Array<{ item: schema.StockTakeItem; stockTake: schema.StockTake }>>;
+  getStockWastageBetween(branchId: string | null, startDate: Date, endDate: Date): Promise<schema.StockWastage[]>;
+  getLastPurchaseUnitCost(item: schema.StockItemRef): Promise<number | undefined>;
   
   // Reorder Points
   getReorderPoints(branchId: string): Promise<schema.ReorderPoint[]>;
@@ -226,7 +533,32 @@ export interface IStorage {
   createReorderPoint(point: schema.InsertReorderPoint): Promise<schema.ReorderPoint>;
   updateReorderPoint(id: string, point: Partial<schema.InsertReorderPoint>): Promise<schema.ReorderPoint | undefined>;
   deleteReorderPoint(id: string): Promise<boolean>;
-  checkLowStock(branchId: string): Promise<Array<{menuItem: schema.MenuItem, currentStock: number, reorderLevel: number}>>;
+  checkLowStock(branchId: string): Promise<LowStockItem[]>;
+
+  // Purchase Orders
+  getPurchaseOrders(filters?: PurchaseOrderFilters): Promise<schema.PurchaseOrder[]>;
+  getPurchaseOrder(id: string): Promise<schema.PurchaseOrder | undefined>;
+  getPurchaseOrderItems(purchaseOrderId: string): Promise<schema.PurchaseOrderItem[]>;
+  getOpenPurchaseOrderItems(branchId: string): Promise<schema.PurchaseOrderItem[]>;
+  createPurchaseOrder(purchaseOrder: schema.InsertPurchaseOrder, items: schema.InsertPurchaseOrderItem[]): Promise<schema.PurchaseOrder>;
+  updatePurchaseOrder(id: string, purchaseOrder: Partial<schema.InsertPurchaseOrder>): Promise<schema.PurchaseOrder | undefined>;
+  transitionPurchaseOrder(id: string, fromStatuses: string[], changes: Partial<schema.InsertPurchaseOrder>): Promise<schema.PurchaseOrder | undefined>;
+  addPurchaseOrderItems(purchaseOrderId: string, items: schema.InsertPurchaseOrderItem[]): Promise<schema.PurchaseOrderItem[]>;
+  updatePurchaseOrderItem(id: string, item: Partial<schema.InsertPurchaseOrderItem>): Promise<schema.PurchaseOrderItem | undefined>;
+  deletePurchaseOrderItem(id: string): Promise<boolean>;
+  getGoodsReceivedNotes(purchaseOrderId: string): Promise<schema.GoodsReceivedNote[]>;
+  getGoodsReceivedNoteItems(goodsReceivedNoteIds: string[]): Promise<schema.GoodsReceivedNoteItem[]>;
+  receivePurchaseOrder(id: string, receipt: GoodsReceipt): Promise<{ purchaseOrder: schema.PurchaseOrder; goodsReceivedNote: schema.GoodsReceivedNote }>;
+  getPurchaseOrderPayable(purchaseOrderId: string): Promise<schema.Expense | undefined>;
+
+  // Stock Transfers
+  getStockTransfers(filters?: StockTransferFilters): Promise<schema.StockTransfer[]>;
+  getStockTransfer(id: string): Promise<schema.StockTransfer | undefined>;
+  getStockTransferItems(stockTransferId: string): Promise<schema.StockTransferItem[]>;
+  createStockTransfer(transfer: schema.InsertStockTransfer, items: schema.InsertStockTransferItem[]): Promise<schema.StockTransfer>;
+  transitionStockTransfer(id: string, fromStatuses: string[], changes: Partial<schema.InsertStockTransfer>): Promise<schema.StockTransfer | undefined>;
+  dispatchStockTransfer(id: string, dispatchedBy: string): Promise<schema.StockTransfer>;
+  receiveStockTransfer(id: string, receivedBy: string, lines: schema.StockTransferReceiptLine[]): Promise<schema.StockTransfer>;
 
   // Staff Shifts
   getAllStaffShifts(): Promise<schema.StaffShift[]>;
@@ -311,6 +643,38 @@ export interface IStorage {
   getCustomersForSegment(filters: any): Promise<schema.User[]>;
 }
 
+// Build order_items rows from an orders.items JSON blob (any client line format)
+function parseOrderItemRows(orderId: string, items: string): schema.InsertOrderItem[] {
+  let lines: any[] = [];
+  try {
+    const parsed = JSON.parse(items);
+    lines = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+
+  return lines
+    .filter(line => line && typeof line === "object")
+    .map((line, index) => {
+      const quantity = Math.max(1, parseInt(line.quantity) || 1);
+      const unitPrice = parseFloat(line.price) || 0;
+      const lineDiscount = parseFloat(line.lineDiscount) || 0;
+      return {
+        orderId,
+        menuItemId: resolveMenuItemId(line),
+        name: line.name || "Unknown item",
+        variantOptions: Array.isArray(line.variants) ? line.variants : [],
+        unitPrice: unitPrice.toFixed(2),
+        quantity,
+        lineDiscount: lineDiscount.toFixed(2),
+        lineTotal: roundMoney(unitPrice * quantity - lineDiscount).toFixed(2),
+        notes: line.specialInstructions || line.instructions || null,
+        kitchenStation: line.kitchenStation || null,
+        lineNumber: index + 1,
+      };
+    });
+}
+
 export class DbStorage implements IStorage {
   // Users
   async getUser(id: string) {
@@ -328,15 +692,47 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async getCustomerByPhone(phone: string) {
+    const result = await db.select().from(schema.users)
+      .where(and(
+        eq(schema.users.phone, phone),
+        eq(schema.users.role, "customer"),
+        eq(schema.users.isDeleted, false)
+      ))
+      .orderBy(asc(schema.users.createdAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async getUserByReferralCode(code: string) {
+    const result = await db.select().from(schema.users).where(eq(schema.users.referralCode, code));
+    return result[0];
+  }
+
+  // Only issued once - a user who already has a code keeps it
+  async setUserReferralCode(id: string, code: string) {
+    const result = await db.update(schema.users)
+      .set({ referralCode: code })
+      .where(and(eq(schema.users.id, id), isNull(schema.users.referralCode)))
+      .returning();
+    return result[0];
+  }
+
   async getAllUsers() {
     return await db.select().from(schema.users)
       .where(eq(schema.users.isDeleted, false))
       .orderBy(desc(schema.users.createdAt));
   }
 
-  async createUser(user: schema.InsertUser) {
-    const result = await db.insert(schema.users).values(user).returning();
-    return result[0];
+  // A signup with an invite code creates the account and its referral together
+  async createUser(user: schema.InsertUser, referral?: NewReferral | null) {
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(schema.users).values(user).returning();
+      if (referral) {
+        await tx.insert(schema.referrals).values({ ...referral, refereeId: result[0].id });
+      }
+      return result[0];
+    });
   }
 
   async updateUser(id: string, user: Partial<schema.InsertUser>) {
@@ -456,20 +852,12 @@ export class DbStorage implements IStorage {
         )
       );
     
-    // Count item occurrences by parsing JSON items
+    // Count quantities sold per menu item from the order lines
     const itemCounts = new Map<string, number>();
-    
-    for (const order of orders) {
-      try {
-        const items = JSON.parse(order.items);
-        if (Array.isArray(items)) {
-          for (const item of items) {
-            const count = itemCounts.get(item.itemId) || 0;
-            itemCounts.set(item.itemId, count + (item.quantity || 1));
-          }
-        }
-      } catch (e) {
-        console.error("Error parsing order items:", e);
+    const lines = await this.getOrderItemsByOrderIds(orders.map(order => order.id));
+    for (const line of lines) {
+      if (line.menuItemId) {
+        itemCounts.set(line.menuItemId, (itemCounts.get(line.menuItemId) || 0) + line.quantity);
       }
     }
     
@@ -501,31 +889,229 @@ export class DbStorage implements IStorage {
     return await db.select().from(schema.orders).where(eq(schema.orders.branchId, branchId)).orderBy(desc(schema.orders.createdAt));
   }
 
+  async getOrdersByCustomer(customerId: string) {
+    return await db.select().from(schema.orders).where(eq(schema.orders.customerId, customerId)).orderBy(desc(schema.orders.createdAt));
+  }
+
   async getOrdersByStatus(status: string) {
     return await db.select().from(schema.orders).where(eq(schema.orders.status, status)).orderBy(desc(schema.orders.createdAt));
   }
 
-  async createOrder(order: schema.InsertOrder) {
-    const result = await db.insert(schema.orders).values(order).returning();
-    const createdOrder = result[0];
+  async createOrder(order: schema.InsertOrder, sideEffects: OutboxEventInput[] = [], redemptions: OrderRedemptions = {}) {
+    // Order, line items, tenders paid, vouchers used and outbox entries commit (or fail) together
+    const createdOrder = await db.transaction(async (tx) => {
+      const result = await tx.insert(schema.orders).values(order).returning();
+      const created = result[0];
+      await this.syncOrderItems(created, tx);
+      await this.redeemTenders(tx, created, redemptions);
+      if (redemptions.rewardClaimIds && redemptions.rewardClaimIds.length > 0) {
+        await this.useRewardClaims(tx, created, redemptions.rewardClaimIds);
+      }
+      await this.insertOutboxEvents(tx, created.id, sideEffects);
+      return created;
+    });
     emitEvent.orderCreated(createdOrder);
     return createdOrder;
   }
 
   async updateOrder(id: string, order: Partial<schema.InsertOrder>) {
+    // Only rebuild line items when the items themselves change
+    const previous = order.items !== undefined ? await this.getOrder(id) : undefined;
     const result = await db.update(schema.orders).set({ ...order, updatedAt: new Date() }).where(eq(schema.orders.id, id)).returning();
     const updatedOrder = result[0];
+    if (updatedOrder) {
+      if (previous && previous.items !== updatedOrder.items) {
+        await this.syncOrderItems(updatedOrder);
+      }
+      emitEvent.orderStatusUpdated(updatedOrder);
+    }
+    return updatedOrder;
+  }
+
+  async transitionOrder(
+    id: string,
+    fromStatus: string,
+    toStatus: string,
+    modification: Omit<schema.InsertOrderModification, "orderId">,
+    sideEffects: OutboxEventInput[] = [],
+    changes: Partial<schema.InsertOrder> = {}
+  ) {
+    // Guarded on the previous status so concurrent transitions cannot both win
+    const updatedOrder = await db.transaction(async (tx) => {
+      const result = await tx.update(schema.orders)
+        .set({ ...changes, status: toStatus, updatedAt: new Date() })
+        .where(and(eq(schema.orders.id, id), eq(schema.orders.status, fromStatus)))
+        .returning();
+      const updated = result[0];
+      if (!updated) return undefined;
+      await tx.insert(schema.orderModifications).values({ ...modification, orderId: id });
+      await this.insertOutboxEvents(tx, id, sideEffects);
+      return updated;
+    });
     if (updatedOrder) {
       emitEvent.orderStatusUpdated(updatedOrder);
     }
     return updatedOrder;
   }
 
+  // Online/phone orders still waiting for the kitchen to accept them, oldest first
+  async getUnacceptedOrders(branchId?: string) {
+    const conditions = [
+      eq(schema.orders.status, "pending"),
+      drizzleSql`${schema.orders.orderSource} <> 'pos'`,
+    ];
+    if (branchId) conditions.push(eq(schema.orders.branchId, branchId));
+    return await db.select().from(schema.orders)
+      .where(and(...conditions))
+      .orderBy(asc(schema.orders.createdAt));
+  }
+
+  // Only the first caller gets the order back, so each order is escalated once
+  async markOrderEscalated(id: string, escalatedAt: Date) {
+    const result = await db.update(schema.orders)
+      .set({ escalatedAt })
+      .where(and(eq(schema.orders.id, id), eq(schema.orders.status, "pending"), isNull(schema.orders.escalatedAt)))
+      .returning();
+    return result[0];
+  }
+
   async deleteOrder(id: string) {
     await db.delete(schema.orders).where(eq(schema.orders.id, id));
     return true;
   }
 
+  // Order Items
+  async getOrderItems(orderId: string) {
+    return await db.select().from(schema.orderItems)
+      .where(eq(schema.orderItems.orderId, orderId))
+      .orderBy(asc(schema.orderItems.lineNumber));
+  }
+
+  async getOrderItemsByOrderIds(orderIds: string[]) {
+    if (orderIds.length === 0) return [];
+    return await db.select().from(schema.orderItems)
+      .where(inArray(schema.orderItems.orderId, orderIds))
+      .orderBy(asc(schema.orderItems.lineNumber));
+  }
+
+  async getOrderItem(id: string) {
+    const result = await db.select().from(schema.orderItems).where(eq(schema.orderItems.id, id));
+    return result[0];
+  }
+
+  async updateOrderItem(id: string, item: Partial<schema.InsertOrderItem>) {
+    const result = await db.update(schema.orderItems).set(item).where(eq(schema.orderItems.id, id)).returning();
+    return result[0];
+  }
+
+  // Replace an order's line items with the lines in orders.items
+  async syncOrderItems(order: schema.Order, executor: DbExecutor = db) {
+    const rows = parseOrderItemRows(order.id, order.items);
+
+    // Lines referencing deleted menu items keep their name but lose the link
+    const menuItemIds = Array.from(new Set(rows.map(row => row.menuItemId).filter((id): id is string => !!id)));
+    const existingMenuItems = menuItemIds.length > 0
+      ? await executor.select({ id: schema.menuItems.id }).from(schema.menuItems).where(inArray(schema.menuItems.id, menuItemIds))
+      : [];
+    const knownIds = new Set(existingMenuItems.map(item => item.id));
+    for (const row of rows) {
+      if (row.menuItemId && !knownIds.has(row.menuItemId)) {
+        row.menuItemId = null;
+      }
+    }
+
+    await executor.delete(schema.orderItems).where(eq(schema.orderItems.orderId, order.id));
+    if (rows.length === 0) return [];
+    return await executor.insert(schema.orderItems).values(rows).returning();
+  }
+
+  // Outbox
+  private async insertOutboxEvents(executor: DbExecutor, orderId: string, events: OutboxEventInput[]) {
+    if (events.length === 0) return;
+    await executor.insert(schema.outboxEvents).values(
+      events.map(event => ({ ...event, aggregateType: "order", aggregateId: orderId }))
+    );
+  }
+
+  async getOutboxEvents(filters: { status?: string; aggregateId?: string } = {}) {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(schema.outboxEvents.status, filters.status));
+    if (filters.aggregateId) conditions.push(eq(schema.outboxEvents.aggregateId, filters.aggregateId));
+    return await db.select().from(schema.outboxEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(schema.outboxEvents.createdAt))
+      .limit(500);
+  }
+
+  async getOutboxEvent(id: string) {
+    const result = await db.select().from(schema.outboxEvents).where(eq(schema.outboxEvents.id, id));
+    return result[0];
+  }
+
+  async getOutboxStats() {
+    const rows = await db.select({
+      status: schema.outboxEvents.status,
+      count: drizzleSql<number>`count(*)::int`,
+    }).from(schema.outboxEvents).groupBy(schema.outboxEvents.status);
+    const stats: Record<string, number> = { pending: 0, processing: 0, completed: 0, dead: 0 };
+    for (const row of rows) {
+      stats[row.status] = row.count;
+    }
+    return stats;
+  }
+
+  // Claims due events (and ones left "processing" by a crashed worker) without blocking other workers
+  async claimOutboxEvents(limit: number, staleBefore: Date) {
+    return await db.transaction(async (tx) => {
+      const due = await tx.select({ id: schema.outboxEvents.id }).from(schema.outboxEvents)
+        .where(or(
+          and(eq(schema.outboxEvents.status, "pending"), lte(schema.outboxEvents.availableAt, new Date())),
+          and(eq(schema.outboxEvents.status, "processing"), lt(schema.outboxEvents.lockedAt, staleBefore))
+        ))
+        .orderBy(asc(schema.outboxEvents.availableAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) return [];
+
+      return await tx.update(schema.outboxEvents)
+        .set({
+          status: "processing",
+          attempts: drizzleSql`${schema.outboxEvents.attempts} + 1`,
+          lockedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(inArray(schema.outboxEvents.id, due.map(event => event.id)))
+        .returning();
+    });
+  }
+
+  async completeOutboxEvent(id: string) {
+    await db.update(schema.outboxEvents)
+      .set({ status: "completed", processedAt: new Date(), lockedAt: null, lastError: null, updatedAt: new Date() })
+      .where(eq(schema.outboxEvents.id, id));
+  }
+
+  // retryAt null means retries are exhausted - the event is dead-lettered
+  async failOutboxEvent(id: string, error: string, retryAt: Date | null) {
+    await db.update(schema.outboxEvents)
+      .set({
+        status: retryAt ? "pending" : "dead",
+        lastError: error,
+        availableAt: retryAt ?? undefined,
+        lockedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.outboxEvents.id, id));
+  }
+
+  async replayOutboxEvent(id: string) {
+    const result = await db.update(schema.outboxEvents)
+      .set({ status: "pending", attempts: 0, availableAt: new Date(), lockedAt: null, updatedAt: new Date() })
+      .where(and(eq(schema.outboxEvents.id, id), eq(schema.outboxEvents.status, "dead")))
+      .returning();
+    return result[0];
+  }
+
   // Expenses
   async getAllExpenses() {
     return await db.select().from(schema.expenses)
@@ -707,6 +1293,31 @@ export class DbStorage implements IStorage {
     return updatedSession;
   }
 
+  // Kitchen Stations
+  async getAllKitchenStations() {
+    return await db.select().from(schema.kitchenStations).orderBy(asc(schema.kitchenStations.displayOrder), asc(schema.kitchenStations.name));
+  }
+
+  async getKitchenStation(id: string) {
+    const result = await db.select().from(schema.kitchenStations).where(eq(schema.kitchenStations.id, id));
+    return result[0];
+  }
+
+  async createKitchenStation(station: schema.InsertKitchenStation) {
+    const result = await db.insert(schema.kitchenStations).values(station).returning();
+    return result[0];
+  }
+
+  async updateKitchenStation(id: string, station: Partial<schema.InsertKitchenStation>) {
+    const result = await db.update(schema.kitchenStations).set(station).where(eq(schema.kitchenStations.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteKitchenStation(id: string) {
+    await db.delete(schema.kitchenStations).where(eq(schema.kitchenStations.id, id));
+    return true;
+  }
+
   // Kitchen Tickets
   async getAllKitchenTickets() {
     return await db.select().from(schema.kitchenTickets).orderBy(desc(schema.kitchenTickets.createdAt));
@@ -725,6 +1336,18 @@ export class DbStorage implements IStorage {
     return await db.select().from(schema.kitchenTickets).where(eq(schema.kitchenTickets.status, status)).orderBy(desc(schema.kitchenTickets.createdAt));
   }
 
+  async getKitchenTickets(filters: { branchId?: string; stationId?: string; statuses?: string[]; from?: Date; to?: Date }) {
+    const conditions = [];
+    if (filters.branchId) conditions.push(eq(schema.kitchenTickets.branchId, filters.branchId));
+    if (filters.stationId) conditions.push(eq(schema.kitchenTickets.stationId, filters.stationId));
+    if (filters.statuses && filters.statuses.length > 0) conditions.push(inArray(schema.kitchenTickets.status, filters.statuses));
+    if (filters.from) conditions.push(gte(schema.kitchenTickets.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(schema.kitchenTickets.createdAt, filters.to));
+    return await db.select().from(schema.kitchenTickets)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(schema.kitchenTickets.createdAt));
+  }
+
   async createKitchenTicket(ticket: schema.InsertKitchenTicket) {
     const result = await db.insert(schema.kitchenTickets).values(ticket).returning();
     const createdTicket = result[0];
@@ -732,6 +1355,22 @@ export class DbStorage implements IStorage {
     return createdTicket;
   }
 
+  // Ticket and the link from its order lines are written together so lines are never ticketed twice
+  async createKitchenTicketForLines(ticket: schema.InsertKitchenTicket, orderItemIds: string[]) {
+    const createdTicket = await db.transaction(async (tx) => {
+      const result = await tx.insert(schema.kitchenTickets).values(ticket).returning();
+      const created = result[0];
+      if (orderItemIds.length > 0) {
+        await tx.update(schema.orderItems)
+          .set({ kitchenTicketId: created.id, kitchenStation: created.station })
+          .where(inArray(schema.orderItems.id, orderItemIds));
+      }
+      return created;
+    });
+    emitEvent.kitchenTicketCreated(createdTicket);
+    return createdTicket;
+  }
+
   async updateKitchenTicket(id: string, ticket: Partial<schema.InsertKitchenTicket>) {
     const result = await db.update(schema.kitchenTickets).set(ticket).where(eq(schema.kitchenTickets.id, id)).returning();
     const updatedTicket = result[0];
@@ -741,6 +1380,15 @@ export class DbStorage implements IStorage {
     return updatedTicket;
   }
 
+  // Only the first caller gets the ticket back, so each breach is alerted once
+  async markKitchenTicketSlaBreached(id: string, breachedAt: Date) {
+    const result = await db.update(schema.kitchenTickets)
+      .set({ slaBreachedAt: breachedAt })
+      .where(and(eq(schema.kitchenTickets.id, id), isNull(schema.kitchenTickets.slaBreachedAt)))
+      .returning();
+    return result[0];
+  }
+
   // Payments
   async getAllPayments() {
     return await db.select().from(schema.payments).orderBy(desc(schema.payments.createdAt));
@@ -931,8 +1579,11 @@ export class DbStorage implements IStorage {
   }
 
   // Promo Codes
+  // Shared codes only - codes generated in batches are listed with their batch
   async getAllPromoCodes() {
-    return await db.select().from(schema.promoCodes).orderBy(desc(schema.promoCodes.createdAt));
+    return await db.select().from(schema.promoCodes)
+      .where(isNull(schema.promoCodes.batchId))
+      .orderBy(desc(schema.promoCodes.createdAt));
   }
 
   async getPromoCode(id: string) {
@@ -945,6 +1596,15 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async getAutomaticPromoCodes() {
+    return await db.select().from(schema.promoCodes).where(
+      and(
+        eq(schema.promoCodes.isAutomatic, true),
+        eq(schema.promoCodes.isActive, true)
+      )
+    );
+  }
+
   async createPromoCode(promoCode: schema.InsertPromoCode) {
     const result = await db.insert(schema.promoCodes).values(promoCode).returning();
     return result[0];
@@ -960,13 +1620,51 @@ export class DbStorage implements IStorage {
     return true;
   }
 
-  async incrementPromoCodeUsage(id: string) {
-    const promoCode = await this.getPromoCode(id);
-    if (promoCode) {
-      await db.update(schema.promoCodes)
-        .set({ usageCount: (promoCode.usageCount || 0) + 1 })
-        .where(eq(schema.promoCodes.id, id));
-    }
+  // Promo Code Batches
+  async getPromoCodeBatches() {
+    return await db.select().from(schema.promoCodeBatches).orderBy(desc(schema.promoCodeBatches.createdAt));
+  }
+
+  async getPromoCodeBatch(id: string) {
+    const result = await db.select().from(schema.promoCodeBatches).where(eq(schema.promoCodeBatches.id, id));
+    return result[0];
+  }
+
+  async getPromoCodesByBatch(batchId: string) {
+    return await db.select().from(schema.promoCodes)
+      .where(eq(schema.promoCodes.batchId, batchId))
+      .orderBy(asc(schema.promoCodes.code));
+  }
+
+  async getPromoCodesWithPrefix(prefix: string) {
+    const result = await db.select({ code: schema.promoCodes.code }).from(schema.promoCodes)
+      .where(like(schema.promoCodes.code, `${prefix}-%`));
+    return result.map(row => row.code);
+  }
+
+  // The batch and its codes are created together, in chunks so large batches stay within query limits
+  async createPromoCodeBatch(batch: schema.InsertPromoCodeBatch, codes: schema.InsertPromoCode[]) {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(schema.promoCodeBatches).values(batch).returning();
+      const inserted: schema.PromoCode[] = [];
+      for (let i = 0; i < codes.length; i += 500) {
+        const chunk = codes.slice(i, i + 500).map(code => ({ ...code, batchId: created.id }));
+        inserted.push(...await tx.insert(schema.promoCodes).values(chunk).returning());
+      }
+      return { batch: created, codes: inserted };
+    });
+  }
+
+  async voidUnusedBatchCodes(batchId: string) {
+    const result = await db.update(schema.promoCodes)
+      .set({ isActive: false })
+      .where(and(
+        eq(schema.promoCodes.batchId, batchId),
+        eq(schema.promoCodes.usageCount, 0),
+        eq(schema.promoCodes.isActive, true)
+      ))
+      .returning({ id: schema.promoCodes.id });
+    return result.length;
   }
 
   // Promo Code Usage
@@ -974,6 +1672,10 @@ export class DbStorage implements IStorage {
     return await db.select().from(schema.promoCodeUsage).where(eq(schema.promoCodeUsage.promoCodeId, promoCodeId)).orderBy(desc(schema.promoCodeUsage.usedAt));
   }
 
+  async getPromoCodeUsageByBatch(batchId: string) {
+    return await db.select().from(schema.promoCodeUsage).where(eq(schema.promoCodeUsage.batchId, batchId)).orderBy(desc(schema.promoCodeUsage.usedAt));
+  }
+
   async getUserPromoCodeUsageCount(promoCodeId: string, userId: string) {
     const result = await db.select().from(schema.promoCodeUsage).where(
       and(
@@ -984,9 +1686,25 @@ export class DbStorage implements IStorage {
     return result.length;
   }
 
-  async createPromoCodeUsage(usage: schema.InsertPromoCodeUsage) {
-    const result = await db.insert(schema.promoCodeUsage).values(usage).returning();
-    return result[0];
+  async getPromoCodeUsageByOrder(orderId: string) {
+    return await db.select().from(schema.promoCodeUsage).where(eq(schema.promoCodeUsage.orderId, orderId));
+  }
+
+  // The usage row and the code's usage count change together, and only the first time the promotion
+  // is recorded for the order - a repeated event finds the row there and counts nothing
+  async recordPromoCodeUsage(usage: schema.InsertPromoCodeUsage) {
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(schema.promoCodeUsage)
+        .values(usage)
+        .onConflictDoNothing({ target: [schema.promoCodeUsage.promoCodeId, schema.promoCodeUsage.orderId] })
+        .returning();
+      const created = result[0];
+      if (!created) return null;
+      await tx.update(schema.promoCodes)
+        .set({ usageCount: drizzleSql`coalesce(${schema.promoCodes.usageCount}, 0) + 1` })
+        .where(eq(schema.promoCodes.id, usage.promoCodeId));
+      return created;
+    });
   }
 
   // Delivery Charges Configuration
@@ -1017,6 +1735,48 @@ export class DbStorage implements IStorage {
     return true;
   }
 
+  // System Settings
+  async getSystemSettings(branchId: string | null) {
+    const result = await db.select().from(schema.systemSettings).where(
+      branchId ? eq(schema.systemSettings.branchId, branchId) : isNull(schema.systemSettings.branchId)
+    );
+    return result[0];
+  }
+
+  async getAllSystemSettings() {
+    return await db.select().from(schema.systemSettings).orderBy(schema.systemSettings.createdAt);
+  }
+
+  async getEffectiveSystemSettings(branchId?: string | null) {
+    // Layer: built-in defaults <- global row <- branch override row
+    const global = await this.getSystemSettings(null);
+    const override = branchId ? await this.getSystemSettings(branchId) : undefined;
+    return {
+      ...schema.DEFAULT_SYSTEM_SETTINGS,
+      ...((global?.settings as Partial<schema.SystemSettingsValues>) || {}),
+      ...((override?.settings as Partial<schema.SystemSettingsValues>) || {}),
+    };
+  }
+
+  async saveSystemSettings(branchId: string | null, settings: Partial<schema.SystemSettingsValues>, updatedBy?: string) {
+    // One row per branch and one global row (branch ids are unique with nulls not distinct)
+    const result = await db.insert(schema.systemSettings)
+      .values({ branchId, settings, updatedBy })
+      .onConflictDoUpdate({
+        target: schema.systemSettings.branchId,
+        set: { settings, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deleteSystemSettings(branchId: string) {
+    const result = await db.delete(schema.systemSettings)
+      .where(eq(schema.systemSettings.branchId, branchId))
+      .returning();
+    return result.length > 0;
+  }
+
   // Variant Groups
   async getAllVariantGroups() {
     return await db.select().from(schema.variantGroups).orderBy(schema.variantGroups.displayOrder, desc(schema.variantGroups.createdAt));
@@ -1207,72 +1967,1144 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async calculateEarnedPoints(orderTotal: number) {
-    // 1 point per Rs. 100 spent
-    return Math.floor(orderTotal / 100);
+  // Moves points on the balance and records the movement in one transaction. The balance row is
+  // locked, so earning, spending and expiry at the same time cannot overwrite each other. Returns
+  // the points actually moved.
+  async changeLoyaltyPoints(change: LoyaltyPointsChange) {
+    return await db.transaction(async (tx) => {
+      await tx.insert(schema.loyaltyPoints).values({ customerId: change.customerId }).onConflictDoNothing();
+      const locked = await tx.select().from(schema.loyaltyPoints)
+        .where(eq(schema.loyaltyPoints.customerId, change.customerId))
+        .for("update");
+      const account = locked[0];
+
+      const newAvailable = Math.max(0, account.availablePoints + change.points);
+      const moved = newAvailable - account.availablePoints;
+      await tx.update(schema.loyaltyPoints)
+        .set({
+          availablePoints: newAvailable,
+          lifetimeEarned: Math.max(0, account.lifetimeEarned + (change.lifetimeEarned || 0)),
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.loyaltyPoints.id, account.id));
+      await tx.insert(schema.loyaltyTransactions).values({
+        customerId: change.customerId,
+        orderId: change.orderId ?? null,
+        transactionType: change.transactionType,
+        points: moved,
+        balanceAfter: newAvailable,
+        description: change.describe(moved),
+        expiresAt: change.expiresAt ?? null,
+      });
+      return moved;
+    });
   }
 
-  // Refunds
-  async getRefund(id: string) {
-    const result = await db.select().from(schema.refunds).where(eq(schema.refunds.id, id));
-    return result[0];
+  async calculateEarnedPoints(orderTotal: number, branchId?: string | null) {
+    const settings = await this.getEffectiveSystemSettings(branchId);
+    if (!settings.enableLoyaltyProgram) {
+      return 0;
+    }
+    // pointsPerOrder points per Rs. 100 spent
+    return Math.floor((orderTotal / 100) * settings.pointsPerOrder);
   }
 
-  async getRefundsByOrder(orderId: string) {
-    return await db.select().from(schema.refunds)
-      .where(eq(schema.refunds.orderId, orderId))
-      .orderBy(desc(schema.refunds.requestedAt));
+  async getAllLoyaltyPoints() {
+    return await db.select().from(schema.loyaltyPoints);
   }
 
-  async getAllRefunds() {
-    return await db.select().from(schema.refunds).orderBy(desc(schema.refunds.requestedAt));
+  // Orders the customer placed since the date, leaving out cancelled and rejected ones
+  async getCustomerOrderActivity(customerId: string, since: Date) {
+    const result = await db.select({
+      orderCount: drizzleSql<number>`count(*)::int`,
+      totalSpent: drizzleSql<string>`coalesce(sum(${schema.orders.total}), 0)`,
+    }).from(schema.orders)
+      .where(and(
+        eq(schema.orders.customerId, customerId),
+        gte(schema.orders.createdAt, since),
+        drizzleSql`${schema.orders.status} not in ('cancelled', 'rejected')`
+      ));
+    return { orderCount: result[0].orderCount, totalSpent: parseFloat(result[0].totalSpent) };
   }
 
-  async createRefund(refund: schema.InsertRefund) {
-    const result = await db.insert(schema.refunds).values(refund).returning();
-    return result[0];
+  // Customers with points to spend and earned points expiring by the date (including ones already past)
+  async getCustomerIdsWithPointsExpiringBefore(before: Date) {
+    const rows = await db.selectDistinct({ customerId: schema.loyaltyTransactions.customerId })
+      .from(schema.loyaltyTransactions)
+      .innerJoin(schema.loyaltyPoints, eq(schema.loyaltyPoints.customerId, schema.loyaltyTransactions.customerId))
+      .where(and(
+        lte(schema.loyaltyTransactions.expiresAt, before),
+        drizzleSql`${schema.loyaltyTransactions.points} > 0`,
+        drizzleSql`${schema.loyaltyPoints.availablePoints} > 0`
+      ));
+    return rows.map(row => row.customerId);
   }
 
-  async updateRefund(id: string, refund: Partial<schema.InsertRefund>) {
-    const result = await db.update(schema.refunds)
-      .set(refund)
-      .where(eq(schema.refunds.id, id))
-      .returning();
-    return result[0];
+  async markLoyaltyExpiryWarned(transactionIds: string[]) {
+    if (transactionIds.length === 0) return;
+    await db.update(schema.loyaltyTransactions)
+      .set({ expiryWarnedAt: new Date() })
+      .where(inArray(schema.loyaltyTransactions.id, transactionIds));
   }
 
-  // Suppliers
-  async getAllSuppliers() {
-    return await db.select().from(schema.suppliers).orderBy(schema.suppliers.name);
+  async getLoyaltyTransactionsByOrder(orderId: string) {
+    return await db.select().from(schema.loyaltyTransactions)
+      .where(eq(schema.loyaltyTransactions.orderId, orderId))
+      .orderBy(asc(schema.loyaltyTransactions.createdAt));
   }
 
-  async getSupplier(id: string) {
-    const result = await db.select().from(schema.suppliers).where(eq(schema.suppliers.id, id));
+  async createCustomerNotification(notification: schema.InsertCustomerNotification) {
+    const result = await db.insert(schema.customerNotifications).values(notification).returning();
     return result[0];
   }
 
-  async createSupplier(supplier: schema.InsertSupplier) {
-    const result = await db.insert(schema.suppliers).values(supplier).returning();
-    return result[0];
+  async getUnreadCustomerNotifications(customerId: string) {
+    return await db.select().from(schema.customerNotifications)
+      .where(and(
+        eq(schema.customerNotifications.customerId, customerId),
+        isNull(schema.customerNotifications.readAt)
+      ))
+      .orderBy(desc(schema.customerNotifications.createdAt));
   }
 
-  async updateSupplier(id: string, supplier: Partial<schema.InsertSupplier>) {
-    const result = await db.update(schema.suppliers)
-      .set(supplier)
-      .where(eq(schema.suppliers.id, id))
+  async markCustomerNotificationRead(id: string, customerId: string) {
+    const result = await db.update(schema.customerNotifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(schema.customerNotifications.id, id),
+        eq(schema.customerNotifications.customerId, customerId)
+      ))
       .returning();
     return result[0];
   }
 
-  async deleteSupplier(id: string) {
-    await db.delete(schema.suppliers).where(eq(schema.suppliers.id, id));
-    return true;
+  // Takes the points off the customer's balance and records them as a payment on the order.
+  // The balance row is locked, so two orders cannot spend the same points.
+  private async redeemPointsTender(executor: DbExecutor, order: schema.Order, tender: PointsTender) {
+    const locked = await executor.select().from(schema.loyaltyPoints)
+      .where(eq(schema.loyaltyPoints.customerId, tender.customerId))
+      .for("update");
+    const account = locked[0];
+    if (!account || account.availablePoints < tender.points) {
+      throw new Error("Insufficient points");
+    }
+
+    const newAvailable = account.availablePoints - tender.points;
+    await executor.update(schema.loyaltyPoints)
+      .set({
+        availablePoints: newAvailable,
+        lifetimeRedeemed: account.lifetimeRedeemed + tender.points,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.loyaltyPoints.id, account.id));
+    const ledger = await executor.insert(schema.loyaltyTransactions).values({
+      customerId: tender.customerId,
+      orderId: order.id,
+      transactionType: "redeem",
+      points: -tender.points,
+      balanceAfter: newAvailable,
+      description: `Redeemed ${tender.points} points on order #${order.orderNumber}`,
+    }).returning();
+    await executor.insert(schema.payments).values({
+      orderId: order.id,
+      sessionId: order.sessionId,
+      paymentMethod: "loyalty_points",
+      amount: tender.amount,
+      reference: `${tender.points} points`,
+      receivedBy: tender.receivedBy || null,
+      status: "completed",
+      ledgerEntryId: ledger[0].id,
+    });
   }
 
-  // Inventory Transactions
-  async getInventoryTransactions(menuItemId: string, branchId: string) {
-    return await db.select().from(schema.inventoryTransactions)
-      .where(and(
+  private async redeemTenders(executor: DbExecutor, order: schema.Order, tenders: OrderTenders) {
+    if (tenders.pointsTender) {
+      await this.redeemPointsTender(executor, order, tenders.pointsTender);
+    }
+    if (tenders.storeCreditTender) {
+      await this.redeemStoreCreditTender(executor, order, tenders.storeCreditTender);
+    }
+    if (tenders.giftCardTender) {
+      await this.redeemGiftCardTender(executor, order, tenders.giftCardTender);
+    }
+  }
+
+  // Points, store credit or a gift card paid at the counter - the order's payment details and the
+  // balances change together
+  async payOrderWithTenders(orderId: string, tenders: OrderTenders, changes: Partial<schema.InsertOrder>) {
+    const updatedOrder = await db.transaction(async (tx) => {
+      const result = await tx.update(schema.orders)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(schema.orders.id, orderId))
+        .returning();
+      const order = result[0];
+      if (order) {
+        await this.redeemTenders(tx, order, tenders);
+      }
+      return order;
+    });
+    if (updatedOrder) {
+      emitEvent.orderStatusUpdated(updatedOrder);
+    }
+    return updatedOrder;
+  }
+
+  // Gives back points paid on the order (all that are still out when points is null) and returns
+  // how many went back. Once every point is back, the order's points payment is marked refunded.
+  async restoreRedeemedPoints(orderId: string, points: number | null, reason: string) {
+    return await db.transaction(async (tx) => this.giveBackRedeemedPoints(tx, orderId, points, reason));
+  }
+
+  private async giveBackRedeemedPoints(executor: DbExecutor, orderId: string, points: number | null, reason: string) {
+    const movements = await executor.select().from(schema.loyaltyTransactions)
+      .where(and(
+        eq(schema.loyaltyTransactions.orderId, orderId),
+        inArray(schema.loyaltyTransactions.transactionType, ["redeem", "restore"])
+      ))
+      .for("update");
+    const redemption = movements.find(t => t.transactionType === "redeem");
+    if (!redemption) return 0;
+
+    const outstanding = -movements.reduce((sum, t) => sum + t.points, 0);
+    const restore = Math.min(outstanding, points ?? outstanding);
+    if (restore <= 0) return 0;
+
+    const locked = await executor.select().from(schema.loyaltyPoints)
+      .where(eq(schema.loyaltyPoints.customerId, redemption.customerId))
+      .for("update");
+    const account = locked[0];
+    if (!account) return 0;
+    const newAvailable = account.availablePoints + restore;
+    await executor.update(schema.loyaltyPoints)
+      .set({
+        availablePoints: newAvailable,
+        lifetimeRedeemed: Math.max(0, account.lifetimeRedeemed - restore),
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.loyaltyPoints.id, account.id));
+    await executor.insert(schema.loyaltyTransactions).values({
+      customerId: redemption.customerId,
+      orderId,
+      transactionType: "restore",
+      points: restore,
+      balanceAfter: newAvailable,
+      description: `Restored ${restore} points - ${reason}`,
+    });
+    if (restore === outstanding) {
+      await executor.update(schema.payments)
+        .set({ status: "refunded" })
+        .where(and(eq(schema.payments.orderId, orderId), eq(schema.payments.paymentMethod, "loyalty_points")));
+    }
+    return restore;
+  }
+
+  // Loyalty Tiers
+  async getLoyaltyTiers() {
+    return await db.select().from(schema.loyaltyTiers)
+      .orderBy(asc(schema.loyaltyTiers.sortOrder), asc(schema.loyaltyTiers.threshold));
+  }
+
+  async replaceLoyaltyTiers(tiers: schema.InsertLoyaltyTier[]) {
+    return await db.transaction(async (tx) => {
+      await tx.delete(schema.loyaltyTiers);
+      return await tx.insert(schema.loyaltyTiers).values(tiers).returning();
+    });
+  }
+
+  // Loyalty Rewards
+  async getLoyaltyRewards() {
+    return await db.select().from(schema.loyaltyRewards)
+      .orderBy(asc(schema.loyaltyRewards.pointsCost), asc(schema.loyaltyRewards.name));
+  }
+
+  async getLoyaltyReward(id: string) {
+    const result = await db.select().from(schema.loyaltyRewards).where(eq(schema.loyaltyRewards.id, id));
+    return result[0];
+  }
+
+  async createLoyaltyReward(reward: schema.InsertLoyaltyReward) {
+    const result = await db.insert(schema.loyaltyRewards).values(reward).returning();
+    return result[0];
+  }
+
+  async updateLoyaltyReward(id: string, reward: Partial<schema.InsertLoyaltyReward>) {
+    const result = await db.update(schema.loyaltyRewards)
+      .set({ ...reward, updatedAt: new Date() })
+      .where(eq(schema.loyaltyRewards.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getLoyaltyRewardClaims(filters: LoyaltyRewardClaimFilters = {}) {
+    const conditions = [];
+    if (filters.customerId) conditions.push(eq(schema.loyaltyRewardClaims.customerId, filters.customerId));
+    if (filters.rewardId) conditions.push(eq(schema.loyaltyRewardClaims.rewardId, filters.rewardId));
+    if (filters.orderId) conditions.push(eq(schema.loyaltyRewardClaims.orderId, filters.orderId));
+    return await db.select().from(schema.loyaltyRewardClaims)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(schema.loyaltyRewardClaims.createdAt));
+  }
+
+  async getLoyaltyRewardClaimByCode(code: string) {
+    const result = await db.select().from(schema.loyaltyRewardClaims)
+      .where(eq(schema.loyaltyRewardClaims.code, code));
+    return result[0];
+  }
+
+  // Spends the points and issues the voucher. The reward row is locked so its stock cannot be
+  // overclaimed, and the balance row so the points cannot be spent twice.
+  async claimLoyaltyReward(claim: schema.InsertLoyaltyRewardClaim & { rewardId: string }, rewardName: string) {
+    return await db.transaction(async (tx) => {
+      const lockedReward = await tx.select().from(schema.loyaltyRewards)
+        .where(eq(schema.loyaltyRewards.id, claim.rewardId))
+        .for("update");
+      const reward = lockedReward[0];
+      if (!reward) {
+        throw new Error("Reward not found");
+      }
+      if (reward.stockLimit !== null && reward.claimedCount >= reward.stockLimit) {
+        throw new Error("This reward has run out");
+      }
+
+      const lockedAccount = await tx.select().from(schema.loyaltyPoints)
+        .where(eq(schema.loyaltyPoints.customerId, claim.customerId))
+        .for("update");
+      const account = lockedAccount[0];
+      if (!account || account.availablePoints < claim.pointsSpent) {
+        throw new Error("Not enough points for this reward");
+      }
+
+      const newAvailable = account.availablePoints - claim.pointsSpent;
+      await tx.update(schema.loyaltyPoints)
+        .set({
+          availablePoints: newAvailable,
+          lifetimeRedeemed: account.lifetimeRedeemed + claim.pointsSpent,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.loyaltyPoints.id, account.id));
+      await tx.update(schema.loyaltyRewards)
+        .set({ claimedCount: reward.claimedCount + 1 })
+        .where(eq(schema.loyaltyRewards.id, reward.id));
+      const result = await tx.insert(schema.loyaltyRewardClaims).values(claim).returning();
+      await tx.insert(schema.loyaltyTransactions).values({
+        customerId: claim.customerId,
+        transactionType: "redeem",
+        points: -claim.pointsSpent,
+        balanceAfter: newAvailable,
+        description: `Claimed reward: ${rewardName}`,
+      });
+      return result[0];
+    });
+  }
+
+  // Vouchers can be used once - a voucher someone else used first fails the whole order
+  private async useRewardClaims(executor: DbExecutor, order: schema.Order, claimIds: string[]) {
+    const used = await executor.update(schema.loyaltyRewardClaims)
+      .set({ status: "used", orderId: order.id, usedAt: new Date() })
+      .where(and(
+        inArray(schema.loyaltyRewardClaims.id, claimIds),
+        eq(schema.loyaltyRewardClaims.status, "available")
+      ))
+      .returning();
+    if (used.length !== claimIds.length) {
+      throw new Error("A reward voucher on this order has already been used");
+    }
+  }
+
+  // Vouchers on an order that did not go ahead can be used again
+  async releaseLoyaltyRewardClaims(orderId: string) {
+    return await db.update(schema.loyaltyRewardClaims)
+      .set({ status: "available", orderId: null, usedAt: null })
+      .where(and(
+        eq(schema.loyaltyRewardClaims.orderId, orderId),
+        eq(schema.loyaltyRewardClaims.status, "used")
+      ))
+      .returning();
+  }
+
+  // Stamp Cards
+  async getStampCards() {
+    return await db.select().from(schema.stampCards).orderBy(asc(schema.stampCards.name));
+  }
+
+  async getStampCard(id: string) {
+    const result = await db.select().from(schema.stampCards).where(eq(schema.stampCards.id, id));
+    return result[0];
+  }
+
+  async createStampCard(card: schema.InsertStampCard) {
+    const result = await db.insert(schema.stampCards).values(card).returning();
+    return result[0];
+  }
+
+  async updateStampCard(id: string, card: Partial<schema.InsertStampCard>) {
+    const result = await db.update(schema.stampCards)
+      .set({ ...card, updatedAt: new Date() })
+      .where(eq(schema.stampCards.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getCustomerStamps(customerId: string) {
+    return await db.select().from(schema.customerStamps)
+      .where(eq(schema.customerStamps.customerId, customerId));
+  }
+
+  async getStampTransactions(filters: { customerId?: string; orderId?: string }) {
+    const conditions = [];
+    if (filters.customerId) conditions.push(eq(schema.stampTransactions.customerId, filters.customerId));
+    if (filters.orderId) conditions.push(eq(schema.stampTransactions.orderId, filters.orderId));
+    return await db.select().from(schema.stampTransactions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(schema.stampTransactions.createdAt));
+  }
+
+  // Adds the order's stamps (once per card and order) and issues a voucher for every card they fill.
+  // The progress row is locked so two orders cannot fill the same card twice.
+  async earnStamps(earning: StampEarning) {
+    const { card, customerId, orderId } = earning;
+    return await db.transaction(async (tx) => {
+      await tx.insert(schema.customerStamps)
+        .values({ stampCardId: card.id, customerId })
+        .onConflictDoNothing();
+      const locked = await tx.select().from(schema.customerStamps)
+        .where(and(
+          eq(schema.customerStamps.stampCardId, card.id),
+          eq(schema.customerStamps.customerId, customerId)
+        ))
+        .for("update");
+      const progress = locked[0];
+
+      const earned = await tx.select({ id: schema.stampTransactions.id }).from(schema.stampTransactions)
+        .where(and(
+          eq(schema.stampTransactions.stampCardId, card.id),
+          eq(schema.stampTransactions.orderId, orderId),
+          eq(schema.stampTransactions.transactionType, "earn")
+        ));
+      if (earned.length > 0) return null;
+
+      const total = progress.stamps + earning.stamps;
+      const filled = Math.floor(total / card.stampsRequired);
+      const vouchers: schema.LoyaltyRewardClaim[] = [];
+      for (let i = 0; i < filled; i++) {
+        const result = await tx.insert(schema.loyaltyRewardClaims).values({
+          ...earning.issueVoucher(),
+          stampCardId: card.id,
+          customerId,
+          pointsSpent: 0,
+          status: "available",
+        }).returning();
+        vouchers.push(result[0]);
+      }
+
+      const updated = await tx.update(schema.customerStamps)
+        .set({
+          stamps: total % card.stampsRequired,
+          cardsCompleted: progress.cardsCompleted + filled,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.customerStamps.id, progress.id))
+        .returning();
+      await tx.insert(schema.stampTransactions).values({
+        stampCardId: card.id,
+        customerId,
+        orderId,
+        transactionType: "earn",
+        stamps: earning.stamps,
+        voucherIds: vouchers.map(voucher => voucher.id),
+        description: earning.description,
+      });
+      return { progress: updated[0], vouchers };
+    });
+  }
+
+  // Takes back an order's stamps (once). Cards the order filled are emptied again by voiding their
+  // vouchers while still unused; stamps behind a voucher already used are not taken back.
+  async reverseStamps(card: schema.StampCard, customerId: string, orderId: string, description: string) {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.select().from(schema.customerStamps)
+        .where(and(
+          eq(schema.customerStamps.stampCardId, card.id),
+          eq(schema.customerStamps.customerId, customerId)
+        ))
+        .for("update");
+      const progress = locked[0];
+      if (!progress) return null;
+
+      const transactions = await tx.select().from(schema.stampTransactions)
+        .where(and(
+          eq(schema.stampTransactions.stampCardId, card.id),
+          eq(schema.stampTransactions.orderId, orderId)
+        ));
+      const earn = transactions.find(t => t.transactionType === "earn");
+      if (!earn || transactions.some(t => t.transactionType === "reversal")) return null;
+
+      let stamps = progress.stamps - earn.stamps;
+      let cardsCompleted = progress.cardsCompleted;
+      const voided: string[] = [];
+      for (const voucherId of [...(earn.voucherIds as string[])].reverse()) {
+        if (stamps >= 0) break;
+        const result = await tx.update(schema.loyaltyRewardClaims)
+          .set({ status: "voided" })
+          .where(and(
+            eq(schema.loyaltyRewardClaims.id, voucherId),
+            eq(schema.loyaltyRewardClaims.status, "available")
+          ))
+          .returning();
+        if (result.length > 0) {
+          voided.push(voucherId);
+          stamps += card.stampsRequired;
+          cardsCompleted -= 1;
+        }
+      }
+
+      await tx.update(schema.customerStamps)
+        .set({ stamps: Math.max(0, stamps), cardsCompleted, updatedAt: new Date() })
+        .where(eq(schema.customerStamps.id, progress.id));
+      const result = await tx.insert(schema.stampTransactions).values({
+        stampCardId: card.id,
+        customerId,
+        orderId,
+        transactionType: "reversal",
+        stamps: -earn.stamps,
+        voucherIds: voided,
+        description,
+      }).returning();
+      return result[0];
+    });
+  }
+
+  // Referrals
+  async createReferral(referral: schema.InsertReferral) {
+    const result = await db.insert(schema.referrals).values(referral).returning();
+    return result[0];
+  }
+
+  async getReferrals(filters: { referrerId?: string; status?: string } = {}) {
+    const conditions = [];
+    if (filters.referrerId) conditions.push(eq(schema.referrals.referrerId, filters.referrerId));
+    if (filters.status) conditions.push(eq(schema.referrals.status, filters.status));
+    return await db.select().from(schema.referrals)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(schema.referrals.createdAt));
+  }
+
+  async getReferralByReferee(refereeId: string) {
+    const result = await db.select().from(schema.referrals).where(eq(schema.referrals.refereeId, refereeId));
+    return result[0];
+  }
+
+  // Only pending referrals can be rejected or rewarded, so each is settled once
+  async rejectReferral(id: string, reason: string, orderId?: string | null) {
+    const result = await db.update(schema.referrals)
+      .set({ status: "rejected", rejectionReason: reason, qualifyingOrderId: orderId ?? null })
+      .where(and(eq(schema.referrals.id, id), eq(schema.referrals.status, "pending")))
+      .returning();
+    return result[0];
+  }
+
+  async rewardReferral(id: string, orderId: string, grant: ReferralRewardGrant) {
+    return await db.transaction(async (tx) => {
+      const claimed = await tx.update(schema.referrals)
+        .set({ status: "rewarded", qualifyingOrderId: orderId, rewardedAt: new Date() })
+        .where(and(eq(schema.referrals.id, id), eq(schema.referrals.status, "pending")))
+        .returning();
+      const referral = claimed[0];
+      if (!referral) return undefined;
+
+      await this.creditBonusPoints(tx, referral.referrerId, grant.referrerPoints, grant.referrerDescription, grant.pointsExpireAt);
+      await this.creditBonusPoints(tx, referral.refereeId, grant.refereePoints, grant.refereeDescription, grant.pointsExpireAt);
+      const referrerPromo = grant.referrerPromo
+        ? (await tx.insert(schema.promoCodes).values(grant.referrerPromo).returning())[0]
+        : undefined;
+      const refereePromo = grant.refereePromo
+        ? (await tx.insert(schema.promoCodes).values(grant.refereePromo).returning())[0]
+        : undefined;
+      if (grant.notifications.length > 0) {
+        await tx.insert(schema.customerNotifications).values(grant.notifications);
+      }
+
+      const result = await tx.update(schema.referrals)
+        .set({
+          rewardType: grant.rewardType,
+          referrerPoints: grant.referrerPoints,
+          refereePoints: grant.refereePoints,
+          referrerPromoCodeId: referrerPromo?.id ?? null,
+          refereePromoCodeId: refereePromo?.id ?? null,
+          rewardCost: grant.rewardCost,
+        })
+        .where(eq(schema.referrals.id, id))
+        .returning();
+      return result[0];
+    });
+  }
+
+  private async creditBonusPoints(executor: DbExecutor, customerId: string, points: number, description: string, expiresAt: Date | null) {
+    if (points <= 0) return;
+    await executor.insert(schema.loyaltyPoints).values({ customerId }).onConflictDoNothing();
+    const locked = await executor.select().from(schema.loyaltyPoints)
+      .where(eq(schema.loyaltyPoints.customerId, customerId))
+      .for("update");
+    const account = locked[0];
+    const newAvailable = account.availablePoints + points;
+    await executor.update(schema.loyaltyPoints)
+      .set({ availablePoints: newAvailable, lifetimeEarned: account.lifetimeEarned + points, updatedAt: new Date() })
+      .where(eq(schema.loyaltyPoints.id, account.id));
+    await executor.insert(schema.loyaltyTransactions).values({
+      customerId,
+      transactionType: "bonus",
+      points,
+      balanceAfter: newAvailable,
+      description,
+      expiresAt,
+    });
+  }
+
+  // Gift Cards
+  async getGiftCards(filters: { status?: string; search?: string } = {}) {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(schema.giftCards.status, filters.status));
+    if (filters.search) {
+      const term = `%${filters.search}%`;
+      conditions.push(or(like(schema.giftCards.code, term.toUpperCase()), like(schema.giftCards.recipientName, term)));
+    }
+    return await db.select().from(schema.giftCards)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(schema.giftCards.createdAt));
+  }
+
+  async getGiftCard(id: string) {
+    const result = await db.select().from(schema.giftCards).where(eq(schema.giftCards.id, id));
+    return result[0];
+  }
+
+  async getGiftCardByCode(code: string) {
+    const result = await db.select().from(schema.giftCards).where(eq(schema.giftCards.code, code));
+    return result[0];
+  }
+
+  // Cards paid for on the spot start active, with their "issue" entry; online purchases wait for payment
+  async createGiftCard(card: schema.InsertGiftCard, performedBy: string | null) {
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(schema.giftCards).values(card).returning();
+      const created = result[0];
+      if (created.status === "active") {
+        await this.insertGiftCardIssue(tx, created, performedBy);
+      }
+      return created;
+    });
+  }
+
+  async updateGiftCard(id: string, card: Partial<schema.InsertGiftCard>) {
+    const result = await db.update(schema.giftCards)
+      .set({ ...card, updatedAt: new Date() })
+      .where(eq(schema.giftCards.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Only pending cards are activated, so a card paid for twice is only issued once
+  async activateGiftCard(id: string, paymentReference: string | null) {
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(schema.giftCards)
+        .set({ status: "active", paymentReference, activatedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(schema.giftCards.id, id), eq(schema.giftCards.status, "pending")))
+        .returning();
+      const card = result[0];
+      if (card) {
+        await this.insertGiftCardIssue(tx, card, null);
+      }
+      return card;
+    });
+  }
+
+  private async insertGiftCardIssue(executor: DbExecutor, card: schema.GiftCard, performedBy: string | null) {
+    await executor.insert(schema.giftCardTransactions).values({
+      giftCardId: card.id,
+      transactionType: "issue",
+      amount: card.initialValue,
+      balanceAfter: card.balance,
+      performedBy,
+      description: `Gift card issued for ${card.initialValue}`,
+    });
+  }
+
+  async voidGiftCard(id: string, reason: string, performedBy: string) {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.select().from(schema.giftCards)
+        .where(eq(schema.giftCards.id, id))
+        .for("update");
+      const card = locked[0];
+      if (!card || card.status === "voided") return undefined;
+
+      const result = await tx.update(schema.giftCards)
+        .set({ status: "voided", balance: "0.00", voidReason: reason, updatedAt: new Date() })
+        .where(eq(schema.giftCards.id, id))
+        .returning();
+      await tx.insert(schema.giftCardTransactions).values({
+        giftCardId: id,
+        transactionType: "void",
+        amount: (-parseFloat(card.balance)).toFixed(2),
+        balanceAfter: "0.00",
+        performedBy,
+        description: `Voided: ${reason}`,
+      });
+      return result[0];
+    });
+  }
+
+  async getGiftCardTransactions(filters: { giftCardId?: string; orderId?: string }) {
+    const conditions = [];
+    if (filters.giftCardId) conditions.push(eq(schema.giftCardTransactions.giftCardId, filters.giftCardId));
+    if (filters.orderId) conditions.push(eq(schema.giftCardTransactions.orderId, filters.orderId));
+    return await db.select().from(schema.giftCardTransactions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(schema.giftCardTransactions.createdAt));
+  }
+
+  // Takes the amount off the card and records it as a payment on the order. The card row is
+  // locked, so two orders cannot spend the same balance.
+  private async redeemGiftCardTender(executor: DbExecutor, order: schema.Order, tender: GiftCardTender) {
+    const locked = await executor.select().from(schema.giftCards)
+      .where(eq(schema.giftCards.id, tender.giftCardId))
+      .for("update");
+    const card = locked[0];
+    const amount = parseFloat(tender.amount);
+    if (!card || card.status !== "active") {
+      throw new Error("Gift card is not active");
+    }
+    if (parseFloat(card.balance) < amount) {
+      throw new Error("Insufficient gift card balance");
+    }
+
+    const newBalance = roundMoney(parseFloat(card.balance) - amount).toFixed(2);
+    await executor.update(schema.giftCards)
+      .set({ balance: newBalance, updatedAt: new Date() })
+      .where(eq(schema.giftCards.id, card.id));
+    const ledger = await executor.insert(schema.giftCardTransactions).values({
+      giftCardId: card.id,
+      transactionType: "redeem",
+      amount: (-amount).toFixed(2),
+      balanceAfter: newBalance,
+      orderId: order.id,
+      performedBy: tender.receivedBy || null,
+      description: `Paid ${tender.amount} on order #${order.orderNumber}`,
+    }).returning();
+    await executor.insert(schema.payments).values({
+      orderId: order.id,
+      sessionId: order.sessionId,
+      paymentMethod: "gift_card",
+      amount: tender.amount,
+      reference: card.code,
+      receivedBy: tender.receivedBy || null,
+      status: "completed",
+      ledgerEntryId: ledger[0].id,
+    });
+  }
+
+  // Puts gift card payments on the order back onto their cards (all that is still out when amount
+  // is null) and returns how much went back. Voided cards get nothing back. Once everything is
+  // back, the order's gift card payments are marked refunded.
+  async returnGiftCardTenders(orderId: string, amount: number | null, entry: StoredValueReturn) {
+    return await db.transaction(async (tx) => this.giveBackGiftCardTenders(tx, orderId, amount, entry));
+  }
+
+  private async giveBackGiftCardTenders(executor: DbExecutor, orderId: string, amount: number | null, entry: StoredValueReturn) {
+    const movements = await executor.select().from(schema.giftCardTransactions)
+      .where(and(
+        eq(schema.giftCardTransactions.orderId, orderId),
+        inArray(schema.giftCardTransactions.transactionType, ["redeem", "restore", "refund"])
+      ))
+      .orderBy(asc(schema.giftCardTransactions.createdAt))
+      .for("update");
+    const outstandingByCard = new Map<string, number>();
+    for (const movement of movements) {
+      outstandingByCard.set(movement.giftCardId, roundMoney((outstandingByCard.get(movement.giftCardId) || 0) - parseFloat(movement.amount)));
+    }
+    const outstanding = roundMoney(Array.from(outstandingByCard.values()).reduce((sum, value) => sum + value, 0));
+    let remaining = roundMoney(Math.min(outstanding, amount ?? outstanding));
+    if (remaining <= 0) return 0;
+
+    let returned = 0;
+    for (const [giftCardId, cardOutstanding] of Array.from(outstandingByCard.entries())) {
+      if (remaining <= 0) break;
+      const share = roundMoney(Math.min(cardOutstanding, remaining));
+      if (share <= 0) continue;
+      const locked = await executor.select().from(schema.giftCards)
+        .where(eq(schema.giftCards.id, giftCardId))
+        .for("update");
+      const card = locked[0];
+      if (!card || card.status === "voided") continue;
+
+      const newBalance = roundMoney(parseFloat(card.balance) + share).toFixed(2);
+      await executor.update(schema.giftCards)
+        .set({ balance: newBalance, updatedAt: new Date() })
+        .where(eq(schema.giftCards.id, giftCardId));
+      await executor.insert(schema.giftCardTransactions).values({
+        giftCardId,
+        transactionType: entry.transactionType,
+        amount: share.toFixed(2),
+        balanceAfter: newBalance,
+        orderId,
+        refundId: entry.refundId ?? null,
+        performedBy: entry.performedBy ?? null,
+        description: `Returned ${share.toFixed(2)} - ${entry.reason}`,
+      });
+      remaining = roundMoney(remaining - share);
+      returned = roundMoney(returned + share);
+    }
+    if (amountsMatch(returned, outstanding)) {
+      await executor.update(schema.payments)
+        .set({ status: "refunded" })
+        .where(and(eq(schema.payments.orderId, orderId), eq(schema.payments.paymentMethod, "gift_card")));
+    }
+    return returned;
+  }
+
+  // Store Credit
+  async getStoreCreditAccount(customerId: string) {
+    const result = await db.select().from(schema.storeCreditAccounts).where(eq(schema.storeCreditAccounts.customerId, customerId));
+    return result[0];
+  }
+
+  async getStoreCreditTransactions(filters: { customerId?: string; orderId?: string }) {
+    const conditions = [];
+    if (filters.customerId) conditions.push(eq(schema.storeCreditTransactions.customerId, filters.customerId));
+    if (filters.orderId) conditions.push(eq(schema.storeCreditTransactions.orderId, filters.orderId));
+    return await db.select().from(schema.storeCreditTransactions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(schema.storeCreditTransactions.createdAt));
+  }
+
+  // Adds to (or, for a negative amount, takes from) the customer's wallet with its ledger entry.
+  // The wallet row is locked, so concurrent changes cannot lose an update.
+  private async changeStoreCredit(
+    executor: DbExecutor,
+    customerId: string,
+    amount: number,
+    entry: Omit<schema.StoreCreditTransaction, "id" | "customerId" | "amount" | "balanceAfter" | "createdAt">
+  ) {
+    await executor.insert(schema.storeCreditAccounts).values({ customerId }).onConflictDoNothing();
+    const locked = await executor.select().from(schema.storeCreditAccounts)
+      .where(eq(schema.storeCreditAccounts.customerId, customerId))
+      .for("update");
+    const account = locked[0];
+    const newBalance = roundMoney(parseFloat(account.balance) + amount);
+    if (newBalance < 0) {
+      throw new Error("Insufficient store credit");
+    }
+    await executor.update(schema.storeCreditAccounts)
+      .set({
+        balance: newBalance.toFixed(2),
+        lifetimeCredited: amount > 0 && entry.transactionType !== "restore"
+          ? roundMoney(parseFloat(account.lifetimeCredited) + amount).toFixed(2)
+          : account.lifetimeCredited,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.storeCreditAccounts.id, account.id));
+    const result = await executor.insert(schema.storeCreditTransactions).values({
+      ...entry,
+      customerId,
+      amount: amount.toFixed(2),
+      balanceAfter: newBalance.toFixed(2),
+    }).returning();
+    return result[0];
+  }
+
+  async adjustStoreCredit(customerId: string, amount: number, description: string, performedBy: string) {
+    return await db.transaction(async (tx) => {
+      return await this.changeStoreCredit(tx, customerId, amount, {
+        transactionType: "adjustment",
+        orderId: null,
+        refundId: null,
+        performedBy,
+        description,
+      });
+    });
+  }
+
+  private async redeemStoreCreditTender(executor: DbExecutor, order: schema.Order, tender: StoreCreditTender) {
+    const ledger = await this.changeStoreCredit(executor, tender.customerId, -parseFloat(tender.amount), {
+      transactionType: "redeem",
+      orderId: order.id,
+      refundId: null,
+      performedBy: tender.receivedBy || null,
+      description: `Paid ${tender.amount} on order #${order.orderNumber}`,
+    });
+    await executor.insert(schema.payments).values({
+      orderId: order.id,
+      sessionId: order.sessionId,
+      paymentMethod: "store_credit",
+      amount: tender.amount,
+      reference: "Store credit",
+      receivedBy: tender.receivedBy || null,
+      status: "completed",
+      ledgerEntryId: ledger.id,
+    });
+  }
+
+  // Gives back store credit paid on the order (all that is still out when amount is null) and
+  // returns how much went back. Refunds already paid into the wallet for the order count as given
+  // back. Once all of it is back, the store credit payment is marked refunded.
+  async returnStoreCreditTender(orderId: string, amount: number | null, entry: StoredValueReturn) {
+    return await db.transaction(async (tx) => {
+      const movements = await tx.select().from(schema.storeCreditTransactions)
+        .where(and(
+          eq(schema.storeCreditTransactions.orderId, orderId),
+          inArray(schema.storeCreditTransactions.transactionType, ["redeem", "restore", "refund"])
+        ))
+        .for("update");
+      const redemption = movements.find(t => t.transactionType === "redeem");
+      if (!redemption) return 0;
+
+      const outstanding = roundMoney(-movements.reduce((sum, t) => sum + parseFloat(t.amount), 0));
+      const returned = roundMoney(Math.min(outstanding, amount ?? outstanding));
+      if (returned <= 0) return 0;
+
+      await this.changeStoreCredit(tx, redemption.customerId, returned, {
+        transactionType: entry.transactionType,
+        orderId,
+        refundId: entry.refundId ?? null,
+        performedBy: entry.performedBy ?? null,
+        description: `Returned ${returned.toFixed(2)} - ${entry.reason}`,
+      });
+      if (amountsMatch(returned, outstanding)) {
+        await tx.update(schema.payments)
+          .set({ status: "refunded" })
+          .where(and(eq(schema.payments.orderId, orderId), eq(schema.payments.paymentMethod, "store_credit")));
+      }
+      return returned;
+    });
+  }
+
+  // Refunds
+  async getRefund(id: string) {
+    const result = await db.select().from(schema.refunds).where(eq(schema.refunds.id, id));
+    return result[0];
+  }
+
+  async getRefundsByOrder(orderId: string) {
+    return await db.select().from(schema.refunds)
+      .where(eq(schema.refunds.orderId, orderId))
+      .orderBy(desc(schema.refunds.requestedAt));
+  }
+
+  async getAllRefunds() {
+    return await db.select().from(schema.refunds).orderBy(desc(schema.refunds.requestedAt));
+  }
+
+  async createRefund(refund: schema.InsertRefund) {
+    const result = await db.insert(schema.refunds).values(refund).returning();
+    return result[0];
+  }
+
+  // The refund, its lines and the stored value it pays back commit together. The order row and the
+  // refunded lines are locked, so concurrent refunds cannot refund a line twice or go past the order
+  // total. The card payout runs last - if Stripe fails nothing is recorded.
+  async createOrderRefund(request: OrderRefund) {
+    return await db.transaction(async (tx) => {
+      const lockedOrder = await tx.select().from(schema.orders)
+        .where(eq(schema.orders.id, request.refund.orderId))
+        .for("update");
+      const order = lockedOrder[0];
+      if (!order) {
+        throw new Error("Order not found");
+      }
+
+      const lineIds = request.lines.map(line => line.orderItemId);
+      const orderLines = lineIds.length > 0
+        ? await tx.select().from(schema.orderItems)
+            .where(and(eq(schema.orderItems.orderId, order.id), inArray(schema.orderItems.id, lineIds)))
+            .for("update")
+        : [];
+      for (const requested of request.lines) {
+        const line = orderLines.find(l => l.id === requested.orderItemId);
+        if (!line) {
+          throw new Error("Refund line does not belong to this order");
+        }
+        const remaining = line.quantity - line.refundedQuantity;
+        if (requested.quantity > remaining) {
+          throw new Error(`Can refund at most ${remaining} of ${line.name}`);
+        }
+        line.refundedQuantity += requested.quantity;
+      }
+
+      const amount = parseFloat(request.refund.refundAmount);
+      const orderTotal = parseFloat(order.total);
+      const previous = await tx.select().from(schema.refunds)
+        .where(and(eq(schema.refunds.orderId, order.id), inArray(schema.refunds.status, ["pending", "completed"])));
+      const refundedBefore = roundMoney(previous.reduce((sum, r) => sum + parseFloat(r.refundAmount), 0));
+      const refundedTotal = roundMoney(refundedBefore + amount);
+      if (refundedTotal > orderTotal && !amountsMatch(refundedTotal, orderTotal)) {
+        throw new Error(`Cannot refund ${amount.toFixed(2)}. Already refunded ${refundedBefore.toFixed(2)} of ${orderTotal.toFixed(2)} total.`);
+      }
+
+      // A refund paid into the customer's wallet is settled at once
+      const result = await tx.insert(schema.refunds)
+        .values(request.storeCreditCustomerId
+          ? { ...request.refund, status: "completed", processedAt: new Date() }
+          : request.refund)
+        .returning();
+      const refund = result[0];
+      if (request.storeCreditCustomerId) {
+        await this.changeStoreCredit(tx, request.storeCreditCustomerId, amount, {
+          transactionType: "refund",
+          orderId: order.id,
+          refundId: refund.id,
+          performedBy: refund.processedBy,
+          description: `Refund on order #${order.orderNumber}`,
+        });
+      }
+      if (refund.refundMethod === "gift_card") {
+        const returned = await this.giveBackGiftCardTenders(tx, order.id, amount, {
+          transactionType: "refund",
+          reason: `refund on order #${order.orderNumber}`,
+          refundId: refund.id,
+          performedBy: refund.processedBy,
+        });
+        if (!amountsMatch(returned, amount)) {
+          throw new Error(`At most ${returned.toFixed(2)} can go back onto gift cards`);
+        }
+      }
+
+      for (const line of request.lines) {
+        await tx.insert(schema.refundItems).values({ ...line, refundId: refund.id });
+      }
+      for (const line of orderLines) {
+        await tx.update(schema.orderItems)
+          .set({ refundedQuantity: line.refundedQuantity })
+          .where(eq(schema.orderItems.id, line.id));
+      }
+
+      if (refundedTotal >= orderTotal || amountsMatch(refundedTotal, orderTotal)) {
+        await this.giveBackRedeemedPoints(tx, order.id, null, `order #${order.orderNumber} was refunded`);
+      } else if (request.pointsShare && request.pointsShare > 0) {
+        await this.giveBackRedeemedPoints(tx, order.id, request.pointsShare, `refund on order #${order.orderNumber}`);
+      }
+
+      if (request.payOut) {
+        const stripeRefundId = await request.payOut(refund);
+        const paidOut = await tx.update(schema.refunds)
+          .set({ stripeRefundId })
+          .where(eq(schema.refunds.id, refund.id))
+          .returning();
+        return paidOut[0];
+      }
+      return refund;
+    });
+  }
+
+  async updateRefund(id: string, refund: Partial<schema.InsertRefund>) {
+    const result = await db.update(schema.refunds)
+      .set(refund)
+      .where(eq(schema.refunds.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getRefundItems(refundId: string) {
+    return await db.select().from(schema.refundItems).where(eq(schema.refundItems.refundId, refundId));
+  }
+
+  async createRefundItem(item: schema.InsertRefundItem) {
+    const result = await db.insert(schema.refundItems).values(item).returning();
+    return result[0];
+  }
+
+  // Suppliers
+  async getAllSuppliers() {
+    return await db.select().from(schema.suppliers).orderBy(schema.suppliers.name);
+  }
+
+  async getSupplier(id: string) {
+    const result = await db.select().from(schema.suppliers).where(eq(schema.suppliers.id, id));
+    return result[0];
+  }
+
+  async createSupplier(supplier: schema.InsertSupplier) {
+    const result = await db.insert(schema.suppliers).values(supplier).returning();
+    return result[0];
+  }
+
+  async updateSupplier(id: string, supplier: Partial<schema.InsertSupplier>) {
+    const result = await db.update(schema.suppliers)
+      .set(supplier)
+      .where(eq(schema.suppliers.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteSupplier(id: string) {
+    await db.delete(schema.suppliers).where(eq(schema.suppliers.id, id));
+    return true;
+  }
+
+  // Ingredients
+  async getAllIngredients() {
+    return await db.select().from(schema.ingredients).orderBy(schema.ingredients.name);
+  }
+
+  async getIngredient(id: string) {
+    const result = await db.select().from(schema.ingredients).where(eq(schema.ingredients.id, id));
+    return result[0];
+  }
+
+  async createIngredient(ingredient: schema.InsertIngredient) {
+    const result = await db.insert(schema.ingredients).values(ingredient).returning();
+    return result[0];
+  }
+
+  async updateIngredient(id: string, ingredient: Partial<schema.InsertIngredient>) {
+    const result = await db.update(schema.ingredients)
+      .set({ ...ingredient, updatedAt: new Date() })
+      .where(eq(schema.ingredients.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteIngredient(id: string) {
+    await db.delete(schema.ingredients).where(eq(schema.ingredients.id, id));
+    return true;
+  }
+
+  // Recipes
+  async getAllRecipeItems() {
+    return await db.select().from(schema.recipeItems).orderBy(schema.recipeItems.createdAt);
+  }
+
+  async getRecipeItem(id: string) {
+    const result = await db.select().from(schema.recipeItems).where(eq(schema.recipeItems.id, id));
+    return result[0];
+  }
+
+  async getRecipeItemsByMenuItem(menuItemId: string) {
+    return await db.select().from(schema.recipeItems)
+      .where(eq(schema.recipeItems.menuItemId, menuItemId))
+      .orderBy(schema.recipeItems.createdAt);
+  }
+
+  async createRecipeItem(item: schema.InsertRecipeItem) {
+    const result = await db.insert(schema.recipeItems).values(item).returning();
+    return result[0];
+  }
+
+  async updateRecipeItem(id: string, item: Partial<schema.InsertRecipeItem>) {
+    const result = await db.update(schema.recipeItems)
+      .set(item)
+      .where(eq(schema.recipeItems.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteRecipeItem(id: string) {
+    await db.delete(schema.recipeItems).where(eq(schema.recipeItems.id, id));
+    return true;
+  }
+
+  // Inventory Transactions
+  async getInventoryTransactions(menuItemId: string, branchId: string) {
+    return await db.select().from(schema.inventoryTransactions)
+      .where(and(
         eq(schema.inventoryTransactions.menuItemId, menuItemId),
         eq(schema.inventoryTransactions.branchId, branchId)
       ))
@@ -1290,20 +3122,208 @@ export class DbStorage implements IStorage {
       .orderBy(desc(schema.inventoryTransactions.createdAt));
   }
 
-  async createInventoryTransaction(transaction: schema.InsertInventoryTransaction) {
-    const result = await db.insert(schema.inventoryTransactions).values(transaction).returning();
-    
-    // Update menu item stock quantity
-    const menuItem = await this.getMenuItem(transaction.menuItemId);
-    if (menuItem) {
-      await this.updateMenuItem(transaction.menuItemId, {
-        stockQuantity: transaction.balanceAfter
-      });
+  async getInventoryTransactionsByOrder(orderId: string) {
+    return await db.select().from(schema.inventoryTransactions)
+      .where(eq(schema.inventoryTransactions.orderId, orderId))
+      .orderBy(asc(schema.inventoryTransactions.createdAt));
+  }
+
+  async getInventoryTransactionsByOrderIds(orderIds: string[]) {
+    if (orderIds.length === 0) return [];
+    return await db.select().from(schema.inventoryTransactions)
+      .where(inArray(schema.inventoryTransactions.orderId, orderIds))
+      .orderBy(asc(schema.inventoryTransactions.createdAt));
+  }
+
+  async getInventoryTransactionsBetween(branchId: string | null, startDate: Date, endDate: Date, transactionTypes: string[]) {
+    const conditions = [
+      gte(schema.inventoryTransactions.createdAt, startDate),
+      lte(schema.inventoryTransactions.createdAt, endDate),
+      inArray(schema.inventoryTransactions.transactionType, transactionTypes),
+    ];
+    if (branchId) conditions.push(eq(schema.inventoryTransactions.branchId, branchId));
+    return await db.select().from(schema.inventoryTransactions)
+      .where(and(...conditions))
+      .orderBy(asc(schema.inventoryTransactions.createdAt));
+  }
+
+  // The branch's on-hand level moves with the transaction; balanceAfter is that new level.
+  // Stock coming in at a known unit cost reprices the branch's average; anything else is costed at it.
+  async createInventoryTransaction(transaction: NewInventoryTransaction, batch?: schema.StockBatchInput) {
+    return await db.transaction(async (tx) => {
+      const unitCost = transaction.unitCost
+        ? parseFloat(transaction.unitCost)
+        : transaction.totalCost && transaction.quantity > 0 ? parseFloat(transaction.totalCost) / transaction.quantity : null;
+      const stock = await this.moveBranchStock(tx, transaction.branchId, transaction, transaction.quantity, 0, unitCost);
+      const cost = await this.movementCost(tx, stock, transaction.quantity, unitCost);
+      const result = await tx.insert(schema.inventoryTransactions)
+        .values({
+          ...transaction,
+          unitCost: cost.unitCost,
+          totalCost: transaction.totalCost ?? cost.totalCost,
+          balanceAfter: stock.onHand,
+        })
+        .returning();
+      if (transaction.quantity < 0) {
+        await this.drawStockBatches(tx, transaction.branchId, transaction, -transaction.quantity);
+      } else if (batch?.lotNumber || batch?.expiryDate) {
+        await this.createStockBatch(tx, result[0], batch);
+      }
+      return result[0];
+    });
+  }
+
+  // Branch Stock
+  async getBranchStock(branchId: string) {
+    return await db.select().from(schema.branchStock)
+      .where(eq(schema.branchStock.branchId, branchId));
+  }
+
+  async getBranchStockLevel(branchId: string, item: schema.StockItemRef) {
+    const result = await db.select().from(schema.branchStock)
+      .where(and(eq(schema.branchStock.branchId, branchId), this.stockItemCondition(schema.branchStock, item)));
+    return result[0];
+  }
+
+  private stockItemCondition(
+    table: typeof schema.branchStock | typeof schema.stockReservations | typeof schema.stockBatches,
+    item: schema.StockItemRef
+  ) {
+    return item.ingredientId
+      ? eq(table.ingredientId, item.ingredientId)
+      : eq(table.menuItemId, item.menuItemId!);
+  }
+
+  // Applies on-hand/reserved deltas to the branch's row (created on first movement) and keeps the
+  // item's all-branch total in step. Increments happen in SQL so concurrent movements add up.
+  // Stock received at a unit cost is blended into the weighted-average cost; when nothing costed is
+  // on hand, that cost becomes the average.
+  private async moveBranchStock(
+    executor: DbExecutor,
+    branchId: string,
+    item: schema.StockItemRef,
+    onHandDelta: number,
+    reservedDelta: number,
+    unitCost?: number | null
+  ) {
+    if (!item.menuItemId && !item.ingredientId) {
+      throw new Error("Stock movement needs a menu item or an ingredient");
+    }
+    const ref = item.ingredientId ? { ingredientId: item.ingredientId } : { menuItemId: item.menuItemId! };
+    await executor.insert(schema.branchStock).values({ branchId, ...ref }).onConflictDoNothing();
+
+    const { onHand, averageCost } = schema.branchStock;
+    const repriced = onHandDelta > 0 && unitCost != null
+      ? {
+          averageCost: drizzleSql`case when ${onHand} <= 0 or ${averageCost} = 0 then ${unitCost}::numeric
+            else (${onHand} * ${averageCost} + ${onHandDelta * unitCost}::numeric) / (${onHand} + ${onHandDelta}) end`,
+        }
+      : {};
+    const result = await executor.update(schema.branchStock)
+      .set({
+        onHand: drizzleSql`${schema.branchStock.onHand} + ${onHandDelta}`,
+        reserved: drizzleSql`${schema.branchStock.reserved} + ${reservedDelta}`,
+        available: drizzleSql`${schema.branchStock.onHand} + ${onHandDelta} - (${schema.branchStock.reserved} + ${reservedDelta})`,
+        ...repriced,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(schema.branchStock.branchId, branchId), this.stockItemCondition(schema.branchStock, ref)))
+      .returning();
+
+    if (onHandDelta !== 0) {
+      if (ref.ingredientId) {
+        await executor.update(schema.ingredients)
+          .set({ stockQuantity: drizzleSql`${schema.ingredients.stockQuantity} + ${onHandDelta}`, updatedAt: new Date() })
+          .where(eq(schema.ingredients.id, ref.ingredientId));
+      } else {
+        await executor.update(schema.menuItems)
+          .set({ stockQuantity: drizzleSql`coalesce(${schema.menuItems.stockQuantity}, 0) + ${onHandDelta}` })
+          .where(eq(schema.menuItems.id, ref.menuItemId!));
+      }
     }
-    
     return result[0];
   }
 
+  // Unit and total cost of a movement: its own unit cost when given, otherwise the branch's average
+  // (an ingredient not yet bought at the branch falls back to its standard cost per unit)
+  private async movementCost(executor: DbExecutor, stock: schema.BranchStock, quantity: number, unitCost?: number | null) {
+    let cost = unitCost ?? parseFloat(stock.averageCost);
+    if (unitCost == null && cost === 0 && stock.ingredientId) {
+      const ingredient = await executor.select({ costPerUnit: schema.ingredients.costPerUnit })
+        .from(schema.ingredients)
+        .where(eq(schema.ingredients.id, stock.ingredientId));
+      cost = parseFloat(ingredient[0]?.costPerUnit || "0");
+    }
+    return { unitCost: cost.toFixed(4), totalCost: roundMoney(quantity * cost).toFixed(2) };
+  }
+
+  // Stock Reservations
+  async getStockReservationsByOrder(orderId: string) {
+    return await db.select().from(schema.stockReservations)
+      .where(eq(schema.stockReservations.orderId, orderId))
+      .orderBy(asc(schema.stockReservations.createdAt));
+  }
+
+  async reserveOrderStock(orderId: string, branchId: string, lines: StockReservationLine[]) {
+    return await db.transaction(async (tx) => {
+      const created: schema.StockReservation[] = [];
+      for (const line of lines) {
+        if (line.quantity <= 0) continue;
+        await this.moveBranchStock(tx, branchId, line, 0, line.quantity);
+        const result = await tx.insert(schema.stockReservations).values({
+          orderId,
+          branchId,
+          menuItemId: line.menuItemId || null,
+          ingredientId: line.ingredientId || null,
+          quantity: line.quantity,
+        }).returning();
+        created.push(result[0]);
+      }
+      return created;
+    });
+  }
+
+  // Turns an active reservation into a sale; only the first caller gets the transaction back
+  async consumeStockReservation(id: string, sale: Omit<NewInventoryTransaction, "branchId" | "menuItemId" | "ingredientId" | "quantity" | "transactionType">) {
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(schema.stockReservations)
+        .set({ status: "consumed", updatedAt: new Date() })
+        .where(and(eq(schema.stockReservations.id, id), eq(schema.stockReservations.status, "active")))
+        .returning();
+      const reservation = result[0];
+      if (!reservation) return undefined;
+
+      const stock = await this.moveBranchStock(tx, reservation.branchId, reservation, -reservation.quantity, -reservation.quantity);
+      const transaction = await tx.insert(schema.inventoryTransactions).values({
+        ...sale,
+        ...await this.movementCost(tx, stock, -reservation.quantity),
+        branchId: reservation.branchId,
+        menuItemId: reservation.menuItemId,
+        ingredientId: reservation.ingredientId,
+        transactionType: "sale",
+        quantity: -reservation.quantity,
+        balanceAfter: stock.onHand,
+      }).returning();
+      await this.drawStockBatches(tx, reservation.branchId, reservation, reservation.quantity);
+      return transaction[0];
+    });
+  }
+
+  // Gives an active reservation back to available stock; only the first caller gets it back
+  async releaseStockReservation(id: string) {
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(schema.stockReservations)
+        .set({ status: "released", updatedAt: new Date() })
+        .where(and(eq(schema.stockReservations.id, id), eq(schema.stockReservations.status, "active")))
+        .returning();
+      const reservation = result[0];
+      if (reservation) {
+        await this.moveBranchStock(tx, reservation.branchId, reservation, 0, -reservation.quantity);
+      }
+      return reservation;
+    });
+  }
+
   // Stock Wastage
   async getStockWastage(branchId: string) {
     return await db.select().from(schema.stockWastage)
@@ -1311,27 +3331,335 @@ export class DbStorage implements IStorage {
       .orderBy(desc(schema.stockWastage.wasteDate));
   }
 
+  // The wastage record and its stock movement are written together, so stock never drops without
+  // the wastage that explains it (or the other way round)
   async createStockWastage(wastage: schema.InsertStockWastage) {
-    const result = await db.insert(schema.stockWastage).values(wastage).returning();
-    
-    // Create corresponding inventory transaction
-    const menuItem = await this.getMenuItem(wastage.menuItemId);
-    if (menuItem) {
-      const newBalance = (menuItem.stockQuantity || 0) - wastage.quantity;
-      await this.createInventoryTransaction({
-        menuItemId: wastage.menuItemId,
+    if (!wastage.menuItemId && !wastage.ingredientId) {
+      throw new Error("Wastage needs a menu item or an ingredient");
+    }
+    return await db.transaction(async (tx) => {
+      const item: schema.StockItemRef = wastage.ingredientId
+        ? { menuItemId: null, ingredientId: wastage.ingredientId }
+        : { menuItemId: wastage.menuItemId!, ingredientId: null };
+      const found = item.ingredientId
+        ? await tx.select({ id: schema.ingredients.id }).from(schema.ingredients).where(eq(schema.ingredients.id, item.ingredientId))
+        : await tx.select({ id: schema.menuItems.id }).from(schema.menuItems).where(eq(schema.menuItems.id, item.menuItemId!));
+      if (found.length === 0) {
+        throw new Error(item.ingredientId ? "Ingredient not found" : "Menu item not found");
+      }
+
+      const result = await tx.insert(schema.stockWastage).values({ ...wastage, ...item }).returning();
+      const stock = await this.moveBranchStock(tx, wastage.branchId, item, -wastage.quantity, 0);
+      const cost = await this.movementCost(tx, stock, -wastage.quantity);
+      await tx.insert(schema.inventoryTransactions).values({
+        ...item,
         branchId: wastage.branchId,
-        transactionType: 'wastage',
+        transactionType: "wastage",
         quantity: -wastage.quantity,
-        balanceAfter: newBalance,
+        balanceAfter: stock.onHand,
+        ...cost,
         reason: wastage.reason,
-        performedBy: wastage.reportedBy || undefined,
+        performedBy: wastage.reportedBy || null,
+      });
+      await this.drawStockBatches(tx, wastage.branchId, item, wastage.quantity);
+      return result[0];
+    });
+  }
+
+  // Stock Batches
+  async getStockBatches(filters: StockBatchFilters) {
+    const conditions = [];
+    if (filters.branchId) conditions.push(eq(schema.stockBatches.branchId, filters.branchId));
+    if (filters.item) conditions.push(this.stockItemCondition(schema.stockBatches, filters.item));
+    if (filters.statuses?.length) conditions.push(inArray(schema.stockBatches.status, filters.statuses));
+    if (filters.expiresBefore) conditions.push(lt(schema.stockBatches.expiryDate, filters.expiresBefore));
+    return await db.select().from(schema.stockBatches)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(drizzleSql`${schema.stockBatches.expiryDate} asc nulls last`, asc(schema.stockBatches.createdAt));
+  }
+
+  async getStockBatch(id: string) {
+    const result = await db.select().from(schema.stockBatches).where(eq(schema.stockBatches.id, id));
+    return result[0];
+  }
+
+  // A batch started by stock coming in (a purchase, goods receipt or transfer)
+  private async createStockBatch(
+    executor: DbExecutor,
+    receipt: schema.InventoryTransaction,
+    batch: schema.StockBatchInput,
+    quantity: number = receipt.quantity
+  ) {
+    const result = await executor.insert(schema.stockBatches).values({
+      branchId: receipt.branchId,
+      menuItemId: receipt.menuItemId,
+      ingredientId: receipt.ingredientId,
+      lotNumber: batch.lotNumber || null,
+      expiryDate: batch.expiryDate || null,
+      quantityReceived: quantity,
+      quantityRemaining: quantity,
+      unitCost: receipt.unitCost,
+      inventoryTransactionId: receipt.id,
+    }).returning();
+    return result[0];
+  }
+
+  // Takes stock leaving the branch out of its batches, soonest expiry first (undated batches last).
+  // Returns what was drawn from each batch; stock beyond the batches' remaining quantity is untracked.
+  private async drawStockBatches(executor: DbExecutor, branchId: string, item: schema.StockItemRef, quantity: number) {
+    const batches = await executor.select().from(schema.stockBatches)
+      .where(and(
+        eq(schema.stockBatches.branchId, branchId),
+        this.stockItemCondition(schema.stockBatches, item),
+        eq(schema.stockBatches.status, "active")
+      ))
+      .orderBy(drizzleSql`${schema.stockBatches.expiryDate} asc nulls last`, asc(schema.stockBatches.createdAt))
+      .for("update");
+
+    const drawn: schema.TransferredBatch[] = [];
+    let outstanding = quantity;
+    for (const batch of batches) {
+      if (outstanding <= 0) break;
+      const take = Math.min(batch.quantityRemaining, outstanding);
+      outstanding -= take;
+      await executor.update(schema.stockBatches)
+        .set({
+          quantityRemaining: batch.quantityRemaining - take,
+          status: batch.quantityRemaining === take ? "depleted" : "active",
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.stockBatches.id, batch.id));
+      drawn.push({
+        lotNumber: batch.lotNumber,
+        expiryDate: batch.expiryDate ? batch.expiryDate.toISOString() : null,
+        quantity: take,
       });
     }
-    
+    return drawn;
+  }
+
+  // Books what is left of a batch as expired wastage; only the first caller gets the wastage back
+  async writeOffStockBatch(id: string, reportedBy: string | null, reason: string) {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.select().from(schema.stockBatches)
+        .where(eq(schema.stockBatches.id, id))
+        .for("update");
+      const batch = locked[0];
+      if (!batch || batch.status !== "active" || batch.quantityRemaining <= 0) return undefined;
+
+      const stock = await this.moveBranchStock(tx, batch.branchId, batch, -batch.quantityRemaining, 0);
+      const cost = batch.unitCost
+        ? { unitCost: batch.unitCost, totalCost: roundMoney(-batch.quantityRemaining * parseFloat(batch.unitCost)).toFixed(2) }
+        : await this.movementCost(tx, stock, -batch.quantityRemaining);
+      const wastage = await tx.insert(schema.stockWastage).values({
+        menuItemId: batch.menuItemId,
+        ingredientId: batch.ingredientId,
+        branchId: batch.branchId,
+        quantity: batch.quantityRemaining,
+        wastageType: "expired",
+        estimatedCost: (-parseFloat(cost.totalCost)).toFixed(2),
+        reason,
+        reportedBy,
+        wasteDate: new Date(),
+      }).returning();
+      await tx.insert(schema.inventoryTransactions).values({
+        menuItemId: batch.menuItemId,
+        ingredientId: batch.ingredientId,
+        branchId: batch.branchId,
+        transactionType: "wastage",
+        quantity: -batch.quantityRemaining,
+        balanceAfter: stock.onHand,
+        ...cost,
+        reference: batch.lotNumber,
+        reason,
+        performedBy: reportedBy,
+      });
+      await tx.update(schema.stockBatches)
+        .set({
+          quantityRemaining: 0,
+          status: "written_off",
+          stockWastageId: wastage[0].id,
+          writtenOffAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.stockBatches.id, id));
+      return wastage[0];
+    });
+  }
+
+  // Stock Takes
+  async getStockTakes(branchId?: string, status?: string) {
+    const conditions = [];
+    if (branchId) conditions.push(eq(schema.stockTakes.branchId, branchId));
+    if (status) conditions.push(eq(schema.stockTakes.status, status));
+    return await db.select().from(schema.stockTakes)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(schema.stockTakes.createdAt));
+  }
+
+  async getStockTake(id: string) {
+    const result = await db.select().from(schema.stockTakes).where(eq(schema.stockTakes.id, id));
+    return result[0];
+  }
+
+  async getStockTakeItems(stockTakeId: string) {
+    return await db.select().from(schema.stockTakeItems)
+      .where(eq(schema.stockTakeItems.stockTakeId, stockTakeId))
+      .orderBy(asc(schema.stockTakeItems.description));
+  }
+
+  async createStockTake(stockTake: schema.InsertStockTake, items: schema.InsertStockTakeItem[]) {
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(schema.stockTakes).values(stockTake).returning();
+      const created = result[0];
+      if (items.length > 0) {
+        await tx.insert(schema.stockTakeItems)
+          .values(items.map(item => ({ ...item, stockTakeId: created.id })));
+      }
+      return created;
+    });
+  }
+
+  // Counts can be entered in several passes until the stock take is posted
+  async recordStockTakeCounts(stockTakeId: string, counts: schema.StockTakeCount[], countedBy: string) {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.select().from(schema.stockTakes)
+        .where(eq(schema.stockTakes.id, stockTakeId))
+        .for("update");
+      if (locked[0]?.status !== "counting") {
+        throw new Error("Stock take is no longer open for counting");
+      }
+
+      const updated: schema.StockTakeItem[] = [];
+      for (const count of counts) {
+        const result = await tx.update(schema.stockTakeItems)
+          .set({
+            countedQuantity: count.countedQuantity,
+            countedBy: count.countedQuantity === null ? null : countedBy,
+            countedAt: count.countedQuantity === null ? null : new Date(),
+          })
+          .where(and(
+            eq(schema.stockTakeItems.id, count.stockTakeItemId),
+            eq(schema.stockTakeItems.stockTakeId, stockTakeId)
+          ))
+          .returning();
+        if (result[0]) updated.push(result[0]);
+      }
+      return updated;
+    });
+  }
+
+  // Guarded on the current status so concurrent changes cannot both win
+  async transitionStockTake(id: string, fromStatuses: string[], changes: Partial<schema.InsertStockTake>) {
+    const result = await db.update(schema.stockTakes)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(schema.stockTakes.id, id), inArray(schema.stockTakes.status, fromStatuses)))
+      .returning();
     return result[0];
   }
 
+  // Books each counted line's variance (counted - expected) as an adjustment at the line's unit cost
+  async postStockTake(id: string, postedBy: string) {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.select().from(schema.stockTakes)
+        .where(eq(schema.stockTakes.id, id))
+        .for("update");
+      const stockTake = locked[0];
+      if (!stockTake || stockTake.status !== "counting") {
+        throw new Error("Stock take is no longer open for counting");
+      }
+
+      const items = await tx.select().from(schema.stockTakeItems)
+        .where(eq(schema.stockTakeItems.stockTakeId, id));
+      let totalVarianceValue = 0;
+      for (const item of items) {
+        if (item.countedQuantity === null) continue;
+
+        const variance = item.countedQuantity - item.expectedQuantity;
+        const varianceValue = roundMoney(variance * parseFloat(item.unitCost));
+        totalVarianceValue += varianceValue;
+
+        let inventoryTransactionId: string | null = null;
+        if (variance !== 0) {
+          const stock = await this.moveBranchStock(tx, stockTake.branchId, item, variance, 0, parseFloat(item.unitCost));
+          if (variance < 0) {
+            await this.drawStockBatches(tx, stockTake.branchId, item, -variance);
+          }
+          const transaction = await tx.insert(schema.inventoryTransactions).values({
+            menuItemId: item.menuItemId,
+            ingredientId: item.ingredientId,
+            branchId: stockTake.branchId,
+            transactionType: "adjustment",
+            quantity: variance,
+            balanceAfter: stock.onHand,
+            unitCost: item.unitCost,
+            totalCost: varianceValue.toFixed(2),
+            reference: stockTake.takeNumber,
+            reason: `Stock take variance (expected ${item.expectedQuantity}, counted ${item.countedQuantity})`,
+            performedBy: postedBy,
+          }).returning();
+          inventoryTransactionId = transaction[0].id;
+        }
+        await tx.update(schema.stockTakeItems)
+          .set({ variance, varianceValue: varianceValue.toFixed(2), inventoryTransactionId })
+          .where(eq(schema.stockTakeItems.id, item.id));
+      }
+
+      const updated = await tx.update(schema.stockTakes)
+        .set({
+          status: "posted",
+          totalVarianceValue: roundMoney(totalVarianceValue).toFixed(2),
+          postedBy,
+          postedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.stockTakes.id, id))
+        .returning();
+      return updated[0];
+    });
+  }
+
+  async getPostedStockTakeItems(branchId: string | null, startDate: Date, endDate: Date) {
+    const conditions = [
+      eq(schema.stockTakes.status, "posted"),
+      gte(schema.stockTakes.postedAt, startDate),
+      lte(schema.stockTakes.postedAt, endDate),
+    ];
+    if (branchId) conditions.push(eq(schema.stockTakes.branchId, branchId));
+    return await db.select({ item: schema.stockTakeItems, stockTake: schema.stockTakes })
+      .from(schema.stockTakeItems)
+      .innerJoin(schema.stockTakes, eq(schema.stockTakeItems.stockTakeId, schema.stockTakes.id))
+      .where(and(...conditions))
+      .orderBy(desc(schema.stockTakes.postedAt));
+  }
+
+  async getStockWastageBetween(branchId: string | null, startDate: Date, endDate: Date) {
+    const conditions = [
+      gte(schema.stockWastage.wasteDate, startDate),
+      lte(schema.stockWastage.wasteDate, endDate),
+    ];
+    if (branchId) conditions.push(eq(schema.stockWastage.branchId, branchId));
+    return await db.select().from(schema.stockWastage)
+      .where(and(...conditions))
+      .orderBy(desc(schema.stockWastage.wasteDate));
+  }
+
+  // Unit cost of the item's most recent purchase, for items without a cost of their own
+  async getLastPurchaseUnitCost(item: schema.StockItemRef) {
+    const result = await db.select({ unitCost: schema.inventoryTransactions.unitCost })
+      .from(schema.inventoryTransactions)
+      .where(and(
+        eq(schema.inventoryTransactions.transactionType, "purchase"),
+        item.ingredientId
+          ? eq(schema.inventoryTransactions.ingredientId, item.ingredientId)
+          : eq(schema.inventoryTransactions.menuItemId, item.menuItemId!),
+        drizzleSql`${schema.inventoryTransactions.unitCost} is not null`
+      ))
+      .orderBy(desc(schema.inventoryTransactions.createdAt))
+      .limit(1);
+    return result[0]?.unitCost ? parseFloat(result[0].unitCost) : undefined;
+  }
+
   // Reorder Points
   async getReorderPoints(branchId: string) {
     return await db.select().from(schema.reorderPoints)
@@ -1364,21 +3692,52 @@ export class DbStorage implements IStorage {
 
   async checkLowStock(branchId: string) {
     // Get all reorder points for this branch
-    const reorderPoints = await this.getReorderPoints(branchId);
-    const lowStockItems: Array<{menuItem: schema.MenuItem, currentStock: number, reorderLevel: number}> = [];
+    const [reorderPoints, stockLevels] = await Promise.all([
+      this.getReorderPoints(branchId),
+      this.getBranchStock(branchId),
+    ]);
+    const lowStockItems: LowStockItem[] = [];
+
+    // Available stock at this branch (on hand less what open orders have reserved)
+    const levelOf = (item: schema.StockItemRef) => {
+      const level = stockLevels.find(row => item.ingredientId
+        ? row.ingredientId === item.ingredientId
+        : row.menuItemId === item.menuItemId);
+      return { onHand: level?.onHand ?? 0, reserved: level?.reserved ?? 0, currentStock: level?.available ?? 0 };
+    };
     
     for (const point of reorderPoints) {
       if (!point.isActive) continue;
       
+      if (point.ingredientId) {
+        const ingredient = await this.getIngredient(point.ingredientId);
+        if (!ingredient || !ingredient.isActive) continue;
+
+        const level = levelOf(point);
+        if (level.currentStock <= point.reorderLevel) {
+          lowStockItems.push({
+            ingredient,
+            ...level,
+            reorderLevel: point.reorderLevel,
+            reorderQuantity: point.reorderQuantity,
+            preferredSupplierId: point.preferredSupplierId,
+          });
+        }
+        continue;
+      }
+
+      if (!point.menuItemId) continue;
       const menuItem = await this.getMenuItem(point.menuItemId);
       if (!menuItem) continue;
       
-      const currentStock = menuItem.stockQuantity || 0;
-      if (currentStock <= point.reorderLevel) {
+      const level = levelOf(point);
+      if (level.currentStock <= point.reorderLevel) {
         lowStockItems.push({
           menuItem,
-          currentStock,
-          reorderLevel: point.reorderLevel
+          ...level,
+          reorderLevel: point.reorderLevel,
+          reorderQuantity: point.reorderQuantity,
+          preferredSupplierId: point.preferredSupplierId,
         });
       }
     }
@@ -1386,6 +3745,415 @@ export class DbStorage implements IStorage {
     return lowStockItems;
   }
 
+  // Purchase Orders
+  async getPurchaseOrders(filters: PurchaseOrderFilters = {}) {
+    const conditions = [];
+    if (filters.branchId) conditions.push(eq(schema.purchaseOrders.branchId, filters.branchId));
+    if (filters.supplierId) conditions.push(eq(schema.purchaseOrders.supplierId, filters.supplierId));
+    if (filters.status) conditions.push(eq(schema.purchaseOrders.status, filters.status));
+    return await db.select().from(schema.purchaseOrders)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(schema.purchaseOrders.createdAt));
+  }
+
+  async getPurchaseOrder(id: string) {
+    const result = await db.select().from(schema.purchaseOrders).where(eq(schema.purchaseOrders.id, id));
+    return result[0];
+  }
+
+  async getPurchaseOrderItems(purchaseOrderId: string) {
+    return await db.select().from(schema.purchaseOrderItems)
+      .where(eq(schema.purchaseOrderItems.purchaseOrderId, purchaseOrderId))
+      .orderBy(asc(schema.purchaseOrderItems.createdAt));
+  }
+
+  // Lines of the branch's purchase orders that are still expected to arrive
+  async getOpenPurchaseOrderItems(branchId: string) {
+    const rows = await db.select({ item: schema.purchaseOrderItems })
+      .from(schema.purchaseOrderItems)
+      .innerJoin(schema.purchaseOrders, eq(schema.purchaseOrderItems.purchaseOrderId, schema.purchaseOrders.id))
+      .where(and(
+        eq(schema.purchaseOrders.branchId, branchId),
+        inArray(schema.purchaseOrders.status, ["draft", "sent", "partially_received"])
+      ));
+    return rows.map(row => row.item);
+  }
+
+  async createPurchaseOrder(purchaseOrder: schema.InsertPurchaseOrder, items: schema.InsertPurchaseOrderItem[]) {
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(schema.purchaseOrders).values(purchaseOrder).returning();
+      const created = result[0];
+      if (items.length > 0) {
+        await tx.insert(schema.purchaseOrderItems)
+          .values(items.map(item => ({ ...item, purchaseOrderId: created.id })));
+      }
+      return await this.recalculatePurchaseOrderTotal(tx, created.id);
+    });
+  }
+
+  async updatePurchaseOrder(id: string, purchaseOrder: Partial<schema.InsertPurchaseOrder>) {
+    const result = await db.update(schema.purchaseOrders)
+      .set({ ...purchaseOrder, updatedAt: new Date() })
+      .where(eq(schema.purchaseOrders.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Guarded on the current status so concurrent changes cannot both win
+  async transitionPurchaseOrder(id: string, fromStatuses: string[], changes: Partial<schema.InsertPurchaseOrder>) {
+    const result = await db.update(schema.purchaseOrders)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(schema.purchaseOrders.id, id), inArray(schema.purchaseOrders.status, fromStatuses)))
+      .returning();
+    return result[0];
+  }
+
+  async addPurchaseOrderItems(purchaseOrderId: string, items: schema.InsertPurchaseOrderItem[]) {
+    if (items.length === 0) return [];
+    return await db.transaction(async (tx) => {
+      const created = await tx.insert(schema.purchaseOrderItems)
+        .values(items.map(item => ({ ...item, purchaseOrderId })))
+        .returning();
+      await this.recalculatePurchaseOrderTotal(tx, purchaseOrderId);
+      return created;
+    });
+  }
+
+  async updatePurchaseOrderItem(id: string, item: Partial<schema.InsertPurchaseOrderItem>) {
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(schema.purchaseOrderItems)
+        .set(item)
+        .where(eq(schema.purchaseOrderItems.id, id))
+        .returning();
+      if (result[0]) {
+        await this.recalculatePurchaseOrderTotal(tx, result[0].purchaseOrderId);
+      }
+      return result[0];
+    });
+  }
+
+  async deletePurchaseOrderItem(id: string) {
+    await db.transaction(async (tx) => {
+      const result = await tx.delete(schema.purchaseOrderItems)
+        .where(eq(schema.purchaseOrderItems.id, id))
+        .returning();
+      if (result[0]) {
+        await this.recalculatePurchaseOrderTotal(tx, result[0].purchaseOrderId);
+      }
+    });
+    return true;
+  }
+
+  private async recalculatePurchaseOrderTotal(executor: DbExecutor, purchaseOrderId: string) {
+    const items = await executor.select().from(schema.purchaseOrderItems)
+      .where(eq(schema.purchaseOrderItems.purchaseOrderId, purchaseOrderId));
+    const total = items.reduce((sum, item) => sum + item.quantityOrdered * parseFloat(item.unitCost), 0);
+    const result = await executor.update(schema.purchaseOrders)
+      .set({ totalAmount: roundMoney(total).toFixed(2), updatedAt: new Date() })
+      .where(eq(schema.purchaseOrders.id, purchaseOrderId))
+      .returning();
+    return result[0];
+  }
+
+  async getGoodsReceivedNotes(purchaseOrderId: string) {
+    return await db.select().from(schema.goodsReceivedNotes)
+      .where(eq(schema.goodsReceivedNotes.purchaseOrderId, purchaseOrderId))
+      .orderBy(asc(schema.goodsReceivedNotes.receivedAt));
+  }
+
+  async getGoodsReceivedNoteItems(goodsReceivedNoteIds: string[]) {
+    if (goodsReceivedNoteIds.length === 0) return [];
+    return await db.select().from(schema.goodsReceivedNoteItems)
+      .where(inArray(schema.goodsReceivedNoteItems.goodsReceivedNoteId, goodsReceivedNoteIds));
+  }
+
+  // GRN, purchase stock movements, received quantities, PO status and the supplier payable are
+  // written together; the PO row is locked so two deliveries cannot over-receive a line
+  async receivePurchaseOrder(id: string, receipt: GoodsReceipt) {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.select().from(schema.purchaseOrders)
+        .where(eq(schema.purchaseOrders.id, id))
+        .for("update");
+      const purchaseOrder = locked[0];
+      if (!purchaseOrder || !["sent", "partially_received"].includes(purchaseOrder.status)) {
+        throw new Error("Purchase order is not awaiting delivery");
+      }
+
+      const items = await tx.select().from(schema.purchaseOrderItems)
+        .where(eq(schema.purchaseOrderItems.purchaseOrderId, id));
+      const received = new Map(items.map(item => [item.id, item.quantityReceived]));
+      for (const line of receipt.lines) {
+        const item = items.find(i => i.id === line.purchaseOrderItemId);
+        if (!item) throw new Error("Line is not on this purchase order");
+        const total = (received.get(item.id) || 0) + line.quantity;
+        if (total > item.quantityOrdered) {
+          throw new Error(`Receiving more ${item.description} than was ordered`);
+        }
+        received.set(item.id, total);
+      }
+
+      const totalValue = roundMoney(receipt.lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0));
+      const noteResult = await tx.insert(schema.goodsReceivedNotes).values({
+        grnNumber: receipt.grnNumber,
+        purchaseOrderId: id,
+        branchId: purchaseOrder.branchId,
+        supplierReference: receipt.supplierReference,
+        totalValue: totalValue.toFixed(2),
+        notes: receipt.notes,
+        receivedBy: receipt.receivedBy,
+      }).returning();
+      const goodsReceivedNote = noteResult[0];
+
+      for (const line of receipt.lines) {
+        const item = items.find(i => i.id === line.purchaseOrderItemId)!;
+
+        const stock = await this.moveBranchStock(tx, purchaseOrder.branchId, item, line.quantity, 0, line.unitCost);
+        const transaction = await tx.insert(schema.inventoryTransactions).values({
+          menuItemId: item.menuItemId,
+          ingredientId: item.ingredientId,
+          branchId: purchaseOrder.branchId,
+          transactionType: "purchase",
+          quantity: line.quantity,
+          balanceAfter: stock.onHand,
+          unitCost: line.unitCost.toFixed(4),
+          totalCost: roundMoney(line.quantity * line.unitCost).toFixed(2),
+          supplierId: purchaseOrder.supplierId,
+          reference: `${purchaseOrder.poNumber} / ${receipt.grnNumber}`,
+          reason: `Received against purchase order ${purchaseOrder.poNumber}`,
+          performedBy: receipt.receivedBy,
+        }).returning();
+
+        await tx.update(schema.purchaseOrderItems)
+          .set({ quantityReceived: drizzleSql`${schema.purchaseOrderItems.quantityReceived} + ${line.quantity}` })
+          .where(eq(schema.purchaseOrderItems.id, item.id));
+        await tx.insert(schema.goodsReceivedNoteItems).values({
+          goodsReceivedNoteId: goodsReceivedNote.id,
+          purchaseOrderItemId: item.id,
+          quantity: line.quantity,
+          unitCost: line.unitCost.toFixed(4),
+          lotNumber: line.lotNumber || null,
+          expiryDate: line.expiryDate || null,
+          inventoryTransactionId: transaction[0].id,
+        });
+        if (line.lotNumber || line.expiryDate) {
+          await this.createStockBatch(tx, transaction[0], line);
+        }
+      }
+
+      const fullyReceived = items.every(item => (received.get(item.id) || 0) >= item.quantityOrdered);
+      const updated = await tx.update(schema.purchaseOrders)
+        .set({
+          status: fullyReceived ? "received" : "partially_received",
+          receivedAt: fullyReceived ? new Date() : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.purchaseOrders.id, id))
+        .returning();
+
+      // One payable per purchase order, growing with each delivery until it is paid
+      const payables = await tx.select().from(schema.expenses)
+        .where(and(eq(schema.expenses.purchaseOrderId, id), eq(schema.expenses.isDeleted, false)));
+      const payable = payables[0];
+      if (payable) {
+        await tx.update(schema.expenses)
+          .set({
+            amount: roundMoney(parseFloat(payable.amount) + totalValue).toFixed(2),
+            paymentStatus: "unpaid",
+            paidAt: null,
+          })
+          .where(eq(schema.expenses.id, payable.id));
+      } else {
+        await tx.insert(schema.expenses).values({
+          ...receipt.payable,
+          branchId: purchaseOrder.branchId,
+          amount: totalValue.toFixed(2),
+          date: new Date(),
+          supplierId: purchaseOrder.supplierId,
+          addedBy: receipt.receivedBy,
+          purchaseOrderId: id,
+          paymentStatus: "unpaid",
+        });
+      }
+
+      return { purchaseOrder: updated[0], goodsReceivedNote };
+    });
+  }
+
+  async getPurchaseOrderPayable(purchaseOrderId: string) {
+    const result = await db.select().from(schema.expenses)
+      .where(and(eq(schema.expenses.purchaseOrderId, purchaseOrderId), eq(schema.expenses.isDeleted, false)));
+    return result[0];
+  }
+
+  // Stock Transfers
+  async getStockTransfers(filters: StockTransferFilters = {}) {
+    const conditions = [];
+    if (filters.branchId) {
+      conditions.push(or(
+        eq(schema.stockTransfers.fromBranchId, filters.branchId),
+        eq(schema.stockTransfers.toBranchId, filters.branchId)
+      ));
+    }
+    if (filters.status) conditions.push(eq(schema.stockTransfers.status, filters.status));
+    return await db.select().from(schema.stockTransfers)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(schema.stockTransfers.createdAt));
+  }
+
+  async getStockTransfer(id: string) {
+    const result = await db.select().from(schema.stockTransfers).where(eq(schema.stockTransfers.id, id));
+    return result[0];
+  }
+
+  async getStockTransferItems(stockTransferId: string) {
+    return await db.select().from(schema.stockTransferItems)
+      .where(eq(schema.stockTransferItems.stockTransferId, stockTransferId))
+      .orderBy(asc(schema.stockTransferItems.createdAt));
+  }
+
+  async createStockTransfer(transfer: schema.InsertStockTransfer, items: schema.InsertStockTransferItem[]) {
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(schema.stockTransfers).values(transfer).returning();
+      const created = result[0];
+      if (items.length > 0) {
+        await tx.insert(schema.stockTransferItems)
+          .values(items.map(item => ({ ...item, stockTransferId: created.id })));
+      }
+      return created;
+    });
+  }
+
+  // Guarded on the current status so concurrent changes cannot both win
+  async transitionStockTransfer(id: string, fromStatuses: string[], changes: Partial<schema.InsertStockTransfer>) {
+    const result = await db.update(schema.stockTransfers)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(schema.stockTransfers.id, id), inArray(schema.stockTransfers.status, fromStatuses)))
+      .returning();
+    return result[0];
+  }
+
+  // Takes every line out of the source branch (transfer_out); fails as a whole if any line is
+  // more than the branch has available
+  async dispatchStockTransfer(id: string, dispatchedBy: string) {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.select().from(schema.stockTransfers)
+        .where(eq(schema.stockTransfers.id, id))
+        .for("update");
+      const transfer = locked[0];
+      if (!transfer || transfer.status !== "draft") {
+        throw new Error("Only draft transfers can be dispatched");
+      }
+
+      const items = await tx.select().from(schema.stockTransferItems)
+        .where(eq(schema.stockTransferItems.stockTransferId, id));
+      for (const item of items) {
+        const stock = await this.moveBranchStock(tx, transfer.fromBranchId, item, -item.quantitySent, 0);
+        if (stock.available < 0) {
+          throw new Error(`Only ${stock.available + item.quantitySent} of ${item.description} is available to send`);
+        }
+        const transaction = await tx.insert(schema.inventoryTransactions).values({
+          menuItemId: item.menuItemId,
+          ingredientId: item.ingredientId,
+          branchId: transfer.fromBranchId,
+          transactionType: "transfer_out",
+          quantity: -item.quantitySent,
+          balanceAfter: stock.onHand,
+          ...await this.movementCost(tx, stock, -item.quantitySent),
+          stockTransferId: id,
+          reference: transfer.transferNumber,
+          reason: `Sent on transfer ${transfer.transferNumber}`,
+          performedBy: dispatchedBy,
+        }).returning();
+        const batches = await this.drawStockBatches(tx, transfer.fromBranchId, item, item.quantitySent);
+        await tx.update(schema.stockTransferItems)
+          .set({ dispatchTransactionId: transaction[0].id, batches })
+          .where(eq(schema.stockTransferItems.id, item.id));
+      }
+
+      const updated = await tx.update(schema.stockTransfers)
+        .set({ status: "dispatched", dispatchedBy, dispatchedAt: new Date(), updatedAt: new Date() })
+        .where(eq(schema.stockTransfers.id, id))
+        .returning();
+      return updated[0];
+    });
+  }
+
+  // Books what arrived into the destination branch (transfer_in); lines not listed arrived in full
+  async receiveStockTransfer(id: string, receivedBy: string, lines: schema.StockTransferReceiptLine[]) {
+    return await db.transaction(async (tx) => {
+      const locked = await tx.select().from(schema.stockTransfers)
+        .where(eq(schema.stockTransfers.id, id))
+        .for("update");
+      const transfer = locked[0];
+      if (!transfer || !["dispatched", "in_transit"].includes(transfer.status)) {
+        throw new Error("Transfer is not on its way");
+      }
+
+      const items = await tx.select().from(schema.stockTransferItems)
+        .where(eq(schema.stockTransferItems.stockTransferId, id));
+      let hasDiscrepancy = false;
+      for (const item of items) {
+        const line = lines.find(l => l.stockTransferItemId === item.id);
+        const quantityReceived = line ? line.quantityReceived : item.quantitySent;
+        if (quantityReceived > item.quantitySent) {
+          throw new Error(`Receiving more ${item.description} than was sent`);
+        }
+        if (quantityReceived < item.quantitySent) hasDiscrepancy = true;
+
+        let receiptTransactionId: string | null = null;
+        if (quantityReceived > 0) {
+          // Arrives at the cost it left the sending branch at
+          const dispatched = item.dispatchTransactionId
+            ? await tx.select({ unitCost: schema.inventoryTransactions.unitCost })
+                .from(schema.inventoryTransactions)
+                .where(eq(schema.inventoryTransactions.id, item.dispatchTransactionId))
+            : [];
+          const unitCost = dispatched[0]?.unitCost ? parseFloat(dispatched[0].unitCost) : null;
+          const stock = await this.moveBranchStock(tx, transfer.toBranchId, item, quantityReceived, 0, unitCost);
+          const transaction = await tx.insert(schema.inventoryTransactions).values({
+            menuItemId: item.menuItemId,
+            ingredientId: item.ingredientId,
+            branchId: transfer.toBranchId,
+            transactionType: "transfer_in",
+            quantity: quantityReceived,
+            balanceAfter: stock.onHand,
+            ...await this.movementCost(tx, stock, quantityReceived, unitCost),
+            stockTransferId: id,
+            reference: transfer.transferNumber,
+            reason: `Received on transfer ${transfer.transferNumber}`,
+            performedBy: receivedBy,
+          }).returning();
+          receiptTransactionId = transaction[0].id;
+
+          // The lots that left the sending branch carry on here; any shortfall comes off the latest expiring
+          let unbatched = quantityReceived;
+          for (const sent of item.batches || []) {
+            const quantity = Math.min(sent.quantity, unbatched);
+            if (quantity <= 0) break;
+            unbatched -= quantity;
+            await this.createStockBatch(tx, transaction[0], {
+              lotNumber: sent.lotNumber,
+              expiryDate: sent.expiryDate ? new Date(sent.expiryDate) : null,
+            }, quantity);
+          }
+        }
+        await tx.update(schema.stockTransferItems)
+          .set({
+            quantityReceived,
+            discrepancyReason: quantityReceived < item.quantitySent ? line?.discrepancyReason || null : null,
+            receiptTransactionId,
+          })
+          .where(eq(schema.stockTransferItems.id, item.id));
+      }
+
+      const updated = await tx.update(schema.stockTransfers)
+        .set({ status: "received", hasDiscrepancy, receivedBy, receivedAt: new Date(), updatedAt: new Date() })
+        .where(eq(schema.stockTransfers.id, id))
+        .returning();
+      return updated[0];
+    });
+  }
+
   // Staff Shifts
   async getAllStaffShifts() {
     return await db.select().from(schema.staffShifts).orderBy(schema.staffShifts.branchId, schema.staffShifts.startTime);
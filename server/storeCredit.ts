@@ -0,0 +1,85 @@
+import { storage, type StoreCreditTender } from "./storage";
+import { emitEvent } from "./websocket";
+import { roundMoney } from "@shared/pricing";
+import type { Order } from "@shared/schema";
+
+// Store credit - a wallet balance per customer with a full ledger. Refunds can be paid into it and
+// admins can adjust it; customers spend it as a "store_credit" tender at checkout or the counter,
+// and get it back if the order is cancelled or rejected.
+
+export const STORE_CREDIT_TENDER_METHOD = "store_credit";
+
+function storeCreditError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+export async function getStoreCreditBalance(customerId: string) {
+  const account = await storage.getStoreCreditAccount(customerId);
+  return account ? parseFloat(account.balance) : 0;
+}
+
+// Balance and ledger for the customer's wallet page
+export async function getStoreCreditWallet(customerId: string) {
+  const [account, transactions] = await Promise.all([
+    storage.getStoreCreditAccount(customerId),
+    storage.getStoreCreditTransactions({ customerId }),
+  ]);
+  return {
+    balance: account ? parseFloat(account.balance) : 0,
+    lifetimeCredited: account ? parseFloat(account.lifetimeCredited) : 0,
+    transactions,
+  };
+}
+
+// What the customer can put towards the amount still due
+export async function getStoreCreditTenderOptions(customerId: string, amountDue: number) {
+  const balance = await getStoreCreditBalance(customerId);
+  return {
+    balance,
+    maxAmount: roundMoney(Math.max(0, Math.min(balance, amountDue))),
+  };
+}
+
+// Check the amount against the wallet balance and the amount still due
+export async function prepareStoreCreditTender(
+  customerId: string,
+  amountDue: number,
+  amount: number,
+  receivedBy: string | null = null
+): Promise<StoreCreditTender> {
+  const value = roundMoney(amount);
+  if (!(value > 0)) {
+    throw storeCreditError("Store credit amount must be above 0", 400);
+  }
+  const options = await getStoreCreditTenderOptions(customerId, amountDue);
+  if (value > options.balance) {
+    throw storeCreditError("Insufficient store credit", 400);
+  }
+  if (value > options.maxAmount) {
+    throw storeCreditError(`At most ${options.maxAmount.toFixed(2)} of store credit can be used on this order`, 400);
+  }
+  return { customerId, amount: value.toFixed(2), receivedBy };
+}
+
+export async function adjustStoreCredit(customerId: string, amount: number, reason: string, performedBy: string) {
+  const value = roundMoney(amount);
+  if (!value || !reason?.trim()) {
+    throw storeCreditError("Amount and reason are required", 400);
+  }
+  if (value < 0 && roundMoney((await getStoreCreditBalance(customerId)) + value) < 0) {
+    throw storeCreditError("Store credit cannot go below 0", 400);
+  }
+  const transaction = await storage.adjustStoreCredit(customerId, value, `Admin adjustment: ${reason.trim()}`, performedBy);
+  emitEvent.storeCreditChanged({ customerId, amount: value, balance: parseFloat(transaction.balanceAfter) });
+  return transaction;
+}
+
+// A cancelled or rejected order gives back all the store credit paid on it
+export async function restoreOrderStoreCredit(order: Order) {
+  return await storage.returnStoreCreditTender(order.id, null, {
+    transactionType: "restore",
+    reason: `order #${order.orderNumber} was ${order.status}`,
+  });
+}
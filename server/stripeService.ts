@@ -44,6 +44,40 @@ export class StripeService {
     return refund;
   }
 
+  // Hosted payment page for purchases that are not orders (e.g. gift cards)
+  async createCheckoutSession(params: {
+    amount: number;
+    currency?: string;
+    customerEmail: string;
+    description: string;
+    successUrl: string;
+    cancelUrl: string;
+    metadata: Record<string, string>;
+  }) {
+    const stripe = await getUncachableStripeClient();
+
+    return await stripe.checkout.sessions.create({
+      mode: 'payment',
+      customer_email: params.customerEmail,
+      line_items: [{
+        quantity: 1,
+        price_data: {
+          currency: params.currency || 'pkr',
+          unit_amount: Math.round(params.amount * 100),
+          product_data: { name: params.description },
+        },
+      }],
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      metadata: params.metadata,
+    });
+  }
+
+  async retrieveCheckoutSession(sessionId: string) {
+    const stripe = await getUncachableStripeClient();
+    return await stripe.checkout.sessions.retrieve(sessionId);
+  }
+
   async retrievePaymentIntent(paymentIntentId: string) {
     const stripe = await getUncachableStripeClient();
     return await stripe.paymentIntents.retrieve(paymentIntentId);
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Payment } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: { getPaymentsByOrder: vi.fn() },
+}));
+vi.mock("./websocket", () => ({ emitEvent: {} }));
+
+import { storage } from "./storage";
+import { getOrderPrepaidAmount } from "./tenders";
+
+function payment(overrides: Partial<Payment>): Payment {
+  return {
+    id: "payment-1",
+    orderId: "order-1",
+    sessionId: null,
+    paymentMethod: "store_credit",
+    amount: "0.00",
+    reference: null,
+    receivedBy: null,
+    status: "completed",
+    ledgerEntryId: "ledger-1",
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("getOrderPrepaidAmount", () => {
+  beforeEach(() => {
+    vi.mocked(storage.getPaymentsByOrder).mockReset();
+  });
+
+  it("adds up completed points, store credit and gift card payments", async () => {
+    vi.mocked(storage.getPaymentsByOrder).mockResolvedValue([
+      payment({ paymentMethod: "loyalty_points", amount: "100.10" }),
+      payment({ paymentMethod: "store_credit", amount: "50.20" }),
+      payment({ paymentMethod: "gift_card", amount: "25.05" }),
+    ]);
+
+    expect(await getOrderPrepaidAmount("order-1")).toBe(175.35);
+    expect(storage.getPaymentsByOrder).toHaveBeenCalledWith("order-1");
+  });
+
+  it("leaves out cash and card payments", async () => {
+    vi.mocked(storage.getPaymentsByOrder).mockResolvedValue([
+      payment({ paymentMethod: "cash", amount: "300.00", ledgerEntryId: null }),
+      payment({ paymentMethod: "card", amount: "200.00", ledgerEntryId: null }),
+      payment({ paymentMethod: "gift_card", amount: "40.00" }),
+    ]);
+
+    expect(await getOrderPrepaidAmount("order-1")).toBe(40);
+  });
+
+  it("leaves out payments that are not completed", async () => {
+    vi.mocked(storage.getPaymentsByOrder).mockResolvedValue([
+      payment({ paymentMethod: "store_credit", amount: "80.00", status: "refunded" }),
+      payment({ paymentMethod: "store_credit", amount: "30.00", status: "pending" }),
+      payment({ paymentMethod: "store_credit", amount: "10.00" }),
+    ]);
+
+    expect(await getOrderPrepaidAmount("order-1")).toBe(10);
+  });
+
+  it("leaves out stored-value payments written without their ledger entry", async () => {
+    vi.mocked(storage.getPaymentsByOrder).mockResolvedValue([
+      payment({ paymentMethod: "loyalty_points", amount: "500.00", ledgerEntryId: null }),
+      payment({ paymentMethod: "gift_card", amount: "20.00" }),
+    ]);
+
+    expect(await getOrderPrepaidAmount("order-1")).toBe(20);
+  });
+
+  it("is zero for an order without payments", async () => {
+    vi.mocked(storage.getPaymentsByOrder).mockResolvedValue([]);
+
+    expect(await getOrderPrepaidAmount("order-1")).toBe(0);
+  });
+});
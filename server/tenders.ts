@@ -0,0 +1,86 @@
+import { storage, type OrderTenders } from "./storage";
+import { POINTS_TENDER_METHOD, preparePointsTender } from "./pointsTender";
+import { STORE_CREDIT_TENDER_METHOD, prepareStoreCreditTender } from "./storeCredit";
+import { GIFT_CARD_TENDER_METHOD, prepareGiftCardTender } from "./giftCards";
+import { amountsMatch, roundMoney } from "@shared/pricing";
+
+// Stored-value tenders - loyalty points, store credit and gift cards. Any mix of them can pay part
+// or all of an order: points go first, then store credit, then the gift card, each against what is
+// still due after the ones before it.
+
+export const STORED_VALUE_METHODS = [POINTS_TENDER_METHOD, STORE_CREDIT_TENDER_METHOD, GIFT_CARD_TENDER_METHOD];
+
+export interface TenderRequest {
+  points?: number;
+  storeCredit?: number;
+  giftCardCode?: string;
+  giftCardAmount?: number;
+}
+
+interface TenderContext {
+  customerId?: string | null;
+  branchId: string;
+  amountDue: number;
+  receivedBy?: string | null;
+}
+
+function tenderError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+export function hasTenders(request: TenderRequest) {
+  return (request.points || 0) > 0 || (request.storeCredit || 0) > 0 || !!request.giftCardCode?.trim();
+}
+
+// Points and store credit belong to a customer; a gift card pays for whoever holds the code
+export function needsCustomer(request: TenderRequest) {
+  return (request.points || 0) > 0 || (request.storeCredit || 0) > 0;
+}
+
+export async function prepareTenders(request: TenderRequest, context: TenderContext) {
+  const tenders: OrderTenders = {};
+  const methods: string[] = [];
+  const receivedBy = context.receivedBy ?? null;
+  let remaining = roundMoney(context.amountDue);
+
+  if ((request.points || 0) > 0) {
+    if (!context.customerId) {
+      throw tenderError("No loyalty account found for this customer", 400);
+    }
+    tenders.pointsTender = await preparePointsTender(context.customerId, context.branchId, remaining, request.points!, receivedBy);
+    remaining = roundMoney(remaining - parseFloat(tenders.pointsTender.amount));
+    methods.push(POINTS_TENDER_METHOD);
+  }
+  if ((request.storeCredit || 0) > 0) {
+    if (!context.customerId) {
+      throw tenderError("No store credit wallet found for this customer", 400);
+    }
+    tenders.storeCreditTender = await prepareStoreCreditTender(context.customerId, remaining, request.storeCredit!, receivedBy);
+    remaining = roundMoney(remaining - parseFloat(tenders.storeCreditTender.amount));
+    methods.push(STORE_CREDIT_TENDER_METHOD);
+  }
+  if (request.giftCardCode?.trim()) {
+    tenders.giftCardTender = await prepareGiftCardTender(request.giftCardCode, remaining, request.giftCardAmount || 0, receivedBy);
+    remaining = roundMoney(remaining - parseFloat(tenders.giftCardTender.amount));
+    methods.push(GIFT_CARD_TENDER_METHOD);
+  }
+
+  return {
+    tenders,
+    amount: roundMoney(context.amountDue - remaining),
+    coversAmountDue: amountsMatch(remaining, 0),
+    // An order paid in full by one stored-value tender takes its method; a mix is a split payment
+    paymentMethod: methods.length === 1 ? methods[0] : "split",
+  };
+}
+
+// What has already been paid on the order with points, store credit and gift cards. Only payments
+// written with their ledger entry count - a bare payment row has taken nothing off a balance.
+export async function getOrderPrepaidAmount(orderId: string) {
+  const payments = await storage.getPaymentsByOrder(orderId);
+  return roundMoney(payments
+    .filter(p => STORED_VALUE_METHODS.includes(p.paymentMethod) && p.status === "completed" && !!p.ledgerEntryId)
+    .reduce((sum, p) => sum + parseFloat(p.amount), 0));
+}
@@ -0,0 +1,172 @@
+import { storage } from "./storage";
+import type { InsertStockTransferItem, StockTransfer, StockTransferReceiptLine } from "@shared/schema";
+
+// Stock transfers - stock sent from one branch to another. Dispatch takes the lines out of the
+// source branch; receipt books what actually arrived into the destination, recording any shortfall.
+
+function transferError(message: string, statusCode: number): Error {
+  const error = new Error(message);
+  (error as any).statusCode = statusCode;
+  return error;
+}
+
+export interface StockTransferLineInput {
+  menuItemId?: string | null;
+  ingredientId?: string | null;
+  quantity: number;
+}
+
+// Validates lines and snapshots the item names
+async function resolveLines(lines: StockTransferLineInput[]): Promise<InsertStockTransferItem[]> {
+  const resolved: InsertStockTransferItem[] = [];
+  const seen = new Set<string>();
+  for (const line of lines) {
+    if (!line.menuItemId === !line.ingredientId) {
+      throw transferError("Each line needs either a menu item or an ingredient", 400);
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw transferError("Quantities must be whole numbers greater than zero", 400);
+    }
+
+    const itemId = (line.ingredientId || line.menuItemId)!;
+    if (seen.has(itemId)) {
+      throw transferError("Each item can only be listed once", 400);
+    }
+    seen.add(itemId);
+
+    if (line.ingredientId) {
+      const ingredient = await storage.getIngredient(line.ingredientId);
+      if (!ingredient) throw transferError("Ingredient not found", 404);
+      resolved.push({
+        ingredientId: ingredient.id,
+        description: `${ingredient.name} (${ingredient.unit})`,
+        quantitySent: line.quantity,
+      });
+    } else {
+      const menuItem = await storage.getMenuItem(line.menuItemId!);
+      if (!menuItem) throw transferError("Menu item not found", 404);
+      resolved.push({
+        menuItemId: menuItem.id,
+        description: menuItem.name,
+        quantitySent: line.quantity,
+      });
+    }
+  }
+  return resolved;
+}
+
+function generateTransferNumber() {
+  return `TR${Date.now()}${Math.floor(Math.random() * 100).toString().padStart(2, "0")}`;
+}
+
+export async function getStockTransferOrThrow(id: string): Promise<StockTransfer> {
+  const transfer = await storage.getStockTransfer(id);
+  if (!transfer) {
+    throw transferError("Stock transfer not found", 404);
+  }
+  return transfer;
+}
+
+export async function createStockTransfer(
+  input: { fromBranchId: string; toBranchId: string; notes?: string | null; lines: StockTransferLineInput[] },
+  createdBy: string
+) {
+  if (!input.fromBranchId || !input.toBranchId) {
+    throw transferError("Choose the branch to send from and the branch to send to", 400);
+  }
+  if (input.fromBranchId === input.toBranchId) {
+    throw transferError("A transfer must go to a different branch", 400);
+  }
+  const [fromBranch, toBranch] = await Promise.all([
+    storage.getBranch(input.fromBranchId),
+    storage.getBranch(input.toBranchId),
+  ]);
+  if (!fromBranch || !toBranch) {
+    throw transferError("Branch not found", 404);
+  }
+
+  const items = await resolveLines(input.lines || []);
+  if (items.length === 0) {
+    throw transferError("Add at least one line", 400);
+  }
+  return await storage.createStockTransfer({
+    transferNumber: generateTransferNumber(),
+    fromBranchId: fromBranch.id,
+    toBranchId: toBranch.id,
+    notes: input.notes || null,
+    createdBy,
+  }, items);
+}
+
+export async function dispatchStockTransfer(id: string, dispatchedBy: string) {
+  const transfer = await getStockTransferOrThrow(id);
+  if (transfer.status !== "draft") {
+    throw transferError(`Cannot dispatch a ${transfer.status.replace("_", " ")} transfer`, 400);
+  }
+  try {
+    return await storage.dispatchStockTransfer(id, dispatchedBy);
+  } catch (error: any) {
+    // Not enough stock at the source, or someone else dispatched it first
+    throw transferError(error.message, 409);
+  }
+}
+
+// The courier has picked the stock up
+export async function markStockTransferInTransit(id: string) {
+  const transfer = await getStockTransferOrThrow(id);
+  const updated = await storage.transitionStockTransfer(id, ["dispatched"], {
+    status: "in_transit",
+    inTransitAt: new Date(),
+  });
+  if (!updated) {
+    throw transferError(`Cannot mark a ${transfer.status.replace("_", " ")} transfer as in transit`, 400);
+  }
+  return updated;
+}
+
+export async function receiveStockTransfer(id: string, lines: StockTransferReceiptLine[], receivedBy: string) {
+  const transfer = await getStockTransferOrThrow(id);
+  if (!["dispatched", "in_transit"].includes(transfer.status)) {
+    throw transferError(`Cannot receive a ${transfer.status.replace("_", " ")} transfer`, 400);
+  }
+
+  const items = await storage.getStockTransferItems(id);
+  for (const line of lines || []) {
+    const item = items.find(i => i.id === line.stockTransferItemId);
+    if (!item) {
+      throw transferError("Line is not on this transfer", 400);
+    }
+    if (line.quantityReceived > item.quantitySent) {
+      throw transferError(`Only ${item.quantitySent} of ${item.description} was sent`, 400);
+    }
+  }
+
+  try {
+    return await storage.receiveStockTransfer(id, receivedBy, lines || []);
+  } catch (error: any) {
+    throw transferError(error.message, 409);
+  }
+}
+
+// Only drafts can be cancelled - once dispatched the stock has left the source branch
+export async function cancelStockTransfer(id: string) {
+  const transfer = await getStockTransferOrThrow(id);
+  const updated = await storage.transitionStockTransfer(id, ["draft"], {
+    status: "cancelled",
+    cancelledAt: new Date(),
+  });
+  if (!updated) {
+    throw transferError(`Cannot cancel a ${transfer.status.replace("_", " ")} transfer`, 400);
+  }
+  return updated;
+}
+
+export async function getStockTransferDetail(id: string) {
+  const transfer = await getStockTransferOrThrow(id);
+  const [items, fromBranch, toBranch] = await Promise.all([
+    storage.getStockTransferItems(id),
+    storage.getBranch(transfer.fromBranchId),
+    storage.getBranch(transfer.toBranchId),
+  ]);
+  return { ...transfer, fromBranch, toBranch, items };
+}
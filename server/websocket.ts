@@ -105,20 +105,58 @@ export const emitEvent = {
       io.to(`branch:${order.branchId}`).emit("order:statusUpdated", order);
     }
     
-    if (order.userId) {
-      io.to(`user:${order.userId}`).emit("order:statusUpdated", order);
+    if (order.customerId) {
+      io.to(`user:${order.customerId}`).emit("order:statusUpdated", order);
     }
     
     io.to("role:admin").emit("order:statusUpdated", order);
     io.to("role:staff").emit("order:statusUpdated", order);
   },
 
+  // Customer notifications for the online order accept / reject flow
+  orderAccepted: (order: any) => {
+    if (!io) return;
+    
+    if (order.customerId) {
+      io.to(`user:${order.customerId}`).emit("order:accepted", {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        estimatedPrepMinutes: order.estimatedPrepMinutes,
+        acceptedAt: order.acceptedAt,
+      });
+    }
+  },
+
+  orderRejected: (order: any) => {
+    if (!io) return;
+    
+    if (order.customerId) {
+      io.to(`user:${order.customerId}`).emit("order:rejected", {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        reason: order.rejectionReason,
+      });
+    }
+  },
+
+  orderEscalated: (order: any) => {
+    if (!io) return;
+    
+    if (order.branchId) {
+      io.to(`branch:${order.branchId}`).emit("order:escalated", order);
+    }
+    
+    io.to("role:admin").emit("order:escalated", order);
+  },
+
   kitchenTicketCreated: (ticket: any) => {
     if (!io) return;
     
     if (ticket.branchId) {
       io.to(`branch:${ticket.branchId}`).emit("kitchen:ticketCreated", ticket);
     }
+    
+    io.to("role:admin").emit("kitchen:ticketCreated", ticket);
   },
 
   kitchenTicketUpdated: (ticket: any) => {
@@ -127,6 +165,58 @@ export const emitEvent = {
     if (ticket.branchId) {
       io.to(`branch:${ticket.branchId}`).emit("kitchen:ticketUpdated", ticket);
     }
+    
+    io.to("role:admin").emit("kitchen:ticketUpdated", ticket);
+  },
+
+  kitchenSlaBreached: (alert: any) => {
+    if (!io) return;
+    
+    if (alert.branchId) {
+      io.to(`branch:${alert.branchId}`).emit("kitchen:slaBreached", alert);
+    }
+    
+    io.to("role:admin").emit("kitchen:slaBreached", alert);
+  },
+
+  stockExpiring: (alert: any) => {
+    if (!io) return;
+    
+    if (alert.branchId) {
+      io.to(`branch:${alert.branchId}`).emit("inventory:stockExpiring", alert);
+    }
+    
+    io.to("role:admin").emit("inventory:stockExpiring", alert);
+  },
+
+  loyaltyTierChanged: (change: any) => {
+    if (!io) return;
+    
+    io.to(`user:${change.customerId}`).emit("loyalty:tierChanged", change);
+  },
+
+  loyaltyPointsExpiring: (warning: any) => {
+    if (!io) return;
+    
+    io.to(`user:${warning.customerId}`).emit("loyalty:pointsExpiring", warning);
+  },
+
+  stampCardCompleted: (completion: any) => {
+    if (!io) return;
+    
+    io.to(`user:${completion.customerId}`).emit("loyalty:stampCardCompleted", completion);
+  },
+
+  referralRewarded: (reward: any) => {
+    if (!io) return;
+    
+    io.to(`user:${reward.customerId}`).emit("loyalty:referralRewarded", reward);
+  },
+
+  storeCreditChanged: (change: any) => {
+    if (!io) return;
+    
+    io.to(`user:${change.customerId}`).emit("wallet:storeCreditChanged", change);
   },
 
   riderLocationUpdated: (riderId: string, location: any) => {
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  ORDER_STATUSES,
+  TERMINAL_ORDER_STATUSES,
+  canTransitionOrder,
+  getAllowedOrderTransitions,
+  getOrderTransitions,
+  isTerminalOrderStatus,
+} from "./orderLifecycle";
+
+describe("getOrderTransitions", () => {
+  it("follows the kitchen steps for every order type", () => {
+    for (const orderType of ["dine-in", "takeaway", "delivery"]) {
+      expect(getOrderTransitions("pending", orderType)).toEqual(["confirmed", "preparing", "cancelled", "rejected"]);
+      expect(getOrderTransitions("confirmed", orderType)).toEqual(["preparing", "cancelled"]);
+      expect(getOrderTransitions("preparing", orderType)).toEqual(["ready", "cancelled"]);
+    }
+  });
+
+  it("completes dine-in and takeaway orders once ready", () => {
+    expect(getOrderTransitions("ready", "dine-in")).toEqual(["completed", "cancelled"]);
+    expect(getOrderTransitions("ready", "takeaway")).toEqual(["completed", "cancelled"]);
+    expect(getOrderTransitions("out_for_delivery", "takeaway")).toEqual([]);
+  });
+
+  it("sends delivery orders out before they complete", () => {
+    expect(getOrderTransitions("ready", "delivery")).toEqual(["out_for_delivery", "cancelled"]);
+    expect(getOrderTransitions("out_for_delivery", "delivery")).toEqual(["completed", "cancelled"]);
+  });
+
+  it("treats an unknown order type as takeaway", () => {
+    expect(getOrderTransitions("ready", "drive-thru")).toEqual(getOrderTransitions("ready", "takeaway"));
+  });
+
+  it("has no way out of a terminal or unknown status", () => {
+    for (const status of TERMINAL_ORDER_STATUSES) {
+      expect(getOrderTransitions(status, "delivery")).toEqual([]);
+    }
+    expect(getOrderTransitions("lost", "delivery")).toEqual([]);
+  });
+});
+
+describe("getAllowedOrderTransitions", () => {
+  it("leaves admin, staff and system unrestricted", () => {
+    for (const role of ["admin", "staff", "system"]) {
+      for (const status of ORDER_STATUSES) {
+        expect(getAllowedOrderTransitions(status, "delivery", role)).toEqual(getOrderTransitions(status, "delivery"));
+      }
+    }
+  });
+
+  it("lets a rider only take a ready delivery out and complete it", () => {
+    expect(getAllowedOrderTransitions("ready", "delivery", "rider")).toEqual(["out_for_delivery"]);
+    expect(getAllowedOrderTransitions("out_for_delivery", "delivery", "rider")).toEqual(["completed"]);
+    expect(getAllowedOrderTransitions("preparing", "delivery", "rider")).toEqual([]);
+  });
+
+  it("lets a customer only cancel a pending order", () => {
+    expect(getAllowedOrderTransitions("pending", "takeaway", "customer")).toEqual(["cancelled"]);
+    expect(getAllowedOrderTransitions("confirmed", "takeaway", "customer")).toEqual([]);
+  });
+
+  it("gives an unknown role nothing", () => {
+    expect(getAllowedOrderTransitions("pending", "takeaway", "guest")).toEqual([]);
+  });
+});
+
+describe("canTransitionOrder", () => {
+  it("checks the transition against the order type and role", () => {
+    expect(canTransitionOrder("ready", "completed", "dine-in", "staff")).toBe(true);
+    expect(canTransitionOrder("ready", "completed", "delivery", "staff")).toBe(false);
+    expect(canTransitionOrder("ready", "completed", "dine-in", "rider")).toBe(true);
+    expect(canTransitionOrder("pending", "rejected", "takeaway", "customer")).toBe(false);
+  });
+});
+
+describe("isTerminalOrderStatus", () => {
+  it("is true only for completed, cancelled and rejected", () => {
+    expect(ORDER_STATUSES.filter(isTerminalOrderStatus)).toEqual(["completed", "cancelled", "rejected"]);
+  });
+});
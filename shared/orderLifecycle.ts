@@ -0,0 +1,94 @@
+// Order lifecycle - the allowed status transitions per order type and per role.
+// Shared so the server can enforce it and clients can decide which actions to offer.
+
+export const ORDER_STATUSES = [
+  "pending",
+  "confirmed",
+  "preparing",
+  "ready",
+  "out_for_delivery",
+  "completed",
+  "cancelled",
+  "rejected",
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export type OrderLifecycleType = "dine-in" | "takeaway" | "delivery";
+
+// "system" is used for automated transitions (auto-accept, timeouts, jobs)
+export type OrderActorRole = "admin" | "staff" | "rider" | "customer" | "system";
+
+export const TERMINAL_ORDER_STATUSES: OrderStatus[] = ["completed", "cancelled", "rejected"];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  preparing: "Preparing",
+  ready: "Ready",
+  out_for_delivery: "Out for Delivery",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  rejected: "Rejected",
+};
+
+// Transitions shared by every order type; "ready" onwards differs per type
+const COMMON_TRANSITIONS: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  pending: ["confirmed", "preparing", "cancelled", "rejected"],
+  confirmed: ["preparing", "cancelled"],
+  preparing: ["ready", "cancelled"],
+};
+
+const ORDER_TRANSITIONS: Record<OrderLifecycleType, Partial<Record<OrderStatus, OrderStatus[]>>> = {
+  "dine-in": {
+    ...COMMON_TRANSITIONS,
+    ready: ["completed", "cancelled"],
+  },
+  takeaway: {
+    ...COMMON_TRANSITIONS,
+    ready: ["completed", "cancelled"],
+  },
+  delivery: {
+    ...COMMON_TRANSITIONS,
+    ready: ["out_for_delivery", "cancelled"],
+    out_for_delivery: ["completed", "cancelled"],
+  },
+};
+
+// Roles that may only perform a subset of transitions (admin, staff and system are unrestricted)
+const ROLE_RESTRICTIONS: Partial<Record<OrderActorRole, { from: OrderStatus[]; to: OrderStatus[] }>> = {
+  rider: { from: ["ready", "out_for_delivery"], to: ["out_for_delivery", "completed"] },
+  customer: { from: ["pending"], to: ["cancelled"] },
+};
+
+export function isOrderStatus(status: string): status is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(status);
+}
+
+export function isTerminalOrderStatus(status: string): boolean {
+  return TERMINAL_ORDER_STATUSES.includes(status as OrderStatus);
+}
+
+function lifecycleType(orderType: string): OrderLifecycleType {
+  return orderType === "delivery" || orderType === "dine-in" ? orderType : "takeaway";
+}
+
+// Next statuses reachable from `from` for this order type, ignoring who is asking
+export function getOrderTransitions(from: string, orderType: string): OrderStatus[] {
+  if (!isOrderStatus(from)) return [];
+  return ORDER_TRANSITIONS[lifecycleType(orderType)][from] || [];
+}
+
+// Next statuses the given role may move the order to
+export function getAllowedOrderTransitions(from: string, orderType: string, role: string): OrderStatus[] {
+  const transitions = getOrderTransitions(from, orderType);
+  if (role === "admin" || role === "staff" || role === "system") return transitions;
+
+  const restriction = ROLE_RESTRICTIONS[role as OrderActorRole];
+  if (!restriction || !restriction.from.includes(from as OrderStatus)) return [];
+  return transitions.filter(status => restriction.to.includes(status));
+}
+
+export function canTransitionOrder(from: string, to: string, orderType: string, role: string): boolean {
+  return getAllowedOrderTransitions(from, orderType, role).includes(to as OrderStatus);
+}
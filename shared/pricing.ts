@@ -0,0 +1,154 @@
+import type { PromoCode } from "./schema";
+
+// Shared order pricing math - used by the server to price orders and by clients to preview totals
+
+// Totals within this many rupees are treated as equal (rounding noise)
+export const PRICE_TOLERANCE = 0.01;
+
+export interface PricedLineVariant {
+  groupName: string;
+  optionName: string;
+  optionId?: string;
+  priceModifier: number;
+}
+
+export interface PricedLine {
+  id?: string;
+  menuItemId: string;
+  name: string;
+  quantity: number;
+  basePrice: number;
+  price: number; // Unit price including variant modifiers
+  lineTotal: number;
+  variants: PricedLineVariant[];
+  specialInstructions?: string;
+  rewardClaimId?: string; // Free line from a loyalty reward voucher
+}
+
+// A loyalty reward voucher applied to the order - a free line or free delivery
+export interface AppliedReward {
+  claimId: string;
+  code: string;
+  name: string;
+  rewardType: string;
+}
+
+// A line (or some units of it) discounted by a promotion, and why
+export interface DiscountedLine {
+  lineIndex: number; // Position in OrderPricing.items
+  menuItemId: string;
+  name: string;
+  quantity: number; // Units discounted
+  discount: number;
+  reason: string;
+}
+
+// A promotion on the order - the promo code entered, or one that applied automatically
+export interface AppliedPromotion {
+  promoCodeId: string;
+  code: string;
+  description: string | null;
+  discountType: string;
+  automatic: boolean;
+  discount: number;
+  freeDelivery: boolean;
+  reason: string;
+  lines: DiscountedLine[];
+}
+
+// A promotion the order qualified for that the stacking rules left off, and why
+export interface RejectedPromotion {
+  promoCodeId: string;
+  code: string;
+  automatic: boolean;
+  reason: string;
+}
+
+export interface OrderPricing {
+  items: PricedLine[];
+  subtotal: number;
+  discount: number;
+  tax: number;
+  deliveryCharges: number;
+  total: number;
+  promoCodeId: string | null;
+  promoCode: string | null;
+  deliveryDistance: number | null;
+  freeDelivery: boolean;
+  rewards: AppliedReward[];
+  promotions: AppliedPromotion[]; // In the order they applied
+  rejectedPromotions: RejectedPromotion[];
+}
+
+// Cart lines carry the menu item id under different names depending on the client:
+// menuItemId (server-priced), itemId (POS) or `${menuItemId}-${timestamp}` as the line id (online cart)
+export function resolveMenuItemId(line: any): string | null {
+  if (line.menuItemId) return line.menuItemId;
+  if (line.itemId) return line.itemId;
+  if (typeof line.id === "string") {
+    const match = line.id.match(/^(.+)-\d{13}$/);
+    return match ? match[1] : line.id;
+  }
+  return null;
+}
+
+export function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+export function calculateUnitPrice(basePrice: number, modifiers: number[]): number {
+  return roundMoney(modifiers.reduce((sum, modifier) => sum + modifier, basePrice));
+}
+
+export function calculateSubtotal(lines: Array<{ price: number; quantity: number }>): number {
+  return roundMoney(lines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+}
+
+// Discount for a promo code on the given subtotal (caps percentage discounts and never exceeds the subtotal)
+export function calculatePromoDiscount(
+  promoCode: Pick<PromoCode, "discountType" | "discountValue" | "maxDiscountAmount">,
+  subtotal: number
+): number {
+  let discountAmount = 0;
+  if (promoCode.discountType === "percentage") {
+    discountAmount = (subtotal * parseFloat(promoCode.discountValue)) / 100;
+    if (promoCode.maxDiscountAmount) {
+      discountAmount = Math.min(discountAmount, parseFloat(promoCode.maxDiscountAmount));
+    }
+  } else {
+    discountAmount = parseFloat(promoCode.discountValue);
+  }
+  return roundMoney(Math.max(0, Math.min(discountAmount, subtotal)));
+}
+
+// What a promotion gives, e.g. "20% off", "Buy 2 get 1 free" or "Free delivery"
+export function describePromotion(
+  promoCode: Pick<PromoCode, "discountType" | "discountValue" | "buyQuantity" | "getQuantity">
+): string {
+  const value = parseFloat(promoCode.discountValue);
+  switch (promoCode.discountType) {
+    case "percentage":
+      return `${value}% off`;
+    case "bogo":
+    case "buy_x_get_y":
+      return `Buy ${promoCode.buyQuantity || 1} get ${promoCode.getQuantity || 1} ${value >= 100 ? "free" : `${value}% off`}`;
+    case "free_delivery":
+      return "Free delivery";
+    default:
+      return `₨${value} off`;
+  }
+}
+
+// Tax is charged on the discounted subtotal; delivery charges are not taxed
+export function calculateTax(taxableAmount: number, taxRate: number, taxEnabled: boolean): number {
+  if (!taxEnabled || taxRate <= 0 || taxableAmount <= 0) return 0;
+  return roundMoney((taxableAmount * taxRate) / 100);
+}
+
+export function calculateOrderTotal(amounts: { subtotal: number; discount: number; tax: number; deliveryCharges: number }): number {
+  return roundMoney(amounts.subtotal - amounts.discount + amounts.tax + amounts.deliveryCharges);
+}
+
+export function amountsMatch(a: number, b: number): boolean {
+  return Math.abs(a - b) <= PRICE_TOLERANCE;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -35,13 +35,14 @@ export const users = pgTable("users", {
   branchId: varchar("branch_id").references(() => branches.id),
   language: text("language").default("en"), // User's preferred language (en, ur, ar)
   currency: text("currency").default("PKR"), // User's preferred currency (PKR, USD, AED, SAR)
+  referralCode: text("referral_code").unique(), // Customer's personal invite code (issued on first use)
   isActive: boolean("is_active").notNull().default(true),
   isDeleted: boolean("is_deleted").notNull().default(false), // Soft delete flag
   deletedAt: timestamp("deleted_at"), // When the user was soft deleted
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, isDeleted: true, deletedAt: true });
+export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, isDeleted: true, deletedAt: true, referralCode: true });
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
@@ -59,12 +60,26 @@ export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTo
 export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 
+// Kitchen Stations (KDS routing - menu items and categories are mapped to a station)
+export const kitchenStations = pgTable("kitchen_stations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(), // Grill, Pizza, Fryer, Drinks
+  displayOrder: integer("display_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertKitchenStationSchema = createInsertSchema(kitchenStations).omit({ id: true, createdAt: true });
+export type InsertKitchenStation = z.infer<typeof insertKitchenStationSchema>;
+export type KitchenStation = typeof kitchenStations.$inferSelect;
+
 // Categories
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   description: text("description"),
   imageUrl: text("image_url"),
+  kitchenStationId: varchar("kitchen_station_id").references(() => kitchenStations.id, { onDelete: "set null" }), // Default station for items in this category
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -85,9 +100,11 @@ export const menuItems = pgTable("menu_items", {
   imageUrl: text("image_url"),
   isAvailable: boolean("is_available").notNull().default(true),
   isHotSelling: boolean("is_hot_selling").notNull().default(false), // Display in hot-selling section
-  stockQuantity: integer("stock_quantity").default(0), // For inventory management
+  stockQuantity: integer("stock_quantity").default(0), // Total across branches - per-branch levels are in branchStock
   lowStockThreshold: integer("low_stock_threshold").default(10), // Alert threshold
   branchId: varchar("branch_id").references(() => branches.id), // null means available at all branches
+  kitchenStationId: varchar("kitchen_station_id").references(() => kitchenStations.id, { onDelete: "set null" }), // Overrides the category's station
+  prepTimeMinutes: integer("prep_time_minutes"), // Kitchen SLA target; null = kitchenPrepTimeTarget setting
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -141,14 +158,34 @@ export type InsertMenuItemVariant = z.infer<typeof insertMenuItemVariantSchema>;
 export type MenuItemVariant = typeof menuItemVariants.$inferSelect;
 
 // Promo Codes
+// What a promotion gives: percentage or fixed off the order (or its matching items), free units
+// when buying more of them (bogo - the cheapest of each group free; buy_x_get_y - units from a
+// second set of items), or free delivery
+export const PROMO_DISCOUNT_TYPES = ["percentage", "fixed", "bogo", "buy_x_get_y", "free_delivery"] as const;
+
 export const promoCodes = pgTable("promo_codes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   code: text("code").notNull().unique(), // Promo code (e.g., SAVE20, FIRSTORDER)
   description: text("description"), // Description of the promo
-  discountType: text("discount_type").notNull().default("percentage"), // percentage or fixed
-  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(), // Percentage (e.g., 20) or fixed amount (e.g., 100)
+  discountType: text("discount_type").notNull().default("percentage"), // percentage, fixed, bogo, buy_x_get_y or free_delivery
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(), // Percentage (e.g., 20) or fixed amount (e.g., 100); bogo / buy_x_get_y: percentage off the free units (100 = free)
   minOrderAmount: decimal("min_order_amount", { precision: 10, scale: 2 }).default("0"), // Minimum order amount required
-  maxDiscountAmount: decimal("max_discount_amount", { precision: 10, scale: 2 }), // Max discount cap for percentage types
+  maxDiscountAmount: decimal("max_discount_amount", { precision: 10, scale: 2 }), // Max discount cap for percentage, bogo and buy_x_get_y types
+  menuItemIds: jsonb("menu_item_ids").$type<string[]>().notNull().default([]), // Items the discount is on - for bogo / buy_x_get_y, the items to buy (with categoryIds; both empty = every item)
+  categoryIds: jsonb("category_ids").$type<string[]>().notNull().default([]), // Every item in these categories
+  buyQuantity: integer("buy_quantity"), // bogo / buy_x_get_y: units to buy
+  getQuantity: integer("get_quantity"), // bogo / buy_x_get_y: units discounted for each buyQuantity bought
+  getMenuItemIds: jsonb("get_menu_item_ids").$type<string[]>().notNull().default([]), // buy_x_get_y: items that can be the discounted units (with getCategoryIds; both empty = any item)
+  getCategoryIds: jsonb("get_category_ids").$type<string[]>().notNull().default([]),
+  firstOrderOnly: boolean("first_order_only").notNull().default(false), // Only for a signed-in customer's first order
+  daysOfWeek: jsonb("days_of_week").$type<number[]>().notNull().default([]), // 0 = Sunday ... 6 = Saturday, in the restaurant's timezone (empty = every day)
+  startTime: text("start_time"), // "HH:MM" - with endTime, the hours it is valid each day, e.g. a happy hour (may cross midnight)
+  endTime: text("end_time"),
+  isAutomatic: boolean("is_automatic").notNull().default(false), // Applies to qualifying orders without the code being entered
+  isCombinable: boolean("is_combinable").notNull().default(false), // Can apply together with other combinable promotions (and manual discounts when settings allow); otherwise it is exclusive
+  priority: integer("priority").notNull().default(0), // Higher applies first and wins when promotions cannot be combined
+  excludeDiscountedItems: boolean("exclude_discounted_items").notNull().default(false), // Skips lines a higher-priority promotion already discounted
+  batchId: varchar("batch_id").references((): AnyPgColumn => promoCodeBatches.id), // Batch of single-use codes it was generated in (null = a shared code)
   usageLimit: integer("usage_limit"), // Total usage limit (null = unlimited)
   usageCount: integer("usage_count").notNull().default(0), // Current usage count
   perUserLimit: integer("per_user_limit"), // Usage limit per user (null = unlimited)
@@ -156,14 +193,52 @@ export const promoCodes = pgTable("promo_codes", {
   validUntil: timestamp("valid_until"), // Expiry date (null = no expiry)
   isActive: boolean("is_active").notNull().default(true),
   branchId: varchar("branch_id").references(() => branches.id), // null = valid for all branches
+  customerId: varchar("customer_id").references(() => users.id), // Only this customer can use it (null = anyone), e.g. referral rewards
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertPromoCodeSchema = createInsertSchema(promoCodes).omit({ id: true, createdAt: true, usageCount: true });
+export const insertPromoCodeSchema = createInsertSchema(promoCodes).omit({ id: true, createdAt: true, usageCount: true }).extend({
+  menuItemIds: z.array(z.string()).optional(),
+  categoryIds: z.array(z.string()).optional(),
+  getMenuItemIds: z.array(z.string()).optional(),
+  getCategoryIds: z.array(z.string()).optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+});
 export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
 export type PromoCode = typeof promoCodes.$inferSelect;
 
+// Promo Code Batches - unique single-use codes (e.g. KP-7GX2Q) generated from a template promotion
+export const promoCodeBatches = pgTable("promo_code_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(), // e.g. "Eid flyers"
+  templatePromoCodeId: varchar("template_promo_code_id").references(() => promoCodes.id, { onDelete: "set null" }), // Codes copy this promotion's rules
+  prefix: text("prefix").notNull(), // Codes look like PREFIX-7GX2Q
+  quantity: integer("quantity").notNull(),
+  campaignId: varchar("campaign_id").references(() => marketingCampaigns.id, { onDelete: "set null" }), // Campaign the codes were issued for
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPromoCodeBatchSchema = createInsertSchema(promoCodeBatches).omit({ id: true, createdAt: true });
+export type InsertPromoCodeBatch = z.infer<typeof insertPromoCodeBatchSchema>;
+export type PromoCodeBatch = typeof promoCodeBatches.$inferSelect;
+
+// A batch as requested from the admin screen - one code per listed customer, or `quantity` unassigned codes
+export const promoCodeBatchInputSchema = z.object({
+  name: z.string().trim().min(1),
+  templatePromoCodeId: z.string().min(1),
+  prefix: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{1,8}$/, "Prefix must be 1-8 letters or digits"),
+  codeLength: z.number().int().min(5).max(10).default(5),
+  quantity: z.number().int().min(1).max(10000).optional(),
+  customers: z.array(z.string().trim().min(1)).max(10000).default([]), // Phone numbers or emails of customer accounts
+}).superRefine((batch, ctx) => {
+  if (!batch.quantity && batch.customers.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["quantity"], message: "Give a quantity or the customers to issue codes to" });
+  }
+});
+export type PromoCodeBatchInput = z.infer<typeof promoCodeBatchInputSchema>;
+
 // Promo Code Usage Tracking
 export const promoCodeUsage = pgTable("promo_code_usage", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -171,13 +246,24 @@ export const promoCodeUsage = pgTable("promo_code_usage", {
   orderId: varchar("order_id").references(() => orders.id).notNull(),
   userId: varchar("user_id").references(() => users.id),
   discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
+  batchId: varchar("batch_id").references(() => promoCodeBatches.id, { onDelete: "set null" }), // Batch the single-use code came from
   usedAt: timestamp("used_at").notNull().defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("promo_code_usage_code_order_idx").on(table.promoCodeId, table.orderId), // A promotion counts once per order
+]);
 
 export const insertPromoCodeUsageSchema = createInsertSchema(promoCodeUsage).omit({ id: true, usedAt: true });
 export type InsertPromoCodeUsage = z.infer<typeof insertPromoCodeUsageSchema>;
 export type PromoCodeUsage = typeof promoCodeUsage.$inferSelect;
 
+// A promotion applied to an order and what it took off
+export interface OrderPromotion {
+  promoCodeId: string;
+  code: string;
+  automatic: boolean;
+  discount: number;
+}
+
 // Orders
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -193,7 +279,7 @@ export const orders = pgTable("orders", {
   deliveryArea: text("delivery_area"), // Selected delivery area
   orderType: text("order_type").notNull().default("takeaway"), // takeaway, delivery, or dine-in
   orderSource: text("order_source").notNull().default("online"), // online, pos, phone
-  paymentMethod: text("payment_method").notNull().default("cash"), // cash, card, jazzcash, stripe
+  paymentMethod: text("payment_method").notNull().default("cash"), // cash, card, jazzcash, stripe, loyalty_points, gift_card, store_credit (paid in full with one of them), split
   paymentStatus: text("payment_status").notNull().default("pending"), // pending, awaiting_verification, paid, failed, partial
   jazzCashTransactionId: text("jazzcash_transaction_id"), // JazzCash transaction ID provided by customer
   jazzCashPayerPhone: text("jazzcash_payer_phone"), // Phone number used for JazzCash payment
@@ -202,30 +288,116 @@ export const orders = pgTable("orders", {
   stripePaymentIntentId: text("stripe_payment_intent_id"), // Stripe payment intent ID for refunds
   items: text("items").notNull(), // JSON string
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(), // Order subtotal before delivery/discount
-  promoCodeId: varchar("promo_code_id").references(() => promoCodes.id), // Applied promo code
-  discount: decimal("discount", { precision: 10, scale: 2 }).default("0"), // POS/Promo: Discount amount
+  promoCodeId: varchar("promo_code_id").references(() => promoCodes.id), // Applied promo code (the first when promotions are stacked)
+  appliedPromotions: jsonb("applied_promotions").$type<OrderPromotion[]>().notNull().default([]), // Every promotion on the order, in the order they applied
+  discount: decimal("discount", { precision: 10, scale: 2 }).default("0"), // POS/Promo: Discount amount (promotions plus manualDiscount)
+  manualDiscount: decimal("manual_discount", { precision: 10, scale: 2 }).notNull().default("0"), // POS: part of discount given by a cashier
   discountReason: text("discount_reason"), // POS: Reason for discount (or promo code)
+  tax: decimal("tax", { precision: 10, scale: 2 }).notNull().default("0"), // Tax amount (when tax is enabled in system settings)
   deliveryCharges: decimal("delivery_charges", { precision: 10, scale: 2 }).default("0"), // Delivery charges
   deliveryDistance: decimal("delivery_distance", { precision: 5, scale: 2 }), // Distance in KM
-  total: decimal("total", { precision: 10, scale: 2 }).notNull(), // subtotal - discount + deliveryCharges
-  status: text("status").notNull().default("pending"), // pending, preparing, ready, completed, cancelled
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(), // subtotal - discount + tax + deliveryCharges
+  status: text("status").notNull().default("pending"), // pending, confirmed, preparing, ready, out_for_delivery, completed, cancelled, rejected (see shared/orderLifecycle.ts)
   waiterId: varchar("waiter_id").references(() => users.id), // POS: Assigned waiter for dine-in
   servedBy: varchar("served_by").references(() => users.id), // POS: Cashier/staff who took the order
   notes: text("notes"),
+  acceptedAt: timestamp("accepted_at"), // Online/phone: when the kitchen accepted the order
+  estimatedPrepMinutes: integer("estimated_prep_minutes"), // Online/phone: kitchen's estimate given on accept
+  rejectionReason: text("rejection_reason"), // Shown to the customer when the order is rejected
+  escalatedAt: timestamp("escalated_at"), // Set when an incoming order waited past orderAcceptTimeoutMinutes
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const insertOrderSchema = createInsertSchema(orders).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  appliedPromotions: z.array(z.object({
+    promoCodeId: z.string(),
+    code: z.string(),
+    automatic: z.boolean(),
+    discount: z.number(),
+  })).optional(),
   subtotal: z.string().or(z.number()).transform(val => typeof val === 'string' ? val : val.toString()),
   discount: z.string().or(z.number()).transform(val => typeof val === 'string' ? val : val.toString()).optional(),
+  tax: z.string().or(z.number()).transform(val => typeof val === 'string' ? val : val.toString()).optional(),
   deliveryCharges: z.string().or(z.number()).transform(val => typeof val === 'string' ? val : val.toString()).optional(),
   deliveryDistance: z.string().or(z.number()).transform(val => typeof val === 'string' ? val : val.toString()).optional(),
   total: z.string().or(z.number()).transform(val => typeof val === 'string' ? val : val.toString()),
 });
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
+
+// What staff may edit on a placed order - contact details, table and notes. Prices, payment and
+// promotions only change through their own endpoints (discount, payment, refunds).
+export const orderDetailsUpdateSchema = insertOrderSchema.pick({
+  customerName: true,
+  customerPhone: true,
+  alternativePhone: true,
+  customerAddress: true,
+  deliveryArea: true,
+  tableId: true,
+  notes: true,
+}).partial().extend({
+  status: z.string().optional(), // Goes through the order lifecycle
+}).strict();
 export type Order = typeof orders.$inferSelect;
 
+// Order Line Items (normalized from orders.items)
+export const orderItemVariantSchema = z.object({
+  groupName: z.string(),
+  optionName: z.string(),
+  optionId: z.string().optional(),
+  priceModifier: z.number().optional(),
+});
+export type OrderItemVariant = z.infer<typeof orderItemVariantSchema>;
+
+export const orderItems = pgTable("order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id, { onDelete: "set null" }), // null if the menu item was deleted
+  name: text("name").notNull(), // Menu item name at time of order
+  variantOptions: jsonb("variant_options").$type<OrderItemVariant[]>().notNull().default([]), // Chosen variant options
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(), // Price per unit including variant modifiers
+  quantity: integer("quantity").notNull(),
+  lineDiscount: decimal("line_discount", { precision: 10, scale: 2 }).notNull().default("0"),
+  lineTotal: decimal("line_total", { precision: 10, scale: 2 }).notNull(), // unitPrice * quantity - lineDiscount
+  notes: text("notes"), // Special instructions for this line
+  kitchenStation: text("kitchen_station"), // Grill, Fryer, Pizza Station, etc.
+  kitchenTicketId: varchar("kitchen_ticket_id").references(() => kitchenTickets.id, { onDelete: "set null" }),
+  refundedQuantity: integer("refunded_quantity").notNull().default(0),
+  lineNumber: integer("line_number").notNull().default(0), // Position within the order
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertOrderItemSchema = createInsertSchema(orderItems).omit({ id: true, createdAt: true }).extend({
+  variantOptions: z.array(orderItemVariantSchema).optional(),
+});
+export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type OrderItem = typeof orderItems.$inferSelect;
+
+// Outbox - side effects recorded in the same transaction as the change that caused them
+// and processed by the background worker (server/outbox.ts)
+export const outboxEvents = pgTable("outbox_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  aggregateType: text("aggregate_type").notNull().default("order"), // order
+  aggregateId: varchar("aggregate_id").notNull(), // e.g. order id
+  eventType: text("event_type").notNull(), // order.kitchen_tickets, order.promo_usage, order.loyalty_award, order.stock_deduction, order.loyalty_reversal, order.stock_return
+  payload: jsonb("payload").$type<Record<string, any>>().notNull().default({}),
+  status: text("status").notNull().default("pending"), // pending, processing, completed, dead
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  lastError: text("last_error"),
+  availableAt: timestamp("available_at").notNull().defaultNow(), // Not picked up before this time (retry backoff)
+  lockedAt: timestamp("locked_at"), // When a worker claimed it
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertOutboxEventSchema = createInsertSchema(outboxEvents).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  payload: z.record(z.any()).optional(),
+});
+export type InsertOutboxEvent = z.infer<typeof insertOutboxEventSchema>;
+export type OutboxEvent = typeof outboxEvents.$inferSelect;
+
 // Delivery Charges Configuration (per branch)
 export const deliveryChargesConfig = pgTable("delivery_charges_config", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -255,6 +427,151 @@ export const DEFAULT_DELIVERY_CONFIG = {
   MAX_DELIVERY_DISTANCE: 15, // Maximum delivery distance in KM
 };
 
+// System Settings (global defaults + per-branch overrides)
+export const systemSettings = pgTable("system_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  branchId: varchar("branch_id").references(() => branches.id, { onDelete: "cascade" }).unique("system_settings_branch_id_unique", { nulls: "not distinct" }), // null = global defaults (one row)
+  settings: jsonb("settings").notNull(), // Full settings for global row, partial overrides for branch rows
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertSystemSettingsSchema = createInsertSchema(systemSettings).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertSystemSettings = z.infer<typeof insertSystemSettingsSchema>;
+export type SystemSettings = typeof systemSettings.$inferSelect;
+
+// What a customer's tier is measured on - spend and order count over the last 12 months
+export const LOYALTY_TIER_METRICS = ["lifetime_points", "rolling_spend", "order_count"] as const;
+export type LoyaltyTierMetric = typeof LOYALTY_TIER_METRICS[number];
+
+// How both sides of a referral are rewarded - loyalty points, or a one-time fixed-amount promo code
+export const REFERRAL_REWARD_TYPES = ["points", "promo"] as const;
+export type ReferralRewardType = typeof REFERRAL_REWARD_TYPES[number];
+
+// Shape of the settings document stored in system_settings.settings
+export const systemSettingsValuesSchema = z.object({
+  restaurantName: z.string(),
+  contactEmail: z.string(),
+  contactPhone: z.string(),
+  address: z.string(),
+  openingTime: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:MM format"),
+  closingTime: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:MM format"),
+  orderNotifications: z.boolean(),
+  soundAlerts: z.boolean(),
+  lowStockAlerts: z.boolean(),
+  taxRate: z.number().min(0).max(100),
+  taxName: z.string(),
+  taxEnabled: z.boolean(),
+  currency: z.string(),
+  currencySymbol: z.string(),
+  language: z.string(),
+  timezone: z.string(),
+  minOrderAmount: z.number().min(0),
+  maxOrderAmount: z.number().min(0), // 0 = no maximum
+  maxOrderDiscountPercent: z.number().min(0).max(100), // Cap on promotions and manual discounts together, % of the subtotal (0 = no cap)
+  manualDiscountWithPromotions: z.boolean(), // Cashiers can add a discount to orders whose promotions are all combinable
+  autoAcceptOrders: z.boolean(),
+  kitchenPrepTimeTarget: z.number().min(1), // Minutes, for menu items without their own prep time
+  orderAcceptTimeoutMinutes: z.number().min(1), // Unaccepted online orders are escalated after this long
+  expiryWarningDays: z.number().min(0), // Batches expiring within this many days are listed as expiring soon
+  autoWriteOffExpiredStock: z.boolean(), // Write expired batches off as wastage automatically
+  requirePhoneVerification: z.boolean(),
+  allowGuestCheckout: z.boolean(),
+  enableLoyaltyProgram: z.boolean(),
+  pointsPerOrder: z.number().min(0), // Points earned per Rs. 100 spent
+  pointsRedemptionRate: z.number().min(1), // Points worth Rs. 1 when paying with points
+  loyaltyTierMetric: z.enum(LOYALTY_TIER_METRICS), // Program-wide - branch overrides are ignored
+  pointsExpiryMonths: z.number().int().min(0), // Program-wide; points earned expire this long after earning, 0 = never
+  pointsExpiryWarningDays: z.number().int().min(0), // Program-wide; customers are warned this many days before points expire
+  enableReferralProgram: z.boolean(), // Program-wide
+  referralRewardType: z.enum(REFERRAL_REWARD_TYPES), // Program-wide
+  referrerRewardValue: z.number().min(0), // Program-wide; points, or Rs. off for promo rewards
+  refereeRewardValue: z.number().min(0), // Program-wide; points, or Rs. off for promo rewards
+  referralPromoValidDays: z.number().int().min(1), // Program-wide; promo rewards expire this long after they are issued
+  defaultDeliveryRadius: z.number().min(0), // KM, used when a branch has no delivery charges config
+  estimatedDeliveryTime: z.number().min(0), // Minutes
+  enableCOD: z.boolean(),
+  enableStripe: z.boolean(),
+  enableJazzCash: z.boolean(),
+});
+export type SystemSettingsValues = z.infer<typeof systemSettingsValuesSchema>;
+
+// Settings anyone may read (storefront and checkout) - the rest is for staff only
+export const publicSystemSettingsSchema = systemSettingsValuesSchema.pick({
+  restaurantName: true,
+  contactEmail: true,
+  contactPhone: true,
+  address: true,
+  openingTime: true,
+  closingTime: true,
+  taxRate: true,
+  taxName: true,
+  taxEnabled: true,
+  currency: true,
+  currencySymbol: true,
+  language: true,
+  timezone: true,
+  minOrderAmount: true,
+  maxOrderAmount: true,
+  requirePhoneVerification: true,
+  allowGuestCheckout: true,
+  enableLoyaltyProgram: true,
+  enableReferralProgram: true,
+  estimatedDeliveryTime: true,
+  enableCOD: true,
+  enableStripe: true,
+  enableJazzCash: true,
+});
+export type PublicSystemSettings = z.infer<typeof publicSystemSettingsSchema>;
+
+// Default system settings (fallback when nothing has been saved yet)
+export const DEFAULT_SYSTEM_SETTINGS: SystemSettingsValues = {
+  restaurantName: "Kebabish Pizza",
+  contactEmail: "info@kebabish-pizza.com",
+  contactPhone: "+92-300-1234567",
+  address: "Main Branch, Sahiwal, Pakistan",
+  openingTime: "10:00",
+  closingTime: "23:00",
+  orderNotifications: true,
+  soundAlerts: true,
+  lowStockAlerts: true,
+  taxRate: 16,
+  taxName: "GST",
+  taxEnabled: false, // Menu prices are tax-inclusive until tax is explicitly enabled
+  currency: "PKR",
+  currencySymbol: "Rs.",
+  language: "en",
+  timezone: "Asia/Karachi",
+  minOrderAmount: 0,
+  maxOrderAmount: 0,
+  maxOrderDiscountPercent: 0,
+  manualDiscountWithPromotions: false,
+  autoAcceptOrders: false,
+  kitchenPrepTimeTarget: 15,
+  orderAcceptTimeoutMinutes: 5,
+  expiryWarningDays: 3,
+  autoWriteOffExpiredStock: false,
+  requirePhoneVerification: false,
+  allowGuestCheckout: true,
+  enableLoyaltyProgram: true,
+  pointsPerOrder: 1, // 1 point per Rs. 100 spent
+  pointsRedemptionRate: 1,
+  loyaltyTierMetric: "rolling_spend",
+  pointsExpiryMonths: 12,
+  pointsExpiryWarningDays: 14,
+  enableReferralProgram: true,
+  referralRewardType: "points",
+  referrerRewardValue: 100,
+  refereeRewardValue: 50,
+  referralPromoValidDays: 30,
+  defaultDeliveryRadius: DEFAULT_DELIVERY_CONFIG.MAX_DELIVERY_DISTANCE,
+  estimatedDeliveryTime: 45,
+  enableCOD: true,
+  enableStripe: true,
+  enableJazzCash: true,
+};
+
 // Daily Expenses
 export const expenses = pgTable("expenses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -267,6 +584,10 @@ export const expenses = pgTable("expenses", {
   supplierId: varchar("supplier_id").references(() => suppliers.id), // Optional: links to supplier when category is 'Supplies'
   receiptUrl: text("receipt_url"), // URL to uploaded receipt/attachment
   addedBy: varchar("added_by").references(() => users.id),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id), // Supplier payable for a purchase order
+  paymentStatus: text("payment_status").notNull().default("paid"), // paid, unpaid (supplier payables until settled)
+  dueDate: timestamp("due_date"), // When an unpaid payable falls due (supplier payment terms)
+  paidAt: timestamp("paid_at"),
   isDeleted: boolean("is_deleted").notNull().default(false), // Soft delete flag
   deletedAt: timestamp("deleted_at"), // When the expense was soft deleted
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -322,13 +643,17 @@ export type PosSession = typeof posSessions.$inferSelect;
 export const kitchenTickets = pgTable("kitchen_tickets", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: varchar("order_id").references(() => orders.id).notNull(),
+  branchId: varchar("branch_id").references(() => branches.id), // Copied from the order for socket routing
   ticketNumber: text("ticket_number").notNull(),
   items: text("items").notNull(), // JSON string of items for this ticket
-  station: text("station"), // Grill, Fryer, Pizza Station, etc.
+  stationId: varchar("station_id").references(() => kitchenStations.id, { onDelete: "set null" }), // null = unrouted items
+  station: text("station"), // Station name at time of order (Grill, Fryer, Pizza, etc.)
   priority: text("priority").notNull().default("normal"), // urgent, high, normal, low
   status: text("status").notNull().default("pending"), // pending, preparing, ready, served
   specialInstructions: text("special_instructions"),
   preparedBy: varchar("prepared_by").references(() => users.id), // Chef/cook who prepared
+  targetPrepMinutes: integer("target_prep_minutes").notNull().default(15), // SLA - slowest item on the ticket
+  slaBreachedAt: timestamp("sla_breached_at"), // Set once when the ticket runs past its target
   createdAt: timestamp("created_at").notNull().defaultNow(),
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
@@ -336,6 +661,15 @@ export const kitchenTickets = pgTable("kitchen_tickets", {
 
 export const insertKitchenTicketSchema = createInsertSchema(kitchenTickets).omit({ id: true, createdAt: true });
 export type InsertKitchenTicket = z.infer<typeof insertKitchenTicketSchema>;
+
+export const KITCHEN_TICKET_PRIORITIES = ["urgent", "high", "normal", "low"] as const;
+
+// What the kitchen may edit on a ticket - its items, routing and timings are set when it is sent
+export const kitchenTicketUpdateSchema = z.object({
+  priority: z.enum(KITCHEN_TICKET_PRIORITIES).optional(),
+  specialInstructions: z.string().nullable().optional(),
+  status: z.string().optional(), // Goes through updateKitchenTicketStatus so timings and the order stay in step
+}).strict();
 export type KitchenTicket = typeof kitchenTickets.$inferSelect;
 
 // Payment Transactions (supports split payments)
@@ -343,15 +677,17 @@ export const payments = pgTable("payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: varchar("order_id").references(() => orders.id).notNull(),
   sessionId: varchar("session_id").references(() => posSessions.id),
-  paymentMethod: text("payment_method").notNull(), // cash, card, jazzcash
+  paymentMethod: text("payment_method").notNull(), // cash, card, jazzcash, loyalty_points, gift_card, store_credit
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  reference: text("reference"), // Card authorization number, JazzCash transaction ID, etc.
+  reference: text("reference"), // Card authorization number, JazzCash transaction ID, points redeemed, gift card code, etc.
   receivedBy: varchar("received_by").references(() => users.id), // Staff who received payment
   status: text("status").notNull().default("completed"), // pending, completed, refunded
+  ledgerEntryId: varchar("ledger_entry_id"), // Points, store credit and gift card payments: the ledger transaction that took the value
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true });
+// Ledger links are only written with the ledger entry itself
+export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true, ledgerEntryId: true });
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Payment = typeof payments.$inferSelect;
 
@@ -359,8 +695,8 @@ export type Payment = typeof payments.$inferSelect;
 export const orderModifications = pgTable("order_modifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: varchar("order_id").references(() => orders.id).notNull(),
-  modifiedBy: varchar("modified_by").references(() => users.id).notNull(),
-  modificationType: text("modification_type").notNull(), // item_added, item_removed, discount_applied, etc.
+  modifiedBy: varchar("modified_by").references(() => users.id), // Null for system changes
+  modificationType: text("modification_type").notNull(), // item_added, item_removed, discount_applied, status_changed, etc.
   description: text("description").notNull(),
   oldValue: text("old_value"), // JSON or text of old value
   newValue: text("new_value"), // JSON or text of new value
@@ -499,7 +835,8 @@ export const loyaltyPoints = pgTable("loyalty_points", {
   availablePoints: integer("available_points").notNull().default(0),
   lifetimeEarned: integer("lifetime_earned").notNull().default(0),
   lifetimeRedeemed: integer("lifetime_redeemed").notNull().default(0),
-  tier: text("tier").notNull().default("bronze"), // bronze, silver, gold, platinum
+  tier: text("tier").notNull().default("bronze"), // Code of a loyalty tier (bronze, silver, gold, platinum by default)
+  tierUpdatedAt: timestamp("tier_updated_at"), // Last promotion or demotion
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -513,11 +850,12 @@ export const loyaltyTransactions = pgTable("loyalty_transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   customerId: varchar("customer_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   orderId: varchar("order_id").references(() => orders.id),
-  transactionType: text("transaction_type").notNull(), // earn, redeem, expire, bonus, adjustment
-  points: integer("points").notNull(), // Positive for earn, negative for redeem/expire
+  transactionType: text("transaction_type").notNull(), // earn, redeem, restore, expire, bonus, adjustment, reversal, tier_change
+  points: integer("points").notNull(), // Positive for earn/restore, negative for redeem/expire, 0 for tier_change
   balanceAfter: integer("balance_after").notNull(),
   description: text("description").notNull(),
   expiresAt: timestamp("expires_at"), // For earned points that expire
+  expiryWarnedAt: timestamp("expiry_warned_at"), // Customer was warned these points are about to expire
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -525,13 +863,333 @@ export const insertLoyaltyTransactionSchema = createInsertSchema(loyaltyTransact
 export type InsertLoyaltyTransaction = z.infer<typeof insertLoyaltyTransactionSchema>;
 export type LoyaltyTransaction = typeof loyaltyTransactions.$inferSelect;
 
+// Customer Notifications - kept for the customer's account so a message is not lost when they were
+// not connected as it was sent (socket events only reach open pages)
+export const customerNotifications = pgTable("customer_notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(), // points_expiring, stamp_card_completed, tier_changed, referral_rewarded
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCustomerNotificationSchema = createInsertSchema(customerNotifications).omit({ id: true, createdAt: true, readAt: true });
+export type InsertCustomerNotification = z.infer<typeof insertCustomerNotificationSchema>;
+export type CustomerNotification = typeof customerNotifications.$inferSelect;
+
+// Loyalty Tiers - customers sit in the highest active tier whose threshold their qualifying
+// value (loyaltyTierMetric) has reached
+export const loyaltyTiers = pgTable("loyalty_tiers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // Stored on loyaltyPoints.tier, e.g. "gold"
+  name: text("name").notNull(),
+  threshold: decimal("threshold", { precision: 10, scale: 2 }).notNull().default("0"), // Points, Rs. or orders, per the metric
+  earnMultiplier: decimal("earn_multiplier", { precision: 4, scale: 2 }).notNull().default("1"),
+  freeDelivery: boolean("free_delivery").notNull().default(false),
+  perks: jsonb("perks").$type<string[]>().notNull().default([]), // Shown to customers
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertLoyaltyTierSchema = createInsertSchema(loyaltyTiers).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  perks: z.array(z.string()).optional(),
+});
+export type InsertLoyaltyTier = z.infer<typeof insertLoyaltyTierSchema>;
+export type LoyaltyTier = typeof loyaltyTiers.$inferSelect;
+
+// Tiers used until any have been saved (thresholds in Rs. spent over 12 months)
+export const DEFAULT_LOYALTY_TIERS: InsertLoyaltyTier[] = [
+  { code: "bronze", name: "Bronze", threshold: "0", earnMultiplier: "1", freeDelivery: false, perks: [], sortOrder: 0, isActive: true },
+  { code: "silver", name: "Silver", threshold: "15000", earnMultiplier: "1.25", freeDelivery: false, perks: ["25% bonus points"], sortOrder: 1, isActive: true },
+  { code: "gold", name: "Gold", threshold: "40000", earnMultiplier: "1.5", freeDelivery: true, perks: ["50% bonus points", "Free delivery"], sortOrder: 2, isActive: true },
+  { code: "platinum", name: "Platinum", threshold: "100000", earnMultiplier: "2", freeDelivery: true, perks: ["Double points", "Free delivery"], sortOrder: 3, isActive: true },
+];
+
+// The tier table as saved from the admin screen - replaces every tier at once
+export const loyaltyTierInputSchema = z.object({
+  code: z.string().trim().toLowerCase().regex(/^[a-z0-9_]+$/, "Tier codes use lowercase letters, numbers and underscores"),
+  name: z.string().trim().min(1),
+  threshold: z.number().min(0),
+  earnMultiplier: z.number().min(0).max(10),
+  freeDelivery: z.boolean().default(false),
+  perks: z.array(z.string().trim().min(1)).default([]),
+  isActive: z.boolean().default(true),
+});
+export const loyaltyTierTableSchema = z.object({
+  metric: z.enum(LOYALTY_TIER_METRICS),
+  tiers: z.array(loyaltyTierInputSchema).min(1),
+}).superRefine((table, ctx) => {
+  const codes = table.tiers.map(tier => tier.code);
+  if (new Set(codes).size !== codes.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tiers"], message: "Tier codes must be unique" });
+  }
+  if (!table.tiers.some(tier => tier.isActive && tier.threshold === 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tiers"], message: "One active tier needs a threshold of 0 for new customers" });
+  }
+});
+export type LoyaltyTierTable = z.infer<typeof loyaltyTierTableSchema>;
+
+// Loyalty Rewards - a catalogue of rewards customers claim with points. A claimed reward is a
+// voucher that cart, POS and order creation turn into a free line or free delivery.
+export const LOYALTY_REWARD_TYPES = ["free_item", "free_delivery"] as const;
+export type LoyaltyRewardType = typeof LOYALTY_REWARD_TYPES[number];
+
+export const loyaltyRewards = pgTable("loyalty_rewards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(), // e.g. "Free garlic bread"
+  description: text("description"),
+  rewardType: text("reward_type").notNull(), // free_item, free_delivery
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id), // The free item, for free_item rewards
+  pointsCost: integer("points_cost").notNull(),
+  stockLimit: integer("stock_limit"), // How many can be claimed in total (null = unlimited)
+  claimedCount: integer("claimed_count").notNull().default(0),
+  branchIds: jsonb("branch_ids").$type<string[]>().notNull().default([]), // Branches the voucher is good at (empty = all)
+  validFrom: timestamp("valid_from"), // Claimable from (null = now)
+  validUntil: timestamp("valid_until"), // Claimable until; unused vouchers expire then too (null = no end)
+  voucherValidDays: integer("voucher_valid_days"), // Vouchers expire this many days after claiming (null = no limit)
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertLoyaltyRewardSchema = createInsertSchema(loyaltyRewards).omit({ id: true, createdAt: true, updatedAt: true, claimedCount: true }).extend({
+  branchIds: z.array(z.string()).optional(),
+});
+export type InsertLoyaltyReward = z.infer<typeof insertLoyaltyRewardSchema>;
+export type LoyaltyReward = typeof loyaltyRewards.$inferSelect;
+
+// A reward as saved from the admin screen
+export const loyaltyRewardInputSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().trim().nullable().optional(),
+  rewardType: z.enum(LOYALTY_REWARD_TYPES),
+  menuItemId: z.string().nullable().optional(),
+  pointsCost: z.number().int().min(1),
+  stockLimit: z.number().int().min(1).nullable().optional(),
+  branchIds: z.array(z.string()).default([]),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  voucherValidDays: z.number().int().min(1).nullable().optional(),
+  isActive: z.boolean().default(true),
+}).superRefine((reward, ctx) => {
+  if (reward.rewardType === "free_item" && !reward.menuItemId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["menuItemId"], message: "Choose the menu item this reward gives away" });
+  }
+  if (reward.validFrom && reward.validUntil && reward.validUntil <= reward.validFrom) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["validUntil"], message: "Reward must end after it starts" });
+  }
+});
+export type LoyaltyRewardInput = z.infer<typeof loyaltyRewardInputSchema>;
+
+// Rewards claimed by customers, and free items from completed stamp cards - each one is a single-use voucher
+export const loyaltyRewardClaims = pgTable("loyalty_reward_claims", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rewardId: varchar("reward_id").references(() => loyaltyRewards.id), // Set for catalogue rewards
+  stampCardId: varchar("stamp_card_id").references(() => stampCards.id), // Set for completed stamp cards
+  customerId: varchar("customer_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  code: text("code").notNull().unique(), // Voucher code, entered at checkout or the POS
+  pointsSpent: integer("points_spent").notNull(), // 0 for stamp card vouchers
+  status: text("status").notNull().default("available"), // available, used, voided (expiry is read from expiresAt)
+  orderId: varchar("order_id").references(() => orders.id), // Order the voucher was used on
+  expiresAt: timestamp("expires_at"),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertLoyaltyRewardClaimSchema = createInsertSchema(loyaltyRewardClaims).omit({ id: true, createdAt: true });
+export type InsertLoyaltyRewardClaim = z.infer<typeof insertLoyaltyRewardClaimSchema>;
+export type LoyaltyRewardClaim = typeof loyaltyRewardClaims.$inferSelect;
+
+// Stamp cards - "buy 9, get the 10th free". Each unit of a qualifying item earns a stamp.
+export const stampCards = pgTable("stamp_cards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(), // e.g. "Pizza card"
+  description: text("description"),
+  menuItemIds: jsonb("menu_item_ids").$type<string[]>().notNull().default([]), // Items that earn stamps
+  categoryIds: jsonb("category_ids").$type<string[]>().notNull().default([]), // Every item in these categories earns stamps
+  stampsRequired: integer("stamps_required").notNull(), // Stamps for a full card
+  rewardMenuItemId: varchar("reward_menu_item_id").references(() => menuItems.id).notNull(), // The free item for a full card
+  voucherValidDays: integer("voucher_valid_days"), // Vouchers expire this many days after the card fills (null = no limit)
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertStampCardSchema = createInsertSchema(stampCards).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  menuItemIds: z.array(z.string()).optional(),
+  categoryIds: z.array(z.string()).optional(),
+});
+export type InsertStampCard = z.infer<typeof insertStampCardSchema>;
+export type StampCard = typeof stampCards.$inferSelect;
+
+// A stamp card as saved from the admin screen
+export const stampCardInputSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().trim().nullable().optional(),
+  menuItemIds: z.array(z.string()).default([]),
+  categoryIds: z.array(z.string()).default([]),
+  stampsRequired: z.number().int().min(2),
+  rewardMenuItemId: z.string().min(1),
+  voucherValidDays: z.number().int().min(1).nullable().optional(),
+  isActive: z.boolean().default(true),
+}).superRefine((card, ctx) => {
+  if (card.menuItemIds.length === 0 && card.categoryIds.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["menuItemIds"], message: "Choose the items or categories that earn stamps" });
+  }
+});
+export type StampCardInput = z.infer<typeof stampCardInputSchema>;
+
+// Each customer's progress on each stamp card
+export const customerStamps = pgTable("customer_stamps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stampCardId: varchar("stamp_card_id").references(() => stampCards.id, { onDelete: "cascade" }).notNull(),
+  customerId: varchar("customer_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  stamps: integer("stamps").notNull().default(0), // Stamps on the card being filled
+  cardsCompleted: integer("cards_completed").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("customer_stamps_card_customer_idx").on(table.stampCardId, table.customerId),
+]);
+
+export type CustomerStamps = typeof customerStamps.$inferSelect;
+
+// Stamps earned and taken back, per order
+export const stampTransactions = pgTable("stamp_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stampCardId: varchar("stamp_card_id").references(() => stampCards.id, { onDelete: "cascade" }).notNull(),
+  customerId: varchar("customer_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  orderId: varchar("order_id").references(() => orders.id),
+  transactionType: text("transaction_type").notNull(), // earn, reversal
+  stamps: integer("stamps").notNull(), // Positive for earn, negative for reversal
+  voucherIds: jsonb("voucher_ids").$type<string[]>().notNull().default([]), // Vouchers issued (earn) or voided (reversal)
+  description: text("description"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertStampTransactionSchema = createInsertSchema(stampTransactions).omit({ id: true, createdAt: true }).extend({
+  voucherIds: z.array(z.string()).optional(),
+});
+export type InsertStampTransaction = z.infer<typeof insertStampTransactionSchema>;
+export type StampTransaction = typeof stampTransactions.$inferSelect;
+
+// Referrals - a customer who signed up with another customer's referral code
+export const referrals = pgTable("referrals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  referrerId: varchar("referrer_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  refereeId: varchar("referee_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  code: text("code").notNull(), // The referral code used at signup
+  status: text("status").notNull().default("pending"), // pending, rewarded, rejected
+  rejectionReason: text("rejection_reason"), // Why a fraud check stopped the rewards
+  qualifyingOrderId: varchar("qualifying_order_id").references(() => orders.id), // Referee's first completed, paid order
+  rewardType: text("reward_type"), // points, promo - as configured when rewarded
+  referrerPoints: integer("referrer_points").notNull().default(0),
+  refereePoints: integer("referee_points").notNull().default(0),
+  referrerPromoCodeId: varchar("referrer_promo_code_id").references(() => promoCodes.id),
+  refereePromoCodeId: varchar("referee_promo_code_id").references(() => promoCodes.id),
+  rewardCost: decimal("reward_cost", { precision: 10, scale: 2 }).notNull().default("0"), // Rs. value of both rewards
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  rewardedAt: timestamp("rewarded_at"),
+});
+
+export const insertReferralSchema = createInsertSchema(referrals).omit({ id: true, createdAt: true });
+export type InsertReferral = z.infer<typeof insertReferralSchema>;
+export type Referral = typeof referrals.$inferSelect;
+
+// Gift cards - prepaid codes sold at the POS or online and spent as a tender on any order
+export const giftCards = pgTable("gift_cards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // GC-XXXX-XXXX
+  initialValue: decimal("initial_value", { precision: 10, scale: 2 }).notNull(),
+  balance: decimal("balance", { precision: 10, scale: 2 }).notNull(),
+  status: text("status").notNull().default("active"), // pending (awaiting online payment), active, voided
+  branchId: varchar("branch_id").references(() => branches.id), // Where it was sold (null = online)
+  sessionId: varchar("session_id").references(() => posSessions.id), // POS session it was sold in
+  purchaserId: varchar("purchaser_id").references(() => users.id), // Customer who bought it
+  recipientName: text("recipient_name"),
+  recipientEmail: text("recipient_email"),
+  message: text("message"),
+  paymentMethod: text("payment_method").notNull(), // cash, card, jazzcash, stripe - how it was paid for
+  paymentReference: text("payment_reference"), // Stripe checkout session, card authorization, etc.
+  soldBy: varchar("sold_by").references(() => users.id), // Staff who sold it at the POS
+  voidReason: text("void_reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  activatedAt: timestamp("activated_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertGiftCardSchema = createInsertSchema(giftCards).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertGiftCard = z.infer<typeof insertGiftCardSchema>;
+export type GiftCard = typeof giftCards.$inferSelect;
+
+// A gift card being sold - at the POS (paid there and then) or bought online
+export const giftCardSaleSchema = z.object({
+  amount: z.number().positive().max(100000),
+  recipientName: z.string().trim().max(100).nullable().optional(),
+  recipientEmail: z.string().trim().email().nullable().optional().or(z.literal("")),
+  message: z.string().trim().max(500).nullable().optional(),
+  paymentMethod: z.enum(["cash", "card", "jazzcash"]).default("cash"),
+  paymentReference: z.string().trim().nullable().optional(),
+  branchId: z.string().min(1).optional(),
+  customerId: z.string().min(1).nullable().optional(),
+});
+export type GiftCardSale = z.infer<typeof giftCardSaleSchema>;
+
+// Every change to a gift card's balance
+export const giftCardTransactions = pgTable("gift_card_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  giftCardId: varchar("gift_card_id").references(() => giftCards.id, { onDelete: "cascade" }).notNull(),
+  transactionType: text("transaction_type").notNull(), // issue, redeem, restore, refund, void
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Positive adds to the balance, negative spends it
+  balanceAfter: decimal("balance_after", { precision: 10, scale: 2 }).notNull(),
+  orderId: varchar("order_id").references(() => orders.id),
+  refundId: varchar("refund_id").references(() => refunds.id),
+  performedBy: varchar("performed_by").references(() => users.id),
+  description: text("description"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type GiftCardTransaction = typeof giftCardTransactions.$inferSelect;
+
+// Store credit - a per-customer wallet balance, topped up by refunds and admin adjustments
+export const storeCreditAccounts = pgTable("store_credit_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  balance: decimal("balance", { precision: 10, scale: 2 }).notNull().default("0"),
+  lifetimeCredited: decimal("lifetime_credited", { precision: 10, scale: 2 }).notNull().default("0"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type StoreCreditAccount = typeof storeCreditAccounts.$inferSelect;
+
+// The wallet ledger - every credit and spend, with the balance after it
+export const storeCreditTransactions = pgTable("store_credit_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  transactionType: text("transaction_type").notNull(), // refund, redeem, restore, adjustment
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Positive credits the wallet, negative spends it
+  balanceAfter: decimal("balance_after", { precision: 10, scale: 2 }).notNull(),
+  orderId: varchar("order_id").references(() => orders.id),
+  refundId: varchar("refund_id").references(() => refunds.id),
+  performedBy: varchar("performed_by").references(() => users.id),
+  description: text("description"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type StoreCreditTransaction = typeof storeCreditTransactions.$inferSelect;
+
 // Refunds
 export const refunds = pgTable("refunds", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: varchar("order_id").references(() => orders.id).notNull(),
   paymentId: varchar("payment_id").references(() => payments.id),
   refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }).notNull(),
-  refundMethod: text("refund_method").notNull(), // cash, card, jazzcash, loyalty_points
+  refundMethod: text("refund_method").notNull(), // cash, card, jazzcash, loyalty_points, gift_card (back onto the cards paid with), store_credit
   reason: text("reason").notNull(),
   status: text("status").notNull().default("pending"), // pending, processing, completed, failed
   processedBy: varchar("processed_by").references(() => users.id),
@@ -545,6 +1203,20 @@ export const insertRefundSchema = createInsertSchema(refunds).omit({ id: true, r
 export type InsertRefund = z.infer<typeof insertRefundSchema>;
 export type Refund = typeof refunds.$inferSelect;
 
+// Refunded order lines (per-line refunds)
+export const refundItems = pgTable("refund_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  refundId: varchar("refund_id").references(() => refunds.id, { onDelete: "cascade" }).notNull(),
+  orderItemId: varchar("order_item_id").references(() => orderItems.id, { onDelete: "cascade" }).notNull(),
+  quantity: integer("quantity").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertRefundItemSchema = createInsertSchema(refundItems).omit({ id: true, createdAt: true });
+export type InsertRefundItem = z.infer<typeof insertRefundItemSchema>;
+export type RefundItem = typeof refundItems.$inferSelect;
+
 // Suppliers for Inventory Management
 export const suppliers = pgTable("suppliers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -565,18 +1237,59 @@ export const insertSupplierSchema = createInsertSchema(suppliers).omit({ id: tru
 export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
 export type Supplier = typeof suppliers.$inferSelect;
 
-// Inventory Transactions (Stock movements)
+// Ingredients - raw stock consumed through recipes.
+// Quantities are whole numbers in the ingredient's base unit.
+export const INGREDIENT_UNITS = ["g", "ml", "pcs"] as const;
+
+export const ingredients = pgTable("ingredients", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  unit: text("unit").notNull().default("g"), // g, ml, pcs
+  category: text("category"), // dairy, produce, meat, dry_goods, sauces, beverage, packaging
+  stockQuantity: integer("stock_quantity").notNull().default(0), // Total across branches in base units - per-branch levels are in branchStock
+  lowStockThreshold: integer("low_stock_threshold").default(0),
+  costPerUnit: decimal("cost_per_unit", { precision: 10, scale: 4 }).notNull().default("0"), // Per base unit
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertIngredientSchema = createInsertSchema(ingredients).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  unit: z.enum(INGREDIENT_UNITS),
+});
+export type InsertIngredient = z.infer<typeof insertIngredientSchema>;
+export type Ingredient = typeof ingredients.$inferSelect;
+
+// Recipes (bill of materials) - ingredient usage per unit sold.
+// menuItemId only: the item's base recipe. variantOptionId only: extra usage whenever the option
+// is chosen (e.g. Large adds cheese). Both: extra usage for the option on that item only.
+export const recipeItems = pgTable("recipe_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id, { onDelete: "cascade" }),
+  variantOptionId: varchar("variant_option_id").references(() => variantOptions.id, { onDelete: "cascade" }),
+  ingredientId: varchar("ingredient_id").references(() => ingredients.id, { onDelete: "cascade" }).notNull(),
+  quantity: integer("quantity").notNull(), // In the ingredient's base unit
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertRecipeItemSchema = createInsertSchema(recipeItems).omit({ id: true, createdAt: true });
+export type InsertRecipeItem = z.infer<typeof insertRecipeItemSchema>;
+export type RecipeItem = typeof recipeItems.$inferSelect;
+
+// Inventory Transactions (Stock movements) - for a finished menu item or an ingredient
 export const inventoryTransactions = pgTable("inventory_transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  menuItemId: varchar("menu_item_id").references(() => menuItems.id).notNull(),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id),
+  ingredientId: varchar("ingredient_id").references(() => ingredients.id),
   branchId: varchar("branch_id").references(() => branches.id).notNull(),
-  transactionType: text("transaction_type").notNull(), // purchase, sale, adjustment, wastage, return
+  transactionType: text("transaction_type").notNull(), // purchase, sale, adjustment, wastage, return, transfer_out, transfer_in
   quantity: integer("quantity").notNull(), // Positive for in, negative for out
   balanceAfter: integer("balance_after").notNull(),
-  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }),
-  totalCost: decimal("total_cost", { precision: 10, scale: 2 }),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 4 }), // Per unit (per base unit for ingredients); the branch's average cost for outgoing stock
+  totalCost: decimal("total_cost", { precision: 10, scale: 2 }), // quantity x unitCost, so negative for stock out - a sale's is its cost of goods sold
   supplierId: varchar("supplier_id").references(() => suppliers.id),
   orderId: varchar("order_id").references(() => orders.id), // Link to sale order if applicable
+  stockTransferId: varchar("stock_transfer_id").references(() => stockTransfers.id), // Pairs a transfer's out and in movements
   reference: text("reference"), // Invoice number, PO number, etc.
   reason: text("reason"),
   performedBy: varchar("performed_by").references(() => users.id),
@@ -587,10 +1300,113 @@ export const insertInventoryTransactionSchema = createInsertSchema(inventoryTran
 export type InsertInventoryTransaction = z.infer<typeof insertInventoryTransactionSchema>;
 export type InventoryTransaction = typeof inventoryTransactions.$inferSelect;
 
+// Branch Stock - stock level of a finished menu item or an ingredient at one branch.
+// onHand only changes through inventory transactions; reserved is held by orders not yet in the
+// kitchen (see stockReservations); available = onHand - reserved. averageCost is the weighted
+// average of what the stock on hand cost; outgoing movements (sales included) are costed at it.
+export const branchStock = pgTable("branch_stock", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  branchId: varchar("branch_id").references(() => branches.id, { onDelete: "cascade" }).notNull(),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id, { onDelete: "cascade" }),
+  ingredientId: varchar("ingredient_id").references(() => ingredients.id, { onDelete: "cascade" }),
+  onHand: integer("on_hand").notNull().default(0),
+  reserved: integer("reserved").notNull().default(0),
+  available: integer("available").notNull().default(0),
+  averageCost: decimal("average_cost", { precision: 10, scale: 4 }).notNull().default("0"), // Per unit; 0 until costed stock arrives
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("branch_stock_menu_item_idx").on(table.branchId, table.menuItemId).where(sql`${table.menuItemId} is not null`),
+  uniqueIndex("branch_stock_ingredient_idx").on(table.branchId, table.ingredientId).where(sql`${table.ingredientId} is not null`),
+]);
+
+export type BranchStock = typeof branchStock.$inferSelect;
+
+// Stock Reservations - stock held for an order from checkout until the kitchen starts it
+// (consumed into a sale transaction) or the order is cancelled/rejected (released)
+export const stockReservations = pgTable("stock_reservations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  branchId: varchar("branch_id").references(() => branches.id).notNull(),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id, { onDelete: "cascade" }),
+  ingredientId: varchar("ingredient_id").references(() => ingredients.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull(),
+  status: text("status").notNull().default("active"), // active, consumed, released
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type StockReservation = typeof stockReservations.$inferSelect;
+
+// A stock-tracked thing: a finished menu item or an ingredient
+export type StockItemRef = { menuItemId?: string | null; ingredientId?: string | null };
+
+// Stock Takes - a physical count at one branch, of everything (full) or one category (cycle).
+// Expected quantities are frozen when the count starts; posting books counted minus expected as
+// adjustment transactions, so movements made while counting are kept.
+export const stockTakes = pgTable("stock_takes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  takeNumber: text("take_number").notNull().unique(),
+  branchId: varchar("branch_id").references(() => branches.id).notNull(),
+  countType: text("count_type").notNull().default("full"), // full, cycle
+  ingredientCategory: text("ingredient_category"), // Cycle counts: ingredients in this category
+  menuCategoryId: varchar("menu_category_id").references(() => categories.id), // Cycle counts: finished items in this category
+  status: text("status").notNull().default("counting"), // counting, posted, cancelled
+  totalVarianceValue: decimal("total_variance_value", { precision: 10, scale: 2 }).notNull().default("0"), // Negative is a loss
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  postedBy: varchar("posted_by").references(() => users.id),
+  postedAt: timestamp("posted_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertStockTakeSchema = createInsertSchema(stockTakes).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertStockTake = z.infer<typeof insertStockTakeSchema>;
+export type StockTake = typeof stockTakes.$inferSelect;
+
+// Stock Take lines - one per item in the count. Lines never counted are left out when posting.
+export const stockTakeItems = pgTable("stock_take_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stockTakeId: varchar("stock_take_id").references(() => stockTakes.id, { onDelete: "cascade" }).notNull(),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id),
+  ingredientId: varchar("ingredient_id").references(() => ingredients.id),
+  description: text("description").notNull(),
+  expectedQuantity: integer("expected_quantity").notNull(), // On hand when the count started
+  countedQuantity: integer("counted_quantity"),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 4 }).notNull().default("0"),
+  variance: integer("variance"), // Counted minus expected, set when posted
+  varianceValue: decimal("variance_value", { precision: 10, scale: 2 }),
+  inventoryTransactionId: varchar("inventory_transaction_id").references(() => inventoryTransactions.id),
+  countedBy: varchar("counted_by").references(() => users.id),
+  countedAt: timestamp("counted_at"),
+});
+
+export const insertStockTakeItemSchema = createInsertSchema(stockTakeItems).omit({
+  id: true,
+  stockTakeId: true,
+  countedQuantity: true,
+  variance: true,
+  varianceValue: true,
+  inventoryTransactionId: true,
+  countedBy: true,
+  countedAt: true,
+});
+export type InsertStockTakeItem = z.infer<typeof insertStockTakeItemSchema>;
+export type StockTakeItem = typeof stockTakeItems.$inferSelect;
+
+// Counted quantity for one stock take line; null clears the count
+export const stockTakeCountSchema = z.object({
+  stockTakeItemId: z.string(),
+  countedQuantity: z.number().int().min(0).nullable(),
+});
+export type StockTakeCount = z.infer<typeof stockTakeCountSchema>;
+
 // Stock Wastage Tracking
 export const stockWastage = pgTable("stock_wastage", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  menuItemId: varchar("menu_item_id").references(() => menuItems.id).notNull(),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id), // Finished item...
+  ingredientId: varchar("ingredient_id").references(() => ingredients.id), // ...or ingredient
   branchId: varchar("branch_id").references(() => branches.id).notNull(),
   quantity: integer("quantity").notNull(),
   wastageType: text("wastage_type").notNull(), // expired, damaged, overproduction, spillage
@@ -605,10 +1421,48 @@ export const insertStockWastageSchema = createInsertSchema(stockWastage).omit({
 export type InsertStockWastage = z.infer<typeof insertStockWastageSchema>;
 export type StockWastage = typeof stockWastage.$inferSelect;
 
+// Stock Batches - a lot of an item or ingredient received at a branch, with its expiry date.
+// Stock leaving the branch draws batches first-expiry-first-out; stock received without a lot
+// number or expiry date is not batch-tracked.
+export const stockBatches = pgTable("stock_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  branchId: varchar("branch_id").references(() => branches.id, { onDelete: "cascade" }).notNull(),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id, { onDelete: "cascade" }),
+  ingredientId: varchar("ingredient_id").references(() => ingredients.id, { onDelete: "cascade" }),
+  lotNumber: text("lot_number"),
+  expiryDate: timestamp("expiry_date"),
+  quantityReceived: integer("quantity_received").notNull(),
+  quantityRemaining: integer("quantity_remaining").notNull(),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 4 }),
+  status: text("status").notNull().default("active"), // active, depleted, written_off
+  inventoryTransactionId: varchar("inventory_transaction_id").references(() => inventoryTransactions.id), // The receipt
+  stockWastageId: varchar("stock_wastage_id").references(() => stockWastage.id), // Set when written off
+  writtenOffAt: timestamp("written_off_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type StockBatch = typeof stockBatches.$inferSelect;
+
+// Lot details given when stock is received
+export const stockBatchInputSchema = z.object({
+  lotNumber: z.string().trim().max(100).nullish(),
+  expiryDate: z.coerce.date().nullish(),
+});
+export type StockBatchInput = z.infer<typeof stockBatchInputSchema>;
+
+// Part of a batch sent on a transfer, recreated as a batch at the receiving branch
+export interface TransferredBatch {
+  lotNumber: string | null;
+  expiryDate: string | null;
+  quantity: number;
+}
+
 // Reorder Points Configuration
 export const reorderPoints = pgTable("reorder_points", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  menuItemId: varchar("menu_item_id").references(() => menuItems.id, { onDelete: "cascade" }).notNull(),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id, { onDelete: "cascade" }), // Finished item...
+  ingredientId: varchar("ingredient_id").references(() => ingredients.id, { onDelete: "cascade" }), // ...or ingredient
   branchId: varchar("branch_id").references(() => branches.id).notNull(),
   reorderLevel: integer("reorder_level").notNull(), // Trigger reorder when stock reaches this level
   reorderQuantity: integer("reorder_quantity").notNull(), // How much to order
@@ -624,6 +1478,148 @@ export const insertReorderPointSchema = createInsertSchema(reorderPoints).omit({
 export type InsertReorderPoint = z.infer<typeof insertReorderPointSchema>;
 export type ReorderPoint = typeof reorderPoints.$inferSelect;
 
+// Purchase Orders - stock ordered from a supplier for one branch
+export const PURCHASE_ORDER_STATUSES = ["draft", "sent", "partially_received", "received", "cancelled"] as const;
+
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  poNumber: text("po_number").notNull().unique(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  branchId: varchar("branch_id").references(() => branches.id).notNull(),
+  status: text("status").notNull().default("draft"), // draft, sent, partially_received, received, cancelled
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull().default("0"), // Ordered value
+  expectedDate: timestamp("expected_date"),
+  notes: text("notes"),
+  isAutoDrafted: boolean("is_auto_drafted").notNull().default(false), // Drafted from reorder points
+  createdBy: varchar("created_by").references(() => users.id),
+  sentAt: timestamp("sent_at"),
+  receivedAt: timestamp("received_at"), // When the last outstanding quantity arrived
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+
+// Purchase Order lines - a finished menu item or an ingredient
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id, { onDelete: "cascade" }).notNull(),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id),
+  ingredientId: varchar("ingredient_id").references(() => ingredients.id),
+  description: text("description").notNull(), // Item name at time of ordering
+  quantityOrdered: integer("quantity_ordered").notNull(),
+  quantityReceived: integer("quantity_received").notNull().default(0),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 4 }).notNull().default("0"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems).omit({ id: true, createdAt: true, purchaseOrderId: true, quantityReceived: true });
+export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+
+// Goods Received Notes - one per delivery against a purchase order
+export const goodsReceivedNotes = pgTable("goods_received_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  grnNumber: text("grn_number").notNull().unique(),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id, { onDelete: "cascade" }).notNull(),
+  branchId: varchar("branch_id").references(() => branches.id).notNull(),
+  supplierReference: text("supplier_reference"), // Supplier's delivery note / invoice number
+  totalValue: decimal("total_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  notes: text("notes"),
+  receivedBy: varchar("received_by").references(() => users.id),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+});
+
+export type GoodsReceivedNote = typeof goodsReceivedNotes.$inferSelect;
+
+export const goodsReceivedNoteItems = pgTable("goods_received_note_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  goodsReceivedNoteId: varchar("goods_received_note_id").references(() => goodsReceivedNotes.id, { onDelete: "cascade" }).notNull(),
+  purchaseOrderItemId: varchar("purchase_order_item_id").references(() => purchaseOrderItems.id, { onDelete: "cascade" }).notNull(),
+  quantity: integer("quantity").notNull(),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 4 }).notNull(),
+  lotNumber: text("lot_number"),
+  expiryDate: timestamp("expiry_date"),
+  inventoryTransactionId: varchar("inventory_transaction_id").references(() => inventoryTransactions.id),
+});
+
+export type GoodsReceivedNoteItem = typeof goodsReceivedNoteItems.$inferSelect;
+
+// Quantities delivered against one purchase order line
+export const goodsReceiptLineSchema = z.object({
+  purchaseOrderItemId: z.string(),
+  quantity: z.number().int().positive(),
+  unitCost: z.number().min(0).optional(), // Defaults to the ordered unit cost
+}).merge(stockBatchInputSchema); // Lot number and expiry date start a stock batch
+export type GoodsReceiptLine = z.infer<typeof goodsReceiptLineSchema>;
+
+// Stock Transfers - stock moved from one branch to another. Dispatch books transfer_out at the
+// source; receipt books transfer_in at the destination for what actually arrived.
+export const STOCK_TRANSFER_STATUSES = ["draft", "dispatched", "in_transit", "received", "cancelled"] as const;
+
+export const stockTransfers = pgTable("stock_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transferNumber: text("transfer_number").notNull().unique(),
+  fromBranchId: varchar("from_branch_id").references(() => branches.id).notNull(),
+  toBranchId: varchar("to_branch_id").references(() => branches.id).notNull(),
+  status: text("status").notNull().default("draft"), // draft, dispatched, in_transit, received, cancelled
+  hasDiscrepancy: boolean("has_discrepancy").notNull().default(false), // Received less than was sent
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  dispatchedBy: varchar("dispatched_by").references(() => users.id),
+  receivedBy: varchar("received_by").references(() => users.id),
+  dispatchedAt: timestamp("dispatched_at"),
+  inTransitAt: timestamp("in_transit_at"),
+  receivedAt: timestamp("received_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertStockTransferSchema = createInsertSchema(stockTransfers).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertStockTransfer = z.infer<typeof insertStockTransferSchema>;
+export type StockTransfer = typeof stockTransfers.$inferSelect;
+
+// Stock Transfer lines - a finished menu item or an ingredient
+export const stockTransferItems = pgTable("stock_transfer_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stockTransferId: varchar("stock_transfer_id").references(() => stockTransfers.id, { onDelete: "cascade" }).notNull(),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id),
+  ingredientId: varchar("ingredient_id").references(() => ingredients.id),
+  description: text("description").notNull(), // Item name at time of transfer
+  quantitySent: integer("quantity_sent").notNull(),
+  quantityReceived: integer("quantity_received"), // Set on receipt
+  discrepancyReason: text("discrepancy_reason"), // Why less arrived (damaged, lost in transit)
+  dispatchTransactionId: varchar("dispatch_transaction_id").references(() => inventoryTransactions.id),
+  receiptTransactionId: varchar("receipt_transaction_id").references(() => inventoryTransactions.id),
+  batches: jsonb("batches").$type<TransferredBatch[]>(), // Batches drawn at dispatch
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertStockTransferItemSchema = createInsertSchema(stockTransferItems).omit({
+  id: true,
+  createdAt: true,
+  stockTransferId: true,
+  quantityReceived: true,
+  discrepancyReason: true,
+  dispatchTransactionId: true,
+  receiptTransactionId: true,
+  batches: true,
+});
+export type InsertStockTransferItem = z.infer<typeof insertStockTransferItemSchema>;
+export type StockTransferItem = typeof stockTransferItems.$inferSelect;
+
+// Quantity that arrived for one transfer line
+export const stockTransferReceiptLineSchema = z.object({
+  stockTransferItemId: z.string(),
+  quantityReceived: z.number().int().min(0),
+  discrepancyReason: z.string().optional(),
+});
+export type StockTransferReceiptLine = z.infer<typeof stockTransferReceiptLineSchema>;
+
 // Staff Shifts - Define shift templates and schedules
 export const staffShifts = pgTable("staff_shifts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -748,6 +1744,7 @@ export const marketingCampaigns = pgTable("marketing_campaigns", {
   scheduledAt: timestamp("scheduled_at"), // When to send (null = send immediately)
   status: text("status").notNull().default("draft"), // draft, scheduled, sending, completed, cancelled, failed
   branchId: varchar("branch_id").references(() => branches.id), // null = all branches
+  promoTemplateId: varchar("promo_template_id").references((): AnyPgColumn => promoCodes.id, { onDelete: "set null" }), // Each recipient gets a single-use code copying this promotion, shown with {{promo_code}}
   createdBy: varchar("created_by").references(() => users.id).notNull(),
   totalRecipients: integer("total_recipients").default(0), // Total customers targeted
   sentCount: integer("sent_count").default(0), // Successfully sent